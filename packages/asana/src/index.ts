@@ -23,11 +23,12 @@ export interface AsanaConfig {
   syncStatus?: boolean
 }
 
-interface AsanaTask {
+export interface AsanaTask {
   gid: string
   name: string
   completed: boolean
   notes?: string
+  modified_at?: string
 }
 
 interface AsanaResponse<T> {
@@ -93,6 +94,16 @@ export class AsanaClient {
   async getProjectTasks(projectId: string): Promise<AsanaTask[]> {
     return this.request('GET', `/projects/${projectId}/tasks?opt_fields=gid,name,completed,notes`)
   }
+
+  /**
+   * List project tasks including modification times, optionally only those
+   * modified after `modifiedSince`
+   */
+  async listModifiedTasks(projectId: string, modifiedSince?: string): Promise<AsanaTask[]> {
+    const params = new URLSearchParams({ project: projectId, opt_fields: 'gid,name,completed,notes,modified_at' })
+    if (modifiedSince) params.set('modified_since', modifiedSince)
+    return this.request('GET', `/tasks?${params.toString()}`)
+  }
 }
 
 /**
@@ -0,0 +1,72 @@
+import { AsanaClient, type AsanaTask } from './index'
+import type { ISyncRemote, RemoteSyncItem, SyncFieldMapping } from '@loopwork-ai/contracts'
+
+export interface AsanaSyncRemoteOptions {
+  client: AsanaClient
+  projectId: string
+  /** Remote name used for the sync state file (default: asana) */
+  name?: string
+}
+
+/**
+ * Asana project as a two-way sync remote
+ *
+ * Asana tasks only know open vs completed, and have no built-in priority,
+ * so the default mapping covers title, description and status.
+ * The sync cursor is passed to Asana as modified_since.
+ */
+export class AsanaSyncRemote implements ISyncRemote {
+  readonly name: string
+  readonly defaultMappings: SyncFieldMapping[] = [
+    { local: 'title', remote: 'name' },
+    { local: 'description', remote: 'notes' },
+    {
+      local: 'status',
+      remote: 'completed',
+      values: { pending: 'false', 'in-progress': 'false', failed: 'false', quarantined: 'false', completed: 'true' },
+    },
+  ]
+  private client: AsanaClient
+  private projectId: string
+
+  constructor(options: AsanaSyncRemoteOptions) {
+    this.name = options.name || 'asana'
+    this.client = options.client
+    this.projectId = options.projectId
+  }
+
+  async listItems(since?: string): Promise<RemoteSyncItem[]> {
+    const tasks = await this.client.listModifiedTasks(this.projectId, since)
+    return tasks.map(t => this.toItem(t))
+  }
+
+  async createItem(fields: Record<string, unknown>): Promise<RemoteSyncItem> {
+    let task = await this.client.createTask(this.projectId, String(fields.name ?? ''), fields.notes as string | undefined)
+    if (fields.completed === 'true') {
+      task = await this.client.updateTask(task.gid, { completed: true })
+    }
+    return this.toItem(task)
+  }
+
+  async updateItem(id: string, fields: Record<string, unknown>): Promise<RemoteSyncItem> {
+    const updates: Partial<{ name: string; notes: string; completed: boolean }> = {}
+    if ('name' in fields) updates.name = String(fields.name ?? '')
+    if ('notes' in fields) updates.notes = String(fields.notes ?? '')
+    if ('completed' in fields) updates.completed = fields.completed === 'true'
+
+    const task = await this.client.updateTask(id, updates)
+    return this.toItem(task)
+  }
+
+  private toItem(t: AsanaTask): RemoteSyncItem {
+    return {
+      id: t.gid,
+      updatedAt: t.modified_at,
+      fields: {
+        name: t.name,
+        notes: t.notes || '',
+        completed: String(Boolean(t.completed)),
+      },
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, test, mock, beforeEach, afterEach } from 'bun:test'
+import { AsanaClient } from '../src'
+import { AsanaSyncRemote } from '../src/sync'
+
+const originalFetch = global.fetch
+let mockFetch: ReturnType<typeof mock>
+
+const asanaTask = {
+  gid: '1001',
+  name: 'Write docs',
+  notes: 'API reference',
+  completed: false,
+  modified_at: '2026-03-01T10:00:00.000Z',
+}
+
+function respond(data: unknown) {
+  return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve({ data }), text: () => Promise.resolve('') })
+}
+
+beforeEach(() => {
+  mockFetch = mock((_url: string, init: any) => {
+    const body = init?.body ? JSON.parse(init.body).data : {}
+    return respond({ ...asanaTask, ...body })
+  })
+  global.fetch = mockFetch as any
+})
+
+afterEach(() => {
+  global.fetch = originalFetch
+})
+
+describe('AsanaSyncRemote', () => {
+  const remote = () => new AsanaSyncRemote({ client: new AsanaClient('test-token'), projectId: 'project-1' })
+
+  test('passes the cursor as modified_since', async () => {
+    mockFetch.mockImplementation(() => respond([asanaTask]))
+
+    const items = await remote().listItems('2026-03-01T00:00:00.000Z')
+
+    const url = new URL(mockFetch.mock.calls[0][0])
+    expect(url.pathname).toBe('/api/1.0/tasks')
+    expect(url.searchParams.get('project')).toBe('project-1')
+    expect(url.searchParams.get('modified_since')).toBe('2026-03-01T00:00:00.000Z')
+    expect(items).toEqual([{
+      id: '1001',
+      updatedAt: '2026-03-01T10:00:00.000Z',
+      fields: { name: 'Write docs', notes: 'API reference', completed: 'false' },
+    }])
+  })
+
+  test('creates tasks and completes them when needed', async () => {
+    const item = await remote().createItem({ name: 'Ship it', notes: '', completed: 'true' })
+
+    expect(mockFetch.mock.calls.map(c => c[1].method)).toEqual(['POST', 'PUT'])
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).data).toMatchObject({ name: 'Ship it', projects: ['project-1'] })
+    expect(item.fields.completed).toBe('true')
+  })
+
+  test('updates only the given fields', async () => {
+    await remote().updateItem('1001', { completed: 'false' })
+
+    expect(mockFetch.mock.calls[0][0]).toBe('https://app.asana.com/api/1.0/tasks/1001')
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({ data: { completed: false } })
+  })
+})
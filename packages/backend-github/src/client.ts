@@ -0,0 +1,116 @@
+import { $ } from 'bun'
+import type { ApiQuotaInfo } from '@loopwork-ai/contracts'
+
+/**
+ * GitHub issue interface (matching gh CLI JSON output)
+ */
+export interface GitHubIssue {
+  number: number
+  title: string
+  body?: string
+  state: 'open' | 'closed'
+  labels: { name: string }[]
+  url: string
+  createdAt: string
+  updatedAt: string
+  closedAt: string | null
+}
+
+export type IssueState = 'open' | 'closed' | 'all'
+
+export interface ListIssuesOptions {
+  label: string
+  state: IssueState
+  limit: number
+}
+
+export interface CreateIssueInput {
+  title: string
+  body: string
+  labels: string[]
+}
+
+/**
+ * Transport used by GitHubTaskAdapter.
+ *
+ * GhCliClient shells out to the gh CLI, GitHubHttpClient talks to the
+ * REST/GraphQL API directly. Both throw on failure so the adapter's
+ * retry runner can classify the error.
+ */
+export interface GitHubClient {
+  getIssue(issueNumber: number): Promise<GitHubIssue>
+  listIssues(options: ListIssuesOptions): Promise<GitHubIssue[]>
+  createIssue(input: CreateIssueInput): Promise<GitHubIssue>
+  addLabels(issueNumber: number, labels: string[]): Promise<void>
+  /** Remove a label, ignoring labels that are not on the issue */
+  removeLabel(issueNumber: number, label: string): Promise<void>
+  setBody(issueNumber: number, body: string): Promise<void>
+  addComment(issueNumber: number, body: string): Promise<void>
+  closeIssue(issueNumber: number, comment: string): Promise<void>
+  reopenIssue(issueNumber: number): Promise<void>
+  ping(): Promise<void>
+  getQuotaInfo(): Promise<ApiQuotaInfo>
+}
+
+const ISSUE_FIELDS = 'number,title,body,labels,url,state,createdAt,updatedAt,closedAt'
+
+/**
+ * gh CLI transport (requires `gh auth login` on the machine)
+ */
+export class GhCliClient implements GitHubClient {
+  constructor(private repo?: string) {}
+
+  private repoFlag(): string {
+    return this.repo ? `--repo ${this.repo}` : ''
+  }
+
+  async getIssue(issueNumber: number): Promise<GitHubIssue> {
+    const result = await $`gh issue view ${issueNumber} ${this.repoFlag()} --json ${ISSUE_FIELDS}`.quiet()
+    return JSON.parse(result.stdout.toString())
+  }
+
+  async listIssues(options: ListIssuesOptions): Promise<GitHubIssue[]> {
+    const result = await $`gh issue list ${this.repoFlag()} --label "${options.label}" --state ${options.state} --json ${ISSUE_FIELDS} --limit ${options.limit}`.quiet()
+    return JSON.parse(result.stdout.toString())
+  }
+
+  async createIssue(input: CreateIssueInput): Promise<GitHubIssue> {
+    const r = await $`gh issue create ${this.repoFlag()} --title "${input.title}" --body "${input.body}" --label "${input.labels.join(',')}" --json number,title,body,labels,url,createdAt,updatedAt,closedAt`.quiet()
+    return JSON.parse(r.stdout.toString())
+  }
+
+  async addLabels(issueNumber: number, labels: string[]): Promise<void> {
+    await $`gh issue edit ${issueNumber} ${this.repoFlag()} --add-label "${labels.join(',')}"`.quiet()
+  }
+
+  async removeLabel(issueNumber: number, label: string): Promise<void> {
+    await $`gh issue edit ${issueNumber} ${this.repoFlag()} --remove-label "${label}"`.quiet().nothrow()
+  }
+
+  async setBody(issueNumber: number, body: string): Promise<void> {
+    await $`gh issue edit ${issueNumber} ${this.repoFlag()} --body "${body}"`.quiet()
+  }
+
+  async addComment(issueNumber: number, body: string): Promise<void> {
+    await $`gh issue comment ${issueNumber} ${this.repoFlag()} --body "${body}"`.quiet()
+  }
+
+  async closeIssue(issueNumber: number, comment: string): Promise<void> {
+    await $`gh issue close ${issueNumber} ${this.repoFlag()} --comment "${comment}"`.quiet()
+  }
+
+  async reopenIssue(issueNumber: number): Promise<void> {
+    await $`gh issue reopen ${issueNumber} ${this.repoFlag()}`.quiet()
+  }
+
+  async ping(): Promise<void> {
+    await $`gh auth status`.quiet()
+  }
+
+  async getQuotaInfo(): Promise<ApiQuotaInfo> {
+    const result = await $`gh api rate_limit`.quiet()
+    const { resources } = JSON.parse(result.stdout.toString())
+    const core = resources.core as { limit: number; remaining: number; reset: number; used: number }
+    return { limit: core.limit, remaining: core.remaining, reset: core.reset * 1000, used: core.used }
+  }
+}
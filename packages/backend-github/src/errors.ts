@@ -0,0 +1,13 @@
+/**
+ * Custom error class for backend operations
+ */
+export class BackendError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public suggestions?: string[]
+  ) {
+    super(message)
+    this.name = 'BackendError'
+  }
+}
@@ -0,0 +1,400 @@
+import type { ApiQuotaInfo } from '@loopwork-ai/contracts'
+import { BackendError } from './errors'
+import type { GitHubClient, GitHubIssue, ListIssuesOptions, CreateIssueInput } from './client'
+
+export const DEFAULT_GITHUB_API_URL = 'https://api.github.com'
+
+/**
+ * Maximum number of cached ETag responses kept per client
+ */
+const ETAG_CACHE_SIZE = 500
+
+/** Largest page a GraphQL connection serves */
+const GRAPHQL_PAGE_SIZE = 100
+
+const LIST_ISSUES_QUERY = `
+query($owner: String!, $name: String!, $labels: [String!], $states: [IssueState!], $first: Int!, $after: String) {
+  repository(owner: $owner, name: $name) {
+    issues(first: $first, after: $after, labels: $labels, states: $states, orderBy: { field: CREATED_AT, direction: DESC }) {
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        number title body state url createdAt updatedAt closedAt
+        labels(first: 100) { nodes { name } }
+      }
+    }
+  }
+}`
+
+/** Rate-limit bucket of REST requests, reported by getQuotaInfo() */
+const CORE_RESOURCE = 'core'
+
+const MS_PER_SECOND = 1000
+
+export interface GitHubHttpClientConfig {
+  /** owner/repo */
+  repo?: string
+  token: string
+  /** REST API root (default: https://api.github.com, GHES: https://host/api/v3) */
+  apiUrl?: string
+}
+
+interface RestIssue {
+  number: number
+  title: string
+  body: string | null
+  state: 'open' | 'closed'
+  labels: Array<{ name: string } | string>
+  html_url: string
+  created_at: string
+  updated_at: string
+  closed_at: string | null
+}
+
+interface GraphQLIssue {
+  number: number
+  title: string
+  body: string
+  state: 'OPEN' | 'CLOSED'
+  url: string
+  createdAt: string
+  updatedAt: string
+  closedAt: string | null
+  labels: { nodes: { name: string }[] }
+}
+
+interface RateLimitResource {
+  limit: number
+  remaining: number
+  reset: number
+  used: number
+}
+
+interface RequestOptions {
+  method?: string
+  body?: unknown
+  /** Status codes treated as success besides 2xx/304 */
+  allowStatus?: number[]
+}
+
+/**
+ * Resolve the GraphQL endpoint for a REST API root.
+ * github.com serves both from the same host, GHES uses /api/graphql next to /api/v3.
+ */
+export function graphqlUrlFor(apiUrl: string): string {
+  const base = apiUrl.replace(/\/+$/, '')
+  return base.endsWith('/api/v3') ? `${base.slice(0, -'/v3'.length)}/graphql` : `${base}/graphql`
+}
+
+function fromRestIssue(issue: RestIssue): GitHubIssue {
+  return {
+    number: issue.number,
+    title: issue.title,
+    body: issue.body ?? '',
+    state: issue.state,
+    labels: issue.labels.map(l => (typeof l === 'string' ? { name: l } : { name: l.name })),
+    url: issue.html_url,
+    createdAt: issue.created_at,
+    updatedAt: issue.updated_at,
+    closedAt: issue.closed_at,
+  }
+}
+
+function fromGraphQLIssue(issue: GraphQLIssue): GitHubIssue {
+  return {
+    number: issue.number,
+    title: issue.title,
+    body: issue.body,
+    state: issue.state === 'CLOSED' ? 'closed' : 'open',
+    labels: issue.labels.nodes.map(l => ({ name: l.name })),
+    url: issue.url,
+    createdAt: issue.createdAt,
+    updatedAt: issue.updatedAt,
+    closedAt: issue.closedAt,
+  }
+}
+
+function toQuota(resource: RateLimitResource): ApiQuotaInfo {
+  return {
+    limit: resource.limit,
+    remaining: resource.remaining,
+    reset: resource.reset * MS_PER_SECOND,
+    used: resource.used,
+  }
+}
+
+/**
+ * GitHub REST/GraphQL transport
+ *
+ * Talks to the API with fetch and a token, so it works without the gh CLI.
+ * REST GET requests are conditional (If-None-Match) and served from a local
+ * ETag cache on 304, which GitHub does not count against the rate limit.
+ * Issue lists are paginated through GraphQL with cursors, which costs one
+ * point of the separate GraphQL budget per page. Rate-limit headers are kept
+ * per bucket (core, graphql, ...) and the core bucket is reported by
+ * getQuotaInfo().
+ */
+export class GitHubHttpClient implements GitHubClient {
+  private apiUrl: string
+  private graphqlUrl: string
+  private etags = new Map<string, { etag: string; data: unknown }>()
+  /** Latest quota by rate-limit resource */
+  private quotas = new Map<string, ApiQuotaInfo>()
+
+  constructor(private config: GitHubHttpClientConfig) {
+    this.apiUrl = (config.apiUrl || DEFAULT_GITHUB_API_URL).replace(/\/+$/, '')
+    this.graphqlUrl = graphqlUrlFor(this.apiUrl)
+  }
+
+  private repoPath(): string {
+    const repo = this.config.repo
+    if (!repo || !/^[\w.-]+\/[\w.-]+$/.test(repo)) {
+      throw new BackendError(
+        'ERR_CONFIG_INVALID',
+        `GitHub HTTP client needs a repository in owner/repo format (got "${repo ?? ''}")`,
+        [
+          'Set backend.repo in your loopwork config',
+          'Or set GITHUB_REPOSITORY=owner/repo',
+        ]
+      )
+    }
+    return `/repos/${repo}`
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      Accept: 'application/vnd.github+json',
+      Authorization: `Bearer ${this.config.token}`,
+      'User-Agent': 'loopwork',
+      'X-GitHub-Api-Version': '2022-11-28',
+    }
+  }
+
+  private recordQuota(response: Response): void {
+    const limit = response.headers.get('x-ratelimit-limit')
+    const remaining = response.headers.get('x-ratelimit-remaining')
+    const reset = response.headers.get('x-ratelimit-reset')
+    if (limit === null || remaining === null || reset === null) return
+
+    const used = response.headers.get('x-ratelimit-used')
+    this.quotas.set(response.headers.get('x-ratelimit-resource') || CORE_RESOURCE, {
+      limit: Number(limit),
+      remaining: Number(remaining),
+      reset: Number(reset) * MS_PER_SECOND,
+      used: used !== null ? Number(used) : Number(limit) - Number(remaining),
+    })
+  }
+
+  private async failure(response: Response): Promise<BackendError> {
+    let detail = ''
+    try {
+      const body = await response.json() as { message?: string }
+      detail = body.message ? `: ${body.message}` : ''
+    } catch {
+      // Body is not JSON
+    }
+
+    const remaining = response.headers.get('x-ratelimit-remaining')
+    const isRateLimited = response.status === 429 ||
+      (response.status === 403 && (remaining === '0' || response.headers.has('retry-after')))
+
+    if (isRateLimited) {
+      const reset = response.headers.get('x-ratelimit-reset')
+      return new BackendError(
+        'ERR_RATE_LIMIT',
+        `GitHub API rate limit exceeded (${response.status})${detail}`,
+        reset ? [`Limit resets at ${new Date(Number(reset) * MS_PER_SECOND).toISOString()}`] : undefined
+      )
+    }
+
+    if (response.status === 401) {
+      return new BackendError(
+        'ERR_AUTH',
+        `GitHub API rejected the token (401)${detail}`,
+        ['Check that the token is valid and has the repo scope']
+      )
+    }
+
+    return new BackendError('ERR_GITHUB_API', `GitHub API request failed with status ${response.status}${detail}`)
+  }
+
+  private cacheEtag(url: string, etag: string, data: unknown): void {
+    this.etags.delete(url)
+    this.etags.set(url, { etag, data })
+    if (this.etags.size > ETAG_CACHE_SIZE) {
+      const oldest = this.etags.keys().next().value
+      if (oldest !== undefined) this.etags.delete(oldest)
+    }
+  }
+
+  private async request<T>(path: string, options: RequestOptions = {}): Promise<T | null> {
+    const method = options.method || 'GET'
+    const url = `${this.apiUrl}${path}`
+    const headers = this.headers()
+    const cached = method === 'GET' ? this.etags.get(url) : undefined
+    if (cached) headers['If-None-Match'] = cached.etag
+    if (options.body !== undefined) headers['Content-Type'] = 'application/json'
+
+    const response = await fetch(url, {
+      method,
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    })
+    this.recordQuota(response)
+
+    if (response.status === 304 && cached) {
+      return cached.data as T
+    }
+    if (options.allowStatus?.includes(response.status)) {
+      return null
+    }
+    if (!response.ok) {
+      throw await this.failure(response)
+    }
+    if (response.status === 204) {
+      return null
+    }
+
+    const data = await response.json() as T
+    const etag = response.headers.get('etag')
+    if (method === 'GET' && etag) {
+      this.cacheEtag(url, etag, data)
+    }
+    return data
+  }
+
+  private async graphql<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const response = await fetch(this.graphqlUrl, {
+      method: 'POST',
+      headers: { ...this.headers(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, variables }),
+    })
+    this.recordQuota(response)
+
+    if (!response.ok) {
+      throw await this.failure(response)
+    }
+
+    const result = await response.json() as { data?: T; errors?: Array<{ type?: string; message: string }> }
+    if (result.errors && result.errors.length > 0) {
+      const rateLimited = result.errors.some(e => e.type === 'RATE_LIMITED')
+      throw new BackendError(
+        rateLimited ? 'ERR_RATE_LIMIT' : 'ERR_GITHUB_API',
+        `GitHub GraphQL error: ${result.errors.map(e => e.message).join('; ')}`
+      )
+    }
+    return result.data as T
+  }
+
+  async getIssue(issueNumber: number): Promise<GitHubIssue> {
+    const issue = await this.request<RestIssue>(`${this.repoPath()}/issues/${issueNumber}`)
+    return fromRestIssue(issue!)
+  }
+
+  async listIssues(options: ListIssuesOptions): Promise<GitHubIssue[]> {
+    const [owner, name] = this.repoPath().slice('/repos/'.length).split('/')
+    const states = options.state === 'all' ? ['OPEN', 'CLOSED'] : [options.state.toUpperCase()]
+    const issues: GitHubIssue[] = []
+    let after: string | null = null
+
+    while (issues.length < options.limit) {
+      const data: {
+        repository: {
+          issues: {
+            pageInfo: { hasNextPage: boolean; endCursor: string | null }
+            nodes: GraphQLIssue[]
+          }
+        } | null
+      } = await this.graphql(LIST_ISSUES_QUERY, {
+        owner,
+        name,
+        labels: [options.label],
+        states,
+        first: Math.min(GRAPHQL_PAGE_SIZE, options.limit - issues.length),
+        after,
+      })
+
+      if (!data.repository) {
+        throw new BackendError('ERR_GITHUB_API', `Repository ${owner}/${name} not found`)
+      }
+
+      const page = data.repository.issues
+      issues.push(...page.nodes.map(fromGraphQLIssue))
+      if (!page.pageInfo.hasNextPage || !page.pageInfo.endCursor) break
+      after = page.pageInfo.endCursor
+    }
+
+    return issues
+  }
+
+  async createIssue(input: CreateIssueInput): Promise<GitHubIssue> {
+    const issue = await this.request<RestIssue>(`${this.repoPath()}/issues`, {
+      method: 'POST',
+      body: input,
+    })
+    return fromRestIssue(issue!)
+  }
+
+  async addLabels(issueNumber: number, labels: string[]): Promise<void> {
+    await this.request(`${this.repoPath()}/issues/${issueNumber}/labels`, {
+      method: 'POST',
+      body: { labels },
+    })
+  }
+
+  async removeLabel(issueNumber: number, label: string): Promise<void> {
+    await this.request(`${this.repoPath()}/issues/${issueNumber}/labels/${encodeURIComponent(label)}`, {
+      method: 'DELETE',
+      allowStatus: [404],
+    })
+  }
+
+  async setBody(issueNumber: number, body: string): Promise<void> {
+    await this.request(`${this.repoPath()}/issues/${issueNumber}`, {
+      method: 'PATCH',
+      body: { body },
+    })
+  }
+
+  async addComment(issueNumber: number, body: string): Promise<void> {
+    await this.request(`${this.repoPath()}/issues/${issueNumber}/comments`, {
+      method: 'POST',
+      body: { body },
+    })
+  }
+
+  async closeIssue(issueNumber: number, comment: string): Promise<void> {
+    await this.addComment(issueNumber, comment)
+    await this.request(`${this.repoPath()}/issues/${issueNumber}`, {
+      method: 'PATCH',
+      body: { state: 'closed', state_reason: 'completed' },
+    })
+  }
+
+  async reopenIssue(issueNumber: number): Promise<void> {
+    await this.request(`${this.repoPath()}/issues/${issueNumber}`, {
+      method: 'PATCH',
+      body: { state: 'open' },
+    })
+  }
+
+  async ping(): Promise<void> {
+    await this.request(this.repoPath())
+  }
+
+  /**
+   * Core quota from the rate-limit headers of the most recent REST response,
+   * falling back to GET /rate_limit (which does not count against the limit)
+   * before the first request or once the window has reset. `reset` is in
+   * epoch milliseconds.
+   */
+  async getQuotaInfo(): Promise<ApiQuotaInfo> {
+    const cached = this.quotas.get(CORE_RESOURCE)
+    if (cached && cached.reset > Date.now()) return cached
+
+    const data = await this.request<{ resources: Record<string, RateLimitResource> }>('/rate_limit')
+    for (const [resource, quota] of Object.entries(data!.resources)) {
+      this.quotas.set(resource, toQuota(quota))
+    }
+    return this.quotas.get(CORE_RESOURCE)!
+  }
+}
@@ -1,7 +1,15 @@
-import { $ } from 'bun'
 import { createResilienceRunner, DEFAULT_RATE_LIMIT_WAIT_MS } from '@loopwork-ai/resilience'
-import type { TaskBackend, Task, FindTaskOptions, UpdateResult } from '@loopwork-ai/contracts'
+import type { TaskBackend, Task, FindTaskOptions, UpdateResult, ApiQuotaInfo } from '@loopwork-ai/contracts'
 import { logger } from '@loopwork-ai/common'
+import { BackendError } from './errors'
+import { GhCliClient, type GitHubClient, type GitHubIssue } from './client'
+import { GitHubHttpClient } from './http-client'
+
+export { BackendError } from './errors'
+export { GhCliClient } from './client'
+export type { GitHubClient, GitHubIssue, IssueState, ListIssuesOptions, CreateIssueInput } from './client'
+export { GitHubHttpClient, DEFAULT_GITHUB_API_URL, graphqlUrlFor } from './http-client'
+export type { GitHubHttpClientConfig } from './http-client'
 
 /**
  * GitHub labels for task management
@@ -18,20 +26,6 @@ export const LABELS = {
   PRIORITY_LOW: 'priority:low',
 }
 
-/**
- * Custom error class for backend operations
- */
-export class BackendError extends Error {
-  constructor(
-    public code: string,
-    message: string,
-    public suggestions?: string[]
-  ) {
-    super(message)
-    this.name = 'BackendError'
-  }
-}
-
 /**
  * Patterns for parsing dependencies and parent references from issue body
  */
@@ -39,26 +33,17 @@ const PARENT_PATTERN = /(?:^|\n)\s*(?:Parent|parent):\s*(?:#?(\d+)|([A-Z]+-\d+-\
 const DEPENDS_PATTERN = /(?:^|\n)\s*(?:Depends on|depends on|Dependencies|dependencies):\s*(.+?)(?:\n|$)/i
 const SCHEDULED_FOR_PATTERN = /(?:^|\n)\s*(?:Scheduled for|scheduled for|Schedule):\s*(.+?)(?:\n|$)/i
 
-/**
- * GitHub issue interface (matching gh CLI JSON output)
- */
-interface GitHubIssue {
-  number: number
-  title: string
-  body?: string
-  state: 'open' | 'closed'
-  labels: { name: string }[]
-  url: string
-  createdAt: string
-  updatedAt: string
-  closedAt: string | null
-}
-
 /**
  * GitHub backend configuration
  */
 export interface GitHubBackendConfig {
   repo?: string
+  /** API token; enables the HTTP client unless mode is set to 'cli' */
+  token?: string
+  /** REST API root for GitHub Enterprise Server (default: https://api.github.com) */
+  apiUrl?: string
+  /** Transport: 'cli' shells out to gh, 'http' calls the API with the token */
+  mode?: 'cli' | 'http'
 }
 
 /**
@@ -70,21 +55,35 @@ const GITHUB_MAX_RETRIES = 3
 /**
  * GitHub Issues Adapter
  *
- * Adapts GitHub Issues API (via gh CLI) to the TaskBackend interface.
+ * Adapts GitHub Issues to the TaskBackend interface, either through the
+ * gh CLI or directly over the REST/GraphQL API when a token is configured.
  */
 export class GitHubTaskAdapter implements TaskBackend {
   readonly name = 'github'
-  private repo?: string
+  readonly mode: 'cli' | 'http'
+  private client: GitHubClient
   private maxRetries = GITHUB_MAX_RETRIES
   private baseDelayMs = GITHUB_RETRY_BASE_DELAY_MS
   private rateLimitWaitMs = DEFAULT_RATE_LIMIT_WAIT_MS
 
   constructor(config: GitHubBackendConfig = {}) {
-    this.repo = config.repo
-  }
-
-  private repoFlag(): string {
-    return this.repo ? `--repo ${this.repo}` : ''
+    this.mode = config.mode || (config.token ? 'http' : 'cli')
+
+    if (this.mode === 'http') {
+      if (!config.token) {
+        throw new BackendError(
+          'ERR_CONFIG_INVALID',
+          'GitHub HTTP mode requires an API token',
+          [
+            'Pass token in the github backend config, e.g. token: process.env.GITHUB_TOKEN',
+            "Or use mode: 'cli' to go through an authenticated gh CLI",
+          ]
+        )
+      }
+      this.client = new GitHubHttpClient({ repo: config.repo, token: config.token, apiUrl: config.apiUrl })
+    } else {
+      this.client = new GhCliClient(config.repo)
+    }
   }
 
   private async withRetry<T>(fn: () => Promise<T>, retries = this.maxRetries): Promise<T> {
@@ -116,7 +115,7 @@ export class GitHubTaskAdapter implements TaskBackend {
   }
 
   async findNextTask(options?: FindTaskOptions): Promise<Task | null> {
-    const tasks = await this.listPendingTasks(options)
+    const tasks = (await this.listPendingTasks(options)).filter(t => !options?.exclude?.includes(t.id))
     const task = tasks[0] || null
     if (!task) return null
 
@@ -129,8 +128,7 @@ export class GitHubTaskAdapter implements TaskBackend {
 
     try {
       return await this.withRetry(async () => {
-        const result = await $`gh issue view ${issueNumber} ${this.repoFlag()} --json number,title,body,labels,url,state,createdAt,updatedAt,closedAt`.quiet()
-        const issue: GitHubIssue = JSON.parse(result.stdout.toString())
+        const issue = await this.client.getIssue(issueNumber)
         return this.adaptIssue(issue)
       })
     } catch {
@@ -141,7 +139,7 @@ export class GitHubTaskAdapter implements TaskBackend {
   async listTasks(options?: FindTaskOptions): Promise<Task[]> {
     try {
       return await this.withRetry(async () => {
-        let stateFilter = 'open'
+        let stateFilter: 'open' | 'closed' | 'all' = 'open'
         if (options?.status) {
           const statuses = Array.isArray(options.status) ? options.status : [options.status]
           if (statuses.includes('completed')) {
@@ -149,8 +147,7 @@ export class GitHubTaskAdapter implements TaskBackend {
           }
         }
 
-        const result = await $`gh issue list ${this.repoFlag()} --label "${LABELS.LOOPWORK_TASK}" --state ${stateFilter} --json number,title,body,labels,url,state,createdAt,updatedAt,closedAt --limit 100`.quiet()
-        const issues: GitHubIssue[] = JSON.parse(result.stdout.toString())
+        const issues = await this.client.listIssues({ label: LABELS.LOOPWORK_TASK, state: stateFilter, limit: 100 })
         const allTasks = issues.map(issue => this.adaptIssue(issue))
 
         let tasks = allTasks
@@ -232,9 +229,9 @@ export class GitHubTaskAdapter implements TaskBackend {
 
     try {
       await this.withRetry(async () => {
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --remove-label "${LABELS.STATUS_PENDING}"`.quiet().nothrow()
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --remove-label "${LABELS.STATUS_FAILED}"`.quiet().nothrow()
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --add-label "${LABELS.STATUS_IN_PROGRESS}"`.quiet()
+        await this.client.removeLabel(issueNumber, LABELS.STATUS_PENDING)
+        await this.client.removeLabel(issueNumber, LABELS.STATUS_FAILED)
+        await this.client.addLabels(issueNumber, [LABELS.STATUS_IN_PROGRESS])
       })
       return { success: true }
     } catch (e: unknown) {
@@ -249,7 +246,7 @@ export class GitHubTaskAdapter implements TaskBackend {
     try {
       await this.withRetry(async () => {
         const msg = comment || 'Completed by Loopwork'
-        await $`gh issue close ${issueNumber} ${this.repoFlag()} --comment "${msg}"`.quiet()
+        await this.client.closeIssue(issueNumber, msg)
       })
       return { success: true }
     } catch (e: unknown) {
@@ -263,10 +260,10 @@ export class GitHubTaskAdapter implements TaskBackend {
 
     try {
       await this.withRetry(async () => {
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --remove-label "${LABELS.STATUS_IN_PROGRESS}"`.quiet().nothrow()
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --add-label "${LABELS.STATUS_FAILED}"`.quiet()
+        await this.client.removeLabel(issueNumber, LABELS.STATUS_IN_PROGRESS)
+        await this.client.addLabels(issueNumber, [LABELS.STATUS_FAILED])
         const commentText = `**Loopwork Failed**\n\n\`\`\`\n${error}\n\`\`\``
-        await $`gh issue comment ${issueNumber} ${this.repoFlag()} --body "${commentText}"`.quiet()
+        await this.client.addComment(issueNumber, commentText)
       })
       return { success: true }
     } catch (e: unknown) {
@@ -280,11 +277,11 @@ export class GitHubTaskAdapter implements TaskBackend {
 
     try {
       await this.withRetry(async () => {
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --remove-label "${LABELS.STATUS_PENDING}"`.quiet().nothrow()
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --remove-label "${LABELS.STATUS_IN_PROGRESS}"`.quiet().nothrow()
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --add-label "${LABELS.STATUS_QUARANTINED}"`.quiet()
+        await this.client.removeLabel(issueNumber, LABELS.STATUS_PENDING)
+        await this.client.removeLabel(issueNumber, LABELS.STATUS_IN_PROGRESS)
+        await this.client.addLabels(issueNumber, [LABELS.STATUS_QUARANTINED])
         const commentText = `**Loopwork Quarantined**\n\nReason: ${reason}`
-        await $`gh issue comment ${issueNumber} ${this.repoFlag()} --body "${commentText}"`.quiet()
+        await this.client.addComment(issueNumber, commentText)
       })
       return { success: true }
     } catch (e: unknown) {
@@ -298,9 +295,9 @@ export class GitHubTaskAdapter implements TaskBackend {
 
     try {
       await this.withRetry(async () => {
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --remove-label "${LABELS.STATUS_FAILED}"`.quiet().nothrow()
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --remove-label "${LABELS.STATUS_IN_PROGRESS}"`.quiet().nothrow()
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --add-label "${LABELS.STATUS_PENDING}"`.quiet()
+        await this.client.removeLabel(issueNumber, LABELS.STATUS_FAILED)
+        await this.client.removeLabel(issueNumber, LABELS.STATUS_IN_PROGRESS)
+        await this.client.addLabels(issueNumber, [LABELS.STATUS_PENDING])
       })
       return { success: true }
     } catch (e: unknown) {
@@ -324,10 +321,10 @@ export class GitHubTaskAdapter implements TaskBackend {
       }
 
       await this.withRetry(async () => {
-        await $`gh issue reopen ${issueNumber} ${this.repoFlag()}`.quiet()
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --remove-label "${LABELS.STATUS_IN_PROGRESS}"`.quiet().nothrow()
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --remove-label "${LABELS.STATUS_FAILED}"`.quiet().nothrow()
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --add-label "${LABELS.STATUS_PENDING}"`.quiet()
+        await this.client.reopenIssue(issueNumber)
+        await this.client.removeLabel(issueNumber, LABELS.STATUS_IN_PROGRESS)
+        await this.client.removeLabel(issueNumber, LABELS.STATUS_FAILED)
+        await this.client.addLabels(issueNumber, [LABELS.STATUS_PENDING])
 
         if (scheduledFor) {
           let newBody = task.description
@@ -336,11 +333,11 @@ export class GitHubTaskAdapter implements TaskBackend {
           } else {
             newBody = `Scheduled for: ${scheduledFor}\n\n${newBody}`
           }
-          await $`gh issue edit ${issueNumber} ${this.repoFlag()} --body "${newBody}"`.quiet()
+          await this.client.setBody(issueNumber, newBody)
         }
 
         const msg = `Task rescheduled to pending${scheduledFor ? ` for ${scheduledFor}` : ''}`
-        await $`gh issue comment ${issueNumber} ${this.repoFlag()} --body "${msg}"`.quiet()
+        await this.client.addComment(issueNumber, msg)
       })
       return { success: true, scheduledFor }
     } catch (e: unknown) {
@@ -354,7 +351,7 @@ export class GitHubTaskAdapter implements TaskBackend {
 
     try {
       await this.withRetry(async () => {
-        await $`gh issue comment ${issueNumber} ${this.repoFlag()} --body "${comment}"`.quiet()
+        await this.client.addComment(issueNumber, comment)
       })
       return { success: true }
     } catch (e: unknown) {
@@ -365,8 +362,8 @@ export class GitHubTaskAdapter implements TaskBackend {
   async ping(): Promise<{ ok: boolean; latencyMs: number; error?: string }> {
     const start = Date.now()
     try {
-      const result = await $`gh auth status`.quiet()
-      return { ok: result.exitCode === 0, latencyMs: Date.now() - start }
+      await this.client.ping()
+      return { ok: true, latencyMs: Date.now() - start }
     } catch (e: unknown) {
       return { ok: false, latencyMs: Date.now() - start, error: e instanceof Error ? e.message : String(e) }
     }
@@ -429,8 +426,7 @@ export class GitHubTaskAdapter implements TaskBackend {
     if (task.feature) labels.push(`feat:${task.feature}`)
 
     const result = await this.withRetry(async () => {
-      const r = await $`gh issue create ${this.repoFlag()} --title "${task.title}" --body "${body}" --label "${labels.join(',')}" --json number,title,body,labels,url,createdAt,updatedAt,closedAt`.quiet()
-      return JSON.parse(r.stdout.toString())
+      return this.client.createIssue({ title: task.title, body, labels })
     })
 
     return this.adaptIssue(result)
@@ -458,7 +454,7 @@ export class GitHubTaskAdapter implements TaskBackend {
 
     try {
       await this.withRetry(async () => {
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --body "${newBody}"`.quiet()
+        await this.client.setBody(issueNumber, newBody)
       })
       return { success: true }
     } catch (e: unknown) {
@@ -485,7 +481,7 @@ export class GitHubTaskAdapter implements TaskBackend {
 
     try {
       await this.withRetry(async () => {
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --body "${newBody}"`.quiet()
+        await this.client.setBody(issueNumber, newBody)
       })
       return { success: true }
     } catch (e: unknown) {
@@ -525,9 +521,12 @@ export class GitHubTaskAdapter implements TaskBackend {
       body = task.parentId ? body.replace(task.description, `${depsLine}\n\n${task.description}`) : `${depsLine}\n\n${body}`
     }
 
+    if (task.scheduledFor) {
+      body = `Scheduled for: ${task.scheduledFor}\n\n${body}`
+    }
+
     const result = await this.withRetry(async () => {
-      const r = await $`gh issue create ${this.repoFlag()} --title "${task.title}" --body "${body}" --label "${labels.join(',')}" --json number,title,body,labels,url,createdAt,updatedAt,closedAt`.quiet()
-      return JSON.parse(r.stdout.toString())
+      return this.client.createIssue({ title: task.title, body, labels })
     })
 
     return this.adaptIssue(result)
@@ -539,12 +538,12 @@ export class GitHubTaskAdapter implements TaskBackend {
 
     try {
       await this.withRetry(async () => {
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --remove-label "${LABELS.PRIORITY_HIGH}"`.quiet().nothrow()
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --remove-label "${LABELS.PRIORITY_MEDIUM}"`.quiet().nothrow()
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --remove-label "${LABELS.PRIORITY_LOW}"`.quiet().nothrow()
+        await this.client.removeLabel(issueNumber, LABELS.PRIORITY_HIGH)
+        await this.client.removeLabel(issueNumber, LABELS.PRIORITY_MEDIUM)
+        await this.client.removeLabel(issueNumber, LABELS.PRIORITY_LOW)
 
         const priorityLabel = `priority:${priority}`
-        await $`gh issue edit ${issueNumber} ${this.repoFlag()} --add-label "${priorityLabel}"`.quiet()
+        await this.client.addLabels(issueNumber, [priorityLabel])
       })
       return { success: true }
     } catch (e: unknown) {
@@ -552,11 +551,18 @@ export class GitHubTaskAdapter implements TaskBackend {
     }
   }
 
+  /**
+   * API quota. In HTTP mode this reflects the rate-limit headers of the
+   * latest response; in CLI mode it is read from `gh api rate_limit`.
+   */
+  async getQuotaInfo(): Promise<ApiQuotaInfo> {
+    return this.client.getQuotaInfo()
+  }
+
   private async listAllTasks(): Promise<Task[]> {
     try {
       return await this.withRetry(async () => {
-        const result = await $`gh issue list ${this.repoFlag()} --label "${LABELS.LOOPWORK_TASK}" --state open --json number,title,body,labels,url,createdAt,updatedAt,closedAt --limit 200`.quiet()
-        const issues: GitHubIssue[] = JSON.parse(result.stdout.toString())
+        const issues = await this.client.listIssues({ label: LABELS.LOOPWORK_TASK, state: 'open', limit: 200 })
         return issues.map(issue => this.adaptIssue(issue))
       })
     } catch {
@@ -0,0 +1,348 @@
+import { describe, expect, test, beforeAll, afterAll, beforeEach } from 'bun:test'
+import { GitHubTaskAdapter, GitHubHttpClient, BackendError, graphqlUrlFor } from '../src/index'
+
+/**
+ * GitHub HTTP client tests
+ *
+ * Runs the adapter in HTTP mode against a local mock of the GitHub API.
+ */
+
+interface MockIssue {
+  number: number
+  title: string
+  body: string
+  state: 'open' | 'closed'
+  labels: string[]
+}
+
+interface RecordedRequest {
+  method: string
+  path: string
+  ifNoneMatch: string | null
+  body: unknown
+}
+
+let server: ReturnType<typeof Bun.serve>
+let apiUrl: string
+let issues: MockIssue[]
+let requests: RecordedRequest[]
+let remaining: number
+let reset: number
+
+const CREATED = '2026-01-01T00:00:00Z'
+
+function rateHeaders(): Record<string, string> {
+  return {
+    'x-ratelimit-limit': '5000',
+    'x-ratelimit-remaining': String(remaining),
+    'x-ratelimit-used': String(5000 - remaining),
+    'x-ratelimit-reset': String(reset),
+  }
+}
+
+function restIssue(issue: MockIssue) {
+  return {
+    number: issue.number,
+    title: issue.title,
+    body: issue.body,
+    state: issue.state,
+    labels: issue.labels.map(name => ({ name })),
+    html_url: `https://github.com/owner/repo/issues/${issue.number}`,
+    created_at: CREATED,
+    updated_at: CREATED,
+    closed_at: null,
+  }
+}
+
+function graphqlIssue(issue: MockIssue) {
+  return {
+    number: issue.number,
+    title: issue.title,
+    body: issue.body,
+    state: issue.state.toUpperCase(),
+    url: `https://github.com/owner/repo/issues/${issue.number}`,
+    createdAt: CREATED,
+    updatedAt: CREATED,
+    closedAt: null,
+    labels: { nodes: issue.labels.map(name => ({ name })) },
+  }
+}
+
+function json(data: unknown, status = 200, extra: Record<string, string> = {}) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'content-type': 'application/json', ...rateHeaders(), ...extra },
+  })
+}
+
+async function handle(req: Request): Promise<Response> {
+  const url = new URL(req.url)
+  const body = req.method === 'GET' || req.method === 'DELETE' ? undefined : await req.json()
+  requests.push({ method: req.method, path: url.pathname, ifNoneMatch: req.headers.get('if-none-match'), body })
+  remaining--
+
+  if (req.headers.get('authorization') !== 'Bearer test-token') {
+    return json({ message: 'Bad credentials' }, 401)
+  }
+
+  if (url.pathname === '/graphql') {
+    const { variables } = body as { variables: { first: number; after: string | null; states: string[] } }
+    const matching = issues.filter(i => variables.states.includes(i.state.toUpperCase()))
+    const start = variables.after ? Number(variables.after) : 0
+    const page = matching.slice(start, start + variables.first)
+    const end = start + page.length
+    return json({
+      data: {
+        repository: {
+          issues: {
+            pageInfo: { hasNextPage: end < matching.length, endCursor: end < matching.length ? String(end) : null },
+            nodes: page.map(graphqlIssue),
+          },
+        },
+      },
+    }, 200, { 'x-ratelimit-resource': 'graphql' })
+  }
+
+  if (url.pathname === '/rate_limit') {
+    return json({
+      resources: {
+        core: { limit: 5000, remaining, used: 5000 - remaining, reset },
+        search: { limit: 30, remaining: 30, used: 0, reset },
+      },
+    })
+  }
+
+  const match = url.pathname.match(/^\/repos\/owner\/repo\/issues\/(\d+)(\/labels(?:\/(.+))?|\/comments)?$/)
+  const issue = match ? issues.find(i => i.number === Number(match[1])) : undefined
+  if (!match || !issue) return json({ message: 'Not Found' }, 404)
+
+  if (match[2] === '/comments') return json({ id: 1 }, 201)
+
+  if (match[2]?.startsWith('/labels')) {
+    if (req.method === 'DELETE') {
+      const label = decodeURIComponent(match[3])
+      if (!issue.labels.includes(label)) return json({ message: 'Label does not exist' }, 404)
+      issue.labels = issue.labels.filter(l => l !== label)
+      return json([])
+    }
+    issue.labels.push(...(body as { labels: string[] }).labels)
+    return json([])
+  }
+
+  if (req.method === 'PATCH') {
+    Object.assign(issue, body)
+    return json(restIssue(issue))
+  }
+
+  const etag = `"${issue.number}-${issue.labels.join(',')}-${issue.state}"`
+  if (req.headers.get('if-none-match') === etag) {
+    return new Response(null, { status: 304, headers: { etag, ...rateHeaders() } })
+  }
+  return json(restIssue(issue), 200, { etag })
+}
+
+beforeAll(() => {
+  server = Bun.serve({ port: 0, fetch: handle })
+  apiUrl = `http://localhost:${server.port}`
+})
+
+afterAll(() => {
+  server.stop(true)
+})
+
+beforeEach(() => {
+  requests = []
+  remaining = 5000
+  reset = 1800000000
+  issues = [
+    { number: 1, title: 'Low task', body: 'low', state: 'open', labels: ['loopwork-task', 'loopwork:pending', 'priority:low'] },
+    { number: 2, title: 'High task', body: 'Depends on: #1', state: 'open', labels: ['loopwork-task', 'loopwork:pending', 'priority:high'] },
+    { number: 3, title: 'Done task', body: '', state: 'closed', labels: ['loopwork-task'] },
+  ]
+  for (let n = 4; n <= 130; n++) {
+    const body = n === 130 ? 'Depends on: #1' : ''
+    issues.push({ number: n, title: `Task ${n}`, body, state: 'open', labels: ['loopwork-task', 'loopwork:in-progress'] })
+  }
+})
+
+function createAdapter() {
+  return new GitHubTaskAdapter({ repo: 'owner/repo', token: 'test-token', apiUrl })
+}
+
+describe('GitHubTaskAdapter (HTTP mode)', () => {
+  test('uses the HTTP client when a token is configured', () => {
+    expect(createAdapter().mode).toBe('http')
+    expect(new GitHubTaskAdapter({ repo: 'owner/repo' }).mode).toBe('cli')
+    expect(new GitHubTaskAdapter({ repo: 'owner/repo', token: 't', mode: 'cli' }).mode).toBe('cli')
+  })
+
+  test('rejects http mode without a token', () => {
+    expect(() => new GitHubTaskAdapter({ repo: 'owner/repo', mode: 'http' })).toThrow(BackendError)
+  })
+
+  test('lists tasks sorted by priority', async () => {
+    const tasks = await createAdapter().listTasks({ status: 'pending' })
+
+    expect(tasks.map(t => t.id)).toEqual(['GH-2', 'GH-1'])
+    expect(tasks[0].dependsOn).toEqual(['GH-1'])
+  })
+
+  test('paginates issue lists through GraphQL', async () => {
+    const dependents = await createAdapter().getDependents('GH-1')
+
+    expect(dependents.map(t => t.id)).toEqual(['GH-2', 'GH-130'])
+    expect(requests.filter(r => r.path === '/graphql')).toHaveLength(2)
+  })
+
+  test('follows the GraphQL cursor across pages', async () => {
+    const client = new GitHubHttpClient({ repo: 'owner/repo', token: 'test-token', apiUrl })
+    const listed = await client.listIssues({ label: 'loopwork-task', state: 'all', limit: 250 })
+
+    expect(listed.map(i => i.number)).toEqual(issues.map(i => i.number))
+    expect(requests.map(r => (r.body as { variables: { after: string | null } }).variables.after)).toEqual([null, '100'])
+  })
+
+  test('stops paginating at the list limit', async () => {
+    const client = new GitHubHttpClient({ repo: 'owner/repo', token: 'test-token', apiUrl })
+    const listed = await client.listIssues({ label: 'loopwork-task', state: 'all', limit: 5 })
+
+    expect(listed).toHaveLength(5)
+    expect(requests).toHaveLength(1)
+    expect((requests[0].body as { variables: { first: number } }).variables.first).toBe(5)
+  })
+
+  test('serves unchanged issues from the ETag cache', async () => {
+    const adapter = createAdapter()
+    const first = await adapter.getTask('GH-2')
+    const second = await adapter.getTask('GH-2')
+
+    expect(second).toEqual(first)
+    expect(requests[0].ifNoneMatch).toBeNull()
+    expect(requests[1].ifNoneMatch).toBe('"2-loopwork-task,loopwork:pending,priority:high-open"')
+  })
+
+  test('updates labels through the REST API', async () => {
+    const result = await createAdapter().markInProgress('GH-1')
+
+    expect(result.success).toBe(true)
+    expect(issues[0].labels).toEqual(['loopwork-task', 'priority:low', 'loopwork:in-progress'])
+    expect(requests.map(r => `${r.method} ${r.path}`)).toEqual([
+      'DELETE /repos/owner/repo/issues/1/labels/loopwork%3Apending',
+      'DELETE /repos/owner/repo/issues/1/labels/loopwork%3Afailed',
+      'POST /repos/owner/repo/issues/1/labels',
+    ])
+  })
+
+  test('closes issues with a comment', async () => {
+    const result = await createAdapter().markCompleted('GH-1', 'done')
+
+    expect(result.success).toBe(true)
+    expect(issues[0].state).toBe('closed')
+    expect(requests[0].body).toEqual({ body: 'done' })
+  })
+
+  test('reports quota from response headers', async () => {
+    const adapter = createAdapter()
+    await adapter.getTask('GH-1')
+    await adapter.getTask('GH-2')
+
+    const quota = await adapter.getQuotaInfo()
+    expect(quota).toEqual({ limit: 5000, remaining: 4998, used: 2, reset: 1800000000 * 1000 })
+  })
+
+  test('keeps the GraphQL bucket out of the core quota', async () => {
+    const client = new GitHubHttpClient({ repo: 'owner/repo', token: 'test-token', apiUrl })
+    await client.getIssue(1)
+    remaining -= 100
+    await client.listIssues({ label: 'loopwork-task', state: 'open', limit: 5 })
+
+    expect((await client.getQuotaInfo()).remaining).toBe(4999)
+  })
+
+  test('reports the core quota when another bucket answered last', async () => {
+    let calls = 0
+    const bucketServer = Bun.serve({
+      port: 0,
+      fetch: () => json(restIssue(issues[0]), 200, ++calls === 1 ? {} : {
+        'x-ratelimit-resource': 'search',
+        'x-ratelimit-limit': '30',
+        'x-ratelimit-remaining': '29',
+      }),
+    })
+    try {
+      const client = new GitHubHttpClient({ repo: 'owner/repo', token: 'test-token', apiUrl: `http://localhost:${bucketServer.port}` })
+      await client.getIssue(1)
+      await client.getIssue(1)
+
+      expect((await client.getQuotaInfo()).limit).toBe(5000)
+      expect(calls).toBe(2)
+    } finally {
+      bucketServer.stop(true)
+    }
+  })
+
+  test('refreshes the quota once its window has reset', async () => {
+    const client = new GitHubHttpClient({ repo: 'owner/repo', token: 'test-token', apiUrl })
+    reset = Math.floor(Date.now() / 1000) - 60
+    await client.getIssue(1)
+    reset = 1800000000
+
+    const quota = await client.getQuotaInfo()
+    expect(quota.reset).toBe(1800000000 * 1000)
+    expect(requests.map(r => r.path)).toEqual(['/repos/owner/repo/issues/1', '/rate_limit'])
+  })
+
+  test('fetches quota from /rate_limit before any request', async () => {
+    const quota = await createAdapter().getQuotaInfo()
+
+    expect(quota.limit).toBe(5000)
+    expect(requests.map(r => r.path)).toEqual(['/rate_limit'])
+  })
+
+  test('pings the repository', async () => {
+    const adapter = new GitHubTaskAdapter({ repo: 'owner/repo', token: 'wrong', apiUrl })
+    const result = await adapter.ping()
+
+    expect(result.ok).toBe(false)
+    expect(result.error).toContain('401')
+  })
+})
+
+describe('GitHubHttpClient', () => {
+  test('maps rejected tokens to an auth error', async () => {
+    const client = new GitHubHttpClient({ repo: 'owner/repo', token: 'wrong', apiUrl: `${apiUrl}/` })
+
+    const error = await client.getIssue(1).catch(e => e)
+    expect(error).toBeInstanceOf(BackendError)
+    expect(error.code).toBe('ERR_AUTH')
+  })
+
+  test('maps exhausted quota to a rate limit error', async () => {
+    const rateServer = Bun.serve({
+      port: 0,
+      fetch: () => new Response(JSON.stringify({ message: 'API rate limit exceeded' }), {
+        status: 403,
+        headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1800000000' },
+      }),
+    })
+    try {
+      const client = new GitHubHttpClient({ repo: 'owner/repo', token: 'test-token', apiUrl: `http://localhost:${rateServer.port}` })
+      const error = await client.getIssue(1).catch(e => e)
+      expect(error.code).toBe('ERR_RATE_LIMIT')
+      expect(error.suggestions[0]).toContain('2027-01-15')
+    } finally {
+      rateServer.stop(true)
+    }
+  })
+
+  test('requires an owner/repo repository', async () => {
+    const client = new GitHubHttpClient({ token: 'test-token', apiUrl })
+    const error = await client.getIssue(1).catch(e => e)
+    expect(error.code).toBe('ERR_CONFIG_INVALID')
+  })
+
+  test('derives the GraphQL endpoint', () => {
+    expect(graphqlUrlFor('https://api.github.com')).toBe('https://api.github.com/graphql')
+    expect(graphqlUrlFor('https://ghe.example.com/api/v3/')).toBe('https://ghe.example.com/api/graphql')
+  })
+})
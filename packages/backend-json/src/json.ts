@@ -1,6 +1,7 @@
 import fs from 'fs'
 import path from 'path'
 import { logger, LoopworkError, DEFAULT_LOCK_TIMEOUT_MS, LOCK_STALE_TIMEOUT_MS, LOCK_RETRY_DELAY_MS } from './utils'
+import { redactSecrets } from '@loopwork-ai/common'
 import type {
   TaskBackend,
   Task,
@@ -31,6 +32,16 @@ function getErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : String(error)
 }
 
+/**
+ * Whether a task's scheduled time has come (unscheduled or unparseable counts as due)
+ */
+function isDue(scheduledFor: string | null | undefined): boolean {
+  if (!scheduledFor) return true
+  const scheduledDate = new Date(scheduledFor)
+  if (isNaN(scheduledDate.getTime())) return true
+  return scheduledDate <= new Date()
+}
+
 /**
  * JSON task file schema
  */
@@ -183,7 +194,8 @@ export class JsonTaskAdapter implements TaskBackend {
   }
 
   async findNextTask(options?: FindTaskOptions): Promise<Task | null> {
-    const tasks = await this.listPendingTasks(options)
+    const tasks = (await this.listPendingTasks(options))
+      .filter(t => isDue(t.scheduledFor) && !options?.exclude?.includes(t.id))
 
     if (options?.startFrom) {
       const startIdx = tasks.findIndex(t => t.id === options.startFrom)
@@ -244,12 +256,11 @@ export class JsonTaskAdapter implements TaskBackend {
       }
 
       // Filter tasks by scheduledFor - exclude future-scheduled tasks
-      entries = entries.filter(t => {
-        if (!t.scheduledFor) return true
-        const scheduledDate = new Date(t.scheduledFor)
-        if (isNaN(scheduledDate.getTime())) return true
-        return scheduledDate <= new Date()
-      })
+      entries = entries.filter(t => isDue(t.scheduledFor))
+
+      if (options?.exclude?.length) {
+        entries = entries.filter(t => !options.exclude!.includes(t.id))
+      }
 
       // Sort by priority
       const priorityOrder: Record<Priority, number> = { high: 0, medium: 1, low: 2, background: 3 }
@@ -650,6 +661,7 @@ export class JsonTaskAdapter implements TaskBackend {
         if (updates.feature) entry.feature = updates.feature
         if (updates.parentId !== undefined) entry.parentId = updates.parentId
         if (updates.dependsOn) entry.dependsOn = updates.dependsOn
+        if (updates.scheduledFor !== undefined) entry.scheduledFor = updates.scheduledFor
         if (updates.metadata) {
           entry.metadata = { ...entry.metadata, ...updates.metadata }
         }
@@ -716,6 +728,38 @@ export class JsonTaskAdapter implements TaskBackend {
     }
   }
 
+  async addEvent(taskId: string, event: Omit<TaskEvent, 'taskId' | 'timestamp'>): Promise<UpdateResult> {
+    try {
+      return await this.withLock(() => {
+        const data = this.loadTasksFile()
+        if (!data) {
+          return { success: false, error: 'Tasks file not found' }
+        }
+
+        const entry = data.tasks.find(t => t.id === taskId)
+        if (!entry) {
+          return { success: false, error: `Task ${taskId} not found` }
+        }
+
+        if (!entry.events) entry.events = []
+        entry.events.push({
+          ...event,
+          message: redactSecrets(event.message),
+          taskId,
+          timestamp: new Date().toISOString(),
+        })
+
+        if (this.saveTasksFile(data)) {
+          return { success: true }
+        }
+
+        return { success: false, error: 'Failed to save tasks file' }
+      })
+    } catch (e: unknown) {
+      return { success: false, error: getErrorMessage(e) }
+    }
+  }
+
   async ping(): Promise<{ ok: boolean; latencyMs: number; error?: string }> {
     const start = Date.now()
     try {
@@ -833,6 +877,7 @@ export class JsonTaskAdapter implements TaskBackend {
     },
     failureCount: entry.failureCount,
     lastError: entry.lastError,
+    scheduledFor: entry.scheduledFor,
     timestamps: entry.timestamps,
     events: entry.events,
   }
@@ -933,6 +978,7 @@ export class JsonTaskAdapter implements TaskBackend {
         parentId: task.parentId,
         dependsOn: task.dependsOn,
         metadata: task.metadata,
+        ...(task.scheduledFor ? { scheduledFor: task.scheduledFor } : {}),
         timestamps: task.timestamps || { createdAt: now, updatedAt: now },
         events: task.events || [{
           taskId: newId,
@@ -969,6 +1015,7 @@ export class JsonTaskAdapter implements TaskBackend {
           ...task.metadata,
           prdFile,
         },
+        scheduledFor: newEntry.scheduledFor,
         timestamps: newEntry.timestamps,
         events: newEntry.events,
       }
@@ -1142,12 +1189,12 @@ export class JsonTaskAdapter implements TaskBackend {
       eventType = 'failed'
       eventMessage = comment || 'Task failed'
       entry.failureCount = (entry.failureCount || 0) + 1
-      entry.lastError = (metadata?.error as string) || comment || 'Unknown error'
+      entry.lastError = redactSecrets((metadata?.error as string) || comment || 'Unknown error')
     } else if (status === 'quarantined') {
       entry.timestamps.quarantinedAt = now
       eventType = 'quarantined'
       eventMessage = comment || 'Task quarantined'
-      entry.lastError = (metadata?.reason as string) || comment || 'Task moved to DLQ'
+      entry.lastError = redactSecrets((metadata?.reason as string) || comment || 'Task moved to DLQ')
     } else if (status === 'completed') {
       entry.timestamps.completedAt = now
       eventType = 'completed'
@@ -1171,7 +1218,7 @@ export class JsonTaskAdapter implements TaskBackend {
       taskId: entry.id,
       timestamp: now,
       type: eventType,
-      message: eventMessage,
+      message: redactSecrets(eventMessage),
       level: status === 'failed' ? 'error' : 'info',
       actor: 'system',
       metadata: {
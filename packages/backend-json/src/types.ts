@@ -36,6 +36,8 @@ export interface FindTaskOptions {
     autoRetryDelayMs: number
   }
   startFrom?: string
+  /** Task IDs to pass over, e.g. ones already skipped this run */
+  exclude?: string[]
 }
 
 export interface UpdateResult {
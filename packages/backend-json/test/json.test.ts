@@ -1,4 +1,7 @@
-import { describe, expect, test } from 'bun:test'
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
 import { JsonTaskAdapter } from '../src/index'
 
 /**
@@ -26,3 +29,38 @@ describe('JsonTaskAdapter', () => {
   })
 })
 
+
+describe('JsonTaskAdapter scheduling', () => {
+  let tmpDir: string
+  let adapter: JsonTaskAdapter
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'loopwork-json-'))
+    fs.writeFileSync(path.join(tmpDir, 'tasks.json'), JSON.stringify({ tasks: [] }))
+    adapter = new JsonTaskAdapter({ type: 'json', tasksFile: path.join(tmpDir, 'tasks.json'), tasksDir: tmpDir })
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  test('createTask keeps scheduledFor and findNextTask skips tasks until due', async () => {
+    const scheduledFor = new Date(Date.now() + 60_000).toISOString()
+    const later = await adapter.createTask({ title: 'Later', description: 'Run later', priority: 'high', scheduledFor })
+    await adapter.createTask({ title: 'Now', description: 'Run now', priority: 'low' })
+
+    expect(later.scheduledFor).toBe(scheduledFor)
+    expect((await adapter.getTask(later.id))?.scheduledFor).toBe(scheduledFor)
+    expect((await adapter.findNextTask())?.title).toBe('Now')
+    expect((await adapter.claimTask())?.title).toBe('Now')
+    expect(await adapter.findNextTask()).toBeNull()
+  })
+  test('findNextTask and claimTask pass over excluded tasks', async () => {
+    const skipped = await adapter.createTask({ title: 'Skipped', description: 'Skip me', priority: 'high' })
+    await adapter.createTask({ title: 'Next', description: 'Run next', priority: 'low' })
+
+    expect((await adapter.findNextTask({ exclude: [skipped.id] }))?.title).toBe('Next')
+    expect((await adapter.claimTask({ exclude: [skipped.id], startFrom: skipped.id }))?.title).toBe('Next')
+    expect(await adapter.claimTask({ exclude: [skipped.id] })).toBeNull()
+  })
+})
@@ -0,0 +1,161 @@
+import fs from 'fs'
+import path from 'path'
+import { MarkdownPrdParser } from '@loopwork-ai/spec-parser'
+import type { IPrdParser } from '@loopwork-ai/contracts'
+import { logger, LoopworkError } from './utils'
+import type { SqliteTaskAdapter } from './sqlite'
+import type { StoredTask, SqliteSnapshot } from './types'
+
+/**
+ * tasks.json keys that map onto SQLite columns/tables.
+ * Anything else on an entry is carried through `extra`.
+ */
+const ENTRY_KEYS = new Set([
+  'id', 'status', 'priority', 'feature', 'parentId', 'dependsOn', 'metadata',
+  'failureCount', 'lastError', 'scheduledFor', 'timestamps', 'events',
+])
+
+export interface JsonMigrationOptions {
+  /** Path to tasks.json */
+  tasksFile: string
+  /** Directory holding <id>.md PRDs and <id>.log files (default: dirname of tasksFile) */
+  tasksDir?: string
+}
+
+export interface MigrationResult {
+  tasks: number
+  prdFiles: number
+  logFiles: number
+}
+
+function readOptional(file: string): string | undefined {
+  return fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : undefined
+}
+
+/**
+ * Import a JSON backend (tasks.json + markdown task dir) into SQLite.
+ *
+ * Replaces the database contents in one transaction. Entry keys the
+ * SQLite schema doesn't model, top-level keys, PRD markdown and task logs
+ * are kept verbatim so exportToJson() can reproduce them.
+ */
+export async function importFromJson(
+  adapter: SqliteTaskAdapter,
+  options: JsonMigrationOptions,
+  parser: IPrdParser = new MarkdownPrdParser()
+): Promise<MigrationResult> {
+  const tasksDir = options.tasksDir || path.dirname(options.tasksFile)
+
+  let data: Record<string, unknown>
+  try {
+    data = JSON.parse(fs.readFileSync(options.tasksFile, 'utf-8'))
+  } catch (e: unknown) {
+    throw new LoopworkError(
+      'ERR_FILE_READ',
+      `Cannot read or parse tasks file: ${options.tasksFile}`,
+      [
+        'Check that the file exists and contains valid JSON',
+        `Details: ${e instanceof Error ? e.message : String(e)}`,
+      ]
+    )
+  }
+
+  const { tasks: entries = [], features, ...fileExtra } = data as {
+    tasks?: Array<Record<string, unknown>>
+    features?: Record<string, unknown>
+  }
+
+  const result: MigrationResult = { tasks: 0, prdFiles: 0, logFiles: 0 }
+  const tasks: StoredTask[] = []
+
+  for (const entry of entries) {
+    const id = entry.id as string
+    const extra = Object.fromEntries(Object.entries(entry).filter(([key]) => !ENTRY_KEYS.has(key)))
+
+    const prd = readOptional(path.join(tasksDir, `${id}.md`))
+    const log = readOptional(path.join(tasksDir, `${id}.log`))
+
+    let title = typeof entry.title === 'string' ? entry.title : id
+    let description = typeof entry.description === 'string' ? entry.description : ''
+
+    if (prd !== undefined) {
+      result.prdFiles++
+      try {
+        const parsed = await parser.parse(prd)
+        title = parsed.title
+        description = parsed.description
+      } catch (e: unknown) {
+        description = prd
+        const titleMatch = prd.match(/^#\s+(.+)$/m)
+        if (titleMatch) title = titleMatch[1]
+        logger.warn(`Failed to parse PRD for ${id}: ${e instanceof Error ? e.message : String(e)}`)
+      }
+    }
+    if (log !== undefined) result.logFiles++
+
+    tasks.push({
+      id,
+      title,
+      description,
+      status: entry.status as StoredTask['status'],
+      priority: entry.priority as StoredTask['priority'],
+      feature: entry.feature as string | undefined,
+      parentId: entry.parentId as string | undefined,
+      dependsOn: entry.dependsOn as string[] | undefined,
+      metadata: entry.metadata as Record<string, unknown> | undefined,
+      failureCount: entry.failureCount as number | undefined,
+      lastError: entry.lastError as string | undefined,
+      scheduledFor: entry.scheduledFor as string | null | undefined,
+      timestamps: entry.timestamps as StoredTask['timestamps'],
+      events: entry.events as StoredTask['events'],
+      prd,
+      log,
+      extra: Object.keys(extra).length > 0 ? extra : undefined,
+    })
+    result.tasks++
+  }
+
+  const snapshot: SqliteSnapshot = { tasks, features }
+  if (Object.keys(fileExtra).length > 0) snapshot.extra = fileExtra
+
+  adapter.restore(snapshot)
+  return result
+}
+
+/**
+ * Export the SQLite database back to the JSON backend layout:
+ * tasks.json plus <id>.md PRDs and <id>.log files in the tasks dir.
+ */
+export async function exportToJson(
+  adapter: SqliteTaskAdapter,
+  options: JsonMigrationOptions
+): Promise<MigrationResult> {
+  const tasksDir = options.tasksDir || path.dirname(options.tasksFile)
+  const snapshot = adapter.snapshot()
+  const result: MigrationResult = { tasks: 0, prdFiles: 0, logFiles: 0 }
+
+  fs.mkdirSync(path.dirname(options.tasksFile), { recursive: true })
+  fs.mkdirSync(tasksDir, { recursive: true })
+
+  const entries = snapshot.tasks.map(task => {
+    const { title, description, prd, log, extra, ...entry } = task
+
+    fs.writeFileSync(path.join(tasksDir, `${task.id}.md`), prd ?? `# ${title}\n\n${description}`)
+    result.prdFiles++
+
+    if (log !== undefined) {
+      fs.writeFileSync(path.join(tasksDir, `${task.id}.log`), log)
+      result.logFiles++
+    }
+
+    result.tasks++
+    return { ...entry, ...extra }
+  })
+
+  const data: Record<string, unknown> = { tasks: entries }
+  if (snapshot.features) data.features = snapshot.features
+  Object.assign(data, snapshot.extra)
+
+  fs.writeFileSync(options.tasksFile, JSON.stringify(data, null, 2))
+  return result
+}
@@ -0,0 +1,98 @@
+import type { Database } from 'bun:sqlite'
+import type { Priority } from './types'
+
+/**
+ * Current schema version, stored in PRAGMA user_version
+ */
+export const SCHEMA_VERSION = 1
+
+export const PRIORITY_RANK: Record<Priority, number> = { high: 0, medium: 1, low: 2, background: 3 }
+
+/**
+ * Schema layout
+ *
+ *   tasks              one row per task (timestamps flattened into columns)
+ *   task_dependencies  dependsOn edges, ordered by position
+ *   task_events        TaskEvent history, full event kept in payload
+ *   features           feature registry from tasks.json
+ *   meta               key/value store for file-level data
+ *
+ * Columns that mirror JsonTaskEntry keep NULL for "absent" so that an
+ * import/export round trip reproduces the original tasks.json.
+ */
+const SCHEMA_V1 = `
+CREATE TABLE IF NOT EXISTS tasks (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  prd TEXT,
+  log TEXT,
+  status TEXT NOT NULL,
+  priority TEXT,
+  priority_rank INTEGER NOT NULL DEFAULT 1,
+  feature TEXT,
+  parent_id TEXT,
+  metadata TEXT,
+  failure_count INTEGER,
+  last_error TEXT,
+  scheduled_for TEXT,
+  created_at TEXT,
+  updated_at TEXT,
+  started_at TEXT,
+  completed_at TEXT,
+  failed_at TEXT,
+  resumed_at TEXT,
+  quarantined_at TEXT,
+  cancelled_at TEXT,
+  extra TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_status_rank ON tasks (status, priority_rank);
+CREATE INDEX IF NOT EXISTS idx_tasks_feature ON tasks (feature);
+CREATE INDEX IF NOT EXISTS idx_tasks_parent ON tasks (parent_id);
+
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  task_id TEXT NOT NULL,
+  depends_on_id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  PRIMARY KEY (task_id, depends_on_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dependencies_depends_on ON task_dependencies (depends_on_id);
+
+CREATE TABLE IF NOT EXISTS task_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  task_id TEXT NOT NULL,
+  timestamp TEXT NOT NULL,
+  type TEXT NOT NULL,
+  payload TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_events_task ON task_events (task_id, id);
+
+CREATE TABLE IF NOT EXISTS features (
+  key TEXT PRIMARY KEY,
+  position INTEGER NOT NULL,
+  payload TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+`
+
+/**
+ * Create tables and indexes, upgrading older databases in place
+ */
+export function migrateSchema(db: Database): void {
+  const row = db.query('PRAGMA user_version').get() as { user_version: number } | null
+  const version = row?.user_version ?? 0
+
+  if (version >= SCHEMA_VERSION) return
+
+  db.transaction(() => {
+    db.exec(SCHEMA_V1)
+    db.exec(`PRAGMA user_version = ${SCHEMA_VERSION}`)
+  }).immediate()
+}
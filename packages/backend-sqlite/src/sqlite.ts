@@ -0,0 +1,995 @@
+import fs from 'fs'
+import path from 'path'
+import { Database, type SQLQueryBindings } from 'bun:sqlite'
+import { logger, LoopworkError, DEFAULT_DB_FILE, DEFAULT_BUSY_TIMEOUT_MS } from './utils'
+import { redactSecrets } from '@loopwork-ai/common'
+import { migrateSchema, PRIORITY_RANK } from './schema'
+import type {
+  TaskBackend,
+  Task,
+  TaskStatus,
+  Priority,
+  FindTaskOptions,
+  UpdateResult,
+  PingResult,
+  SqliteBackendConfig,
+  TaskEvent,
+  TaskTimestamps,
+  StoredTask,
+  SqliteSnapshot,
+} from './types'
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function isBusyError(error: unknown): boolean {
+  const message = getErrorMessage(error)
+  return message.includes('SQLITE_BUSY') || message.includes('database is locked')
+}
+
+function parseJson<T>(value: string | null): T | undefined {
+  if (value === null) return undefined
+  return JSON.parse(value) as T
+}
+
+function toJson(value: unknown): string | null {
+  return value === undefined ? null : JSON.stringify(value)
+}
+
+/**
+ * tasks table row
+ */
+interface TaskRow {
+  id: string
+  title: string
+  description: string
+  prd: string | null
+  log: string | null
+  status: TaskStatus
+  priority: Priority | null
+  priority_rank: number
+  feature: string | null
+  parent_id: string | null
+  metadata: string | null
+  failure_count: number | null
+  last_error: string | null
+  scheduled_for: string | null
+  created_at: string | null
+  updated_at: string | null
+  started_at: string | null
+  completed_at: string | null
+  failed_at: string | null
+  resumed_at: string | null
+  quarantined_at: string | null
+  cancelled_at: string | null
+  extra: string | null
+}
+
+const TIMESTAMP_COLUMNS: Array<[keyof TaskTimestamps, keyof TaskRow]> = [
+  ['createdAt', 'created_at'],
+  ['updatedAt', 'updated_at'],
+  ['startedAt', 'started_at'],
+  ['completedAt', 'completed_at'],
+  ['failedAt', 'failed_at'],
+  ['resumedAt', 'resumed_at'],
+  ['quarantinedAt', 'quarantined_at'],
+  ['cancelledAt', 'cancelled_at'],
+]
+
+const TASK_COLUMNS = [
+  'id', 'title', 'description', 'prd', 'log', 'status', 'priority', 'priority_rank', 'feature',
+  'parent_id', 'metadata', 'failure_count', 'last_error', 'scheduled_for', 'created_at',
+  'updated_at', 'started_at', 'completed_at', 'failed_at', 'resumed_at', 'quarantined_at',
+  'cancelled_at', 'extra',
+] as const
+
+const UPSERT_TASK_SQL = `
+  INSERT INTO tasks (${TASK_COLUMNS.join(', ')})
+  VALUES (${TASK_COLUMNS.map(c => `$${c}`).join(', ')})
+  ON CONFLICT(id) DO UPDATE SET
+  ${TASK_COLUMNS.filter(c => c !== 'id').map(c => `${c} = excluded.${c}`).join(',\n  ')}
+`
+
+/** Tasks whose dependencies are all completed (missing dependencies count as unmet) */
+const DEPENDENCIES_MET_SQL = `NOT EXISTS (
+  SELECT 1 FROM task_dependencies d
+  LEFT JOIN tasks dt ON dt.id = d.depends_on_id
+  WHERE d.task_id = t.id AND (dt.id IS NULL OR dt.status != 'completed')
+)`
+
+function storedToRow(task: StoredTask): Record<string, string | number | null> {
+  const row: Record<string, string | number | null> = {
+    $id: task.id,
+    $title: task.title,
+    $description: task.description,
+    $prd: task.prd ?? null,
+    $log: task.log ?? null,
+    $status: task.status,
+    $priority: task.priority ?? null,
+    $priority_rank: PRIORITY_RANK[task.priority || 'medium'] ?? PRIORITY_RANK.medium,
+    $feature: task.feature ?? null,
+    $parent_id: task.parentId ?? null,
+    $metadata: toJson(task.metadata),
+    $failure_count: task.failureCount ?? null,
+    $last_error: task.lastError ?? null,
+    $scheduled_for: task.scheduledFor ?? null,
+    $extra: task.extra && Object.keys(task.extra).length > 0 ? JSON.stringify(task.extra) : null,
+  }
+
+  for (const [key, column] of TIMESTAMP_COLUMNS) {
+    row[`$${column}`] = task.timestamps?.[key] ?? null
+  }
+
+  return row
+}
+
+function rowToStored(row: TaskRow, dependsOn?: string[], events?: TaskEvent[]): StoredTask {
+  const stored: StoredTask = {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    status: row.status,
+  }
+
+  if (row.priority !== null) stored.priority = row.priority
+  if (row.feature !== null) stored.feature = row.feature
+  if (row.parent_id !== null) stored.parentId = row.parent_id
+  if (dependsOn && dependsOn.length > 0) stored.dependsOn = dependsOn
+  if (row.metadata !== null) stored.metadata = parseJson(row.metadata)
+  if (row.failure_count !== null) stored.failureCount = row.failure_count
+  if (row.last_error !== null) stored.lastError = row.last_error
+  if (row.scheduled_for !== null) stored.scheduledFor = row.scheduled_for
+  if (events && events.length > 0) stored.events = events
+  if (row.prd !== null) stored.prd = row.prd
+  if (row.log !== null) stored.log = row.log
+  if (row.extra !== null) stored.extra = parseJson(row.extra)
+
+  const timestamps: Record<string, string> = {}
+  for (const [key, column] of TIMESTAMP_COLUMNS) {
+    const value = row[column]
+    if (typeof value === 'string') timestamps[key] = value
+  }
+  if (Object.keys(timestamps).length > 0) {
+    stored.timestamps = timestamps as unknown as TaskTimestamps
+  }
+
+  return stored
+}
+
+/**
+ * Apply a status transition to a stored task and build the matching event.
+ * Follows the JSON backend's lifecycle rules so both backends produce the
+ * same timestamps, counters and event history.
+ */
+function applyLifecycle(
+  entry: StoredTask,
+  status: TaskStatus,
+  comment?: string,
+  metadata?: Record<string, unknown>
+): TaskEvent {
+  const now = new Date().toISOString()
+  const oldStatus = entry.status
+  entry.status = status
+
+  const timestamps: TaskTimestamps = entry.timestamps || { createdAt: now, updatedAt: now }
+  timestamps.updatedAt = now
+  entry.timestamps = timestamps
+
+  let eventType = 'status_change'
+  let eventMessage = comment || `Status changed from ${oldStatus} to ${status}`
+
+  if (status === 'in-progress') {
+    if (!timestamps.startedAt) {
+      timestamps.startedAt = now
+      eventType = 'started'
+      eventMessage = comment || 'Task started'
+    } else {
+      timestamps.resumedAt = now
+      eventType = 'resumed'
+      eventMessage = comment || 'Task resumed'
+    }
+  } else if (status === 'failed') {
+    timestamps.failedAt = now
+    eventType = 'failed'
+    eventMessage = comment || 'Task failed'
+    entry.failureCount = (entry.failureCount || 0) + 1
+    entry.lastError = redactSecrets((metadata?.error as string) || comment || 'Unknown error')
+  } else if (status === 'quarantined') {
+    timestamps.quarantinedAt = now
+    eventType = 'quarantined'
+    eventMessage = comment || 'Task quarantined'
+    entry.lastError = redactSecrets((metadata?.reason as string) || comment || 'Task moved to DLQ')
+  } else if (status === 'completed') {
+    timestamps.completedAt = now
+    eventType = 'completed'
+    eventMessage = comment || 'Task completed'
+    entry.failureCount = 0
+    delete entry.lastError
+  } else if (status === 'pending') {
+    // Clear failure state when reset to pending if not currently failing
+    if (oldStatus !== 'in-progress') {
+      entry.failureCount = 0
+      delete entry.lastError
+    }
+  } else if (status === 'cancelled') {
+    timestamps.cancelledAt = now
+    eventType = 'cancelled'
+    eventMessage = comment || 'Task cancelled'
+  }
+
+  return {
+    taskId: entry.id,
+    timestamp: now,
+    type: eventType,
+    message: eventMessage,
+    level: status === 'failed' ? 'error' : 'info',
+    actor: 'system',
+    metadata: {
+      oldStatus,
+      newStatus: status,
+      ...metadata,
+    },
+  }
+}
+
+/**
+ * SQLite Adapter
+ *
+ * Stores tasks, dependencies, sub-tasks and event history in a single
+ * SQLite database (WAL mode). Every mutation runs in an IMMEDIATE
+ * transaction, so parallel workers - including separate processes -
+ * serialize on SQLite's write lock instead of a lock file, and readers
+ * never block.
+ *
+ * Database: .specs/tasks/tasks.db (override with `dbFile`)
+ *
+ * Use importFromJson()/exportToJson() to move between this backend and
+ * the JSON backend's tasks.json + markdown layout.
+ */
+export class SqliteTaskAdapter implements TaskBackend {
+  readonly name = 'sqlite'
+  private dbFile: string
+  private busyTimeoutMs: number
+  private db: Database | null = null
+
+  constructor(config: SqliteBackendConfig) {
+    this.dbFile = config.dbFile || DEFAULT_DB_FILE
+    this.busyTimeoutMs = config.busyTimeoutMs ?? DEFAULT_BUSY_TIMEOUT_MS
+  }
+
+  /**
+   * Open the database on first use
+   */
+  private get database(): Database {
+    if (this.db) return this.db
+
+    try {
+      if (this.dbFile !== ':memory:') {
+        fs.mkdirSync(path.dirname(this.dbFile), { recursive: true })
+      }
+
+      const db = new Database(this.dbFile, { create: true })
+      db.exec(`PRAGMA busy_timeout = ${this.busyTimeoutMs}`)
+      db.exec('PRAGMA journal_mode = WAL')
+      migrateSchema(db)
+      this.db = db
+      return db
+    } catch (e: unknown) {
+      logger.error(`Failed to open task database ${this.dbFile}: ${getErrorMessage(e)}`)
+      throw new LoopworkError(
+        'ERR_FILE_READ',
+        `Cannot open task database: ${this.dbFile}`,
+        [
+          'Check that the directory exists and is writable',
+          'Verify the file is a valid SQLite database',
+          'Run with Bun - bun:sqlite is required for this backend',
+        ]
+      )
+    }
+  }
+
+  /**
+   * Run a function inside an IMMEDIATE write transaction
+   */
+  private write<T>(fn: () => T): T {
+    try {
+      return this.database.transaction(fn).immediate()
+    } catch (e: unknown) {
+      if (isBusyError(e)) {
+        throw new LoopworkError(
+          'ERR_LOCK_CONFLICT',
+          'Timed out waiting for the task database write lock',
+          [
+            'Another process is holding a long write transaction',
+            `Increase busyTimeoutMs (current: ${this.busyTimeoutMs}ms)`,
+          ]
+        )
+      }
+      throw e
+    }
+  }
+
+  /**
+   * Run a mutation, converting thrown errors into a failed UpdateResult
+   */
+  private update(fn: () => UpdateResult): UpdateResult {
+    try {
+      return this.write(fn)
+    } catch (e: unknown) {
+      return { success: false, error: getErrorMessage(e) }
+    }
+  }
+
+  close(): void {
+    this.db?.close()
+    this.db = null
+  }
+
+  // Queries
+
+  /**
+   * Build the WHERE clause shared by listTasks, countPending, findNextTask and claimTask
+   *
+   * `dueOnly` leaves out tasks scheduled for later; claiming always does.
+   */
+  private buildFilter(options?: FindTaskOptions, claimable = false, dueOnly = claimable): { where: string; params: SQLQueryBindings[] } {
+    const clauses: string[] = []
+    const params: SQLQueryBindings[] = []
+    const now = Date.now()
+
+    if (options?.status) {
+      const statuses = Array.isArray(options.status) ? options.status : [options.status]
+      clauses.push('t.status IN (SELECT value FROM json_each(?))')
+      params.push(JSON.stringify(statuses))
+    }
+
+    // Failed tasks only come back once the retry cooldown has elapsed
+    if (options?.retryCooldown !== undefined && (claimable || options.retryCooldown > 0)) {
+      clauses.push("NOT (t.status = 'failed' AND (t.failed_at IS NULL OR t.failed_at > ?))")
+      params.push(new Date(now - options.retryCooldown).toISOString())
+    }
+
+    // Quarantined tasks only come back once the auto-retry delay has elapsed
+    if (options?.deadletterPolicy?.autoRetry) {
+      clauses.push("NOT (t.status = 'quarantined' AND (t.quarantined_at IS NULL OR t.quarantined_at >= ?))")
+      params.push(new Date(now - (options.deadletterPolicy.autoRetryDelayMs || 3600000)).toISOString())
+    }
+
+    if (options?.feature) {
+      clauses.push('t.feature = ?')
+      params.push(options.feature)
+    }
+
+    if (options?.priority) {
+      clauses.push("COALESCE(t.priority, 'medium') = ?")
+      params.push(options.priority)
+    }
+
+    if (options?.parentId) {
+      clauses.push('t.parent_id = ?')
+      params.push(options.parentId)
+    }
+
+    if (options?.topLevelOnly) {
+      clauses.push('t.parent_id IS NULL')
+    }
+
+    if (options?.exclude?.length) {
+      clauses.push('t.id NOT IN (SELECT value FROM json_each(?))')
+      params.push(JSON.stringify(options.exclude))
+    }
+
+    if (dueOnly) {
+      clauses.push('(t.scheduled_for IS NULL OR t.scheduled_for <= ?)')
+      params.push(new Date(now).toISOString())
+    }
+
+    if (!options?.includeBlocked) {
+      clauses.push(DEPENDENCIES_MET_SQL)
+    }
+
+    return {
+      where: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '',
+      params,
+    }
+  }
+
+  private pendingOptions(options?: FindTaskOptions): FindTaskOptions {
+    const statuses: TaskStatus[] = ['pending']
+
+    if (options?.retryCooldown !== undefined) {
+      statuses.push('failed')
+    }
+
+    if (options?.deadletterPolicy?.autoRetry) {
+      statuses.push('quarantined')
+    }
+
+    return { ...options, status: statuses }
+  }
+
+  private queryRows(sql: string, params: SQLQueryBindings[] = []): TaskRow[] {
+    return this.database.query(sql).all(...params) as TaskRow[]
+  }
+
+  private queryIds(options: FindTaskOptions | undefined, claimable: boolean, dueOnly = claimable): string[] {
+    const { where, params } = this.buildFilter(options, claimable, dueOnly)
+    const rows = this.database
+      .query(`SELECT t.id FROM tasks t ${where} ORDER BY t.priority_rank, t.rowid`)
+      .all(...params) as Array<{ id: string }>
+    return rows.map(r => r.id)
+  }
+
+  /**
+   * Load dependencies and events for a batch of rows
+   */
+  private hydrate(rows: TaskRow[]): StoredTask[] {
+    if (rows.length === 0) return []
+
+    const ids = JSON.stringify(rows.map(r => r.id))
+    const deps = new Map<string, string[]>()
+    const events = new Map<string, TaskEvent[]>()
+
+    const depRows = this.database
+      .query('SELECT task_id, depends_on_id FROM task_dependencies WHERE task_id IN (SELECT value FROM json_each(?)) ORDER BY task_id, position')
+      .all(ids) as Array<{ task_id: string; depends_on_id: string }>
+    for (const dep of depRows) {
+      const list = deps.get(dep.task_id) || []
+      list.push(dep.depends_on_id)
+      deps.set(dep.task_id, list)
+    }
+
+    const eventRows = this.database
+      .query('SELECT task_id, payload FROM task_events WHERE task_id IN (SELECT value FROM json_each(?)) ORDER BY task_id, id')
+      .all(ids) as Array<{ task_id: string; payload: string }>
+    for (const event of eventRows) {
+      const list = events.get(event.task_id) || []
+      list.push(JSON.parse(event.payload) as TaskEvent)
+      events.set(event.task_id, list)
+    }
+
+    return rows.map(row => rowToStored(row, deps.get(row.id), events.get(row.id)))
+  }
+
+  private loadStored(taskId: string): StoredTask | null {
+    const rows = this.queryRows('SELECT * FROM tasks WHERE id = ?', [taskId])
+    if (rows.length === 0) return null
+    return this.hydrate(rows)[0]
+  }
+
+  private loadTasks(ids: string[]): Task[] {
+    if (ids.length === 0) return []
+    const rows = this.queryRows(
+      'SELECT t.* FROM tasks t JOIN json_each(?) j ON j.value = t.id ORDER BY j.key',
+      [JSON.stringify(ids)]
+    )
+    return this.hydrate(rows).map(stored => this.toTask(stored))
+  }
+
+  private toTask(stored: StoredTask): Task {
+    const featureInfo = stored.feature ? this.getFeature(stored.feature) : undefined
+
+    return {
+      id: stored.id,
+      title: stored.title,
+      description: stored.description,
+      status: stored.status,
+      priority: stored.priority || 'medium',
+      feature: stored.feature,
+      parentId: stored.parentId,
+      dependsOn: stored.dependsOn,
+      metadata: {
+        ...stored.metadata,
+        featureName: featureInfo?.name,
+      },
+      failureCount: stored.failureCount,
+      lastError: stored.lastError,
+      scheduledFor: stored.scheduledFor,
+      timestamps: stored.timestamps,
+      events: stored.events,
+    }
+  }
+
+  private getFeature(key: string): { name?: string } | undefined {
+    const row = this.database.query('SELECT payload FROM features WHERE key = ?').get(key) as { payload: string } | null
+    if (!row) return undefined
+    const payload = JSON.parse(row.payload)
+    return typeof payload === 'object' && payload !== null ? payload : undefined
+  }
+
+  // Writes
+
+  private saveStored(task: StoredTask): void {
+    this.database.query(UPSERT_TASK_SQL).run(storedToRow(task))
+  }
+
+  private insertEvent(event: TaskEvent, taskId = event.taskId): void {
+    this.database
+      .query('INSERT INTO task_events (task_id, timestamp, type, payload) VALUES (?, ?, ?, ?)')
+      .run(taskId, event.timestamp, event.type, JSON.stringify({ ...event, message: redactSecrets(event.message) }))
+  }
+
+  private replaceDependencies(taskId: string, dependsOn: string[] | undefined): void {
+    this.database.query('DELETE FROM task_dependencies WHERE task_id = ?').run(taskId)
+    const insert = this.database.query('INSERT OR IGNORE INTO task_dependencies (task_id, depends_on_id, position) VALUES (?, ?, ?)')
+    dependsOn?.forEach((depId, position) => insert.run(taskId, depId, position))
+  }
+
+  private appendLog(taskId: string, line: string): boolean {
+    const timestamp = new Date().toISOString()
+    const result = this.database
+      .query("UPDATE tasks SET log = COALESCE(log, '') || ? WHERE id = ?")
+      .run(`\n[${timestamp}] ${line}\n`, taskId)
+    return result.changes > 0
+  }
+
+  // TaskBackend
+
+  async findNextTask(options?: FindTaskOptions): Promise<Task | null> {
+    const ids = this.queryIds(this.pendingOptions(options), false, true)
+
+    if (options?.startFrom && ids.includes(options.startFrom)) {
+      return this.getTask(options.startFrom)
+    }
+
+    if (!ids[0]) return null
+    return this.getTask(ids[0])
+  }
+
+  /**
+   * Atomically claim the next available task
+   * Selects and marks the task in-progress inside one IMMEDIATE
+   * transaction, so concurrent workers can never claim the same task.
+   */
+  async claimTask(options?: FindTaskOptions): Promise<Task | null> {
+    const claimed = this.write(() => {
+      let ids = this.queryIds(this.pendingOptions(options), true)
+
+      if (options?.startFrom) {
+        const startIdx = ids.indexOf(options.startFrom)
+        if (startIdx >= 0) {
+          ids = ids.slice(startIdx)
+        }
+      }
+
+      if (ids.length === 0) return null
+
+      const entry = this.loadStored(ids[0])
+      if (!entry) return null
+
+      const event = applyLifecycle(entry, 'in-progress', 'Status changed to in-progress (claimed)', { method: 'claimTask' })
+      this.saveStored(entry)
+      this.insertEvent(event)
+      return entry.id
+    })
+
+    return claimed ? this.getTask(claimed) : null
+  }
+
+  async getTask(taskId: string): Promise<Task | null> {
+    const stored = this.loadStored(taskId)
+    return stored ? this.toTask(stored) : null
+  }
+
+  async listTasks(options?: FindTaskOptions): Promise<Task[]> {
+    return this.loadTasks(this.queryIds(options, false))
+  }
+
+  async listPendingTasks(options?: FindTaskOptions): Promise<Task[]> {
+    return this.listTasks(this.pendingOptions(options))
+  }
+
+  async countPending(options?: FindTaskOptions): Promise<number> {
+    const { where, params } = this.buildFilter(this.pendingOptions(options), false)
+    const row = this.database.query(`SELECT COUNT(*) AS count FROM tasks t ${where}`).get(...params) as { count: number }
+    return row.count
+  }
+
+  async markInProgress(taskId: string): Promise<UpdateResult> {
+    return this.updateTaskStatus(taskId, 'in-progress')
+  }
+
+  async markCompleted(taskId: string, comment?: string): Promise<UpdateResult> {
+    return this.updateTaskStatus(taskId, 'completed', comment)
+  }
+
+  async markFailed(taskId: string, error: string): Promise<UpdateResult> {
+    return this.updateTaskStatus(taskId, 'failed', `Failed: ${error}`, { error }, `FAILED: ${error}`)
+  }
+
+  async markQuarantined(taskId: string, reason: string): Promise<UpdateResult> {
+    return this.updateTaskStatus(taskId, 'quarantined', `Quarantined: ${reason}`, { reason }, `QUARANTINED: ${reason}`)
+  }
+
+  async resetToPending(taskId: string): Promise<UpdateResult> {
+    return this.update(() => {
+      const entry = this.loadStored(taskId)
+      if (!entry) return { success: false, error: `Task ${taskId} not found` }
+
+      const now = new Date().toISOString()
+      const oldStatus = entry.status
+      entry.status = 'pending'
+
+      // Clear timestamps related to execution (keep createdAt)
+      if (entry.timestamps) {
+        const { createdAt } = entry.timestamps
+        entry.timestamps = { createdAt, updatedAt: now }
+      }
+
+      this.saveStored(entry)
+      this.insertEvent({
+        taskId: entry.id,
+        timestamp: now,
+        type: 'reset',
+        message: `Task reset from ${oldStatus} to pending`,
+        level: 'info',
+        actor: 'system',
+        metadata: {
+          oldStatus,
+          newStatus: 'pending',
+        },
+      })
+
+      return { success: true }
+    })
+  }
+
+  async rescheduleCompleted(taskId: string, scheduledFor?: string): Promise<UpdateResult> {
+    return this.update(() => {
+      const entry = this.loadStored(taskId)
+      if (!entry) return { success: false, error: `Task ${taskId} not found` }
+
+      if (entry.status !== 'completed') {
+        return {
+          success: false,
+          error: `Task ${taskId} is not completed (current status: ${entry.status})`,
+        }
+      }
+
+      const now = new Date().toISOString()
+      const oldStatus = entry.status
+      entry.status = 'pending'
+
+      if (entry.timestamps) {
+        delete entry.timestamps.completedAt
+        entry.timestamps.updatedAt = now
+      }
+
+      entry.scheduledFor = scheduledFor || null
+
+      if (scheduledFor) {
+        entry.metadata = { ...entry.metadata, scheduledFor }
+      } else if (entry.metadata?.scheduledFor) {
+        delete entry.metadata.scheduledFor
+        if (Object.keys(entry.metadata).length === 0) {
+          delete entry.metadata
+        }
+      }
+
+      this.saveStored(entry)
+      this.insertEvent({
+        taskId: entry.id,
+        timestamp: now,
+        type: 'rescheduled',
+        message: `Task rescheduled from ${oldStatus} to pending${scheduledFor ? ` for ${scheduledFor}` : ''}`,
+        level: 'info',
+        actor: 'system',
+        metadata: {
+          oldStatus,
+          newStatus: 'pending',
+          scheduledFor: scheduledFor || null,
+        },
+      })
+
+      const result: UpdateResult = { success: true }
+      if (scheduledFor) {
+        result.scheduledFor = scheduledFor
+      }
+      return result
+    })
+  }
+
+  async resetAllInProgress(): Promise<UpdateResult> {
+    return this.update(() => {
+      this.database.query("UPDATE tasks SET status = 'pending' WHERE status = 'in-progress'").run()
+      return { success: true }
+    })
+  }
+
+  async updateTask(taskId: string, updates: Partial<Task>): Promise<UpdateResult> {
+    return this.update(() => {
+      const entry = this.loadStored(taskId)
+      if (!entry) return { success: false, error: `Task ${taskId} not found` }
+
+      if (updates.status) {
+        this.insertEvent(applyLifecycle(entry, updates.status, 'Updated via updateTask', updates.metadata as Record<string, unknown>))
+      } else {
+        const now = new Date().toISOString()
+        entry.timestamps = { ...(entry.timestamps || { createdAt: now }), updatedAt: now }
+      }
+
+      if (updates.priority) entry.priority = updates.priority
+      if (updates.feature) entry.feature = updates.feature
+      if (updates.parentId !== undefined) entry.parentId = updates.parentId
+      if (updates.scheduledFor !== undefined) entry.scheduledFor = updates.scheduledFor
+      if (updates.metadata) {
+        entry.metadata = { ...entry.metadata, ...updates.metadata }
+      }
+
+      if (updates.title !== undefined || updates.description !== undefined) {
+        if (updates.title !== undefined) entry.title = updates.title
+        if (updates.description !== undefined) entry.description = updates.description
+        entry.prd = `# ${entry.title}\n\n${entry.description}`
+      }
+
+      this.saveStored(entry)
+
+      if (updates.dependsOn) {
+        this.replaceDependencies(taskId, updates.dependsOn)
+      }
+
+      return { success: true }
+    })
+  }
+
+  async setPriority(taskId: string, priority: Task['priority']): Promise<UpdateResult> {
+    return this.update(() => {
+      const result = this.database
+        .query('UPDATE tasks SET priority = ?, priority_rank = ? WHERE id = ?')
+        .run(priority, PRIORITY_RANK[priority] ?? PRIORITY_RANK.medium, taskId)
+      if (result.changes === 0) return { success: false, error: 'Task not found' }
+      return { success: true }
+    })
+  }
+
+  async addComment(taskId: string, comment: string): Promise<UpdateResult> {
+    return this.update(() => {
+      if (!this.appendLog(taskId, comment)) {
+        return { success: false, error: `Task ${taskId} not found` }
+      }
+      return { success: true }
+    })
+  }
+
+  async addEvent(taskId: string, event: Omit<TaskEvent, 'taskId' | 'timestamp'>): Promise<UpdateResult> {
+    return this.update(() => {
+      if (!this.loadStored(taskId)) return { success: false, error: `Task ${taskId} not found` }
+      this.insertEvent({ ...event, taskId, timestamp: new Date().toISOString() })
+      return { success: true }
+    })
+  }
+
+  async ping(): Promise<PingResult> {
+    const start = Date.now()
+    try {
+      this.database.query('SELECT 1').get()
+      return { ok: true, latencyMs: Date.now() - start }
+    } catch (e: unknown) {
+      return { ok: false, latencyMs: Date.now() - start, error: getErrorMessage(e) }
+    }
+  }
+
+  // Sub-task and dependency methods
+
+  async getSubTasks(taskId: string): Promise<Task[]> {
+    const rows = this.queryRows('SELECT * FROM tasks WHERE parent_id = ? ORDER BY rowid', [taskId])
+    return this.hydrate(rows).map(stored => this.toTask(stored))
+  }
+
+  async getDependencies(taskId: string): Promise<Task[]> {
+    const rows = this.queryRows(
+      `SELECT t.* FROM task_dependencies d
+       JOIN tasks t ON t.id = d.depends_on_id
+       WHERE d.task_id = ? ORDER BY d.position`,
+      [taskId]
+    )
+    return this.hydrate(rows).map(stored => this.toTask(stored))
+  }
+
+  async getDependents(taskId: string): Promise<Task[]> {
+    const rows = this.queryRows(
+      `SELECT t.* FROM task_dependencies d
+       JOIN tasks t ON t.id = d.task_id
+       WHERE d.depends_on_id = ? ORDER BY t.rowid`,
+      [taskId]
+    )
+    return this.hydrate(rows).map(stored => this.toTask(stored))
+  }
+
+  async areDependenciesMet(taskId: string): Promise<boolean> {
+    const row = this.database
+      .query(`SELECT ${DEPENDENCIES_MET_SQL} AS met FROM (SELECT ? AS id) t`)
+      .get(taskId) as { met: number }
+    return row.met === 1
+  }
+
+  async createTask(task: Omit<Task, 'id' | 'status'>): Promise<Task> {
+    const id = this.write(() => {
+      // Generate new task ID based on existing tasks
+      const prefix = task.feature ? task.feature.toUpperCase() : 'TASK'
+      const existingIds = new Set(
+        (this.database.query('SELECT id FROM tasks WHERE id LIKE ?').all(`${prefix}-%`) as Array<{ id: string }>).map(r => r.id)
+      )
+
+      let num = 1
+      while (existingIds.has(`${prefix}-${String(num).padStart(3, '0')}`)) {
+        num++
+      }
+      const newId = `${prefix}-${String(num).padStart(3, '0')}`
+
+      this.insertNewTask(newId, task, task.parentId, 'Task created')
+      return newId
+    })
+
+    return (await this.getTask(id))!
+  }
+
+  async createSubTask(parentId: string, task: Omit<Task, 'id' | 'parentId' | 'status'>): Promise<Task> {
+    const id = this.write(() => {
+      const parent = this.database.query('SELECT id FROM tasks WHERE id = ?').get(parentId)
+      if (!parent) {
+        throw new LoopworkError(
+          'ERR_TASK_NOT_FOUND',
+          `Parent task ${parentId} not found`,
+          [
+            'Verify the parent task ID is correct',
+            `Check task database: ${this.dbFile}`,
+          ]
+        )
+      }
+
+      // Generate sub-task ID (parent-01a, parent-01b, etc.)
+      const { count } = this.database
+        .query('SELECT COUNT(*) AS count FROM tasks WHERE parent_id = ?')
+        .get(parentId) as { count: number }
+      const newId = `${parentId}${String.fromCharCode(97 + count)}`
+
+      this.insertNewTask(newId, task, parentId, `Sub-task created under ${parentId}`)
+      return newId
+    })
+
+    return (await this.getTask(id))!
+  }
+
+  private insertNewTask(
+    id: string,
+    task: Omit<Task, 'id' | 'status'>,
+    parentId: string | undefined,
+    message: string
+  ): void {
+    const now = new Date().toISOString()
+    const description = task.description || ''
+
+    this.saveStored({
+      id,
+      title: task.title,
+      description,
+      status: 'pending',
+      priority: task.priority,
+      feature: task.feature,
+      parentId,
+      metadata: task.metadata,
+      scheduledFor: task.scheduledFor,
+      timestamps: task.timestamps || { createdAt: now, updatedAt: now },
+      prd: `# ${task.title}\n\n${description}`,
+    })
+    this.replaceDependencies(id, task.dependsOn)
+
+    const events = task.events || [{
+      taskId: id,
+      timestamp: now,
+      type: 'created',
+      message,
+      level: 'info',
+      actor: 'system',
+      metadata: {
+        priority: task.priority,
+        feature: task.feature,
+        ...(parentId ? { parentId } : {}),
+      },
+    }]
+    events.forEach(event => this.insertEvent(event, id))
+  }
+
+  async addDependency(taskId: string, dependsOnId: string): Promise<UpdateResult> {
+    return this.update(() => {
+      const ids = this.database
+        .query('SELECT id FROM tasks WHERE id IN (?, ?)')
+        .all(taskId, dependsOnId) as Array<{ id: string }>
+      if (!ids.some(r => r.id === taskId)) return { success: false, error: `Task ${taskId} not found` }
+      if (!ids.some(r => r.id === dependsOnId)) return { success: false, error: `Dependency ${dependsOnId} not found` }
+
+      this.database
+        .query(`INSERT OR IGNORE INTO task_dependencies (task_id, depends_on_id, position)
+                VALUES (?, ?, (SELECT COALESCE(MAX(position) + 1, 0) FROM task_dependencies WHERE task_id = ?))`)
+        .run(taskId, dependsOnId, taskId)
+      return { success: true }
+    })
+  }
+
+  async removeDependency(taskId: string, dependsOnId: string): Promise<UpdateResult> {
+    return this.update(() => {
+      if (!this.database.query('SELECT id FROM tasks WHERE id = ?').get(taskId)) {
+        return { success: false, error: `Task ${taskId} not found` }
+      }
+
+      this.database
+        .query('DELETE FROM task_dependencies WHERE task_id = ? AND depends_on_id = ?')
+        .run(taskId, dependsOnId)
+      return { success: true }
+    })
+  }
+
+  private updateTaskStatus(
+    taskId: string,
+    status: TaskStatus,
+    comment?: string,
+    metadata?: Record<string, unknown>,
+    logLine?: string
+  ): Promise<UpdateResult> {
+    return Promise.resolve(this.update(() => {
+      const entry = this.loadStored(taskId)
+      if (!entry) return { success: false, error: `Task ${taskId} not found` }
+
+      const event = applyLifecycle(entry, status, comment, metadata)
+      this.saveStored(entry)
+      this.insertEvent(event)
+      if (logLine) this.appendLog(taskId, logLine)
+
+      return { success: true }
+    }))
+  }
+
+  // Snapshot (used by the JSON importer/exporter)
+
+  /**
+   * Read the whole database in insertion order
+   */
+  snapshot(): SqliteSnapshot {
+    const tasks = this.hydrate(this.queryRows('SELECT * FROM tasks ORDER BY rowid'))
+
+    const featureRows = this.database
+      .query('SELECT key, payload FROM features ORDER BY position')
+      .all() as Array<{ key: string; payload: string }>
+    const extraRow = this.database
+      .query("SELECT value FROM meta WHERE key = 'file_extra'")
+      .get() as { value: string } | null
+
+    const snapshot: SqliteSnapshot = { tasks }
+    if (featureRows.length > 0) {
+      snapshot.features = Object.fromEntries(featureRows.map(r => [r.key, JSON.parse(r.payload)]))
+    }
+    if (extraRow) {
+      snapshot.extra = JSON.parse(extraRow.value)
+    }
+    return snapshot
+  }
+
+  /**
+   * Replace the whole database with a snapshot, in a single transaction
+   */
+  restore(snapshot: SqliteSnapshot): void {
+    this.write(() => {
+      this.database.exec('DELETE FROM tasks; DELETE FROM task_dependencies; DELETE FROM task_events; DELETE FROM features;')
+      this.database.query("DELETE FROM meta WHERE key = 'file_extra'").run()
+
+      for (const task of snapshot.tasks) {
+        this.saveStored(task)
+        this.replaceDependencies(task.id, task.dependsOn)
+        task.events?.forEach(event => this.insertEvent(event, task.id))
+      }
+
+      const insertFeature = this.database.query('INSERT INTO features (key, position, payload) VALUES (?, ?, ?)')
+      Object.entries(snapshot.features || {}).forEach(([key, payload], position) => {
+        insertFeature.run(key, position, JSON.stringify(payload))
+      })
+
+      if (snapshot.extra && Object.keys(snapshot.extra).length > 0) {
+        this.database
+          .query("INSERT INTO meta (key, value) VALUES ('file_extra', ?)")
+          .run(JSON.stringify(snapshot.extra))
+      }
+    })
+  }
+}
@@ -0,0 +1,61 @@
+import type { BackendConfig, TaskStatus, Priority, TaskEvent, TaskTimestamps } from '@loopwork-ai/contracts'
+
+export type {
+  TaskBackend,
+  Task,
+  TaskStatus,
+  Priority,
+  TaskEvent,
+  TaskTimestamps,
+  FindTaskOptions,
+  UpdateResult,
+  PingResult,
+  BackendConfig,
+} from '@loopwork-ai/contracts'
+
+export interface SqliteBackendConfig extends BackendConfig {
+  type: 'sqlite'
+  /** Path to the SQLite database file (default: .specs/tasks/tasks.db) */
+  dbFile?: string
+  /** How long a writer waits for a competing transaction before failing */
+  busyTimeoutMs?: number
+}
+
+/**
+ * A task as persisted by the SQLite backend.
+ *
+ * Mirrors the JSON backend's tasks.json entry, plus the title/description
+ * that the JSON backend keeps in markdown PRD files.
+ */
+export interface StoredTask {
+  id: string
+  title: string
+  description: string
+  status: TaskStatus
+  priority?: Priority
+  feature?: string
+  parentId?: string
+  dependsOn?: string[]
+  metadata?: Record<string, unknown>
+  failureCount?: number
+  lastError?: string
+  scheduledFor?: string | null
+  timestamps?: TaskTimestamps
+  events?: TaskEvent[]
+  /** Raw markdown PRD, kept so exports reproduce the original file */
+  prd?: string
+  /** Append-only comment/failure log (the JSON backend's <id>.log) */
+  log?: string
+  /** Unrecognised tasks.json keys, preserved verbatim */
+  extra?: Record<string, unknown>
+}
+
+/**
+ * Full database contents, used by the JSON importer/exporter
+ */
+export interface SqliteSnapshot {
+  tasks: StoredTask[]
+  features?: Record<string, unknown>
+  /** Unrecognised top-level tasks.json keys */
+  extra?: Record<string, unknown>
+}
@@ -0,0 +1,17 @@
+import { logger } from '@loopwork-ai/common'
+
+export { logger }
+
+export const DEFAULT_DB_FILE = '.specs/tasks/tasks.db'
+export const DEFAULT_BUSY_TIMEOUT_MS = 5000
+
+export class LoopworkError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public suggestions?: string[]
+  ) {
+    super(message)
+    this.name = 'LoopworkError'
+  }
+}
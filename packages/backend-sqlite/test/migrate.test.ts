@@ -0,0 +1,81 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { SqliteTaskAdapter, importFromJson, exportToJson } from '../src/index'
+
+describe('JSON import/export', () => {
+  let tmpDir: string
+  let adapter: SqliteTaskAdapter
+
+  const tasksJson = {
+    tasks: [
+      {
+        id: 'AUTH-001',
+        status: 'completed',
+        priority: 'high',
+        feature: 'auth',
+        title: 'Inline title',
+        integrationCheck: { required: true },
+        timestamps: { createdAt: '2026-01-01T00:00:00.000Z', completedAt: '2026-01-02T00:00:00.000Z' },
+        events: [{ timestamp: '2026-01-02T00:00:00.000Z', type: 'completed', message: 'Task completed' }],
+      },
+      {
+        id: 'AUTH-002',
+        status: 'pending',
+        feature: 'auth',
+        parentId: 'AUTH-001',
+        dependsOn: ['AUTH-001'],
+        metadata: { estimate: 3 },
+        failureCount: 2,
+        lastError: 'timeout',
+      },
+    ],
+    features: { auth: { name: 'Authentication', priority: 'high' } },
+    version: 2,
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'loopwork-sqlite-migrate-'))
+    fs.mkdirSync(path.join(tmpDir, 'in'))
+    fs.writeFileSync(path.join(tmpDir, 'in', 'tasks.json'), JSON.stringify(tasksJson, null, 2))
+    fs.writeFileSync(path.join(tmpDir, 'in', 'AUTH-001.md'), '# Add login\n\nImplement the login form.\n')
+    fs.writeFileSync(path.join(tmpDir, 'in', 'AUTH-001.log'), '\n[2026-01-01T00:00:00.000Z] FAILED: flaky\n')
+    adapter = new SqliteTaskAdapter({ type: 'sqlite', dbFile: path.join(tmpDir, 'tasks.db') })
+  })
+
+  afterEach(() => {
+    adapter.close()
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  test('imports tasks, PRDs, dependencies and features', async () => {
+    const result = await importFromJson(adapter, { tasksFile: path.join(tmpDir, 'in', 'tasks.json') })
+    expect(result).toEqual({ tasks: 2, prdFiles: 1, logFiles: 1 })
+
+    const task = await adapter.getTask('AUTH-001')
+    expect(task?.title).toBe('Add login')
+    expect(task?.metadata?.featureName).toBe('Authentication')
+    expect(task?.events).toHaveLength(1)
+
+    const child = await adapter.getTask('AUTH-002')
+    expect(child?.title).toBe('AUTH-002')
+    expect(child?.dependsOn).toEqual(['AUTH-001'])
+    expect((await adapter.getSubTasks('AUTH-001')).map(t => t.id)).toEqual(['AUTH-002'])
+  })
+
+  test('round-trips back to the JSON layout without losing data', async () => {
+    await importFromJson(adapter, { tasksFile: path.join(tmpDir, 'in', 'tasks.json') })
+    const outFile = path.join(tmpDir, 'out', 'tasks.json')
+    await exportToJson(adapter, { tasksFile: outFile })
+
+    expect(JSON.parse(fs.readFileSync(outFile, 'utf-8'))).toEqual(tasksJson)
+    expect(fs.readFileSync(path.join(tmpDir, 'out', 'AUTH-001.md'), 'utf-8')).toBe('# Add login\n\nImplement the login form.\n')
+    expect(fs.readFileSync(path.join(tmpDir, 'out', 'AUTH-001.log'), 'utf-8')).toContain('FAILED: flaky')
+    expect(fs.existsSync(path.join(tmpDir, 'out', 'AUTH-002.log'))).toBe(false)
+  })
+
+  test('throws a LoopworkError for unreadable tasks files', async () => {
+    await expect(importFromJson(adapter, { tasksFile: path.join(tmpDir, 'missing.json') })).rejects.toThrow('Cannot read or parse tasks file')
+  })
+})
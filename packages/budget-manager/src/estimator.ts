@@ -0,0 +1,238 @@
+/**
+ * Pre-execution cost estimation
+ *
+ * Estimates token usage, cost and duration for tasks that have not run yet,
+ * from historical usage of tasks in the same feature, falling back to all
+ * history and then to a heuristic based on the task description length.
+ */
+
+import type { TokenUsage, UsageEntry } from '@loopwork-ai/contracts'
+import { calculateModelCost, DEFAULT_ESTIMATED_OUTPUT_TOKENS } from './scoped-budget'
+
+/**
+ * Tokens an agent typically reads beyond the task prompt (files, tool output)
+ */
+export const DEFAULT_CONTEXT_TOKENS = 20_000
+
+/** Minimum historical samples before their spread is trusted as the range */
+const MIN_SAMPLES_FOR_SPREAD = 3
+
+/** Samples needed for a high confidence estimate */
+const HIGH_CONFIDENCE_SAMPLES = 5
+
+export type EstimateBasis = 'feature' | 'history' | 'heuristic'
+
+export type EstimateConfidence = 'high' | 'medium' | 'low'
+
+/**
+ * Task fields used for estimation
+ */
+export interface EstimatedTask {
+  id: string
+  title: string
+  description?: string
+  feature?: string
+}
+
+export interface CostEstimatorOptions {
+  /** Model id the tasks will run on */
+  model: string
+  /** Historical usage entries (e.g. from CostTracker) */
+  history?: UsageEntry[]
+  /** Tasks the history entries belong to, used for feature and description length */
+  historyTasks?: EstimatedTask[]
+  /** Output tokens assumed per run without history */
+  estimatedOutputTokens?: number
+  /** Context tokens assumed per run without history */
+  contextTokens?: number
+}
+
+export interface TaskCostEstimate {
+  taskId: string
+  title: string
+  feature?: string
+  model: string
+  basis: EstimateBasis
+  confidence: EstimateConfidence
+  /** Historical tasks the estimate is based on */
+  samples: number
+  inputTokens: number
+  outputTokens: number
+  /** Estimated cost in USD */
+  cost: number
+  /** Lower bound of the confidence range in USD */
+  low: number
+  /** Upper bound of the confidence range in USD */
+  high: number
+  /** Expected duration in seconds, when history records durations */
+  durationSeconds?: number
+}
+
+export interface CostPlan {
+  model: string
+  tasks: TaskCostEstimate[]
+  total: {
+    inputTokens: number
+    outputTokens: number
+    cost: number
+    low: number
+    high: number
+    durationSeconds: number
+  }
+}
+
+/**
+ * Usage of one historical task, summed over all of its runs
+ */
+interface HistorySample {
+  feature?: string
+  promptTokens?: number
+  usage: TokenUsage
+  duration?: number
+}
+
+function promptTokens(task: EstimatedTask): number {
+  return Math.ceil((task.title.length + (task.description?.length ?? 0)) / 4)
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+}
+
+function stddev(values: number[]): number {
+  if (values.length < 2) return 0
+  const avg = mean(values)
+  return Math.sqrt(mean(values.map(v => (v - avg) ** 2)))
+}
+
+/**
+ * Estimates what a set of tasks will cost to run
+ */
+export class CostEstimator {
+  private readonly model: string
+  private readonly samples: HistorySample[]
+  private readonly outputTokens: number
+  private readonly contextTokens: number
+
+  constructor(options: CostEstimatorOptions) {
+    this.model = options.model
+    this.outputTokens = options.estimatedOutputTokens ?? DEFAULT_ESTIMATED_OUTPUT_TOKENS
+    this.contextTokens = options.contextTokens ?? DEFAULT_CONTEXT_TOKENS
+    this.samples = this.collectSamples(options.history ?? [], options.historyTasks ?? [])
+  }
+
+  estimate(task: EstimatedTask): TaskCostEstimate {
+    const featureSamples = task.feature ? this.samples.filter(s => s.feature === task.feature) : []
+    const samples = featureSamples.length > 0 ? featureSamples : this.samples
+    const basis: EstimateBasis = featureSamples.length > 0 ? 'feature' : samples.length > 0 ? 'history' : 'heuristic'
+
+    const base = {
+      taskId: task.id,
+      title: task.title,
+      feature: task.feature,
+      model: this.model,
+      basis,
+      samples: samples.length,
+    }
+
+    if (basis === 'heuristic') {
+      const inputTokens = promptTokens(task) + this.contextTokens
+      const cost = calculateModelCost(this.model, { inputTokens, outputTokens: this.outputTokens })
+      return {
+        ...base,
+        confidence: 'low',
+        inputTokens,
+        outputTokens: this.outputTokens,
+        cost,
+        low: cost * 0.5,
+        high: cost * 2,
+      }
+    }
+
+    // Longer task descriptions tend to need more context than the samples did
+    const knownLengths = samples.filter(s => s.promptTokens !== undefined).map(s => s.promptTokens!)
+    const scale = knownLengths.length > 0
+      ? Math.min(2, Math.max(0.5, promptTokens(task) / Math.max(1, mean(knownLengths))))
+      : 1
+
+    const usage: TokenUsage = {
+      inputTokens: Math.round(mean(samples.map(s => s.usage.inputTokens)) * scale),
+      outputTokens: Math.round(mean(samples.map(s => s.usage.outputTokens))),
+      cacheReadTokens: Math.round(mean(samples.map(s => s.usage.cacheReadTokens ?? 0)) * scale),
+      cacheWriteTokens: Math.round(mean(samples.map(s => s.usage.cacheWriteTokens ?? 0)) * scale),
+    }
+    const cost = calculateModelCost(this.model, usage)
+    const spread = stddev(samples.map(s => calculateModelCost(this.model, s.usage)))
+
+    let low = Math.max(0, cost - spread)
+    let high = cost + spread
+    if (samples.length < MIN_SAMPLES_FOR_SPREAD) {
+      low = Math.min(low, cost * 0.5)
+      high = Math.max(high, cost * 2)
+    }
+
+    const durations = samples.filter(s => s.duration !== undefined).map(s => s.duration!)
+
+    return {
+      ...base,
+      confidence: samples.length < MIN_SAMPLES_FOR_SPREAD
+        ? 'low'
+        : basis === 'feature' && samples.length >= HIGH_CONFIDENCE_SAMPLES ? 'high' : 'medium',
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cost,
+      low,
+      high,
+      durationSeconds: durations.length > 0 ? mean(durations) : undefined,
+    }
+  }
+
+  plan(tasks: EstimatedTask[]): CostPlan {
+    const estimates = tasks.map(task => this.estimate(task))
+    const sum = (pick: (e: TaskCostEstimate) => number) => estimates.reduce((total, e) => total + pick(e), 0)
+
+    return {
+      model: this.model,
+      tasks: estimates,
+      total: {
+        inputTokens: sum(e => e.inputTokens),
+        outputTokens: sum(e => e.outputTokens),
+        cost: sum(e => e.cost),
+        low: sum(e => e.low),
+        high: sum(e => e.high),
+        durationSeconds: sum(e => e.durationSeconds ?? 0),
+      },
+    }
+  }
+
+  /**
+   * Sum usage per task, so retries count towards what a task really costs
+   */
+  private collectSamples(history: UsageEntry[], historyTasks: EstimatedTask[]): HistorySample[] {
+    const tasksById = new Map(historyTasks.map(t => [t.id, t]))
+    const byTask = new Map<string, HistorySample>()
+
+    for (const entry of history) {
+      let sample = byTask.get(entry.taskId)
+      if (!sample) {
+        const task = tasksById.get(entry.taskId)
+        sample = {
+          feature: task?.feature,
+          promptTokens: task ? promptTokens(task) : undefined,
+          usage: { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 },
+        }
+        byTask.set(entry.taskId, sample)
+      }
+
+      sample.usage.inputTokens += entry.usage.inputTokens
+      sample.usage.outputTokens += entry.usage.outputTokens
+      sample.usage.cacheReadTokens! += entry.usage.cacheReadTokens ?? 0
+      sample.usage.cacheWriteTokens! += entry.usage.cacheWriteTokens ?? 0
+      if (entry.duration !== undefined) {
+        sample.duration = (sample.duration ?? 0) + entry.duration
+      }
+    }
+
+    return Array.from(byTask.values())
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Model pricing and token usage parsing
+ *
+ * Shared by the cost tracker and scoped budgets.
+ */
+
+import type { TokenUsage } from '@loopwork-ai/contracts'
+
+// ============================================================================
+// Token Pricing (per 1M tokens, in USD)
+// ============================================================================
+
+export interface ModelPricing {
+  inputPer1M: number
+  outputPer1M: number
+  cacheReadPer1M?: number
+  cacheWritePer1M?: number
+}
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  // Claude models
+  'claude-3-opus': { inputPer1M: 15.00, outputPer1M: 75.00 },
+  'claude-3-sonnet': { inputPer1M: 3.00, outputPer1M: 15.00 },
+  'claude-3-haiku': { inputPer1M: 0.25, outputPer1M: 1.25 },
+  'claude-3.5-sonnet': { inputPer1M: 3.00, outputPer1M: 15.00 },
+  'claude-3.5-haiku': { inputPer1M: 0.80, outputPer1M: 4.00 },
+  'claude-opus-4': { inputPer1M: 15.00, outputPer1M: 75.00 },
+  'claude-sonnet-4': { inputPer1M: 3.00, outputPer1M: 15.00 },
+
+  // OpenAI models (for opencode)
+  'gpt-4': { inputPer1M: 30.00, outputPer1M: 60.00 },
+  'gpt-4-turbo': { inputPer1M: 10.00, outputPer1M: 30.00 },
+  'gpt-4o': { inputPer1M: 2.50, outputPer1M: 10.00 },
+  'gpt-4o-mini': { inputPer1M: 0.15, outputPer1M: 0.60 },
+  'o1': { inputPer1M: 15.00, outputPer1M: 60.00 },
+  'o1-mini': { inputPer1M: 3.00, outputPer1M: 12.00 },
+
+  // Google models (for gemini)
+  'gemini-1.5-pro': { inputPer1M: 1.25, outputPer1M: 5.00 },
+  'gemini-1.5-flash': { inputPer1M: 0.075, outputPer1M: 0.30 },
+  'gemini-2.0-flash': { inputPer1M: 0.10, outputPer1M: 0.40 },
+
+  // Default fallback
+  'default': { inputPer1M: 3.00, outputPer1M: 15.00 },
+}
+
+/**
+ * Parse token usage from CLI output
+ * Supports various CLI output formats
+ */
+export function parseUsageFromOutput(output: string): TokenUsage | null {
+  const claudeMatch = output.match(/Tokens:\s*(\d+)\s*input,\s*(\d+)\s*output/i)
+  if (claudeMatch) {
+    return {
+      inputTokens: parseInt(claudeMatch[1], 10),
+      outputTokens: parseInt(claudeMatch[2], 10),
+    }
+  }
+
+  const openCodeMatch = output.match(/Usage:\s*(\d+)\s*prompt\s*tokens?,\s*(\d+)\s*completion\s*tokens?/i)
+  if (openCodeMatch) {
+    return {
+      inputTokens: parseInt(openCodeMatch[1], 10),
+      outputTokens: parseInt(openCodeMatch[2], 10),
+    }
+  }
+
+  const genericMatch = output.match(/input[_\s]tokens?:\s*(\d+).*output[_\s]tokens?:\s*(\d+)/i)
+  if (genericMatch) {
+    return {
+      inputTokens: parseInt(genericMatch[1], 10),
+      outputTokens: parseInt(genericMatch[2], 10),
+    }
+  }
+
+  const jsonMatch = output.match(/\{[^}]*"input[_\s]?tokens?":\s*(\d+)[^}]*"output[_\s]?tokens?":\s*(\d+)[^}]*\}/i)
+  if (jsonMatch) {
+    return {
+      inputTokens: parseInt(jsonMatch[1], 10),
+      outputTokens: parseInt(jsonMatch[2], 10),
+    }
+  }
+
+  return null
+}
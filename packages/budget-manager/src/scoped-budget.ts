@@ -0,0 +1,330 @@
+/**
+ * Hierarchical budgets
+ *
+ * Tracks spend per task, feature, namespace, model and calendar month in a
+ * persisted ledger, and checks estimated run costs against every
+ * applicable limit before a model is spawned.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import type {
+  BudgetScope,
+  BudgetScopeLimit,
+  BudgetScopesConfig,
+  BudgetExceededAction,
+  BudgetRequest,
+  BudgetScopeStatus,
+  BudgetCheckResult,
+  IBudgetGuard,
+  TokenUsage,
+} from '@loopwork-ai/contracts'
+import { logger } from '@loopwork-ai/common'
+import { FileLock } from '@loopwork-ai/utils-fs'
+import { MODEL_PRICING, parseUsageFromOutput, type ModelPricing } from './pricing'
+
+export type {
+  BudgetScope,
+  BudgetScopeLimit,
+  BudgetScopesConfig,
+  BudgetExceededAction,
+  BudgetRequest,
+  BudgetScopeStatus,
+  BudgetCheckResult,
+  IBudgetGuard,
+}
+
+export const BUDGET_LEDGER_VERSION = 1
+
+export const DEFAULT_ESTIMATED_OUTPUT_TOKENS = 4000
+
+const BUDGET_SCOPES: BudgetScope[] = ['task', 'feature', 'namespace', 'model', 'month']
+
+/**
+ * Aliases for model ids passed to CLIs (e.g. 'sonnet', 'google/antigravity-gemini-3-flash')
+ */
+const MODEL_PRICING_ALIASES: Array<[RegExp, string]> = [
+  [/opus/i, 'claude-opus-4'],
+  [/sonnet/i, 'claude-sonnet-4'],
+  [/haiku/i, 'claude-3.5-haiku'],
+  [/gpt-4o-mini/i, 'gpt-4o-mini'],
+  [/gemini.*flash/i, 'gemini-2.0-flash'],
+  [/gemini.*pro/i, 'gemini-1.5-pro'],
+]
+
+/**
+ * Resolve pricing for a model id, falling back to the default pricing
+ */
+export function resolveModelPricing(model: string): ModelPricing {
+  if (MODEL_PRICING[model]) return MODEL_PRICING[model]
+
+  const bare = model.split('/').pop() || model
+  if (MODEL_PRICING[bare]) return MODEL_PRICING[bare]
+
+  const alias = MODEL_PRICING_ALIASES.find(([pattern]) => pattern.test(bare))
+  return alias ? MODEL_PRICING[alias[1]] : MODEL_PRICING['default']
+}
+
+/**
+ * Calculate the cost of token usage for a model id
+ */
+export function calculateModelCost(model: string, usage: TokenUsage): number {
+  const pricing = resolveModelPricing(model)
+  let cost = (usage.inputTokens / 1_000_000) * pricing.inputPer1M
+  cost += (usage.outputTokens / 1_000_000) * pricing.outputPer1M
+  if (usage.cacheReadTokens && pricing.cacheReadPer1M) {
+    cost += (usage.cacheReadTokens / 1_000_000) * pricing.cacheReadPer1M
+  }
+  if (usage.cacheWriteTokens && pricing.cacheWritePer1M) {
+    cost += (usage.cacheWriteTokens / 1_000_000) * pricing.cacheWritePer1M
+  }
+  return cost
+}
+
+/**
+ * Persisted spend per scope key
+ */
+export interface BudgetLedgerState {
+  version: number
+  spent: Record<BudgetScope, Record<string, number>>
+  /** Scope keys (`scope:key`) whose alert has already fired */
+  alerted: string[]
+}
+
+export interface ScopedBudgetOptions {
+  /** Ledger file path */
+  filePath: string
+  /** Budget limits */
+  config: BudgetScopesConfig
+  /** Clock, used for the calendar month scope */
+  now?: () => Date
+}
+
+function emptyLedger(): BudgetLedgerState {
+  return {
+    version: BUDGET_LEDGER_VERSION,
+    spent: { task: {}, feature: {}, namespace: {}, model: {}, month: {} },
+    alerted: [],
+  }
+}
+
+/**
+ * Hierarchical budget enforcement
+ *
+ * The ledger is re-read before every check and charge so that parallel
+ * loopwork processes sharing a project see each other's spend, and every
+ * read-modify-write holds the ledger's file lock so none of it is lost.
+ */
+export class ScopedBudget implements IBudgetGuard {
+  readonly onExceeded: BudgetExceededAction
+  private readonly filePath: string
+  private readonly config: BudgetScopesConfig
+  private readonly now: () => Date
+  private readonly lock: FileLock
+
+  constructor(options: ScopedBudgetOptions) {
+    this.filePath = options.filePath
+    this.lock = new FileLock({ filePath: options.filePath })
+    this.config = options.config
+    this.now = options.now ?? (() => new Date())
+    this.onExceeded = options.config.onExceeded ?? 'skip'
+  }
+
+  /**
+   * Estimate the cost of a run from the prompt length and expected output
+   */
+  estimateCost(request: BudgetRequest): number {
+    const inputTokens = Math.ceil((request.prompt?.length ?? 0) / 4)
+    const outputTokens = this.config.estimatedOutputTokens ?? DEFAULT_ESTIMATED_OUTPUT_TOKENS
+    return calculateModelCost(request.model, { inputTokens, outputTokens })
+  }
+
+  /**
+   * Status of every scope with a limit that applies to the request
+   */
+  getScopeStatus(request: Partial<BudgetRequest>): BudgetScopeStatus[] {
+    return this.statusFrom(this.load(), request)
+  }
+
+  async check(request: BudgetRequest): Promise<BudgetCheckResult> {
+    const estimatedCost = this.estimateCost(request)
+
+    return this.update((ledger) => {
+      const scopes = this.statusFrom(ledger, request)
+      const exceeded = scopes.filter(s => estimatedCost > s.remaining)
+      const alerts = scopes.filter(s => s.alertTriggered && !ledger.alerted.includes(`${s.scope}:${s.key}`))
+
+      if (alerts.length > 0) {
+        ledger.alerted.push(...alerts.map(s => `${s.scope}:${s.key}`))
+      }
+
+      return {
+        result: {
+          allowed: exceeded.length === 0,
+          estimatedCost,
+          scopes,
+          exceeded,
+          alerts,
+        },
+        changed: alerts.length > 0,
+      }
+    })
+  }
+
+  /**
+   * Charge a cost against every scope the request identifies.
+   * Spend is recorded even for scopes without a limit, so limits added
+   * later account for earlier spend.
+   */
+  async charge(request: Partial<BudgetRequest>, cost: number): Promise<void> {
+    if (!(cost > 0)) return
+    await this.update((ledger) => {
+      for (const { scope, key } of this.keysFor(request)) {
+        ledger.spent[scope][key] = (ledger.spent[scope][key] ?? 0) + cost
+      }
+      return { result: undefined, changed: true }
+    })
+  }
+
+  async recordOutput(request: BudgetRequest, output: string): Promise<number> {
+    const usage = parseUsageFromOutput(output)
+    if (!usage) return 0
+    const cost = calculateModelCost(request.model, usage)
+    await this.charge(request, cost)
+    return cost
+  }
+
+  /**
+   * Spend recorded for a scope key
+   */
+  getSpent(scope: BudgetScope, key: string): number {
+    return this.load().spent[scope][key] ?? 0
+  }
+
+  /**
+   * Clear all recorded spend
+   */
+  reset(): void {
+    this.save(emptyLedger())
+  }
+
+  private monthKey(): string {
+    return this.now().toISOString().slice(0, 7)
+  }
+
+  private keysFor(request: Partial<BudgetRequest>): Array<{ scope: BudgetScope; key: string }> {
+    const keys: Array<{ scope: BudgetScope; key: string }> = []
+    if (request.taskId) keys.push({ scope: 'task', key: request.taskId })
+    if (request.feature) keys.push({ scope: 'feature', key: request.feature })
+    keys.push({ scope: 'namespace', key: request.namespace || 'default' })
+    if (request.model) keys.push({ scope: 'model', key: request.model })
+    keys.push({ scope: 'month', key: this.monthKey() })
+    return keys
+  }
+
+  private limitFor(scope: BudgetScope, key: string): BudgetScopeLimit | undefined {
+    switch (scope) {
+      case 'task':
+        return this.config.task
+      case 'month':
+        return this.config.month
+      default: {
+        const limits = this.config[scope]
+        return limits?.[key] ?? limits?.['*']
+      }
+    }
+  }
+
+  private statusFrom(ledger: BudgetLedgerState, request: Partial<BudgetRequest>): BudgetScopeStatus[] {
+    const statuses: BudgetScopeStatus[] = []
+    for (const { scope, key } of this.keysFor(request)) {
+      const limit = this.limitFor(scope, key)
+      if (!limit) continue
+
+      const spent = ledger.spent[scope][key] ?? 0
+      const threshold = limit.alertThreshold ?? this.config.alertThreshold ?? 0.8
+      statuses.push({
+        scope,
+        key,
+        limit: limit.limit,
+        spent,
+        remaining: Math.max(0, limit.limit - spent),
+        alertTriggered: spent >= limit.limit * threshold,
+      })
+    }
+    return statuses
+  }
+
+  /**
+   * Read, change and write the ledger under its file lock
+   */
+  private async update<T>(fn: (ledger: BudgetLedgerState) => { result: T; changed: boolean }): Promise<T> {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    return this.lock.withLock(() => {
+      const ledger = this.load()
+      const { result, changed } = fn(ledger)
+      if (changed) this.save(ledger)
+      return result
+    })
+  }
+
+  /**
+   * Read the ledger. A ledger that cannot be read or parsed fails the call
+   * rather than passing as an empty one, which the next charge would write
+   * over the recorded spend; an unparseable one is moved aside to
+   * `<file>.corrupt-<timestamp>` so that spend can be recovered.
+   */
+  private load(): BudgetLedgerState {
+    if (!fs.existsSync(this.filePath)) return emptyLedger()
+
+    let data: Partial<BudgetLedgerState>
+    try {
+      data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Partial<BudgetLedgerState>
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      if (!(error instanceof SyntaxError)) {
+        logger.error(`Cannot read budget ledger ${this.filePath}: ${reason}`)
+        throw error
+      }
+
+      const corruptPath = `${this.filePath}.corrupt-${this.now().getTime()}`
+      fs.renameSync(this.filePath, corruptPath)
+      logger.error(`Budget ledger ${this.filePath} is corrupt (${reason}), moved it to ${corruptPath}`)
+      throw new Error(`Budget ledger ${this.filePath} is corrupt, moved it to ${corruptPath}`)
+    }
+
+    const ledger = emptyLedger()
+    for (const scope of BUDGET_SCOPES) {
+      ledger.spent[scope] = { ...data.spent?.[scope] }
+    }
+    ledger.alerted = data.alerted ?? []
+    return ledger
+  }
+
+  /**
+   * Write the ledger. A failed write fails the call so that spend is never
+   * silently left out of the caps.
+   */
+  private save(ledger: BudgetLedgerState): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+      const tempPath = `${this.filePath}.${process.pid}.tmp`
+      fs.writeFileSync(tempPath, JSON.stringify(ledger, null, 2))
+      fs.renameSync(tempPath, this.filePath)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      logger.error(`Cannot save budget ledger ${this.filePath}, spend not recorded: ${reason}`)
+      throw new Error(`Cannot save budget ledger ${this.filePath}: ${reason}`)
+    }
+  }
+}
+
+/**
+ * Create a hierarchical budget with its ledger in `<projectRoot>/.loopwork/budget-ledger.json`
+ */
+export function createScopedBudget(projectRoot: string, config: BudgetScopesConfig): ScopedBudget {
+  return new ScopedBudget({
+    filePath: path.join(projectRoot, '.loopwork', 'budget-ledger.json'),
+    config,
+  })
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'bun:test'
+import type { UsageEntry } from '@loopwork-ai/contracts'
+import { CostEstimator, calculateModelCost, DEFAULT_CONTEXT_TOKENS } from '../src/index'
+
+function entry(taskId: string, inputTokens: number, outputTokens: number, duration?: number): UsageEntry {
+  return {
+    taskId,
+    model: 'sonnet',
+    usage: { inputTokens, outputTokens },
+    cost: 0,
+    timestamp: new Date('2026-10-01T00:00:00Z'),
+    duration,
+  }
+}
+
+describe('CostEstimator', () => {
+  const historyTasks = [
+    { id: 'A-1', title: 'Auth one', description: 'x'.repeat(392), feature: 'auth' },
+    { id: 'A-2', title: 'Auth two', description: 'x'.repeat(392), feature: 'auth' },
+    { id: 'A-3', title: 'Auth three', description: 'x'.repeat(390), feature: 'auth' },
+    { id: 'B-1', title: 'Billing', description: 'x'.repeat(393), feature: 'billing' },
+  ]
+  const history = [
+    entry('A-1', 100_000, 10_000, 60),
+    entry('A-2', 50_000, 5_000, 30),
+    // A retry of A-2 counts towards the same task
+    entry('A-2', 50_000, 5_000, 30),
+    entry('A-3', 100_000, 10_000, 60),
+    entry('B-1', 1_000_000, 100_000, 600),
+  ]
+
+  it('falls back to a description-length heuristic without history', () => {
+    const estimator = new CostEstimator({ model: 'claude-sonnet-4' })
+    const estimate = estimator.estimate({ id: 'T1', title: 'x'.repeat(400) })
+
+    expect(estimate.basis).toBe('heuristic')
+    expect(estimate.confidence).toBe('low')
+    expect(estimate.inputTokens).toBe(100 + DEFAULT_CONTEXT_TOKENS)
+    expect(estimate.outputTokens).toBe(4000)
+    expect(estimate.low).toBeCloseTo(estimate.cost * 0.5)
+    expect(estimate.high).toBeCloseTo(estimate.cost * 2)
+    expect(estimate.durationSeconds).toBeUndefined()
+  })
+
+  it('estimates from tasks in the same feature', () => {
+    const estimator = new CostEstimator({ model: 'claude-sonnet-4', history, historyTasks })
+    const estimate = estimator.estimate({ id: 'A-4', title: 'Auth four', description: 'x'.repeat(391), feature: 'auth' })
+
+    expect(estimate.basis).toBe('feature')
+    expect(estimate.samples).toBe(3)
+    expect(estimate.confidence).toBe('medium')
+    expect(estimate.inputTokens).toBe(100_000)
+    expect(estimate.outputTokens).toBe(10_000)
+    expect(estimate.cost).toBeCloseTo(calculateModelCost('claude-sonnet-4', { inputTokens: 100_000, outputTokens: 10_000 }))
+    expect(estimate.low).toBeCloseTo(estimate.cost)
+    expect(estimate.high).toBeCloseTo(estimate.cost)
+    expect(estimate.durationSeconds).toBe(60)
+  })
+
+  it('uses all history for features it has not seen', () => {
+    const estimator = new CostEstimator({ model: 'claude-sonnet-4', history, historyTasks })
+    const estimate = estimator.estimate({ id: 'C-1', title: 'x'.repeat(400), feature: 'search' })
+
+    expect(estimate.basis).toBe('history')
+    expect(estimate.samples).toBe(4)
+    expect(estimate.high).toBeGreaterThan(estimate.cost)
+    expect(estimate.low).toBeLessThan(estimate.cost)
+  })
+
+  it('scales input tokens by description length relative to the samples', () => {
+    const estimator = new CostEstimator({ model: 'claude-sonnet-4', history, historyTasks })
+    const estimate = estimator.estimate({ id: 'A-5', title: 'x'.repeat(800), feature: 'auth' })
+
+    expect(estimate.inputTokens).toBe(200_000)
+    expect(estimate.outputTokens).toBe(10_000)
+  })
+
+  it('prices history with the planned model', () => {
+    const sonnet = new CostEstimator({ model: 'sonnet', history, historyTasks })
+    const opus = new CostEstimator({ model: 'opus', history, historyTasks })
+    const task = { id: 'B-2', title: 'Billing two', feature: 'billing' }
+
+    expect(opus.estimate(task).cost).toBeGreaterThan(sonnet.estimate(task).cost)
+  })
+
+  it('sums estimates into a plan total', () => {
+    const estimator = new CostEstimator({ model: 'claude-sonnet-4', history, historyTasks })
+    const plan = estimator.plan([
+      { id: 'A-4', title: 'Auth four', description: 'x'.repeat(391), feature: 'auth' },
+      { id: 'B-2', title: 'Billing two', description: 'x'.repeat(390), feature: 'billing' },
+    ])
+
+    expect(plan.tasks).toHaveLength(2)
+    expect(plan.total.cost).toBeCloseTo(plan.tasks[0].cost + plan.tasks[1].cost)
+    expect(plan.total.high).toBeCloseTo(plan.tasks[0].high + plan.tasks[1].high)
+    expect(plan.total.durationSeconds).toBe(660)
+  })
+})
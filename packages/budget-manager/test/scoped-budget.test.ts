@@ -0,0 +1,145 @@
+import { describe, expect, it, beforeEach, afterEach, spyOn } from 'bun:test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { logger } from '@loopwork-ai/common'
+import { ScopedBudget, BudgetManager, CostTracker, resolveModelPricing, MODEL_PRICING } from '../src/index'
+
+describe('ScopedBudget', () => {
+  let tmpDir: string
+  let filePath: string
+  let now: Date
+
+  const create = (config: ConstructorParameters<typeof ScopedBudget>[0]['config']) =>
+    new ScopedBudget({ filePath, config, now: () => now })
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'loopwork-budget-'))
+    filePath = path.join(tmpDir, '.loopwork', 'budget-ledger.json')
+    now = new Date('2026-10-15T12:00:00Z')
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('charges every scope the request identifies', async () => {
+    const budget = create({})
+    await budget.charge({ taskId: 'T1', feature: 'auth', namespace: 'team-a', model: 'sonnet' }, 0.5)
+
+    expect(budget.getSpent('task', 'T1')).toBe(0.5)
+    expect(budget.getSpent('feature', 'auth')).toBe(0.5)
+    expect(budget.getSpent('namespace', 'team-a')).toBe(0.5)
+    expect(budget.getSpent('model', 'sonnet')).toBe(0.5)
+    expect(budget.getSpent('month', '2026-10')).toBe(0.5)
+  })
+
+  it('blocks runs whose estimate exceeds any applicable scope', async () => {
+    const budget = create({
+      feature: { auth: { limit: 1 } },
+      month: { limit: 100 },
+      estimatedOutputTokens: 10_000,
+    })
+    await budget.charge({ feature: 'auth' }, 0.9)
+
+    const check = await budget.check({ taskId: 'T1', feature: 'auth', model: 'claude-sonnet-4', prompt: 'x'.repeat(400) })
+
+    expect(check.allowed).toBe(false)
+    expect(check.estimatedCost).toBeCloseTo(0.1503, 4)
+    expect(check.exceeded.map(s => `${s.scope}:${s.key}`)).toEqual(['feature:auth'])
+    expect(check.scopes.map(s => s.scope)).toEqual(['feature', 'month'])
+  })
+
+  it('applies wildcard limits to keys without their own entry', async () => {
+    const budget = create({ model: { '*': { limit: 0.01 }, haiku: { limit: 10 } } })
+
+    expect((await budget.check({ model: 'opus' })).allowed).toBe(false)
+    expect((await budget.check({ model: 'haiku' })).allowed).toBe(true)
+  })
+
+  it('fires each alert once per scope key', async () => {
+    const budget = create({ task: { limit: 10, alertThreshold: 0.5 } })
+    await budget.charge({ taskId: 'T1' }, 6)
+
+    expect((await budget.check({ taskId: 'T1', model: 'haiku' })).alerts.map(a => a.key)).toEqual(['T1'])
+    expect((await budget.check({ taskId: 'T1', model: 'haiku' })).alerts).toEqual([])
+  })
+
+  it('starts a new monthly budget each calendar month', async () => {
+    const budget = create({ month: { limit: 1 } })
+    await budget.charge({}, 1)
+    expect((await budget.check({ model: 'haiku' })).allowed).toBe(false)
+
+    now = new Date('2026-11-01T00:00:00Z')
+    expect((await budget.check({ model: 'haiku' })).allowed).toBe(true)
+  })
+
+  it('persists spend across instances', async () => {
+    await create({}).charge({ taskId: 'T1' }, 0.25)
+    expect(create({}).getSpent('task', 'T1')).toBe(0.25)
+  })
+
+  it('keeps concurrent charges from every writer', async () => {
+    await Promise.all(Array.from({ length: 10 }, () => create({}).charge({ taskId: 'T1' }, 0.5)))
+    expect(create({}).getSpent('task', 'T1')).toBe(5)
+    expect(fs.existsSync(`${filePath}.lock`)).toBe(false)
+  })
+
+  it('fails closed on a corrupt ledger and keeps it for recovery', async () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    fs.writeFileSync(filePath, '{"spent": {"task": {"T1": 9')
+    const logged: string[] = []
+    const spy = spyOn(logger, 'error').mockImplementation((msg: string) => { logged.push(msg) })
+
+    try {
+      await expect(create({}).check({ taskId: 'T1', model: 'haiku' })).rejects.toThrow('is corrupt')
+    } finally {
+      spy.mockRestore()
+    }
+
+    const corrupt = fs.readdirSync(path.dirname(filePath)).filter(f => f.startsWith('budget-ledger.json.corrupt-'))
+    expect(corrupt).toHaveLength(1)
+    expect(fs.readFileSync(path.join(path.dirname(filePath), corrupt[0]), 'utf-8')).toBe('{"spent": {"task": {"T1": 9')
+    expect(logged).toEqual([expect.stringContaining('is corrupt')])
+  })
+
+  it('fails a charge it cannot save', async () => {
+    fs.mkdirSync(`${filePath}.${process.pid}.tmp`, { recursive: true })
+    const logged: string[] = []
+    const spy = spyOn(logger, 'error').mockImplementation((msg: string) => { logged.push(msg) })
+
+    try {
+      await expect(create({}).charge({ taskId: 'T1' }, 0.5)).rejects.toThrow('Cannot save budget ledger')
+      await expect(create({}).recordOutput({ taskId: 'T1', model: 'opus' }, 'Tokens: 1000 input, 0 output')).rejects.toThrow('Cannot save budget ledger')
+    } finally {
+      spy.mockRestore()
+    }
+
+    expect(logged).toEqual([expect.stringContaining('spend not recorded'), expect.stringContaining('spend not recorded')])
+  })
+
+  it('charges parsed usage from CLI output', async () => {
+    const budget = create({})
+    const cost = await budget.recordOutput({ taskId: 'T1', model: 'opus' }, 'Tokens: 1000000 input, 0 output')
+
+    expect(cost).toBe(15)
+    expect(budget.getSpent('task', 'T1')).toBe(15)
+  })
+
+  it('resolves CLI model ids to pricing', () => {
+    expect(resolveModelPricing('opus')).toBe(MODEL_PRICING['claude-opus-4'])
+    expect(resolveModelPricing('google/antigravity-gemini-3-flash')).toBe(MODEL_PRICING['gemini-2.0-flash'])
+    expect(resolveModelPricing('gpt-4o')).toBe(MODEL_PRICING['gpt-4o'])
+    expect(resolveModelPricing('mystery')).toBe(MODEL_PRICING['default'])
+  })
+
+  it('is charged through BudgetManager.consume()', async () => {
+    const scoped = create({})
+    const manager = new BudgetManager(new CostTracker(tmpDir, 'scoped'), {}, scoped)
+
+    await manager.consume(0.3, { feature: 'auth' })
+
+    expect(scoped.getSpent('feature', 'auth')).toBe(0.3)
+    expect(scoped.getSpent('month', '2026-10')).toBe(0.3)
+  })
+})
@@ -8,8 +8,10 @@ import type {
   IDetectionOptions,
   IDetectionResult,
   CliType,
+  CustomCliConfig,
   DEFAULT_CLI_PATH_CONFIG,
 } from '@loopwork-ai/contracts'
+import { cliPathEnvVar } from '@loopwork-ai/contracts'
 
 /**
  * Node-based CLI detector that scans PATH and standard locations
@@ -17,11 +19,16 @@ import type {
 export class NodeBasedCliDetector implements ICliDetector {
   private readonly pathConfig = this.getDefaultPathConfig()
 
+  /**
+   * @param customClis CLIs declared in config, detected alongside the built-in ones
+   */
+  constructor(private readonly customClis: CustomCliConfig[] = []) {}
+
   /**
    * Detect all supported CLI binaries
    */
   async detectAll(options?: IDetectionOptions): Promise<IDetectionResult> {
-    const cliTypes: CliType[] = ['claude', 'opencode', 'gemini']
+    const cliTypes: CliType[] = ['claude', 'opencode', 'gemini', ...this.customClis.map(cli => cli.name)]
     const found = new Map<CliType, IBinaryInfo>()
     const notFound: CliType[] = []
 
@@ -46,6 +53,7 @@ export class NodeBasedCliDetector implements ICliDetector {
    */
   async detectOne(type: CliType, options?: IDetectionOptions): Promise<IBinaryInfo | null> {
     const opts = this.normalizeOptions(options)
+    const custom = this.customClis.find(cli => cli.name === type)
 
     // 1. Check environment variable
     if (opts.checkEnvironment) {
@@ -64,18 +72,24 @@ export class NodeBasedCliDetector implements ICliDetector {
       }
     }
 
-    // 3. Search system PATH
+    // 3. A custom CLI's command may be a path itself
+    if (custom?.command.includes('/')) {
+      const info = await this.validateBinary(type, this.expandPath(custom.command), 'config')
+      if (info) return info
+    }
+
+    // 4. Search system PATH
     if (opts.searchPath) {
-      const pathResult = this.searchSystemPath(type)
+      const pathResult = this.searchSystemPath(custom?.command ?? type)
       if (pathResult) {
         const info = await this.validateBinary(type, pathResult, 'path')
         if (info) return info
       }
     }
 
-    // 4. Check default/known locations
+    // 5. Check default/known locations
     if (opts.checkDefaults) {
-      const defaultPaths = this.pathConfig.defaultPaths[type]
+      const defaultPaths = custom ? custom.paths ?? [] : this.pathConfig.defaultPaths[type] ?? []
       for (const defaultPath of defaultPaths) {
         const expandedPath = this.expandPath(defaultPath)
         const info = await this.validateBinary(type, expandedPath, 'default')
@@ -106,15 +120,15 @@ export class NodeBasedCliDetector implements ICliDetector {
    * Check environment variable for CLI path
    */
   private checkEnvironmentVariable(type: CliType): string | null {
-    const envVar = this.pathConfig.envVars[type]
+    const envVar = this.pathConfig.envVars[type] ?? cliPathEnvVar(type)
     const envPath = process.env[envVar]
     return envPath || null
   }
 
   /**
-   * Search system PATH for CLI binary
+   * Search system PATH for a CLI's executable
    */
-  private searchSystemPath(type: CliType): string | null {
+  private searchSystemPath(command: string): string | null {
     const pathEnv = process.env.PATH || ''
     const paths = pathEnv.split(delimiter)
 
@@ -123,7 +137,7 @@ export class NodeBasedCliDetector implements ICliDetector {
 
     for (const dir of paths) {
       for (const ext of extensions) {
-        const candidate = join(dir, type + ext)
+        const candidate = join(dir, command + ext)
         if (this.isExecutable(candidate)) {
           return candidate
         }
@@ -145,7 +159,8 @@ export class NodeBasedCliDetector implements ICliDetector {
       return null
     }
 
-    const version = await this.getVersion(path)
+    const versionArgs = this.customClis.find(cli => cli.name === type)?.versionArgs ?? ['--version']
+    const version = await this.getVersion(path, versionArgs)
 
     return {
       type,
@@ -178,9 +193,9 @@ export class NodeBasedCliDetector implements ICliDetector {
   /**
    * Get version string from a binary
    */
-  private async getVersion(path: string): Promise<string | undefined> {
+  private async getVersion(path: string, args: string[]): Promise<string | undefined> {
     try {
-      const output = execSync(`"${path}" --version`, {
+      const output = execSync([path, ...args].map(arg => `"${arg}"`).join(' '), {
         encoding: 'utf8',
         timeout: 5000,
         stdio: ['pipe', 'pipe', 'pipe'],
@@ -223,6 +238,10 @@ export class NodeBasedCliDetector implements ICliDetector {
         claude: 'LOOPWORK_CLAUDE_PATH',
         opencode: 'LOOPWORK_OPENCODE_PATH',
         gemini: 'LOOPWORK_GEMINI_PATH',
+        droid: 'LOOPWORK_DROID_PATH',
+        crush: 'LOOPWORK_CRUSH_PATH',
+        kimi: 'LOOPWORK_KIMI_PATH',
+        kilocode: 'LOOPWORK_KILOCODE_PATH',
       },
       defaultPaths: {
         claude: [
@@ -240,6 +259,26 @@ export class NodeBasedCliDetector implements ICliDetector {
           '~/.local/bin/gemini',
           '/usr/local/bin/gemini',
         ],
+        droid: [
+          '~/.npm/bin/droid',
+          '~/.npm/bin/factory',
+          '/usr/local/bin/droid',
+          '/usr/local/bin/factory',
+        ],
+        crush: [
+          '/opt/homebrew/bin/crush',
+          '/usr/local/bin/crush',
+          '~/.npm/bin/crush',
+        ],
+        kimi: [
+          '~/.local/bin/kimi',
+          '/usr/local/bin/kimi',
+        ],
+        kilocode: [
+          '~/.npm/bin/kilocode',
+          '/usr/local/bin/kilocode',
+        ],
+        // The scripted test CLI is only used when its path is configured
       },
     }
   }
@@ -1,4 +1,7 @@
 import { describe, test, expect, beforeEach, mock } from 'bun:test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
 import { NodeBasedCliDetector } from '../src/detector'
 import type { CliType } from '@loopwork-ai/contracts'
 
@@ -255,4 +258,45 @@ describe('NodeBasedCliDetector', () => {
       expect(result).toBeDefined()
     })
   })
+
+  describe('custom CLIs', () => {
+    const binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'detector-custom-'))
+    const binPath = path.join(binDir, 'my-agent')
+    fs.writeFileSync(binPath, '#!/bin/sh\necho "my-agent 2.1.0"\n', { mode: 0o755 })
+    // Earlier tests replace fs; these need the real file system
+    const realFs = { existsSync: fs.existsSync, accessSync: fs.accessSync, constants: fs.constants }
+
+    beforeEach(() => {
+      mock.module('fs', () => realFs)
+    })
+
+    test('detects a custom CLI by its command', async () => {
+      const detector = new NodeBasedCliDetector([{ name: 'my-agent', command: binPath }])
+
+      const result = await detector.detectAll({ checkEnvironment: false, searchPath: false, checkDefaults: false })
+
+      expect(result.found.get('my-agent')?.path).toBe(binPath)
+      expect(result.notFound).not.toContain('my-agent')
+    })
+
+    test('checks the environment variable named after a custom CLI', async () => {
+      process.env.LOOPWORK_MY_AGENT_PATH = binPath
+      const detector = new NodeBasedCliDetector([{ name: 'my-agent', command: 'not-installed-agent' }])
+
+      const result = await detector.detectOne('my-agent', { searchPath: false, checkDefaults: false })
+
+      delete process.env.LOOPWORK_MY_AGENT_PATH
+      expect(result?.path).toBe(binPath)
+      expect(result?.source).toBe('environment')
+    })
+
+    test('checks the paths a custom CLI declares', async () => {
+      const detector = new NodeBasedCliDetector([{ name: 'agent', command: 'not-installed-agent', paths: [binPath] }])
+
+      const result = await detector.detectOne('agent', { checkEnvironment: false, searchPath: false })
+
+      expect(result?.path).toBe(binPath)
+      expect(result?.source).toBe('default')
+    })
+  })
 })
@@ -1,4 +1,5 @@
 export * from './logger'
+export * from './redaction'
 export * from './utils'
 export * from './formatting'
 export * from './progress-bar'
@@ -3,6 +3,7 @@ import fs from 'fs'
 import path from 'path'
 import type { ILogger, LogLevel } from '@loopwork-ai/contracts'
 import { getTimestamp } from './utils'
+import { redactSecrets } from './redaction'
 
 const LOG_LEVELS: Record<LogLevel, number> = {
   trace: -1,
@@ -18,7 +19,8 @@ const LOG_LEVELS: Record<LogLevel, number> = {
  * Standard console-based logger implementation
  * 
  * Supports multiple log levels, file logging, TTY detection,
- * and live updates for progress tracking.
+ * and live updates for progress tracking. Secrets are masked before
+ * anything is printed or written to the log file.
  */
 export class ConsoleLogger implements ILogger {
   private logFile: string | null = null
@@ -69,7 +71,7 @@ export class ConsoleLogger implements ILogger {
         if (!fs.existsSync(dir)) {
           fs.mkdirSync(dir, { recursive: true })
         }
-        fs.appendFileSync(this.logFile, `[${timestamp}] [${level}] ${msg}\n`)
+        fs.appendFileSync(this.logFile, `[${timestamp}] [${level}] ${redactSecrets(msg)}\n`)
       } catch {
         // Silently ignore log file errors
       }
@@ -101,7 +103,7 @@ export class ConsoleLogger implements ILogger {
         break
     }
 
-    return `${timestamp} ${prefix}: ${msg}`
+    return `${timestamp} ${prefix}: ${redactSecrets(msg)}`
   }
 
   /**
@@ -179,7 +181,7 @@ export class ConsoleLogger implements ILogger {
     if (!this.shouldLog('info')) return
 
     const percentStr = percent !== undefined ? ` [${Math.round(percent)}%]` : ''
-    const output = `${chalk.blue('update')}: ${msg}${percentStr}`
+    const output = `${chalk.blue('update')}: ${redactSecrets(msg)}${percentStr}`
     
     if (this.isTTY) {
       process.stdout.write(`\r${output}`)
@@ -214,6 +216,7 @@ export class ConsoleLogger implements ILogger {
    * @param noNewline - Whether to skip the trailing newline
    */
   raw(msg: string, noNewline: boolean = false) {
+    msg = redactSecrets(msg)
     if (noNewline) {
       process.stdout.write(msg)
     } else {
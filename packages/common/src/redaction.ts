@@ -0,0 +1,214 @@
+/**
+ * A pattern for one kind of secret
+ */
+export interface RedactionRule {
+  /** Shown in the mask, e.g. `[REDACTED:github-token]` */
+  name: string
+  pattern: RegExp
+  /** Capture group holding the secret; the rest of the match is kept (default: the whole match) */
+  group?: number
+}
+
+export interface RedactionOptions {
+  /** Set to false to leave output untouched (default: true) */
+  enabled?: boolean
+  /** Extra rules, checked before the defaults */
+  rules?: RedactionRule[]
+  /** Use only `rules`, without the default rules */
+  replaceDefaultRules?: boolean
+  /**
+   * Mask long random-looking tokens no rule recognises (default: true).
+   * `minLength` defaults to 32 characters and `threshold` to 4.3 bits of
+   * Shannon entropy per character.
+   */
+  entropy?: boolean | { minLength?: number; threshold?: number }
+  /** Values never masked, e.g. public test keys */
+  allowlist?: string[]
+}
+
+/**
+ * A secret found in a piece of text
+ */
+export interface SecretFinding {
+  rule: string
+  /** 1-based line and column of the secret */
+  line: number
+  column: number
+  /** The secret with all but its first four characters masked */
+  preview: string
+}
+
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  { name: 'private-key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----(?:[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----)?/ },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})\b/ },
+  { name: 'anthropic-key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/ },
+  { name: 'openai-key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/ },
+  { name: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { name: 'slack-token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/ },
+  { name: 'telegram-bot-token', pattern: /\b\d{8,10}:[A-Za-z0-9_-]{35}\b/ },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/ },
+  { name: 'bearer-token', pattern: /(\bBearer\s+)([A-Za-z0-9._~+/-]{20,}=*)/, group: 2 },
+  {
+    name: 'credential',
+    pattern: /((?:api[_-]?key|secret|password|passwd|token|credential)\w*["']?\s*[:=]\s*["']?)((?!\d+\b|\[REDACTED)[^\s"',;]{8,})/i,
+    group: 2,
+  },
+]
+
+// Base64 alphabet without "-" so file paths, dates and slugs split into short words
+const ENTROPY_CANDIDATE = /[A-Za-z0-9+/=_]+/g
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>()
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1)
+  }
+  let entropy = 0
+  for (const count of counts.values()) {
+    const p = count / value.length
+    entropy -= p * Math.log2(p)
+  }
+  return entropy
+}
+
+interface Match {
+  rule: string
+  start: number
+  end: number
+}
+
+/**
+ * Finds and masks secrets in text
+ *
+ * Rules recognise known key and token formats; anything else that is long,
+ * mixes letters and digits and looks random is masked as high entropy.
+ */
+export class SecretRedactor {
+  private readonly enabled: boolean
+  private readonly rules: RedactionRule[]
+  private readonly entropy?: { minLength: number; threshold: number }
+  private readonly allowlist: Set<string>
+
+  constructor(options: RedactionOptions = {}) {
+    this.enabled = options.enabled ?? true
+    this.rules = [
+      ...(options.rules ?? []),
+      ...(options.replaceDefaultRules ? [] : DEFAULT_REDACTION_RULES),
+    ].map(rule => ({
+      ...rule,
+      // Global to find every match, with indices to locate capture groups
+      pattern: new RegExp(rule.pattern.source, [...new Set(`${rule.pattern.flags}gd`)].join('')),
+    }))
+    if (options.entropy !== false) {
+      const entropy = typeof options.entropy === 'object' ? options.entropy : {}
+      this.entropy = { minLength: entropy.minLength ?? 32, threshold: entropy.threshold ?? 4.3 }
+    }
+    this.allowlist = new Set(options.allowlist ?? [])
+  }
+
+  /**
+   * Replace every secret in `text` with `[REDACTED:<rule>]`
+   */
+  redact(text: string): string {
+    if (!this.enabled || !text) return text
+
+    let result = ''
+    let last = 0
+    for (const match of this.match(text)) {
+      result += `${text.slice(last, match.start)}[REDACTED:${match.rule}]`
+      last = match.end
+    }
+    return last === 0 ? text : result + text.slice(last)
+  }
+
+  /**
+   * List the secrets in `text` without revealing them
+   */
+  scan(text: string): SecretFinding[] {
+    if (!text) return []
+
+    const lineStarts = [0]
+    for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+      lineStarts.push(i + 1)
+    }
+
+    return this.match(text).map(match => {
+      let line = lineStarts.length - 1
+      while (lineStarts[line] > match.start) line--
+      const secret = text.slice(match.start, match.end)
+      return {
+        rule: match.rule,
+        line: line + 1,
+        column: match.start - lineStarts[line] + 1,
+        preview: `${secret.slice(0, 4)}${'*'.repeat(Math.max(0, Math.min(secret.length - 4, 12)))}`,
+      }
+    })
+  }
+
+  /**
+   * Non-overlapping secrets in `text`, ordered by position; earlier rules
+   * win over later ones and over the entropy check
+   */
+  private match(text: string): Match[] {
+    const matches: Match[] = []
+    const overlaps = (start: number, end: number) => matches.some(m => start < m.end && end > m.start)
+
+    const add = (rule: string, start: number, end: number) => {
+      if (end > start && !overlaps(start, end) && !this.allowlist.has(text.slice(start, end))) {
+        matches.push({ rule, start, end })
+      }
+    }
+
+    for (const rule of this.rules) {
+      for (const m of text.matchAll(rule.pattern)) {
+        const start = m.index ?? 0
+        const group = rule.group ? m.indices?.[rule.group] : undefined
+        if (group) {
+          add(rule.name, group[0], group[1])
+        } else {
+          add(rule.name, start, start + m[0].length)
+        }
+      }
+    }
+
+    if (this.entropy) {
+      const { minLength, threshold } = this.entropy
+      for (const m of text.matchAll(ENTROPY_CANDIDATE)) {
+        const token = m[0]
+        if (token.length >= minLength && /\d/.test(token) && /[A-Za-z]/.test(token) && shannonEntropy(token) >= threshold) {
+          add('high-entropy', m.index ?? 0, (m.index ?? 0) + token.length)
+        }
+      }
+    }
+
+    return matches.sort((a, b) => a.start - b.start)
+  }
+}
+
+let activeRedactor = new SecretRedactor()
+
+/**
+ * Replace the rules used by `redactSecrets`, e.g. from the project config
+ */
+export function configureRedaction(options: RedactionOptions = {}): SecretRedactor {
+  activeRedactor = new SecretRedactor(options)
+  return activeRedactor
+}
+
+/**
+ * The redactor used by the loggers and notification providers
+ */
+export function getRedactor(): SecretRedactor {
+  return activeRedactor
+}
+
+/**
+ * Mask secrets in text before it is logged, persisted or sent
+ */
+export function redactSecrets(text: string): string {
+  return activeRedactor.redact(text)
+}
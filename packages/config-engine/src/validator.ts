@@ -14,6 +14,13 @@ export const GithubBackendSchema = z.object({
   flags: z.record(z.boolean()).optional(),
 })
 
+export const SqliteBackendSchema = z.object({
+  type: z.literal('sqlite'),
+  dbFile: z.string().optional(),
+  busyTimeoutMs: z.number().optional(),
+  flags: z.record(z.boolean()).optional(),
+})
+
 export const FallbackBackendSchema = z.object({
   type: z.literal('fallback'),
   flags: z.record(z.boolean()).optional(),
@@ -30,6 +37,7 @@ export const LooseBackendSchema = z.object({
 export const BackendConfigSchema = z.union([
   JsonBackendSchema,
   GithubBackendSchema,
+  SqliteBackendSchema,
   FallbackBackendSchema,
   LooseBackendSchema,
 ])
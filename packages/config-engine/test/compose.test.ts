@@ -55,6 +55,21 @@ describe('Config Engine', () => {
     expect(validated.cli).toBe('claude')
   })
 
+  test('validator keeps the sqlite backend settings', () => {
+    const config = {
+      backend: { type: 'sqlite', dbFile: '.specs/tasks/tasks.db', busyTimeoutMs: 5000 },
+      cli: 'claude'
+    }
+
+    const validated = validateConfig(config)
+    expect(validated.backend).toEqual({ type: 'sqlite', dbFile: '.specs/tasks/tasks.db', busyTimeoutMs: 5000 })
+  })
+
+  test('validator leaves the sqlite database file to the backend default', () => {
+    const validated = validateConfig({ backend: { type: 'sqlite' }, cli: 'claude' })
+    expect(validated.backend).toEqual({ type: 'sqlite' })
+  })
+
   test('validator throws on invalid config', () => {
     const config = {
       // missing backend
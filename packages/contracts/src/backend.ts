@@ -4,6 +4,7 @@
 
 import type {
   Task,
+  TaskEvent,
   Priority,
   FindTaskOptions,
   UpdateResult,
@@ -12,6 +13,7 @@ import type {
   BackendConfig,
   JsonBackendConfig,
   GithubBackendConfig,
+  SqliteBackendConfig,
   FallbackBackendConfig,
   LooseBackendConfig,
 } from './types'
@@ -77,6 +79,9 @@ export interface TaskBackend {
   /** Add a comment to a task (optional) */
   addComment?(taskId: string, comment: string): Promise<UpdateResult>
 
+  /** Append an event to a task's event log (optional) */
+  addEvent?(taskId: string, event: Omit<TaskEvent, 'taskId' | 'timestamp'>): Promise<UpdateResult>
+
   /** Health check */
   ping(): Promise<PingResult>
 
@@ -132,6 +137,7 @@ export type {
   BackendConfig,
   JsonBackendConfig,
   GithubBackendConfig,
+  SqliteBackendConfig,
   FallbackBackendConfig,
   LooseBackendConfig,
   FindTaskOptions,
@@ -152,6 +158,7 @@ export function warnIfLooseBackendConfig(config: BackendConfig): void {
   const isSpecialized =
     config.type === 'json' ||
     config.type === 'github' ||
+    config.type === 'sqlite' ||
     config.type === 'fallback'
 
   if (!isSpecialized) {
@@ -293,3 +293,153 @@ export interface IBudgetManager {
     isAlertTriggered: boolean
   }
 }
+
+/**
+ * Scope a budget applies to
+ *
+ * - task:      spend on a single task
+ * - feature:   spend on all tasks of a feature
+ * - namespace: spend within a loopwork namespace
+ * - model:     spend on a single model
+ * - month:     spend in the current calendar month
+ */
+export type BudgetScope = 'task' | 'feature' | 'namespace' | 'model' | 'month'
+
+/**
+ * Limit for one budget scope
+ */
+export interface BudgetScopeLimit {
+  /** Maximum spend in USD */
+  limit: number
+
+  /** Alert threshold as percentage (0-1) of the limit */
+  alertThreshold?: number
+}
+
+/**
+ * What to do when the estimated cost of a run does not fit a budget
+ *
+ * - skip:      do not run the task
+ * - downgrade: run the task on the cheapest model that still fits
+ */
+export type BudgetExceededAction = 'skip' | 'downgrade'
+
+/**
+ * Hierarchical budget configuration
+ *
+ * Keyed scopes (feature, namespace, model) accept a `*` entry that applies
+ * to every key without its own entry.
+ */
+export interface BudgetScopesConfig {
+  /** Limit applied to every task */
+  task?: BudgetScopeLimit
+
+  /** Limits per feature */
+  feature?: Record<string, BudgetScopeLimit>
+
+  /** Limits per namespace */
+  namespace?: Record<string, BudgetScopeLimit>
+
+  /** Limits per model */
+  model?: Record<string, BudgetScopeLimit>
+
+  /** Limit for the current calendar month */
+  month?: BudgetScopeLimit
+
+  /** Default alert threshold (0-1) for scopes without their own */
+  alertThreshold?: number
+
+  /** Action when a run does not fit (default: skip) */
+  onExceeded?: BudgetExceededAction
+
+  /** Expected output tokens per run, used for estimates (default: 4000) */
+  estimatedOutputTokens?: number
+}
+
+/**
+ * What a run is charged against
+ */
+export interface BudgetRequest {
+  taskId?: string
+  feature?: string
+  namespace?: string
+  model: string
+  /** Prompt sent to the model, used to estimate input tokens */
+  prompt?: string
+}
+
+/**
+ * Spend against one applicable budget scope
+ */
+export interface BudgetScopeStatus {
+  scope: BudgetScope
+  /** Scope key (task id, feature name, model, YYYY-MM) */
+  key: string
+  limit: number
+  spent: number
+  remaining: number
+  /** Whether spend has crossed the alert threshold */
+  alertTriggered: boolean
+}
+
+/**
+ * Outcome of checking a run against every applicable budget
+ */
+export interface BudgetCheckResult {
+  /** Whether the estimated cost fits every applicable budget */
+  allowed: boolean
+
+  /** Estimated cost of the run in USD */
+  estimatedCost: number
+
+  /** Status of every applicable scope */
+  scopes: BudgetScopeStatus[]
+
+  /** Scopes whose remaining budget cannot cover the estimate */
+  exceeded: BudgetScopeStatus[]
+
+  /** Scopes that crossed their alert threshold for the first time */
+  alerts: BudgetScopeStatus[]
+}
+
+/**
+ * Pre-execution budget enforcement used by the CLI executor
+ */
+export interface IBudgetGuard {
+  /** Action when a run does not fit */
+  readonly onExceeded: BudgetExceededAction
+
+  /**
+   * Check whether a run fits every applicable budget
+   *
+   * @param request - Task, feature, namespace and model of the run
+   * @returns Check result with the estimate and any exceeded scopes
+   */
+  check(request: BudgetRequest): Promise<BudgetCheckResult>
+
+  /**
+   * Estimate the cost of a run without touching the ledger
+   *
+   * @param request - Task, feature, namespace and model of the run
+   * @returns Estimated cost in USD
+   */
+  estimateCost(request: BudgetRequest): number
+
+  /**
+   * Status of every applicable scope, without recording alerts
+   *
+   * @param request - Task, feature, namespace and model of the run
+   * @returns Status of every scope with a limit that applies
+   */
+  getScopeStatus(request: Partial<BudgetRequest>): BudgetScopeStatus[]
+
+  /**
+   * Charge the actual cost of a run, parsed from the CLI output
+   *
+   * @param request - Task, feature, namespace and model of the run
+   * @param output - CLI output containing token usage
+   * @returns Charged cost in USD (0 when no usage was found)
+   * @throws When the spend cannot be recorded
+   */
+  recordOutput(request: BudgetRequest, output: string): Promise<number>
+}
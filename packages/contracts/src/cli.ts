@@ -184,9 +184,17 @@ export const DEFAULT_CLI_PATH_CONFIG: ICliPathConfig = {
       '~/.npm/bin/kilocode',
       '/usr/local/bin/kilocode',
     ],
+    // The scripted test CLI is only used when its path is configured
   },
 }
 
+/**
+ * Environment variable that overrides a CLI's path, e.g. LOOPWORK_MY_AGENT_PATH for 'my-agent'
+ */
+export function cliPathEnvVar(cli: string): string {
+  return `LOOPWORK_${cli.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_PATH`
+}
+
 export type CliHealthStatus = 'healthy' | 'unhealthy' | 'not_found' | 'timeout' | 'error'
 
 export interface ICliHealthCheckResult {
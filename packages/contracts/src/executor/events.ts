@@ -0,0 +1,86 @@
+/**
+ * Agent Event Stream
+ *
+ * Typed events parsed from a CLI's machine-readable output mode
+ * (e.g. Claude's stream-json or OpenCode's JSON events).
+ */
+
+import type { TokenUsage } from '../budget'
+
+/**
+ * The agent invoked a tool
+ */
+export interface AgentToolCallEvent {
+  type: 'tool_call'
+  /** Tool use ID, used to pair the call with its result */
+  id?: string
+  name: string
+  input: Record<string, unknown>
+}
+
+/**
+ * A tool invoked by the agent returned
+ */
+export interface AgentToolResultEvent {
+  type: 'tool_result'
+  id?: string
+  /** Tool name, when the CLI reports it with the result */
+  name?: string
+  output: string
+  isError: boolean
+}
+
+/**
+ * The agent changed a file through one of its tools
+ */
+export interface AgentFileEditEvent {
+  type: 'file_edit'
+  path: string
+  /** Tool that made the edit */
+  tool: string
+}
+
+/**
+ * Assistant text
+ */
+export interface AgentMessageEvent {
+  type: 'message'
+  text: string
+}
+
+/**
+ * The CLI's own session ID, which can be passed back to resume the conversation
+ */
+export interface AgentSessionEvent {
+  type: 'session'
+  sessionId: string
+}
+
+/**
+ * Token usage reported by the CLI
+ */
+export interface AgentUsageEvent extends TokenUsage {
+  type: 'usage'
+  /** Cost reported by the CLI itself, in USD */
+  costUsd?: number
+}
+
+export type AgentEvent =
+  | AgentToolCallEvent
+  | AgentToolResultEvent
+  | AgentFileEditEvent
+  | AgentMessageEvent
+  | AgentUsageEvent
+  | AgentSessionEvent
+
+/**
+ * Parses one spawn's output, a line at a time.
+ * Parsers are stateful, so a new one is created for every spawn.
+ */
+export interface IAgentEventParser {
+  /**
+   * Parse a line of output
+   * Returns null when the line is not part of the event stream, so it is handled as plain text
+   */
+  parseLine(line: string): AgentEvent[] | null
+}
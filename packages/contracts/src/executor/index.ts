@@ -1,8 +1,11 @@
-import { ModelConfig, ExecutionOptions, ITaskMinimal } from './types'
+import { ModelConfig, ExecutionOptions, ITaskMinimal, ModelPreference } from './types'
+import type { TaskFeatures, ModelOutcome, ModelStatsTable } from './routing'
 
 export * from './types'
 export * from './strategy'
+export * from './events'
 export * from './adapter'
+export * from './routing'
 
 /**
  * Model Selector Interface
@@ -50,6 +53,33 @@ export interface IModelSelector {
   reset(): void
 }
 
+/**
+ * Picks models from what past attempts at similar tasks achieved
+ */
+export interface IModelOutcomeRouter {
+  /**
+   * Pick a model for a task, sampling each model's likely success so that
+   * less-tried models still get chosen sometimes
+   */
+  choose(models: ModelConfig[], features: TaskFeatures): ModelConfig | null
+
+  /**
+   * Models ordered by expected score, best first, without sampling
+   */
+  rank(models: ModelConfig[], features: TaskFeatures): ModelConfig[]
+
+  /**
+   * Learn from the outcome of an attempt. Never rejects: an outcome that
+   * cannot be saved is logged and dropped.
+   */
+  record(outcome: ModelOutcome): Promise<void>
+
+  /**
+   * Everything learned so far
+   */
+  getStats(): ModelStatsTable
+}
+
 /**
  * Model Provider Interface
  *
@@ -146,9 +176,10 @@ export interface ICliExecutor {
 
   /**
    * Get the next available model configuration without advancing the selector.
+   * @param preference - Model the task prefers, reported instead when available
    * @returns Model metadata or null if no models available
    */
-  getNextModel?(): { cli: string; model: string; displayName?: string } | null
+  getNextModel?(preference?: ModelPreference): { cli: string; model: string; displayName?: string } | null
 
   /**
    * Start progressive validation that enables immediate work with available models.
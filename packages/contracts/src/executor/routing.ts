@@ -0,0 +1,74 @@
+/**
+ * Adaptive Model Routing Contracts
+ *
+ * The `adaptive` selection strategy learns which models succeed on which
+ * kinds of task from the outcome of every attempt, and picks models with a
+ * bandit policy that keeps trying the others now and then.
+ */
+
+import type { TaskCategory } from '../capability/types'
+
+/**
+ * Rough size of a task, from the length of its description
+ */
+export type TaskSize = 'small' | 'medium' | 'large'
+
+/**
+ * What the router knows about a task when it picks a model
+ */
+export interface TaskFeatures {
+  feature?: string
+  priority?: string
+  category?: TaskCategory
+  size?: TaskSize
+}
+
+/**
+ * Result of one attempt of a model at a task
+ */
+export interface ModelOutcome {
+  /** Model name from its ModelConfig */
+  model: string
+  features: TaskFeatures
+  success: boolean
+  durationMs: number
+  /** Attempts made at the task before this one */
+  retries: number
+  /** Cost reported by the CLI, in USD */
+  costUsd?: number
+}
+
+/**
+ * Running totals of a model's outcomes, overall or for one task feature
+ */
+export interface ModelOutcomeStats {
+  attempts: number
+  successes: number
+  totalDurationMs: number
+  totalRetries: number
+  totalCostUsd: number
+  /** Attempts that reported a cost */
+  costSamples: number
+  /** ISO timestamp of the latest attempt */
+  lastAttemptAt: string
+}
+
+/**
+ * Learned stats by model name. `all` holds every attempt; the other keys hold
+ * attempts at tasks with that feature, e.g. `category:testing` or `size:large`
+ */
+export type ModelStatsTable = Record<string, Record<string, ModelOutcomeStats>>
+
+/**
+ * Configuration for the `adaptive` selection strategy
+ */
+export interface AdaptiveRoutingConfig {
+  /** Where learned stats are kept (default: .loopwork/model-stats.json) */
+  statsFile?: string
+
+  /**
+   * How much cost counts against success rate, from 0 (ignore cost) to 1
+   * Default: 0.2
+   */
+  costWeight?: number
+}
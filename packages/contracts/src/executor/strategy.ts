@@ -6,6 +6,7 @@
  */
 
 import type { CliType, ModelConfig } from './types'
+import type { IAgentEventParser } from './events'
 
 /**
  * Context passed to CLI strategy methods
@@ -30,6 +31,18 @@ export interface ICliStrategyContext {
    * Optional permissions from execution options
    */
   permissions?: Record<string, string>
+
+  /**
+   * Ask the CLI for its machine-readable event stream instead of plain text.
+   * Only set when the strategy has an event parser.
+   */
+  eventStream?: boolean
+
+  /**
+   * Session to resume, as reported by the strategy's event parser.
+   * Strategies whose parsers report sessions must support resuming them.
+   */
+  resumeSessionId?: string
 }
 
 /**
@@ -55,6 +68,11 @@ export interface ICliPrepareResult {
    * Display name for logging
    */
   displayName: string
+
+  /**
+   * Called once the CLI has exited, e.g. to remove a temporary prompt file
+   */
+  cleanup?(): void
 }
 
 /**
@@ -92,6 +110,12 @@ export interface ICliStrategy {
    * Get CLI-specific quota exceeded patterns (optional)
    */
   getQuotaExceededPatterns?(): RegExp[]
+
+  /**
+   * Create a parser for the CLI's event stream (if the CLI has one)
+   * Called once per spawn prepared with `eventStream`
+   */
+  createEventParser?(): IAgentEventParser
 }
 
 /**
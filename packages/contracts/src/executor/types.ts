@@ -4,9 +4,18 @@ import type {
   ModelRoleType,
   TaskCategory
 } from '../capability/types'
+import type { AdaptiveRoutingConfig } from './routing'
 
-export type CliType = 'claude' | 'opencode' | 'gemini' | 'droid' | 'crush' | 'kimi' | 'kilocode'
-export type ModelSelectionStrategy = 'round-robin' | 'priority' | 'cost-aware' | 'random' | 'capability'
+/**
+ * CLIs with a built-in strategy
+ */
+export type BuiltinCliType = 'claude' | 'opencode' | 'gemini' | 'droid' | 'crush' | 'kimi' | 'kilocode'
+
+/**
+ * A built-in CLI, or the name of one declared in `customClis`
+ */
+export type CliType = BuiltinCliType | (string & {})
+export type ModelSelectionStrategy = 'round-robin' | 'priority' | 'cost-aware' | 'random' | 'capability' | 'adaptive'
 
 export interface ModelConfig {
   /**
@@ -43,6 +52,13 @@ export interface ModelConfig {
    */
   args?: string[]
 
+  /**
+   * Run the CLI in its machine-readable output mode, when its strategy has a parser for it
+   * Set to false to always use plain text output
+   * @default true
+   */
+  eventStream?: boolean
+
   /**
    * Per-model environment variables
    * Merged with process.env, model-specific takes precedence
@@ -109,8 +125,19 @@ export interface ExecutionOptions {
   permissions?: Record<string, string>
   priority?: string
   feature?: string
+  namespace?: string
+  /** CLI to run the first attempt with (e.g. a workflow stage override) */
+  preferredCli?: string
+  /** Model name or id to run the first attempt with; falls back to normal selection when unavailable */
+  preferredModel?: string
+  /** Kind of work the task is, used by adaptive model selection */
+  category?: TaskCategory
+  /** Length of the task's description, used by adaptive model selection */
+  descriptionLength?: number
 }
 
+export type ModelPreference = Pick<ExecutionOptions, 'preferredCli' | 'preferredModel'>
+
 export interface ITaskMinimal {
   id: string
   priority?: string
@@ -142,6 +169,118 @@ export interface CliPathConfig {
   crush?: string
   kimi?: string
   kilocode?: string
+  fake?: string
+  /** Paths of custom CLIs, by name */
+  [cli: string]: string | undefined
+}
+
+/**
+ * How a custom CLI receives the prompt
+ * - stdin: written to the CLI's standard input
+ * - arg: passed as an argument
+ * - file: written to a temporary file whose path is passed as an argument
+ */
+export type PromptDelivery = 'stdin' | 'arg' | 'file'
+
+/**
+ * Event stream formats the executor can parse, named after the CLI that emits them
+ */
+export type AgentEventFormat = 'claude-stream-json' | 'opencode-json' | 'gemini-stream-json'
+
+/**
+ * An AI CLI declared in config rather than implemented as a strategy
+ *
+ * @example
+ * ```typescript
+ * {
+ *   name: 'aider',
+ *   command: 'aider',
+ *   args: ['--yes-always', '--no-git', '--message-file', '{promptFile}'],
+ *   prompt: 'file',
+ *   modelFlag: '--model',
+ *   usagePatterns: { input: 'Tokens: ([\\d,.]+k?) sent', output: '([\\d,.]+k?) received' },
+ * }
+ * ```
+ */
+export interface CustomCliConfig {
+  /**
+   * Name models use in their `cli` field
+   * Must not be the name of a built-in CLI
+   */
+  name: string
+
+  /**
+   * Executable name looked up in PATH, or a path to it
+   */
+  command: string
+
+  /**
+   * Argument template. `{model}`, `{prompt}` and `{promptFile}` are replaced
+   * with the model ID, the prompt and the prompt file path
+   */
+  args?: string[]
+
+  /**
+   * How the prompt is passed. With 'arg' and 'file', the prompt or its file path
+   * is appended when `args` has no placeholder for it
+   * @default 'stdin'
+   */
+  prompt?: PromptDelivery
+
+  /**
+   * Flag the model ID is passed with, e.g. '--model'
+   * Not used when `args` contains `{model}`
+   */
+  modelFlag?: string
+
+  /**
+   * Environment variables for every run; a model's own `env` takes precedence
+   */
+  env?: Record<string, string>
+
+  /**
+   * Other locations to look for the executable when it is not in PATH
+   */
+  paths?: string[]
+
+  /**
+   * Arguments that make the CLI print its version
+   * @default ['--version']
+   */
+  versionArgs?: string[]
+
+  /**
+   * Output patterns meaning the provider is rate limiting the run
+   * Strings are compiled as case-insensitive regular expressions
+   */
+  rateLimitPatterns?: Array<string | RegExp>
+
+  /**
+   * Output patterns meaning the provider's quota is used up
+   * Strings are compiled as case-insensitive regular expressions
+   */
+  quotaPatterns?: Array<string | RegExp>
+
+  /**
+   * Patterns for the token usage lines of plain-text output.
+   * The first capture group is the number; a trailing "k" multiplies it by 1000
+   */
+  usagePatterns?: {
+    input?: string | RegExp
+    output?: string | RegExp
+    costUsd?: string | RegExp
+  }
+
+  /**
+   * The CLI's machine-readable event stream, if it emits one in a known format
+   */
+  eventStream?: {
+    format: AgentEventFormat
+    /** Arguments that switch the CLI to its event stream */
+    args: string[]
+    /** Arguments that resume a session, with `{sessionId}` replaced; sessions are not resumed without them */
+    resumeArgs?: string[]
+  }
 }
 
 export interface CliExecutorConfig {
@@ -162,6 +301,11 @@ export interface CliExecutorConfig {
    */
   cliPaths?: CliPathConfig
 
+  /**
+   * AI CLIs declared in config, used by models like the built-in ones
+   */
+  customClis?: CustomCliConfig[]
+
   /**
    * Retry and rate-limit configuration
    */
@@ -173,6 +317,11 @@ export interface CliExecutorConfig {
    */
   selectionStrategy?: ModelSelectionStrategy
 
+  /**
+   * Options for the 'adaptive' selection strategy
+   */
+  adaptive?: AdaptiveRoutingConfig
+
   /**
    * Delay before SIGKILL after SIGTERM (milliseconds)
    * Default: 5000 (5 seconds)
@@ -21,6 +21,7 @@ export * from './cli'
 export * from './model'
 export * from './resilience'
 export * from './budget'
+export * from './rate-limit'
 export * from './orchestration'
 export * from './embedding'
 export * from './backend'
@@ -30,3 +31,4 @@ export * from './pipeline'
 export * from './documentation'
 export * from './notifications'
 export * from './isolation'
+export * from './sync'
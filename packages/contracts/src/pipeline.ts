@@ -42,6 +42,28 @@ export type IHookMiddleware<TContext extends PipelineContext = PipelineContext>
   next: NextFunction
 ) => Promise<void> | void
 
+/**
+ * Ordering and time limit of one middleware.
+ */
+export interface MiddlewareOptions<TContext extends PipelineContext = PipelineContext> {
+  /**
+   * Higher runs first; equal priorities keep registration order (default: 0)
+   */
+  priority?: number
+
+  /**
+   * Milliseconds the middleware may take before calling next(). When it
+   * overruns, the pipeline moves on without it.
+   */
+  timeoutMs?: number
+
+  /**
+   * Called when the middleware overruns timeoutMs, with the context it was
+   * running for
+   */
+  onTimeout?: (error: Error, context: TContext) => void
+}
+
 /**
  * Pipeline interface for composing and executing middleware.
  */
@@ -49,8 +71,9 @@ export interface IPipeline<TContext extends PipelineContext = PipelineContext> {
   /**
    * Add middleware to the pipeline.
    * @param middleware - The middleware function to add
+   * @param options - Priority and timeout of the middleware
    */
-  use(middleware: IHookMiddleware<TContext>): this
+  use(middleware: IHookMiddleware<TContext>, options?: MiddlewareOptions<TContext>): this
 
   /**
    * Execute the pipeline with the given context.
@@ -4,6 +4,9 @@
  * Defines the contract for managing plugins and their lifecycle hooks.
  * Plugins extend Loopwork's functionality through a composable architecture.
  */
+
+import type { Task } from '../types'
+
 export interface IPluginRegistry {
   /**
    * Execute a specific hook across all registered plugins.
@@ -77,6 +80,11 @@ export interface TaskContext {
    * Worker ID for parallel execution (0, 1, 2, etc.)
    */
   workerId?: number
+  /**
+   * Directory the agent works in when it is not the current directory,
+   * e.g. the task's git worktree with worktree isolation
+   */
+  workDir?: string
   /**
    * Message bus for inter-process communication
    */
@@ -105,6 +113,47 @@ export interface LoopStats {
   duration?: number
 }
 
+/**
+ * Timing of one plugin's hook call, reported to plugins implementing onPluginHook
+ */
+export interface PluginHookEvent {
+  plugin: string
+  hook: string
+  /** Epoch milliseconds */
+  startTime: number
+  durationMs: number
+  /** Task the hook ran for, when its arguments carry one */
+  taskId?: string
+  error?: string
+}
+
+/**
+ * What an onBeforeTaskStart or onBeforeComplete hook decides about a task
+ *
+ * - `proceed`: carry on (same as returning nothing)
+ * - `skip`: leave the task pending and pass over it for the rest of the run; other tasks still run
+ * - `defer`: leave the task pending, scheduled for `until`
+ * - `rewrite`: run with `prompt`; before completion, the task is run again with it
+ */
+export type HookDecision =
+  | { action: 'proceed' }
+  | { action: 'skip'; reason?: string }
+  | { action: 'defer'; until: Date | string; reason?: string }
+  | { action: 'rewrite'; prompt: string; reason?: string }
+
+/**
+ * A hook decision and the plugin that made it
+ */
+export type PluginHookDecision = HookDecision & { plugin?: string }
+
+/**
+ * Context passed to onBeforeTaskStart and onBeforeComplete
+ */
+export interface BeforeHookContext extends TaskContext {
+  /** Prompt the task is (or was) run with */
+  prompt: string
+}
+
 /**
  * Base interface for all Loopwork plugins.
  *
@@ -118,14 +167,28 @@ export interface LoopworkPlugin {
   /** Classification of the plugin for prioritization */
   readonly classification?: 'critical' | 'enhancement'
 
+  /** Hooks of plugins with a higher priority run first (default: 0) */
+  readonly priority?: number
+
+  /** Milliseconds each hook may take before it is abandoned and counted as a failure */
+  readonly timeoutMs?: number
+
   /** Lifecycle hooks */
   onConfigLoad?: (config: any) => any | Promise<any>
   onBackendReady?: (backend: any) => void | Promise<void>
+  /** Orders (or narrows) the tasks that are due, before the next one is claimed */
+  onSelectTasks?: (tasks: Task[]) => Task[] | void | Promise<Task[] | void>
   onLoopStart?: (namespace: string) => void | Promise<void>
   onLoopEnd?: (stats: LoopStats) => void | Promise<void>
   onTaskStart?: (context: TaskContext) => void | Promise<void>
   onTaskComplete?: (context: TaskContext, result: PluginTaskResult) => void | Promise<void>
   onTaskFailed?: (context: TaskContext, error: string) => void | Promise<void>
+  /** Decides whether a task runs, after its prompt is built */
+  onBeforeTaskStart?: (context: BeforeHookContext) => HookDecision | void | Promise<HookDecision | void>
+  /** Decides whether a successful task is marked completed */
+  onBeforeComplete?: (context: BeforeHookContext, result: PluginTaskResult) => HookDecision | void | Promise<HookDecision | void>
+  /** Observes every other plugin's hook calls; must not throw */
+  onPluginHook?: (event: PluginHookEvent) => void
 
   /** Allow arbitrary properties for plugin-specific data */
   [key: string]: any
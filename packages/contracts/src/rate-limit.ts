@@ -0,0 +1,103 @@
+/**
+ * Rate Limit Contracts for Loopwork
+ *
+ * Defines the provider rate limiter shared by every loopwork process on a
+ * machine, so parallel namespaces split one provider quota instead of each
+ * assuming it has the whole of it.
+ */
+
+/**
+ * Requests and tokens a provider or model accepts per minute
+ */
+export interface ProviderRateLimit {
+  /** Maximum CLI runs started per minute */
+  requestsPerMinute?: number
+
+  /** Maximum tokens (estimated) per minute */
+  tokensPerMinute?: number
+}
+
+/**
+ * Configuration for the shared provider rate limiter
+ */
+export interface SharedRateLimitConfig {
+  /** Whether runs wait on the shared limiter (default: true when configured) */
+  enabled?: boolean
+
+  /** State file shared by all namespaces (default: .loopwork/rate-limits.json) */
+  stateFile?: string
+
+  /**
+   * Limits keyed by provider (CLI type, e.g. `claude`) or `provider/model`.
+   * A `provider/model` entry wins over its provider's entry.
+   */
+  limits?: Record<string, ProviderRateLimit>
+
+  /** Longest a run waits for a slot before failing as rate limited (default: 300000) */
+  maxWaitMs?: number
+
+  /** Pause after a 429 when the CLI gives no retry-after (default: 60000) */
+  rateLimitCooldownMs?: number
+
+  /** Pause after a quota-exceeded message (default: 900000) */
+  quotaCooldownMs?: number
+
+  /** How long a requests-per-minute limit learned from a 429 is kept (default: 3600000) */
+  learnedLimitTtlMs?: number
+}
+
+/**
+ * The run asking for a slot
+ */
+export interface RateLimitRequest {
+  /** Provider, normally the CLI type */
+  provider: string
+
+  /** Model ID passed to the CLI */
+  model: string
+
+  /** Tokens the run is expected to use, counted against tokensPerMinute */
+  estimatedTokens?: number
+}
+
+/**
+ * Slot granted to a run
+ */
+export interface RateLimitSlot {
+  /** Limiter key the slot was taken from (`provider/model`) */
+  key: string
+
+  /** How long the run waited for the slot */
+  waitedMs: number
+}
+
+/**
+ * Why a CLI run was turned away by its provider
+ */
+export type ProviderLimitKind = 'rate-limit' | 'quota'
+
+/**
+ * Provider rate limiter used by the CLI executor before each spawn
+ */
+export interface IProviderRateLimiter {
+  /**
+   * Wait until the provider/model has room for the run and take a slot
+   *
+   * @param request - Provider, model and estimated tokens of the run
+   * @throws Error mentioning the rate limit when no slot frees up within maxWaitMs
+   */
+  acquire(request: RateLimitRequest): Promise<RateLimitSlot>
+
+  /**
+   * Charge tokens the run used on top of its estimate
+   */
+  recordUsage(request: RateLimitRequest, tokens: number): Promise<void>
+
+  /**
+   * Tell every process that the provider turned a run away, so they all
+   * back off and the learned limit is shared
+   *
+   * @param retryAfterMs - Wait suggested by the provider, if it gave one
+   */
+  reportLimited(request: RateLimitRequest, kind: ProviderLimitKind, retryAfterMs?: number): Promise<void>
+}
@@ -0,0 +1,108 @@
+/**
+ * Sync contracts
+ *
+ * Interfaces for mirroring a canonical local TaskBackend to remote trackers
+ * (Trello, Notion, Todoist, Asana) in both directions.
+ */
+
+import type { Priority, TaskStatus } from './types'
+
+/**
+ * Task fields mirrored between the local backend and a remote tracker
+ */
+export interface SyncFields {
+  title: string
+  description: string
+  status: TaskStatus
+  priority: Priority
+  feature?: string
+}
+
+export type SyncField = keyof SyncFields
+
+/**
+ * How to settle a task that changed on both sides since the last sync
+ *
+ * - local-wins:  overwrite the remote item with the local task
+ * - remote-wins: overwrite the local task with the remote item
+ * - manual:      record the conflict and leave both sides untouched
+ */
+export type SyncConflictResolution = 'local-wins' | 'remote-wins' | 'manual'
+
+/**
+ * Maps one local task field onto one remote field
+ */
+export interface SyncFieldMapping {
+  /** Local task field */
+  local: SyncField
+  /** Field name in the remote item's `fields` */
+  remote: string
+  /** Local value -> remote value (e.g. status -> list name), reversed when pulling */
+  values?: Record<string, string>
+  /** Which way changes flow for this field (default: both) */
+  direction?: 'both' | 'push' | 'pull'
+}
+
+/**
+ * A task as seen by a remote tracker
+ */
+export interface RemoteSyncItem {
+  /** Remote identifier (card id, page id, task gid) */
+  id: string
+  /** Last modification time; trackers without one are compared by content */
+  updatedAt?: string
+  /** Remote field values, keyed by SyncFieldMapping.remote */
+  fields: Record<string, unknown>
+}
+
+/**
+ * Remote tracker that the sync engine can read from and write to
+ */
+export interface ISyncRemote {
+  /** Remote name, used for state files and logging */
+  readonly name: string
+
+  /** Field mapping used when the engine is not given one */
+  readonly defaultMappings: SyncFieldMapping[]
+
+  /**
+   * List items changed since the cursor (all items when omitted).
+   * Remotes that cannot filter by time may return everything.
+   */
+  listItems(since?: string): Promise<RemoteSyncItem[]>
+
+  /** Create an item from mapped fields */
+  createItem(fields: Record<string, unknown>): Promise<RemoteSyncItem>
+
+  /** Update the given mapped fields of an item */
+  updateItem(id: string, fields: Record<string, unknown>): Promise<RemoteSyncItem>
+}
+
+/**
+ * A task that changed on both sides and was not resolved automatically
+ */
+export interface SyncConflict {
+  localId: string
+  remoteId: string
+  local: Partial<SyncFields>
+  remote: Partial<SyncFields>
+  detectedAt: string
+}
+
+/**
+ * Outcome of one sync run against one remote
+ */
+export interface SyncResult {
+  remote: string
+  /** Local changes written to the remote (updates + creates) */
+  pushed: number
+  /** Remote changes written to the local backend (updates + creates) */
+  pulled: number
+  /** Items created on either side */
+  created: { local: number; remote: number }
+  /** Conflicts awaiting manual resolution */
+  conflicts: SyncConflict[]
+  errors: Array<{ id: string; error: string }>
+  /** Cursor persisted for the next run */
+  cursor?: string
+}
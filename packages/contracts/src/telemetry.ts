@@ -32,3 +32,8 @@ export interface ITelemetryProvider {
   metrics: IMetricsCollector
   flush?(): Promise<void>
 }
+
+/**
+ * Cause of a task failure, used to group failures in metrics and self-healing
+ */
+export type FailureCategory = 'rate_limit' | 'timeout' | 'memory' | 'cli_cache' | 'opencode_dependency' | 'opencode_cache' | 'unknown'
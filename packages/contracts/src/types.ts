@@ -20,7 +20,7 @@ export interface TaskEvent {
   type: string | TaskEventType
   message: string
   level: 'info' | 'warn' | 'error' | 'debug'
-  actor?: string
+  actor?: 'system' | 'user' | 'ai'
   metadata?: Record<string, unknown>
 }
 
@@ -69,6 +69,7 @@ export interface GithubBackendConfig extends BackendConfig {
   repo: string
   token?: string
   apiUrl?: string
+  mode?: 'cli' | 'http'
   labels?: {
     task?: string
     pending?: string
@@ -79,6 +80,12 @@ export interface GithubBackendConfig extends BackendConfig {
   }
 }
 
+export interface SqliteBackendConfig extends BackendConfig {
+  type: 'sqlite'
+  dbFile?: string
+  busyTimeoutMs?: number
+}
+
 export interface FallbackBackendConfig extends BackendConfig {
   type: 'fallback'
   primary: unknown
@@ -101,6 +108,8 @@ export interface FindTaskOptions {
     autoRetryDelayMs: number
   }
   startFrom?: string
+  /** Task IDs to pass over, e.g. ones already skipped this run */
+  exclude?: string[]
 }
 
 export interface UpdateResult {
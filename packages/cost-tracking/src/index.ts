@@ -16,7 +16,8 @@ import type {
   LoopworkPlugin, 
   LoopStats, 
   TaskContext, 
-  PluginTaskResult 
+  PluginTaskResult,
+  BudgetScopesConfig
 } from '@loopwork-ai/contracts'
 
 export { 
@@ -24,6 +25,9 @@ export {
   CostTracker, 
   parseUsageFromOutput,
   MODEL_PRICING,
+  ScopedBudget,
+  createScopedBudget,
+  CostEstimator,
   formatCost,
   formatTokens,
   formatUsageSummary,
@@ -37,7 +41,13 @@ export type {
   DailySummary,
   ModelPricing,
   ErrorGroup,
-  TelemetryReport
+  TelemetryReport,
+  BudgetScopesConfig,
+  BudgetScopeLimit,
+  EstimatedTask,
+  CostEstimatorOptions,
+  TaskCostEstimate,
+  CostPlan
 } from '@loopwork-ai/budget-manager'
 
 /**
@@ -58,6 +68,11 @@ export interface CostTrackingConfig {
   userId?: string
   /** Action to take when budget is exceeded: 'warn' | 'block' | 'alert' */
   budgetAction?: 'warn' | 'block' | 'alert'
+  /**
+   * Hierarchical budgets (task, feature, namespace, model, month),
+   * enforced before each model is spawned
+   */
+  budgets?: BudgetScopesConfig
 }
 
 /**
@@ -131,7 +146,7 @@ export function createCostTrackingPlugin(
     },
 
     async onCliResult(event: any) {
-      const usage = parseUsageFromOutput(event.output)
+      const usage = event.usage ?? parseUsageFromOutput(event.output)
       if (usage) {
         manager.record(
           event.taskId || 'unknown',
@@ -11,6 +11,7 @@ const STATE_WATCH_PATTERNS = [
   `${LOOPWORK_DIR}/ai-monitor`,
   `${LOOPWORK_DIR}/spawned-pids.json`,
   `${LOOPWORK_DIR}/parallel*.json`,
+  `${LOOPWORK_DIR}/approvals/*.json`,
 ]
 
 let watcher: chokidar.FSWatcher | null = null
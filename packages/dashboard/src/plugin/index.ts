@@ -9,6 +9,14 @@ export function createDashboardPlugin(config: DashboardConfig = {}): LoopworkPlu
     name: 'dashboard',
 
     async onConfigLoad(loopworkConfig) {
+      if (!server.approvals) {
+        try {
+          const { ApprovalStore } = await import('@loopwork-ai/loopwork/approvals')
+          server.approvals = new ApprovalStore({ projectRoot: loopworkConfig?.projectRoot })
+        } catch {
+          // Approval routes answer 503 without a store
+        }
+      }
       if (config.enabled !== false) {
         await server.start()
       }
@@ -1,6 +1,28 @@
 import type { DashboardBroadcaster } from './broadcaster'
 import type { IDashboardServer } from './types'
 
+const APPROVALS_PATH = /^\/api\/approvals(\/|$)/
+
+/**
+ * Who is deciding an approval, or null if the request may not. With
+ * approval tokens configured the bearer token names the approver;
+ * otherwise only the dashboard's own pages are trusted, so other sites
+ * cannot read or decide approvals from a visitor's browser.
+ */
+function approvalActor(req: Request, server: IDashboardServer): string | null {
+  const tokens = server.approvalTokens
+  if (tokens && Object.keys(tokens).length > 0) {
+    const match = req.headers.get('Authorization')?.match(/^Bearer (.+)$/)
+    return match && Object.prototype.hasOwnProperty.call(tokens, match[1]) ? tokens[match[1]] : null
+  }
+
+  const origin = req.headers.get('Origin')
+  if (origin && origin !== new URL(req.url).origin) return null
+  const site = req.headers.get('Sec-Fetch-Site')
+  if (site && site !== 'same-origin' && site !== 'none') return null
+  return 'dashboard'
+}
+
 export function createRoutes(broadcaster: DashboardBroadcaster, server: IDashboardServer) {
   return async (req: Request): Promise<Response | undefined> => {
     const url = new URL(req.url)
@@ -11,6 +33,14 @@ export function createRoutes(broadcaster: DashboardBroadcaster, server: IDashboa
       'Access-Control-Allow-Headers': 'Content-Type',
     }
 
+    // Approval routes are never shared cross-origin
+    const approvalHeaders = { 'Content-Type': 'application/json' }
+    const isApprovalRoute = APPROVALS_PATH.test(url.pathname)
+
+    if (req.method === 'OPTIONS' && isApprovalRoute) {
+      return new Response(null, { status: 204 })
+    }
+
     if (req.method === 'OPTIONS') {
       return new Response(null, {
         headers: corsHeaders,
@@ -326,6 +356,67 @@ export function createRoutes(broadcaster: DashboardBroadcaster, server: IDashboa
       }
     }
 
+    const actor = isApprovalRoute ? approvalActor(req, server) : null
+    if (isApprovalRoute && !actor) {
+      return new Response(JSON.stringify({ error: 'Not authorized to access approvals' }), {
+        status: 403,
+        headers: approvalHeaders,
+      })
+    }
+
+    if (url.pathname === '/api/approvals' && req.method === 'GET') {
+      if (!server.approvals) {
+        return new Response(JSON.stringify({ error: 'Approvals not available' }), {
+          status: 503,
+          headers: approvalHeaders,
+        })
+      }
+
+      try {
+        const all = url.searchParams.get('all') === 'true'
+        const approvals = server.approvals.list(all ? {} : { status: 'pending' })
+        return new Response(JSON.stringify({ approvals, total: approvals.length }), {
+          status: 200,
+          headers: approvalHeaders,
+        })
+      } catch (error: any) {
+        return new Response(JSON.stringify({ error: error.message }), {
+          status: 500,
+          headers: approvalHeaders,
+        })
+      }
+    }
+
+    const decision = url.pathname.match(/^\/api\/approvals\/([\w-]+)\/(approve|reject)$/)
+    if (decision && actor && req.method === 'POST') {
+      if (!server.approvals) {
+        return new Response(JSON.stringify({ error: 'Approvals not available' }), {
+          status: 503,
+          headers: approvalHeaders,
+        })
+      }
+
+      try {
+        const body = await req.json().catch(() => ({}))
+        const approval = server.approvals.decide(decision[1], {
+          status: decision[2] === 'approve' ? 'approved' : 'rejected',
+          decidedBy: actor,
+          channel: 'dashboard',
+          reason: body.reason,
+        })
+        return new Response(JSON.stringify({ success: true, approval }), {
+          status: 200,
+          headers: approvalHeaders,
+        })
+      } catch (error: any) {
+        const status = error.code === 'ERR_APPROVAL_NOT_FOUND' ? 404 : error.code === 'ERR_APPROVAL_DECIDED' ? 409 : 500
+        return new Response(JSON.stringify({ error: error.message }), {
+          status,
+          headers: approvalHeaders,
+        })
+      }
+    }
+
     return undefined
   }
 }
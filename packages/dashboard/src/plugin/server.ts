@@ -1,4 +1,4 @@
-import type { DashboardConfig, DashboardEvent, LoopState, TaskBackend, IDashboardServer } from './types'
+import type { DashboardConfig, DashboardEvent, LoopState, TaskBackend, IDashboardServer, ApprovalService } from './types'
 import { DashboardBroadcaster } from './broadcaster'
 import { createRoutes } from './routes'
 import { startFileWatcher, stopFileWatcher } from './file-watcher'
@@ -8,6 +8,7 @@ export class DashboardServer implements IDashboardServer {
   private broadcaster: DashboardBroadcaster
   private server?: ReturnType<typeof Bun.serve>
   private _backend?: TaskBackend
+  private _approvals?: ApprovalService
   private _currentTaskId?: string
   private _loopState: LoopState = 'stopped'
   private _loopStartTime?: number
@@ -20,6 +21,7 @@ export class DashboardServer implements IDashboardServer {
   constructor(config: DashboardConfig = {}) {
     this.config = config
     this.broadcaster = new DashboardBroadcaster()
+    this._approvals = config.approvals
   }
 
   set backend(backend: TaskBackend) {
@@ -30,6 +32,18 @@ export class DashboardServer implements IDashboardServer {
     return this._backend
   }
 
+  set approvals(approvals: ApprovalService | undefined) {
+    this._approvals = approvals
+  }
+
+  get approvals(): ApprovalService | undefined {
+    return this._approvals
+  }
+
+  get approvalTokens(): Record<string, string> | undefined {
+    return this.config.approvalTokens
+  }
+
   set currentTaskId(taskId: string | undefined) {
     this._currentTaskId = taskId
   }
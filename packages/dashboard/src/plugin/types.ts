@@ -1,3 +1,5 @@
+import type { Approval, ApprovalDecision, ApprovalStatus } from '@loopwork-ai/loopwork/contracts'
+
 // Minimal types to avoid cross-package import issues
 interface PluginTask {
   id: string
@@ -23,6 +25,23 @@ export interface DashboardConfig {
   host?: string
   enabled?: boolean
   autoOpen?: boolean
+  /** Where approval requests are read and decided (default: .loopwork/approvals) */
+  approvals?: ApprovalService
+  /**
+   * Bearer tokens accepted by the approval routes, mapped to the approver
+   * recorded with each decision. Without any, only same-origin requests
+   * from the dashboard itself are accepted.
+   */
+  approvalTokens?: Record<string, string>
+}
+
+/**
+ * Tasks waiting for human approval; ApprovalStore from
+ * @loopwork-ai/loopwork/approvals fits this shape
+ */
+export interface ApprovalService {
+  list(filter?: { status?: ApprovalStatus | ApprovalStatus[] }): Approval[]
+  decide(id: string, decision: Omit<ApprovalDecision, 'decidedAt'>): Approval
 }
 
 export type DashboardEventType =
@@ -110,6 +129,8 @@ export interface TaskBackend {
 
 export interface IDashboardServer {
   backend?: TaskBackend
+  approvals?: ApprovalService
+  approvalTokens?: Record<string, string>
   currentTaskId?: string
   startLoop(): void
   stopLoop(): void
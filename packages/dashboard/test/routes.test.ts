@@ -117,4 +117,73 @@ describe('Dashboard Routes', () => {
       expect(response).toBeUndefined()
     })
   })
+
+  describe('Approvals', () => {
+    let decisions: any[]
+
+    beforeEach(() => {
+      decisions = []
+      mockServer.approvals = {
+        list: () => [{ id: 'apr_1', taskId: 'TASK-001', status: 'pending' }],
+        decide: (id: string, decision: any) => {
+          decisions.push({ id, ...decision })
+          return { id, ...decision }
+        },
+      }
+    })
+
+    test('serves same-origin requests without CORS headers', async () => {
+      const response = await handleRequest(new Request('http://localhost:3333/api/approvals', {
+        headers: { Origin: 'http://localhost:3333' },
+      }))
+
+      expect(response?.status).toBe(200)
+      expect(response?.headers.get('Access-Control-Allow-Origin')).toBeNull()
+      expect((await response?.json()).total).toBe(1)
+    })
+
+    test('refuses requests from other origins', async () => {
+      const list = await handleRequest(new Request('http://localhost:3333/api/approvals', {
+        headers: { Origin: 'https://evil.example' },
+      }))
+      const approve = await handleRequest(new Request('http://localhost:3333/api/approvals/apr_1/approve', {
+        method: 'POST',
+        headers: { 'Sec-Fetch-Site': 'cross-site' },
+      }))
+
+      expect(list?.status).toBe(403)
+      expect(approve?.status).toBe(403)
+      expect(decisions).toEqual([])
+    })
+
+    test('records the approver the server knows, not the one in the body', async () => {
+      const response = await handleRequest(new Request('http://localhost:3333/api/approvals/apr_1/approve', {
+        method: 'POST',
+        body: JSON.stringify({ by: 'someone-else', reason: 'Looks good' }),
+      }))
+
+      expect(response?.status).toBe(200)
+      expect(decisions).toEqual([{ id: 'apr_1', status: 'approved', decidedBy: 'dashboard', channel: 'dashboard', reason: 'Looks good' }])
+    })
+
+    test('requires a configured bearer token and records its approver', async () => {
+      mockServer.approvalTokens = { 's3cret': 'alice' }
+      const request = (token?: string) => new Request('http://localhost:3333/api/approvals/apr_1/reject', {
+        method: 'POST',
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      })
+
+      expect((await handleRequest(request()))?.status).toBe(403)
+      expect((await handleRequest(request('wrong')))?.status).toBe(403)
+      expect((await handleRequest(request('s3cret')))?.status).toBe(200)
+      expect(decisions.map(d => d.decidedBy)).toEqual(['alice'])
+    })
+
+    test('answers preflight requests without allowing other origins', async () => {
+      const response = await handleRequest(new Request('http://localhost:3333/api/approvals/apr_1/approve', { method: 'OPTIONS' }))
+
+      expect(response?.status).toBe(204)
+      expect(response?.headers.get('Access-Control-Allow-Origin')).toBeNull()
+    })
+  })
 })
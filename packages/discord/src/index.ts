@@ -11,7 +11,7 @@
 
 import type { LoopworkPlugin, PluginTask, ConfigWrapper, TaskContext, PluginTaskResult } from '@loopwork-ai/loopwork/contracts'
 import type { INotificationProvider, NotificationOptions } from '@loopwork-ai/contracts'
-import { logger } from '@loopwork-ai/common'
+import { logger, redactSecrets } from '@loopwork-ai/common'
 
 export interface DiscordConfig {
   webhookUrl?: string
@@ -56,6 +56,19 @@ const COLORS = {
   purple: 0x9b59b6,  // summary
 }
 
+/**
+ * Mask secrets in the embed's text, before it is serialized
+ */
+function redactEmbed(embed: DiscordEmbed): DiscordEmbed {
+  return {
+    ...embed,
+    title: embed.title && redactSecrets(embed.title),
+    description: embed.description && redactSecrets(embed.description),
+    fields: embed.fields?.map(field => ({ ...field, value: redactSecrets(field.value) })),
+    footer: embed.footer && { text: redactSecrets(embed.footer.text) },
+  }
+}
+
 export class DiscordClient {
   private webhookUrl: string
   private username?: string
@@ -68,11 +81,13 @@ export class DiscordClient {
   }
 
   /**
-   * Send a message to Discord
+   * Send a message to Discord, with secrets masked
    */
   async send(payload: DiscordWebhookPayload): Promise<void> {
     const body: DiscordWebhookPayload = {
       ...payload,
+      content: payload.content && redactSecrets(payload.content),
+      embeds: payload.embeds?.map(redactEmbed),
       username: payload.username || this.username,
       avatar_url: payload.avatar_url || this.avatarUrl,
     }
@@ -55,6 +55,21 @@ describe('Discord Plugin', () => {
       )
     })
 
+    test('masks secrets on later lines of a message', async () => {
+      const client = new DiscordClient('https://discord.com/webhook')
+      await client.sendText('Build failed\nAKIAIOSFODNN7EXAMPLE')
+      await client.sendEmbed({
+        title: 'Task failed',
+        description: 'Output:\nAKIAIOSFODNN7EXAMPLE',
+        fields: [{ name: 'Error', value: 'line 1\nAKIAIOSFODNN7EXAMPLE' }],
+      })
+
+      const [text, embed] = mockFetch.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string))
+      expect(text.content).toBe('Build failed\n[REDACTED:aws-access-key]')
+      expect(embed.embeds[0].description).toBe('Output:\n[REDACTED:aws-access-key]')
+      expect(embed.embeds[0].fields[0].value).toBe('line 1\n[REDACTED:aws-access-key]')
+    })
+
     test('handles API errors', async () => {
       mockFetch.mockImplementation(() =>
         Promise.resolve({
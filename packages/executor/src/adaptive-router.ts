@@ -0,0 +1,280 @@
+/**
+ * Adaptive Model Router
+ *
+ * Learns from the outcome of every attempt which models succeed on which
+ * kinds of task, and picks models by Thompson sampling: each model's success
+ * rate is drawn from a Beta distribution over its record, so models with
+ * little history still get tried while proven ones are preferred.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { logger } from '@loopwork-ai/common'
+import { FileLock } from '@loopwork-ai/utils-fs'
+import type {
+  AdaptiveRoutingConfig,
+  IModelOutcomeRouter,
+  ModelConfig,
+  ModelOutcome,
+  ModelOutcomeStats,
+  ModelStatsTable,
+  TaskCategory,
+  TaskFeatures,
+  TaskSize,
+} from '@loopwork-ai/contracts'
+
+const STATS_VERSION = 1
+const DEFAULT_COST_WEIGHT = 0.2
+const DEFAULT_MODEL_COST_WEIGHT = 50
+
+interface StatsFileContent {
+  version: number
+  models: ModelStatsTable
+}
+
+export interface AdaptiveModelRouterOptions extends AdaptiveRoutingConfig {
+  /** Source of random numbers in [0, 1), for deterministic tests */
+  random?: () => number
+}
+
+/**
+ * Keywords that mark a task's category, checked in order; tasks matching none are 'implementation'
+ */
+const CATEGORY_KEYWORDS: Array<[TaskCategory, RegExp]> = [
+  ['security', /\b(security|vulnerab\w*|auth\w*|xss|csrf|injection|secrets?|permissions?)\b/i],
+  ['debugging', /\b(fix\w*|bugs?|crash\w*|errors?|broken|regression|debug\w*)\b/i],
+  ['testing', /\b(tests?|testing|specs?|coverage|e2e)\b/i],
+  ['documentation', /\b(docs?|documentation|readme|changelog|comments?)\b/i],
+  ['performance', /\b(performance|perf|slow|latency|optimi[sz]\w*|speed up|memory)\b/i],
+  ['refactoring', /\b(refactor\w*|clean ?up|simplif\w*|rename|extract)\b/i],
+  ['architecture', /\b(architecture|design|migrat\w*|restructur\w*)\b/i],
+  ['research', /\b(research|investigat\w*|spike|evaluate|explore)\b/i],
+  ['maintenance', /\b(upgrade|bump|dependenc\w*|deprecat\w*|chore)\b/i],
+]
+
+/**
+ * Guess what kind of work a task is from its title and description
+ */
+export function inferTaskCategory(text: string): TaskCategory {
+  for (const [category, pattern] of CATEGORY_KEYWORDS) {
+    if (pattern.test(text)) return category
+  }
+  return 'implementation'
+}
+
+/**
+ * Size bucket for a task description of the given length
+ */
+export function taskSize(descriptionLength: number): TaskSize {
+  if (descriptionLength < 500) return 'small'
+  if (descriptionLength < 2000) return 'medium'
+  return 'large'
+}
+
+/**
+ * Stats keys a task's outcomes are recorded under, besides `all`
+ */
+export function taskFeatureKeys(features: TaskFeatures): string[] {
+  const keys: string[] = []
+  if (features.category) keys.push(`category:${features.category}`)
+  if (features.feature) keys.push(`feature:${features.feature}`)
+  if (features.priority) keys.push(`priority:${features.priority}`)
+  if (features.size) keys.push(`size:${features.size}`)
+  return keys
+}
+
+/**
+ * Router for the `adaptive` selection strategy.
+ * Without a stats file, what it learns lasts only as long as the process.
+ */
+export class AdaptiveModelRouter implements IModelOutcomeRouter {
+  private statsFile?: string
+  private lock?: FileLock
+  private costWeight: number
+  private random: () => number
+  private stats: ModelStatsTable
+
+  constructor(options: AdaptiveModelRouterOptions = {}) {
+    this.statsFile = options.statsFile
+    this.lock = options.statsFile ? new FileLock({ filePath: options.statsFile }) : undefined
+    this.costWeight = Math.min(Math.max(options.costWeight ?? DEFAULT_COST_WEIGHT, 0), 1)
+    this.random = options.random ?? Math.random
+    this.stats = this.load()
+  }
+
+  choose(models: ModelConfig[], features: TaskFeatures): ModelConfig | null {
+    let best: ModelConfig | null = null
+    let bestScore = -Infinity
+    for (const model of models) {
+      const { successes, failures } = this.evidence(model.name, features)
+      const score = this.sampleBeta(1 + successes, 1 + failures) - this.costPenalty(model, models)
+      if (score > bestScore) {
+        best = model
+        bestScore = score
+      }
+    }
+    return best
+  }
+
+  rank(models: ModelConfig[], features: TaskFeatures): ModelConfig[] {
+    const scores = new Map(models.map(model => {
+      const { successes, failures } = this.evidence(model.name, features)
+      const expected = (1 + successes) / (2 + successes + failures)
+      return [model.name, expected - this.costPenalty(model, models)]
+    }))
+    return [...models].sort((a, b) => scores.get(b.name)! - scores.get(a.name)!)
+  }
+
+  async record(outcome: ModelOutcome): Promise<void> {
+    if (!this.statsFile || !this.lock) {
+      this.apply(outcome)
+      return
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.statsFile), { recursive: true })
+      // Other workers write the same file, so re-read and write under its lock
+      await this.lock.withLock(() => {
+        this.stats = this.load()
+        this.apply(outcome)
+        this.save()
+      })
+    } catch (error) {
+      // Losing one outcome is better than failing the task over it
+      logger.warn(`Could not save model outcome to ${this.statsFile}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  getStats(): ModelStatsTable {
+    return this.stats
+  }
+
+  private apply(outcome: ModelOutcome): void {
+    const modelStats = this.stats[outcome.model] ?? (this.stats[outcome.model] = {})
+    const now = new Date().toISOString()
+    for (const key of ['all', ...taskFeatureKeys(outcome.features)]) {
+      const entry = modelStats[key] ?? (modelStats[key] = emptyStats(now))
+      entry.attempts++
+      if (outcome.success) entry.successes++
+      entry.totalDurationMs += outcome.durationMs
+      entry.totalRetries += outcome.retries
+      if (outcome.costUsd !== undefined) {
+        entry.totalCostUsd += outcome.costUsd
+        entry.costSamples++
+      }
+      entry.lastAttemptAt = now
+    }
+  }
+
+  /**
+   * Successes and failures that count for a task: the model's overall record
+   * averaged with its record on tasks sharing each of this task's features
+   */
+  private evidence(model: string, features: TaskFeatures): { successes: number; failures: number } {
+    const modelStats = this.stats[model]
+    if (!modelStats) return { successes: 0, failures: 0 }
+
+    const keys = ['all', ...taskFeatureKeys(features)]
+    let successes = 0
+    let failures = 0
+    for (const key of keys) {
+      const entry = modelStats[key]
+      if (!entry) continue
+      successes += entry.successes
+      failures += entry.attempts - entry.successes
+    }
+    return { successes: successes / keys.length, failures: failures / keys.length }
+  }
+
+  /**
+   * Cost of a model relative to the most expensive one in the pool, scaled by the cost weight.
+   * Uses the average reported cost when every model has one, and `costWeight` from the model config otherwise.
+   */
+  private costPenalty(model: ModelConfig, pool: ModelConfig[]): number {
+    if (this.costWeight === 0) return 0
+
+    const reported = pool.map(m => this.averageCost(m.name))
+    if (reported.every(cost => cost !== undefined)) {
+      const max = Math.max(...(reported as number[]))
+      return max > 0 ? this.costWeight * (this.averageCost(model.name)! / max) : 0
+    }
+    return this.costWeight * ((model.costWeight ?? DEFAULT_MODEL_COST_WEIGHT) / 100)
+  }
+
+  private averageCost(model: string): number | undefined {
+    const all = this.stats[model]?.all
+    return all && all.costSamples > 0 ? all.totalCostUsd / all.costSamples : undefined
+  }
+
+  /**
+   * Draw from Beta(alpha, beta) as the ratio of two Gamma draws
+   */
+  private sampleBeta(alpha: number, beta: number): number {
+    const x = this.sampleGamma(alpha)
+    const y = this.sampleGamma(beta)
+    return x / (x + y)
+  }
+
+  /**
+   * Marsaglia-Tsang Gamma sampler; shapes here are always at least 1
+   */
+  private sampleGamma(shape: number): number {
+    const d = shape - 1 / 3
+    const c = 1 / Math.sqrt(9 * d)
+    for (;;) {
+      let x: number
+      let v: number
+      do {
+        x = this.sampleNormal()
+        v = 1 + c * x
+      } while (v <= 0)
+      v = v * v * v
+      const u = this.random()
+      if (u < 1 - 0.0331 * x ** 4) return d * v
+      if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v
+    }
+  }
+
+  private sampleNormal(): number {
+    const u = 1 - this.random()
+    const v = this.random()
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+  }
+
+  private load(): ModelStatsTable {
+    if (!this.statsFile) return this.stats ?? {}
+    try {
+      if (!fs.existsSync(this.statsFile)) return {}
+      const content = JSON.parse(fs.readFileSync(this.statsFile, 'utf-8')) as StatsFileContent
+      return content.version === STATS_VERSION && content.models ? content.models : {}
+    } catch {
+      // A corrupt stats file is relearned rather than failing the run
+      return {}
+    }
+  }
+
+  private save(): void {
+    if (!this.statsFile) return
+    const content: StatsFileContent = { version: STATS_VERSION, models: this.stats }
+    const tmpFile = `${this.statsFile}.${process.pid}.tmp`
+    try {
+      fs.writeFileSync(tmpFile, JSON.stringify(content, null, 2))
+      fs.renameSync(tmpFile, this.statsFile)
+    } catch (error) {
+      fs.rmSync(tmpFile, { force: true })
+      throw error
+    }
+  }
+}
+
+function emptyStats(now: string): ModelOutcomeStats {
+  return {
+    attempts: 0,
+    successes: 0,
+    totalDurationMs: 0,
+    totalRetries: 0,
+    totalCostUsd: 0,
+    costSamples: 0,
+    lastAttemptAt: now,
+  }
+}
@@ -2,7 +2,8 @@ import { spawnSync, execSync } from 'child_process'
 import fs from 'fs'
 import os from 'os'
 import path from 'path'
-import { StreamLogger } from '@loopwork-ai/common'
+import { StringDecoder } from 'string_decoder'
+import { StreamLogger, redactSecrets } from '@loopwork-ai/common'
 import { 
   isRateLimitOutput, 
   isQuotaExceededOutput,
@@ -23,19 +24,109 @@ import type {
   RetryConfig,
   CliType,
   ExecutionOptions,
+  ModelPreference,
   ITaskMinimal,
   ICliStrategyRegistry,
   IResilienceEngine,
+  IBudgetGuard,
+  BudgetRequest,
+  BudgetCheckResult,
+  BudgetScopeStatus,
+  ICliStrategy,
+  IProviderRateLimiter,
+  ProviderLimitKind,
+  RateLimitRequest,
+  AgentEvent,
+  AgentUsageEvent,
+  IAgentEventParser,
+  CustomCliConfig,
+  IModelOutcomeRouter,
+  TaskFeatures,
 } from '@loopwork-ai/contracts'
+import { cliPathEnvVar } from '@loopwork-ai/contracts'
 import type { SandboxProvider } from '@loopwork-ai/isolation'
 import { ModelSelector } from './model-selector'
+import { inferTaskCategory, taskSize } from './adaptive-router'
 import { WorkerPoolManager, type WorkerPoolConfig } from './isolation/worker-pool-manager'
 import { createSpawner } from './spawners'
 import { CliHealthChecker, type ValidatedModelConfig } from './cli-health-checker'
 import { createDefaultRegistry } from './strategies'
+import { formatAgentEvent, summarizeToolInput } from './events'
+import { buildResumePrompt, type ResumePoint } from './session-resume'
 
 const MIN_FREE_MEMORY_MB = 512
 const DEFAULT_SIGKILL_DELAY_MS = 5000
+/** Output kept in the checkpoint of an interrupted run */
+const CHECKPOINT_OUTPUT_CHARS = 8000
+/** Rough token size, for estimates when a CLI reports no usage */
+const CHARS_PER_TOKEN = 4
+
+/** How CLIs without a structured output mode reject its flags */
+const UNSUPPORTED_OUTPUT_FORMAT = /unknown (option|argument|flag)|unrecognized (option|argument)|unexpected argument|invalid (value|choice).*(format|output)/i
+
+type AgentUsage = Omit<AgentUsageEvent, 'type'>
+
+function addUsage(total: AgentUsage | undefined, usage: AgentUsage): AgentUsage {
+  const sum = (a?: number, b?: number) => a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0)
+  return {
+    inputTokens: (total?.inputTokens ?? 0) + usage.inputTokens,
+    outputTokens: (total?.outputTokens ?? 0) + usage.outputTokens,
+    cacheReadTokens: sum(total?.cacheReadTokens, usage.cacheReadTokens),
+    cacheWriteTokens: sum(total?.cacheWriteTokens, usage.cacheWriteTokens),
+    costUsd: sum(total?.costUsd, usage.costUsd),
+  }
+}
+
+/**
+ * Tokens a run used on top of the estimate charged before it started: the
+ * usage the agent reported, or an estimate from its output
+ */
+function tokensBeyondEstimate(usage: AgentUsage | undefined, output: string, estimatedTokens: number): number {
+  if (!usage) return Math.ceil(output.length / CHARS_PER_TOKEN)
+  return Math.max(0, usage.inputTokens + usage.outputTokens - estimatedTokens)
+}
+
+/**
+ * Checkpoint state of one execute() call. Kept per call rather than on the
+ * executor, which parallel workers share.
+ */
+interface ExecutionRun {
+  taskId?: string
+  /** Checkpoint id; runs of the same task share it */
+  agentId: string
+  iteration: number
+  /** The running agent's own session, kept in every checkpoint so it can be resumed */
+  session?: { cli: string; sessionId: string }
+}
+
+/**
+ * Whether the output says the provider turned the run away, using the
+ * strategy's own patterns when it has them
+ */
+function detectProviderLimit(strategy: ICliStrategy, output: string): ProviderLimitKind | undefined {
+  const quotaPatterns = strategy.getQuotaExceededPatterns?.()
+  if (quotaPatterns ? quotaPatterns.some(p => p.test(output)) : isQuotaExceededOutput(output)) {
+    return 'quota'
+  }
+  const ratePatterns = strategy.getRateLimitPatterns?.()
+  if (ratePatterns ? ratePatterns.some(p => p.test(output)) : isRateLimitOutput(output)) {
+    return 'rate-limit'
+  }
+  return undefined
+}
+
+/**
+ * Wait the provider asked for, e.g. "retry after 30s" or "Retry-After: 30"
+ */
+function parseRetryAfterMs(output: string): number | undefined {
+  const match = output.match(/retry[- ](?:after|in)[:\s]+(\d+)\s*(ms|milliseconds?|s|sec|seconds?|m|min|minutes?)?/i)
+  if (!match) return undefined
+  const value = parseInt(match[1], 10)
+  const unit = (match[2] ?? 's').toLowerCase()
+  if (unit.startsWith('ms') || unit.startsWith('milli')) return value
+  if (unit.startsWith('m')) return value * 60000
+  return value * 1000
+}
 
 /**
  * Clears the OpenCode cache directory to resolve potential corruption issues.
@@ -78,6 +169,22 @@ export class OpenCodeCacheError extends Error {
   }
 }
 
+/**
+ * Thrown when a task cannot run within its budgets and the budget guard
+ * says to skip it
+ */
+export class BudgetSkipError extends Error {
+  constructor(
+    public readonly taskId: string | undefined,
+    public readonly exceeded: BudgetScopeStatus[],
+    public readonly estimatedCost: number
+  ) {
+    const scopes = exceeded.map(s => `${s.scope} '${s.key}'`).join(', ')
+    super(`Budget exceeded for ${taskId ? `task ${taskId}` : 'execution'}: ${scopes}`)
+    this.name = 'BudgetSkipError'
+  }
+}
+
 function getAvailableMemoryMB(): number {
   if (process.platform === 'darwin') {
     try {
@@ -152,6 +259,12 @@ export interface CliExecutorOptions {
   resilienceEngine?: IResilienceEngine
   /** Optional isolation provider for process sandboxing */
   isolationProvider?: SandboxProvider
+  /** Optional budget guard checked before each model is spawned */
+  budgetGuard?: IBudgetGuard
+  /** Optional provider rate limiter, shared across processes, waited on before each spawn */
+  rateLimiter?: IProviderRateLimiter
+  /** Optional router for the 'adaptive' selection strategy, e.g. one that persists what it learns */
+  modelRouter?: IModelOutcomeRouter
 }
 
 /**
@@ -215,9 +328,8 @@ export class CliExecutor {
   private checkpointIntegrator?: ICheckpointIntegrator
   private resilienceEngine: IResilienceEngine
   private isolationProvider?: SandboxProvider
-  private currentAgentId?: string
-  private currentTaskId?: string
-  private executionIteration = 0
+  /** CLIs that rejected their structured output flags, run in text mode from then on */
+  private textOutputClis = new Set<string>()
 
   /**
    * Creates a new CliExecutor instance
@@ -271,6 +383,7 @@ export class CliExecutor {
       enableCircuitBreaker: true,
       failureThreshold: 3,
       resetTimeoutMs: 600000, // 10 minutes (model sleep duration)
+      router: options.modelRouter,
     })
 
     // Register callback for when models wake up from sleep
@@ -301,7 +414,7 @@ export class CliExecutor {
       this.processManager.kill(pid, { signal: 'SIGKILL' })
     })
 
-    this.strategyRegistry = createDefaultRegistry(this.logger)
+    this.strategyRegistry = createDefaultRegistry(this.logger, config.customClis)
     this.checkpointIntegrator = options.checkpointIntegrator
     this.isolationProvider = options.isolationProvider
   }
@@ -371,11 +484,44 @@ export class CliExecutor {
       }
     }
 
+    for (const definition of this.config.customClis ?? []) {
+      const cliPath = this.findCustomCli(definition)
+      if (cliPath) {
+        this.cliPaths.set(definition.name, cliPath)
+      }
+    }
+
     if (this.cliPaths.size === 0) {
       throw new Error('No AI CLI tools found in PATH or known locations')
     }
   }
 
+  /**
+   * Locate a custom CLI: its path env var, `cliPaths`, its command, PATH, then its other paths
+   */
+  private findCustomCli(definition: CustomCliConfig): string | undefined {
+    const envPath = process.env[cliPathEnvVar(definition.name)]
+    if (envPath && fs.existsSync(envPath)) return envPath
+
+    const configPath = this.config.cliPaths?.[definition.name]
+    if (configPath && fs.existsSync(configPath)) return configPath
+
+    if (definition.command.includes('/')) {
+      const commandPath = path.resolve(definition.command)
+      return fs.existsSync(commandPath) ? commandPath : undefined
+    }
+
+    const whichResult = spawnSync('which', [definition.command], { encoding: 'utf-8' })
+    if (whichResult.status === 0 && whichResult.stdout?.trim()) {
+      return whichResult.stdout.trim()
+    }
+
+    const home = process.env.HOME || ''
+    return (definition.paths ?? [])
+      .map(p => p.replace(/^~(?=\/)/, home))
+      .find(p => fs.existsSync(p))
+  }
+
   /**
    * Force switch to fallback model pool
    */
@@ -398,12 +544,13 @@ export class CliExecutor {
   /**
    * Get metadata for the next model without advancing the selector
    * 
+   * @param preference - Model the task prefers, reported instead when available
    * @returns Model metadata or null if no models available
    */
-  getNextModel(): { cli: string; model: string; displayName?: string } | null {
+  getNextModel(preference: ModelPreference = {}): { cli: string; model: string; displayName?: string } | null {
     // Use peek() to get the next model without advancing the selector
     // The actual execution will call getNext() to advance
-    const modelConfig = this.modelSelector.peek()
+    const modelConfig = this.findPreferredModel(preference) ?? this.modelSelector.peek()
     if (!modelConfig) {
       return null
     }
@@ -436,22 +583,24 @@ export class CliExecutor {
   }
 
   /**
-   * Create a checkpoint for the current execution
+   * Create a checkpoint for an execution
    */
   private async createCheckpoint(
+    run: ExecutionRun,
     phase: 'started' | 'executing' | 'completed' | 'failed' | 'interrupted',
     additionalState?: Record<string, unknown>
   ): Promise<void> {
-    if (!this.checkpointIntegrator || !this.currentAgentId) return
+    if (!this.checkpointIntegrator) return
 
     try {
-      await this.checkpointIntegrator.checkpoint(this.currentAgentId, {
-        taskId: this.currentTaskId ?? 'unknown',
+      await this.checkpointIntegrator.checkpoint(run.agentId, {
+        taskId: run.taskId ?? 'unknown',
         agentName: 'cli-executor',
-        iteration: this.executionIteration,
+        iteration: run.iteration,
         phase,
         state: {
           timestamp: Date.now(),
+          ...(run.session && { sessionId: run.session.sessionId, sessionCli: run.session.cli }),
           ...additionalState,
         },
       })
@@ -463,10 +612,38 @@ export class CliExecutor {
   /**
    * Increment the execution iteration counter and create periodic checkpoint
    */
-  private async incrementIteration(): Promise<void> {
-    this.executionIteration++
-    if (this.executionIteration % 5 === 0) {
-      await this.createCheckpoint('executing', { lastToolCall: 'iteration' })
+  private async incrementIteration(run: ExecutionRun): Promise<void> {
+    run.iteration++
+    if (run.iteration % 5 === 0) {
+      await this.createCheckpoint(run, 'executing', { lastToolCall: 'iteration' })
+    }
+  }
+
+  /**
+   * What an interrupted earlier run of the task left behind, if anything
+   */
+  private async findResumePoint(run: ExecutionRun): Promise<ResumePoint | null> {
+    if (!this.checkpointIntegrator?.restore || !run.taskId) return null
+
+    try {
+      const restored = await this.checkpointIntegrator.restore(run.agentId)
+      if (!restored || restored.checkpoint.phase === 'completed') return null
+
+      const state = restored.checkpoint.state ?? {}
+      const session = typeof state.sessionId === 'string' && typeof state.sessionCli === 'string'
+        ? { cli: state.sessionCli, sessionId: state.sessionId }
+        : undefined
+      const partialOutput = restored.partialOutput || (typeof state.partialOutput === 'string' ? state.partialOutput : '')
+      if (!session && !partialOutput.trim()) return null
+
+      return {
+        session,
+        partialOutput,
+        reason: typeof state.reason === 'string' ? state.reason : 'the run was stopped',
+      }
+    } catch (error) {
+      this.logger.debug(`Checkpoint restore failed: ${error}`)
+      return null
     }
   }
 
@@ -745,19 +922,31 @@ export class CliExecutor {
     options: ExecutionOptions = {}
   ): Promise<number> {
     const maxAttempts = this.retryConfig.maxRetriesPerModel || 3
+    let budgetSkip: BudgetSkipError | undefined
 
     const retryResult = await this.resilienceEngine.execute(async () => {
-      return this.execute(
-        prompt,
-        outputFile,
-        timeoutSecs,
-        {
-          ...options,
-          taskId: task.id,
-          priority: task.priority,
-          feature: task.feature
+      try {
+        return await this.execute(
+          prompt,
+          outputFile,
+          timeoutSecs,
+          {
+            category: inferTaskCategory(`${task.title ?? ''}\n${task.description ?? ''}`),
+            descriptionLength: task.description?.length,
+            ...options,
+            taskId: task.id,
+            priority: task.priority,
+            feature: task.feature
+          }
+        )
+      } catch (error) {
+        // Budget skips are final, never retried
+        if (error instanceof BudgetSkipError) {
+          budgetSkip = error
+          return 1
         }
-      )
+        throw error
+      }
     }, {
       retryStrategy: new StandardRetryStrategy({
         maxAttempts: maxAttempts,
@@ -772,7 +961,7 @@ export class CliExecutor {
         // Run onTaskRetry hook
         this.pluginRegistry.runHook('onTaskRetry', {
           task,
-          iteration: this.executionIteration,
+          iteration: attempt,
           startTime: new Date(),
           namespace: (options as any).namespace || 'default',
           retryAttempt: attempt,
@@ -781,6 +970,10 @@ export class CliExecutor {
       }
     })
 
+    if (budgetSkip) {
+      throw budgetSkip
+    }
+
     return retryResult.success ? (retryResult.result ?? 0) : 1
   }
 
@@ -806,7 +999,7 @@ export class CliExecutor {
       : prompt
 
     const promptFile = path.join(path.dirname(outputFile), 'current-prompt.md')
-    fs.writeFileSync(promptFile, finalPrompt)
+    fs.writeFileSync(promptFile, redactSecrets(finalPrompt))
 
     await this.pluginRegistry.runHook('onStep', {
       stepId: 'cli_execution_start',
@@ -815,11 +1008,18 @@ export class CliExecutor {
       context: { taskId: options.taskId, poolName: this.getPoolForTask(options.priority, options.feature) }
     })
 
-    this.currentTaskId = options.taskId
-    this.currentAgentId = `cli-${options.taskId ?? 'unknown'}-${Date.now()}`
-    this.executionIteration = 0
+    const run: ExecutionRun = {
+      taskId: options.taskId,
+      // Runs of the same task share a checkpoint, so a retry can pick up where the last run stopped
+      agentId: options.taskId ? `cli-${options.taskId}` : `cli-unknown-${Date.now()}`,
+      iteration: 0,
+    }
 
-    await this.createCheckpoint('started')
+    let resumePoint = await this.findResumePoint(run)
+    run.session = resumePoint?.session
+    await this.createCheckpoint(run, 'started', resumePoint
+      ? { reason: resumePoint.reason, partialOutput: resumePoint.partialOutput.slice(-CHECKPOINT_OUTPUT_CHARS) }
+      : undefined)
 
     const poolName = this.getPoolForTask(options.priority, options.feature)
     const slotPid = await this.poolManager.acquire(poolName)
@@ -828,13 +1028,37 @@ export class CliExecutor {
       const maxAttempts = this.modelSelector.getTotalModelCount() * (this.retryConfig.retrySameModel ? this.retryConfig.maxRetriesPerModel : 1)
 
       let currentModelName: string | null = null
+      let budgetSkip: BudgetSkipError | undefined
+      // Only the first attempt honors the preference; retries fall back through the pool
+      let preferredModel = this.findPreferredModel(options)
+      if ((options.preferredCli || options.preferredModel) && !preferredModel) {
+        this.logger.warn(`Preferred ${[options.preferredCli, options.preferredModel].filter(Boolean).join('/')} is not available for task ${options.taskId ?? 'unknown'}, using the model pool`)
+      }
+
+      const taskFeatures: TaskFeatures = {
+        feature: options.feature,
+        priority: options.priority,
+        category: options.category,
+        size: options.descriptionLength !== undefined ? taskSize(options.descriptionLength) : undefined,
+      }
+      this.modelSelector.setTaskFeatures(taskFeatures)
+      let attempts = 0
 
       const retryResult = await this.resilienceEngine.execute(async () => {
-        const modelConfig = this.modelSelector.getNext()
-        if (!modelConfig) {
+        const selectedModel = preferredModel ?? this.modelSelector.getNext()
+        preferredModel = null
+        if (!selectedModel) {
           throw new Error('No more CLI configurations available')
         }
 
+        const budgeted = await this.applyBudget(selectedModel, finalPrompt, options)
+        if (budgeted instanceof BudgetSkipError) {
+          // Returned rather than thrown so the retry loop does not move on to other models
+          budgetSkip = budgeted
+          return 1
+        }
+        const modelConfig = budgeted
+
         const modelName = modelConfig.displayName || modelConfig.name
         currentModelName = modelConfig.name
         const workerPrefix = options.workerId !== undefined ? `[W${options.workerId}] ` : ''
@@ -854,32 +1078,40 @@ export class CliExecutor {
           context: { taskId: options.taskId, model: displayName, cli: modelConfig.cli }
         })
 
+        const rateLimitRequest = this.rateLimitRequest(modelConfig, finalPrompt)
+        if (this.options.rateLimiter) {
+          const slot = await this.options.rateLimiter.acquire(rateLimitRequest)
+          if (slot.waitedMs > 0) {
+            this.logger.info(`[RateLimit] Waited ${Math.round(slot.waitedMs / 1000)}s for ${slot.key}`)
+          }
+        }
+
         const effectiveTimeout = modelConfig.timeout ?? timeoutSecs
         const baseEnv = { ...process.env, ...modelConfig.env } as Record<string, string>
 
         const strategy = this.strategyRegistry.get(modelConfig.cli)
+        const eventStream = Boolean(strategy.createEventParser)
+          && modelConfig.eventStream !== false
+          && !this.textOutputClis.has(modelConfig.cli)
+        // A session can only be resumed by the CLI that started it; other CLIs get a summary of its output
+        const resumeSessionId = resumePoint?.session?.cli === modelConfig.cli ? resumePoint.session.sessionId : undefined
+        if (resumePoint) {
+          this.logger.info(resumeSessionId
+            ? `Resuming ${modelConfig.cli} session ${resumeSessionId} for task ${options.taskId ?? 'unknown'}`
+            : `Continuing task ${options.taskId ?? 'unknown'} from its interrupted output`)
+        }
         const prepared = strategy.prepare({
           modelConfig,
-          prompt: finalPrompt,
+          prompt: resumePoint ? buildResumePrompt(finalPrompt, resumePoint, Boolean(resumeSessionId)) : finalPrompt,
           env: baseEnv,
           permissions: options.permissions,
+          eventStream,
+          resumeSessionId,
         })
+        if (!resumeSessionId) run.session = undefined
 
-        await this.pluginRegistry.runHook('onToolCall', {
-          toolName: modelConfig.cli,
-          arguments: {
-            model: modelConfig.model,
-            cli: modelConfig.cli,
-            timeout: effectiveTimeout,
-            hasInput: modelConfig.cli === 'claude',
-          },
-          taskId: options.taskId,
-          timestamp: Date.now(),
-          metadata: { displayName }
-        })
-
-        await this.createCheckpoint('executing', { lastToolCall: modelConfig.cli })
-        await this.incrementIteration()
+        await this.createCheckpoint(run, 'executing', { lastToolCall: modelConfig.cli })
+        await this.incrementIteration(run)
 
         const startTime = Date.now()
         await this.pluginRegistry.runHook('onStep', {
@@ -899,17 +1131,20 @@ export class CliExecutor {
             taskId: options.taskId,
             workerId: options.workerId,
             poolName,
+            cli: modelConfig.cli,
+            eventParser: eventStream ? strategy.createEventParser?.() : undefined,
+            run,
           },
           outputFile,
           effectiveTimeout
-        )
+        ).finally(() => prepared.cleanup?.())
         const spawnDuration = Date.now() - startTime
 
         await this.pluginRegistry.runHook('onStep', {
           stepId: 'agent_reasoning_end',
           description: `Agent reasoning completed for ${displayName}`,
           phase: 'end',
-          context: { taskId: options.taskId, exitCode: result.exitCode, durationMs: spawnDuration }
+          context: { taskId: options.taskId, exitCode: result.exitCode, durationMs: spawnDuration, usage: result.usage }
         })
 
         await this.pluginRegistry.runHook('onStep', {
@@ -933,6 +1168,19 @@ export class CliExecutor {
           }
         } catch {}
 
+        await this.options.budgetGuard?.recordOutput(this.budgetRequest(modelConfig, finalPrompt, options), fullOutput)
+
+        const limited = detectProviderLimit(strategy, fullOutput.slice(-2000))
+        if (this.options.rateLimiter) {
+          await this.options.rateLimiter.recordUsage(
+            rateLimitRequest,
+            tokensBeyondEstimate(result.usage, fullOutput, rateLimitRequest.estimatedTokens ?? 0)
+          )
+          if (limited) {
+            await this.options.rateLimiter.reportLimited(rateLimitRequest, limited, parseRetryAfterMs(fullOutput.slice(-2000)))
+          }
+        }
+
         await this.pluginRegistry.runHook('onCliResult', {
           taskId: options.taskId,
           model: displayName,
@@ -941,8 +1189,35 @@ export class CliExecutor {
           durationMs: spawnDuration,
           output: fullOutput,
           timedOut: result.timedOut,
+          usage: result.usage,
         })
 
+        // A provider turning the run away says nothing about how well the model does the task
+        if (!limited) {
+          await this.modelSelector.getRouter()?.record({
+            model: modelConfig.name,
+            features: taskFeatures,
+            success: result.exitCode === 0 && !result.timedOut && !result.resourceExhausted,
+            durationMs: spawnDuration,
+            retries: attempts,
+            costUsd: result.usage?.costUsd,
+          })
+        }
+        attempts++
+
+        if (result.exitCode !== 0 || result.timedOut || result.resourceExhausted) {
+          const reason = result.resourceExhausted
+            ?? (result.timedOut ? `Execution timed out after ${effectiveTimeout}s` : `CLI exited with code ${result.exitCode}`)
+          // A session that could not be resumed (e.g. it expired) is dropped rather than retried
+          if (resumeSessionId && result.parsedEvents === 0) {
+            run.session = undefined
+            resumePoint = { ...resumePoint, session: undefined, partialOutput: resumePoint?.partialOutput ?? fullOutput }
+          } else {
+            resumePoint = { session: run.session, partialOutput: fullOutput, reason }
+          }
+          await this.createCheckpoint(run, 'interrupted', { reason, partialOutput: fullOutput.slice(-CHECKPOINT_OUTPUT_CHARS) })
+        }
+
         if (result.resourceExhausted) {
           throw new Error(result.resourceExhausted)
         }
@@ -970,6 +1245,11 @@ export class CliExecutor {
           }
         }
 
+        if (eventStream && result.exitCode !== 0 && result.parsedEvents === 0 && UNSUPPORTED_OUTPUT_FORMAT.test(output)) {
+          this.textOutputClis.add(modelConfig.cli)
+          this.logger.warn(`${modelConfig.cli} does not support its structured output mode, falling back to text output`)
+        }
+
         if (result.exitCode !== 0) {
           // Track failure for circuit breaker
           if (currentModelName) {
@@ -992,6 +1272,9 @@ export class CliExecutor {
           this.modelSelector.recordSuccess(currentModelName)
         }
 
+        run.session = undefined
+        await this.createCheckpoint(run, 'completed')
+
         return 0
       }, {
         retryStrategy: new StandardRetryStrategy({
@@ -1003,6 +1286,10 @@ export class CliExecutor {
         })
       })
 
+      if (budgetSkip) {
+        throw budgetSkip
+      }
+
       if (retryResult.success) {
         return 0
       }
@@ -1019,13 +1306,114 @@ export class CliExecutor {
     }
   }
 
+  private budgetRequest(modelConfig: ModelConfig, prompt: string, options: ExecutionOptions): BudgetRequest {
+    return {
+      taskId: options.taskId,
+      feature: options.feature,
+      namespace: options.namespace,
+      model: modelConfig.model,
+      prompt,
+    }
+  }
+
+  /**
+   * Provider and model a run is rate limited under. The prompt is charged up
+   * front; output tokens are added once the run ends.
+   */
+  private rateLimitRequest(modelConfig: ModelConfig, prompt: string): RateLimitRequest {
+    return {
+      provider: modelConfig.cli,
+      model: modelConfig.model,
+      estimatedTokens: Math.ceil(prompt.length / CHARS_PER_TOKEN),
+    }
+  }
+
+  /**
+   * Find an enabled, available model matching the preferred CLI and/or model
+   * (by configuration name or model id).
+   */
+  private findPreferredModel(preference: ModelPreference): ModelConfig | null {
+    const { preferredCli, preferredModel } = preference
+    if (!preferredCli && !preferredModel) {
+      return null
+    }
+    return this.modelSelector.getAllModels().find(m =>
+      m.enabled !== false &&
+      this.cliPaths.has(m.cli) &&
+      this.modelSelector.isModelAvailable(m.name) &&
+      (!preferredCli || m.cli === preferredCli) &&
+      (!preferredModel || m.name === preferredModel || m.model === preferredModel)
+    ) ?? null
+  }
+
+  /**
+   * Check the selected model against the budget guard before spawning it.
+   *
+   * When the estimate does not fit, either switches to the cheapest
+   * available model that fits (downgrade) or returns the skip error.
+   */
+  private async applyBudget(
+    modelConfig: ModelConfig,
+    prompt: string,
+    options: ExecutionOptions
+  ): Promise<ModelConfig | BudgetSkipError> {
+    const guard = this.options.budgetGuard
+    if (!guard) {
+      return modelConfig
+    }
+
+    const check = await this.checkBudget(guard, this.budgetRequest(modelConfig, prompt, options))
+    if (check.allowed) {
+      return modelConfig
+    }
+
+    if (guard.onExceeded === 'downgrade') {
+      // check() records alerts, so candidates are probed read-only and only
+      // the chosen one is checked
+      const cheapest = this.modelSelector.getAllModels()
+        .filter(m => m.name !== modelConfig.name && m.enabled !== false)
+        .filter(m => this.cliPaths.has(m.cli) && this.modelSelector.isModelAvailable(m.name))
+        .map(m => {
+          const request = this.budgetRequest(m, prompt, options)
+          return { model: m, request, cost: guard.estimateCost(request) }
+        })
+        .filter(c => c.cost < check.estimatedCost && guard.getScopeStatus(c.request).every(s => c.cost <= s.remaining))
+        .sort((a, b) => a.cost - b.cost)[0]
+
+      if (cheapest && (await this.checkBudget(guard, cheapest.request)).allowed) {
+        this.logger.warn(`[Budget] Downgrading ${modelConfig.name} to ${cheapest.model.name} for task ${options.taskId ?? 'unknown'}`)
+        return cheapest.model
+      }
+    }
+
+    return new BudgetSkipError(options.taskId, check.exceeded, check.estimatedCost)
+  }
+
+  private async checkBudget(guard: IBudgetGuard, request: BudgetRequest): Promise<BudgetCheckResult> {
+    const check = await guard.check(request)
+    for (const alert of check.alerts) {
+      this.logger.warn(`[Budget] ${alert.scope} '${alert.key}' has used $${alert.spent.toFixed(4)} of $${alert.limit.toFixed(4)}`)
+    }
+    return check
+  }
+
   private spawnWithTimeout(
     command: string,
     args: string[],
-    options: { env?: NodeJS.ProcessEnv; input?: string; prefix?: string; taskId?: string; workerId?: number; poolName?: string },
+    options: {
+      env?: NodeJS.ProcessEnv
+      input?: string
+      prefix?: string
+      taskId?: string
+      workerId?: number
+      poolName?: string
+      cli?: string
+      eventParser?: IAgentEventParser
+      run?: ExecutionRun
+    },
     outputFile: string,
     timeoutSecs: number
-  ): Promise<{ exitCode: number; timedOut: boolean; resourceExhausted?: string }> {
+  ): Promise<{ exitCode: number; timedOut: boolean; resourceExhausted?: string; usage?: AgentUsage; parsedEvents: number }> {
     return new Promise(async (resolve, reject) => {
       const availableMemoryMB = getAvailableMemoryMB()
       if (availableMemoryMB < MIN_FREE_MEMORY_MB) {
@@ -1034,8 +1422,76 @@ export class CliExecutor {
 
       const writeStream = fs.createWriteStream(outputFile)
       let timedOut = false
+
+      // Output is masked a line at a time so secrets split across chunks are still caught
+      const decoder = new StringDecoder('utf8')
+      let pendingOutput = ''
+      const writeOutput = (data: Buffer | string, final = false) => {
+        pendingOutput += typeof data === 'string' ? data : decoder.write(data)
+        if (final) pendingOutput += decoder.end()
+        const end = final ? pendingOutput.length : pendingOutput.lastIndexOf('\n') + 1
+        if (end > 0) {
+          writeStream.write(redactSecrets(pendingOutput.slice(0, end)))
+          pendingOutput = pendingOutput.slice(end)
+        }
+      }
       const streamLogger = new StreamLogger(this.logger, options.prefix)
 
+      const emitResponse = (text: string) => {
+        this.pluginRegistry.runHook('onAgentResponse', {
+          responseText: text,
+          model: options.prefix,
+          taskId: options.taskId,
+          timestamp: Date.now(),
+          isPartial: true,
+        }).catch(() => {})
+      }
+
+      // Event streams are parsed a line at a time; lines the parser does not recognise are kept as text
+      const eventParser = options.eventParser
+      const lineDecoder = new StringDecoder('utf8')
+      let pendingLine = ''
+      let parsedEvents = 0
+      let usage: AgentUsage | undefined
+      const parseOutput = (data: Buffer | string, final = false) => {
+        pendingLine += typeof data === 'string' ? data : lineDecoder.write(data)
+        if (final) pendingLine += lineDecoder.end()
+        const lines = pendingLine.split('\n')
+        pendingLine = lines.pop() ?? ''
+        if (final && pendingLine) {
+          lines.push(pendingLine)
+          pendingLine = ''
+        }
+
+        for (const line of lines) {
+          const events = eventParser!.parseLine(line)
+          if (!events) {
+            writeOutput(`${line}\n`)
+            streamLogger.log(`${line}\n`)
+            emitResponse(`${line}\n`)
+            continue
+          }
+
+          parsedEvents++
+          for (const event of events) {
+            if (event.type === 'usage') {
+              usage = addUsage(usage, event)
+              continue
+            }
+            const text = formatAgentEvent(event)
+            if (text) {
+              writeOutput(text)
+              streamLogger.log(text)
+            }
+            this.reportAgentEvent(event, options)
+          }
+        }
+
+        if (final && usage) {
+          writeOutput(`Tokens: ${usage.inputTokens} input, ${usage.outputTokens} output\n`)
+        }
+      }
+
       this.logger.startSpinner(`${options.prefix || 'CLI'} starting...`)
 
       const poolConfig = this.poolManager.getPoolConfig(options.poolName || 'medium')
@@ -1050,6 +1506,7 @@ export class CliExecutor {
             niceness: poolConfig.nice,
             workingDirectory: undefined,
             env: options.env as Record<string, string>,
+            options: { taskId: options.taskId, workerId: options.workerId },
           })
 
           child = await sandboxHandle.spawn(command, args)
@@ -1081,20 +1538,18 @@ export class CliExecutor {
       }
 
       child.stdout?.on('data', (data) => {
-        writeStream.write(data)
+        if (eventParser) {
+          parseOutput(data)
+          return
+        }
+        writeOutput(data)
         streamLogger.log(data)
-        this.pluginRegistry.runHook('onAgentResponse', {
-          responseText: data.toString('utf-8'),
-          model: options.prefix,
-          taskId: options.taskId,
-          timestamp: Date.now(),
-          isPartial: true,
-        }).catch(() => {})
+        emitResponse(data.toString('utf-8'))
       })
 
       if (child.stderr) {
         child.stderr.on('data', (data) => {
-          writeStream.write(data)
+          writeOutput(data)
           streamLogger.log(data)
         })
       }
@@ -1112,7 +1567,9 @@ export class CliExecutor {
 
       child.on('close', async (code) => {
         clearTimeout(timer)
+        if (eventParser) parseOutput('', true)
         streamLogger.flush()
+        writeOutput('', true)
         writeStream.end()
         this.currentProcess = null
 
@@ -1143,13 +1600,17 @@ export class CliExecutor {
 
         resolve({
           exitCode: code ?? 1,
-          timedOut
+          timedOut,
+          usage,
+          parsedEvents,
         })
       })
 
       child.on('error', () => {
         clearTimeout(timer)
+        if (eventParser) parseOutput('', true)
         streamLogger.flush()
+        writeOutput('', true)
         writeStream.end()
         this.currentProcess = null
 
@@ -1160,8 +1621,66 @@ export class CliExecutor {
           })
         }
 
-        resolve({ exitCode: 1, timedOut: false })
+        resolve({ exitCode: 1, timedOut: false, usage, parsedEvents })
       })
     })
   }
+
+  /**
+   * Report what the agent did, as parsed from its event stream, to plugins
+   */
+  private reportAgentEvent(event: AgentEvent, options: { prefix?: string; taskId?: string; cli?: string; run?: ExecutionRun }): void {
+    const taskId = options.taskId
+    const ignore = () => {}
+
+    switch (event.type) {
+      case 'session':
+        if (options.cli && options.run) {
+          options.run.session = { cli: options.cli, sessionId: event.sessionId }
+          this.createCheckpoint(options.run, 'executing').catch(ignore)
+        }
+        break
+      case 'message':
+        this.pluginRegistry.runHook('onAgentResponse', {
+          responseText: event.text,
+          model: options.prefix,
+          taskId,
+          timestamp: Date.now(),
+          isPartial: true,
+        }).catch(ignore)
+        break
+      case 'tool_call':
+        this.pluginRegistry.runHook('onToolCall', {
+          toolName: event.name,
+          arguments: event.input,
+          taskId,
+          timestamp: Date.now(),
+          metadata: { callId: event.id, model: options.prefix, summary: summarizeToolInput(event.input) },
+        }).catch(ignore)
+        this.pluginRegistry.runHook('onStep', {
+          stepId: 'agent_tool_call',
+          description: `Tool call: ${event.name}`,
+          phase: 'start',
+          context: { taskId, toolName: event.name, callId: event.id },
+        }).catch(ignore)
+        if (options.run) this.createCheckpoint(options.run, 'executing', { lastToolCall: event.name }).catch(ignore)
+        break
+      case 'tool_result':
+        this.pluginRegistry.runHook('onStep', {
+          stepId: 'agent_tool_call',
+          description: `Tool ${event.isError ? 'failed' : 'finished'}: ${event.name ?? 'unknown'}`,
+          phase: 'end',
+          context: { taskId, toolName: event.name, callId: event.id, isError: event.isError },
+        }).catch(ignore)
+        break
+      case 'file_edit':
+        this.pluginRegistry.runHook('onStep', {
+          stepId: 'agent_file_edit',
+          description: `Edited ${event.path}`,
+          phase: 'end',
+          context: { taskId, path: event.path, tool: event.tool },
+        }).catch(ignore)
+        break
+    }
+  }
 }
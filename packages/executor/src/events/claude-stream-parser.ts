@@ -0,0 +1,87 @@
+import type { AgentEvent, IAgentEventParser } from '@loopwork-ai/contracts'
+import { contentText, parseJsonLine } from './format'
+
+const FILE_EDIT_TOOLS = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit'])
+
+/**
+ * Parses `claude -p --output-format stream-json --verbose` output
+ */
+export class ClaudeStreamParser implements IAgentEventParser {
+  private toolNames = new Map<string, string>()
+
+  parseLine(line: string): AgentEvent[] | null {
+    const event = parseJsonLine(line)
+    if (!event || typeof event.type !== 'string') return null
+
+    switch (event.type) {
+      case 'assistant':
+        return this.assistantEvents(event.message?.content)
+      case 'user':
+        return this.toolResults(event.message?.content)
+      case 'result':
+        return this.resultEvents(event)
+      case 'system':
+        return event.subtype === 'init' && event.session_id
+          ? [{ type: 'session', sessionId: event.session_id }]
+          : []
+      default:
+        return []
+    }
+  }
+
+  private assistantEvents(content: unknown): AgentEvent[] {
+    if (!Array.isArray(content)) return []
+
+    const events: AgentEvent[] = []
+    for (const block of content) {
+      if (block?.type === 'text' && block.text) {
+        events.push({ type: 'message', text: block.text })
+      } else if (block?.type === 'tool_use' && block.name) {
+        const input = block.input && typeof block.input === 'object' ? block.input : {}
+        if (block.id) this.toolNames.set(block.id, block.name)
+        events.push({ type: 'tool_call', id: block.id, name: block.name, input })
+
+        const filePath = input.file_path ?? input.notebook_path
+        if (FILE_EDIT_TOOLS.has(block.name) && typeof filePath === 'string') {
+          events.push({ type: 'file_edit', path: filePath, tool: block.name })
+        }
+      }
+    }
+    return events
+  }
+
+  private toolResults(content: unknown): AgentEvent[] {
+    if (!Array.isArray(content)) return []
+
+    return content
+      .filter(block => block?.type === 'tool_result')
+      .map(block => ({
+        type: 'tool_result' as const,
+        id: block.tool_use_id,
+        name: this.toolNames.get(block.tool_use_id),
+        output: contentText(block.content),
+        isError: block.is_error === true,
+      }))
+  }
+
+  private resultEvents(event: Record<string, any>): AgentEvent[] {
+    const events: AgentEvent[] = []
+    // The final text repeats the last assistant message, unless the run failed
+    if (event.is_error && typeof event.result === 'string') {
+      events.push({ type: 'message', text: event.result })
+    }
+
+    const usage = event.usage
+    if (usage) {
+      events.push({
+        type: 'usage',
+        inputTokens: usage.input_tokens ?? 0,
+        outputTokens: usage.output_tokens ?? 0,
+        cacheReadTokens: usage.cache_read_input_tokens,
+        cacheWriteTokens: usage.cache_creation_input_tokens,
+        costUsd: event.total_cost_usd,
+      })
+    }
+    return events
+  }
+}
@@ -0,0 +1,67 @@
+import type { AgentEvent } from '@loopwork-ai/contracts'
+
+const SUMMARY_KEYS = ['file_path', 'filePath', 'notebook_path', 'path', 'command', 'pattern', 'url', 'query', 'description']
+const MAX_SUMMARY_LENGTH = 120
+
+/**
+ * Parse a line holding a single JSON object, or null for anything else
+ */
+export function parseJsonLine(line: string): Record<string, any> | null {
+  const trimmed = line.trim()
+  if (!trimmed.startsWith('{')) return null
+
+  try {
+    const value = JSON.parse(trimmed)
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Text of a tool result or message, which CLIs send as a string or as content blocks
+ */
+export function contentText(content: unknown): string {
+  if (typeof content === 'string') return content
+  if (Array.isArray(content)) {
+    return content
+      .map(block => typeof block === 'string' ? block : block?.type === 'text' ? block.text ?? '' : '')
+      .join('')
+  }
+  if (content === undefined || content === null) return ''
+  return JSON.stringify(content)
+}
+
+/**
+ * One-line summary of a tool call's input, e.g. the file or command it works on
+ */
+export function summarizeToolInput(input: Record<string, unknown>): string {
+  const key = SUMMARY_KEYS.find(k => typeof input[k] === 'string' && input[k])
+  const summary = key ? String(input[key]) : Object.keys(input).length > 0 ? JSON.stringify(input) : ''
+  const firstLine = summary.split('\n')[0]
+  return firstLine.length > MAX_SUMMARY_LENGTH ? `${firstLine.slice(0, MAX_SUMMARY_LENGTH - 3)}...` : firstLine
+}
+
+/**
+ * Render an event as the text written to the output file and console,
+ * so logs stay readable and text-based checks keep working
+ */
+export function formatAgentEvent(event: AgentEvent): string | null {
+  switch (event.type) {
+    case 'message':
+      return event.text.endsWith('\n') ? event.text : `${event.text}\n`
+    case 'tool_call': {
+      const summary = summarizeToolInput(event.input)
+      return `Tool Call: ${event.name}${summary ? ` ${summary}` : ''}\n`
+    }
+    case 'tool_result':
+      return event.isError
+        ? `Tool Error${event.name ? ` (${event.name})` : ''}: ${event.output.split('\n')[0].slice(0, MAX_SUMMARY_LENGTH)}\n`
+        : null
+    case 'file_edit':
+    case 'session':
+    case 'usage':
+      // Usage is summed over the run and written once at the end
+      return null
+  }
+}
@@ -0,0 +1,72 @@
+import type { AgentEvent, IAgentEventParser } from '@loopwork-ai/contracts'
+import { contentText, parseJsonLine } from './format'
+
+const FILE_EDIT_TOOLS = new Set(['write_file', 'replace', 'edit'])
+
+/**
+ * Parses `gemini --output-format stream-json` output
+ */
+export class GeminiStreamParser implements IAgentEventParser {
+  private toolNames = new Map<string, string>()
+
+  parseLine(line: string): AgentEvent[] | null {
+    const event = parseJsonLine(line)
+    if (!event || typeof event.type !== 'string') return null
+
+    switch (event.type) {
+      case 'init':
+        return event.session_id ? [{ type: 'session', sessionId: event.session_id }] : []
+      case 'message':
+        return event.role === 'assistant' && event.content
+          ? [{ type: 'message', text: contentText(event.content) }]
+          : []
+      case 'tool_use':
+        return this.toolCall(event)
+      case 'tool_result':
+        return [{
+          type: 'tool_result',
+          id: event.tool_id,
+          name: this.toolNames.get(event.tool_id),
+          output: contentText(event.status === 'error' ? event.error?.message ?? event.output : event.output),
+          isError: event.status === 'error',
+        }]
+      case 'error':
+        return event.message ? [{ type: 'message', text: `Error: ${event.message}` }] : []
+      case 'result':
+        return this.resultEvents(event)
+      default:
+        return []
+    }
+  }
+
+  private toolCall(event: Record<string, any>): AgentEvent[] {
+    if (!event.tool_name) return []
+
+    const input = event.parameters && typeof event.parameters === 'object' ? event.parameters : {}
+    if (event.tool_id) this.toolNames.set(event.tool_id, event.tool_name)
+    const events: AgentEvent[] = [{ type: 'tool_call', id: event.tool_id, name: event.tool_name, input }]
+
+    if (FILE_EDIT_TOOLS.has(event.tool_name) && typeof input.file_path === 'string') {
+      events.push({ type: 'file_edit', path: input.file_path, tool: event.tool_name })
+    }
+    return events
+  }
+
+  private resultEvents(event: Record<string, any>): AgentEvent[] {
+    const events: AgentEvent[] = []
+    if (event.status === 'error' && event.error?.message) {
+      events.push({ type: 'message', text: `Error: ${event.error.message}` })
+    }
+
+    const stats = event.stats
+    if (stats) {
+      events.push({
+        type: 'usage',
+        inputTokens: stats.input_tokens ?? 0,
+        outputTokens: stats.output_tokens ?? 0,
+        cacheReadTokens: stats.cached,
+      })
+    }
+    return events
+  }
+}
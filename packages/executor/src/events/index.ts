@@ -0,0 +1,5 @@
+export { ClaudeStreamParser } from './claude-stream-parser'
+export { OpenCodeEventParser } from './opencode-event-parser'
+export { GeminiStreamParser } from './gemini-stream-parser'
+export { formatAgentEvent, summarizeToolInput } from './format'
+export { UsageLineParser, type UsageLinePatterns } from './usage-line-parser'
@@ -0,0 +1,82 @@
+import type { AgentEvent, IAgentEventParser } from '@loopwork-ai/contracts'
+import { contentText, parseJsonLine } from './format'
+
+const FILE_EDIT_TOOLS = new Set(['edit', 'write', 'patch', 'multiedit'])
+
+/**
+ * Parses `opencode run --format json` output
+ */
+export class OpenCodeEventParser implements IAgentEventParser {
+  private sessionId?: string
+
+  parseLine(line: string): AgentEvent[] | null {
+    const event = parseJsonLine(line)
+    if (!event || typeof event.type !== 'string') return null
+
+    // Every event carries the session ID; it is reported once
+    if (event.sessionID && event.sessionID !== this.sessionId) {
+      this.sessionId = event.sessionID
+      return [{ type: 'session', sessionId: event.sessionID }, ...this.partEvents(event)]
+    }
+    return this.partEvents(event)
+  }
+
+  private partEvents(event: Record<string, any>): AgentEvent[] {
+    const part = event.part ?? {}
+    switch (event.type) {
+      case 'text':
+        return part.text ? [{ type: 'message', text: part.text }] : []
+      case 'tool_use':
+        return this.toolEvents(part)
+      case 'step_finish':
+        return this.usageEvents(part)
+      case 'error': {
+        const message = event.error?.data?.message ?? event.error?.message ?? event.error?.name
+        return message ? [{ type: 'message', text: `Error: ${message}` }] : []
+      }
+      default:
+        return []
+    }
+  }
+
+  /**
+   * Tool parts are reported once the tool has finished, with both input and output
+   */
+  private toolEvents(part: Record<string, any>): AgentEvent[] {
+    if (!part.tool) return []
+
+    const state = part.state ?? {}
+    const input = state.input && typeof state.input === 'object' ? state.input : {}
+    const events: AgentEvent[] = [{ type: 'tool_call', id: part.callID, name: part.tool, input }]
+
+    const filePath = input.filePath ?? input.file_path
+    if (FILE_EDIT_TOOLS.has(part.tool) && typeof filePath === 'string') {
+      events.push({ type: 'file_edit', path: filePath, tool: part.tool })
+    }
+
+    if (state.status === 'completed' || state.status === 'error') {
+      events.push({
+        type: 'tool_result',
+        id: part.callID,
+        name: part.tool,
+        output: contentText(state.status === 'error' ? state.error : state.output),
+        isError: state.status === 'error',
+      })
+    }
+    return events
+  }
+
+  private usageEvents(part: Record<string, any>): AgentEvent[] {
+    const tokens = part.tokens
+    if (!tokens) return []
+
+    return [{
+      type: 'usage',
+      inputTokens: tokens.input ?? 0,
+      outputTokens: (tokens.output ?? 0) + (tokens.reasoning ?? 0),
+      cacheReadTokens: tokens.cache?.read,
+      cacheWriteTokens: tokens.cache?.write,
+      costUsd: part.cost,
+    }]
+  }
+}
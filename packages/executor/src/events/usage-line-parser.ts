@@ -0,0 +1,43 @@
+import type { AgentEvent, AgentUsageEvent, IAgentEventParser } from '@loopwork-ai/contracts'
+
+export interface UsageLinePatterns {
+  input?: RegExp
+  output?: RegExp
+  costUsd?: RegExp
+}
+
+/**
+ * Reads token usage from the summary lines of plain-text output, e.g.
+ * "Tokens: 12k sent, 1.2k received. Cost: $0.05".
+ * Lines the wrapped parser recognises are left to it.
+ */
+export class UsageLineParser implements IAgentEventParser {
+  constructor(
+    private patterns: UsageLinePatterns,
+    private inner?: IAgentEventParser
+  ) {}
+
+  parseLine(line: string): AgentEvent[] | null {
+    const events = this.inner?.parseLine(line) ?? null
+    if (events) return events
+
+    const input = this.match(this.patterns.input, line)
+    const output = this.match(this.patterns.output, line)
+    const costUsd = this.match(this.patterns.costUsd, line)
+    if (input === undefined && output === undefined && costUsd === undefined) return null
+
+    const usage: AgentUsageEvent = { type: 'usage', inputTokens: input ?? 0, outputTokens: output ?? 0 }
+    if (costUsd !== undefined) usage.costUsd = costUsd
+    // The line itself stays in the output
+    return [{ type: 'message', text: line }, usage]
+  }
+
+  private match(pattern: RegExp | undefined, line: string): number | undefined {
+    const value = pattern ? line.match(pattern)?.[1] : undefined
+    if (!value) return undefined
+
+    const number = parseFloat(value.replace(/[,$]/g, ''))
+    if (Number.isNaN(number)) return undefined
+    return /k$/i.test(value.trim()) ? Math.round(number * 1000) : number
+  }
+}
@@ -1,8 +1,10 @@
 export * from './cli-executor'
 export * from './model-selector'
+export * from './adaptive-router'
 export * from './isolation/worker-pool-manager'
 export * from './spawners'
 export * from './cli-health-checker'
 export * from './circuit-breaker'
 export * from './strategies'
+export * from './events'
 export * from './cli-discovery'
@@ -5,8 +5,9 @@
  * based on configuration and current state.
  */
 
-import type { ModelConfig, ModelSelectionStrategy } from '@loopwork-ai/contracts/executor'
+import type { IModelOutcomeRouter, ModelConfig, ModelSelectionStrategy, TaskFeatures } from '@loopwork-ai/contracts/executor'
 import { CircuitBreakerRegistry, CircuitBreaker } from './circuit-breaker.js'
+import { AdaptiveModelRouter } from './adaptive-router.js'
 export { sleep } from '@loopwork-ai/utils-common'
 
 /**
@@ -25,12 +26,17 @@ export interface ModelSelectorOptions {
    * @default 1000 (1 second)
    */
   delayBetweenAttemptsMs?: number
+  /**
+   * Router for the 'adaptive' strategy
+   * Defaults to one that keeps what it learns in memory
+   */
+  router?: IModelOutcomeRouter
 }
 
 /**
  * ModelSelector manages the selection of AI models from primary and fallback pools.
  * 
- * It implements various selection strategies (round-robin, priority, cost-aware, random)
+ * It implements various selection strategies (round-robin, priority, cost-aware, random, adaptive)
  * and incorporates circuit breaker logic to temporarily disable failing models.
  * It also supports progressive validation where models can be added or removed dynamically.
  */
@@ -41,6 +47,9 @@ export class ModelSelector {
   private useFallback = false
   private circuitBreakers: CircuitBreakerRegistry
   private enableCircuitBreaker: boolean
+  private router?: IModelOutcomeRouter
+  // Features of the task being run, for the adaptive strategy
+  private taskFeatures: TaskFeatures = {}
 
   // Indices for round-robin strategy
   private primaryIndex = 0
@@ -78,6 +87,9 @@ export class ModelSelector {
     this.fallbackModels = fallbackModels.filter(m => m.enabled !== false)
     this.strategy = strategy
     this.enableCircuitBreaker = options.enableCircuitBreaker ?? true
+    if (strategy === 'adaptive') {
+      this.router = options.router ?? new AdaptiveModelRouter()
+    }
     
     this.circuitBreakers = new CircuitBreakerRegistry({
       failureThreshold: options.failureThreshold ?? 3,
@@ -177,6 +189,8 @@ export class ModelSelector {
         return this.selectCostAware(availablePool)
       case 'random':
         return this.selectRandom(availablePool)
+      case 'adaptive':
+        return this.router!.rank(availablePool, this.taskFeatures)[0] ?? null
       default:
         return pool[0]
     }
@@ -209,6 +223,8 @@ export class ModelSelector {
         return this.selectCostAware(availablePool)
       case 'random':
         return this.selectRandom(availablePool)
+      case 'adaptive':
+        return this.router!.choose(availablePool, this.taskFeatures)
       default:
         return this.selectRoundRobin(availablePool)
     }
@@ -283,6 +299,24 @@ export class ModelSelector {
     return pool[randomIndex]
   }
 
+  /**
+   * Set the features of the task about to run, which the adaptive strategy picks models by
+   *
+   * @param features - Features of the task
+   */
+  setTaskFeatures(features: TaskFeatures): void {
+    this.taskFeatures = features
+  }
+
+  /**
+   * Get the router used by the adaptive strategy
+   *
+   * @returns The router, or undefined for other strategies
+   */
+  getRouter(): IModelOutcomeRouter | undefined {
+    return this.router
+  }
+
   /**
    * Record a successful execution for a model
    * 
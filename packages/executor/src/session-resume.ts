@@ -0,0 +1,55 @@
+/**
+ * What an interrupted run of a task left behind
+ */
+export interface ResumePoint {
+  /** The agent's own session, which the same CLI can resume */
+  session?: { cli: string; sessionId: string }
+  /** Output of the interrupted run */
+  partialOutput: string
+  /** Why the run stopped, e.g. "Execution timed out after 600s" */
+  reason?: string
+}
+
+const MAX_OUTPUT_LINES = 40
+const MAX_TOOL_CALLS = 20
+const TOOL_CALL_PREFIX = 'Tool Call:'
+
+/**
+ * Short summary of an interrupted run's output: the tools it used and its last lines
+ */
+export function summarizePartialOutput(output: string): string {
+  const lines = output.split('\n').map(line => line.trimEnd()).filter(Boolean)
+  const toolCalls = [...new Set(
+    lines.filter(line => line.startsWith(TOOL_CALL_PREFIX)).map(line => line.slice(TOOL_CALL_PREFIX.length).trim())
+  )]
+  const tail = lines
+    .filter(line => !line.startsWith(TOOL_CALL_PREFIX) && !line.startsWith('Tokens:'))
+    .slice(-MAX_OUTPUT_LINES)
+
+  const sections: string[] = []
+  if (toolCalls.length > 0) {
+    sections.push(`Tools used so far:\n${toolCalls.slice(-MAX_TOOL_CALLS).map(call => `- ${call}`).join('\n')}`)
+  }
+  if (tail.length > 0) {
+    sections.push(`Last output:\n\`\`\`\n${tail.join('\n')}\n\`\`\``)
+  }
+  return sections.join('\n\n')
+}
+
+/**
+ * Prompt for the attempt after an interruption.
+ * A resumed session already holds the task, so it only needs to be told to carry on;
+ * otherwise the task prompt is sent again with a summary of the interrupted run.
+ */
+export function buildResumePrompt(prompt: string, point: ResumePoint, resumingSession: boolean): string {
+  const interrupted = `Your previous run on this task was interrupted${point.reason ? ` (${point.reason})` : ''}.`
+
+  if (resumingSession) {
+    return `${interrupted} Continue from where you left off: check what is already done, then finish the remaining work. Do not start over.`
+  }
+
+  const summary = summarizePartialOutput(point.partialOutput)
+  if (!summary) return prompt
+
+  return `${prompt}\n\n# Previous Attempt\n\n${interrupted} Continue from where it left off instead of starting over, and check the current state of the files before redoing any work.\n\n${summary}`
+}
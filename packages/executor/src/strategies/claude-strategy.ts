@@ -1,4 +1,5 @@
-import type { ICliStrategy, ICliStrategyContext, ICliPrepareResult } from '@loopwork-ai/contracts'
+import type { ICliStrategy, ICliStrategyContext, ICliPrepareResult, IAgentEventParser } from '@loopwork-ai/contracts'
+import { ClaudeStreamParser } from '../events/claude-stream-parser'
 
 export class ClaudeStrategy implements ICliStrategy {
   readonly cliType = 'claude' as const
@@ -12,6 +13,14 @@ export class ClaudeStrategy implements ICliStrategy {
     if (modelConfig.args && modelConfig.args.length > 0) {
       args.push(...modelConfig.args)
     }
+    if (context.resumeSessionId) {
+      args.push('--resume', context.resumeSessionId)
+    }
+    // Leave the output format alone when the model's args already pick one
+    if (context.eventStream && !args.includes('--output-format')) {
+      if (!args.includes('-p') && !args.includes('--print')) args.push('--print')
+      args.push('--output-format', 'stream-json', '--verbose')
+    }
 
     return {
       args,
@@ -21,6 +30,10 @@ export class ClaudeStrategy implements ICliStrategy {
     }
   }
 
+  createEventParser(): IAgentEventParser {
+    return new ClaudeStreamParser()
+  }
+
   getRateLimitPatterns(): RegExp[] {
     return [
       /rate.*limit/i,
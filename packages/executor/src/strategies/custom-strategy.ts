@@ -0,0 +1,133 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import type {
+  AgentEventFormat,
+  CliType,
+  CustomCliConfig,
+  IAgentEventParser,
+  ICliPrepareResult,
+  ICliStrategy,
+  ICliStrategyContext,
+} from '@loopwork-ai/contracts'
+import { ClaudeStreamParser } from '../events/claude-stream-parser'
+import { OpenCodeEventParser } from '../events/opencode-event-parser'
+import { GeminiStreamParser } from '../events/gemini-stream-parser'
+import { UsageLineParser, type UsageLinePatterns } from '../events/usage-line-parser'
+
+const EVENT_PARSERS: Record<AgentEventFormat, () => IAgentEventParser> = {
+  'claude-stream-json': () => new ClaudeStreamParser(),
+  'opencode-json': () => new OpenCodeEventParser(),
+  'gemini-stream-json': () => new GeminiStreamParser(),
+}
+
+const PLACEHOLDER = /\{(model|prompt|promptFile)\}/g
+
+/**
+ * Compile a configured output pattern; strings are matched case-insensitively
+ */
+export function compileCliPattern(pattern: string | RegExp): RegExp {
+  return typeof pattern === 'string' ? new RegExp(pattern, 'i') : pattern
+}
+
+/**
+ * Strategy for a CLI declared in `customClis`, built from its definition
+ * instead of a class of its own
+ */
+export class CustomCliStrategy implements ICliStrategy {
+  readonly cliType: CliType
+  readonly createEventParser?: () => IAgentEventParser
+  private rateLimitPatterns: RegExp[]
+  private quotaPatterns: RegExp[]
+  private usagePatterns?: UsageLinePatterns
+
+  constructor(private definition: CustomCliConfig) {
+    this.cliType = definition.name
+    this.rateLimitPatterns = definition.rateLimitPatterns?.map(compileCliPattern)
+      ?? [/rate.*limit/i, /too many requests/i, /429/]
+    this.quotaPatterns = definition.quotaPatterns?.map(compileCliPattern)
+      ?? [/quota.*exceed/i, /billing.*limit/i]
+
+    const usage = definition.usagePatterns
+    if (usage) {
+      this.usagePatterns = {
+        input: usage.input ? compileCliPattern(usage.input) : undefined,
+        output: usage.output ? compileCliPattern(usage.output) : undefined,
+        costUsd: usage.costUsd ? compileCliPattern(usage.costUsd) : undefined,
+      }
+    }
+
+    // CLIs without an event stream or usage lines run as plain text
+    if (definition.eventStream || this.usagePatterns) {
+      this.createEventParser = () => this.eventParser()
+    }
+  }
+
+  prepare(context: ICliStrategyContext): ICliPrepareResult {
+    const { modelConfig, prompt, env } = context
+    const definition = this.definition
+    const modelName = modelConfig.displayName || modelConfig.name
+    const delivery = definition.prompt ?? 'stdin'
+    const template = definition.args ?? []
+    const usesPlaceholder = (name: string) => template.some(arg => arg.includes(`{${name}}`))
+
+    let promptDir: string | undefined
+    let promptFile = ''
+    if (delivery === 'file') {
+      promptDir = fs.mkdtempSync(path.join(os.tmpdir(), 'loopwork-prompt-'))
+      promptFile = path.join(promptDir, 'prompt.md')
+      fs.writeFileSync(promptFile, prompt)
+    }
+
+    const values: Record<string, string> = { model: modelConfig.model, prompt, promptFile }
+    const args = template.map(arg => arg.replace(PLACEHOLDER, (_, name: string) => values[name]))
+    if (definition.modelFlag && !usesPlaceholder('model')) {
+      args.push(definition.modelFlag, modelConfig.model)
+    }
+    if (modelConfig.args && modelConfig.args.length > 0) {
+      args.push(...modelConfig.args)
+    }
+    if (context.resumeSessionId && definition.eventStream?.resumeArgs) {
+      const sessionId = context.resumeSessionId
+      args.push(...definition.eventStream.resumeArgs.map(arg => arg.replace(/\{sessionId\}/g, sessionId)))
+    }
+    if (context.eventStream && definition.eventStream) {
+      args.push(...definition.eventStream.args)
+    }
+    if (delivery === 'arg' && !usesPlaceholder('prompt')) {
+      args.push(prompt)
+    }
+    if (delivery === 'file' && !usesPlaceholder('promptFile')) {
+      args.push(promptFile)
+    }
+
+    return {
+      args,
+      env: { ...env, ...definition.env, ...modelConfig.env },
+      stdinInput: delivery === 'stdin' ? prompt : undefined,
+      displayName: `${definition.name}/${modelName}`,
+      cleanup: promptDir ? () => fs.rmSync(promptDir, { recursive: true, force: true }) : undefined,
+    }
+  }
+
+  getRateLimitPatterns(): RegExp[] {
+    return this.rateLimitPatterns
+  }
+
+  getQuotaExceededPatterns(): RegExp[] {
+    return this.quotaPatterns
+  }
+
+  private eventParser(): IAgentEventParser {
+    const stream = this.definition.eventStream
+    let parser: IAgentEventParser | undefined
+    if (stream) {
+      const streamParser = EVENT_PARSERS[stream.format]()
+      // Sessions are only reported when the CLI can be told to resume them
+      parser = stream.resumeArgs ? streamParser : {
+        parseLine: line => streamParser.parseLine(line)?.filter(event => event.type !== 'session') ?? null,
+      }
+    }
+    return this.usagePatterns ? new UsageLineParser(this.usagePatterns, parser) : parser!
+  }
+}
@@ -1,4 +1,5 @@
-import type { ICliStrategy, ICliStrategyContext, ICliPrepareResult } from '@loopwork-ai/contracts'
+import type { ICliStrategy, ICliStrategyContext, ICliPrepareResult, IAgentEventParser } from '@loopwork-ai/contracts'
+import { GeminiStreamParser } from '../events/gemini-stream-parser'
 
 export class GeminiStrategy implements ICliStrategy {
   readonly cliType = 'gemini' as const
@@ -12,6 +13,12 @@ export class GeminiStrategy implements ICliStrategy {
     if (modelConfig.args && modelConfig.args.length > 0) {
       args.push(...modelConfig.args)
     }
+    if (context.resumeSessionId) {
+      args.push('--resume', context.resumeSessionId)
+    }
+    if (context.eventStream && !args.includes('--output-format') && !args.includes('-o')) {
+      args.push('--output-format', 'stream-json')
+    }
 
     return {
       args,
@@ -21,6 +28,10 @@ export class GeminiStrategy implements ICliStrategy {
     }
   }
 
+  createEventParser(): IAgentEventParser {
+    return new GeminiStreamParser()
+  }
+
   getRateLimitPatterns(): RegExp[] {
     return [
       /rate.*limit/i,
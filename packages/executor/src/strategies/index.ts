@@ -5,4 +5,5 @@ export { DroidStrategy } from './droid-strategy'
 export { CrushStrategy } from './crush-strategy'
 export { KimiStrategy } from './kimi-strategy'
 export { KilocodeStrategy } from './kilocode-strategy'
+export { CustomCliStrategy, compileCliPattern } from './custom-strategy'
 export { CliStrategyRegistry, createDefaultRegistry } from './registry'
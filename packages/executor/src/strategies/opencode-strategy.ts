@@ -1,8 +1,9 @@
 import fs from 'fs'
 import os from 'os'
 import path from 'path'
-import type { ICliStrategy, ICliStrategyContext, ICliPrepareResult, ILogger } from '@loopwork-ai/contracts'
+import type { ICliStrategy, ICliStrategyContext, ICliPrepareResult, ILogger, IAgentEventParser } from '@loopwork-ai/contracts'
 import { isOpenCodeCacheCorruption } from '@loopwork-ai/resilience'
+import { OpenCodeEventParser } from '../events/opencode-event-parser'
 
 export class OpenCodeStrategy implements ICliStrategy {
   readonly cliType = 'opencode' as const
@@ -26,6 +27,12 @@ export class OpenCodeStrategy implements ICliStrategy {
     if (modelConfig.args && modelConfig.args.length > 0) {
       args.push(...modelConfig.args)
     }
+    if (context.resumeSessionId) {
+      args.push('--session', context.resumeSessionId)
+    }
+    if (context.eventStream && !args.includes('--format')) {
+      args.push('--format', 'json')
+    }
 
     return {
       args,
@@ -35,6 +42,10 @@ export class OpenCodeStrategy implements ICliStrategy {
     }
   }
 
+  createEventParser(): IAgentEventParser {
+    return new OpenCodeEventParser()
+  }
+
   detectCacheCorruption(output: string): boolean {
     return isOpenCodeCacheCorruption(output)
   }
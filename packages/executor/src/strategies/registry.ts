@@ -1,4 +1,4 @@
-import type { CliType, ICliStrategy, ICliStrategyRegistry, ILogger } from '@loopwork-ai/contracts'
+import type { CliType, CustomCliConfig, ICliStrategy, ICliStrategyRegistry, ILogger } from '@loopwork-ai/contracts'
 import { ClaudeStrategy } from './claude-strategy'
 import { OpenCodeStrategy } from './opencode-strategy'
 import { GeminiStrategy } from './gemini-strategy'
@@ -6,6 +6,7 @@ import { DroidStrategy } from './droid-strategy'
 import { CrushStrategy } from './crush-strategy'
 import { KimiStrategy } from './kimi-strategy'
 import { KilocodeStrategy } from './kilocode-strategy'
+import { CustomCliStrategy } from './custom-strategy'
 
 export class CliStrategyRegistry implements ICliStrategyRegistry {
   private strategies = new Map<CliType, ICliStrategy>()
@@ -31,7 +32,7 @@ export class CliStrategyRegistry implements ICliStrategyRegistry {
   }
 }
 
-export function createDefaultRegistry(logger?: ILogger): CliStrategyRegistry {
+export function createDefaultRegistry(logger?: ILogger, customClis: CustomCliConfig[] = []): CliStrategyRegistry {
   const registry = new CliStrategyRegistry()
   registry.register(new ClaudeStrategy())
   registry.register(new OpenCodeStrategy(logger))
@@ -40,5 +41,11 @@ export function createDefaultRegistry(logger?: ILogger): CliStrategyRegistry {
   registry.register(new CrushStrategy())
   registry.register(new KimiStrategy())
   registry.register(new KilocodeStrategy())
+  for (const definition of customClis) {
+    if (registry.has(definition.name)) {
+      throw new Error(`Custom CLI "${definition.name}" has the name of a built-in CLI`)
+    }
+    registry.register(new CustomCliStrategy(definition))
+  }
   return registry
 }
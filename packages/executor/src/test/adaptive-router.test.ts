@@ -0,0 +1,176 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { AdaptiveModelRouter, inferTaskCategory, taskSize, taskFeatureKeys } from '../adaptive-router'
+import type { ModelConfig, ModelOutcome } from '@loopwork-ai/contracts'
+
+/**
+ * Adaptive Model Router Tests
+ */
+
+const models: ModelConfig[] = [
+  { name: 'cheap', cli: 'opencode', model: 'flash', costWeight: 10 },
+  { name: 'strong', cli: 'claude', model: 'opus', costWeight: 90 },
+]
+
+/** Deterministic random numbers so sampling is repeatable */
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296
+    return seed / 4294967296
+  }
+}
+
+function outcome(model: string, success: boolean, extra: Partial<ModelOutcome> = {}): ModelOutcome {
+  return { model, features: { category: 'testing' }, success, durationMs: 1000, retries: 0, ...extra }
+}
+
+function pickCounts(router: AdaptiveModelRouter, features = {}, rounds = 200): Record<string, number> {
+  const counts: Record<string, number> = {}
+  for (let i = 0; i < rounds; i++) {
+    const name = router.choose(models, features)!.name
+    counts[name] = (counts[name] ?? 0) + 1
+  }
+  return counts
+}
+
+describe('AdaptiveModelRouter', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'adaptive-router-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('should record outcomes overall and by task feature', () => {
+    const router = new AdaptiveModelRouter()
+    router.record(outcome('strong', true, {
+      features: { category: 'testing', feature: 'auth', priority: 'high', size: 'small' },
+      durationMs: 3000,
+      retries: 1,
+      costUsd: 0.5,
+    }))
+    router.record(outcome('strong', false))
+
+    const stats = router.getStats().strong
+    expect(stats.all).toMatchObject({ attempts: 2, successes: 1, totalDurationMs: 4000, totalRetries: 1, totalCostUsd: 0.5, costSamples: 1 })
+    expect(stats['category:testing'].attempts).toBe(2)
+    expect(stats['feature:auth'].attempts).toBe(1)
+    expect(stats['priority:high'].successes).toBe(1)
+    expect(stats['size:small'].attempts).toBe(1)
+  })
+
+  test('should prefer the model that succeeds, while still exploring', () => {
+    const router = new AdaptiveModelRouter({ costWeight: 0, random: seededRandom(42) })
+    for (let i = 0; i < 10; i++) {
+      router.record(outcome('strong', true))
+      router.record(outcome('cheap', i < 3))
+    }
+
+    const counts = pickCounts(router, { category: 'testing' })
+    expect(counts.strong).toBeGreaterThan(counts.cheap ?? 0)
+    expect(router.rank(models, { category: 'testing' })[0].name).toBe('strong')
+  })
+
+  test('should learn which model suits which kind of task', () => {
+    const router = new AdaptiveModelRouter({ costWeight: 0 })
+    for (let i = 0; i < 20; i++) {
+      router.record(outcome('strong', true, { features: { category: 'architecture' } }))
+      router.record(outcome('cheap', false, { features: { category: 'architecture' } }))
+      router.record(outcome('strong', false, { features: { category: 'documentation' } }))
+      router.record(outcome('cheap', true, { features: { category: 'documentation' } }))
+    }
+
+    expect(router.rank(models, { category: 'architecture' })[0].name).toBe('strong')
+    expect(router.rank(models, { category: 'documentation' })[0].name).toBe('cheap')
+  })
+
+  test('should weigh cost against success rate', () => {
+    const costAware = new AdaptiveModelRouter({ costWeight: 1 })
+    const qualityOnly = new AdaptiveModelRouter({ costWeight: 0 })
+    for (const router of [costAware, qualityOnly]) {
+      for (let i = 0; i < 20; i++) {
+        router.record(outcome('strong', true, { costUsd: 2 }))
+        router.record(outcome('cheap', i < 16, { costUsd: 0.1 }))
+      }
+    }
+
+    expect(costAware.rank(models, {})[0].name).toBe('cheap')
+    expect(qualityOnly.rank(models, {})[0].name).toBe('strong')
+  })
+
+  test('should use model cost weights until costs are reported', () => {
+    const router = new AdaptiveModelRouter({ costWeight: 0.5 })
+    expect(router.rank(models, {})[0].name).toBe('cheap')
+    expect(router.rank([...models].reverse(), {})[0].name).toBe('cheap')
+  })
+
+  test('should persist stats to the stats file', async () => {
+    const statsFile = path.join(tempDir, '.loopwork', 'model-stats.json')
+    await new AdaptiveModelRouter({ statsFile }).record(outcome('strong', true))
+
+    const content = JSON.parse(fs.readFileSync(statsFile, 'utf-8'))
+    expect(content.version).toBe(1)
+    expect(content.models.strong.all.attempts).toBe(1)
+
+    const reloaded = new AdaptiveModelRouter({ statsFile })
+    expect(reloaded.getStats().strong.all.successes).toBe(1)
+  })
+
+  test('should merge outcomes written concurrently by other processes', async () => {
+    const statsFile = path.join(tempDir, 'model-stats.json')
+    const routers = Array.from({ length: 5 }, () => new AdaptiveModelRouter({ statsFile }))
+
+    await Promise.all(routers.map((router, i) => router.record(outcome('strong', i % 2 === 0))))
+
+    expect(new AdaptiveModelRouter({ statsFile }).getStats().strong.all.attempts).toBe(5)
+  })
+
+  test('should keep going when the stats file cannot be written', async () => {
+    const statsFile = path.join(tempDir, 'model-stats.json')
+    fs.mkdirSync(statsFile)
+    const router = new AdaptiveModelRouter({ statsFile })
+
+    await router.record(outcome('strong', true))
+
+    expect(router.getStats().strong.all.attempts).toBe(1)
+  })
+
+  test('should start over when the stats file is corrupt', () => {
+    const statsFile = path.join(tempDir, 'model-stats.json')
+    fs.writeFileSync(statsFile, '{ not json')
+
+    const router = new AdaptiveModelRouter({ statsFile })
+    expect(router.getStats()).toEqual({})
+    expect(router.choose(models, {})).not.toBeNull()
+  })
+
+  test('should return null when there are no models', () => {
+    expect(new AdaptiveModelRouter().choose([], {})).toBeNull()
+  })
+})
+
+describe('task features', () => {
+  test('should infer the category from the task text', () => {
+    expect(inferTaskCategory('Fix crash when saving settings')).toBe('debugging')
+    expect(inferTaskCategory('Add unit tests for the parser')).toBe('testing')
+    expect(inferTaskCategory('Update README with install steps')).toBe('documentation')
+    expect(inferTaskCategory('Refactor the storage layer')).toBe('refactoring')
+    expect(inferTaskCategory('Add a dark mode toggle')).toBe('implementation')
+  })
+
+  test('should bucket descriptions by length', () => {
+    expect(taskSize(100)).toBe('small')
+    expect(taskSize(1000)).toBe('medium')
+    expect(taskSize(5000)).toBe('large')
+  })
+
+  test('should list stats keys for the features present', () => {
+    expect(taskFeatureKeys({ category: 'testing', size: 'large' })).toEqual(['category:testing', 'size:large'])
+    expect(taskFeatureKeys({})).toEqual([])
+  })
+})
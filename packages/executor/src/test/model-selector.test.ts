@@ -1,5 +1,6 @@
 import { describe, expect, test, beforeEach } from 'bun:test'
 import { ModelSelector, type ModelSelectorOptions, sleep } from '../model-selector'
+import { AdaptiveModelRouter } from '../adaptive-router'
 import type { ModelConfig } from '@loopwork-ai/contracts'
 
 /**
@@ -95,6 +96,22 @@ describe('ModelSelector', () => {
       expect(['model1', 'model2', 'model3']).toContain(model?.name)
     })
 
+    test('should use adaptive strategy with the given router', () => {
+      const models = createMockModels()
+      const router = new AdaptiveModelRouter({ costWeight: 0 })
+      for (let i = 0; i < 20; i++) {
+        router.record({ model: 'model3', features: { category: 'testing' }, success: true, durationMs: 1000, retries: 0 })
+        router.record({ model: 'model1', features: { category: 'testing' }, success: false, durationMs: 1000, retries: 0 })
+        router.record({ model: 'model2', features: { category: 'testing' }, success: false, durationMs: 1000, retries: 0 })
+      }
+      const selector = new ModelSelector(models, [], 'adaptive', { router })
+      selector.setTaskFeatures({ category: 'testing' })
+
+      expect(selector.getRouter()).toBe(router)
+      expect(selector.peek()?.name).toBe('model3')
+      expect(selector.getNext()?.name).toBe('model3')
+    })
+
     test('should default to round-robin for unknown strategy', () => {
       const models = createMockModels()
       const selector = new ModelSelector(models, [], 'unknown' as any)
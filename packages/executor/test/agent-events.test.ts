@@ -0,0 +1,158 @@
+import { describe, test, expect } from 'bun:test'
+import { ClaudeStreamParser } from '../src/events/claude-stream-parser'
+import { OpenCodeEventParser } from '../src/events/opencode-event-parser'
+import { GeminiStreamParser } from '../src/events/gemini-stream-parser'
+import { UsageLineParser } from '../src/events/usage-line-parser'
+import { formatAgentEvent } from '../src/events/format'
+
+const line = (value: unknown) => JSON.stringify(value)
+
+describe('ClaudeStreamParser', () => {
+  test('parses assistant text, tool calls, file edits and tool results', () => {
+    const parser = new ClaudeStreamParser()
+
+    expect(parser.parseLine(line({ type: 'system', subtype: 'init', session_id: 'abc' }))).toEqual([{ type: 'session', sessionId: 'abc' }])
+    expect(parser.parseLine(line({
+      type: 'assistant',
+      message: {
+        content: [
+          { type: 'text', text: 'Fixing the bug' },
+          { type: 'tool_use', id: 'toolu_1', name: 'Edit', input: { file_path: 'src/app.ts', old_string: 'a', new_string: 'b' } },
+        ],
+      },
+    }))).toEqual([
+      { type: 'message', text: 'Fixing the bug' },
+      { type: 'tool_call', id: 'toolu_1', name: 'Edit', input: { file_path: 'src/app.ts', old_string: 'a', new_string: 'b' } },
+      { type: 'file_edit', path: 'src/app.ts', tool: 'Edit' },
+    ])
+    expect(parser.parseLine(line({
+      type: 'user',
+      message: { content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: 'Updated' }] }] },
+    }))).toEqual([{ type: 'tool_result', id: 'toolu_1', name: 'Edit', output: 'Updated', isError: false }])
+  })
+
+  test('reports exact usage from the result', () => {
+    const parser = new ClaudeStreamParser()
+
+    expect(parser.parseLine(line({
+      type: 'result',
+      subtype: 'success',
+      is_error: false,
+      result: 'Done',
+      total_cost_usd: 0.0123,
+      usage: { input_tokens: 1200, output_tokens: 340, cache_read_input_tokens: 5000, cache_creation_input_tokens: 800 },
+    }))).toEqual([{
+      type: 'usage',
+      inputTokens: 1200,
+      outputTokens: 340,
+      cacheReadTokens: 5000,
+      cacheWriteTokens: 800,
+      costUsd: 0.0123,
+    }])
+  })
+
+  test('keeps the error text of a failed run', () => {
+    const parser = new ClaudeStreamParser()
+
+    expect(parser.parseLine(line({ type: 'result', is_error: true, result: 'API Error: 429 rate limit' }))).toEqual([
+      { type: 'message', text: 'API Error: 429 rate limit' },
+    ])
+  })
+
+  test('returns null for lines outside the event stream', () => {
+    const parser = new ClaudeStreamParser()
+
+    expect(parser.parseLine('Error: unknown option --output-format')).toBeNull()
+    expect(parser.parseLine('{ not json')).toBeNull()
+    expect(parser.parseLine('')).toBeNull()
+  })
+})
+
+describe('OpenCodeEventParser', () => {
+  test('parses text, finished tools and step usage', () => {
+    const parser = new OpenCodeEventParser()
+
+    expect(parser.parseLine(line({ type: 'text', sessionID: 'ses_1', part: { type: 'text', text: 'Looking at the tests' } }))).toEqual([
+      { type: 'session', sessionId: 'ses_1' },
+      { type: 'message', text: 'Looking at the tests' },
+    ])
+    expect(parser.parseLine(line({
+      type: 'tool_use',
+      part: { type: 'tool', tool: 'write', callID: 'call_1', state: { status: 'completed', input: { filePath: 'README.md', content: '# Hi' }, output: '' } },
+    }))).toEqual([
+      { type: 'tool_call', id: 'call_1', name: 'write', input: { filePath: 'README.md', content: '# Hi' } },
+      { type: 'file_edit', path: 'README.md', tool: 'write' },
+      { type: 'tool_result', id: 'call_1', name: 'write', output: '', isError: false },
+    ])
+    expect(parser.parseLine(line({
+      type: 'step_finish',
+      part: { type: 'step-finish', cost: 0.002, tokens: { input: 900, output: 100, reasoning: 20, cache: { read: 300, write: 0 } } },
+    }))).toEqual([
+      { type: 'usage', inputTokens: 900, outputTokens: 120, cacheReadTokens: 300, cacheWriteTokens: 0, costUsd: 0.002 },
+    ])
+  })
+
+  test('turns errors into text so rate limits are still detected', () => {
+    const parser = new OpenCodeEventParser()
+
+    expect(parser.parseLine(line({ type: 'error', error: { name: 'APIError', data: { message: 'Too many requests' } } }))).toEqual([
+      { type: 'message', text: 'Error: Too many requests' },
+    ])
+  })
+})
+
+describe('GeminiStreamParser', () => {
+  test('parses messages, tools and stats', () => {
+    const parser = new GeminiStreamParser()
+
+    expect(parser.parseLine(line({ type: 'init', session_id: 'g-1', model: 'gemini-2.5-pro' }))).toEqual([{ type: 'session', sessionId: 'g-1' }])
+    expect(parser.parseLine(line({ type: 'message', role: 'user', content: 'prompt' }))).toEqual([])
+    expect(parser.parseLine(line({ type: 'message', role: 'assistant', content: 'On it', delta: true }))).toEqual([
+      { type: 'message', text: 'On it' },
+    ])
+    expect(parser.parseLine(line({ type: 'tool_use', tool_name: 'replace', tool_id: 't1', parameters: { file_path: 'a.ts' } }))).toEqual([
+      { type: 'tool_call', id: 't1', name: 'replace', input: { file_path: 'a.ts' } },
+      { type: 'file_edit', path: 'a.ts', tool: 'replace' },
+    ])
+    expect(parser.parseLine(line({ type: 'tool_result', tool_id: 't1', status: 'error', error: { message: 'no match' } }))).toEqual([
+      { type: 'tool_result', id: 't1', name: 'replace', output: 'no match', isError: true },
+    ])
+    expect(parser.parseLine(line({ type: 'result', status: 'success', stats: { input_tokens: 50, output_tokens: 7 } }))).toEqual([
+      { type: 'usage', inputTokens: 50, outputTokens: 7, cacheReadTokens: undefined },
+    ])
+  })
+})
+
+describe('UsageLineParser', () => {
+  test('reads usage from summary lines and keeps the line', () => {
+    const parser = new UsageLineParser({ input: /([\d,.]+k?) sent/, output: /([\d,.]+k?) received/, costUsd: /\$([\d.]+) message/ })
+    const summary = 'Tokens: 12k sent, 1,250 received. Cost: $0.05 message, $0.31 session.'
+
+    expect(parser.parseLine(summary)).toEqual([
+      { type: 'message', text: summary },
+      { type: 'usage', inputTokens: 12000, outputTokens: 1250, costUsd: 0.05 },
+    ])
+    expect(parser.parseLine('Applied edit to src/app.ts')).toBeNull()
+  })
+
+  test('leaves lines the wrapped parser recognises to it', () => {
+    const parser = new UsageLineParser({ input: /(\d+) input/ }, new ClaudeStreamParser())
+
+    expect(parser.parseLine(line({ type: 'assistant', message: { content: [{ type: 'text', text: '5 input' }] } }))).toEqual([
+      { type: 'message', text: '5 input' },
+    ])
+    expect(parser.parseLine('5 input')).toEqual([
+      { type: 'message', text: '5 input' },
+      { type: 'usage', inputTokens: 5, outputTokens: 0 },
+    ])
+  })
+})
+
+describe('formatAgentEvent', () => {
+  test('renders tool calls as event lines and skips usage', () => {
+    expect(formatAgentEvent({ type: 'tool_call', name: 'Bash', input: { command: 'bun test\nmore' } })).toBe('Tool Call: Bash bun test\n')
+    expect(formatAgentEvent({ type: 'tool_result', name: 'Bash', output: 'exit 1', isError: true })).toBe('Tool Error (Bash): exit 1\n')
+    expect(formatAgentEvent({ type: 'tool_result', output: 'ok', isError: false })).toBeNull()
+    expect(formatAgentEvent({ type: 'usage', inputTokens: 1, outputTokens: 1 })).toBeNull()
+  })
+})
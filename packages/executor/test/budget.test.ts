@@ -0,0 +1,153 @@
+import { describe, test, expect, mock, beforeEach, afterEach } from 'bun:test'
+import { CliExecutor, BudgetSkipError } from '../src/cli-executor'
+import type {
+  IProcessManager,
+  IPluginRegistry,
+  ILogger,
+  ISpawnedProcess,
+  IBudgetGuard,
+  BudgetRequest,
+  BudgetExceededAction,
+} from '@loopwork-ai/contracts'
+import { EventEmitter } from 'events'
+import { Readable, Writable } from 'stream'
+import fs from 'fs'
+
+class MockProcess extends EventEmitter implements ISpawnedProcess {
+  pid = 123
+  stdout = new Readable({ read() {} })
+  stderr = new Readable({ read() {} })
+  stdin = new Writable({ write() {} })
+  kill = mock(() => true)
+}
+
+/**
+ * Guard with fixed per-model estimates and a single feature budget
+ */
+function createGuard(onExceeded: BudgetExceededAction, remaining: number) {
+  const estimates: Record<string, number> = { opus: 2.0, sonnet: 0.5, haiku: 0.1 }
+  const recorded: BudgetRequest[] = []
+  const checked: string[] = []
+  const status = { scope: 'feature' as const, key: 'auth', limit: 5, spent: 5 - remaining, remaining, alertTriggered: false }
+
+  const guard: IBudgetGuard = {
+    onExceeded,
+    async check(request) {
+      checked.push(request.model)
+      const estimatedCost = guard.estimateCost(request)
+      const allowed = estimatedCost <= remaining
+      return { allowed, estimatedCost, scopes: [status], exceeded: allowed ? [] : [status], alerts: [] }
+    },
+    estimateCost(request) {
+      return estimates[request.model] ?? 1
+    },
+    getScopeStatus() {
+      return [status]
+    },
+    async recordOutput(request) {
+      recorded.push(request)
+      return 0
+    },
+  }
+  return { guard, recorded, checked }
+}
+
+describe('CliExecutor budget enforcement', () => {
+  let processManager: IProcessManager
+  let pluginRegistry: IPluginRegistry
+  let logger: ILogger
+  let tempDir: string
+
+  const config = {
+    cliPaths: { claude: '/usr/bin/claude' },
+    models: [
+      { name: 'opus', cli: 'claude', model: 'opus' },
+      { name: 'sonnet', cli: 'claude', model: 'sonnet' },
+      { name: 'haiku', cli: 'claude', model: 'haiku' },
+    ],
+    fallbackModels: [],
+    selectionStrategy: 'priority',
+    retry: { delayBetweenModelAttemptsMs: 1, baseDelayMs: 1 },
+  } as any
+
+  beforeEach(() => {
+    processManager = {
+      spawn: mock(() => {
+        const proc = new MockProcess()
+        setTimeout(() => proc.emit('close', 0), 5)
+        return proc
+      }),
+      kill: mock(() => true),
+      cleanup: mock(async () => ({ cleaned: [], failed: [], alreadyGone: [] })),
+    } as unknown as IProcessManager
+
+    pluginRegistry = {
+      runHook: mock(async () => {}),
+      getCapabilityRegistry: mock(() => ({ getPromptInjection: mock(() => '') })),
+    } as unknown as IPluginRegistry
+
+    logger = {
+      trace: mock(() => {}),
+      debug: mock(() => {}),
+      info: mock(() => {}),
+      warn: mock(() => {}),
+      error: mock(() => {}),
+      success: mock(() => {}),
+      update: mock(() => {}),
+      startSpinner: mock(() => {}),
+      stopSpinner: mock(() => {}),
+      raw: mock(() => {}),
+      setLogLevel: mock(() => {}),
+    }
+
+    tempDir = fs.mkdtempSync('/tmp/executor-budget-test-')
+  })
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  const task = { id: 'TASK-001', title: 'Budgeted task', feature: 'auth' }
+
+  test('runs the selected model when it fits and records its output', async () => {
+    const { guard, recorded } = createGuard('skip', 3)
+    const executor = new CliExecutor(config, processManager, pluginRegistry, logger, { budgetGuard: guard })
+
+    const exitCode = await executor.executeTask(task, 'prompt', `${tempDir}/out.log`, 60, { namespace: 'team-a' })
+
+    expect(exitCode).toBe(0)
+    expect(recorded).toHaveLength(1)
+    expect(recorded[0]).toMatchObject({ taskId: 'TASK-001', feature: 'auth', namespace: 'team-a', model: 'opus' })
+  })
+
+  test('skips the task without spawning when the budget cannot cover it', async () => {
+    const { guard } = createGuard('skip', 1)
+    const executor = new CliExecutor(config, processManager, pluginRegistry, logger, { budgetGuard: guard })
+
+    const error = await executor.executeTask(task, 'prompt', `${tempDir}/out.log`, 60).catch(e => e)
+
+    expect(error).toBeInstanceOf(BudgetSkipError)
+    expect(error.exceeded[0]).toMatchObject({ scope: 'feature', key: 'auth' })
+    expect(processManager.spawn).not.toHaveBeenCalled()
+  })
+
+  test('downgrades to the cheapest model that fits, checking only that one', async () => {
+    const { guard, recorded, checked } = createGuard('downgrade', 1)
+    const executor = new CliExecutor(config, processManager, pluginRegistry, logger, { budgetGuard: guard })
+
+    const exitCode = await executor.executeTask(task, 'prompt', `${tempDir}/out.log`, 60)
+
+    expect(exitCode).toBe(0)
+    expect(processManager.spawn).toHaveBeenCalledTimes(1)
+    expect(recorded[0].model).toBe('haiku')
+    expect(checked).toEqual(['opus', 'haiku'])
+  })
+
+  test('skips when no model fits even after downgrading', async () => {
+    const { guard } = createGuard('downgrade', 0.05)
+    const executor = new CliExecutor(config, processManager, pluginRegistry, logger, { budgetGuard: guard })
+
+    await expect(executor.executeTask(task, 'prompt', `${tempDir}/out.log`, 60)).rejects.toBeInstanceOf(BudgetSkipError)
+    expect(processManager.spawn).not.toHaveBeenCalled()
+  })
+})
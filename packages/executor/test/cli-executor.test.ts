@@ -92,6 +92,470 @@ describe('CliExecutor', () => {
     expect(mockPluginRegistry.runHook).toHaveBeenCalled()
   })
 
+  test('should run the first attempt with the preferred model', async () => {
+    // The budget guard sees the model of every spawn attempt
+    const models: string[] = []
+    const budgetGuard = {
+      onExceeded: 'skip' as const,
+      async check(request: { model: string }) {
+        models.push(request.model)
+        return { allowed: true, estimatedCost: 0, scopes: [], exceeded: [], alerts: [] }
+      },
+      recordOutput: async () => 0,
+    }
+    const executor = new CliExecutor(
+      {
+        cliPaths: { claude: '/usr/bin/claude' },
+        models: [
+          { name: 'opus', cli: 'claude', model: 'opus' },
+          { name: 'haiku', cli: 'claude', model: 'haiku' },
+        ],
+        fallbackModels: [],
+        selectionStrategy: 'priority',
+      } as any,
+      mockProcessManager,
+      mockPluginRegistry,
+      mockLogger,
+      { budgetGuard }
+    )
+
+    mockProcessManager.spawn = mock(() => {
+      const proc = new MockProcess()
+      setTimeout(() => proc.emit('close', 0), 10)
+      return proc
+    })
+
+    expect(executor.getNextModel({ preferredModel: 'haiku' })?.model).toBe('haiku')
+    expect(executor.getNextModel({ preferredModel: 'missing' })?.model).toBe('opus')
+
+    const task = { id: 'TASK-001', title: 'Test Task' }
+    const exitCode = await executor.executeTask(task, 'Test prompt', `${tempDir}/test.log`, 60, { preferredModel: 'haiku' })
+
+    expect(exitCode).toBe(0)
+    expect(models).toEqual(['haiku'])
+  })
+
+  test('should wait on the rate limiter and report provider limits to it', async () => {
+    const calls: string[] = []
+    const rateLimiter = {
+      acquire: mock(async (request: { provider: string; model: string }) => {
+        calls.push('acquire')
+        return { key: `${request.provider}/${request.model}`, waitedMs: 0 }
+      }),
+      recordUsage: mock(async () => {}),
+      reportLimited: mock(async () => {}),
+    }
+    const executor = new CliExecutor(
+      {
+        cliPaths: { claude: '/usr/bin/claude' },
+        models: [{ name: 'sonnet', cli: 'claude', model: 'sonnet' }],
+        fallbackModels: [],
+        retry: { rateLimitWaitMs: 1, baseDelayMs: 1, delayBetweenModelAttemptsMs: 1, maxRetriesPerModel: 1 },
+      } as any,
+      mockProcessManager,
+      mockPluginRegistry,
+      mockLogger,
+      { rateLimiter }
+    )
+
+    mockProcessManager.spawn = mock(() => {
+      calls.push('spawn')
+      const proc = new MockProcess()
+      setTimeout(() => {
+        proc.stdout.push('Error: 429 Too Many Requests. Retry after 30s\n')
+        proc.emit('close', 1)
+      }, 5)
+      return proc
+    })
+
+    await expect(executor.execute('Test prompt', `${tempDir}/test.log`, 60, { taskId: 'TASK-002' })).rejects.toThrow()
+
+    expect(calls.slice(0, 2)).toEqual(['acquire', 'spawn'])
+    expect(rateLimiter.acquire.mock.calls[0][0]).toEqual({ provider: 'claude', model: 'sonnet', estimatedTokens: 3 })
+    expect(rateLimiter.reportLimited).toHaveBeenCalledWith(
+      { provider: 'claude', model: 'sonnet', estimatedTokens: 3 },
+      'rate-limit',
+      30000
+    )
+  })
+
+  test('should report tool calls, file edits and usage from the agent event stream', async () => {
+    const executor = new CliExecutor(
+      {
+        cliPaths: { claude: '/usr/bin/claude' },
+        models: [{ name: 'sonnet', cli: 'claude', model: 'sonnet' }],
+        fallbackModels: [],
+      } as any,
+      mockProcessManager,
+      mockPluginRegistry,
+      mockLogger
+    )
+
+    mockProcessManager.spawn = mock(() => {
+      const proc = new MockProcess()
+      setTimeout(() => {
+        proc.stdout.push([
+          JSON.stringify({ type: 'system', subtype: 'init' }),
+          JSON.stringify({ type: 'assistant', message: { content: [
+            { type: 'text', text: 'Updating the config' },
+            { type: 'tool_use', id: 'toolu_1', name: 'Write', input: { file_path: 'config.ts', content: 'x' } },
+          ] } }),
+          JSON.stringify({ type: 'user', message: { content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'ok' }] } }),
+          JSON.stringify({ type: 'result', is_error: false, usage: { input_tokens: 1500, output_tokens: 200 } }),
+          '',
+        ].join('\n'))
+        setTimeout(() => proc.emit('close', 0), 5)
+      }, 5)
+      return proc
+    })
+
+    const exitCode = await executor.execute('Test prompt', `${tempDir}/test.log`, 60, { taskId: 'TASK-005' })
+
+    expect(exitCode).toBe(0)
+    expect((mockProcessManager.spawn as any).mock.calls[0][1]).toEqual(['--print', '--output-format', 'stream-json', '--verbose'])
+
+    const calls = (mockPluginRegistry.runHook as any).mock.calls as [string, any][]
+    const toolCalls = calls.filter(([hook]) => hook === 'onToolCall').map(([, event]) => event)
+    expect(toolCalls).toHaveLength(1)
+    expect(toolCalls[0]).toMatchObject({ toolName: 'Write', arguments: { file_path: 'config.ts' }, taskId: 'TASK-005' })
+    expect(calls.some(([hook, event]) => hook === 'onStep' && event.stepId === 'agent_file_edit' && event.context.path === 'config.ts')).toBe(true)
+    expect(calls.some(([hook, event]) => hook === 'onAgentResponse' && event.responseText === 'Updating the config')).toBe(true)
+    expect(calls.find(([hook]) => hook === 'onCliResult')?.[1].usage).toEqual({
+      inputTokens: 1500,
+      outputTokens: 200,
+      cacheReadTokens: undefined,
+      cacheWriteTokens: undefined,
+      costUsd: undefined,
+    })
+
+    const output = fs.readFileSync(`${tempDir}/test.log`, 'utf-8')
+    expect(output).toBe('Updating the config\nTool Call: Write config.ts\nTokens: 1500 input, 200 output\n')
+  })
+
+  test('should not report the CLI itself as a tool call', async () => {
+    const executor = new CliExecutor(
+      {
+        cliPaths: { claude: '/usr/bin/claude' },
+        models: [{ name: 'sonnet', cli: 'claude', model: 'sonnet' }],
+        fallbackModels: [],
+      } as any,
+      mockProcessManager,
+      mockPluginRegistry,
+      mockLogger
+    )
+
+    mockProcessManager.spawn = mock(() => {
+      const proc = new MockProcess()
+      setTimeout(() => {
+        proc.stdout.push(JSON.stringify({ type: 'result', is_error: false }) + '\n')
+        setTimeout(() => proc.emit('close', 0), 5)
+      }, 5)
+      return proc
+    })
+
+    await executor.execute('Test prompt', `${tempDir}/test.log`, 60, { taskId: 'TASK-006' })
+
+    const calls = (mockPluginRegistry.runHook as any).mock.calls as [string, any][]
+    expect(calls.filter(([hook]) => hook === 'onToolCall')).toEqual([])
+    expect(calls.some(([hook, event]) => hook === 'onStep' && event.stepId === 'cli_spawn_start')).toBe(true)
+  })
+
+  test('should charge the rate limiter with the usage the agent reported', async () => {
+    const rateLimiter = {
+      acquire: mock(async () => ({ key: 'claude/sonnet', waitedMs: 0 })),
+      recordUsage: mock(async () => {}),
+      reportLimited: mock(async () => {}),
+    }
+    const executor = new CliExecutor(
+      {
+        cliPaths: { claude: '/usr/bin/claude' },
+        models: [{ name: 'sonnet', cli: 'claude', model: 'sonnet' }],
+        fallbackModels: [],
+      } as any,
+      mockProcessManager,
+      mockPluginRegistry,
+      mockLogger,
+      { rateLimiter }
+    )
+
+    mockProcessManager.spawn = mock(() => {
+      const proc = new MockProcess()
+      setTimeout(() => {
+        proc.stdout.push(JSON.stringify({ type: 'result', is_error: false, usage: { input_tokens: 1500, output_tokens: 200 } }) + '\n')
+        setTimeout(() => proc.emit('close', 0), 5)
+      }, 5)
+      return proc
+    })
+
+    await executor.execute('Test prompt', `${tempDir}/test.log`, 60, { taskId: 'TASK-006' })
+
+    // 'Test prompt' was charged up front as 3 tokens
+    expect(rateLimiter.recordUsage).toHaveBeenCalledWith({ provider: 'claude', model: 'sonnet', estimatedTokens: 3 }, 1697)
+  })
+
+  test('should run a custom CLI declared in config', async () => {
+    const executor = new CliExecutor(
+      {
+        customClis: [{
+          name: 'agent',
+          command: '/bin/sh',
+          args: ['run', '{prompt}'],
+          prompt: 'arg',
+          modelFlag: '--model',
+          usagePatterns: { input: '(\\d+) sent', output: '(\\d+) received' },
+        }],
+        models: [{ name: 'agent-fast', cli: 'agent', model: 'fast-1' }],
+        fallbackModels: [],
+      } as any,
+      mockProcessManager,
+      mockPluginRegistry,
+      mockLogger
+    )
+
+    mockProcessManager.spawn = mock(() => {
+      const proc = new MockProcess()
+      setTimeout(() => {
+        proc.stdout.push('Working\nTokens: 10 sent, 2 received\n')
+        setTimeout(() => proc.emit('close', 0), 5)
+      }, 5)
+      return proc
+    })
+
+    const exitCode = await executor.execute('Test prompt', `${tempDir}/test.log`, 60, { taskId: 'TASK-006' })
+
+    expect(exitCode).toBe(0)
+    expect(executor.getNextModel()).toMatchObject({ cli: 'agent', displayName: 'agent/agent-fast' })
+    const [command, args] = (mockProcessManager.spawn as any).mock.calls[0]
+    expect(command).toBe('/bin/sh')
+    expect(args).toEqual(['run', 'Test prompt', '--model', 'fast-1'])
+
+    const calls = (mockPluginRegistry.runHook as any).mock.calls as [string, any][]
+    expect(calls.find(([hook]) => hook === 'onCliResult')?.[1].usage).toMatchObject({ inputTokens: 10, outputTokens: 2 })
+    expect(fs.readFileSync(`${tempDir}/test.log`, 'utf-8')).toBe('Working\nTokens: 10 sent, 2 received\nTokens: 10 input, 2 output\n')
+  })
+
+  test('should record task outcomes for the adaptive strategy', async () => {
+    const router = {
+      choose: mock((models: any[]) => models[0]),
+      rank: mock((models: any[]) => models),
+      record: mock(() => {}),
+      getStats: () => ({}),
+    }
+    const executor = new CliExecutor(
+      {
+        customClis: [{ name: 'agent', command: '/bin/sh', prompt: 'arg' }],
+        models: [{ name: 'agent-fast', cli: 'agent', model: 'fast-1' }],
+        fallbackModels: [],
+        selectionStrategy: 'adaptive',
+      } as any,
+      mockProcessManager,
+      mockPluginRegistry,
+      mockLogger,
+      { modelRouter: router }
+    )
+
+    mockProcessManager.spawn = mock(() => {
+      const proc = new MockProcess()
+      setTimeout(() => {
+        proc.stdout.push('Done\n')
+        setTimeout(() => proc.emit('close', 0), 5)
+      }, 5)
+      return proc
+    })
+
+    const task = { id: 'TASK-008', title: 'Add tests for the parser', description: 'Cover edge cases', feature: 'parser', priority: 'high' }
+    const exitCode = await executor.executeTask(task, 'Test prompt', `${tempDir}/test.log`, 60)
+
+    expect(exitCode).toBe(0)
+    const features = { feature: 'parser', priority: 'high', category: 'testing', size: 'small' }
+    expect(router.choose).toHaveBeenCalledWith([expect.objectContaining({ name: 'agent-fast' })], features)
+    expect(router.record).toHaveBeenCalledWith(expect.objectContaining({ model: 'agent-fast', features, success: true, retries: 0 }))
+  })
+
+  describe('session resume', () => {
+    function createCheckpoints(initial?: { phase: string; state?: Record<string, unknown>; partialOutput?: string }) {
+      const saved: { agentId: string; phase?: string; state?: Record<string, unknown> }[] = []
+      return {
+        saved,
+        checkpoint: mock(async (agentId: string, state: { phase?: string; state?: Record<string, unknown> }) => {
+          saved.push({ agentId, ...state })
+        }),
+        restore: mock(async () => initial
+          ? {
+              checkpoint: { taskId: 'TASK-007', agentName: 'cli-executor', iteration: 1, phase: initial.phase, state: initial.state },
+              partialOutput: initial.partialOutput ?? '',
+            }
+          : null),
+      }
+    }
+
+    function spawnRecorder(runs: { output: string; exitCode: number }[]) {
+      const spawns: { args: string[]; input: string }[] = []
+      mockProcessManager.spawn = mock((_command: string, args: string[]) => {
+        const run = runs[Math.min(spawns.length, runs.length - 1)]
+        const spawn = { args, input: '' }
+        spawns.push(spawn)
+        const proc = new MockProcess()
+        proc.stdin = new Writable({
+          write(chunk, _encoding, callback) {
+            spawn.input += chunk.toString()
+            callback()
+          },
+        })
+        setTimeout(() => {
+          proc.stdout.push(run.output)
+          setTimeout(() => proc.emit('close', run.exitCode), 5)
+        }, 5)
+        return proc
+      }) as any
+      return spawns
+    }
+
+    function createExecutor(checkpointIntegrator: ReturnType<typeof createCheckpoints>) {
+      return new CliExecutor(
+        {
+          cliPaths: { claude: '/usr/bin/claude' },
+          models: [{ name: 'sonnet', cli: 'claude', model: 'sonnet' }],
+          fallbackModels: [],
+          retry: { baseDelayMs: 1, delayBetweenModelAttemptsMs: 1, maxRetriesPerModel: 2, retrySameModel: true },
+        } as any,
+        mockProcessManager,
+        mockPluginRegistry,
+        mockLogger,
+        { checkpointIntegrator }
+      )
+    }
+
+    const claudeInit = `${JSON.stringify({ type: 'system', subtype: 'init', session_id: 'sess-1' })}\n`
+
+    test('should resume the agent session after an interrupted attempt', async () => {
+      const checkpoints = createCheckpoints()
+      const spawns = spawnRecorder([
+        { output: claudeInit, exitCode: 1 },
+        { output: `${claudeInit}${JSON.stringify({ type: 'result', is_error: false, usage: { input_tokens: 1, output_tokens: 1 } })}\n`, exitCode: 0 },
+      ])
+
+      const exitCode = await createExecutor(checkpoints).execute('Build the feature', `${tempDir}/test.log`, 60, { taskId: 'TASK-007' })
+
+      expect(exitCode).toBe(0)
+      expect(spawns[0].args).not.toContain('--resume')
+      expect(spawns[0].input).toBe('Build the feature')
+      expect(spawns[1].args).toEqual(['--resume', 'sess-1', '--print', '--output-format', 'stream-json', '--verbose'])
+      expect(spawns[1].input).toContain('Continue from where you left off')
+      expect(spawns[1].input).not.toContain('Build the feature')
+
+      const interrupted = checkpoints.saved.find(c => c.phase === 'interrupted')
+      expect(interrupted).toMatchObject({ agentId: 'cli-TASK-007', state: { sessionId: 'sess-1', sessionCli: 'claude', reason: 'CLI exited with code 1' } })
+      expect(checkpoints.saved.at(-1)?.phase).toBe('completed')
+    })
+
+    test('should resume a session left by an earlier run of the task', async () => {
+      const checkpoints = createCheckpoints({ phase: 'executing', state: { sessionId: 'sess-0', sessionCli: 'claude' } })
+      const spawns = spawnRecorder([{ output: claudeInit, exitCode: 0 }])
+
+      await createExecutor(checkpoints).execute('Build the feature', `${tempDir}/test.log`, 60, { taskId: 'TASK-007' })
+
+      expect(checkpoints.restore).toHaveBeenCalledWith('cli-TASK-007')
+      expect(spawns[0].args.slice(0, 2)).toEqual(['--resume', 'sess-0'])
+      expect(spawns[0].input).toContain('Continue from where you left off')
+    })
+
+    test('should send a summary of the partial output when the session cannot be resumed', async () => {
+      const checkpoints = createCheckpoints({
+        phase: 'interrupted',
+        state: { sessionId: 'ses_1', sessionCli: 'opencode', reason: 'Execution timed out after 600s' },
+        partialOutput: 'Tool Call: Edit src/app.ts\nHalfway through the refactor\n',
+      })
+      const spawns = spawnRecorder([{ output: 'done\n', exitCode: 0 }])
+
+      await createExecutor(checkpoints).execute('Build the feature', `${tempDir}/test.log`, 60, { taskId: 'TASK-007' })
+
+      expect(spawns[0].args).not.toContain('--resume')
+      expect(spawns[0].input).toStartWith('Build the feature\n\n# Previous Attempt')
+      expect(spawns[0].input).toContain('interrupted (Execution timed out after 600s)')
+      expect(spawns[0].input).toContain('- Edit src/app.ts')
+      expect(spawns[0].input).toContain('Halfway through the refactor')
+    })
+
+    test('should keep the checkpoints of concurrent tasks apart', async () => {
+      const checkpoints = createCheckpoints()
+      mockProcessManager.spawn = mock(() => {
+        const proc = new MockProcess()
+        let input = ''
+        proc.stdin = new Writable({
+          write(chunk, _encoding, callback) {
+            input += chunk.toString()
+            callback()
+          },
+        })
+        // The first task's session starts first and its run ends last, so both are in flight together
+        const [sessionAt, closeAt] = input.includes('Task A') ? [5, 30] : [10, 15]
+        setTimeout(() => {
+          const sessionId = input.includes('Task A') ? 'sess-a' : 'sess-b'
+          proc.stdout.push(`${JSON.stringify({ type: 'system', subtype: 'init', session_id: sessionId })}\n`)
+          setTimeout(() => proc.emit('close', 0), closeAt)
+        }, sessionAt)
+        return proc
+      }) as any
+      const executor = createExecutor(checkpoints)
+
+      await Promise.all([
+        executor.execute('Task A', `${tempDir}/a.log`, 60, { taskId: 'TASK-A' }),
+        executor.execute('Task B', `${tempDir}/b.log`, 60, { taskId: 'TASK-B' }),
+      ])
+
+      for (const [taskId, sessionId] of [['TASK-A', 'sess-a'], ['TASK-B', 'sess-b']]) {
+        const saved = checkpoints.saved.filter(c => c.agentId === `cli-${taskId}`) as { taskId?: string; phase?: string; state?: Record<string, unknown> }[]
+        expect(saved.every(c => c.taskId === taskId)).toBe(true)
+        expect(saved.filter(c => c.state?.sessionId).map(c => c.state?.sessionId)).toContain(sessionId)
+        expect(saved.every(c => !c.state?.sessionId || c.state.sessionId === sessionId)).toBe(true)
+        expect(saved.at(-1)?.phase).toBe('completed')
+      }
+    })
+
+    test('should start over when the last run completed', async () => {
+      const checkpoints = createCheckpoints({ phase: 'completed', state: { sessionId: 'sess-0', sessionCli: 'claude' } })
+      const spawns = spawnRecorder([{ output: 'done\n', exitCode: 0 }])
+
+      await createExecutor(checkpoints).execute('Build the feature', `${tempDir}/test.log`, 60, { taskId: 'TASK-007' })
+
+      expect(spawns[0].args).not.toContain('--resume')
+      expect(spawns[0].input).toBe('Build the feature')
+    })
+  })
+
+  test('should fall back to text output when the CLI rejects the event stream flags', async () => {
+    const executor = new CliExecutor(
+      {
+        cliPaths: { claude: '/usr/bin/claude' },
+        models: [{ name: 'sonnet', cli: 'claude', model: 'sonnet' }],
+        fallbackModels: [],
+        retry: { baseDelayMs: 1, delayBetweenModelAttemptsMs: 1, maxRetriesPerModel: 2, retrySameModel: true },
+      } as any,
+      mockProcessManager,
+      mockPluginRegistry,
+      mockLogger
+    )
+
+    let spawnCount = 0
+    mockProcessManager.spawn = mock(() => {
+      const proc = new MockProcess()
+      const first = spawnCount++ === 0
+      setTimeout(() => {
+        proc.stdout.push(first ? 'error: unknown option \'--output-format\'\n' : 'All done\n')
+        setTimeout(() => proc.emit('close', first ? 1 : 0), 5)
+      }, 5)
+      return proc
+    })
+
+    const exitCode = await executor.execute('Test prompt', `${tempDir}/test.log`, 60, { taskId: 'TASK-006' })
+
+    expect(exitCode).toBe(0)
+    const spawnArgs = (mockProcessManager.spawn as any).mock.calls.map((call: any[]) => call[1])
+    expect(spawnArgs).toEqual([['--print', '--output-format', 'stream-json', '--verbose'], []])
+    expect(fs.readFileSync(`${tempDir}/test.log`, 'utf-8')).toBe('All done\n')
+  })
+
   test('should handle model pool exhaustion (all models fail)', async () => {
     const executor = new CliExecutor(
       { cliPaths: { opencode: '/usr/bin/opencode', claude: '/usr/bin/claude' } } as any,
@@ -0,0 +1,48 @@
+import { describe, test, expect } from 'bun:test'
+import { buildResumePrompt, summarizePartialOutput } from '../src/session-resume'
+
+describe('summarizePartialOutput', () => {
+  test('lists the tools used and keeps the last lines of output', () => {
+    const output = [
+      'Reading the code',
+      'Tool Call: Read src/a.ts',
+      'Tool Call: Edit src/a.ts',
+      'Tool Call: Read src/a.ts',
+      ...Array.from({ length: 50 }, (_, i) => `line ${i}`),
+      'Tokens: 10 input, 5 output',
+    ].join('\n')
+
+    const summary = summarizePartialOutput(output)
+
+    expect(summary).toStartWith('Tools used so far:\n- Read src/a.ts\n- Edit src/a.ts\n\nLast output:')
+    expect(summary).toContain('line 49')
+    expect(summary).not.toContain('line 9\n')
+    expect(summary).not.toContain('Tokens:')
+  })
+
+  test('is empty for empty output', () => {
+    expect(summarizePartialOutput('\n\n')).toBe('')
+  })
+})
+
+describe('buildResumePrompt', () => {
+  const point = { partialOutput: 'Halfway there', reason: 'Execution timed out after 600s' }
+
+  test('asks a resumed session to carry on', () => {
+    const prompt = buildResumePrompt('Do the task', point, true)
+
+    expect(prompt).toStartWith('Your previous run on this task was interrupted (Execution timed out after 600s).')
+    expect(prompt).not.toContain('Do the task')
+  })
+
+  test('resends the task with a summary otherwise', () => {
+    const prompt = buildResumePrompt('Do the task', point, false)
+
+    expect(prompt).toStartWith('Do the task\n\n# Previous Attempt\n\n')
+    expect(prompt).toContain('Halfway there')
+  })
+
+  test('leaves the prompt alone when there is nothing to summarize', () => {
+    expect(buildResumePrompt('Do the task', { partialOutput: '' }, false)).toBe('Do the task')
+  })
+})
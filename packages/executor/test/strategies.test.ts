@@ -6,7 +6,9 @@ import { DroidStrategy } from '../src/strategies/droid-strategy'
 import { CrushStrategy } from '../src/strategies/crush-strategy'
 import { KimiStrategy } from '../src/strategies/kimi-strategy'
 import { KilocodeStrategy } from '../src/strategies/kilocode-strategy'
+import { CustomCliStrategy } from '../src/strategies/custom-strategy'
 import { CliStrategyRegistry, createDefaultRegistry } from '../src/strategies/registry'
+import fs from 'fs'
 import type { ICliStrategyContext, ModelConfig } from '@loopwork-ai/contracts'
 
 describe('ClaudeStrategy', () => {
@@ -42,6 +44,29 @@ describe('ClaudeStrategy', () => {
     expect(result.args).toEqual(['--verbose'])
   })
 
+  test('prepare asks for stream-json when an event stream is requested', () => {
+    const context: ICliStrategyContext = {
+      modelConfig: { name: 'claude', cli: 'claude', model: 'sonnet', args: ['-p'] },
+      prompt: 'test',
+      env: {},
+      eventStream: true,
+    }
+
+    expect(strategy.prepare(context).args).toEqual(['-p', '--output-format', 'stream-json', '--verbose'])
+    expect(strategy.createEventParser().parseLine('plain text')).toBeNull()
+  })
+
+  test('prepare keeps an output format chosen in modelConfig.args', () => {
+    const context: ICliStrategyContext = {
+      modelConfig: { name: 'claude', cli: 'claude', model: 'sonnet', args: ['--output-format', 'text'] },
+      prompt: 'test',
+      env: {},
+      eventStream: true,
+    }
+
+    expect(strategy.prepare(context).args).toEqual(['--output-format', 'text'])
+  })
+
   test('prepare uses displayName if provided', () => {
     const context: ICliStrategyContext = {
       modelConfig: { name: 'claude-sonnet', displayName: 'Sonnet', cli: 'claude', model: 'sonnet' },
@@ -195,6 +220,16 @@ describe('createDefaultRegistry', () => {
     expect(registry.get('kimi').cliType).toBe('kimi')
     expect(registry.get('kilocode').cliType).toBe('kilocode')
   })
+
+  test('registers custom CLIs', () => {
+    const registry = createDefaultRegistry(undefined, [{ name: 'aider', command: 'aider' }])
+
+    expect(registry.get('aider')).toBeInstanceOf(CustomCliStrategy)
+  })
+
+  test('rejects a custom CLI named after a built-in one', () => {
+    expect(() => createDefaultRegistry(undefined, [{ name: 'claude', command: 'my-claude' }])).toThrow('built-in CLI')
+  })
 })
 
 describe('DroidStrategy', () => {
@@ -360,3 +395,84 @@ describe('KilocodeStrategy', () => {
     expect(patterns.some(p => p.test('Free Tier Rate Limit Exceeded'))).toBe(true)
   })
 })
+
+describe('CustomCliStrategy', () => {
+  const context = (modelConfig: Partial<ModelConfig> = {}): ICliStrategyContext => ({
+    modelConfig: { name: 'agent-fast', cli: 'agent', model: 'fast-1', ...modelConfig },
+    prompt: 'test prompt',
+    env: { HOME: '/home/user' },
+  })
+
+  test('fills the argument template and writes the prompt to stdin by default', () => {
+    const strategy = new CustomCliStrategy({ name: 'agent', command: 'agent', args: ['exec', '--model={model}'] })
+
+    const result = strategy.prepare(context({ args: ['--quiet'] }))
+
+    expect(strategy.cliType).toBe('agent')
+    expect(result.args).toEqual(['exec', '--model=fast-1', '--quiet'])
+    expect(result.stdinInput).toBe('test prompt')
+    expect(result.displayName).toBe('agent/agent-fast')
+  })
+
+  test('passes the model flag and the prompt as an argument', () => {
+    const strategy = new CustomCliStrategy({ name: 'agent', command: 'agent', args: ['run'], modelFlag: '-m', prompt: 'arg' })
+
+    const result = strategy.prepare(context())
+
+    expect(result.args).toEqual(['run', '-m', 'fast-1', 'test prompt'])
+    expect(result.stdinInput).toBeUndefined()
+  })
+
+  test('writes the prompt to a file that is removed on cleanup', () => {
+    const strategy = new CustomCliStrategy({ name: 'agent', command: 'agent', args: ['--message-file', '{promptFile}'], prompt: 'file' })
+
+    const result = strategy.prepare(context())
+    const promptFile = result.args[1]
+
+    expect(result.args).toHaveLength(2)
+    expect(fs.readFileSync(promptFile, 'utf-8')).toBe('test prompt')
+    result.cleanup?.()
+    expect(fs.existsSync(promptFile)).toBe(false)
+  })
+
+  test('layers its env between the base env and the model env', () => {
+    const strategy = new CustomCliStrategy({ name: 'agent', command: 'agent', env: { AGENT_MODE: 'auto', AGENT_KEY: 'cli' } })
+
+    const result = strategy.prepare(context({ env: { AGENT_KEY: 'model' } }))
+
+    expect(result.env).toEqual({ HOME: '/home/user', AGENT_MODE: 'auto', AGENT_KEY: 'model' })
+  })
+
+  test('adds event stream and resume arguments', () => {
+    const strategy = new CustomCliStrategy({
+      name: 'agent',
+      command: 'agent',
+      eventStream: { format: 'claude-stream-json', args: ['--json'], resumeArgs: ['--continue', '{sessionId}'] },
+    })
+
+    expect(strategy.prepare(context()).args).toEqual([])
+    expect(strategy.prepare({ ...context(), eventStream: true, resumeSessionId: 's-1' }).args).toEqual(['--continue', 's-1', '--json'])
+  })
+
+  test('only reports sessions it can resume', () => {
+    const line = JSON.stringify({ type: 'system', subtype: 'init', session_id: 's-1' })
+    const resumable = new CustomCliStrategy({ name: 'a', command: 'a', eventStream: { format: 'claude-stream-json', args: [], resumeArgs: ['-r', '{sessionId}'] } })
+    const plain = new CustomCliStrategy({ name: 'b', command: 'b', eventStream: { format: 'claude-stream-json', args: [] } })
+
+    expect(resumable.createEventParser!().parseLine(line)).toEqual([{ type: 'session', sessionId: 's-1' }])
+    expect(plain.createEventParser!().parseLine(line)).toEqual([])
+  })
+
+  test('has no event parser without an event stream or usage patterns', () => {
+    expect(new CustomCliStrategy({ name: 'agent', command: 'agent' }).createEventParser).toBeUndefined()
+    expect(new CustomCliStrategy({ name: 'agent', command: 'agent', usagePatterns: { input: '(\\d+) in' } }).createEventParser).toBeDefined()
+  })
+
+  test('compiles configured rate limit and quota patterns', () => {
+    const strategy = new CustomCliStrategy({ name: 'agent', command: 'agent', rateLimitPatterns: ['slow down'], quotaPatterns: [/credits exhausted/] })
+
+    expect(strategy.getRateLimitPatterns().some(p => p.test('Please SLOW DOWN'))).toBe(true)
+    expect(strategy.getQuotaExceededPatterns().some(p => p.test('credits exhausted'))).toBe(true)
+    expect(new CustomCliStrategy({ name: 'agent', command: 'agent' }).getRateLimitPatterns().some(p => p.test('429'))).toBe(true)
+  })
+})
@@ -0,0 +1,246 @@
+/**
+ * Approval Broker
+ *
+ * Routes approval requests to wherever a human can answer them. Requests are
+ * kept in the shared approval store, so a decision made from the CLI,
+ * Telegram or the dashboard reaches the waiting loop no matter which process
+ * made it.
+ */
+
+import path from 'path'
+import type { Approval, ConfirmationRequest, ConfirmationResult, TaskBackend } from '@loopwork-ai/loopwork/contracts'
+import { ApprovalStore } from '@loopwork-ai/loopwork/approvals'
+import { logger } from '@loopwork-ai/common'
+import { AuditLogManager, createApprovalAuditEvent } from './audit-logging'
+
+/**
+ * Somewhere pending approvals are announced, e.g. a chat bot
+ */
+export interface ApprovalChannel {
+  name: string
+  /** Announce a new request */
+  notify(approval: Approval): void | Promise<void>
+  /** Remind about a request nobody has answered */
+  escalate?(approval: Approval): void | Promise<void>
+  /** Report how a request was decided */
+  resolved?(approval: Approval): void | Promise<void>
+}
+
+export interface ApprovalBrokerOptions {
+  /** Where to announce requests; the CLI always works */
+  channels?: ApprovalChannel[]
+  /** Channels for escalations (default: all channels) */
+  escalationChannels?: ApprovalChannel[]
+  store?: ApprovalStore
+  /** Expire undecided requests after this long; 0 waits forever (default: 24h) */
+  expireAfterMs?: number
+  /** Escalate undecided requests after this long (default: never) */
+  escalateAfterMs?: number
+  /** How often to check for a decision (default: 2000) */
+  pollIntervalMs?: number
+  /** Where decisions are audited, relative to the project root; false disables auditing (default: .loopwork/audit/) */
+  auditDir?: string | false
+  /**
+   * Project whose .loopwork directory holds requests and audit logs
+   * (default: cwd; the governance plugin sets it from the loop config)
+   */
+  projectRoot?: string
+}
+
+export interface ApprovalResult extends ConfirmationResult {
+  approval: Approval
+}
+
+const AUDIT_SESSION = 'approvals'
+const DEFAULT_AUDIT_DIR = '.loopwork/audit/'
+
+export class ApprovalBroker {
+  private approvalStore: ApprovalStore
+  private customStore: boolean
+  private channels: ApprovalChannel[]
+  private escalationChannels: ApprovalChannel[]
+  private expireAfterMs: number
+  private escalateAfterMs?: number
+  private pollIntervalMs: number
+  private projectRoot: string
+  private auditDir: string | false
+  private audit?: AuditLogManager
+
+  constructor(options: ApprovalBrokerOptions = {}) {
+    this.projectRoot = options.projectRoot ?? process.cwd()
+    this.customStore = !!options.store
+    this.approvalStore = options.store ?? new ApprovalStore({ projectRoot: this.projectRoot })
+    this.channels = options.channels ?? []
+    this.escalationChannels = options.escalationChannels ?? this.channels
+    this.expireAfterMs = options.expireAfterMs ?? 24 * 60 * 60 * 1000
+    this.escalateAfterMs = options.escalateAfterMs
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000
+    this.auditDir = options.auditDir ?? DEFAULT_AUDIT_DIR
+  }
+
+  get store(): ApprovalStore {
+    return this.approvalStore
+  }
+
+  /**
+   * Keep requests and audit logs under the given project, unless a store was
+   * passed in. Called by the governance plugin once the config is loaded.
+   */
+  useProjectRoot(projectRoot: string): void {
+    this.projectRoot = projectRoot
+    this.audit = undefined
+    if (!this.customStore) {
+      this.approvalStore = new ApprovalStore({ projectRoot })
+    }
+  }
+
+  /**
+   * Record a request and announce it. A request left open for the same task,
+   * e.g. by a loop that was restarted, is picked up again instead.
+   */
+  async open(request: ConfirmationRequest & { namespace: string }): Promise<Approval> {
+    const existing = this.store
+      .list({ taskId: request.taskId, namespace: request.namespace })
+      .find(approval => !approval.settledAt)
+
+    if (existing) {
+      logger.info(`Task ${request.taskId} is still waiting for approval ${existing.id}`)
+      return this.store.update(existing.id, { pid: process.pid })
+    }
+
+    const approval = this.store.create({
+      taskId: request.taskId,
+      title: request.title,
+      namespace: request.namespace,
+      riskLevel: request.riskLevel,
+      reasons: request.reasons,
+      expiresAt: this.expireAfterMs > 0 ? new Date(Date.now() + this.expireAfterMs).toISOString() : undefined,
+      pid: process.pid,
+    })
+
+    this.record(approval, 'requested')
+    await this.broadcast(this.channels, 'notify', approval)
+    logger.info(`Task ${approval.taskId} is waiting for approval: loopwork approvals approve ${approval.id}`)
+    return approval
+  }
+
+  /**
+   * Wait until the request is decided or expires
+   */
+  async wait(approval: Approval): Promise<ApprovalResult> {
+    let current = approval
+
+    while (current.status === 'pending') {
+      const now = Date.now()
+
+      if (current.expiresAt && now >= Date.parse(current.expiresAt)) {
+        current = this.expire(current)
+        break
+      }
+
+      if (
+        this.escalateAfterMs !== undefined &&
+        !current.escalatedAt &&
+        now - Date.parse(current.requestedAt) >= this.escalateAfterMs
+      ) {
+        current = this.store.update(current.id, { escalatedAt: new Date().toISOString() })
+        this.record(current, 'escalated')
+        await this.broadcast(this.escalationChannels, 'escalate', current)
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs))
+      const latest = this.store.get(current.id)
+      if (!latest) {
+        logger.warn(`Approval ${current.id} was removed before it was decided`)
+        return { confirmed: false, timedOut: false, nonInteractive: false, approval: current }
+      }
+      current = latest
+    }
+
+    this.record(current, 'decided')
+    await this.broadcast(this.channels, 'resolved', current)
+    current = this.store.update(current.id, { settledAt: new Date().toISOString() })
+
+    return {
+      confirmed: current.status === 'approved',
+      timedOut: current.status === 'expired',
+      nonInteractive: false,
+      approval: current,
+    }
+  }
+
+  /**
+   * Ask for approval and wait for the answer
+   */
+  async request(request: ConfirmationRequest & { namespace: string }): Promise<ApprovalResult> {
+    return this.wait(await this.open(request))
+  }
+
+  /**
+   * Return tasks to pending whose waiting process has died, so a restarted
+   * loop claims them again and picks up their open requests.
+   *
+   * @returns IDs of the tasks that were reset
+   */
+  async recover(backend: TaskBackend, namespace?: string): Promise<string[]> {
+    const orphaned = this.store
+      .list({ namespace })
+      .filter(approval => !approval.settledAt && !isAlive(approval.pid))
+
+    const reset: string[] = []
+    for (const approval of orphaned) {
+      const task = await backend.getTask(approval.taskId)
+      if (task?.status !== 'blocked') continue
+
+      const result = await backend.resetToPending(approval.taskId)
+      if (result.success) {
+        reset.push(approval.taskId)
+        logger.info(`Task ${approval.taskId} returned to pending; approval ${approval.id} is still open`)
+      }
+    }
+    return reset
+  }
+
+  private expire(approval: Approval): Approval {
+    try {
+      return this.store.decide(approval.id, { status: 'expired', decidedBy: 'system', channel: 'expiry' })
+    } catch (error) {
+      // Decided just before it expired
+      if ((error as { code?: string }).code === 'ERR_APPROVAL_DECIDED') {
+        return this.store.get(approval.id)!
+      }
+      throw error
+    }
+  }
+
+  private record(approval: Approval, action: 'requested' | 'escalated' | 'decided'): void {
+    if (this.auditDir === false) return
+    // Created on first use, once the project root is known
+    this.audit ??= new AuditLogManager(path.resolve(this.projectRoot, this.auditDir))
+    this.audit.writeEvent(createApprovalAuditEvent(approval, action), AUDIT_SESSION)
+  }
+
+  private async broadcast(
+    channels: ApprovalChannel[],
+    method: 'notify' | 'escalate' | 'resolved',
+    approval: Approval
+  ): Promise<void> {
+    for (const channel of channels) {
+      try {
+        await channel[method]?.(approval)
+      } catch (error) {
+        logger.warn(`Approval channel ${channel.name} failed to ${method}: ${error}`)
+      }
+    }
+  }
+}
+
+function isAlive(pid?: number): boolean {
+  if (!pid) return false
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
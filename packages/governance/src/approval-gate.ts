@@ -1,26 +1,35 @@
 import type { ConfirmationRequest, ConfirmationResult } from '@loopwork-ai/loopwork/contracts'
 import { logger } from '@loopwork-ai/common'
 import * as readline from 'readline'
+import type { ApprovalBroker } from './approval-broker'
 
 export interface ApprovalOptions {
   timeout?: number
   autoApproveNonInteractive?: boolean
+  /** Route requests through the CLI, Telegram and dashboard instead of asking here */
+  broker?: ApprovalBroker
 }
 
 export class ApprovalGate {
   private timeout: number
   private autoApproveNonInteractive: boolean
+  readonly broker?: ApprovalBroker
 
   constructor(options: ApprovalOptions = {}) {
     this.timeout = options.timeout ?? 60000
     this.autoApproveNonInteractive = options.autoApproveNonInteractive ?? true
+    this.broker = options.broker
   }
 
-  async askApproval(request: ConfirmationRequest): Promise<ConfirmationResult> {
+  async askApproval(request: ConfirmationRequest, namespace = 'default'): Promise<ConfirmationResult> {
     const { taskId, riskLevel, timeout = this.timeout } = request
 
     logger.debug(`Approval requested for task ${taskId} (Risk: ${riskLevel})`)
 
+    if (this.broker) {
+      return this.broker.request({ ...request, namespace })
+    }
+
     if (this.isNonInteractive()) {
       if (this.autoApproveNonInteractive) {
         logger.info(`HITL: Non-interactive mode, auto-approving task ${taskId}`)
@@ -6,7 +6,7 @@
  */
 
 import type { LoopworkPlugin, TaskContext, PluginTaskResult, LoopStats, StepEvent, ToolCallEvent, AgentResponseEvent, ConfigWrapper } from '@loopwork-ai/loopwork/contracts'
-import type { Task } from '@loopwork-ai/loopwork/contracts'
+import type { Task, Approval } from '@loopwork-ai/loopwork/contracts'
 import { logger } from '@loopwork-ai/common'
 import fs from 'fs'
 import path from 'path'
@@ -14,7 +14,7 @@ import path from 'path'
 export interface AuditEvent {
   id: string
   timestamp: string
-  eventType: 'task_start' | 'task_complete' | 'task_failed' | 'loop_start' | 'loop_end' | 'plugin_hook' | 'step_event' | 'tool_call' | 'agent_response'
+  eventType: 'task_start' | 'task_complete' | 'task_failed' | 'loop_start' | 'loop_end' | 'plugin_hook' | 'step_event' | 'tool_call' | 'agent_response' | 'approval'
   taskId?: string
   taskTitle?: string
   namespace: string
@@ -38,6 +38,12 @@ export interface AuditEvent {
     responseText?: string
     model?: string
     isPartial?: boolean
+    approvalId?: string
+    approvalStatus?: string
+    approvalAction?: 'requested' | 'escalated' | 'decided'
+    decidedBy?: string
+    channel?: string
+    riskLevel?: string
     metadata?: Record<string, unknown>
   }
 }
@@ -429,6 +435,32 @@ export function createAuditLoggingPlugin(config: AuditConfig = {}): LoopworkPlug
   }
 }
 
+/**
+ * Audit event for a step in an approval's life: requested, escalated or decided
+ */
+export function createApprovalAuditEvent(
+  approval: Approval,
+  action: 'requested' | 'escalated' | 'decided'
+): AuditEvent {
+  return {
+    id: `audit_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`,
+    timestamp: new Date().toISOString(),
+    eventType: 'approval',
+    taskId: approval.taskId,
+    taskTitle: approval.title,
+    namespace: approval.namespace,
+    data: {
+      approvalId: approval.id,
+      approvalAction: action,
+      approvalStatus: approval.status,
+      riskLevel: approval.riskLevel,
+      decidedBy: approval.decision?.decidedBy,
+      channel: approval.decision?.channel,
+      description: action === 'decided' ? approval.decision?.reason : approval.reasons.join('; '),
+    },
+  }
+}
+
 export function withAuditLogging(config: AuditConfig = {}): ConfigWrapper {
   const plugin = createAuditLoggingPlugin(config)
 
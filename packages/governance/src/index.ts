@@ -1,4 +1,4 @@
-import type { LoopworkPlugin, ConfigWrapper, TaskContext, PluginTaskResult } from '@loopwork-ai/loopwork/contracts'
+import type { LoopworkPlugin, ConfigWrapper, TaskContext, PluginTaskResult, TaskBackend, HookDecision } from '@loopwork-ai/loopwork/contracts'
 import { RiskLevel } from '@loopwork-ai/loopwork/contracts'
 import { logger } from '@loopwork-ai/common'
 import { ApprovalGate, type ApprovalOptions } from './approval-gate'
@@ -162,19 +162,48 @@ export function createGovernancePlugin(config: GovernanceConfig = {}): LoopworkP
   const gate = new ApprovalGate(config.approval)
 
   let namespace = 'default'
+  let backend: TaskBackend | undefined
+
+  const evaluate = (context: TaskContext) => engine.evaluate({
+    task: {
+      id: context.task.id,
+      title: context.task.title,
+      priority: context.task.priority,
+      feature: context.task.metadata?.feature as string,
+    },
+    namespace,
+    cli: context.cli,
+    activeTasks: new Set(engine.getActiveTasks()),
+    iteration: context.iteration,
+  })
 
   return {
     name: 'governance',
     classification: 'enhancement',
 
     async onConfigLoad(loopworkConfig: unknown): Promise<unknown> {
+      const projectRoot = (loopworkConfig as { projectRoot?: string } | undefined)?.projectRoot
+      if (projectRoot) {
+        gate.broker?.useProjectRoot(projectRoot)
+      }
       return loopworkConfig
     },
 
+    async onBackendReady(taskBackend: TaskBackend): Promise<void> {
+      backend = taskBackend
+    },
+
     async onLoopStart(ns: string): Promise<void> {
       namespace = ns
       logger.debug(`Governance plugin initialized for namespace: ${namespace}`)
 
+      if (gate.broker && backend) {
+        const reset = await gate.broker.recover(backend, namespace)
+        if (reset.length > 0) {
+          logger.info(`Resumed ${reset.length} task(s) waiting for approval: ${reset.join(', ')}`)
+        }
+      }
+
       if (config.rules?.maxConcurrentTasks) {
         logger.info(`Max concurrent tasks policy: ${config.rules.maxConcurrentTasks}`)
       }
@@ -188,26 +217,54 @@ export function createGovernancePlugin(config: GovernanceConfig = {}): LoopworkP
       }
     },
 
+    /**
+     * With an approval broker, tasks needing approval stay blocked until
+     * someone decides from the CLI, Telegram or the dashboard. A task that is
+     * rejected or expires is skipped for the rest of the run.
+     */
+    async onBeforeTaskStart(context: TaskContext): Promise<HookDecision | void> {
+      const broker = gate.broker
+      if (!broker) return
+
+      const { task } = context
+      const result = await evaluate(context)
+      // Policy violations are reported by onTaskStart
+      if (!result.allowed || !result.requiresApproval) return
+
+      const approval = await broker.open({
+        taskId: task.id,
+        title: task.title,
+        riskLevel: task.priority === 'high' ? RiskLevel.HIGH : RiskLevel.MEDIUM,
+        reasons: [result.reason || 'Manual approval required'],
+        namespace,
+      })
+
+      await backend?.updateTask?.(task.id, {
+        status: 'blocked',
+        metadata: { blockedReason: `Waiting for approval ${approval.id}`, approvalId: approval.id },
+      })
+
+      const decision = await broker.wait(approval)
+      const decided = decision.approval.decision
+
+      if (!decision.confirmed) {
+        const reason = `Approval ${approval.id} ${decision.approval.status}${decided ? ` by ${decided.decidedBy}` : ''}`
+        logger.error(`🚫 Task ${task.id} not approved: ${reason}`)
+        return { action: 'skip', reason }
+      }
+
+      await backend?.markInProgress(task.id)
+      logger.info(`✅ Task ${task.id} approved${decided ? ` by ${decided.decidedBy} via ${decided.channel}` : ''}`)
+    },
+
     async onTaskStart(context: TaskContext): Promise<void> {
       if (!enabled) return
 
       const { task } = context
-      const cli = context.cli
 
       logger.debug(`Governance check for task ${task.id}`)
 
-      const result = await engine.evaluate({
-        task: {
-          id: task.id,
-          title: task.title,
-          priority: task.priority,
-          feature: task.metadata?.feature as string,
-        },
-        namespace,
-        cli,
-        activeTasks: new Set(engine.getActiveTasks()),
-        iteration: context.iteration,
-      })
+      const result = await evaluate(context)
 
       if (!result.allowed) {
         const error = new GovernanceError(
@@ -217,7 +274,8 @@ export function createGovernancePlugin(config: GovernanceConfig = {}): LoopworkP
         throw error
       }
 
-      if (result.requiresApproval) {
+      // With a broker, approval was settled in onBeforeTaskStart
+      if (result.requiresApproval && !gate.broker) {
         const approval = await gate.askApproval({
           taskId: task.id,
           title: task.title,
@@ -267,3 +325,4 @@ export function withGovernance(config: GovernanceConfig = {}): ConfigWrapper {
 export * from './audit-logging'
 export * from './audit-query'
 export { ApprovalGate, type ApprovalOptions } from './approval-gate'
+export { ApprovalBroker, type ApprovalBrokerOptions, type ApprovalChannel, type ApprovalResult } from './approval-broker'
@@ -0,0 +1,110 @@
+import { describe, expect, test, beforeEach, afterEach, mock } from 'bun:test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { ApprovalStore } from '@loopwork-ai/loopwork/approvals'
+import { RiskLevel } from '@loopwork-ai/loopwork/contracts'
+import { ApprovalBroker, type ApprovalChannel } from '../approval-broker'
+import { queryAuditLogs } from '../audit-query'
+
+describe('ApprovalBroker', () => {
+  let dir: string
+  let store: ApprovalStore
+  let channel: ApprovalChannel & { notify: ReturnType<typeof mock>; escalate: ReturnType<typeof mock>; resolved: ReturnType<typeof mock> }
+
+  const request = {
+    taskId: 'TASK-1',
+    title: 'Deploy to production',
+    riskLevel: RiskLevel.HIGH,
+    reasons: ['Manual approval required by policy'],
+    namespace: 'default',
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'approval-broker-'))
+    store = new ApprovalStore({ dir: path.join(dir, 'approvals') })
+    channel = { name: 'test', notify: mock(() => {}), escalate: mock(() => {}), resolved: mock(() => {}) }
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  function createBroker(options: Partial<ConstructorParameters<typeof ApprovalBroker>[0]> = {}) {
+    return new ApprovalBroker({ store, channels: [channel], pollIntervalMs: 5, auditDir: path.join(dir, 'audit'), ...options })
+  }
+
+  test('waits for a decision made elsewhere and audits it', async () => {
+    const broker = createBroker()
+    const approval = await broker.open(request)
+    expect(channel.notify).toHaveBeenCalledTimes(1)
+
+    setTimeout(() => store.decide(approval.id, { status: 'approved', decidedBy: 'ann', channel: 'cli' }), 20)
+    const result = await broker.wait(approval)
+
+    expect(result.confirmed).toBe(true)
+    expect(result.approval.settledAt).toBeDefined()
+    expect(channel.resolved).toHaveBeenCalledTimes(1)
+
+    const events = queryAuditLogs(path.join(dir, 'audit'), { eventType: ['approval'] })
+    expect(events.map(e => [e.data.approvalAction, e.data.approvalStatus, e.data.decidedBy])).toEqual([
+      ['requested', 'pending', undefined],
+      ['decided', 'approved', 'ann'],
+    ])
+  })
+
+  test('expires undecided requests', async () => {
+    const broker = createBroker({ expireAfterMs: 20 })
+    const result = await broker.request(request)
+
+    expect(result).toMatchObject({ confirmed: false, timedOut: true })
+    expect(result.approval.decision).toMatchObject({ status: 'expired', channel: 'expiry' })
+  })
+
+  test('escalates once when nobody answers', async () => {
+    const broker = createBroker({ escalateAfterMs: 10 })
+    const approval = await broker.open(request)
+
+    setTimeout(() => store.decide(approval.id, { status: 'rejected', decidedBy: 'bob', channel: 'telegram' }), 60)
+    const result = await broker.wait(approval)
+
+    expect(result.confirmed).toBe(false)
+    expect(result.timedOut).toBe(false)
+    expect(channel.escalate).toHaveBeenCalledTimes(1)
+    expect(store.get(approval.id)?.escalatedAt).toBeDefined()
+  })
+
+  test('picks up a request left open by an earlier run', async () => {
+    const broker = createBroker()
+    const first = await broker.open(request)
+    const second = await broker.open(request)
+
+    expect(second.id).toBe(first.id)
+    expect(channel.notify).toHaveBeenCalledTimes(1)
+  })
+
+  test('returns blocked tasks to pending when their loop has died', async () => {
+    const broker = createBroker()
+    const approval = await broker.open(request)
+    store.update(approval.id, { pid: 2 ** 22 + 1 })
+
+    const backend = {
+      getTask: mock(async () => ({ id: 'TASK-1', status: 'blocked' })),
+      resetToPending: mock(async () => ({ success: true })),
+    }
+    const reset = await broker.recover(backend as any, 'default')
+
+    expect(reset).toEqual(['TASK-1'])
+    expect(backend.resetToPending).toHaveBeenCalledWith('TASK-1')
+  })
+
+  test('keeps requests and audit logs under the project root', async () => {
+    const broker = new ApprovalBroker({ channels: [channel] })
+    broker.useProjectRoot(dir)
+
+    const approval = await broker.open(request)
+
+    expect(fs.existsSync(path.join(dir, '.loopwork', 'approvals', `${approval.id}.json`))).toBe(true)
+    expect(queryAuditLogs(path.join(dir, '.loopwork', 'audit'), { eventType: ['approval'] })).toHaveLength(1)
+  })
+})
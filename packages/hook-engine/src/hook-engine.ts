@@ -1,5 +1,5 @@
 import { Pipeline } from './pipeline'
-import type { PipelineContext, IHookMiddleware } from '@loopwork-ai/contracts'
+import type { PipelineContext, IHookMiddleware, MiddlewareOptions } from '@loopwork-ai/contracts'
 
 export interface HookEngineConfig {
   throwOnError?: boolean
@@ -10,8 +10,12 @@ export class HookEngine {
 
   constructor(private config: HookEngineConfig = {}) {}
 
-  register(name: string, middleware: IHookMiddleware<any>): void {
-    this.getOrCreatePipeline(name).use(middleware)
+  /**
+   * Add middleware to a hook's pipeline, ordered by priority and limited to
+   * timeoutMs when given
+   */
+  register(name: string, middleware: IHookMiddleware<any>, options?: MiddlewareOptions<any>): void {
+    this.getOrCreatePipeline(name).use(middleware, options)
   }
 
   async execute<T extends PipelineContext>(
@@ -1,4 +1,4 @@
 export { HookEngine } from './hook-engine'
-export { Pipeline } from './pipeline'
+export { Pipeline, HookTimeoutError } from './pipeline'
 export { PluginAdapter } from './adapter'
 export type { HookEngineConfig } from './hook-engine'
@@ -1,10 +1,27 @@
-import { IPipeline, IHookMiddleware, PipelineContext, NextFunction } from '@loopwork-ai/contracts'
+import { IPipeline, IHookMiddleware, MiddlewareOptions, PipelineContext, NextFunction } from '@loopwork-ai/contracts'
+
+/**
+ * Thrown to a middleware's onTimeout when it overruns its timeoutMs
+ */
+export class HookTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Hook timed out after ${timeoutMs}ms`)
+    this.name = 'HookTimeoutError'
+  }
+}
+
+interface MiddlewareEntry<TContext extends PipelineContext> {
+  middleware: IHookMiddleware<TContext>
+  options: MiddlewareOptions<TContext>
+}
 
 export class Pipeline<TContext extends PipelineContext = PipelineContext> implements IPipeline<TContext> {
-  private middlewares: IHookMiddleware<TContext>[] = []
+  private middlewares: MiddlewareEntry<TContext>[] = []
 
-  use(middleware: IHookMiddleware<TContext>): this {
-    this.middlewares.push(middleware)
+  use(middleware: IHookMiddleware<TContext>, options: MiddlewareOptions<TContext> = {}): this {
+    this.middlewares.push({ middleware, options })
+    // Stable sort keeps registration order within a priority
+    this.middlewares.sort((a, b) => (b.options.priority ?? 0) - (a.options.priority ?? 0))
     return this
   }
 
@@ -18,12 +35,59 @@ export class Pipeline<TContext extends PipelineContext = PipelineContext> implem
         return
       }
 
-      const middleware = this.middlewares[index]
-      const next: NextFunction = () => runner(index + 1)
+      const { middleware, options } = this.middlewares[index]
+      if (!options.timeoutMs) {
+        const next: NextFunction = () => runner(index + 1)
+        await middleware(context, next)
+        return
+      }
 
-      await middleware(context, next)
+      await this.runWithTimeout(context, middleware, options, () => runner(index + 1))
     }
 
     await runner(0)
   }
+
+  /**
+   * Run a middleware that must call next() within options.timeoutMs. Only the
+   * time before next() counts; on timeout the rest of the pipeline runs and a
+   * late call to next() is ignored.
+   */
+  private async runWithTimeout(
+    context: TContext,
+    middleware: IHookMiddleware<TContext>,
+    options: MiddlewareOptions<TContext>,
+    runRest: NextFunction
+  ): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let handedOff = false
+    let timedOut = false
+
+    const next: NextFunction = () => {
+      if (timedOut) return Promise.resolve()
+      handedOff = true
+      clearTimeout(timer)
+      return runRest()
+    }
+
+    const timeout = new Promise<'timeout'>((resolve) => {
+      timer = setTimeout(() => {
+        if (!handedOff) resolve('timeout')
+      }, options.timeoutMs)
+    })
+
+    const run = Promise.resolve(middleware(context, next))
+    try {
+      const outcome = await Promise.race([run.then(() => 'done' as const), timeout])
+      if (outcome === 'timeout') {
+        timedOut = true
+        // The abandoned middleware may still fail later; nobody is waiting for it
+        run.catch(() => {})
+        options.onTimeout?.(new HookTimeoutError(options.timeoutMs!), context)
+        await runRest()
+      }
+    } finally {
+      clearTimeout(timer)
+    }
+  }
 }
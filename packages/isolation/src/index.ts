@@ -68,6 +68,8 @@ export interface SandboxHandle {
  */
 export { LocalIsolationProvider } from './local-provider'
 export { DockerIsolationProvider } from './docker-provider'
+export { WorktreeIsolationProvider } from './worktree-provider'
+export type { WorktreeProviderOptions, WorktreeMergeStrategy, WorktreeMergeResult } from './worktree-provider'
 
 /**
  * Default provider instance for backward compatibility
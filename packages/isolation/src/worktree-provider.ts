@@ -0,0 +1,371 @@
+import { spawn, execFile, type SpawnOptions as NodeSpawnOptions } from 'child_process'
+import { promisify } from 'util'
+import * as fs from 'fs'
+import * as path from 'path'
+import type { ISpawnedProcess, SpawnOptions } from '@loopwork-ai/contracts'
+import { ChildProcessAdapter } from './process-adapter'
+import type { SandboxProvider, SandboxConfig, SandboxHandle } from './index'
+
+const execFileAsync = promisify(execFile)
+
+/**
+ * How a task branch is brought back onto the base branch
+ *
+ * - merge: `git merge --no-ff` (keeps the task's commits and a merge commit)
+ * - squash: `git merge --squash` (one commit per task)
+ * - rebase: rebase the task branch onto the base, then fast-forward
+ */
+export type WorktreeMergeStrategy = 'merge' | 'squash' | 'rebase'
+
+export interface WorktreeProviderOptions {
+  /** Repository the worktrees are created from (default: process.cwd()) */
+  repoRoot?: string
+
+  /** Directory worktrees are created in (default: <repoRoot>/.loopwork/worktrees) */
+  worktreeDir?: string
+
+  /** Prefix of task branch names (default: 'loopwork/') */
+  branchPrefix?: string
+
+  /** Branch worktrees start from and merge back into (default: branch checked out in repoRoot) */
+  baseBranch?: string
+
+  /** Merge strategy (default: 'merge') */
+  strategy?: WorktreeMergeStrategy
+}
+
+export interface WorktreeMergeResult {
+  taskId: string
+  branch: string
+  strategy: WorktreeMergeStrategy
+  /**
+   * - merged: the task's changes are on the base branch
+   * - empty: the task made no changes
+   * - conflict: the changes conflict; the worktree and branch are kept
+   * - error: git failed for another reason; the worktree and branch are kept
+   */
+  status: 'merged' | 'empty' | 'conflict' | 'error'
+  /** Conflicting paths, relative to the repository root */
+  conflicts: string[]
+  /** Base branch commit after merging */
+  commit?: string
+  error?: string
+}
+
+interface Worktree {
+  taskId: string
+  path: string
+  branch: string
+  baseBranch: string
+}
+
+/**
+ * WorktreeIsolationProvider gives each task its own git worktree
+ *
+ * Each task runs in a worktree on its own branch, so parallel workers never
+ * write to the same files. The worktree outlives a single spawn, so retries
+ * of the same task continue where the previous attempt stopped. Once the
+ * task succeeds, integrate() brings the branch back onto the base branch;
+ * discard() throws the work away.
+ *
+ * Pass the task ID as `options.taskId` in the sandbox config to share a
+ * worktree between spawns of the same task.
+ */
+export class WorktreeIsolationProvider implements SandboxProvider {
+  readonly name = 'worktree'
+  readonly strategy: WorktreeMergeStrategy
+  private repoRoot: string
+  private worktreeDir: string
+  private branchPrefix: string
+  private baseBranch?: string
+  private worktrees = new Map<string, Worktree>()
+  /** Git commands touching the main repository run one at a time */
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(options: WorktreeProviderOptions = {}) {
+    this.repoRoot = path.resolve(options.repoRoot || process.cwd())
+    this.worktreeDir = path.resolve(this.repoRoot, options.worktreeDir || path.join('.loopwork', 'worktrees'))
+    this.branchPrefix = options.branchPrefix ?? 'loopwork/'
+    this.baseBranch = options.baseBranch
+    this.strategy = options.strategy || 'merge'
+  }
+
+  /**
+   * Available when repoRoot is inside a git work tree
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      const { stdout } = await this.git(this.repoRoot, ['rev-parse', '--is-inside-work-tree'])
+      return stdout.trim() === 'true'
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Acquire the worktree for a task, creating it on first use
+   *
+   * @param config - Sandbox configuration; `options.taskId` selects the worktree
+   * @returns WorktreeHandle running commands inside the worktree
+   * @throws Error if the worktree cannot be created
+   */
+  async acquire(config: SandboxConfig): Promise<SandboxHandle> {
+    const taskId = String(config.options?.taskId ?? config.options?.workerId ?? `sandbox-${Date.now()}`)
+    const worktree = this.worktrees.get(taskId) ?? await this.serialize(() => this.createWorktree(taskId))
+    return new WorktreeHandle(config, worktree)
+  }
+
+  /**
+   * Release a worktree handle
+   *
+   * The worktree itself is kept until integrate() or discard().
+   *
+   * @param handle - Handle to release
+   */
+  async release(handle: SandboxHandle): Promise<void> {
+    if (handle.provider !== 'worktree') {
+      throw new Error('Invalid handle provider')
+    }
+  }
+
+  /**
+   * Path of a task's worktree, if one is active
+   */
+  getWorktreePath(taskId: string): string | undefined {
+    return this.worktrees.get(taskId)?.path
+  }
+
+  /**
+   * Commit the task's changes and bring its branch back onto the base branch
+   *
+   * On success the worktree and branch are removed. On conflict they are kept
+   * so the conflict can be resolved by hand.
+   */
+  async integrate(taskId: string): Promise<WorktreeMergeResult> {
+    return this.serialize(async () => {
+      const worktree = this.worktrees.get(taskId)
+      const result: WorktreeMergeResult = {
+        taskId,
+        branch: worktree?.branch ?? this.branchName(taskId),
+        strategy: this.strategy,
+        status: 'empty',
+        conflicts: [],
+      }
+      if (!worktree) return result
+
+      try {
+        await this.commitChanges(worktree)
+
+        const { stdout: ahead } = await this.git(this.repoRoot, ['rev-list', '--count', `${worktree.baseBranch}..${worktree.branch}`])
+        if (Number(ahead.trim()) === 0) {
+          await this.removeWorktree(worktree)
+          return result
+        }
+
+        const { stdout: current } = await this.git(this.repoRoot, ['rev-parse', '--abbrev-ref', 'HEAD'])
+        if (current.trim() !== worktree.baseBranch) {
+          throw new Error(`Cannot merge ${worktree.branch}: ${this.repoRoot} is on ${current.trim()}, not ${worktree.baseBranch}`)
+        }
+
+        const conflicts = await this.mergeBranch(worktree)
+        if (conflicts.length > 0) {
+          this.worktrees.delete(taskId)
+          return { ...result, status: 'conflict', conflicts }
+        }
+
+        const { stdout: commit } = await this.git(this.repoRoot, ['rev-parse', 'HEAD'])
+        await this.removeWorktree(worktree)
+        return { ...result, status: 'merged', commit: commit.trim() }
+      } catch (error) {
+        this.worktrees.delete(taskId)
+        return { ...result, status: 'error', error: error instanceof Error ? error.message : String(error) }
+      }
+    })
+  }
+
+  /**
+   * Remove a task's worktree and branch without merging
+   */
+  async discard(taskId: string): Promise<void> {
+    const worktree = this.worktrees.get(taskId)
+    if (!worktree) return
+    await this.serialize(() => this.removeWorktree(worktree))
+  }
+
+  private branchName(taskId: string): string {
+    return `${this.branchPrefix}${taskId.replace(/[^A-Za-z0-9._-]/g, '-')}`
+  }
+
+  private async createWorktree(taskId: string): Promise<Worktree> {
+    const existing = this.worktrees.get(taskId)
+    if (existing) return existing
+
+    const baseBranch = this.baseBranch ?? (await this.git(this.repoRoot, ['rev-parse', '--abbrev-ref', 'HEAD'])).stdout.trim()
+    if (baseBranch === 'HEAD') {
+      throw new Error(`Cannot create worktrees: ${this.repoRoot} has a detached HEAD and no baseBranch is configured`)
+    }
+
+    const branch = this.branchName(taskId)
+    const worktreePath = path.join(this.worktreeDir, branch.slice(this.branchPrefix.length))
+
+    // Left over from an interrupted run
+    if (fs.existsSync(worktreePath)) {
+      await this.git(this.repoRoot, ['worktree', 'remove', '--force', worktreePath]).catch(() => {
+        fs.rmSync(worktreePath, { recursive: true, force: true })
+      })
+    }
+    await this.git(this.repoRoot, ['worktree', 'prune'])
+
+    fs.mkdirSync(this.worktreeDir, { recursive: true })
+    // A branch kept after a conflict holds the task's earlier work, so it is
+    // checked out as is; only a new branch starts from the base
+    const branchExists = await this.git(this.repoRoot, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`])
+      .then(() => true, () => false)
+    if (branchExists) {
+      await this.git(this.repoRoot, ['worktree', 'add', worktreePath, branch])
+    } else {
+      await this.git(this.repoRoot, ['worktree', 'add', '-b', branch, worktreePath, baseBranch])
+    }
+
+    const worktree: Worktree = { taskId, path: worktreePath, branch, baseBranch }
+    this.worktrees.set(taskId, worktree)
+    return worktree
+  }
+
+  private async commitChanges(worktree: Worktree): Promise<void> {
+    await this.git(worktree.path, ['add', '-A'])
+    const { stdout } = await this.git(worktree.path, ['status', '--porcelain'])
+    if (stdout.trim()) {
+      await this.git(worktree.path, ['commit', '--no-verify', '-m', `loopwork: ${worktree.taskId}`])
+    }
+  }
+
+  /**
+   * Merge the task branch into the base branch
+   *
+   * @returns Conflicting paths; empty when the merge succeeded
+   */
+  private async mergeBranch(worktree: Worktree): Promise<string[]> {
+    const message = `loopwork: merge ${worktree.taskId}`
+
+    switch (this.strategy) {
+      case 'rebase':
+        try {
+          await this.git(worktree.path, ['rebase', worktree.baseBranch])
+        } catch (error) {
+          const conflicts = await this.conflictedPaths(worktree.path)
+          await this.git(worktree.path, ['rebase', '--abort']).catch(() => {})
+          if (conflicts.length === 0) throw error
+          return conflicts
+        }
+        await this.git(this.repoRoot, ['merge', '--ff-only', worktree.branch])
+        return []
+
+      case 'squash':
+        try {
+          await this.git(this.repoRoot, ['merge', '--squash', worktree.branch])
+        } catch (error) {
+          const conflicts = await this.conflictedPaths(this.repoRoot)
+          await this.git(this.repoRoot, ['reset', '--merge']).catch(() => {})
+          if (conflicts.length === 0) throw error
+          return conflicts
+        }
+        await this.git(this.repoRoot, ['commit', '--no-verify', '-m', message])
+        return []
+
+      default:
+        try {
+          await this.git(this.repoRoot, ['merge', '--no-ff', '-m', message, worktree.branch])
+        } catch (error) {
+          const conflicts = await this.conflictedPaths(this.repoRoot)
+          await this.git(this.repoRoot, ['merge', '--abort']).catch(() => {})
+          if (conflicts.length === 0) throw error
+          return conflicts
+        }
+        return []
+    }
+  }
+
+  private async conflictedPaths(cwd: string): Promise<string[]> {
+    const { stdout } = await this.git(cwd, ['diff', '--name-only', '--diff-filter=U'])
+    return stdout.split('\n').map(line => line.trim()).filter(Boolean)
+  }
+
+  private async removeWorktree(worktree: Worktree): Promise<void> {
+    this.worktrees.delete(worktree.taskId)
+    await this.git(this.repoRoot, ['worktree', 'remove', '--force', worktree.path]).catch(() => {})
+    await this.git(this.repoRoot, ['branch', '-D', worktree.branch]).catch(() => {})
+  }
+
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(operation, operation)
+    this.queue = next.catch(() => {})
+    return next
+  }
+
+  private git(cwd: string, args: string[]): Promise<{ stdout: string; stderr: string }> {
+    return execFileAsync('git', args, { cwd, maxBuffer: 10 * 1024 * 1024 })
+  }
+}
+
+/**
+ * WorktreeHandle runs processes inside a task's worktree
+ */
+class WorktreeHandle implements SandboxHandle {
+  readonly id: string
+  readonly provider = 'worktree'
+  readonly path: string
+  readonly branch: string
+  pid?: number
+  private _isTerminated = false
+
+  constructor(private config: SandboxConfig, worktree: Worktree) {
+    this.id = `worktree-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+    this.path = worktree.path
+    this.branch = worktree.branch
+  }
+
+  /**
+   * Check if the process is still active
+   */
+  isActive(): boolean {
+    return !this._isTerminated
+  }
+
+  /**
+   * Spawn a process with the worktree as its working directory
+   */
+  async spawn(command: string, args: string[], options?: SpawnOptions): Promise<ISpawnedProcess> {
+    const spawnOptions: NodeSpawnOptions = {
+      cwd: options?.cwd ? path.resolve(this.path, options.cwd) : this.path,
+      env: { ...process.env, ...this.config.env, ...options?.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    }
+
+    const child = spawn(command, args, spawnOptions)
+    this.pid = child.pid
+
+    child.on('exit', () => {
+      this._isTerminated = true
+    })
+
+    return new ChildProcessAdapter(child)
+  }
+
+  /**
+   * Terminate the process (mark as terminated)
+   *
+   * @param _signal - Signal to send (unused; the executor kills the process)
+   */
+  async terminate(_signal = 'SIGTERM'): Promise<void> {
+    this._isTerminated = true
+    this.pid = undefined
+  }
+
+  /**
+   * Cleanup resources (the worktree is kept until integrate or discard)
+   */
+  async cleanup(): Promise<void> {
+    // Worktree lifetime is managed by the provider
+  }
+}
@@ -0,0 +1,143 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { execFileSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { WorktreeIsolationProvider } from '../src/worktree-provider'
+import type { SandboxHandle } from '../src'
+
+const GIT_ENV = {
+  GIT_AUTHOR_NAME: 'Test',
+  GIT_AUTHOR_EMAIL: 'test@example.com',
+  GIT_COMMITTER_NAME: 'Test',
+  GIT_COMMITTER_EMAIL: 'test@example.com',
+}
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, env: { ...process.env, ...GIT_ENV } }).toString().trim()
+}
+
+async function run(handle: SandboxHandle, script: string): Promise<number | null> {
+  const child = await handle.spawn('sh', ['-c', script])
+  return new Promise(resolve => child.on('close', resolve))
+}
+
+describe('WorktreeIsolationProvider', () => {
+  let repo: string
+  const originalEnv = { ...process.env }
+
+  beforeEach(() => {
+    Object.assign(process.env, GIT_ENV)
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'loopwork-worktree-'))
+    git(repo, 'init', '-q', '-b', 'main')
+    fs.writeFileSync(path.join(repo, '.gitignore'), '.loopwork/\n')
+    fs.writeFileSync(path.join(repo, 'shared.txt'), 'original\n')
+    git(repo, 'add', '-A')
+    git(repo, 'commit', '-q', '-m', 'initial')
+  })
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+    fs.rmSync(repo, { recursive: true, force: true })
+  })
+
+  test('is available inside a git repository only', async () => {
+    expect(await new WorktreeIsolationProvider({ repoRoot: repo }).isAvailable()).toBe(true)
+    expect(await new WorktreeIsolationProvider({ repoRoot: os.tmpdir() }).isAvailable()).toBe(false)
+  })
+
+  test('runs each task in its own worktree and reuses it across spawns', async () => {
+    const provider = new WorktreeIsolationProvider({ repoRoot: repo })
+    const first = await provider.acquire({ options: { taskId: 'TASK-001' } })
+    const again = await provider.acquire({ options: { taskId: 'TASK-001' } })
+    const other = await provider.acquire({ options: { taskId: 'TASK-002' } })
+
+    const worktreePath = provider.getWorktreePath('TASK-001')!
+    expect(worktreePath).toBe(path.join(repo, '.loopwork', 'worktrees', 'TASK-001'))
+    expect(provider.getWorktreePath('TASK-002')).not.toBe(worktreePath)
+    expect(git(worktreePath, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe('loopwork/TASK-001')
+
+    expect(await run(first, 'echo one > a.txt')).toBe(0)
+    expect(await run(again, 'echo two >> a.txt')).toBe(0)
+    expect(fs.readFileSync(path.join(worktreePath, 'a.txt'), 'utf-8')).toBe('one\ntwo\n')
+    expect(fs.existsSync(path.join(repo, 'a.txt'))).toBe(false)
+
+    await provider.release(other)
+    await provider.discard('TASK-002')
+    expect(git(repo, 'branch', '--list', 'loopwork/TASK-002')).toBe('')
+  })
+
+  test('merges successful tasks back and removes the worktree', async () => {
+    const provider = new WorktreeIsolationProvider({ repoRoot: repo })
+    const handle = await provider.acquire({ options: { taskId: 'TASK-001' } })
+    await run(handle, 'echo feature > feature.txt')
+
+    const result = await provider.integrate('TASK-001')
+
+    expect(result.status).toBe('merged')
+    expect(result.commit).toBe(git(repo, 'rev-parse', 'HEAD'))
+    expect(fs.readFileSync(path.join(repo, 'feature.txt'), 'utf-8')).toBe('feature\n')
+    expect(provider.getWorktreePath('TASK-001')).toBeUndefined()
+    expect(git(repo, 'branch', '--list', 'loopwork/TASK-001')).toBe('')
+  })
+
+  test('reports tasks without changes as empty', async () => {
+    const provider = new WorktreeIsolationProvider({ repoRoot: repo })
+    await provider.acquire({ options: { taskId: 'TASK-001' } })
+
+    const result = await provider.integrate('TASK-001')
+
+    expect(result.status).toBe('empty')
+    expect(git(repo, 'rev-list', '--count', 'HEAD')).toBe('1')
+  })
+
+  for (const strategy of ['merge', 'squash', 'rebase'] as const) {
+    test(`${strategy}: reports conflicting paths and keeps the branch`, async () => {
+      const provider = new WorktreeIsolationProvider({ repoRoot: repo, strategy })
+      const first = await provider.acquire({ options: { taskId: 'TASK-001' } })
+      const second = await provider.acquire({ options: { taskId: 'TASK-002' } })
+      await run(first, 'echo first > shared.txt')
+      await run(second, 'echo second > shared.txt && echo extra > extra.txt')
+
+      expect((await provider.integrate('TASK-001')).status).toBe('merged')
+      const result = await provider.integrate('TASK-002')
+
+      expect(result.status).toBe('conflict')
+      expect(result.conflicts).toEqual(['shared.txt'])
+      expect(fs.readFileSync(path.join(repo, 'shared.txt'), 'utf-8')).toBe('first\n')
+      expect(git(repo, 'status', '--porcelain')).toBe('')
+      expect(git(repo, 'branch', '--list', 'loopwork/TASK-002')).toContain('loopwork/TASK-002')
+    })
+  }
+
+  test('keeps the work on a branch left by a conflict when the task runs again', async () => {
+    const provider = new WorktreeIsolationProvider({ repoRoot: repo })
+    const first = await provider.acquire({ options: { taskId: 'TASK-001' } })
+    const second = await provider.acquire({ options: { taskId: 'TASK-002' } })
+    await run(first, 'echo first > shared.txt')
+    await run(second, 'echo second > shared.txt && echo extra > extra.txt')
+    await provider.integrate('TASK-001')
+    expect((await provider.integrate('TASK-002')).status).toBe('conflict')
+    const tip = git(repo, 'rev-parse', 'loopwork/TASK-002')
+
+    await provider.acquire({ options: { taskId: 'TASK-002' } })
+
+    const worktreePath = provider.getWorktreePath('TASK-002')!
+    expect(git(worktreePath, 'rev-parse', 'HEAD')).toBe(tip)
+    expect(fs.readFileSync(path.join(worktreePath, 'extra.txt'), 'utf-8')).toBe('extra\n')
+  })
+
+  test('rebase strategy keeps history linear', async () => {
+    const provider = new WorktreeIsolationProvider({ repoRoot: repo, strategy: 'rebase' })
+    const first = await provider.acquire({ options: { taskId: 'TASK-001' } })
+    const second = await provider.acquire({ options: { taskId: 'TASK-002' } })
+    await run(first, 'echo a > a.txt')
+    await run(second, 'echo b > b.txt')
+
+    expect((await provider.integrate('TASK-001')).status).toBe('merged')
+    expect((await provider.integrate('TASK-002')).status).toBe('merged')
+
+    expect(git(repo, 'rev-list', '--merges', '--count', 'HEAD')).toBe('0')
+    expect(git(repo, 'log', '--format=%s', '-2')).toBe('loopwork: TASK-002\nloopwork: TASK-001')
+  })
+})
@@ -0,0 +1,199 @@
+import type {
+  ICriterionJudge,
+  CriterionJudgeRequest,
+  CriterionJudgeResponse,
+} from '../contracts/llm-analyzer'
+
+export interface CriterionJudgeOptions {
+  model?: string
+  timeout?: number
+  /** Characters of CLI output included in the prompt */
+  maxOutputLength?: number
+}
+
+const DEFAULT_TIMEOUT_MS = 30000
+
+/** Characters of CLI output included in the prompt by default */
+const DEFAULT_MAX_OUTPUT_LENGTH = 4000
+
+/** Confidence given to a verdict that does not state one */
+const UNSTATED_CONFIDENCE = 0.5
+
+/** Multiplier of the string hash in cache keys */
+const HASH_MULTIPLIER = 31
+
+const SYSTEM_PROMPT = `You are a strict reviewer deciding whether a software task meets one acceptance criterion.
+Judge only from the evidence given. If the evidence does not show the criterion is met, it is not met.
+
+Respond with valid JSON matching this structure:
+{
+  "passed": boolean,
+  "reason": "one or two sentences citing the evidence",
+  "confidence": number between 0 and 1
+}`
+
+/**
+ * LLM judge for success criteria that have no mechanical check
+ *
+ * Uses the first API key found (Anthropic, OpenAI, Google). Without a key,
+ * or when the call fails, it returns null so the criterion can be skipped
+ * rather than failed.
+ */
+export class LLMCriterionJudge implements ICriterionJudge {
+  readonly name = 'criterion-judge' as const
+  private options: Required<CriterionJudgeOptions>
+  private cache: Map<string, CriterionJudgeResponse> = new Map()
+
+  constructor(options: CriterionJudgeOptions = {}) {
+    this.options = {
+      model: options.model ?? 'haiku',
+      timeout: options.timeout ?? DEFAULT_TIMEOUT_MS,
+      maxOutputLength: options.maxOutputLength ?? DEFAULT_MAX_OUTPUT_LENGTH,
+    }
+  }
+
+  async analyze(request: CriterionJudgeRequest): Promise<CriterionJudgeResponse | null> {
+    const cacheKey = this.getCacheKey(request)
+    const cached = this.cache.get(cacheKey)
+    if (cached) {
+      return cached
+    }
+
+    try {
+      const response = await this.callLLM(this.buildPrompt(request))
+      if (response === null) return null
+
+      const verdict = this.parseResponse(response)
+      if (verdict) {
+        this.cache.set(cacheKey, verdict)
+      }
+      return verdict
+    } catch {
+      return null
+    }
+  }
+
+  getCacheKey(request: CriterionJudgeRequest): string {
+    const outputHash = Math.abs(request.output.split('').reduce((acc, char) => (acc * HASH_MULTIPLIER + char.charCodeAt(0)) | 0, 0))
+    return `${request.task.id}:${request.criterion}:${outputHash}`
+  }
+
+  clearCache(): void {
+    this.cache.clear()
+  }
+
+  getCacheSize(): number {
+    return this.cache.size
+  }
+
+  private buildPrompt(request: CriterionJudgeRequest): string {
+    // The end of the output usually holds the agent's summary and test results
+    const output = request.output.length > this.options.maxOutputLength
+      ? '...(truncated)\n' + request.output.slice(-this.options.maxOutputLength)
+      : request.output
+
+    return `Task ${request.task.id}: ${request.task.title}
+
+${request.task.description}
+
+Acceptance criterion:
+${request.criterion}
+
+Execution output:
+${output}
+
+Is the acceptance criterion met? Answer in JSON as specified in the system prompt.`
+  }
+
+  private async callLLM(prompt: string): Promise<string | null> {
+    if (process.env.ANTHROPIC_API_KEY) {
+      return this.post(
+        'https://api.anthropic.com/v1/messages',
+        {
+          'x-api-key': process.env.ANTHROPIC_API_KEY,
+          'anthropic-version': '2023-06-01',
+        },
+        {
+          model: this.options.model,
+          max_tokens: 512,
+          system: SYSTEM_PROMPT,
+          messages: [{ role: 'user', content: prompt }],
+        },
+        data => (data as { content: Array<{ text: string }> }).content[0]?.text || ''
+      )
+    }
+
+    if (process.env.OPENAI_API_KEY) {
+      return this.post(
+        'https://api.openai.com/v1/chat/completions',
+        { 'Authorization': `Bearer ${process.env.OPENAI_API_KEY}` },
+        {
+          model: this.options.model === 'haiku' ? 'gpt-4o-mini' : 'gpt-4o',
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: prompt },
+          ],
+          max_tokens: 512,
+          temperature: 0,
+        },
+        data => (data as { choices: Array<{ message: { content: string } }> }).choices[0]?.message?.content || ''
+      )
+    }
+
+    if (process.env.GOOGLE_API_KEY) {
+      const model = this.options.model === 'haiku' ? 'gemini-1.5-flash' : 'gemini-1.5-pro'
+      return this.post(
+        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${process.env.GOOGLE_API_KEY}`,
+        {},
+        {
+          contents: [{ parts: [{ text: `${SYSTEM_PROMPT}\n\n${prompt}` }] }],
+          generationConfig: { maxOutputTokens: 512, temperature: 0 },
+        },
+        data => (data as { candidates: Array<{ content: { parts: Array<{ text: string }> } }> }).candidates[0]?.content?.parts[0]?.text || ''
+      )
+    }
+
+    return null
+  }
+
+  private async post(
+    url: string,
+    headers: Record<string, string>,
+    body: unknown,
+    extract: (data: unknown) => string
+  ): Promise<string> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), this.options.timeout)
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      })
+
+      if (!response.ok) {
+        throw new Error(`LLM API error: ${response.status} - ${await response.text()}`)
+      }
+
+      return extract(await response.json())
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+
+  private parseResponse(response: string): CriterionJudgeResponse | null {
+    const json = response.match(/\{[\s\S]*\}/)
+    if (!json) return null
+
+    const parsed = JSON.parse(json[0])
+    if (typeof parsed?.passed !== 'boolean') return null
+
+    return {
+      passed: parsed.passed,
+      reason: String(parsed.reason || ''),
+      confidence: typeof parsed.confidence === 'number' ? Math.min(1, Math.max(0, parsed.confidence)) : UNSTATED_CONFIDENCE,
+    }
+  }
+}
@@ -1,6 +1,7 @@
-import type { IErrorAnalyzerFactory, ITaskOutputAnalyzerFactory } from './providers'
+import type { IErrorAnalyzerFactory, ITaskOutputAnalyzerFactory, ICriterionJudgeFactory } from './providers'
 import { GLMErrorAnalyzer } from './glm-analyzer'
 import { LLMAnalyzer } from './llm-analyzer'
+import { LLMCriterionJudge } from './criterion-judge'
 
 export class GLMErrorAnalyzerFactory implements IErrorAnalyzerFactory {
   create(config?: Record<string, unknown>): GLMErrorAnalyzer {
@@ -25,6 +26,16 @@ export class TaskOutputAnalyzerFactory implements ITaskOutputAnalyzerFactory {
   }
 }
 
+export class CriterionJudgeFactory implements ICriterionJudgeFactory {
+  create(config?: Record<string, unknown>): LLMCriterionJudge {
+    return new LLMCriterionJudge({
+      model: config?.model as string,
+      timeout: config?.timeout as number,
+      maxOutputLength: config?.maxOutputLength as number,
+    })
+  }
+}
+
 export class MockErrorAnalyzerFactory implements IErrorAnalyzerFactory {
   create(): import('../contracts/llm-analyzer').IErrorAnalyzer {
     return {
@@ -4,16 +4,20 @@ export { LLMAnalyzer } from './llm-analyzer'
 export type { LLMAnalyzerOptions } from './llm-analyzer'
 export { GLMErrorAnalyzer, createGLMErrorAnalyzer } from './glm-analyzer'
 export type { GLMAnalyzerOptions } from './glm-analyzer'
+export { LLMCriterionJudge } from './criterion-judge'
+export type { CriterionJudgeOptions } from './criterion-judge'
 
 export type {
   IAnalyzerProvider,
   IErrorAnalyzerFactory,
   ITaskOutputAnalyzerFactory,
+  ICriterionJudgeFactory,
   IAnalyzerRegistry,
 } from './providers'
 
 export {
   GLMErrorAnalyzerFactory,
   TaskOutputAnalyzerFactory,
+  CriterionJudgeFactory,
   MockErrorAnalyzerFactory,
 } from './factories'
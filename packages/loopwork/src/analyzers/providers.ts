@@ -1,8 +1,9 @@
-import type { IErrorAnalyzer, ITaskOutputAnalyzer } from '../contracts/llm-analyzer'
+import type { IErrorAnalyzer, ITaskOutputAnalyzer, ICriterionJudge } from '../contracts/llm-analyzer'
 
 export interface IAnalyzerProvider {
   createErrorAnalyzer(config?: Record<string, unknown>): IErrorAnalyzer
   createTaskOutputAnalyzer(config?: Record<string, unknown>): ITaskOutputAnalyzer
+  createCriterionJudge?(config?: Record<string, unknown>): ICriterionJudge
 }
 
 export interface IErrorAnalyzerFactory {
@@ -13,6 +14,10 @@ export interface ITaskOutputAnalyzerFactory {
   create(config?: Record<string, unknown>): ITaskOutputAnalyzer
 }
 
+export interface ICriterionJudgeFactory {
+  create(config?: Record<string, unknown>): ICriterionJudge
+}
+
 export interface IAnalyzerRegistry {
   registerProvider(name: string, provider: IAnalyzerProvider): void
   registerErrorAnalyzerFactory(name: string, factory: IErrorAnalyzerFactory): void
@@ -6,7 +6,7 @@
  * - Write operations only use primary
  */
 
-import type { Task, TaskBackend, FindTaskOptions, UpdateResult, PingResult, ApiQuotaInfo } from './types'
+import type { Task, TaskEvent, TaskBackend, FindTaskOptions, UpdateResult, PingResult, ApiQuotaInfo } from './types'
 import type { BackendPlugin } from '../contracts'
 
 export interface OfflineQueue {
@@ -135,6 +135,13 @@ export class FallbackTaskBackend implements TaskBackend {
     return this.primaryBackend.addComment(taskId, comment)
   }
 
+  async addEvent(taskId: string, event: Omit<TaskEvent, 'taskId' | 'timestamp'>): Promise<UpdateResult> {
+    if (!this.primaryBackend.addEvent) {
+      return { success: false, error: 'addEvent not supported' }
+    }
+    return this.primaryBackend.addEvent(taskId, event)
+  }
+
   async ping(): Promise<PingResult> {
     return this.tryWithFallback((backend) => backend.ping(), 'ping')
   }
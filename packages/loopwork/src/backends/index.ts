@@ -15,15 +15,18 @@
 export * from './types'
 export { JsonTaskAdapter } from '@loopwork-ai/backend-json'
 export { GitHubTaskAdapter } from '@loopwork-ai/backend-github'
+export { SqliteTaskAdapter, importFromJson, exportToJson } from '@loopwork-ai/backend-sqlite'
 export { FallbackTaskBackend } from './fallback'
 export { LocalVectorStore } from '../vector-stores/local-vector-store'
 export {
   withJSONBackend,
   withGitHubBackend,
+  withSQLiteBackend,
   withFallbackBackend,
   getBackendPlugin,
   createJSONBackendPlugin,
   createGitHubBackendPlugin,
+  createSQLiteBackendPlugin,
   createFallbackBackendPlugin,
   type BackendPlugin,
   type BackendConfig,
@@ -33,6 +36,7 @@ export {
 import type { TaskBackend, BackendConfig, JsonBackendConfig, GithubBackendConfig } from './types'
 import { JsonTaskAdapter, type JsonBackendConfig as JsonBackendConfigType } from '@loopwork-ai/backend-json'
 import { GitHubTaskAdapter, type GitHubBackendConfig as GitHubBackendConfigType } from '@loopwork-ai/backend-github'
+import { SqliteTaskAdapter } from '@loopwork-ai/backend-sqlite'
 import { LoopworkError } from '../core/errors'
 
 /**
@@ -48,11 +52,20 @@ import { LoopworkError } from '../core/errors'
  *   type: 'json',
  *   tasksFile: '.specs/tasks/tasks.json'
  * })
+ *
+ * @example
+ * // SQLite backend
+ * const backend = createBackend({ type: 'sqlite', dbFile: '.specs/tasks/tasks.db' })
  */
 export function createBackend(config: BackendConfig): TaskBackend {
   switch (config.type) {
     case 'github':
-      return new GitHubTaskAdapter({ repo: config.repo } as GitHubBackendConfigType)
+      return new GitHubTaskAdapter({
+        repo: config.repo,
+        token: config.token,
+        apiUrl: config.apiUrl,
+        mode: config.mode,
+      } as GitHubBackendConfigType)
 
     case 'json':
       return new JsonTaskAdapter({
@@ -60,6 +73,13 @@ export function createBackend(config: BackendConfig): TaskBackend {
         tasksDir: config.tasksDir,
       } as JsonBackendConfigType)
 
+    case 'sqlite':
+      return new SqliteTaskAdapter({
+        type: 'sqlite',
+        dbFile: config.dbFile as string | undefined,
+        busyTimeoutMs: config.busyTimeoutMs as number | undefined,
+      })
+
     case 'fallback':
       throw new LoopworkError(
         'ERR_BACKEND_INVALID',
@@ -82,7 +102,7 @@ export function createBackend(config: BackendConfig): TaskBackend {
         'ERR_BACKEND_INVALID',
         `Unknown backend type: "${(config as { type?: string }).type}"`,
         [
-          'Valid backend types: "json" or "github"',
+          'Valid backend types: "json", "github" or "sqlite"',
           'Check your loopwork.config.ts backend configuration',
           'Example: backend: { type: "json", tasksFile: "..." }',
           'Or run: npx loopwork init'
@@ -98,7 +118,8 @@ export function createBackend(config: BackendConfig): TaskBackend {
  * Detection order:
  * 1. If LOOPWORK_BACKEND env var is set, use that
  * 2. If .specs/tasks/tasks.json exists, use json
- * 3. Default to github
+ * 3. If .specs/tasks/tasks.db exists, use sqlite
+ * 4. Default to github
  */
 export function detectBackend(projectRoot: string): BackendConfig {
   const envBackend = process.env.LOOPWORK_BACKEND
@@ -111,6 +132,13 @@ export function detectBackend(projectRoot: string): BackendConfig {
     }
   }
 
+  if (envBackend === 'sqlite') {
+    return {
+      type: 'sqlite',
+      dbFile: `${projectRoot}/.specs/tasks/tasks.db`,
+    }
+  }
+
   if (envBackend === 'github') {
     return {
       type: 'github',
@@ -130,6 +158,14 @@ export function detectBackend(projectRoot: string): BackendConfig {
     }
   }
 
+  const sqliteDbFile = `${projectRoot}/.specs/tasks/tasks.db`
+  if (fs.existsSync(sqliteDbFile)) {
+    return {
+      type: 'sqlite',
+      dbFile: sqliteDbFile,
+    }
+  }
+
   // Default to GitHub
   return {
     type: 'github',
@@ -1,7 +1,7 @@
 /**
  * Backend Plugin System for Loopwork
  *
- * Backends (JSON, GitHub) are now plugins that implement both:
+ * Backends (JSON, GitHub, SQLite) are now plugins that implement both:
  * - LoopworkPlugin: lifecycle hooks
  * - TaskBackend: task CRUD operations
  *
@@ -10,6 +10,8 @@
  *     withJSONBackend({ tasksFile: 'tasks.json' }),
  *     // or
  *     withGitHubBackend({ repo: 'owner/repo' }),
+ *     // or
+ *     withSQLiteBackend({ dbFile: '.specs/tasks/tasks.db' }),
  *   )(defineConfig({ cli: 'opencode' }))
  */
 
@@ -100,6 +102,10 @@ export function createJSONBackendPlugin(config: JSONBackendConfig = {}): Backend
       const a = await getAdapter()
       return a!.addComment?.(taskId, comment) || { success: false, error: 'Not supported' }
     },
+    async addEvent(taskId, event) {
+      const a = await getAdapter()
+      return a!.addEvent?.(taskId, event) || { success: false, error: 'Not supported' }
+    },
     async ping() {
       const a = await getAdapter()
       return a!.ping()
@@ -189,7 +195,11 @@ export function withJSONBackend(config: JSONBackendConfig = {}) {
 
 export interface GitHubBackendConfig {
   repo?: string
+  /** API token; when set the adapter calls the GitHub API directly instead of the gh CLI */
   token?: string
+  /** REST API root for GitHub Enterprise Server (default: https://api.github.com) */
+  apiUrl?: string
+  mode?: 'cli' | 'http'
 }
 
 /**
@@ -204,7 +214,7 @@ export function createGitHubBackendPlugin(config: GitHubBackendConfig = {}): Bac
   const getAdapter = async () => {
     if (!adapter) {
       const { GitHubTaskAdapter } = await import('@loopwork-ai/backend-github')
-      adapter = new GitHubTaskAdapter({ repo })
+      adapter = new GitHubTaskAdapter({ repo, token: config.token, apiUrl: config.apiUrl, mode: config.mode })
     }
     return adapter
   }
@@ -268,6 +278,10 @@ export function createGitHubBackendPlugin(config: GitHubBackendConfig = {}): Bac
       const a = await getAdapter()
       return a!.addComment?.(taskId, comment) || { success: false, error: 'Not supported' }
     },
+    async addEvent(taskId, event) {
+      const a = await getAdapter()
+      return a!.addEvent?.(taskId, event) || { success: false, error: 'Not supported' }
+    },
     async ping() {
       const a = await getAdapter()
       return a!.ping()
@@ -311,6 +325,10 @@ export function createGitHubBackendPlugin(config: GitHubBackendConfig = {}): Bac
       }
       return { success: false, error: 'setPriority not supported by GitHub adapter' }
     },
+    async getQuotaInfo() {
+      const a = await getAdapter()
+      return a!.getQuotaInfo!()
+    },
   }
 }
 
@@ -323,11 +341,174 @@ export function withGitHubBackend(config: GitHubBackendConfig = {}) {
     backend: {
       type: 'github',
       repo: config.repo || process.env.GITHUB_REPOSITORY,
+      token: config.token,
+      apiUrl: config.apiUrl,
+      mode: config.mode,
     },
     plugins: [...(baseConfig.plugins || []), createGitHubBackendPlugin(config)],
   })
 }
 
+// ============================================================================
+// SQLite Backend Plugin
+// ============================================================================
+
+export interface SQLiteBackendConfig {
+  dbFile?: string
+  busyTimeoutMs?: number
+}
+
+/**
+ * Create SQLite backend plugin
+ */
+export function createSQLiteBackendPlugin(config: SQLiteBackendConfig = {}): BackendPlugin {
+  const dbFile = config.dbFile || '.specs/tasks/tasks.db'
+
+  // Lazy load the adapter
+  let adapter: TaskBackend | null = null
+
+  const getAdapter = async () => {
+    if (!adapter) {
+      const { SqliteTaskAdapter } = await import('@loopwork-ai/backend-sqlite')
+      adapter = new SqliteTaskAdapter({ type: 'sqlite', dbFile, busyTimeoutMs: config.busyTimeoutMs })
+    }
+    return adapter
+  }
+
+  return {
+    name: 'sqlite-backend',
+    backendType: 'sqlite',
+    classification: 'critical',
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    async onConfigLoad(cfg: any) {
+      await getAdapter()
+      return cfg
+    },
+
+    // Delegate all backend operations to the adapter
+    async findNextTask(options) {
+      const a = await getAdapter()
+      return a!.findNextTask(options)
+    },
+    async claimTask(options) {
+      const a = await getAdapter()
+      return a!.claimTask!(options)
+    },
+    async getTask(taskId) {
+      const a = await getAdapter()
+      return a!.getTask(taskId)
+    },
+    async listPendingTasks(options) {
+      const a = await getAdapter()
+      return a!.listPendingTasks(options)
+    },
+    async listTasks(options) {
+      const a = await getAdapter()
+      return a!.listTasks(options)
+    },
+    async countPending(options) {
+      const a = await getAdapter()
+      return a!.countPending(options)
+    },
+    async markInProgress(taskId) {
+      const a = await getAdapter()
+      return a!.markInProgress(taskId)
+    },
+    async markCompleted(taskId, comment) {
+      const a = await getAdapter()
+      return a!.markCompleted(taskId, comment)
+    },
+    async markFailed(taskId, error) {
+      const a = await getAdapter()
+      return a!.markFailed(taskId, error)
+    },
+    async markQuarantined(taskId, reason) {
+      const a = await getAdapter()
+      return a!.markQuarantined(taskId, reason)
+    },
+    async resetToPending(taskId) {
+      const a = await getAdapter()
+      return a!.resetToPending(taskId)
+    },
+    async resetAllInProgress() {
+      const a = await getAdapter()
+      return a!.resetAllInProgress!()
+    },
+    async rescheduleCompleted(taskId, scheduledFor) {
+      const a = await getAdapter()
+      return a!.rescheduleCompleted!(taskId, scheduledFor)
+    },
+    async updateTask(taskId, updates) {
+      const a = await getAdapter()
+      return a!.updateTask!(taskId, updates)
+    },
+    async addComment(taskId, comment) {
+      const a = await getAdapter()
+      return a!.addComment!(taskId, comment)
+    },
+    async addEvent(taskId, event) {
+      const a = await getAdapter()
+      return a!.addEvent!(taskId, event)
+    },
+    async ping() {
+      const a = await getAdapter()
+      return a!.ping()
+    },
+    async getSubTasks(taskId) {
+      const a = await getAdapter()
+      return a!.getSubTasks(taskId)
+    },
+    async getDependencies(taskId) {
+      const a = await getAdapter()
+      return a!.getDependencies(taskId)
+    },
+    async getDependents(taskId) {
+      const a = await getAdapter()
+      return a!.getDependents(taskId)
+    },
+    async areDependenciesMet(taskId) {
+      const a = await getAdapter()
+      return a!.areDependenciesMet(taskId)
+    },
+    async createTask(task) {
+      const a = await getAdapter()
+      return a!.createTask!(task)
+    },
+    async createSubTask(parentId, task) {
+      const a = await getAdapter()
+      return a!.createSubTask!(parentId, task)
+    },
+    async addDependency(taskId, dependsOnId) {
+      const a = await getAdapter()
+      return a!.addDependency!(taskId, dependsOnId)
+    },
+    async removeDependency(taskId, dependsOnId) {
+      const a = await getAdapter()
+      return a!.removeDependency!(taskId, dependsOnId)
+    },
+    async setPriority(taskId, priority) {
+      const a = (await getAdapter()) as unknown as BackendPlugin
+      return a.setPriority!(taskId, priority)
+    },
+  }
+}
+
+/**
+ * Config wrapper for SQLite backend
+ */
+export function withSQLiteBackend(config: SQLiteBackendConfig = {}) {
+  return (baseConfig: LoopworkConfig): LoopworkConfig => ({
+    ...baseConfig,
+    backend: {
+      type: 'sqlite',
+      dbFile: config.dbFile || '.specs/tasks/tasks.db',
+      busyTimeoutMs: config.busyTimeoutMs,
+    },
+    plugins: [...(baseConfig.plugins || []), createSQLiteBackendPlugin(config)],
+  })
+}
+
 // ============================================================================
 // Fallback Backend Plugin
 // ============================================================================
@@ -422,6 +603,10 @@ export function createFallbackBackendPlugin(config: FallbackBackendConfig): Back
       const a = await getAdapter()
       return a!.addComment?.(taskId, comment) || { success: false, error: 'Not supported' }
     },
+    async addEvent(taskId, event) {
+      const a = await getAdapter()
+      return a!.addEvent?.(taskId, event) || { success: false, error: 'Not supported' }
+    },
     async ping() {
       const a = await getAdapter()
       return a!.ping()
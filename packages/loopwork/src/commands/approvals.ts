@@ -0,0 +1,140 @@
+import React from 'react'
+import os from 'os'
+import { logger, renderInk, InkTable } from '../core/utils'
+import type { ApprovalStore } from '../core/approval-store'
+import type { Approval } from '../contracts/approval'
+
+export interface ApprovalsListOptions {
+  /** Include decided and expired requests */
+  all?: boolean
+  json?: boolean
+}
+
+export interface ApprovalDecisionOptions {
+  /** Why the task was approved or rejected */
+  reason?: string
+  json?: boolean
+}
+
+export interface ApprovalsDependencies {
+  createStore(): ApprovalStore
+  /** Name recorded as the decider */
+  getUser(): string
+  logger: {
+    info: (msg: string) => void
+    success: (msg: string) => void
+    raw: (msg: string, noNewline?: boolean) => void
+  }
+}
+
+const defaultDependencies: ApprovalsDependencies = {
+  createStore() {
+    const { ApprovalStore } = require('../core/approval-store')
+    return new ApprovalStore()
+  },
+  getUser() {
+    try {
+      return os.userInfo().username
+    } catch {
+      return process.env.USER || 'unknown'
+    }
+  },
+  logger,
+}
+
+/** Widths of the approvals table columns */
+const COLUMN_WIDTHS = {
+  id: 26,
+  task: 12,
+  title: 30,
+  risk: 10,
+  requested: 24,
+  status: 24,
+}
+
+function formatTime(iso?: string): string {
+  return iso ? new Date(iso).toLocaleString() : '-'
+}
+
+/**
+ * List tasks waiting for approval
+ */
+export async function approvalsList(options: ApprovalsListOptions = {}, deps = defaultDependencies): Promise<Approval[]> {
+  const approvals = deps.createStore().list(options.all ? {} : { status: 'pending' })
+
+  if (options.json) {
+    deps.logger.raw(JSON.stringify(approvals, null, 2))
+    return approvals
+  }
+
+  if (approvals.length === 0) {
+    deps.logger.info(options.all ? 'No approval requests found.' : 'No tasks are waiting for approval.')
+    return approvals
+  }
+
+  const rows = approvals.map(approval => [
+    approval.id,
+    approval.taskId,
+    approval.title.substring(0, COLUMN_WIDTHS.title - 1),
+    approval.riskLevel,
+    formatTime(approval.requestedAt),
+    approval.status === 'pending'
+      ? `pending${approval.escalatedAt ? ' (escalated)' : ''}`
+      : `${approval.status}${approval.decision ? ` by ${approval.decision.decidedBy}` : ''}`,
+  ])
+
+  const tableOutput = await renderInk(
+    React.createElement(InkTable, {
+      headers: ['ID', 'Task', 'Title', 'Risk', 'Requested', 'Status'],
+      rows,
+      columnConfigs: [
+        { width: COLUMN_WIDTHS.id, align: 'left' },
+        { width: COLUMN_WIDTHS.task, align: 'left' },
+        { width: COLUMN_WIDTHS.title, align: 'left' },
+        { width: COLUMN_WIDTHS.risk, align: 'center' },
+        { width: COLUMN_WIDTHS.requested, align: 'left' },
+        { width: COLUMN_WIDTHS.status, align: 'left' },
+      ],
+    })
+  )
+
+  deps.logger.raw(tableOutput)
+  deps.logger.raw('')
+  deps.logger.info('Use `loopwork approvals approve <id>` or `loopwork approvals reject <id>` to decide.')
+  return approvals
+}
+
+async function decide(
+  id: string,
+  approved: boolean,
+  options: ApprovalDecisionOptions,
+  deps: ApprovalsDependencies
+): Promise<Approval> {
+  const approval = deps.createStore().decide(id, {
+    status: approved ? 'approved' : 'rejected',
+    decidedBy: deps.getUser(),
+    channel: 'cli',
+    reason: options.reason,
+  })
+
+  if (options.json) {
+    deps.logger.raw(JSON.stringify(approval, null, 2))
+  } else {
+    deps.logger.success(`Task ${approval.taskId} ${approval.status}`)
+  }
+  return approval
+}
+
+/**
+ * Approve a task waiting for approval
+ */
+export async function approvalsApprove(id: string, options: ApprovalDecisionOptions = {}, deps = defaultDependencies): Promise<Approval> {
+  return decide(id, true, options, deps)
+}
+
+/**
+ * Reject a task waiting for approval
+ */
+export async function approvalsReject(id: string, options: ApprovalDecisionOptions = {}, deps = defaultDependencies): Promise<Approval> {
+  return decide(id, false, options, deps)
+}
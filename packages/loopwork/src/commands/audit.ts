@@ -0,0 +1,136 @@
+import React from 'react'
+import fs from 'fs'
+import path from 'path'
+import { SecretRedactor, type SecretFinding } from '@loopwork-ai/common'
+import { logger, renderInk, InkTable } from '../core/utils'
+import type { Config } from '../core/config'
+
+/** Widths of the findings table columns */
+const COLUMN_WIDTHS = {
+  file: 60,
+  line: 10,
+  rule: 20,
+  secret: 18,
+}
+
+export interface AuditSecretsOptions {
+  /** Only scan runs of this namespace */
+  namespace?: string
+  projectRoot?: string
+  /** Mask the secrets found in place */
+  redact?: boolean
+  json?: boolean
+}
+
+/**
+ * A secret found in a run log
+ */
+export interface SecretLeak extends SecretFinding {
+  /** Path relative to the project root */
+  file: string
+}
+
+export interface AuditDependencies {
+  /** Load the config with the command's own options, not the run flags in argv */
+  getConfig(options: AuditSecretsOptions): Promise<Config>
+  /** Build the redactor from the project's redaction rules and allowlist */
+  createRedactor(config: Config): SecretRedactor
+  logger: {
+    info: (msg: string) => void
+    success: (msg: string) => void
+    warn: (msg: string) => void
+    raw: (msg: string, noNewline?: boolean) => void
+  }
+}
+
+const defaultDependencies: AuditDependencies = {
+  async getConfig(options) {
+    const { getConfig } = await import('../core/config')
+    return getConfig({ namespace: options.namespace })
+  },
+  createRedactor: config => new SecretRedactor(config.redaction),
+  logger,
+}
+
+function listFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return []
+
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) return listFiles(fullPath)
+    return entry.isFile() ? [fullPath] : []
+  })
+}
+
+function readText(file: string): string | null {
+  try {
+    const content = fs.readFileSync(file)
+    // Skip binary files
+    return content.includes(0) ? null : content.toString('utf-8')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Scan `.loopwork/runs` for secrets that were logged before redaction
+ */
+export async function auditSecrets(options: AuditSecretsOptions = {}, deps = defaultDependencies): Promise<SecretLeak[]> {
+  const config = await deps.getConfig(options)
+  const projectRoot = options.projectRoot || config.projectRoot || process.cwd()
+  const runsDir = path.join(projectRoot, '.loopwork', 'runs', ...(options.namespace ? [options.namespace] : []))
+  const redactor = deps.createRedactor(config)
+  const leaks: SecretLeak[] = []
+
+  for (const file of listFiles(runsDir)) {
+    const content = readText(file)
+    if (!content) continue
+
+    const findings = redactor.scan(content)
+    if (findings.length === 0) continue
+
+    const relative = path.relative(projectRoot, file)
+    leaks.push(...findings.map(finding => ({ file: relative, ...finding })))
+
+    if (options.redact) {
+      const tempPath = `${file}.${process.pid}.tmp`
+      fs.writeFileSync(tempPath, redactor.redact(content), { mode: fs.statSync(file).mode })
+      fs.renameSync(tempPath, file)
+    }
+  }
+
+  if (options.json) {
+    deps.logger.raw(JSON.stringify(leaks, null, 2))
+    return leaks
+  }
+
+  if (leaks.length === 0) {
+    deps.logger.success(`No secrets found in ${path.relative(projectRoot, runsDir)}`)
+    return leaks
+  }
+
+  const tableOutput = await renderInk(
+    React.createElement(InkTable, {
+      headers: ['File', 'Line', 'Rule', 'Secret'],
+      rows: leaks.map(leak => [leak.file, `${leak.line}:${leak.column}`, leak.rule, leak.preview]),
+      columnConfigs: [
+        { width: COLUMN_WIDTHS.file, align: 'left' },
+        { width: COLUMN_WIDTHS.line, align: 'right' },
+        { width: COLUMN_WIDTHS.rule, align: 'left' },
+        { width: COLUMN_WIDTHS.secret, align: 'left' },
+      ],
+    })
+  )
+
+  deps.logger.raw(tableOutput)
+  deps.logger.raw('')
+
+  const files = new Set(leaks.map(leak => leak.file)).size
+  if (options.redact) {
+    deps.logger.success(`Masked ${leaks.length} secret(s) in ${files} file(s)`)
+  } else {
+    deps.logger.warn(`Found ${leaks.length} secret(s) in ${files} file(s)`)
+    deps.logger.info('Rotate these credentials, then run `loopwork audit secrets --redact` to mask them in the logs.')
+  }
+  return leaks
+}
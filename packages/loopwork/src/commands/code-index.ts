@@ -0,0 +1,144 @@
+import { logger } from '../core/utils'
+import { LoopworkError } from '../core/errors'
+import { chunkFromSearchResult, type ContextChunk } from '../core/context-assembly'
+import type { Config } from '../core/config'
+import type { IndexSyncResult, PendingChanges } from '../core/index-sync'
+import type { CodeIndexState } from '../plugins/semantic-indexer'
+
+/** Results shown by `index query` without --limit */
+const DEFAULT_QUERY_LIMIT = 5
+/** Length of the abbreviated commit hash shown in `index status` */
+const SHORT_COMMIT_LENGTH = 7
+
+export interface IndexStatusResult {
+  files: number
+  commit?: string
+  syncedAt?: string
+  pending: PendingChanges
+}
+
+export interface IndexOptions {
+  /** Path to the config file (default: found from the project root) */
+  config?: string
+  json?: boolean
+}
+
+export interface IndexQueryOptions extends IndexOptions {
+  /** Most results to show (default: 5) */
+  limit?: number
+}
+
+export interface IndexDependencies {
+  /** Load the config with the command's own options, not the run flags in argv */
+  getConfig(options: IndexOptions): Promise<Config>
+  /** Open the semantic code index the loop would use */
+  getIndexState(config: Config): Promise<CodeIndexState | undefined>
+  logger: {
+    info: (msg: string) => void
+    success: (msg: string) => void
+    raw: (msg: string, noNewline?: boolean) => void
+  }
+}
+
+const defaultDependencies: IndexDependencies = {
+  async getConfig(options) {
+    const { getConfig } = await import('../core/config')
+    return getConfig({ config: options.config })
+  },
+  async getIndexState(config) {
+    const { getSemanticCodeIndexer, createSemanticCodeIndexerPlugin } = await import('../plugins/semantic-indexer')
+    const plugin = getSemanticCodeIndexer(config) ?? createSemanticCodeIndexerPlugin()
+    await plugin.onConfigLoad?.(config)
+    return plugin.getIndexState()
+  },
+  logger,
+}
+
+async function openIndex(options: IndexOptions, deps: IndexDependencies): Promise<{ config: Config; state: CodeIndexState }> {
+  const config = await deps.getConfig(options)
+  const state = await deps.getIndexState(config)
+  if (!state) {
+    throw new LoopworkError('ERR_PLUGIN_LOAD', 'Semantic code index is not available', [
+      'Build the local index package: bun run --cwd packages/vector-store build',
+      'Or configure an embedding provider and vector store with withEmbeddings() and withVectorStore()',
+    ])
+  }
+  return { config, state }
+}
+
+function isJson(config: Config, json?: boolean): boolean {
+  return Boolean(json) || config.outputMode === 'json'
+}
+
+/**
+ * Show what is indexed and what the next sync would update
+ */
+export async function indexStatus(options: IndexOptions = {}, deps = defaultDependencies): Promise<IndexStatusResult> {
+  const { config, state } = await openIndex(options, deps)
+  const syncState = state.sync.getState()
+  const result: IndexStatusResult = {
+    files: state.indexer.getIndexStatus().size,
+    commit: syncState.commit,
+    syncedAt: syncState.syncedAt ? new Date(syncState.syncedAt).toISOString() : undefined,
+    pending: state.sync.pending(),
+  }
+
+  if (isJson(config, options.json)) {
+    deps.logger.raw(JSON.stringify(result, null, 2))
+    return result
+  }
+
+  deps.logger.info(`Indexed files: ${result.files}`)
+  deps.logger.info(`Last sync: ${result.syncedAt ?? 'never'}${result.commit ? ` at ${result.commit.slice(0, SHORT_COMMIT_LENGTH)}` : ''}`)
+  const { changed, removed } = result.pending
+  if (changed.length === 0 && removed.length === 0) {
+    deps.logger.success('Index is up to date')
+    return result
+  }
+
+  deps.logger.info(`Pending: ${changed.length} to index, ${removed.length} to remove`)
+  for (const file of changed) deps.logger.raw(`  + ${file}`)
+  for (const file of removed) deps.logger.raw(`  - ${file}`)
+  return result
+}
+
+/**
+ * Drop the index and index every source file again
+ */
+export async function indexRebuild(options: IndexOptions = {}, deps = defaultDependencies): Promise<IndexSyncResult> {
+  const { config, state } = await openIndex(options, deps)
+  const result = await state.sync.sync({ rebuild: true })
+
+  if (isJson(config, options.json)) {
+    deps.logger.raw(JSON.stringify(result, null, 2))
+    return result
+  }
+
+  deps.logger.success(`Indexed ${result.indexed} files${result.errors ? ` (${result.errors} failed)` : ''}`)
+  return result
+}
+
+/**
+ * Search the index the way task prompts do
+ */
+export async function indexQuery(text: string, options: IndexQueryOptions = {}, deps = defaultDependencies): Promise<ContextChunk[]> {
+  const { config, state } = await openIndex(options, deps)
+  const chunks = (await state.indexer.search(text, options.limit ?? DEFAULT_QUERY_LIMIT)).map(chunkFromSearchResult)
+
+  if (isJson(config, options.json)) {
+    deps.logger.raw(JSON.stringify(chunks, null, 2))
+    return chunks
+  }
+
+  if (chunks.length === 0) {
+    deps.logger.info('No matches')
+    return chunks
+  }
+
+  for (const chunk of chunks) {
+    const lines = chunk.lineStart !== undefined ? `:${chunk.lineStart}-${chunk.lineEnd ?? chunk.lineStart}` : ''
+    deps.logger.raw(`${chunk.file}${lines} (${chunk.score.toFixed(3)})`)
+    for (const line of chunk.content.split('\n').slice(0, 3)) deps.logger.raw(`  ${line}`)
+  }
+  return chunks
+}
@@ -0,0 +1,151 @@
+import React from 'react'
+import path from 'path'
+import { AdaptiveModelRouter } from '@loopwork-ai/executor'
+import type { ModelStatsTable } from '@loopwork-ai/contracts'
+import { logger, renderInk, InkTable } from '../core/utils'
+import { LoopworkError } from '../core/errors'
+import { formatDuration } from './shared/process-utils'
+
+/**
+ * Task features the learned stats can be broken down by
+ */
+export const MODEL_STATS_GROUPS = ['category', 'feature', 'priority', 'size'] as const
+
+export type ModelStatsGroup = typeof MODEL_STATS_GROUPS[number]
+
+const PERCENT = 100
+/** Decimal places of the average cost, enough to show fractions of a cent */
+const COST_DECIMALS = 4
+/** Widths of the stats table columns */
+const COLUMN_WIDTHS = {
+  group: 16,
+  model: 24,
+  attempts: 10,
+  success: 9,
+  duration: 14,
+  retries: 12,
+  cost: 10,
+  lastAttempt: 22,
+}
+
+export interface ModelsStatsOptions {
+  projectRoot?: string
+  /** Stats file of the adaptive strategy, relative to the project root */
+  statsFile?: string
+  /** Break the stats down by this task feature */
+  by?: ModelStatsGroup
+  json?: boolean
+}
+
+/**
+ * What the adaptive strategy learned about a model, overall or for one kind of task
+ */
+export interface ModelStatsRow {
+  model: string
+  /** Value of the `by` feature, e.g. 'testing' for category:testing */
+  group?: string
+  attempts: number
+  successRate: number
+  avgDurationMs: number
+  avgRetries: number
+  /** Only when the CLI reported costs */
+  avgCostUsd?: number
+  lastAttemptAt: string
+}
+
+export interface ModelsStatsDependencies {
+  loadStats(statsFile: string): ModelStatsTable
+  logger: {
+    info: (msg: string) => void
+    success: (msg: string) => void
+    warn: (msg: string) => void
+    raw: (msg: string, noNewline?: boolean) => void
+  }
+}
+
+const defaultDependencies: ModelsStatsDependencies = {
+  loadStats: statsFile => new AdaptiveModelRouter({ statsFile }).getStats(),
+  logger,
+}
+
+function toRows(stats: ModelStatsTable, by?: ModelStatsGroup): ModelStatsRow[] {
+  const rows: ModelStatsRow[] = []
+  for (const [model, entries] of Object.entries(stats)) {
+    for (const [key, entry] of Object.entries(entries)) {
+      if (by ? !key.startsWith(`${by}:`) : key !== 'all') continue
+      if (entry.attempts === 0) continue
+
+      rows.push({
+        model,
+        group: by ? key.slice(by.length + 1) : undefined,
+        attempts: entry.attempts,
+        successRate: entry.successes / entry.attempts,
+        avgDurationMs: entry.totalDurationMs / entry.attempts,
+        avgRetries: entry.totalRetries / entry.attempts,
+        avgCostUsd: entry.costSamples > 0 ? entry.totalCostUsd / entry.costSamples : undefined,
+        lastAttemptAt: entry.lastAttemptAt,
+      })
+    }
+  }
+
+  return rows.sort((a, b) =>
+    (a.group ?? '').localeCompare(b.group ?? '') || b.successRate - a.successRate
+      || b.attempts - a.attempts || a.model.localeCompare(b.model)
+  )
+}
+
+/**
+ * Show what the adaptive model selection strategy has learned from past runs
+ */
+export async function modelsStats(options: ModelsStatsOptions = {}, deps = defaultDependencies): Promise<ModelStatsRow[]> {
+  if (options.by && !MODEL_STATS_GROUPS.includes(options.by)) {
+    throw new LoopworkError('ERR_CONFIG_INVALID', `Cannot break model stats down by "${options.by}"`, [
+      `Use one of: ${MODEL_STATS_GROUPS.join(', ')}`,
+    ])
+  }
+
+  const projectRoot = options.projectRoot || process.cwd()
+  const statsFile = path.resolve(projectRoot, options.statsFile ?? '.loopwork/model-stats.json')
+  const rows = toRows(deps.loadStats(statsFile), options.by)
+
+  if (options.json) {
+    deps.logger.raw(JSON.stringify(rows, null, 2))
+    return rows
+  }
+
+  if (rows.length === 0) {
+    deps.logger.info(`No model outcomes recorded in ${path.relative(projectRoot, statsFile)}`)
+    deps.logger.info("Set cliConfig.selectionStrategy to 'adaptive' to start learning which models suit your tasks.")
+    return rows
+  }
+
+  const headers = ['Model', 'Attempts', 'Success', 'Avg duration', 'Avg retries', 'Avg cost', 'Last attempt']
+  const tableOutput = await renderInk(
+    React.createElement(InkTable, {
+      headers: options.by ? [options.by.charAt(0).toUpperCase() + options.by.slice(1), ...headers] : headers,
+      rows: rows.map(row => [
+        ...(options.by ? [row.group ?? ''] : []),
+        row.model,
+        String(row.attempts),
+        `${Math.round(row.successRate * PERCENT)}%`,
+        formatDuration(row.avgDurationMs),
+        row.avgRetries.toFixed(1),
+        row.avgCostUsd !== undefined ? `$${row.avgCostUsd.toFixed(COST_DECIMALS)}` : '-',
+        new Date(row.lastAttemptAt).toLocaleString(),
+      ]),
+      columnConfigs: [
+        ...(options.by ? [{ width: COLUMN_WIDTHS.group, align: 'left' as const }] : []),
+        { width: COLUMN_WIDTHS.model, align: 'left' },
+        { width: COLUMN_WIDTHS.attempts, align: 'right' },
+        { width: COLUMN_WIDTHS.success, align: 'right' },
+        { width: COLUMN_WIDTHS.duration, align: 'right' },
+        { width: COLUMN_WIDTHS.retries, align: 'right' },
+        { width: COLUMN_WIDTHS.cost, align: 'right' },
+        { width: COLUMN_WIDTHS.lastAttempt, align: 'left' },
+      ],
+    })
+  )
+
+  deps.logger.raw(tableOutput)
+  return rows
+}
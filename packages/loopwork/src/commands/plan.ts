@@ -0,0 +1,253 @@
+import React from 'react'
+import { logger, renderInk, InkBanner, InkTable } from '../core/utils'
+import { formatDuration } from './shared/process-utils'
+import type { Config } from '../core/config'
+import type { TaskBackend } from '../backends'
+import type { BudgetRequest, BudgetScopeStatus } from '@loopwork-ai/contracts'
+import type {
+  CostEstimator,
+  CostEstimatorOptions,
+  CostPlan,
+  CostTrackingConfig,
+  UsageEntry,
+} from '@loopwork-ai/cost-tracking'
+
+export interface PlanOptions {
+  feature?: string
+  /** Model to estimate for (default: first configured model) */
+  model?: string
+  namespace?: string
+  json?: boolean
+}
+
+export interface PlanWarning {
+  /** Task the warning applies to, or undefined for the whole plan */
+  taskId?: string
+  message: string
+}
+
+export interface PlanResult extends CostPlan {
+  namespace: string
+  warnings: PlanWarning[]
+}
+
+export interface PlanDependencies {
+  /** Load the config with the command's own options, not the run flags in argv */
+  getConfig(options: PlanOptions): Promise<Config>
+  createBackend(backendConfig: Config['backend']): TaskBackend
+  getUsageHistory(projectRoot: string, namespace: string): Promise<UsageEntry[]>
+  createEstimator(options: CostEstimatorOptions): Promise<Pick<CostEstimator, 'plan'>>
+  getBudgetStatus(projectRoot: string, budgets: NonNullable<CostTrackingConfig['budgets']>, request: Partial<BudgetRequest>): Promise<BudgetScopeStatus[]>
+  logger: {
+    info: (msg: string) => void
+    warn: (msg: string) => void
+    raw: (msg: string, noNewline?: boolean) => void
+  }
+}
+
+const defaultDependencies: PlanDependencies = {
+  async getConfig(options) {
+    const { getConfig } = await import('../core/config')
+    return getConfig({ namespace: options.namespace, feature: options.feature })
+  },
+  createBackend(backendConfig) {
+    const { createBackend } = require('../backends')
+    return createBackend(backendConfig)
+  },
+  async getUsageHistory(projectRoot, namespace) {
+    const { CostTracker } = await import('@loopwork-ai/cost-tracking')
+    return new CostTracker(projectRoot, namespace).getAllTimeSummary().entries
+  },
+  async createEstimator(options) {
+    const { CostEstimator } = await import('@loopwork-ai/cost-tracking')
+    return new CostEstimator(options)
+  },
+  async getBudgetStatus(projectRoot, budgets, request) {
+    const { createScopedBudget } = await import('@loopwork-ai/cost-tracking')
+    return createScopedBudget(projectRoot, budgets).getScopeStatus(request)
+  },
+  logger,
+}
+
+/**
+ * Model the run command would start with
+ */
+async function resolveModel(config: Config, options: PlanOptions): Promise<string> {
+  if (options.model) return options.model
+  const configured = config.cliConfig?.models?.find(m => m.enabled !== false)
+  if (configured) return configured.model
+  if (config.model) return config.model
+  const { EXEC_MODELS } = await import('@loopwork-ai/executor')
+  return EXEC_MODELS[0].model
+}
+
+/** Widths of the plan table columns */
+const COLUMN_WIDTHS = {
+  id: 14,
+  title: 30,
+  feature: 14,
+  tokens: 10,
+  cost: 9,
+  range: 17,
+  confidence: 20,
+}
+
+function formatUsd(cost: number): string {
+  return `$${cost.toFixed(2)}`
+}
+
+/**
+ * Compare estimates against the per-task budget and hierarchical budgets.
+ * Feature and monthly budgets are shared, so each task is checked against
+ * what remains after the tasks planned before it.
+ */
+async function findBudgetWarnings(
+  plan: CostPlan,
+  config: Config,
+  namespace: string,
+  deps: PlanDependencies
+): Promise<PlanWarning[]> {
+  const costTracking = config.costTracking as CostTrackingConfig | undefined
+  const warnings: PlanWarning[] = []
+  const planned = new Map<string, number>()
+
+  for (const estimate of plan.tasks) {
+    if (costTracking?.perTaskBudget !== undefined && estimate.cost > costTracking.perTaskBudget) {
+      warnings.push({
+        taskId: estimate.taskId,
+        message: `Estimate ${formatUsd(estimate.cost)} exceeds the per-task budget of ${formatUsd(costTracking.perTaskBudget)}`,
+      })
+    }
+
+    if (!costTracking?.budgets) continue
+
+    const scopes = await deps.getBudgetStatus(config.projectRoot, costTracking.budgets, {
+      taskId: estimate.taskId,
+      feature: estimate.feature,
+      namespace,
+      model: estimate.model,
+    })
+    for (const status of scopes) {
+      const scopeKey = `${status.scope}:${status.key}`
+      const remaining = status.remaining - (planned.get(scopeKey) ?? 0)
+      if (estimate.cost > remaining) {
+        warnings.push({
+          taskId: estimate.taskId,
+          message: `Estimate ${formatUsd(estimate.cost)} exceeds the ${status.scope} budget '${status.key}' (${formatUsd(Math.max(0, remaining))} remaining)`,
+        })
+      }
+      planned.set(scopeKey, (planned.get(scopeKey) ?? 0) + estimate.cost)
+    }
+  }
+
+  if (costTracking?.dailyBudget !== undefined && plan.total.cost > costTracking.dailyBudget) {
+    warnings.push({
+      message: `Total estimate ${formatUsd(plan.total.cost)} exceeds the daily budget of ${formatUsd(costTracking.dailyBudget)}; the run will span several days`,
+    })
+  }
+
+  return warnings
+}
+
+export async function plan(options: PlanOptions = {}, deps = defaultDependencies): Promise<PlanResult> {
+  const config = await deps.getConfig(options)
+  const backend = deps.createBackend(config.backend)
+  const namespace = options.namespace || config.namespace || 'default'
+  const feature = options.feature || config.feature
+
+  const [pending, allTasks, history, model] = await Promise.all([
+    backend.listTasks({ status: 'pending', feature }),
+    backend.listTasks(),
+    deps.getUsageHistory(config.projectRoot, namespace),
+    resolveModel(config, options),
+  ])
+
+  const estimator = await deps.createEstimator({
+    model,
+    history,
+    historyTasks: allTasks,
+    estimatedOutputTokens: (config.costTracking as CostTrackingConfig | undefined)?.budgets?.estimatedOutputTokens,
+  })
+  const costPlan = estimator.plan(pending)
+  const result: PlanResult = {
+    ...costPlan,
+    namespace,
+    warnings: await findBudgetWarnings(costPlan, config, namespace, deps),
+  }
+
+  if (options.json || config.outputMode === 'json') {
+    deps.logger.raw(JSON.stringify(result, null, 2))
+    return result
+  }
+
+  if (result.tasks.length === 0) {
+    deps.logger.info('No pending tasks to plan.')
+    return result
+  }
+
+  const banner = await renderInk(
+    React.createElement(InkBanner, {
+      title: 'Run Plan',
+      rows: [
+        { key: 'Namespace', value: namespace },
+        { key: 'Model', value: model },
+        { key: 'Pending Tasks', value: result.tasks.length.toString() },
+        { key: 'Estimated Cost', value: `${formatUsd(result.total.cost)} (${formatUsd(result.total.low)} - ${formatUsd(result.total.high)})` },
+        { key: 'Estimated Time', value: result.total.durationSeconds > 0 ? formatDuration(result.total.durationSeconds * 1000) : 'unknown' },
+      ],
+    })
+  )
+  deps.logger.raw(banner)
+  deps.logger.raw('')
+
+  const warned = new Set(result.warnings.map(w => w.taskId))
+  const rows = result.tasks.map(estimate => [
+    `${warned.has(estimate.taskId) ? '! ' : ''}${estimate.taskId}`,
+    estimate.title.substring(0, COLUMN_WIDTHS.title - 1),
+    estimate.feature || '-',
+    (estimate.inputTokens + estimate.outputTokens).toLocaleString(),
+    formatUsd(estimate.cost),
+    `${formatUsd(estimate.low)} - ${formatUsd(estimate.high)}`,
+    `${estimate.confidence} (${estimate.basis})`,
+  ]) as string[][]
+
+  const table = await renderInk(
+    React.createElement(InkTable, {
+      headers: ['ID', 'Title', 'Feature', 'Tokens', 'Cost', 'Range', 'Confidence'],
+      rows,
+      columnConfigs: [
+        { width: COLUMN_WIDTHS.id, align: 'left' },
+        { width: COLUMN_WIDTHS.title, align: 'left' },
+        { width: COLUMN_WIDTHS.feature, align: 'left' },
+        { width: COLUMN_WIDTHS.tokens, align: 'right' },
+        { width: COLUMN_WIDTHS.cost, align: 'right' },
+        { width: COLUMN_WIDTHS.range, align: 'right' },
+        { width: COLUMN_WIDTHS.confidence, align: 'left' },
+      ],
+    })
+  )
+  deps.logger.raw(table)
+
+  if (result.warnings.length > 0) {
+    deps.logger.raw('')
+    for (const warning of result.warnings) {
+      deps.logger.warn(warning.taskId ? `${warning.taskId}: ${warning.message}` : warning.message)
+    }
+  }
+
+  return result
+}
+
+export function createPlanCommand() {
+  return {
+    name: 'plan',
+    description: 'Estimate token usage and cost of pending tasks before a run',
+    usage: '[options]',
+    examples: [
+      { command: 'loopwork plan', description: 'Estimate all pending tasks' },
+      { command: 'loopwork plan --feature auth', description: 'Estimate pending tasks of one feature' },
+      { command: 'loopwork plan --model opus --json', description: 'Estimate for another model, as JSON' },
+    ],
+    handler: plan,
+  }
+}
@@ -0,0 +1,82 @@
+import { logger } from '../core/utils'
+import { LoopworkError } from '../core/errors'
+import { resolveTaskModel } from '../core/task-utils'
+import type { Config } from '../core/config'
+import type { TaskBackend } from '../backends'
+import type { PromptTemplates, ResolvedPromptTemplate } from '../core/prompt-templates'
+
+export interface PromptRenderOptions {
+  /** Namespace whose template to use (default: config namespace) */
+  namespace?: string
+  /** CLI whose template to use (default: the task's preferred CLI, then config cli) */
+  cli?: string
+  json?: boolean
+}
+
+export interface PromptRenderResult {
+  taskId: string
+  template: Omit<ResolvedPromptTemplate, 'template'>
+  prompt: string
+}
+
+export interface PromptDependencies {
+  /** Load the config with the command's own options, not the run flags in argv */
+  getConfig(options: PromptRenderOptions): Promise<Config>
+  createBackend(backendConfig: Config['backend']): TaskBackend
+  createPromptTemplates(config: Config, backend: TaskBackend): PromptTemplates
+  logger: {
+    info: (msg: string) => void
+    raw: (msg: string, noNewline?: boolean) => void
+  }
+}
+
+const defaultDependencies: PromptDependencies = {
+  async getConfig(options) {
+    const { getConfig } = await import('../core/config')
+    return getConfig({ namespace: options.namespace })
+  },
+  createBackend(backendConfig) {
+    const { createBackend } = require('../backends')
+    return createBackend(backendConfig)
+  },
+  createPromptTemplates(config, backend) {
+    const { createPromptTemplates } = require('../core/prompt-templates')
+    return createPromptTemplates(config, backend)
+  },
+  logger,
+}
+
+/**
+ * Render the prompt a task would be sent with, without running it
+ */
+export async function promptRender(
+  taskId: string,
+  options: PromptRenderOptions = {},
+  deps = defaultDependencies
+): Promise<PromptRenderResult> {
+  const config = await deps.getConfig(options)
+  const backend = deps.createBackend(config.backend)
+  const task = await backend.getTask(taskId)
+  if (!task) {
+    throw new LoopworkError('ERR_TASK_NOT_FOUND', `Task ${taskId} not found`)
+  }
+
+  const namespace = options.namespace || config.namespace || 'default'
+  const resolved = resolveTaskModel(task, undefined, config.cli)
+  const cli = options.cli || resolved.cli
+  const model = options.cli ? undefined : resolved.model
+  const templates = deps.createPromptTemplates(config, backend)
+  const { template: _template, ...template } = templates.resolve({ namespace, feature: task.feature, cli })
+  const prompt = await templates.render({ task, namespace, cli, model, retryAttempt: task.failureCount })
+  const result: PromptRenderResult = { taskId, template, prompt }
+
+  if (options.json || config.outputMode === 'json') {
+    deps.logger.raw(JSON.stringify(result, null, 2))
+    return result
+  }
+
+  deps.logger.info(`Template: ${template.source}${template.file ? ` (${template.file})` : ''}`)
+  deps.logger.raw('')
+  deps.logger.raw(prompt)
+  return result
+}
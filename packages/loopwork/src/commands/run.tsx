@@ -9,12 +9,16 @@ import { CliExecutor } from '../core/cli'
 import { logger, separator, InkBanner, InkCompletionSummary, renderInk } from '../core/utils'
 import { plugins, createAIMonitor } from '../plugins'
 import { TelemetryManager } from '../telemetry'
-import { createCostTrackingPlugin } from '@loopwork-ai/cost-tracking'
+import { createCostTrackingPlugin, createScopedBudget, type CostTrackingConfig } from '@loopwork-ai/cost-tracking'
+import { AdaptiveModelRouter, BudgetSkipError } from '@loopwork-ai/executor'
 import { createTelegramHookPlugin } from '@loopwork-ai/telegram'
 import { createResilienceRunner } from '@loopwork-ai/resilience'
+import { WorktreeIsolationProvider } from '@loopwork-ai/isolation'
+import { createCheckpointManager } from '@loopwork-ai/checkpoint'
+import { createWorkflowPlugin } from '@loopwork-ai/workflow'
 import type { TaskContext } from '../contracts/plugin'
 import type { ICliExecutor } from '../contracts/executor'
-import type { IStateManager, IStateManagerConstructor, LoadStateResult } from '@loopwork-ai/contracts'
+import type { IProviderRateLimiter, IStateManager, IStateManagerConstructor, LoadStateResult } from '@loopwork-ai/contracts'
 import type { RunLogger } from '../contracts/logger'
 import { LoopworkError, handleError } from '../core/errors'
 import { ParallelRunner, type ParallelState } from '../core/parallel-runner'
@@ -24,7 +28,13 @@ import { LoopworkMonitor } from '../monitor'
 import { ProcessRegistry, FilePersistence } from '@loopwork-ai/process-manager'
 import type { JsonEvent } from '../contracts/output'
 import type { DeadletterPolicy } from '../contracts'
-import { generateSuccessCriteria, generateFailureCriteria, buildPrompt } from '../core/task-utils'
+import type { AcceptanceReport } from '../contracts/acceptance'
+import { modelPreference, resolveTaskModel } from '../core/task-utils'
+import { createAcceptanceVerifier, formatAcceptanceFailure, recordAcceptanceResults, verifyAcceptanceStep } from '../core/acceptance'
+import { loadProjectWorkflow } from '../core/workflow'
+import { createPromptTemplates, recordTaskOutput } from '../core/prompt-templates'
+import { describeDecision, releaseTask } from '../core/hook-decisions'
+import { findNextTask } from '../core/task-selection'
 
 
 
@@ -134,12 +144,56 @@ export async function run(options: Record<string, unknown> = {}, deps: RunDeps =
   // Create ResilienceEngine for automatic retries and backoff
   const resilienceEngine = createResilienceRunner()
 
+  // Hierarchical budgets are checked by the executor before each model is spawned
+  const budgets = (config.costTracking as CostTrackingConfig | undefined)?.budgets
+  const budgetGuard = budgets ? createScopedBudget(config.projectRoot, budgets) : undefined
+
+  // Namespaces running side by side draw from one per-provider budget
+  let rateLimiter: IProviderRateLimiter | undefined
+  if (config.rateLimits && config.rateLimits.enabled !== false) {
+    const { createSharedRateLimiter } = await import('@loopwork-ai/rate-limiter')
+    rateLimiter = createSharedRateLimiter({
+      ...config.rateLimits,
+      stateFile: path.resolve(config.projectRoot, config.rateLimits.stateFile ?? '.loopwork/rate-limits.json'),
+    })
+  }
+
+  // The adaptive strategy keeps what it learns about models across runs
+  const adaptive = config.cliConfig?.adaptive
+  const modelRouter = config.cliConfig?.selectionStrategy === 'adaptive'
+    ? new AdaptiveModelRouter({
+        ...adaptive,
+        statsFile: path.resolve(config.projectRoot, adaptive?.statsFile ?? '.loopwork/model-stats.json'),
+      })
+    : undefined
+
+  // Parallel workers each run in their own git worktree when configured
+  let worktrees: WorktreeIsolationProvider | undefined
+  if (config.parallel > 1 && config.isolation?.provider === 'worktree') {
+    const provider = new WorktreeIsolationProvider({ ...config.isolation.worktree, repoRoot: config.projectRoot })
+    if (await provider.isAvailable()) {
+      worktrees = provider
+    } else {
+      activeLogger.warn(`Worktree isolation needs a git repository; workers will share ${config.projectRoot}`)
+    }
+  }
+
+  // CLI runs are checkpointed so an interrupted task can resume its agent session
+  const checkpointIntegrator = config.checkpoint?.skipOnCliExecution
+    ? undefined
+    : createCheckpointManager({ basePath: path.join(config.projectRoot, '.loopwork/checkpoints') })
+
   const cliExecutor = new CliExecutorClass(config, { 
     debugger: dbg,
     pluginRegistry: activePlugins,
     logger: activeLogger,
     processRegistry,
-    resilienceEngine
+    resilienceEngine,
+    budgetGuard,
+    rateLimiter,
+    modelRouter,
+    isolationProvider: worktrees,
+    checkpointIntegrator,
   })
 
   // Register AI Monitor plugin if --with-ai-monitor flag is set
@@ -174,7 +228,6 @@ export async function run(options: Record<string, unknown> = {}, deps: RunDeps =
     activeLogger.debug('Orphan watch started')
   }
 
-  await activePlugins.runHook('onBackendReady', backend)
   if (!isJsonMode) {
     activeLogger.stopSpinner('Loopwork initialized')
   }
@@ -320,6 +373,12 @@ export async function run(options: Record<string, unknown> = {}, deps: RunDeps =
     }
   }
 
+  const workflow = loadProjectWorkflow(config.projectRoot, config.workflow)
+  if (workflow) {
+    activePlugins.register(createWorkflowPlugin(workflow))
+    activeLogger.info(`Workflow ${workflow.name}: ${workflow.stages.length} stages`)
+  }
+
   try {
     await activePlugins.register(makeCostTrackingPlugin(config.projectRoot, namespace))
     activeLogger.debug('Cost tracking plugin registered')
@@ -350,6 +409,8 @@ export async function run(options: Record<string, unknown> = {}, deps: RunDeps =
     }
   }
 
+  // Runs once every plugin is registered, so config plugins see the backend too
+  await activePlugins.runHook('onBackendReady', backend)
   await activePlugins.runHook('onLoopStart', namespace)
 
   // Display startup configuration
@@ -459,7 +520,8 @@ export async function run(options: Record<string, unknown> = {}, deps: RunDeps =
       activeLogger,
       handleLoopworkError,
       runtimeProcess,
-      isJsonMode
+      isJsonMode,
+      worktrees
     )
     return
   }
@@ -472,6 +534,10 @@ export async function run(options: Record<string, unknown> = {}, deps: RunDeps =
   let retryContext = ''
   const maxRetries = config.maxRetries ?? 3
   const retryCount: Map<string, number> = new Map()
+  // Tasks skipped for the rest of the run, with why
+  const skippedTasks = new Map<string, string>()
+  // Prompts plugins rewrote in onBeforeComplete, used when the task runs again
+  const promptOverrides = new Map<string, string>()
 
   const retryBudget = new RetryBudget(
     config.retryBudget?.maxRetries || 50,
@@ -479,6 +545,9 @@ export async function run(options: Record<string, unknown> = {}, deps: RunDeps =
     config.retryBudget?.persistence !== false
   )
 
+  const acceptanceVerifier = await createAcceptanceVerifier(config.projectRoot, config.acceptance)
+  const promptTemplates = createPromptTemplates(config, backend, { recordContext: true })
+
   while (iteration < (config.maxIterations || 50)) {
     iteration++
     cliExecutor.resetFallback()
@@ -502,7 +571,7 @@ export async function run(options: Record<string, unknown> = {}, deps: RunDeps =
 
     try {
       activeLogger.startSpinner('Searching for next task...')
-      const findTaskOptions: FindTaskOptions = { feature: config.feature }
+      const findTaskOptions: FindTaskOptions = { feature: config.feature, exclude: [...skippedTasks.keys()] }
       if (config.deadletter?.enabled) {
         findTaskOptions.deadletterPolicy = config.deadletter
         if (config.deadletter.retryCooldownMs !== undefined) {
@@ -513,7 +582,11 @@ export async function run(options: Record<string, unknown> = {}, deps: RunDeps =
       if (config.startTask && iteration === 1) {
         task = await backend.getTask(config.startTask)
       } else {
-        task = await backend.findNextTask(findTaskOptions)
+        task = await findNextTask(
+          backend,
+          findTaskOptions,
+          activePlugins.hasTaskSelectors() ? tasks => activePlugins.selectTasks(tasks) : undefined
+        )
       }
       
       if (task) {
@@ -552,6 +625,12 @@ export async function run(options: Record<string, unknown> = {}, deps: RunDeps =
       break
     }
 
+    // Backends that ignore `exclude` can still hand a skipped task back
+    if (skippedTasks.has(task.id)) {
+      activeLogger.warn(`Next task ${task.id} was already skipped ${skippedTasks.get(task.id)}, stopping`)
+      break
+    }
+
     if (isJsonMode) {
       activeLogger.emitJsonEvent('progress', 'run', {
         iteration,
@@ -603,7 +682,7 @@ export async function run(options: Record<string, unknown> = {}, deps: RunDeps =
       continue
     }
 
-    const nextModel = cliExecutor.getNextModel?.()
+    const nextModel = resolveTaskModel(task, cliExecutor, config.cli)
     
     const taskContext: TaskContext = {
       task,
@@ -612,27 +691,48 @@ export async function run(options: Record<string, unknown> = {}, deps: RunDeps =
       startTime: new Date(),
       namespace,
       retryAttempt: retryCount.get(task.id) || 0,
-      cli: nextModel?.cli,
-      model: nextModel?.model,
-      modelDisplayName: nextModel?.displayName,
+      cli: nextModel.cli,
+      model: nextModel.model,
+      modelDisplayName: nextModel.displayName,
     }
     currentTaskContext = taskContext
 
     if (backend.updateTask) {
       await backend.updateTask(task.id, {
         metadata: {
-          cli: nextModel?.cli,
-          model: nextModel?.model,
-          modelDisplayName: nextModel?.displayName,
+          cli: nextModel.cli,
+          model: nextModel.model,
+          modelDisplayName: nextModel.displayName,
         }
       })
     }
 
-    await activePlugins.runHook('onTaskStart', taskContext)
-
-    let prompt = buildPrompt(task, retryContext)
+    let prompt = promptOverrides.get(task.id) ?? await promptTemplates.render({
+      task,
+      namespace,
+      cli: nextModel.cli,
+      model: nextModel.model,
+      retryAttempt: taskContext.retryAttempt,
+      retryContext,
+    })
+    promptOverrides.delete(task.id)
     retryContext = ''
 
+    const startDecision = await activePlugins.runDecisionHook('onBeforeTaskStart', { ...taskContext, prompt })
+    if (startDecision.action === 'skip' || startDecision.action === 'defer') {
+      activeLogger.warn(describeDecision(task.id, startDecision))
+      await releaseTask(backend, task.id, startDecision).catch(() => {})
+      skippedTasks.set(task.id, `by ${startDecision.plugin ?? 'a plugin'}`)
+      currentTaskContext = null
+      continue
+    }
+    if (startDecision.action === 'rewrite') {
+      activeLogger.debug(describeDecision(task.id, startDecision))
+      prompt = startDecision.prompt
+    }
+
+    await activePlugins.runHook('onTaskStart', taskContext)
+
     if (dbg) {
       const dbgInstance = dbg as any
       await dbgInstance.onEvent({
@@ -657,9 +757,17 @@ export async function run(options: Record<string, unknown> = {}, deps: RunDeps =
     let exitCode: number
     try {
       activeLogger.startSpinner(`Executing task ${task.id}...`)
-      exitCode = await cliExecutor.executeTask(task, prompt, outputFile, config.timeout || 600)
+      exitCode = await cliExecutor.executeTask(task, prompt, outputFile, config.timeout || 600, { namespace, ...modelPreference(task) })
       activeLogger.stopSpinner()
     } catch (error: unknown) {
+      if (error instanceof BudgetSkipError) {
+        activeLogger.stopSpinner()
+        activeLogger.warn(`Skipping task ${task.id}: ${error.message}`)
+        skippedTasks.set(task.id, 'for exceeding its budget')
+        await backend.resetToPending(task.id).catch(() => {})
+        continue
+      }
+
       // Check for CLI not found error
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       if ((error as any).code === 'ENOENT' && (error as any).syscall === 'spawn') {
@@ -691,7 +799,50 @@ export async function run(options: Record<string, unknown> = {}, deps: RunDeps =
       throw error
     }
 
-    if (exitCode === 0) {
+    // A clean exit only completes the task once its success criteria are verified
+    let acceptanceFailure: string | undefined
+    let acceptanceReport: AcceptanceReport | null = null
+    if (exitCode === 0 && acceptanceVerifier) {
+      const output = fs.existsSync(outputFile) ? fs.readFileSync(outputFile, 'utf-8') : ''
+      activeLogger.startSpinner(`Verifying acceptance criteria for ${task.id}...`)
+      const report = await verifyAcceptanceStep(acceptanceVerifier, activePlugins, task, output)
+      acceptanceReport = report
+      activeLogger.stopSpinner()
+      if (report) {
+        await recordAcceptanceResults(backend, report)
+        if (!report.passed) {
+          acceptanceFailure = formatAcceptanceFailure(report)
+        }
+      }
+    }
+
+    if (exitCode === 0 && !acceptanceFailure) {
+      let output = ''
+      try {
+        if (fs.existsSync(outputFile)) {
+          output = fs.readFileSync(outputFile, 'utf-8')
+        }
+      } catch {}
+
+      const completeDecision = await activePlugins.runDecisionHook('onBeforeComplete', { ...taskContext, prompt }, {
+        output,
+        duration: (Date.now() - taskContext.startTime.getTime()) / 1000,
+        success: true,
+        acceptance: acceptanceReport ?? undefined,
+      })
+      if (completeDecision.action !== 'proceed') {
+        activeLogger.warn(describeDecision(task.id, completeDecision))
+        await releaseTask(backend, task.id, completeDecision).catch(() => {})
+        if (completeDecision.action === 'rewrite') {
+          promptOverrides.set(task.id, completeDecision.prompt)
+        } else {
+          skippedTasks.set(task.id, `by ${completeDecision.plugin ?? 'a plugin'}`)
+        }
+        await activePlugins.runHook('onTaskAbort', taskContext)
+        currentTaskContext = null
+        continue
+      }
+
       const comment = `Completed by Loopwork\n\nBackend: ${backend.name}\nSession: ${config.sessionId}\nIteration: ${iteration}`
       try {
         await backend.markCompleted(task.id, comment)
@@ -716,15 +867,15 @@ export async function run(options: Record<string, unknown> = {}, deps: RunDeps =
         continue
       }
 
-      let output = ''
-      try {
-        if (fs.existsSync(outputFile)) {
-          output = fs.readFileSync(outputFile, 'utf-8')
-        }
-      } catch {}
+      await recordTaskOutput(backend, task.id, output)
 
       const duration = (Date.now() - taskContext.startTime.getTime()) / 1000
-      await activePlugins.runHook('onTaskComplete', taskContext, { output, duration, success: true })
+      await activePlugins.runHook('onTaskComplete', taskContext, {
+        output,
+        duration,
+        success: true,
+        acceptance: acceptanceReport ?? undefined,
+      })
       currentTaskContext = null
 
       tasksCompleted++
@@ -744,7 +895,7 @@ export async function run(options: Record<string, unknown> = {}, deps: RunDeps =
         activeLogger.success(`Task ${task.id} completed!`)
       }
     } else {
-      const errorMsg = `Task ${task.id} failed after maximum retries\n\nSession: ${config.sessionId}\nIteration: ${iteration}`
+      const errorMsg = acceptanceFailure ?? `Task ${task.id} failed after maximum retries\n\nSession: ${config.sessionId}\nIteration: ${iteration}`
 
       try {
         // Record failure in state manager
@@ -794,13 +945,19 @@ export async function run(options: Record<string, unknown> = {}, deps: RunDeps =
           iteration,
           failed: true,
           attempts: maxRetries,
+          acceptanceFailure,
           tasksFailed,
           consecutiveFailures,
           lastOutput: lastOutput.substring(0, 500),
         })
       } else {
         activeLogger.raw('')
-        activeLogger.error(`Task ${task.id} failed after maximum attempts`)
+        if (acceptanceFailure) {
+          activeLogger.error(`Task ${task.id} failed acceptance verification`)
+          activeLogger.raw(acceptanceFailure)
+        } else {
+          activeLogger.error(`Task ${task.id} failed after maximum attempts`)
+        }
 
         if (lastOutput) {
           activeLogger.raw('')
@@ -902,12 +1059,16 @@ async function runParallel(
   activeLogger: RunLogger,
   handleLoopworkError: typeof handleError,
   runtimeProcess: NodeJS.Process,
-  isJsonMode: boolean = false
+  isJsonMode: boolean = false,
+  worktrees?: WorktreeIsolationProvider
 ): Promise<void> {
+  const promptTemplates = createPromptTemplates(config, backend, { recordContext: true })
   const parallelRunner = new ParallelRunner({
     config,
     backend,
     cliExecutor,
+    acceptanceVerifier: await createAcceptanceVerifier(config.projectRoot, config.acceptance),
+    worktrees,
     logger: activeLogger,
     pluginRegistry: activePlugins,
     onTaskStart: async (context) => {
@@ -931,7 +1092,12 @@ async function runParallel(
         activeLogger.emitWorkerStatus(status)
       }
     },
-    buildPrompt,
+    buildPrompt: (task, retryContext) => {
+      const { cli, model } = resolveTaskModel(task, cliExecutor, config.cli)
+      return promptTemplates.render({ task, namespace, cli, model, retryContext })
+    },
+    runDecisionHook: (hookName, context, result) => activePlugins.runDecisionHook(hookName, context, result),
+    selectTasks: activePlugins.hasTaskSelectors() ? tasks => activePlugins.selectTasks(tasks) : undefined,
   })
 
   // Handle interrupt signals
@@ -0,0 +1,103 @@
+import React from 'react'
+import { buildTimeline, type TimelineEntry } from '@loopwork-ai/task-scheduler'
+import { logger, renderInk, InkTable } from '../core/utils'
+import type { Config } from '../core/config'
+import type { TaskBackend } from '../backends'
+
+export interface ScheduleListOptions {
+  feature?: string
+  json?: boolean
+}
+
+export interface ScheduleDependencies {
+  /** Load the config with the command's own options, not the run flags in argv */
+  getConfig(options: ScheduleListOptions): Promise<Config>
+  createBackend(backendConfig: Config['backend']): TaskBackend
+  now(): number
+  logger: {
+    info: (msg: string) => void
+    success: (msg: string) => void
+    warn: (msg: string) => void
+    raw: (msg: string, noNewline?: boolean) => void
+  }
+}
+
+const defaultDependencies: ScheduleDependencies = {
+  async getConfig(options) {
+    const { getConfig } = await import('../core/config')
+    return getConfig({ feature: options.feature })
+  },
+  createBackend(backendConfig) {
+    const { createBackend } = require('../backends')
+    return createBackend(backendConfig)
+  },
+  now: () => Date.now(),
+  logger,
+}
+
+/** Widths of the timeline table columns */
+const COLUMN_WIDTHS = {
+  due: 22,
+  id: 12,
+  title: 30,
+  cron: 14,
+  nextRun: 22,
+  deadline: 32,
+}
+
+function formatTime(timestamp: number | undefined): string {
+  return timestamp === undefined ? '-' : new Date(timestamp).toLocaleString()
+}
+
+/**
+ * Show pending tasks in the order they will run: due tasks as the scheduler
+ * ranks them, then scheduled and recurring tasks by when they come due
+ */
+export async function scheduleList(options: ScheduleListOptions = {}, deps = defaultDependencies): Promise<TimelineEntry[]> {
+  const config = await deps.getConfig(options)
+  const backend = deps.createBackend(config.backend)
+
+  const tasks = await backend.listPendingTasks({ feature: options.feature })
+  const now = deps.now()
+  const timeline = buildTimeline(tasks, {}, { now: () => now })
+
+  if (options.json) {
+    deps.logger.raw(JSON.stringify(timeline, null, 2))
+    return timeline
+  }
+
+  if (timeline.length === 0) {
+    deps.logger.info('No pending tasks scheduled.')
+    return timeline
+  }
+
+  const tableOutput = await renderInk(
+    React.createElement(InkTable, {
+      headers: ['Due', 'ID', 'Title', 'Cron', 'Next run', 'Deadline'],
+      rows: timeline.map(entry => [
+        entry.due ? 'now' : formatTime(entry.dueAt),
+        entry.taskId,
+        entry.title.substring(0, COLUMN_WIDTHS.title - 1),
+        entry.cron ?? '-',
+        formatTime(entry.nextRunAt),
+        entry.deadline !== undefined && entry.deadline <= now
+          ? `${formatTime(entry.deadline)} (overdue)`
+          : formatTime(entry.deadline),
+      ]),
+      columnConfigs: [
+        { width: COLUMN_WIDTHS.due, align: 'left' },
+        { width: COLUMN_WIDTHS.id, align: 'left' },
+        { width: COLUMN_WIDTHS.title, align: 'left' },
+        { width: COLUMN_WIDTHS.cron, align: 'left' },
+        { width: COLUMN_WIDTHS.nextRun, align: 'left' },
+        { width: COLUMN_WIDTHS.deadline, align: 'left' },
+      ],
+    })
+  )
+
+  deps.logger.raw(tableOutput)
+
+  const due = timeline.filter(entry => entry.due).length
+  deps.logger.info(`${due} due now, ${timeline.length - due} scheduled for later`)
+  return timeline
+}
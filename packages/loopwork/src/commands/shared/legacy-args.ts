@@ -0,0 +1,72 @@
+// Legacy args that should trigger auto-insertion of 'run' subcommand
+const RUN_ARGS = [
+  '--resume',
+  '--dry-run',
+  '--feature',
+  '--task',
+  '--max-iterations',
+  '--timeout',
+  '--cli',
+  '--model',
+  '--backend',
+  '--repo',
+  '--tasks-file',
+  '--namespace',
+  '--config',
+  '--debug',
+  '--parallel',
+  '--sequential',
+  '-y',
+  '--yes',
+  '--quiet',
+  '-q',
+  '--verbose',
+  '-v',
+]
+
+// Subcommands (and top-level flags) that take their own options
+const SUBCOMMANDS = [
+  'run',
+  'init',
+  'start',
+  'stop',
+  'kill',
+  'status',
+  'logs',
+  'monitor',
+  'restart',
+  'dashboard',
+  'help',
+  '--help',
+  '-h',
+  '--version',
+  '-V',
+  'd',
+  'decompose',
+  'task-new',
+  'up',
+  'down',
+  'ps',
+  'models:configure',
+  'sqlite',
+  'plan',
+  'prompt',
+  'audit',
+  'index',
+  'approvals',
+  'models',
+  'schedule',
+]
+
+/**
+ * Check if args contain flags that should trigger 'run' command
+ */
+export function shouldAutoInsertRun(args: string[]): boolean {
+  // If first arg is a known subcommand, don't auto-insert
+  if (args.length > 0 && SUBCOMMANDS.includes(args[0])) {
+    return false
+  }
+
+  // Check if any of the args match run-specific flags
+  return args.some(arg => RUN_ARGS.some(runArg => arg === runArg || arg.startsWith(runArg + '=')))
+}
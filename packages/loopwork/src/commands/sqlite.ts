@@ -0,0 +1,117 @@
+import path from 'path'
+import { logger } from '../core/utils'
+import type { Config } from '../core/config'
+import type { MigrationResult, JsonMigrationOptions, SqliteTaskAdapter } from '@loopwork-ai/backend-sqlite'
+
+export interface SqliteMigrateOptions {
+  tasksFile?: string
+  tasksDir?: string
+  dbFile?: string
+}
+
+export interface SqliteDependencies {
+  getConfig(): Promise<Config>
+  importFromJson(dbFile: string, options: JsonMigrationOptions): Promise<MigrationResult>
+  exportToJson(dbFile: string, options: JsonMigrationOptions): Promise<MigrationResult>
+  logger: {
+    info: (msg: string) => void
+    success: (msg: string) => void
+  }
+}
+
+async function withAdapter<T>(dbFile: string, fn: (adapter: SqliteTaskAdapter) => Promise<T>): Promise<T> {
+  const { SqliteTaskAdapter } = await import('@loopwork-ai/backend-sqlite')
+  const adapter = new SqliteTaskAdapter({ type: 'sqlite', dbFile })
+  try {
+    return await fn(adapter)
+  } finally {
+    adapter.close()
+  }
+}
+
+const defaultDependencies: SqliteDependencies = {
+  async getConfig() {
+    const { getConfig } = await import('../core/config')
+    return getConfig()
+  },
+  async importFromJson(dbFile, options) {
+    const { importFromJson } = await import('@loopwork-ai/backend-sqlite')
+    return withAdapter(dbFile, adapter => importFromJson(adapter, options))
+  },
+  async exportToJson(dbFile, options) {
+    const { exportToJson } = await import('@loopwork-ai/backend-sqlite')
+    return withAdapter(dbFile, adapter => exportToJson(adapter, options))
+  },
+  logger,
+}
+
+/**
+ * Resolve paths from explicit options, then the configured backend,
+ * then the default .specs/tasks layout
+ */
+function resolvePaths(config: Config, options: SqliteMigrateOptions) {
+  const specsDir = path.join(config.projectRoot, '.specs/tasks')
+  const backend = config.backend as { type: string; tasksFile?: string; tasksDir?: string; dbFile?: string }
+
+  const tasksFile = options.tasksFile ||
+    (backend.type === 'json' ? backend.tasksFile : undefined) ||
+    path.join(specsDir, 'tasks.json')
+  const tasksDir = options.tasksDir ||
+    (backend.type === 'json' ? backend.tasksDir : undefined) ||
+    path.dirname(tasksFile)
+  const dbFile = options.dbFile ||
+    (backend.type === 'sqlite' ? backend.dbFile : undefined) ||
+    path.join(specsDir, 'tasks.db')
+
+  return { tasksFile, tasksDir, dbFile }
+}
+
+export async function importTasks(options: SqliteMigrateOptions = {}, deps = defaultDependencies) {
+  const config = await deps.getConfig()
+  const { tasksFile, tasksDir, dbFile } = resolvePaths(config, options)
+
+  deps.logger.info(`Importing ${tasksFile} into ${dbFile}...`)
+  const result = await deps.importFromJson(dbFile, { tasksFile, tasksDir })
+  deps.logger.success(`Imported ${result.tasks} tasks (${result.prdFiles} PRD files, ${result.logFiles} log files)`)
+  deps.logger.info('Switch your config to withSQLiteBackend() or set LOOPWORK_BACKEND=sqlite to use it.')
+  return result
+}
+
+export async function exportTasks(options: SqliteMigrateOptions = {}, deps = defaultDependencies) {
+  const config = await deps.getConfig()
+  const { tasksFile, tasksDir, dbFile } = resolvePaths(config, options)
+
+  deps.logger.info(`Exporting ${dbFile} to ${tasksFile}...`)
+  const result = await deps.exportToJson(dbFile, { tasksFile, tasksDir })
+  deps.logger.success(`Exported ${result.tasks} tasks (${result.prdFiles} PRD files, ${result.logFiles} log files)`)
+  return result
+}
+
+export function createSqliteCommand() {
+  return {
+    name: 'sqlite',
+    description: 'Move tasks between the JSON and SQLite backends',
+    usage: '<subcommand> [options]',
+    subcommands: [
+      {
+        name: 'import',
+        description: 'Import tasks.json and markdown PRDs into the SQLite database',
+        examples: [
+          { command: 'loopwork sqlite import', description: 'Import .specs/tasks into .specs/tasks/tasks.db' },
+          { command: 'loopwork sqlite import --tasks-file tasks.json --db-file tasks.db', description: 'Use custom paths' },
+        ],
+      },
+      {
+        name: 'export',
+        description: 'Export the SQLite database back to tasks.json and markdown PRDs',
+        examples: [
+          { command: 'loopwork sqlite export', description: 'Export .specs/tasks/tasks.db into .specs/tasks' },
+        ],
+      },
+    ],
+    handler: {
+      import: importTasks,
+      export: exportTasks,
+    },
+  }
+}
@@ -4,6 +4,7 @@ import type { ChalkInstance } from 'chalk'
 import React from 'react'
 import { logger, InkTable, getEmoji, renderInk, InkSeparator } from '../core/utils'
 import type { StatusJsonOutput } from '../contracts/output'
+import type { StageProgress } from '@loopwork-ai/workflow'
 
 export interface StatusDeps {
   MonitorClass: typeof LoopworkMonitor
@@ -23,11 +24,30 @@ export interface StatusDeps {
   chalk: ChalkInstance
   logger?: typeof logger
   json?: boolean
+  /** Progress of the project's workflow, null when it has none */
+  getWorkflowProgress?: () => Promise<StatusJsonOutput['workflow'] | null>
+}
+
+const STAGE_STATE_COLORS: Record<StageProgress['state'], 'gray' | 'yellow' | 'green' | 'red'> = {
+  waiting: 'gray',
+  running: 'yellow',
+  succeeded: 'green',
+  failed: 'red',
+  skipped: 'gray',
 }
 
 export async function status(deps: StatusDeps): Promise<void> {
   const { MonitorClass, fs, path, isProcessAlive, formatUptime, formatDuration, cwd, chalk, logger: activeLogger = logger, json: isJsonMode = false } = deps
 
+  let workflow: StatusJsonOutput['workflow'] | null = null
+  if (deps.getWorkflowProgress) {
+    try {
+      workflow = await deps.getWorkflowProgress()
+    } catch (err) {
+      activeLogger.debug(`Workflow progress unavailable: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
   const monitor = new MonitorClass()
   const { running: monitorRunning, namespaces } = monitor.getStatus()
 
@@ -78,6 +98,7 @@ export async function status(deps: StatusDeps): Promise<void> {
         total: processes.length,
         active: processes.length,
       },
+      ...(workflow ? { workflow } : {}),
     }
 
     activeLogger.raw(JSON.stringify(output, null, 2))
@@ -151,6 +172,28 @@ export async function status(deps: StatusDeps): Promise<void> {
     activeLogger.raw('')
   }
 
+  if (workflow) {
+    const done = workflow.stages.filter(s => s.state === 'succeeded' || s.state === 'skipped').length
+    activeLogger.raw('')
+    activeLogger.raw(chalk.bold(`Workflow ${workflow.name} (${done}/${workflow.stages.length} stages done):`))
+
+    const rows = workflow.stages.map(stage => [
+      chalk.bold(stage.stage),
+      chalk[STAGE_STATE_COLORS[stage.state]](stage.state),
+      `${stage.completed}/${stage.total}`,
+      stage.inProgress.toString(),
+      stage.failed > 0 ? chalk.red(stage.failed.toString()) : '0',
+    ])
+
+    const tableOutput = await renderInk(
+      React.createElement(InkTable, {
+        headers: ['Stage', 'State', 'Done', 'Running', 'Failed'],
+        rows,
+      })
+    )
+    activeLogger.raw(tableOutput)
+  }
+
   if (namespaces.length > 0) {
     activeLogger.raw('')
     activeLogger.raw(chalk.bold('All Namespaces:'))
@@ -0,0 +1,51 @@
+import { describe, expect, test, mock } from 'bun:test'
+import { importTasks, exportTasks, createSqliteCommand, type SqliteDependencies } from '../sqlite'
+import type { Config } from '../../core/config'
+
+function createDeps(backend: Config['backend']): SqliteDependencies {
+  return {
+    getConfig: async () => ({ projectRoot: '/repo', backend } as Config),
+    importFromJson: mock(async () => ({ tasks: 3, prdFiles: 2, logFiles: 1 })),
+    exportToJson: mock(async () => ({ tasks: 3, prdFiles: 3, logFiles: 1 })),
+    logger: { info: mock(() => {}), success: mock(() => {}) },
+  }
+}
+
+describe('sqlite command', () => {
+  test('import uses the configured JSON backend paths', async () => {
+    const deps = createDeps({ type: 'json', tasksFile: '/repo/tasks/tasks.json', tasksDir: '/repo/tasks' })
+
+    const result = await importTasks({}, deps)
+
+    expect(result.tasks).toBe(3)
+    expect(deps.importFromJson).toHaveBeenCalledWith('/repo/.specs/tasks/tasks.db', {
+      tasksFile: '/repo/tasks/tasks.json',
+      tasksDir: '/repo/tasks',
+    })
+  })
+
+  test('export uses the configured SQLite database', async () => {
+    const deps = createDeps({ type: 'sqlite', dbFile: '/repo/data/tasks.db' })
+
+    await exportTasks({}, deps)
+
+    expect(deps.exportToJson).toHaveBeenCalledWith('/repo/data/tasks.db', {
+      tasksFile: '/repo/.specs/tasks/tasks.json',
+      tasksDir: '/repo/.specs/tasks',
+    })
+  })
+
+  test('explicit options override config', async () => {
+    const deps = createDeps({ type: 'github', repo: 'owner/repo' })
+
+    await importTasks({ tasksFile: '/tmp/t.json', dbFile: '/tmp/t.db' }, deps)
+
+    expect(deps.importFromJson).toHaveBeenCalledWith('/tmp/t.db', { tasksFile: '/tmp/t.json', tasksDir: '/tmp' })
+  })
+
+  test('createSqliteCommand describes both subcommands', () => {
+    const command = createSqliteCommand()
+    expect(command.name).toBe('sqlite')
+    expect(command.subcommands.map(s => s.name)).toEqual(['import', 'export'])
+  })
+})
@@ -0,0 +1,136 @@
+/**
+ * Acceptance Criteria Contracts
+ *
+ * Types for verifying a task's PRD success criteria after the CLI exits
+ * and before the task is marked completed.
+ */
+
+import type { Task } from './types'
+
+/**
+ * How a success criterion is checked
+ *
+ * @example
+ * { type: 'command', command: 'bun run build' }
+ * { type: 'test', pattern: 'test/auth/**\/*.test.ts' }
+ * { type: 'grep', pattern: 'export function login', files: 'src/**\/*.ts' }
+ * { type: 'llm' }
+ */
+export type AcceptanceCheck =
+  | {
+      type: 'command'
+      /** Shell command that must exit 0 */
+      command: string
+    }
+  | {
+      type: 'test'
+      /** Glob of test files to run; at least one file must match */
+      pattern: string
+    }
+  | {
+      type: 'grep'
+      /** Regular expression searched for in the matching files */
+      pattern: string
+      /** Glob of files to search */
+      files: string
+      /** Pass when the pattern is NOT found */
+      absent?: boolean
+    }
+  | {
+      type: 'llm'
+    }
+
+export type AcceptanceCheckType = AcceptanceCheck['type']
+
+/**
+ * Success criterion mapped to a check
+ */
+export interface AcceptanceCriterion {
+  /** Criterion text from the PRD, without check directives */
+  text: string
+  /** Unset when no directive or rule applies and the fallback is 'skip' */
+  check?: AcceptanceCheck
+  /** Whether a failure fails the task (criteria marked "(optional)" are not) */
+  required: boolean
+  /** The check came from a directive in the task text rather than the config */
+  inline?: boolean
+}
+
+/**
+ * Map criteria matching a pattern to a check
+ *
+ * @example
+ * { match: 'type.?check', check: { type: 'command', command: 'bun run typecheck' } }
+ */
+export interface AcceptanceRule {
+  /** Regular expression matched case-insensitively against the criterion text */
+  match: string
+  check: AcceptanceCheck
+}
+
+export type CriterionStatus = 'passed' | 'failed' | 'skipped'
+
+/**
+ * Result of checking one criterion
+ */
+export interface CriterionResult {
+  criterion: string
+  check: AcceptanceCheckType | 'none'
+  required: boolean
+  status: CriterionStatus
+  /** Command output, matches or judge reasoning */
+  detail: string
+  durationMs: number
+}
+
+/**
+ * Result of checking all criteria of a task
+ */
+export interface AcceptanceReport {
+  taskId: string
+  /** False when any required criterion failed */
+  passed: boolean
+  results: CriterionResult[]
+  /** Required criteria that failed */
+  failures: CriterionResult[]
+}
+
+/**
+ * Acceptance gate configuration
+ */
+export interface AcceptanceConfig {
+  /** Enable the gate (default: true once configured) */
+  enabled?: boolean
+  /** Rules for criteria without an inline check directive */
+  rules?: AcceptanceRule[]
+  /** Check for criteria no directive or rule applies to (default: 'llm') */
+  fallback?: 'llm' | 'skip'
+  /** Command test files are appended to (default: 'bun test') */
+  testCommand?: string
+  /** Timeout per command or test check in milliseconds (default: 300000) */
+  timeoutMs?: number
+  /** Model for the LLM judge */
+  judgeModel?: string
+  /**
+   * Inline `run:` commands from task text that may run, as regular
+   * expressions matched against the whole command. Other inline commands
+   * do not run and fail their criterion (skipped when optional); commands
+   * in rules always run.
+   */
+  allowCommands?: string[]
+  /** Run every inline `run:` command; only for task sources you trust (default: false) */
+  allowInlineCommands?: boolean
+}
+
+/**
+ * Verifies a task's success criteria
+ */
+export interface IAcceptanceVerifier {
+  /**
+   * Check the task's success criteria against the working tree and CLI output
+   *
+   * @param cwd - Directory to check instead of the configured one (e.g. the task's worktree)
+   * @returns The report, or null when the task has no success criteria
+   */
+  verify(task: Task, output: string, cwd?: string): Promise<AcceptanceReport | null>
+}
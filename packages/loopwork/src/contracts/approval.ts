@@ -0,0 +1,65 @@
+/**
+ * Approval Contracts
+ *
+ * Types for human approval of tasks. Requests are shared through files, so
+ * the process waiting for a decision and every place one can be made (CLI,
+ * Telegram, dashboard) see the same state.
+ */
+
+import type { RiskLevel } from './safety'
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired'
+
+/**
+ * A task waiting for a human decision
+ *
+ * @example
+ * {
+ *   id: 'apr_1767312000000_k3j9x2',
+ *   taskId: 'DB-004',
+ *   title: 'Drop the legacy sessions table',
+ *   namespace: 'default',
+ *   riskLevel: 'critical',
+ *   reasons: ['Contains critical keywords: drop table'],
+ *   requestedAt: '2026-01-02T00:00:00.000Z',
+ *   expiresAt: '2026-01-03T00:00:00.000Z'
+ * }
+ */
+export interface ApprovalRequest {
+  id: string
+  taskId: string
+  title: string
+  namespace: string
+  riskLevel: RiskLevel | `${RiskLevel}`
+  reasons: string[]
+  requestedAt: string
+  /** Rejected as expired when still undecided at this time */
+  expiresAt?: string
+  /** Set once the request has been escalated */
+  escalatedAt?: string
+  /** Process waiting for the decision */
+  pid?: number
+  /** Set once the waiting process has acted on the decision */
+  settledAt?: string
+}
+
+/**
+ * Outcome of an approval request; made at most once
+ */
+export interface ApprovalDecision {
+  status: Exclude<ApprovalStatus, 'pending'>
+  /** Who decided, e.g. a username, or `system` when the request expired */
+  decidedBy: string
+  /** Where it was decided: cli, telegram, dashboard or expiry */
+  channel: string
+  reason?: string
+  decidedAt: string
+}
+
+/**
+ * An approval request with its current status
+ */
+export interface Approval extends ApprovalRequest {
+  status: ApprovalStatus
+  decision?: ApprovalDecision
+}
@@ -9,12 +9,15 @@
  */
 
 import { DEFAULT_RATE_LIMIT_WAIT_MS } from '@loopwork-ai/resilience'
+import type { AdaptiveRoutingConfig, CustomCliConfig } from '@loopwork-ai/contracts'
 import type { ModelCapabilityLevel, ModelRoleType } from './capability-types'
 
+export type { AdaptiveRoutingConfig, CustomCliConfig }
+
 /**
- * Supported CLI types
+ * Supported CLI types, or the name of a CLI declared in `customClis`
  */
-export type CliType = 'claude' | 'opencode' | 'gemini'
+export type CliType = 'claude' | 'opencode' | 'gemini' | (string & {})
 
 /**
  * Model selection strategies
@@ -23,8 +26,9 @@ export type CliType = 'claude' | 'opencode' | 'gemini'
  * - priority: Always try first available model first
  * - cost-aware: Prefer lower cost models when possible
  * - random: Random selection from available models
+ * - adaptive: Learn from past outcomes which models succeed on which kinds of task
  */
-export type ModelSelectionStrategy = 'round-robin' | 'priority' | 'cost-aware' | 'capability' | 'random'
+export type ModelSelectionStrategy = 'round-robin' | 'priority' | 'cost-aware' | 'capability' | 'random' | 'adaptive'
 
 /**
  * Configuration for a single model
@@ -164,6 +168,11 @@ export interface CliPathConfig {
    * Overrides auto-detection
    */
   gemini?: string
+
+  /**
+   * Custom paths of other CLIs, by name
+   */
+  [cli: string]: string | undefined
 }
 
 /**
@@ -192,6 +201,13 @@ export interface CliExecutorConfig {
    */
   cliPaths?: CliPathConfig
 
+  /**
+   * AI CLIs declared in config instead of built in
+   * Models use them through their `cli` field, e.g. `{ name: 'aider-sonnet', cli: 'aider', model: 'sonnet' }`
+   * Paths can be set via LOOPWORK_<NAME>_PATH, e.g. LOOPWORK_AIDER_PATH
+   */
+  customClis?: CustomCliConfig[]
+
   /**
    * Retry and rate-limit configuration
    */
@@ -203,6 +219,12 @@ export interface CliExecutorConfig {
    */
   selectionStrategy?: ModelSelectionStrategy
 
+  /**
+   * Options for the 'adaptive' selection strategy
+   * Learned stats are kept in .loopwork/model-stats.json; see `loopwork models stats`
+   */
+  adaptive?: AdaptiveRoutingConfig
+
   /**
    * Delay before SIGKILL after SIGTERM (milliseconds)
    * Default: 5000 (5 seconds)
@@ -5,6 +5,11 @@
 import type { LoopworkPlugin } from './plugin'
 import type { BackendConfig } from './backend'
 import type { CliExecutorConfig } from './cli'
+import type { AcceptanceConfig } from './acceptance'
+import type { PromptConfig } from './prompt'
+import type { WorktreeProviderOptions } from '@loopwork-ai/isolation'
+import type { SharedRateLimitConfig } from '@loopwork-ai/contracts'
+import type { RedactionOptions } from '@loopwork-ai/common'
 import type {
   LogLevel,
   OutputMode,
@@ -18,6 +23,16 @@ import type {
 export type { TaskAnalyzer } from './analysis'
 export type { LogLevel, OutputMode, ParallelFailureMode, OrphanWatchConfig, FeatureFlags, DynamicTasksConfig, DeadletterPolicy }
 
+/**
+ * Isolation of parallel workers
+ */
+export interface IsolationConfig {
+  /** 'worktree' gives each task its own git worktree and branch (default: 'local') */
+  provider?: 'local' | 'worktree'
+  /** Worktree location, branch naming and merge strategy */
+  worktree?: Omit<WorktreeProviderOptions, 'repoRoot'>
+}
+
 /**
  * Main Loopwork configuration
  */
@@ -59,6 +74,31 @@ export interface LoopworkConfig {
     persistence?: boolean
   }
   checkpoint?: import('../core/checkpoint-integrator').CheckpointConfig
+  /**
+   * Verify PRD success criteria before marking tasks completed
+   */
+  acceptance?: AcceptanceConfig
+  /**
+   * Prompt templates and project conventions
+   */
+  prompts?: PromptConfig
+  /**
+   * Where parallel workers run their CLI
+   */
+  isolation?: IsolationConfig
+  /**
+   * Provider rate limits shared by every namespace running on this machine
+   */
+  rateLimits?: SharedRateLimitConfig
+  /**
+   * Rules for masking secrets in logs, task events and notifications
+   */
+  redaction?: RedactionOptions
+  /**
+   * Workflow file materialized into tasks on start, relative to the project root
+   * (default: loopwork.workflow.yaml when it exists, false to disable)
+   */
+  workflow?: string | false
   /**
    * Resource limits for spawned processes
    */
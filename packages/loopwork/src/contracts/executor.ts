@@ -1,4 +1,4 @@
-import type { ExecutionOptions, ITaskMinimal } from '@loopwork-ai/contracts'
+import type { ExecutionOptions, ITaskMinimal, ModelPreference } from '@loopwork-ai/contracts'
 import type { Config } from '../core/config'
 
 export interface ICliExecutor {
@@ -20,7 +20,7 @@ export interface ICliExecutor {
   killCurrent(): void
   resetFallback(): void
   cleanup(): Promise<void>
-  getNextModel?(): { cli: string; model: string; displayName?: string } | null
+  getNextModel?(preference?: ModelPreference): { cli: string; model: string; displayName?: string } | null
   
   /**
    * Update executor configuration at runtime (for hot reload support).
@@ -37,6 +37,7 @@ export type {
   BackendConfig,
   JsonBackendConfig,
   GithubBackendConfig,
+  SqliteBackendConfig,
   FallbackBackendConfig,
   LooseBackendConfig,
 } from './types'
@@ -59,6 +60,9 @@ export type {
   TaskOutputAnalysisRequest,
   TaskOutputAnalysisResponse,
   ITaskOutputAnalyzer,
+  CriterionJudgeRequest,
+  CriterionJudgeResponse,
+  ICriterionJudge,
   AnyLLMAnalyzer,
   AnyAnalyzerRequest,
   AnyAnalyzerResponse,
@@ -75,6 +79,10 @@ export type {
   TaskContext,
   ConfigWrapper,
   LoopworkContext,
+  PluginHookEvent,
+  BeforeHookContext,
+  HookDecision,
+  PluginHookDecision,
 } from './plugin'
 
 // Capability types
@@ -106,6 +114,8 @@ export type {
   RetryConfig,
   CliPathConfig,
   CliExecutorConfig,
+  CustomCliConfig,
+  AdaptiveRoutingConfig,
 } from './cli'
 export { DEFAULT_RETRY_CONFIG, DEFAULT_CLI_EXECUTOR_CONFIG } from './cli'
 
@@ -118,6 +128,18 @@ export type { IStateManager, StateSnapshot, IStateManagerConstructor } from './s
 // Documentation types
 export type { IDocGenerator, IChangeLogProvider } from '@loopwork-ai/contracts'
 
+// Sync types
+export type {
+  ISyncRemote,
+  RemoteSyncItem,
+  SyncFields,
+  SyncField,
+  SyncFieldMapping,
+  SyncConflict,
+  SyncConflictResolution,
+  SyncResult,
+} from '@loopwork-ai/contracts'
+
 // Spawner types
 export type {
   SpawnedProcess,
@@ -155,6 +177,36 @@ export type {
 } from './safety'
 export { RiskLevel, DEFAULT_SAFETY_CONFIG } from './safety'
 
+// Approval types
+export type {
+  ApprovalStatus,
+  ApprovalRequest,
+  ApprovalDecision,
+  Approval,
+} from './approval'
+
+// Acceptance criteria types
+export type {
+  AcceptanceCheck,
+  AcceptanceCheckType,
+  AcceptanceCriterion,
+  AcceptanceRule,
+  CriterionStatus,
+  CriterionResult,
+  AcceptanceReport,
+  AcceptanceConfig,
+  IAcceptanceVerifier,
+} from './acceptance'
+
+// Prompt template types
+export type {
+  PromptConfig,
+  DependencyOutput,
+  CodeSnippet,
+  PromptTemplateContext,
+  PromptRenderInput,
+} from './prompt'
+
 // Embedding types
 export type {
   EmbeddingProvider,
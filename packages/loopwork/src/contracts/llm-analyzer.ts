@@ -171,21 +171,63 @@ export interface ITaskOutputAnalyzer
   fallbackToPattern?: boolean
 }
 
+// ============================================================================
+// Criterion Judge Types
+// ============================================================================
+
+/**
+ * Request to judge whether a task meets a success criterion
+ */
+export interface CriterionJudgeRequest {
+  /** The task that was executed */
+  task: Task
+
+  /** Success criterion text */
+  criterion: string
+
+  /** CLI output of the execution */
+  output: string
+}
+
+/**
+ * Judge verdict for a success criterion
+ */
+export interface CriterionJudgeResponse {
+  /** Whether the criterion is met */
+  passed: boolean
+
+  /** Reasoning for the verdict */
+  reason: string
+
+  /** Confidence level (0-1) */
+  confidence: number
+}
+
+/**
+ * Criterion judge interface
+ * Decides whether a success criterion is met; returns null when no LLM is available
+ */
+export interface ICriterionJudge
+  extends ILLMAnalyzer<CriterionJudgeRequest, CriterionJudgeResponse | null> {
+  readonly name: 'criterion-judge'
+}
+
 // ============================================================================
 // Union Types for Runtime Swapping
 // ============================================================================
 
 /** All analyzer types */
-export type AnyLLMAnalyzer = IErrorAnalyzer | ITaskOutputAnalyzer
+export type AnyLLMAnalyzer = IErrorAnalyzer | ITaskOutputAnalyzer | ICriterionJudge
 
 /** All analyzer request types */
-export type AnyAnalyzerRequest = ErrorAnalysisRequest | TaskOutputAnalysisRequest
+export type AnyAnalyzerRequest = ErrorAnalysisRequest | TaskOutputAnalysisRequest | CriterionJudgeRequest
 
 /** All analyzer response types */
 export type AnyAnalyzerResponse =
   | ErrorAnalysisResponse
   | null
   | TaskOutputAnalysisResponse
+  | CriterionJudgeResponse
 
 // ============================================================================
 // Analyzer Registry
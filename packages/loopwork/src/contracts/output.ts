@@ -4,6 +4,8 @@
  * Standardized JSON output schemas for CLI commands
  */
 
+import type { StageProgress } from '@loopwork-ai/workflow'
+
 /**
  * Output format type
  * @deprecated Use OutputMode from './config' instead
@@ -56,6 +58,11 @@ export interface StatusJsonOutput {
     total: number
     active: number
   }
+  /** Per-stage progress of the project's workflow, when it has one */
+  workflow?: {
+    name: string
+    stages: StageProgress[]
+  }
 }
 
 /**
@@ -15,6 +15,7 @@ import type {
   FeatureFlags,
   TaskBackend,
 } from './types'
+import type { HookDecision, PluginHookDecision, PluginHookEvent } from '@loopwork-ai/contracts'
 import type { PluginCapabilities, CapabilityRegistry } from './capability'
 import type { RetryPolicy } from '../core/retry'
 
@@ -71,6 +72,11 @@ export interface TaskContext {
    * Worker ID for parallel execution (0, 1, 2, etc.)
    */
   workerId?: number
+  /**
+   * Directory the agent works in when it is not the current directory,
+   * e.g. the task's git worktree with worktree isolation
+   */
+  workDir?: string
   /**
    * Message bus for inter-process communication
    */
@@ -79,6 +85,14 @@ export interface TaskContext {
 
 export type LoopworkContext = TaskContext
 
+/**
+ * Context passed to onBeforeTaskStart and onBeforeComplete
+ */
+export interface BeforeHookContext extends TaskContext {
+  /** Prompt the task is (or was) run with */
+  prompt: string
+}
+
 /**
  * Plugin interface - implement to extend Loopwork
  */
@@ -87,15 +101,25 @@ export interface LoopworkPlugin {
   readonly classification?: 'critical' | 'enhancement'
   readonly essential?: boolean
   readonly requiresNetwork?: boolean
+  /** Hooks of plugins with a higher priority run first (default: 0) */
+  readonly priority?: number
+  /** Milliseconds each hook may take before it is abandoned and counted as a failure */
+  readonly timeoutMs?: number
   readonly capabilities?: PluginCapabilities | (() => PluginCapabilities)
   registerCapabilities?: (registry: CapabilityRegistry) => void | Promise<void>
   onConfigLoad?: (config: unknown) => unknown | Promise<unknown>
   onBackendReady?: (backend: TaskBackend) => void | Promise<void>
+  /** Orders (or narrows) the tasks that are due, before the next one is claimed */
+  onSelectTasks?: (tasks: Task[]) => Task[] | void | Promise<Task[] | void>
   onLoopStart?: (namespace: string) => void | Promise<void>
   onLoopEnd?: (stats: LoopStats) => void | Promise<void>
   onTaskStart?: (context: TaskContext) => void | Promise<void>
   onTaskComplete?: (context: TaskContext, result: PluginTaskResult) => void | Promise<void>
   onTaskFailed?: (context: TaskContext, error: string) => void | Promise<void>
+  /** Decides whether a task runs, after its prompt is built */
+  onBeforeTaskStart?: (context: BeforeHookContext) => HookDecision | void | Promise<HookDecision | void>
+  /** Decides whether a successful task is marked completed */
+  onBeforeComplete?: (context: BeforeHookContext, result: PluginTaskResult) => HookDecision | void | Promise<HookDecision | void>
   onTaskQuarantined?: (context: TaskContext, reason: string) => void | Promise<void>
   onTaskRetry?: (context: TaskContext, error: string) => void | Promise<void>
   onTaskAbort?: (context: TaskContext) => void | Promise<void>
@@ -103,9 +127,11 @@ export interface LoopworkPlugin {
   onToolCall?: (event: ToolCallEvent) => void | Promise<void>
   onAgentResponse?: (event: AgentResponseEvent) => void | Promise<void>
   onCliResult?: (event: CliResultEvent) => void | Promise<void>
+  /** Observes every other plugin's hook calls; must not throw */
+  onPluginHook?: (event: PluginHookEvent) => void
 }
 
-export type { SchedulingMetadata, TaskMetadata, PluginTaskResult, LoopStats, StepEvent, ToolCallEvent, AgentResponseEvent, CliResultEvent }
+export type { SchedulingMetadata, TaskMetadata, PluginTaskResult, LoopStats, StepEvent, ToolCallEvent, AgentResponseEvent, CliResultEvent, PluginHookEvent, HookDecision, PluginHookDecision }
 
 /**
  * Config wrapper function type
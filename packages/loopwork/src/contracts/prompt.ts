@@ -0,0 +1,109 @@
+/**
+ * Prompt Template Contracts
+ *
+ * Types for the Handlebars templates that turn a task into the prompt
+ * sent to the AI CLI.
+ */
+
+import type { Task } from './task'
+
+/**
+ * Prompt template configuration
+ *
+ * Template values are either inline Handlebars or a path to a template file,
+ * relative to the project root. The most specific match wins: CLI, then
+ * feature, then namespace, then `template`, then the built-in template.
+ *
+ * @example
+ * prompts: {
+ *   template: '.loopwork/prompts/default.hbs',
+ *   features: { billing: '.loopwork/prompts/billing.hbs' },
+ *   clis: { opencode: '.loopwork/prompts/opencode.hbs' },
+ *   conventions: ['No semicolons, single quotes', 'Run `bun run typecheck` before tests'],
+ * }
+ */
+export interface PromptConfig {
+  /** Template for every task without a more specific one */
+  template?: string
+  /** Templates by namespace */
+  namespaces?: Record<string, string>
+  /** Templates by task feature */
+  features?: Record<string, string>
+  /** Templates by CLI (claude, opencode, gemini, ...) */
+  clis?: Record<string, string>
+  /** Project conventions listed in the prompt */
+  conventions?: string[]
+  /**
+   * Markdown file with more conventions, one per line
+   * (default: .loopwork/conventions.md when it exists)
+   */
+  conventionsFile?: string
+  /** Code snippets retrieved for the task and shown in the prompt (default: 5, 0 to disable) */
+  maxCodeSnippets?: number
+  /** Token budget shared by the retrieved snippets (default: 4000) */
+  maxContextTokens?: number
+}
+
+/**
+ * Output of a task this task depends on
+ */
+export interface DependencyOutput {
+  id: string
+  title: string
+  status: string
+  /** End of the CLI output recorded when the dependency completed */
+  output?: string
+}
+
+/**
+ * Code or earlier task output retrieved as relevant to the task
+ */
+export interface CodeSnippet {
+  file: string
+  content: string
+  lineStart?: number
+  lineEnd?: number
+  score?: number
+  /** Set when the snippet is the output of an earlier task */
+  taskId?: string
+}
+
+/**
+ * Data a prompt template is rendered with
+ */
+export interface PromptTemplateContext {
+  task: {
+    id: string
+    title: string
+    description: string
+    priority: string
+    feature?: string
+    /** Source URL or PRD file */
+    url?: string
+    metadata: Record<string, unknown>
+  }
+  successCriteria: string[]
+  failureCriteria: string[]
+  dependencies: DependencyOutput[]
+  /** Set when the task is being retried */
+  retry: { attempt: number; context: string } | null
+  conventions: string[]
+  codeContext: CodeSnippet[]
+  namespace: string
+  cli?: string
+  model?: string
+}
+
+/**
+ * What a prompt is rendered for
+ */
+export interface PromptRenderInput {
+  task: Task
+  namespace: string
+  cli?: string
+  model?: string
+  retryAttempt?: number
+  retryContext?: string
+  dependencies?: DependencyOutput[]
+  codeContext?: CodeSnippet[]
+}
@@ -1,6 +1,6 @@
 import type { TaskAnalyzer } from './analysis'
 
-export type TaskStatus = 'pending' | 'in-progress' | 'completed' | 'failed' | 'quarantined' | 'cancelled'
+export type TaskStatus = 'pending' | 'in-progress' | 'completed' | 'failed' | 'quarantined' | 'cancelled' | 'blocked'
 export type Priority = 'high' | 'medium' | 'low' | 'background'
 
 export interface FindTaskOptions {
@@ -8,6 +8,8 @@ export interface FindTaskOptions {
   priority?: Priority
   status?: TaskStatus | TaskStatus[]
   startFrom?: string
+  /** Task IDs to pass over, e.g. ones already skipped this run */
+  exclude?: string[]
   parentId?: string
   includeBlocked?: boolean
   topLevelOnly?: boolean
@@ -106,6 +108,14 @@ export interface CliResultEvent {
   output: string
   timedOut: boolean
   iteration?: number
+  /** Token usage reported by the CLI's event stream, when it ran with one */
+  usage?: {
+    inputTokens: number
+    outputTokens: number
+    cacheReadTokens?: number
+    cacheWriteTokens?: number
+    costUsd?: number
+  }
 }
 
 export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'success' | 'silent'
@@ -156,6 +166,18 @@ export interface JsonBackendConfig {
 export interface GithubBackendConfig {
   type: 'github'
   repo: string
+  /** API token; switches the adapter from the gh CLI to the HTTP client */
+  token?: string
+  /** REST API root for GitHub Enterprise Server */
+  apiUrl?: string
+  mode?: 'cli' | 'http'
+  flags?: Record<string, boolean>
+}
+
+export interface SqliteBackendConfig {
+  type: 'sqlite'
+  dbFile: string
+  busyTimeoutMs?: number
   flags?: Record<string, boolean>
 }
 
@@ -176,6 +198,7 @@ export interface LooseBackendConfig {
 export type BackendConfig =
   | JsonBackendConfig
   | GithubBackendConfig
+  | SqliteBackendConfig
   | FallbackBackendConfig
   | LooseBackendConfig
 
@@ -261,6 +284,7 @@ export interface TaskBackend {
   updateTask?(taskId: string, updates: Partial<Task>): Promise<UpdateResult>
   resetAllInProgress?(): Promise<UpdateResult>
   addComment?(taskId: string, comment: string): Promise<UpdateResult>
+  addEvent?(taskId: string, event: Omit<TaskEvent, 'taskId' | 'timestamp'>): Promise<UpdateResult>
   ping(): Promise<PingResult>
   getQuotaInfo?(): Promise<ApiQuotaInfo>
   getSubTasks(taskId: string): Promise<Task[]>
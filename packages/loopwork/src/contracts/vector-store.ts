@@ -27,6 +27,8 @@ export interface VectorStore {
   search(query: string | number[], options?: SearchOptions): Promise<SearchResult[]>
   delete(id: string): Promise<void>
   clear(): Promise<void>
+  /** Write pending changes to disk, for stores that batch their writes */
+  flush?(): Promise<void>
 }
 
 export interface VectorStoreConfig {
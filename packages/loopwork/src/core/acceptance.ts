@@ -0,0 +1,444 @@
+/**
+ * Acceptance Criteria Verification
+ *
+ * Checks a task's PRD success criteria after the CLI exits and before the
+ * task is marked completed. Each criterion is mapped to a check:
+ *
+ * - an inline directive at the end of the criterion:
+ *   `run: <command>`, `test: <glob>`, `grep: <regex> in <glob>`,
+ *   `grep!: <regex> in <glob>` (must not match) or `judge`.
+ *   `run:` commands only run when allowed by `allowCommands` or
+ *   `allowInlineCommands`, since task text may come from external trackers
+ * - the first configured rule whose pattern matches the criterion text
+ * - the fallback, an LLM judge by default
+ *
+ * Criteria containing "(optional)" are reported but never fail the task.
+ * A required criterion whose check cannot run (a command that is not
+ * allowed, no LLM judge) fails, since it was never verified; an optional
+ * one is skipped.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { spawn, spawnSync, type ChildProcess } from 'child_process'
+import { MarkdownPrdParser } from '@loopwork-ai/spec-parser'
+import type { Task } from '../contracts/task'
+import type { TaskBackend } from '../contracts/backend'
+import type { ICriterionJudge } from '../contracts/llm-analyzer'
+import type {
+  AcceptanceCheck,
+  AcceptanceConfig,
+  AcceptanceCriterion,
+  AcceptanceReport,
+  CriterionResult,
+  CriterionStatus,
+  IAcceptanceVerifier,
+} from '../contracts/acceptance'
+
+const DEFAULT_TIMEOUT_MS = 300000
+
+/** Characters of command output kept in a criterion result */
+const MAX_DETAIL_LENGTH = 2000
+
+/** Matches reported per grep check */
+const MAX_GREP_MATCHES = 5
+
+/** Last lines of a failed check's detail shown in the failure reason */
+const FAILURE_DETAIL_LINES = 3
+
+/** Separates the pattern from the file glob in a grep directive */
+const GREP_FILES_SEPARATOR = ' in '
+
+const IGNORED_DIRS = new Set(['node_modules', '.git', '.loopwork', 'dist'])
+
+const DIRECTIVE_PATTERN = /`(run|test|grep!?|judge)(?::\s*([^`]*))?`/i
+const OPTIONAL_PATTERN = /\(optional\)/i
+
+/**
+ * Map a success criterion to its check
+ */
+export function parseCriterion(raw: string, config: AcceptanceConfig = {}): AcceptanceCriterion {
+  const required = !OPTIONAL_PATTERN.test(raw)
+  const directive = raw.match(DIRECTIVE_PATTERN)
+  const text = raw.replace(DIRECTIVE_PATTERN, '').replace(OPTIONAL_PATTERN, '').replace(/\s+/g, ' ').trim()
+
+  if (directive) {
+    return { text, required, inline: true, check: parseDirective(directive[1].toLowerCase(), (directive[2] || '').trim()) }
+  }
+
+  const rule = config.rules?.find(r => new RegExp(r.match, 'i').test(text))
+  if (rule) {
+    return { text, required, check: rule.check }
+  }
+
+  return { text, required, check: config.fallback === 'skip' ? undefined : { type: 'llm' } }
+}
+
+function parseDirective(kind: string, argument: string): AcceptanceCheck {
+  switch (kind) {
+    case 'run':
+      return { type: 'command', command: argument }
+    case 'test':
+      return { type: 'test', pattern: argument }
+    case 'grep':
+    case 'grep!': {
+      const inIndex = argument.lastIndexOf(GREP_FILES_SEPARATOR)
+      return {
+        type: 'grep',
+        pattern: inIndex === -1 ? argument : argument.slice(0, inIndex).trim(),
+        files: inIndex === -1 ? '**/*' : argument.slice(inIndex + GREP_FILES_SEPARATOR.length).trim(),
+        absent: kind === 'grep!',
+      }
+    }
+    default:
+      return { type: 'llm' }
+  }
+}
+
+/**
+ * Convert a glob (`*`, `**`, `?`) to a regular expression over POSIX paths
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/'
+      source += slash ? '(?:.*/)?' : '.*'
+      i += slash ? 2 : 1
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Quote a string as one POSIX shell word
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+/**
+ * Stop a detached child and everything it started
+ */
+function killProcessGroup(child: ChildProcess): void {
+  if (!child.pid) return
+  try {
+    process.kill(-child.pid, 'SIGTERM')
+    return
+  } catch {
+    // Bun rejects negative pids; fall through to kill(1)
+  }
+  if (spawnSync('kill', ['-TERM', '--', `-${child.pid}`]).status !== 0) {
+    child.kill('SIGTERM')
+  }
+}
+
+/**
+ * Files under `cwd` matching a glob, as paths relative to `cwd`
+ */
+export function findFiles(cwd: string, glob: string): string[] {
+  const pattern = globToRegExp(glob)
+  // Only walk below the part of the glob without wildcards
+  const staticSegments: string[] = []
+  for (const segment of glob.split('/').slice(0, -1)) {
+    if (/[*?]/.test(segment)) break
+    staticSegments.push(segment)
+  }
+
+  const matches: string[] = []
+  const walk = (relativeDir: string) => {
+    let entries: fs.Dirent[]
+    try {
+      entries = fs.readdirSync(path.join(cwd, relativeDir), { withFileTypes: true })
+    } catch {
+      return
+    }
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRS.has(entry.name)) walk(relativePath)
+      } else if (pattern.test(relativePath)) {
+        matches.push(relativePath)
+      }
+    }
+  }
+
+  walk(staticSegments.join('/'))
+  return matches.sort()
+}
+
+export interface AcceptanceVerifierOptions extends AcceptanceConfig {
+  /** Project root the checks run in */
+  cwd: string
+  /** Judge for `llm` checks; without one they are skipped */
+  judge?: ICriterionJudge
+}
+
+/**
+ * Verifies a task's PRD success criteria
+ */
+export class AcceptanceVerifier implements IAcceptanceVerifier {
+  private options: AcceptanceVerifierOptions
+  private parser = new MarkdownPrdParser()
+
+  constructor(options: AcceptanceVerifierOptions) {
+    this.options = options
+  }
+
+  /**
+   * Success criteria from task metadata, the PRD file, or the task description
+   */
+  async loadCriteria(task: Task): Promise<AcceptanceCriterion[]> {
+    let criteria: string[] = []
+
+    const fromMetadata = task.metadata?.successCriteria
+    if (Array.isArray(fromMetadata)) {
+      criteria = fromMetadata.map(String)
+    } else {
+      const prdFile = task.metadata?.prdFile as string | undefined
+      const content = prdFile && fs.existsSync(prdFile)
+        ? fs.readFileSync(prdFile, 'utf-8')
+        : task.description
+      try {
+        criteria = (await this.parser.parse(content)).successCriteria ?? []
+      } catch {
+        criteria = []
+      }
+    }
+
+    return criteria.filter(c => c.trim()).map(c => parseCriterion(c, this.options))
+  }
+
+  async verify(task: Task, output: string, cwd: string = this.options.cwd): Promise<AcceptanceReport | null> {
+    const criteria = await this.loadCriteria(task)
+    if (criteria.length === 0) return null
+
+    const results: CriterionResult[] = []
+    for (const criterion of criteria) {
+      results.push(await this.checkCriterion(task, criterion, output, cwd))
+    }
+
+    const failures = results.filter(r => r.required && r.status === 'failed')
+    return { taskId: task.id, passed: failures.length === 0, results, failures }
+  }
+
+  private async checkCriterion(task: Task, criterion: AcceptanceCriterion, output: string, cwd: string): Promise<CriterionResult> {
+    const startTime = Date.now()
+    const result = (status: CriterionStatus, detail: string): CriterionResult => ({
+      criterion: criterion.text,
+      check: criterion.check?.type ?? 'none',
+      required: criterion.required,
+      status,
+      detail,
+      durationMs: Date.now() - startTime,
+    })
+
+    // A required criterion must not pass without having been checked
+    const unverified = (detail: string) => result(criterion.required ? 'failed' : 'skipped', detail)
+
+    const check = criterion.check
+    if (!check) {
+      return result('skipped', 'No check configured for this criterion')
+    }
+
+    try {
+      switch (check.type) {
+        case 'command': {
+          if (criterion.inline && !this.isCommandAllowed(check.command)) {
+            return unverified(`Inline command not allowed: ${check.command} (add it to acceptance.allowCommands)`)
+          }
+          const run = await this.runCommand(check.command, cwd)
+          return result(run.passed ? 'passed' : 'failed', run.output)
+        }
+        case 'test': {
+          const files = findFiles(cwd, check.pattern)
+          if (files.length === 0) {
+            return result('failed', `No test files match ${check.pattern}`)
+          }
+          const testCommand = this.options.testCommand || 'bun test'
+          const run = await this.runCommand(`${testCommand} ${files.map(shellQuote).join(' ')}`, cwd)
+          return result(run.passed ? 'passed' : 'failed', run.output)
+        }
+        case 'grep': {
+          const matches = this.grep(check.pattern, check.files, cwd)
+          const passed = check.absent ? matches.length === 0 : matches.length > 0
+          const detail = matches.length > 0
+            ? `Found in: ${matches.slice(0, MAX_GREP_MATCHES).join(', ')}${matches.length > MAX_GREP_MATCHES ? ', ...' : ''}`
+            : `/${check.pattern}/ not found in ${check.files}`
+          return result(passed ? 'passed' : 'failed', detail)
+        }
+        case 'llm': {
+          const verdict = await this.options.judge?.analyze({ task, criterion: criterion.text, output })
+          if (!verdict) {
+            return unverified('LLM judge unavailable')
+          }
+          return result(verdict.passed ? 'passed' : 'failed', verdict.reason)
+        }
+      }
+    } catch (error) {
+      return result('failed', `Check error: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  /**
+   * Whether an inline command from task text may run. Task descriptions and
+   * PRDs can be synced from external trackers, so only allowlisted commands
+   * do unless inline commands are explicitly trusted.
+   */
+  private isCommandAllowed(command: string): boolean {
+    if (this.options.allowInlineCommands) return true
+    return (this.options.allowCommands ?? []).some(pattern => new RegExp(`^(?:${pattern})$`).test(command.trim()))
+  }
+
+  private grep(pattern: string, glob: string, cwd: string): string[] {
+    const regex = new RegExp(pattern, 'm')
+    const matches: string[] = []
+    for (const file of findFiles(cwd, glob)) {
+      const content = fs.readFileSync(path.join(cwd, file), 'utf-8')
+      const match = regex.exec(content)
+      if (match) {
+        const line = content.slice(0, match.index).split('\n').length
+        matches.push(`${file}:${line}`)
+      }
+    }
+    return matches
+  }
+
+  private runCommand(command: string, cwd: string): Promise<{ passed: boolean; output: string }> {
+    const timeout = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+
+    return new Promise((resolve) => {
+      let settled = false
+      const finish = (result: { passed: boolean; output: string }) => {
+        if (settled) return
+        settled = true
+        clearTimeout(timeoutId)
+        resolve(result)
+      }
+
+      // In its own process group, so a timeout also stops the shell's children
+      const detached = process.platform !== 'win32'
+      const child = spawn(command, {
+        cwd,
+        shell: true,
+        detached,
+        env: { ...process.env, CI: 'true' },
+      })
+
+      let output = ''
+      // Resolve without waiting for 'close': grandchildren may keep the pipes open
+      const timeoutId = setTimeout(() => {
+        finish({ passed: false, output: `Command timed out after ${timeout}ms: ${command}` })
+        if (detached) {
+          killProcessGroup(child)
+        } else {
+          child.kill('SIGTERM')
+        }
+      }, timeout)
+
+      child.stdout?.on('data', (data) => { output += data.toString() })
+      child.stderr?.on('data', (data) => { output += data.toString() })
+
+      child.on('error', (error) => finish({ passed: false, output: error.message }))
+
+      child.on('close', (code) => {
+        const trimmed = output.trim()
+        finish({
+          passed: code === 0,
+          output: (trimmed.length > MAX_DETAIL_LENGTH ? '...' + trimmed.slice(-MAX_DETAIL_LENGTH) : trimmed) || `Exit code: ${code}`,
+        })
+      })
+    })
+  }
+}
+
+/**
+ * Failure reason listing the required criteria that failed
+ */
+export function formatAcceptanceFailure(report: AcceptanceReport): string {
+  const required = report.results.filter(r => r.required).length
+  const lines = [`Acceptance criteria not met (${report.failures.length} of ${required} required failed):`]
+  for (const failure of report.failures) {
+    const detail = failure.detail.split('\n').filter(l => l.trim()).slice(-FAILURE_DETAIL_LINES).join(' | ')
+    lines.push(`- [${failure.check}] ${failure.criterion}${detail ? `: ${detail}` : ''}`)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Record each criterion result on the task's event log
+ */
+export async function recordAcceptanceResults(backend: TaskBackend, report: AcceptanceReport): Promise<void> {
+  if (!backend.addEvent) return
+
+  for (const result of report.results) {
+    await backend.addEvent(report.taskId, {
+      type: 'acceptance',
+      level: result.status === 'failed' ? (result.required ? 'error' : 'warn') : 'info',
+      actor: 'system',
+      message: `${result.status}: ${result.criterion}`,
+      metadata: { ...result },
+    }).catch(() => {})
+  }
+}
+
+/**
+ * Verify a task, reporting the check to plugins as an `acceptance_verification` step
+ */
+export async function verifyAcceptanceStep(
+  verifier: IAcceptanceVerifier,
+  plugins: { runHook(hookName: string, data: unknown): Promise<void> },
+  task: Task,
+  output: string,
+  cwd?: string
+): Promise<AcceptanceReport | null> {
+  const startTime = Date.now()
+  await plugins.runHook('onStep', {
+    stepId: 'acceptance_verification',
+    description: `Verifying acceptance criteria for ${task.id}`,
+    phase: 'start',
+    context: { taskId: task.id },
+  })
+
+  const report = await verifier.verify(task, output, cwd)
+
+  await plugins.runHook('onStep', {
+    stepId: 'acceptance_verification',
+    description: `Acceptance criteria ${report?.passed === false ? 'failed' : 'verified'} for ${task.id}`,
+    phase: 'end',
+    durationMs: Date.now() - startTime,
+    context: {
+      taskId: task.id,
+      passed: report?.passed ?? true,
+      criteria: report?.results.length ?? 0,
+      failures: report?.failures.length ?? 0,
+    },
+  })
+  return report
+}
+
+/**
+ * Create a verifier from config, using the LLM judge for `llm` checks
+ */
+export async function createAcceptanceVerifier(
+  cwd: string,
+  config: AcceptanceConfig | undefined
+): Promise<AcceptanceVerifier | undefined> {
+  if (!config || config.enabled === false) return undefined
+
+  const { LLMCriterionJudge } = await import('../analyzers/criterion-judge')
+  return new AcceptanceVerifier({
+    ...config,
+    cwd,
+    judge: config.fallback === 'skip' && !config.rules?.some(r => r.check.type === 'llm')
+      ? undefined
+      : new LLMCriterionJudge({ model: config.judgeModel }),
+  })
+}
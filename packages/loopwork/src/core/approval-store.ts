@@ -0,0 +1,157 @@
+/**
+ * Approval Store
+ *
+ * Keeps task approval requests under .loopwork/approvals, one file per
+ * request. A decision goes in a second file that is created exclusively, so
+ * when the CLI, Telegram bot, dashboard and expiry race, the first one wins
+ * and no lock is needed.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { LoopworkState } from './loopwork-state'
+import { LoopworkError } from './errors'
+import type { Approval, ApprovalDecision, ApprovalRequest, ApprovalStatus } from '../contracts/approval'
+
+const DECISION_SUFFIX = '.decision.json'
+const VALID_ID = /^[\w-]+$/
+/** Random base-36 characters that keep IDs created in the same millisecond apart */
+const ID_SUFFIX_LENGTH = 6
+const ID_SUFFIX_RADIX = 36
+
+export interface ApprovalStoreOptions {
+  /** Directory holding the requests (default: .loopwork/approvals under the project root) */
+  dir?: string
+  /** Project whose .loopwork directory holds the requests (default: cwd) */
+  projectRoot?: string
+}
+
+export interface ApprovalFilter {
+  status?: ApprovalStatus | ApprovalStatus[]
+  taskId?: string
+  namespace?: string
+}
+
+export class ApprovalStore {
+  private dir: string
+
+  constructor(options: ApprovalStoreOptions = {}) {
+    this.dir = options.dir ?? new LoopworkState({ projectRoot: options.projectRoot }).paths.approvals()
+  }
+
+  /**
+   * Record a new pending request
+   */
+  create(input: Omit<ApprovalRequest, 'id' | 'requestedAt'>): Approval {
+    const request: ApprovalRequest = {
+      ...input,
+      id: `apr_${Date.now()}_${Math.random().toString(ID_SUFFIX_RADIX).substring(2, 2 + ID_SUFFIX_LENGTH)}`,
+      requestedAt: new Date().toISOString(),
+    }
+    this.writeRequest(request)
+    return { ...request, status: 'pending' }
+  }
+
+  get(id: string): Approval | null {
+    if (!VALID_ID.test(id)) return null
+    const request = this.readJson<ApprovalRequest>(this.requestPath(id))
+    if (!request) return null
+
+    const decision = this.readJson<ApprovalDecision>(this.decisionPath(id))
+    return decision ? { ...request, status: decision.status, decision } : { ...request, status: 'pending' }
+  }
+
+  /**
+   * Requests matching the filter, oldest first
+   */
+  list(filter: ApprovalFilter = {}): Approval[] {
+    if (!fs.existsSync(this.dir)) return []
+
+    const statuses = filter.status === undefined ? undefined : [filter.status].flat()
+    return fs.readdirSync(this.dir)
+      .filter(file => file.endsWith('.json') && !file.endsWith(DECISION_SUFFIX))
+      .map(file => this.get(file.slice(0, -'.json'.length)))
+      .filter((approval): approval is Approval => approval !== null)
+      .filter(approval =>
+        (!statuses || statuses.includes(approval.status)) &&
+        (!filter.taskId || approval.taskId === filter.taskId) &&
+        (!filter.namespace || approval.namespace === filter.namespace)
+      )
+      .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt) || a.id.localeCompare(b.id))
+  }
+
+  /**
+   * Change details of a request, e.g. when it is escalated
+   */
+  update(id: string, changes: Partial<Pick<ApprovalRequest, 'escalatedAt' | 'expiresAt' | 'pid' | 'settledAt'>>): Approval {
+    const approval = this.require(id)
+    const { status: _status, decision: _decision, ...request } = approval
+    this.writeRequest({ ...request, ...changes })
+    return { ...approval, ...changes }
+  }
+
+  /**
+   * Approve, reject or expire a pending request
+   *
+   * @throws LoopworkError when the request does not exist or was already decided
+   */
+  decide(id: string, decision: Omit<ApprovalDecision, 'decidedAt'>): Approval {
+    const approval = this.require(id)
+    const full: ApprovalDecision = { ...decision, decidedAt: new Date().toISOString() }
+
+    try {
+      fs.writeFileSync(this.decisionPath(id), JSON.stringify(full, null, 2), { flag: 'wx', mode: 0o600 })
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+      const decided = this.get(id)!
+      throw new LoopworkError(
+        'ERR_APPROVAL_DECIDED',
+        `Approval ${id} was already ${decided.status}${decided.decision ? ` by ${decided.decision.decidedBy} via ${decided.decision.channel}` : ''}`
+      )
+    }
+
+    return { ...approval, status: full.status, decision: full }
+  }
+
+  /**
+   * Delete a request and its decision
+   */
+  remove(id: string): void {
+    if (!VALID_ID.test(id)) return
+    for (const file of [this.requestPath(id), this.decisionPath(id)]) {
+      if (fs.existsSync(file)) fs.unlinkSync(file)
+    }
+  }
+
+  private require(id: string): Approval {
+    const approval = this.get(id)
+    if (!approval) {
+      throw new LoopworkError('ERR_APPROVAL_NOT_FOUND', `Approval ${id} not found`)
+    }
+    return approval
+  }
+
+  private writeRequest(request: ApprovalRequest): void {
+    fs.mkdirSync(this.dir, { recursive: true })
+    const file = this.requestPath(request.id)
+    const tempPath = `${file}.tmp`
+    fs.writeFileSync(tempPath, JSON.stringify(request, null, 2), { mode: 0o600 })
+    fs.renameSync(tempPath, file)
+  }
+
+  private readJson<T>(file: string): T | null {
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf-8')) as T
+    } catch {
+      return null
+    }
+  }
+
+  private requestPath(id: string): string {
+    return path.join(this.dir, `${id}.json`)
+  }
+
+  private decisionPath(id: string): string {
+    return path.join(this.dir, `${id}${DECISION_SUFFIX}`)
+  }
+}
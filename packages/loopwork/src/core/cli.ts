@@ -38,7 +38,7 @@ export class CliExecutor extends BaseCliExecutor {
     const processManager = options.processManager
 
     // Store detector and config before super() to avoid "must call super first" error
-    const cliDetector = options.cliDetector ?? new NodeBasedCliDetector()
+    const cliDetector = options.cliDetector ?? new NodeBasedCliDetector(cliConfig.customClis)
 
     // Default to LocalIsolationProvider if not provided
     const isolationProvider = options.isolationProvider ?? new LocalIsolationProvider()
@@ -1,15 +1,16 @@
 import { Command } from 'commander'
 import path from 'path'
 import fs from 'fs'
-import type { LoopworkConfig, ParallelFailureMode, LogLevel, FeatureFlags, DeadletterPolicy } from '../contracts'
+import type { LoopworkConfig, ParallelFailureMode, LogLevel, FeatureFlags, DeadletterPolicy, CustomCliConfig } from '../contracts'
 import { DEFAULT_CONFIG } from '../contracts'
-import { warnIfLooseBackendConfig, type BackendConfig, type JsonBackendConfig, type GithubBackendConfig } from '../contracts/backend'
+import { warnIfLooseBackendConfig, type BackendConfig, type JsonBackendConfig, type GithubBackendConfig, type SqliteBackendConfig } from '../contracts/backend'
 import type { LoopworkConfig as LoopworkFileConfig } from '../contracts'
 import { logger } from './utils'
 import { LoopworkError } from './errors'
 import { createRegistry, type IAgentRegistry } from '@loopwork-ai/agents'
 import chokidar from 'chokidar'
 import { EventEmitter } from 'events'
+import { configureRedaction } from '@loopwork-ai/common'
 
 /**
  * Parse --parallel option value
@@ -91,7 +92,7 @@ export function isBackendConfig(config: unknown): config is BackendConfig {
          config !== null && 
          'type' in config && 
          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-         ['json', 'github', 'fallback'].includes((config as any).type)
+         ['json', 'github', 'sqlite', 'fallback'].includes((config as any).type)
 }
 
 export function isJsonBackendConfig(config: unknown): config is JsonBackendConfig {
@@ -106,6 +107,13 @@ export function isGithubBackendConfig(config: unknown): config is GithubBackendC
          config.type === 'github'
 }
 
+export function isSqliteBackendConfig(config: unknown): config is SqliteBackendConfig {
+  return isBackendConfig(config) &&
+         config.type === 'sqlite' &&
+         // eslint-disable-next-line @typescript-eslint/no-explicit-any
+         typeof (config as any).dbFile === 'string'
+}
+
 export function validateBackendConfig(config: unknown): void {
   if (!isBackendConfig(config)) {
     throw new LoopworkError(
@@ -113,7 +121,7 @@ export function validateBackendConfig(config: unknown): void {
       'Invalid backend configuration',
       [
         'Backend configuration must be an object with a "type" property',
-        'Supported types: "json", "github"',
+        'Supported types: "json", "github", "sqlite"',
         'Example: backend: { type: "json", tasksFile: "..." }'
       ]
     )
@@ -130,6 +138,17 @@ export function validateBackendConfig(config: unknown): void {
     )
   }
 
+  if (config.type === 'sqlite' && !isSqliteBackendConfig(config)) {
+    throw new LoopworkError(
+      'ERR_CONFIG_INVALID',
+      'Invalid SQLite backend configuration',
+      [
+        'SQLite backend requires a "dbFile" property (string)',
+        'Example: backend: { type: "sqlite", dbFile: ".specs/tasks/tasks.db" }'
+      ]
+    )
+  }
+
   // Issue warning for loose configurations
   warnIfLooseBackendConfig(config as BackendConfig)
 }
@@ -139,12 +158,12 @@ export function validateBackendConfig(config: unknown): void {
  */
 function validateEnvironmentVariables(): void {
   const backend = process.env.LOOPWORK_BACKEND
-  if (backend && backend !== 'json' && backend !== 'github') {
+  if (backend && backend !== 'json' && backend !== 'github' && backend !== 'sqlite') {
     throw new LoopworkError(
       'ERR_ENV_INVALID',
       `Invalid LOOPWORK_BACKEND environment variable: "${backend}"`,
       [
-        'Valid values: "json" or "github"',
+        'Valid values: "json", "github" or "sqlite"',
         'Example: export LOOPWORK_BACKEND=json',
         'Or remove the variable to auto-detect'
       ]
@@ -176,11 +195,69 @@ function validateEnvironmentVariables(): void {
   }
 }
 
+const BUILTIN_CLIS = ['claude', 'opencode', 'gemini', 'droid', 'crush', 'kimi', 'kilocode']
+
+/**
+ * Validate CLIs declared in cliConfig.customClis
+ */
+function validateCustomClis(customClis: CustomCliConfig[]): void {
+  const seen = new Set<string>()
+  for (const cli of customClis) {
+    if (!cli.name || BUILTIN_CLIS.includes(cli.name) || seen.has(cli.name)) {
+      throw new LoopworkError(
+        'ERR_CONFIG_INVALID',
+        `Invalid custom CLI name: "${cli.name ?? ''}"`,
+        [
+          'Each custom CLI needs a unique name',
+          `Built-in CLIs can't be redefined: ${BUILTIN_CLIS.join(', ')}`,
+          'Example: customClis: [{ name: "aider", command: "aider" }]'
+        ]
+      )
+    }
+    seen.add(cli.name)
+
+    if (!cli.command) {
+      throw new LoopworkError(
+        'ERR_CONFIG_INVALID',
+        `Custom CLI "${cli.name}" has no command`,
+        [
+          'Set command to the executable name or its path',
+          'Example: command: "aider"'
+        ]
+      )
+    }
+
+    const patterns = [
+      ...(cli.rateLimitPatterns ?? []),
+      ...(cli.quotaPatterns ?? []),
+      ...Object.values(cli.usagePatterns ?? {}),
+    ]
+    for (const pattern of patterns) {
+      if (typeof pattern !== 'string') continue
+      try {
+        new RegExp(pattern)
+      } catch (error) {
+        throw new LoopworkError(
+          'ERR_CONFIG_INVALID',
+          `Invalid pattern for custom CLI "${cli.name}": ${pattern}`,
+          [
+            error instanceof Error ? error.message : String(error),
+            'Patterns are regular expressions; escape special characters such as ( and $',
+          ]
+        )
+      }
+    }
+  }
+}
+
 /**
  * Validate configuration values
  */
 function validateConfig(config: Config): void {
-  const supportedClis = ['opencode', 'claude', 'gemini']
+  const customClis = config.cliConfig?.customClis ?? []
+  validateCustomClis(customClis)
+
+  const supportedClis = ['opencode', 'claude', 'gemini', ...customClis.map(cli => cli.name)]
   if (!config.cli || !supportedClis.includes(config.cli)) {
     throw new LoopworkError(
       'ERR_CONFIG_INVALID',
@@ -499,7 +576,7 @@ export async function getConfig(cliOptions?: Partial<Config> & { config?: string
     const program = new Command()
 
     program
-      .option('--backend <type>', 'Task backend: github or json (auto-detects if not specified)')
+      .option('--backend <type>', 'Task backend: github, json or sqlite (auto-detects if not specified)')
       .option('--repo <owner/repo>', 'GitHub repository (defaults to current repo)')
       .option('--tasks-file <path>', 'Path to tasks.json file (for json backend)')
       .option('--feature <name>', 'Filter by feature label (feat:<name>)')
@@ -618,7 +695,14 @@ export async function getConfig(cliOptions?: Partial<Config> & { config?: string
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     detectBackendType(projectRoot, options.tasksFile || (fileConfig?.backend as any)?.tasksFile)
 
-  const backend: BackendConfig = backendType === 'json'
+  const backend: BackendConfig = backendType === 'sqlite'
+    ? {
+        type: 'sqlite',
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        dbFile: (fileConfig?.backend as any)?.dbFile ||
+          path.join(projectRoot, '.specs/tasks/tasks.db'),
+      }
+    : backendType === 'json'
     ? {
         type: 'json',
         tasksFile: options.tasksFile ||
@@ -636,6 +720,12 @@ export async function getConfig(cliOptions?: Partial<Config> & { config?: string
         type: 'github',
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         repo: options.repo || (fileConfig?.backend as any)?.repo,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        token: (fileConfig?.backend as any)?.token,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        apiUrl: (fileConfig?.backend as any)?.apiUrl,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        mode: (fileConfig?.backend as any)?.mode,
       }
 
   // Determine parallel setting: --sequential forces 1, --parallel [N] sets workers
@@ -695,6 +785,8 @@ export async function getConfig(cliOptions?: Partial<Config> & { config?: string
       ? { ...(fileConfig?.dynamicTasks || DEFAULT_CONFIG.dynamicTasks!), enabled: false }
       : (fileConfig?.dynamicTasks || DEFAULT_CONFIG.dynamicTasks!),
     plugins: fileConfig?.plugins,
+    redaction: fileConfig?.redaction,
+    checkpoint: fileConfig?.checkpoint,
   }
 
   // Validate the final config
@@ -703,6 +795,11 @@ export async function getConfig(cliOptions?: Partial<Config> & { config?: string
   // Set log level on logger
   logger.setLogLevel(config.logLevel)
 
+  // Mask secrets in logs and notifications with the project's rules
+  if (config.redaction) {
+    configureRedaction(config.redaction)
+  }
+
   // Start hot reload if enabled
   if (cliOptions?.hotReload || process.env.LOOPWORK_HOT_RELOAD === 'true') {
     const hotReloadManager = getConfigHotReloadManager()
@@ -722,11 +819,14 @@ export async function getConfig(cliOptions?: Partial<Config> & { config?: string
 /**
  * Auto-detect backend type based on files present
  */
-function detectBackendType(projectRoot: string, tasksFile?: string): 'github' | 'json' {
+function detectBackendType(projectRoot: string, tasksFile?: string): 'github' | 'json' | 'sqlite' {
   const jsonPath = tasksFile || path.join(projectRoot, '.specs/tasks/tasks.json')
   if (fs.existsSync(jsonPath)) {
     return 'json'
   }
+  if (fs.existsSync(path.join(projectRoot, '.specs/tasks/tasks.db'))) {
+    return 'sqlite'
+  }
   return 'github'
 }
 
@@ -0,0 +1,177 @@
+/**
+ * Context Assembly
+ *
+ * Before a task starts, finds code and outputs of earlier tasks related to
+ * it, drops duplicates and fits the best of them into a token budget for the
+ * prompt's "Relevant Code" section.
+ */
+
+import { SlidingWindowContextManager } from '../memory/sliding-window-context'
+import type { Task } from '../contracts/task'
+import type { TaskBackend } from '../contracts/backend'
+import type { CodeSnippet } from '../contracts/prompt'
+import type { SearchResult } from '../contracts/vector-store'
+
+export const DEFAULT_CONTEXT_TOKENS = 4000
+
+/** Candidates fetched per snippet that ends up in the prompt */
+const CANDIDATES_PER_SNIPPET = 4
+
+/** Rough characters per token, enough to cut a chunk to the token budget */
+const CHARS_PER_TOKEN = 4
+
+/**
+ * A retrieved piece of code or earlier task output
+ */
+export interface ContextChunk extends CodeSnippet {
+  /** ID of the document in the vector store */
+  id: string
+  source: 'code' | 'task-output'
+  score: number
+}
+
+/**
+ * Finds chunks for a query, best first
+ */
+export type ContextSource = (query: string, limit: number) => Promise<ContextChunk[]>
+
+export interface ContextAssemblerOptions {
+  sources: ContextSource[]
+  /** Token budget for all chunks together (default: 4000) */
+  maxTokens?: number
+}
+
+export interface AssembledContext {
+  /** Chunks for the prompt, best first */
+  chunks: ContextChunk[]
+  /** Estimated tokens of the chunks */
+  tokens: number
+  /** Distinct chunks found before the budget was applied */
+  candidates: number
+}
+
+/**
+ * Build a chunk from a vector store result. Task outputs are stored with
+ * `metadata.source = 'task-output'`; everything else is code.
+ */
+export function chunkFromSearchResult({ document, score }: SearchResult): ContextChunk {
+  const metadata = document.metadata ?? {}
+  if (metadata.source === 'task-output') {
+    const taskId = String(metadata.taskId ?? document.id)
+    return { id: document.id, source: 'task-output', taskId, file: `task:${taskId}`, content: document.content, score }
+  }
+
+  const filePath = (document as { filePath?: string }).filePath
+  return {
+    id: document.id,
+    source: 'code',
+    file: filePath ?? document.id.split('#')[0],
+    content: document.content,
+    lineStart: metadata.lineStart as number | undefined,
+    lineEnd: metadata.lineEnd as number | undefined,
+    score,
+  }
+}
+
+/**
+ * Drop repeated chunks, keeping the best-scored copy: the same document
+ * found by two sources, identical content, or overlapping line ranges of the
+ * same file (code chunks overlap by design)
+ */
+export function dedupeChunks(chunks: ContextChunk[]): ContextChunk[] {
+  const kept: ContextChunk[] = []
+  const ids = new Set<string>()
+  const contents = new Set<string>()
+
+  for (const chunk of [...chunks].sort((a, b) => b.score - a.score)) {
+    const content = chunk.content.trim()
+    if (ids.has(chunk.id) || contents.has(content)) continue
+    if (chunk.lineStart !== undefined && kept.some(other => overlaps(chunk, other))) continue
+
+    ids.add(chunk.id)
+    contents.add(content)
+    kept.push(chunk)
+  }
+
+  return kept
+}
+
+function overlaps(a: ContextChunk, b: ContextChunk): boolean {
+  if (a.file !== b.file || b.lineStart === undefined) return false
+  return a.lineStart! <= (b.lineEnd ?? b.lineStart) && b.lineStart <= (a.lineEnd ?? a.lineStart!)
+}
+
+/**
+ * Assembles the retrieved context for a task's prompt
+ */
+export class ContextAssembler {
+  private sources: ContextSource[]
+  private maxTokens: number
+
+  constructor(options: ContextAssemblerOptions) {
+    this.sources = options.sources
+    this.maxTokens = options.maxTokens ?? DEFAULT_CONTEXT_TOKENS
+  }
+
+  /**
+   * Query every source with the task's title and description
+   *
+   * @param limit - Most chunks to return
+   */
+  async assemble(task: Task, limit: number): Promise<AssembledContext> {
+    if (limit <= 0 || this.maxTokens <= 0) return { chunks: [], tokens: 0, candidates: 0 }
+
+    const query = `${task.title}\n${task.description}`
+    const found = await Promise.all(
+      this.sources.map(source => source(query, limit * CANDIDATES_PER_SNIPPET).catch(() => []))
+    )
+    // A task's own earlier output is already in the retry context
+    const candidates = dedupeChunks(found.flat().filter(chunk => chunk.taskId !== task.id))
+
+    // Highest score wins the budget; a chunk too big for the whole budget is cut down
+    const window = new SlidingWindowContextManager({ maxTokens: this.maxTokens, prioritizeRecent: false })
+    window.addBatch(candidates.map(chunk => ({
+      id: chunk.id,
+      content: chunk.content.slice(0, this.maxTokens * CHARS_PER_TOKEN),
+      type: 'retrieved' as const,
+      priority: chunk.score,
+    })))
+
+    const budgeted = new Map(window.getAll().map(item => [item.id, item]))
+    const chunks = candidates
+      .filter(chunk => budgeted.has(chunk.id))
+      .slice(0, limit)
+      .map(chunk => ({ ...chunk, content: budgeted.get(chunk.id)!.content }))
+
+    return {
+      chunks,
+      tokens: chunks.reduce((sum, chunk) => sum + budgeted.get(chunk.id)!.tokens, 0),
+      candidates: candidates.length,
+    }
+  }
+}
+
+/**
+ * Record which chunks went into the task's prompt on its event log
+ */
+export async function recordAssembledContext(
+  backend: Pick<TaskBackend, 'addEvent'>,
+  taskId: string,
+  context: AssembledContext
+): Promise<void> {
+  if (!backend.addEvent || context.candidates === 0) return
+
+  await backend.addEvent(taskId, {
+    type: 'context',
+    level: 'info',
+    actor: 'system',
+    message: `Included ${context.chunks.length} of ${context.candidates} retrieved chunks (~${context.tokens} tokens) in the prompt`,
+    metadata: {
+      tokens: context.tokens,
+      candidates: context.candidates,
+      chunks: context.chunks.map(({ id, source, file, lineStart, lineEnd, score }) => ({
+        id, source, file, lineStart, lineEnd, score,
+      })),
+    },
+  }).catch(() => {})
+}
@@ -256,6 +256,27 @@ export const ERROR_CODES: Record<ErrorCode, ErrorCodeEntry> = {
     ],
   },
 
+  // ==================== Approval Errors ====================
+  ERR_APPROVAL_NOT_FOUND: {
+    code: 'ERR_APPROVAL_NOT_FOUND',
+    description: 'Approval request not found',
+    docsUrl: 'https://docs.loopwork.ai/errors/approval-not-found',
+    suggestions: [
+      'Verify the approval ID is correct',
+      'Run: loopwork approvals list to see pending approvals',
+    ],
+  },
+
+  ERR_APPROVAL_DECIDED: {
+    code: 'ERR_APPROVAL_DECIDED',
+    description: 'Approval request was already decided',
+    docsUrl: 'https://docs.loopwork.ai/errors/approval-decided',
+    suggestions: [
+      'Run: loopwork approvals list --all to see the decision',
+      'Ask for a new approval by resetting the task to pending',
+    ],
+  },
+
   // ==================== Monitor Errors ====================
   ERR_MONITOR_START: {
     code: 'ERR_MONITOR_START',
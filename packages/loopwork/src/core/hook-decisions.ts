@@ -0,0 +1,43 @@
+/**
+ * Hook Decisions
+ *
+ * Applies what onBeforeTaskStart and onBeforeComplete plugins decided about
+ * a task that has already been claimed.
+ */
+
+import type { TaskBackend } from '../contracts/backend'
+import type { PluginHookDecision } from '../contracts/plugin'
+
+/**
+ * Hand a skipped or deferred task back to the backend as pending. Deferred
+ * tasks are scheduled so they are not picked up before `until`.
+ */
+export async function releaseTask(
+  backend: Pick<TaskBackend, 'resetToPending' | 'updateTask'>,
+  taskId: string,
+  decision: PluginHookDecision
+): Promise<void> {
+  await backend.resetToPending(taskId)
+  if (decision.action === 'defer') {
+    await backend.updateTask?.(taskId, { scheduledFor: new Date(decision.until).toISOString() })
+  }
+}
+
+/**
+ * One-line description of a decision for the run log
+ */
+export function describeDecision(taskId: string, decision: PluginHookDecision): string {
+  const by = decision.plugin ? ` by ${decision.plugin}` : ''
+  const reason = 'reason' in decision && decision.reason ? `: ${decision.reason}` : ''
+
+  switch (decision.action) {
+    case 'skip':
+      return `Task ${taskId} skipped${by}${reason}`
+    case 'defer':
+      return `Task ${taskId} deferred until ${new Date(decision.until).toISOString()}${by}${reason}`
+    case 'rewrite':
+      return `Prompt for ${taskId} rewritten${by}${reason}`
+    default:
+      return `Task ${taskId} proceeding`
+  }
+}
@@ -0,0 +1,359 @@
+/**
+ * Index Sync
+ *
+ * Keeps the semantic code index in step with the repository. With git, only
+ * files that differ from the last indexed commit (committed, staged, unstaged
+ * or untracked) are looked at; deleted and renamed files are removed from the
+ * index. Without git, every source file is checked by modification time.
+ */
+
+import { execFileSync } from 'child_process'
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs'
+import { extname, join } from 'path'
+import chokidar from 'chokidar'
+import { logger } from './utils'
+import type { SemanticCodeIndexer } from './semantic-indexer'
+import type { VectorStore } from '../contracts/vector-store'
+import type { IndexPersistence, IndexSyncState } from '../utils/index-persistence'
+
+export const DEFAULT_INDEX_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.py', '.rs', '.go', '.java', '.rb', '.php']
+export const DEFAULT_INDEX_EXCLUDE_DIRS = ['node_modules', 'dist', 'build', '.loopwork', '.specs', '.git', 'coverage']
+
+/** Wait for edits to settle before re-indexing watched files */
+const WATCH_DEBOUNCE_MS = 500
+
+/** Room for git output in large repositories (64 MiB) */
+const GIT_MAX_BUFFER_BYTES = 67_108_864
+
+export interface IndexSyncResult {
+  /** Whether every source file was checked instead of a git diff */
+  full: boolean
+  commit?: string
+  indexed: number
+  removed: number
+  unchanged: number
+  errors: number
+}
+
+/**
+ * Files that may need indexing since the last sync
+ */
+export interface PendingChanges {
+  full: boolean
+  changed: string[]
+  removed: string[]
+}
+
+/** Runs git with the given arguments and returns stdout */
+export type GitRunner = (args: string[], cwd: string) => string
+
+export interface IndexSyncOptions {
+  indexer: SemanticCodeIndexer
+  vectorStore: VectorStore
+  persistence?: IndexPersistence
+  sourceDir?: string
+  extensions?: string[]
+  excludeDirs?: string[]
+  git?: GitRunner
+}
+
+const runGit: GitRunner = (args, cwd) =>
+  execFileSync('git', args, { cwd, stdio: 'pipe', maxBuffer: GIT_MAX_BUFFER_BYTES }).toString()
+
+/**
+ * Source files under a directory, skipping excluded directory names
+ */
+export function listSourceFiles(dir: string, extensions: string[], excludeDirs: string[]): string[] {
+  const files: string[] = []
+  try {
+    const entries = readdirSync(dir, { withFileTypes: true })
+    for (const entry of entries) {
+      const fullPath = join(dir, entry.name)
+      if (entry.isDirectory()) {
+        if (!excludeDirs.some(ex => entry.name.includes(ex))) {
+          files.push(...listSourceFiles(fullPath, extensions, excludeDirs))
+        }
+      } else if (entry.isFile() && extensions.includes(extname(entry.name))) {
+        files.push(fullPath)
+      }
+    }
+  } catch {
+    return files
+  }
+  return files
+}
+
+/**
+ * Split NUL-separated `git diff --name-status -z` output into touched paths;
+ * a rename touches both its source and destination
+ */
+export function parseNameStatus(output: string): string[] {
+  const fields = output.split('\0').filter(Boolean)
+  const paths: string[] = []
+  for (let i = 0; i < fields.length; i++) {
+    const status = fields[i]
+    if (status.startsWith('R') || status.startsWith('C')) {
+      paths.push(fields[i + 1], fields[i + 2])
+      i += 2
+    } else {
+      paths.push(fields[i + 1])
+      i += 1
+    }
+  }
+  return paths.filter(Boolean)
+}
+
+export class IndexSync {
+  private indexer: SemanticCodeIndexer
+  private vectorStore: VectorStore
+  private persistence?: IndexPersistence
+  private sourceDir: string
+  private extensions: string[]
+  private excludeDirs: string[]
+  private git: GitRunner
+  private state: IndexSyncState
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(options: IndexSyncOptions) {
+    this.indexer = options.indexer
+    this.vectorStore = options.vectorStore
+    this.persistence = options.persistence
+    this.sourceDir = options.sourceDir || '.'
+    this.extensions = options.extensions ?? DEFAULT_INDEX_EXTENSIONS
+    this.excludeDirs = options.excludeDirs ?? DEFAULT_INDEX_EXCLUDE_DIRS
+    this.git = options.git ?? runGit
+    this.state = options.persistence?.loadSyncState() ?? { dirty: [] }
+  }
+
+  getState(): IndexSyncState {
+    return { ...this.state, dirty: [...this.state.dirty] }
+  }
+
+  /**
+   * Bring the index up to date
+   *
+   * @param options.rebuild - Clear the index and index every file again
+   */
+  sync(options: { rebuild?: boolean } = {}): Promise<IndexSyncResult> {
+    return this.enqueue(async () => {
+      if (options.rebuild) {
+        await this.indexer.clear()
+        this.state = { dirty: [] }
+      }
+
+      const git = this.gitChanges()
+      const candidates = git ? git.touched : this.allFiles()
+      const result: IndexSyncResult = { full: !git || git.full, commit: git?.head, indexed: 0, removed: 0, unchanged: 0, errors: 0 }
+      await this.apply(candidates, result, !git)
+
+      this.state = { commit: git?.head, dirty: git?.dirty ?? [], syncedAt: Date.now() }
+      await this.save()
+      return result
+    })
+  }
+
+  /**
+   * Re-index specific files, e.g. ones a watcher saw change
+   */
+  update(files: string[]): Promise<IndexSyncResult> {
+    return this.enqueue(async () => {
+      const result: IndexSyncResult = { full: false, commit: this.state.commit, indexed: 0, removed: 0, unchanged: 0, errors: 0 }
+      await this.apply(files, result, false)
+      // The next sync cannot tell from git that these were indexed from the working tree
+      this.state = { ...this.state, dirty: [...new Set([...this.state.dirty, ...files])] }
+      await this.save()
+      return result
+    })
+  }
+
+  /**
+   * What the next sync would re-index or remove, without changing the index
+   */
+  pending(): PendingChanges {
+    const git = this.gitChanges()
+    const status = this.indexer.getIndexStatus()
+    const changed: string[] = []
+    const removed: string[] = []
+
+    for (const file of git ? git.touched : this.allFiles()) {
+      if (!existsSync(file) || !this.isSourceFile(file)) {
+        if (status.has(file)) removed.push(file)
+        continue
+      }
+      const known = status.get(file)
+      if (!known) {
+        changed.push(file)
+      } else if (!git) {
+        if (statSync(file).mtimeMs > known.lastIndexed) changed.push(file)
+      } else if (!this.indexer.isUpToDate(file, readFileSync(file, 'utf-8'))) {
+        changed.push(file)
+      }
+    }
+
+    if (!git || git.full) {
+      for (const file of status.keys()) {
+        if (!existsSync(file) && !removed.includes(file)) removed.push(file)
+      }
+    }
+
+    return { full: !git || git.full, changed, removed }
+  }
+
+  /**
+   * Re-index files as they change on disk until the returned function is called
+   */
+  watch(): () => Promise<void> {
+    const changed = new Set<string>()
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const watcher = chokidar.watch(this.sourceDir, {
+      ignoreInitial: true,
+      ignored: (path: string) => this.isExcluded(path),
+    })
+
+    const schedule = (file: string) => {
+      if (!this.extensions.includes(extname(file))) return
+      changed.add(file)
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(() => {
+        const files = [...changed]
+        changed.clear()
+        this.update(files).catch(error => logger.debug(`Index watch update failed: ${error}`))
+      }, WATCH_DEBOUNCE_MS)
+    }
+
+    watcher.on('add', schedule)
+    watcher.on('change', schedule)
+    watcher.on('unlink', schedule)
+    watcher.on('error', error => logger.debug(`Index watcher error: ${error}`))
+
+    return async () => {
+      if (timer) clearTimeout(timer)
+      await watcher.close()
+    }
+  }
+
+  private enqueue<T>(action: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(action, action)
+    this.queue = run.catch(() => {})
+    return run
+  }
+
+  /**
+   * Index files that exist and remove those that do not
+   *
+   * @param byMtime - Skip files not modified since they were indexed (no git)
+   */
+  private async apply(files: string[], result: IndexSyncResult, byMtime: boolean): Promise<void> {
+    const status = this.indexer.getIndexStatus()
+
+    for (const file of new Set(files)) {
+      try {
+        if (!existsSync(file) || !this.isSourceFile(file)) {
+          if (status.has(file)) {
+            await this.indexer.removeFile(file)
+            result.removed++
+          }
+          continue
+        }
+
+        const stats = statSync(file)
+        const known = status.get(file)
+        if (byMtime && known && stats.mtimeMs <= known.lastIndexed) {
+          result.unchanged++
+          continue
+        }
+
+        const content = readFileSync(file, 'utf-8')
+        if (known && this.indexer.isUpToDate(file, content)) {
+          result.unchanged++
+          continue
+        }
+        await this.indexer.indexFile(file, content, stats.mtimeMs)
+        result.indexed++
+      } catch {
+        result.errors++
+      }
+    }
+
+    // A full scan also drops files that no longer exist anywhere
+    if (result.full) {
+      for (const file of this.indexer.getIndexStatus().keys()) {
+        if (existsSync(file)) continue
+        await this.indexer.removeFile(file).catch(() => result.errors++)
+        result.removed++
+      }
+    }
+  }
+
+  private async save(): Promise<void> {
+    await this.vectorStore.flush?.()
+    if (this.persistence) {
+      this.persistence.save(this.indexer.getIndexStatus())
+      this.persistence.saveSyncState(this.state)
+    }
+  }
+
+  private isSourceFile(file: string): boolean {
+    if (!this.extensions.includes(extname(file)) || this.isExcluded(file)) return false
+    return this.indexer.shouldIndexFile(file)
+  }
+
+  /** Whether a path is inside, or is, an excluded directory */
+  private isExcluded(path: string): boolean {
+    const parts = path.split(/[\\/]/)
+    if (this.extensions.includes(extname(path))) parts.pop()
+    return parts.some(part => this.excludeDirs.some(ex => part.includes(ex)))
+  }
+
+  private allFiles(): string[] {
+    return listSourceFiles(this.sourceDir, this.extensions, this.excludeDirs)
+  }
+
+  /**
+   * Files touched since the last indexed commit, or every tracked and
+   * untracked file when there is no usable commit
+   *
+   * @returns null outside a git repository
+   */
+  private gitChanges(): { head?: string; full: boolean; touched: string[]; dirty: string[] } | null {
+    const git = (args: string[]) => this.git(args, this.sourceDir)
+    try {
+      git(['rev-parse', '--is-inside-work-tree'])
+    } catch {
+      return null
+    }
+
+    let head: string | undefined
+    try {
+      head = git(['rev-parse', 'HEAD']).trim() || undefined
+    } catch {
+      head = undefined
+    }
+
+    const toPath = (file: string) => join(this.sourceDir, file)
+    const untracked = git(['ls-files', '--others', '--exclude-standard', '-z']).split('\0').filter(Boolean).map(toPath)
+    const dirty = head
+      ? [...parseNameStatus(git(['diff', '--name-status', '-M', '-z', '--relative', 'HEAD'])).map(toPath), ...untracked]
+      : untracked
+
+    const known = this.state.commit && this.commitExists(this.state.commit) ? this.state.commit : undefined
+    if (!known) {
+      const tracked = git(['ls-files', '--cached', '-z']).split('\0').filter(Boolean).map(toPath)
+      return { head, full: true, touched: [...new Set([...tracked, ...untracked])], dirty }
+    }
+
+    // Diffing the old commit against the working tree covers commits, staged and unstaged edits
+    const since = parseNameStatus(git(['diff', '--name-status', '-M', '-z', '--relative', known])).map(toPath)
+    return { head, full: false, touched: [...new Set([...since, ...untracked, ...this.state.dirty])], dirty }
+  }
+
+  private commitExists(commit: string): boolean {
+    try {
+      this.git(['cat-file', '-e', `${commit}^{commit}`], this.sourceDir)
+      return true
+    } catch {
+      return false
+    }
+  }
+}
@@ -66,6 +66,8 @@ export const STATE_DIRS = {
   LLM_CACHE: 'ai-monitor/llm-cache.json',
   /** Checkpoints directory */
   CHECKPOINTS: 'checkpoints',
+  /** Task approval requests and decisions */
+  APPROVALS: 'approvals',
 } as const
 
 /**
@@ -279,6 +281,14 @@ export class LoopworkState {
       return path.join(this.dir, STATE_DIRS.CHECKPOINTS)
     },
 
+    /**
+     * Approvals directory (shared across namespaces)
+     * .loopwork/approvals
+     */
+    approvals: (): string => {
+      return path.join(this.dir, STATE_DIRS.APPROVALS)
+    },
+
     /**
      * LLM cache file path
      * .loopwork/ai-monitor/llm-cache.json
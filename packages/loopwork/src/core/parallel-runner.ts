@@ -5,7 +5,7 @@ import type { Config } from './config'
 import type { TaskBackend, FindTaskOptions } from '../contracts/backend'
 import type { Task, Priority, TaskStatus } from '../contracts/task'
 import type { ICliExecutor } from '../contracts/executor'
-import type { TaskContext, LoopStats } from '../contracts/plugin'
+import type { TaskContext, LoopStats, BeforeHookContext, PluginHookDecision, PluginTaskResult } from '../contracts/plugin'
 import type { RunLogger } from '../contracts/logger'
 import { logger as defaultLogger } from './utils'
 import { LoopworkError } from './errors'
@@ -15,7 +15,15 @@ import { failureState as defaultFailureState } from './failure-state'
 import { RetryBudget as DefaultRetryBudget } from './retry-budget'
 import { CheckpointIntegrator as DefaultCheckpointIntegrator } from './checkpoint-integrator'
 import type { IRetryBudget, ICheckpointIntegrator, IFailureState } from '../contracts/services'
-import type { IPluginRegistry } from '@loopwork-ai/contracts'
+import type { IAcceptanceVerifier } from '../contracts/acceptance'
+import { formatAcceptanceFailure, recordAcceptanceResults, verifyAcceptanceStep } from './acceptance'
+import { modelPreference } from './task-utils'
+import { recordTaskOutput } from './prompt-templates'
+import { describeDecision, releaseTask } from './hook-decisions'
+import { claimNextTask, type TaskSelector } from './task-selection'
+import type { WorktreeIsolationProvider } from '@loopwork-ai/isolation'
+import { BudgetSkipError } from '@loopwork-ai/executor'
+import type { FailureCategory, IPluginRegistry } from '@loopwork-ai/contracts'
 import { 
   isOpencodeError, 
   attemptOpencodeSelfHealing,
@@ -33,8 +41,6 @@ const WORKER_COLORS = [
   chalk.blue,
 ]
 
-type FailureCategory = 'rate_limit' | 'timeout' | 'memory' | 'cli_cache' | 'opencode_dependency' | 'opencode_cache' | 'unknown'
-
 interface TrackedFailure {
   timestamp: number
   category: FailureCategory
@@ -85,13 +91,24 @@ export interface ParallelRunnerOptions {
     completedTasks: number
     failedTasks: number
   }) => Promise<void>
-  buildPrompt: (task: Task, retryContext?: string) => string
+  buildPrompt: (task: Task, retryContext?: string) => string | Promise<string>
+  /** Asks plugins whether a task goes ahead; every task proceeds without it */
+  runDecisionHook?: (
+    hookName: 'onBeforeTaskStart' | 'onBeforeComplete',
+    context: BeforeHookContext,
+    result?: PluginTaskResult
+  ) => Promise<PluginHookDecision>
+  /** Lets plugins pick among the due tasks; the backend's order is used without it */
+  selectTasks?: TaskSelector
   debugger?: Debugger
   messageBus?: IMessageBus
   enableMessaging?: boolean
   retryBudget?: IRetryBudget
   checkpointIntegrator?: ICheckpointIntegrator
   failureState?: IFailureState
+  acceptanceVerifier?: IAcceptanceVerifier
+  /** Per-task git worktrees the CLI runs in; merged back when a task succeeds */
+  worktrees?: WorktreeIsolationProvider
 }
 
 export interface ParallelRunStats extends LoopStats {
@@ -119,12 +136,20 @@ export class ParallelRunner {
     completedTasks: number
     failedTasks: number
   }) => Promise<void>
-  private buildPrompt: (task: Task, retryContext?: string) => string
+  private buildPrompt: (task: Task, retryContext?: string) => string | Promise<string>
+  private runDecisionHook?: ParallelRunnerOptions['runDecisionHook']
+  private selectTasks?: TaskSelector
+  /** Tasks plugins or budgets skipped; never claimed again this run */
+  private skippedTasks = new Set<string>()
+  /** Prompts plugins rewrote in onBeforeComplete, used when the task runs again */
+  private promptOverrides = new Map<string, string>()
   private debugger?: Debugger
   private messageBus?: IMessageBus
   private retryBudget: IRetryBudget
   private checkpointIntegrator?: ICheckpointIntegrator
   private failureState: IFailureState
+  private acceptanceVerifier?: IAcceptanceVerifier
+  private worktrees?: WorktreeIsolationProvider
 
   // Circuit breaker state
   private consecutiveFailures = 0
@@ -166,6 +191,8 @@ export class ParallelRunner {
     this.onTaskAbort = options.onTaskAbort
     this.onWorkerStatus = options.onWorkerStatus
     this.buildPrompt = options.buildPrompt
+    this.runDecisionHook = options.runDecisionHook
+    this.selectTasks = options.selectTasks
     this.debugger = options.debugger
     this.messageBus = options.messageBus
     this.circuitBreakerThreshold = options.config.circuitBreakerThreshold ?? 5
@@ -178,6 +205,8 @@ export class ParallelRunner {
     this.cleanupInterval = options.config.orphanWatch?.interval ?? 300000
 
     this.failureState = options.failureState || defaultFailureState
+    this.acceptanceVerifier = options.acceptanceVerifier
+    this.worktrees = options.worktrees
 
     if (options.retryBudget) {
       this.retryBudget = options.retryBudget
@@ -318,12 +347,7 @@ export class ParallelRunner {
     let task: Task | null = null
 
     try {
-      if (this.backend.claimTask) {
-        task = await this.backend.claimTask(options)
-      } else {
-        task = await this.backend.findNextTask(options)
-        if (task) await this.backend.markInProgress(task.id)
-      }
+      task = await claimNextTask(this.backend, { ...options, exclude: [...this.skippedTasks] }, this.selectTasks)
     } catch (error) {
       this.logger.error(`${prefix} Failed to claim: ${error}`)
       return { workerId, taskId: null, success: false }
@@ -331,6 +355,13 @@ export class ParallelRunner {
 
     if (!task) return { workerId, taskId: null, success: true }
 
+    // Backends that ignore `exclude` can still hand a skipped task back
+    if (this.skippedTasks.has(task.id)) {
+      this.logger.warn(`${prefix} Next task ${task.id} was already skipped, stopping`)
+      await this.backend.resetToPending(task.id).catch(() => {})
+      return { workerId, taskId: null, success: true }
+    }
+
     if (task.failureCount) {
       this.failureState.setFailureState(task.id, task.failureCount, task.lastError || 'Failed')
     }
@@ -357,23 +388,70 @@ export class ParallelRunner {
       return { workerId, taskId: task.id, success: true }
     }
 
-    const prompt = this.buildPrompt(task)
+    let prompt = this.promptOverrides.get(task.id) ?? await this.buildPrompt(task)
+    this.promptOverrides.delete(task.id)
+
+    const startDecision = await this.decide('onBeforeTaskStart', { ...taskContext, prompt })
+    if (startDecision.action === 'skip' || startDecision.action === 'defer') {
+      await this.releaseVetoedTask(task, startDecision, prefix)
+      return { workerId, taskId: task.id, success: false }
+    }
+    if (startDecision.action === 'rewrite') {
+      prompt = startDecision.prompt
+    }
+
     const outputDir = this.config.outputDir || '/tmp'
     const outputFile = path.join(outputDir, 'logs', `worker-${workerId}-output.txt`)
 
     try {
+      taskContext.workDir = await this.prepareWorktree(task.id, workerId)
+      await this.onTaskStart?.(taskContext)
+
       const exitCode = await this.cliExecutor.executeTask(
         task,
         prompt,
         outputFile,
         this.config.timeout || 600,
-        { workerId }
+        { workerId, namespace, ...modelPreference(task) }
       )
 
       const duration = (Date.now() - taskStartTime) / 1000
 
-      if (exitCode === 0) {
+      const acceptanceFailure = exitCode === 0 ? await this.verifyAcceptance(task, outputFile) : undefined
+      if (acceptanceFailure) {
+        this.logger.error(`${prefix} Task ${task.id} failed acceptance verification`)
+        this.failureState.setFailureState(task.id, this.failureState.getFailureCount(task.id) + 1, acceptanceFailure)
+        await this.backend.markFailed(task.id, acceptanceFailure)
+        if (this.onTaskFailed) {
+          await this.onTaskFailed(taskContext, acceptanceFailure)
+        }
+      }
+
+      if (exitCode === 0 && !acceptanceFailure) {
+        const output = fs.existsSync(outputFile) ? fs.readFileSync(outputFile, 'utf-8') : ''
+        const completeDecision = await this.decide('onBeforeComplete', { ...taskContext, prompt }, {
+          output,
+          duration,
+          success: true,
+        })
+        if (completeDecision.action !== 'proceed') {
+          await this.worktrees?.discard(task.id)
+          await this.releaseVetoedTask(task, completeDecision, prefix)
+          await this.onTaskAbort?.(taskContext)
+          return { workerId, taskId: task.id, success: false }
+        }
+      }
+
+      let succeeded = exitCode === 0 && !acceptanceFailure
+      if (succeeded && this.worktrees) {
+        succeeded = await this.integrateWorktree(task, taskContext, prefix)
+      } else if (this.worktrees) {
+        await this.worktrees.discard(task.id)
+      }
+
+      if (succeeded) {
         await this.backend.markCompleted(task.id, `Completed by W${workerId}`)
+        await recordTaskOutput(this.backend, task.id, fs.existsSync(outputFile) ? fs.readFileSync(outputFile, 'utf-8') : '')
         this.tasksCompleted++
         this.failureState.clearFailure(task.id)
         this.activeContexts.delete(task.id)
@@ -388,12 +466,107 @@ export class ParallelRunner {
         return { workerId, taskId: task.id, success: false }
       }
     } catch (error) {
-      this.logger.error(`${prefix} Execution error for ${task.id}: ${error}`)
+      if (error instanceof BudgetSkipError) {
+        this.logger.warn(`${prefix} ${error.message}`)
+        this.skippedTasks.add(task.id)
+      } else {
+        this.logger.error(`${prefix} Execution error for ${task.id}: ${error}`)
+      }
+      await this.worktrees?.discard(task.id).catch(() => {})
       await this.backend.resetToPending(task.id).catch(() => {})
+      this.activeContexts.delete(task.id)
+      this.interruptedTasks = this.interruptedTasks.filter(id => id !== task!.id)
       return { workerId, taskId: task.id, success: false }
     }
   }
 
+  private async decide(
+    hookName: 'onBeforeTaskStart' | 'onBeforeComplete',
+    context: BeforeHookContext,
+    result?: PluginTaskResult
+  ): Promise<PluginHookDecision> {
+    if (!this.runDecisionHook) return { action: 'proceed' }
+    const decision = await this.runDecisionHook(hookName, context, result)
+    if (decision.action === 'rewrite' && hookName === 'onBeforeTaskStart') {
+      this.logger.debug(describeDecision(context.task.id, decision))
+    }
+    return decision
+  }
+
+  /**
+   * Create the task's worktree up front, so onTaskStart plugins see the
+   * directory the agent will work in
+   */
+  private async prepareWorktree(taskId: string, workerId: number): Promise<string | undefined> {
+    if (!this.worktrees) return undefined
+    const handle = await this.worktrees.acquire({ options: { taskId, workerId } })
+    await this.worktrees.release(handle)
+    return this.worktrees.getWorktreePath(taskId)
+  }
+
+  /**
+   * Hand a task a plugin vetoed back to the backend
+   */
+  private async releaseVetoedTask(task: Task, decision: PluginHookDecision, prefix: string): Promise<void> {
+    this.logger.warn(`${prefix} ${describeDecision(task.id, decision)}`)
+    await releaseTask(this.backend, task.id, decision).catch(() => {})
+    if (decision.action === 'rewrite') {
+      this.promptOverrides.set(task.id, decision.prompt)
+    } else {
+      this.skippedTasks.add(task.id)
+    }
+    this.activeContexts.delete(task.id)
+    this.interruptedTasks = this.interruptedTasks.filter(id => id !== task.id)
+  }
+
+  /**
+   * Verify the task's success criteria, returning the failure reason if any
+   */
+  private async verifyAcceptance(task: Task, outputFile: string): Promise<string | undefined> {
+    if (!this.acceptanceVerifier) return undefined
+
+    const output = fs.existsSync(outputFile) ? fs.readFileSync(outputFile, 'utf-8') : ''
+    const report = await verifyAcceptanceStep(this.acceptanceVerifier, this.pluginRegistry, task, output, this.worktrees?.getWorktreePath(task.id))
+    if (!report) return undefined
+
+    await recordAcceptanceResults(this.backend, report)
+    return report.passed ? undefined : formatAcceptanceFailure(report)
+  }
+
+  /**
+   * Merge the task's worktree back, blocking the task on conflicts
+   *
+   * @returns Whether the task's changes are now on the base branch
+   */
+  private async integrateWorktree(task: Task, taskContext: TaskContext, prefix: string): Promise<boolean> {
+    const result = await this.worktrees!.integrate(task.id)
+    if (result.status === 'merged' || result.status === 'empty') {
+      return true
+    }
+
+    let reason: string
+    if (result.status === 'conflict') {
+      reason = `Merge conflict integrating ${result.branch} (${result.strategy}): ${result.conflicts.join(', ')}`
+      this.logger.error(`${prefix} ${reason}`)
+      const blocked = await this.backend.updateTask?.(task.id, {
+        status: 'blocked',
+        metadata: { blockedReason: reason, worktreeBranch: result.branch, conflicts: result.conflicts },
+      })
+      if (!blocked?.success) {
+        await this.backend.markFailed(task.id, reason)
+      }
+    } else {
+      reason = `Failed to integrate ${result.branch}: ${result.error}`
+      this.logger.error(`${prefix} ${reason}`)
+      await this.backend.markFailed(task.id, reason)
+    }
+
+    if (this.onTaskFailed) {
+      await this.onTaskFailed(taskContext, reason)
+    }
+    return false
+  }
+
   private async analyzeAndHeal(): Promise<boolean> {
     this.logger.warn('Circuit breaker triggered. Analyzing failures...')
     return false // Placeholder
@@ -0,0 +1,378 @@
+/**
+ * Prompt Templates
+ *
+ * Renders the prompt sent to the AI CLI from a Handlebars template. Projects
+ * can replace the built-in template for everything or per namespace, feature
+ * or CLI, and list their conventions in the config or a conventions file.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import Handlebars from 'handlebars'
+import { HandlebarsEngine } from './scaffold/handlebars-engine'
+import { LoopworkError } from './errors'
+import {
+  ContextAssembler,
+  chunkFromSearchResult,
+  recordAssembledContext,
+} from './context-assembly'
+import { generateFailureCriteria, generateSuccessCriteria } from './task-utils'
+import type { Task } from '../contracts/task'
+import type { TaskBackend } from '../contracts/backend'
+import type { SearchResult } from '../contracts/vector-store'
+import type {
+  CodeSnippet,
+  DependencyOutput,
+  PromptConfig,
+  PromptRenderInput,
+  PromptTemplateContext,
+} from '../contracts/prompt'
+
+export const DEFAULT_CONVENTIONS_FILE = '.loopwork/conventions.md'
+export const DEFAULT_MAX_CODE_SNIPPETS = 5
+
+/** Characters of a completed task's output kept for the tasks depending on it */
+export const MAX_RECORDED_OUTPUT = 2000
+
+export const DEFAULT_PROMPT_TEMPLATE = `# Task: {{task.id}}
+
+## Title
+{{task.title}}
+
+## PRD (Product Requirements)
+{{task.description}}
+
+## Success Criteria
+The task is considered COMPLETE when:
+{{#each successCriteria}}
+- [ ] {{this}}
+{{/each}}
+
+## Failure Criteria
+The task should be marked FAILED if:
+{{#each failureCriteria}}
+- {{this}}
+{{/each}}
+{{#if dependencies.length}}
+
+## Completed Dependencies
+{{#each dependencies}}
+### {{id}}: {{title}} ({{status}})
+{{#if output}}
+\`\`\`
+{{output}}
+\`\`\`
+{{/if}}
+{{/each}}
+{{/if}}
+{{#if codeContext.length}}
+
+## Relevant Code
+{{#each codeContext}}
+### {{#if taskId}}Output of task {{taskId}}{{else}}{{file}}{{#if lineStart}}:{{lineStart}}-{{lineEnd}}{{/if}}{{/if}}
+\`\`\`
+{{content}}
+\`\`\`
+{{/each}}
+{{/if}}
+
+## Instructions
+1. Read the PRD carefully and understand the requirements
+2. Implement the task as described
+3. Verify against the success criteria above
+4. Run relevant tests to verify your changes
+5. If tests fail, fix the issues before marking complete
+{{#if retry}}
+
+## Previous Attempt Context
+Attempt {{retry.attempt}} did not complete the task:
+{{retry.context}}
+{{/if}}
+
+## Important
+{{#each conventions}}
+- {{this}}
+{{else}}
+- Follow the project's existing coding style and conventions
+{{/each}}
+- Self-verify against success criteria before marking complete
+{{#if task.url}}
+
+Source: {{task.url}}
+{{/if}}
+`
+
+/**
+ * Where a template came from, for `loopwork prompt render`
+ */
+export interface ResolvedPromptTemplate {
+  /** e.g. `cli:opencode`, `feature:billing`, `default` or `built-in` */
+  source: string
+  /** Template file, when not inline or built-in */
+  file?: string
+  template: string
+}
+
+export interface PromptTemplatesOptions {
+  projectRoot: string
+  config?: PromptConfig
+  /** Used to include the outputs of the task's dependencies */
+  backend?: Pick<TaskBackend, 'getTask'>
+  /** Finds code relevant to the task */
+  retrieveCode?: (task: Task, limit: number) => Promise<CodeSnippet[]>
+}
+
+function stringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined
+  const items = value.filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+  return items.length > 0 ? items : undefined
+}
+
+/**
+ * Assemble the template context from what is already known about the task
+ */
+export function createPromptContext(input: PromptRenderInput & { conventions?: string[] }): PromptTemplateContext {
+  const { task } = input
+  const metadata = task.metadata ?? {}
+  const url = metadata.url || metadata.prdFile
+  const retryContext = input.retryContext || (task.failureCount ? task.lastError : undefined)
+
+  return {
+    task: {
+      id: task.id,
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      feature: task.feature,
+      url: typeof url === 'string' && url ? url : undefined,
+      metadata,
+    },
+    successCriteria: stringList(metadata.successCriteria) ?? generateSuccessCriteria(task),
+    failureCriteria: stringList(metadata.failureCriteria) ?? generateFailureCriteria(task),
+    dependencies: input.dependencies ?? [],
+    retry: retryContext
+      ? { attempt: input.retryAttempt || task.failureCount || 1, context: retryContext }
+      : null,
+    conventions: input.conventions ?? [],
+    codeContext: input.codeContext ?? [],
+    namespace: input.namespace,
+    cli: input.cli,
+    model: input.model,
+  }
+}
+
+/**
+ * Render a prompt template without escaping, since prompts are not HTML
+ */
+export function renderPromptTemplate(template: string, context: PromptTemplateContext): string {
+  return new HandlebarsEngine({ noEscape: true }).render(template, context as unknown as Record<string, unknown>)
+}
+
+/**
+ * Outputs of the task's dependencies, as recorded when they completed
+ */
+export async function collectDependencyOutputs(
+  task: Task,
+  backend: Pick<TaskBackend, 'getTask'>
+): Promise<DependencyOutput[]> {
+  const outputs: DependencyOutput[] = []
+  for (const id of task.dependsOn ?? []) {
+    const dependency = await backend.getTask(id).catch(() => null)
+    if (!dependency) continue
+    const output = dependency.metadata?.output
+    outputs.push({
+      id: dependency.id,
+      title: dependency.title,
+      status: dependency.status,
+      output: typeof output === 'string' && output.trim() ? output.trim() : undefined,
+    })
+  }
+  return outputs
+}
+
+/**
+ * Keep the end of a completed task's output for the tasks depending on it
+ */
+export async function recordTaskOutput(
+  backend: Pick<TaskBackend, 'updateTask'>,
+  taskId: string,
+  output: string
+): Promise<void> {
+  if (!backend.updateTask || !output.trim()) return
+  await backend.updateTask(taskId, {
+    metadata: { output: output.trim().slice(-MAX_RECORDED_OUTPUT) },
+  }).catch(() => {})
+}
+
+/**
+ * Retrieve code and earlier task outputs for a task from the semantic code
+ * indexer plugin, if the project uses it, within the prompt's token budget
+ *
+ * @param events - Backend to record the included chunks on, for real runs
+ */
+export function createSemanticCodeRetriever(
+  config: unknown,
+  events?: Pick<TaskBackend, 'addEvent'>
+): PromptTemplatesOptions['retrieveCode'] {
+  const { getSemanticCodeIndexer } = require('../plugins/semantic-indexer')
+  const plugin = getSemanticCodeIndexer(config)
+  if (!plugin) return undefined
+
+  const assembler = new ContextAssembler({
+    maxTokens: (config as { prompts?: PromptConfig }).prompts?.maxContextTokens,
+    sources: [
+      async (query, limit) => {
+        const state = plugin.getIndexState()
+        if (!state || state.isIndexing) return []
+        const results: SearchResult[] = await state.indexer.search(query, limit)
+        return results.map(chunkFromSearchResult)
+      },
+    ],
+  })
+
+  return async (task, limit) => {
+    const context = await assembler.assemble(task, limit)
+    if (events) await recordAssembledContext(events, task.id, context)
+    return context.chunks
+  }
+}
+
+/**
+ * Resolves and renders the prompt template for each task
+ */
+export class PromptTemplates {
+  private config: PromptConfig
+
+  constructor(private options: PromptTemplatesOptions) {
+    this.config = options.config ?? {}
+  }
+
+  /**
+   * The most specific template for a task: CLI, feature, namespace, project
+   * default, then the built-in template
+   *
+   * @throws LoopworkError when a configured template file does not exist
+   */
+  resolve(target: { namespace?: string; feature?: string; cli?: string }): ResolvedPromptTemplate {
+    const candidates: Array<[string, string | undefined]> = [
+      [`cli:${target.cli}`, target.cli ? this.config.clis?.[target.cli] : undefined],
+      [`feature:${target.feature}`, target.feature ? this.config.features?.[target.feature] : undefined],
+      [`namespace:${target.namespace}`, target.namespace ? this.config.namespaces?.[target.namespace] : undefined],
+      ['default', this.config.template],
+    ]
+
+    for (const [source, value] of candidates) {
+      if (!value) continue
+      if (value.includes('{{') || value.includes('\n')) {
+        return { source, template: value }
+      }
+      const file = path.resolve(this.options.projectRoot, value)
+      if (!fs.existsSync(file)) {
+        throw new LoopworkError(
+          'ERR_FILE_NOT_FOUND',
+          `Prompt template not found: ${file}`,
+          [
+            `Check prompts (${source}) in loopwork.config.ts`,
+            'Template paths are relative to the project root',
+          ]
+        )
+      }
+      return { source, file, template: fs.readFileSync(file, 'utf-8') }
+    }
+
+    return { source: 'built-in', template: DEFAULT_PROMPT_TEMPLATE }
+  }
+
+  /**
+   * Load every configured template and the conventions file, so config
+   * errors surface before a task is claimed
+   *
+   * @throws LoopworkError when a configured file does not exist or a
+   * template does not parse
+   */
+  validate(): void {
+    const resolved = [
+      ...Object.keys(this.config.clis ?? {}).map(cli => this.resolve({ cli })),
+      ...Object.keys(this.config.features ?? {}).map(feature => this.resolve({ feature })),
+      ...Object.keys(this.config.namespaces ?? {}).map(namespace => this.resolve({ namespace })),
+      this.resolve({}),
+    ]
+
+    for (const { source, file, template } of resolved) {
+      try {
+        Handlebars.parse(template)
+      } catch (error) {
+        throw new LoopworkError(
+          'ERR_CONFIG_INVALID',
+          `Invalid prompt template (${file ? path.relative(this.options.projectRoot, file) : source}): ${error instanceof Error ? error.message : String(error)}`,
+          ['Check the Handlebars syntax, e.g. that every {{#each}} and {{#if}} is closed']
+        )
+      }
+    }
+    this.conventions()
+  }
+
+  /**
+   * Conventions from the config followed by those in the conventions file
+   */
+  conventions(): string[] {
+    const conventions = [...(this.config.conventions ?? [])]
+    const file = path.resolve(this.options.projectRoot, this.config.conventionsFile || DEFAULT_CONVENTIONS_FILE)
+
+    if (fs.existsSync(file)) {
+      for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+        const convention = line.replace(/^\s*(?:[-*]|\d+\.)\s+/, '').trim()
+        if (convention && !convention.startsWith('#')) {
+          conventions.push(convention)
+        }
+      }
+    } else if (this.config.conventionsFile) {
+      throw new LoopworkError(
+        'ERR_FILE_NOT_FOUND',
+        `Conventions file not found: ${file}`,
+        ['Check prompts.conventionsFile in loopwork.config.ts']
+      )
+    }
+
+    return conventions
+  }
+
+  async buildContext(input: PromptRenderInput): Promise<PromptTemplateContext> {
+    const limit = this.config.maxCodeSnippets ?? DEFAULT_MAX_CODE_SNIPPETS
+    const [dependencies, codeContext] = await Promise.all([
+      input.dependencies ?? (this.options.backend ? collectDependencyOutputs(input.task, this.options.backend) : []),
+      input.codeContext ?? (this.options.retrieveCode && limit > 0
+        ? this.options.retrieveCode(input.task, limit).catch(() => [])
+        : []),
+    ])
+
+    return createPromptContext({ ...input, dependencies, codeContext, conventions: this.conventions() })
+  }
+
+  async render(input: PromptRenderInput): Promise<string> {
+    const { template } = this.resolve({ namespace: input.namespace, feature: input.task.feature, cli: input.cli })
+    return renderPromptTemplate(template, await this.buildContext(input))
+  }
+}
+
+/**
+ * Prompt templates for a run, with dependency outputs from the backend and
+ * code from the semantic code indexer when configured
+ *
+ * @param options.recordContext - Record the retrieved chunks on each task's event log
+ * @throws LoopworkError when a configured template or conventions file is missing or invalid
+ */
+export function createPromptTemplates(
+  config: { projectRoot: string; prompts?: PromptConfig },
+  backend: Pick<TaskBackend, 'getTask' | 'addEvent'>,
+  options: { recordContext?: boolean } = {}
+): PromptTemplates {
+  const templates = new PromptTemplates({
+    projectRoot: config.projectRoot,
+    config: config.prompts,
+    backend,
+    retrieveCode: createSemanticCodeRetriever(config, options.recordContext ? backend : undefined),
+  })
+  templates.validate()
+  return templates
+}
@@ -1,7 +1,34 @@
 import { HookEngine } from '@loopwork-ai/hook-engine'
-import type { LoopworkPlugin, PipelineContext } from '@loopwork-ai/contracts'
+import type { HookDecision, LoopworkPlugin, PipelineContext, PluginHookDecision, PluginHookEvent } from '@loopwork-ai/contracts'
 import { logger } from './utils'
 
+/** Hooks whose return value decides whether a task goes ahead */
+const DECISION_HOOKS: string[] = ['onBeforeTaskStart', 'onBeforeComplete']
+
+/**
+ * The decision a before-hook returned, or undefined to proceed
+ */
+function toDecision(pluginName: string, result: unknown): HookDecision | undefined {
+  if (result === undefined || result === null) return undefined
+
+  const decision = result as Partial<Record<string, unknown>>
+  switch (decision.action) {
+    case 'proceed':
+      return undefined
+    case 'skip':
+      return result as HookDecision
+    case 'defer':
+      if (!Number.isNaN(new Date(decision.until as string | Date).getTime())) return result as HookDecision
+      break
+    case 'rewrite':
+      if (typeof decision.prompt === 'string') return result as HookDecision
+      break
+  }
+
+  logger.warn(`Plugin ${pluginName} returned an invalid hook decision, proceeding: ${JSON.stringify(result)}`)
+  return undefined
+}
+
 export class LoopworkRunner {
   private plugins: LoopworkPlugin[] = []
   private hookEngine: HookEngine = new HookEngine({ throwOnError: true })
@@ -28,11 +55,14 @@ export class LoopworkRunner {
     const hooks: (keyof LoopworkPlugin)[] = [
       'onConfigLoad',
       'onBackendReady',
+      'onSelectTasks',
       'onLoopStart',
       'onLoopEnd',
       'onTaskStart',
       'onTaskComplete',
       'onTaskFailed',
+      'onBeforeTaskStart',
+      'onBeforeComplete',
       'onTaskQuarantined',
       'onTaskRetry',
       'onTaskAbort',
@@ -45,7 +75,11 @@ export class LoopworkRunner {
     for (const plugin of this.plugins) {
       for (const hook of hooks) {
         if (typeof plugin[hook] === 'function') {
-          this.hookEngine.register(hook as string, this.createMiddleware(plugin, hook))
+          this.hookEngine.register(hook as string, this.createMiddleware(plugin, hook), {
+            priority: plugin.priority,
+            timeoutMs: plugin.timeoutMs,
+            onTimeout: (error, ctx: PipelineContext) => this.handleTimeout(plugin, hook, ctx, error),
+          })
         }
       }
     }
@@ -73,19 +107,42 @@ export class LoopworkRunner {
 
       const hook = plugin[hookName]
       if (typeof hook === 'function') {
+        const startTime = Date.now()
         try {
           const result = await (hook as Function).apply(plugin, args)
+          // Abandoned by the hook engine; the rest of the pipeline has already run
+          if (this.timedOut(ctx, plugin)) return
           if (hookName === 'onConfigLoad' && result) {
             args[0] = result
           }
+          if (hookName === 'onSelectTasks' && Array.isArray(result)) {
+            args[0] = result
+          }
+          this.reportHook(plugin, hookName, args, startTime)
+
+          if (DECISION_HOOKS.includes(hookName as string)) {
+            const decision = toDecision(plugin.name, result)
+            if (decision) {
+              ctx.state.decision = { ...decision, plugin: plugin.name }
+              if (decision.action === 'rewrite') {
+                args[0] = { ...args[0], prompt: decision.prompt }
+              } else {
+                // A veto ends the pipeline: later plugins are not asked
+                return
+              }
+            }
+          }
         } catch (error) {
+          if (this.timedOut(ctx, plugin)) return
+          this.reportHook(plugin, hookName, args, startTime, error)
+
           const isCritical = plugin.classification === 'critical' || (plugin as any).essential === true
           
           if (!isCritical) {
             this.recordFailure(plugin.name)
           }
 
-          if (isCritical && (hookName === 'onTaskStart' || hookName === 'onBackendReady')) {
+          if (isCritical && (hookName === 'onTaskStart' || hookName === 'onBeforeTaskStart' || hookName === 'onBackendReady')) {
             throw error
           }
           logger.error(`Plugin ${plugin.name} error in ${String(hookName)}: ${error}`)
@@ -118,6 +175,52 @@ export class LoopworkRunner {
     return false
   }
 
+  private timedOut(ctx: PipelineContext, plugin: LoopworkPlugin): boolean {
+    return (ctx.state.timedOut as Set<string> | undefined)?.has(plugin.name) ?? false
+  }
+
+  /**
+   * A plugin overran its timeoutMs: ignore its late result and count it as a failure
+   */
+  private handleTimeout(plugin: LoopworkPlugin, hookName: keyof LoopworkPlugin, ctx: PipelineContext, error: Error): void {
+    const timedOut: Set<string> = ctx.state.timedOut ?? new Set()
+    timedOut.add(plugin.name)
+    ctx.state.timedOut = timedOut
+
+    this.reportHook(plugin, hookName, ctx.state.args || [], Date.now() - (plugin.timeoutMs ?? 0), error)
+
+    const isCritical = plugin.classification === 'critical' || plugin.essential === true
+    if (!isCritical) {
+      this.recordFailure(plugin.name)
+    }
+    logger.warn(`Plugin ${plugin.name} timed out in ${String(hookName)} after ${plugin.timeoutMs}ms`)
+  }
+
+  /**
+   * Tell plugins observing hook calls how long this one took
+   */
+  private reportHook(plugin: LoopworkPlugin, hookName: keyof LoopworkPlugin, args: unknown[], startTime: number, error?: unknown): void {
+    const observers = this.plugins.filter(p => p !== plugin && typeof p.onPluginHook === 'function' && !this.disabledPlugins.has(p.name))
+    if (observers.length === 0) return
+
+    const taskArg = args.find((arg): arg is { task?: { id?: string }; taskId?: string } => typeof arg === 'object' && arg !== null)
+    const event: PluginHookEvent = {
+      plugin: plugin.name,
+      hook: String(hookName),
+      startTime,
+      durationMs: Date.now() - startTime,
+      taskId: taskArg?.task?.id ?? taskArg?.taskId,
+      ...(error !== undefined ? { error: error instanceof Error ? error.message : String(error) } : {}),
+    }
+    for (const observer of observers) {
+      try {
+        observer.onPluginHook!(event)
+      } catch (observerError) {
+        logger.debug(`Plugin ${observer.name} error in onPluginHook: ${observerError}`)
+      }
+    }
+  }
+
   private recordFailure(pluginName: string): void {
     const currentCount = this.pluginFailureCount.get(pluginName) || 0
     const newCount = currentCount + 1
@@ -133,12 +236,40 @@ export class LoopworkRunner {
     await this.hookEngine.execute(name, { state: { args } } as any)
   }
 
+  /**
+   * Run onBeforeTaskStart or onBeforeComplete. Plugins are asked in priority
+   * order until one skips or defers the task; rewrites are passed on to the
+   * plugins after it.
+   */
+  async runDecisionHook(name: 'onBeforeTaskStart' | 'onBeforeComplete', ...args: unknown[]): Promise<PluginHookDecision> {
+    const state: { args: unknown[]; decision?: PluginHookDecision } = { args }
+    await this.hookEngine.execute(name, { state })
+    return state.decision ?? { action: 'proceed' }
+  }
+
   async applyConfigHooks(config: any): Promise<any> {
     const state = { args: [config] }
     await this.hookEngine.execute('onConfigLoad', { state } as any)
     return state.args[0]
   }
 
+  /**
+   * Whether an enabled plugin orders tasks through onSelectTasks
+   */
+  hasTaskSelectors(): boolean {
+    return this.plugins.some(p => typeof p.onSelectTasks === 'function' && !this.disabledPlugins.has(p.name))
+  }
+
+  /**
+   * Run onSelectTasks. Each plugin gets the list the previous one returned;
+   * a plugin returning nothing leaves it as it was.
+   */
+  async selectTasks<T>(tasks: T[]): Promise<T[]> {
+    const state: { args: unknown[] } = { args: [tasks] }
+    await this.hookEngine.execute('onSelectTasks', { state })
+    return state.args[0] as T[]
+  }
+
   disablePlugin(name: string): void {
     this.disabledPlugins.add(name)
   }
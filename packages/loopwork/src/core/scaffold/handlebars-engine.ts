@@ -1,8 +1,13 @@
 import Handlebars from 'handlebars';
 import { TemplateEngine } from './types';
 
+export interface HandlebarsEngineOptions {
+  /** Render values as-is instead of HTML-escaping them (for non-HTML output such as prompts) */
+  noEscape?: boolean;
+}
+
 export class HandlebarsEngine implements TemplateEngine {
-  constructor() {
+  constructor(private options: HandlebarsEngineOptions = {}) {
     this.registerHelpers();
   }
 
@@ -16,7 +21,7 @@ export class HandlebarsEngine implements TemplateEngine {
   }
 
   render(template: string, context: Record<string, unknown>): string {
-    const compiled = Handlebars.compile(template);
+    const compiled = Handlebars.compile(template, { noEscape: this.options.noEscape });
     return compiled(context);
   }
 }
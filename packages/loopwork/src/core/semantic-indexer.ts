@@ -39,6 +39,9 @@ export interface IndexStats {
   errors: number
 }
 
+/** Characters from the end of a task's output that are indexed */
+export const MAX_TASK_OUTPUT_CHARS = 2000
+
 /**
  * Calculates a simple hash of file content for change detection
  */
@@ -216,6 +219,13 @@ export class SemanticCodeIndexer {
     return new Map(this.indexStatus)
   }
 
+  /**
+   * Check if a file is indexed with this exact content
+   */
+  isUpToDate(filePath: string, content: string): boolean {
+    return this.indexStatus.get(filePath)?.contentHash === calculateHash(content)
+  }
+
   /**
    * Index a single file
    */
@@ -295,6 +305,25 @@ export class SemanticCodeIndexer {
     }
   }
 
+  /**
+   * Index the output of a completed task, so later tasks can find what it did
+   *
+   * @returns ID of the stored document
+   */
+  async indexTaskOutput(taskId: string, title: string, output: string): Promise<string | undefined> {
+    if (!output.trim()) return undefined
+    const content = `${title}\n\n${output.trim().slice(-MAX_TASK_OUTPUT_CHARS)}`
+
+    const docId = `task-output:${taskId}`
+    await this.vectorStore.add([{
+      id: docId,
+      content,
+      embedding: await this.embeddingProvider.embed(content),
+      metadata: { source: 'task-output', taskId, title },
+    }])
+    return docId
+  }
+
   /**
    * Search the code index
    */
@@ -13,7 +13,7 @@
 /**
  * Task status types
  */
-export type TaskStatus = 'pending' | 'in-progress' | 'completed' | 'failed' | 'cancelled' | 'quarantined'
+export type TaskStatus = 'pending' | 'in-progress' | 'completed' | 'failed' | 'cancelled' | 'quarantined' | 'blocked'
 
 /**
  * Status style for different output modes
@@ -69,6 +69,12 @@ export const STATUS_STYLES: Record<TaskStatus, StatusStyle> = {
     tailwind: 'text-purple-500',
     icon: '☣',
   },
+  blocked: {
+    chalk: 'yellow',
+    blessed: '{yellow-fg}',
+    tailwind: 'text-orange-500',
+    icon: '⊘',
+  },
 }
 
 /**
@@ -174,6 +180,7 @@ export function getStatusLabel(status: TaskStatus): string {
     failed: 'Failed',
     cancelled: 'Cancelled',
     quarantined: 'Quarantined',
+    blocked: 'Blocked',
   }
   return labels[status] || status
 }
@@ -195,6 +202,7 @@ export function getStatusBackgroundColor(status: TaskStatus): string {
     failed: 'bgRed',
     cancelled: 'bgGray',
     quarantined: 'bgMagenta',
+    blocked: 'bgYellowBright',
   }
   return bgColors[status] || 'bgWhite'
 }
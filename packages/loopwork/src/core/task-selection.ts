@@ -0,0 +1,74 @@
+/**
+ * Task Selection
+ *
+ * Lets onSelectTasks plugins, such as the task scheduler, choose which due
+ * task runs next instead of taking the backend's priority order.
+ */
+
+import type { TaskBackend, FindTaskOptions } from '../contracts/backend'
+import type { Task } from '../contracts/task'
+
+/** Orders the due tasks, most wanted first; usually the plugin registry's selectTasks */
+export type TaskSelector = (tasks: Task[]) => Promise<Task[]>
+
+/**
+ * Whether a task's scheduledFor time has come. Unscheduled tasks and
+ * unparseable times count as due, as they do in the backends.
+ */
+export function isTaskDue(task: Pick<Task, 'scheduledFor'>, now = Date.now()): boolean {
+  if (!task.scheduledFor) return true
+  const scheduledAt = new Date(task.scheduledFor).getTime()
+  return Number.isNaN(scheduledAt) || scheduledAt <= now
+}
+
+/**
+ * The due tasks in the order plugins want them run, or null to leave the
+ * choice to the backend
+ */
+async function selectDueTasks(
+  backend: Pick<TaskBackend, 'listPendingTasks'>,
+  options: FindTaskOptions,
+  selectTasks?: TaskSelector
+): Promise<Task[] | null> {
+  if (!selectTasks) return null
+
+  const now = Date.now()
+  const due = (await backend.listPendingTasks(options))
+    .filter(task => isTaskDue(task, now) && !options.exclude?.includes(task.id))
+  return await selectTasks(due)
+}
+
+/**
+ * Find the task to run next without claiming it
+ */
+export async function findNextTask(
+  backend: Pick<TaskBackend, 'findNextTask' | 'getTask' | 'listPendingTasks'>,
+  options: FindTaskOptions,
+  selectTasks?: TaskSelector
+): Promise<Task | null> {
+  const selected = await selectDueTasks(backend, options, selectTasks)
+  if (!selected) return await backend.findNextTask(options)
+
+  return selected[0] ? await backend.getTask(selected[0].id) : null
+}
+
+/**
+ * Claim the task to run next. The plugins' pick is passed to the backend as
+ * `startFrom`, so if another worker claimed it first the backend falls back
+ * to its own order. Tasks in `options.exclude` are never picked.
+ */
+export async function claimNextTask(
+  backend: Pick<TaskBackend, 'claimTask' | 'findNextTask' | 'listPendingTasks' | 'markInProgress'>,
+  options: FindTaskOptions,
+  selectTasks?: TaskSelector
+): Promise<Task | null> {
+  const selected = await selectDueTasks(backend, options, selectTasks)
+  if (selected && selected.length === 0) return null
+
+  const claimOptions = selected ? { ...options, startFrom: selected[0].id } : options
+  if (backend.claimTask) return await backend.claimTask(claimOptions)
+
+  const task = await backend.findNextTask(claimOptions)
+  if (task) await backend.markInProgress(task.id)
+  return task
+}
@@ -1,16 +1,52 @@
 import type { Task } from '../backends'
+import type { ModelPreference } from '@loopwork-ai/contracts'
+import type { ICliExecutor } from '../contracts/executor'
+
+/**
+ * CLI/model a task asks for (set e.g. by workflow stage overrides)
+ */
+export function modelPreference(task: Task): ModelPreference {
+  const metadata = task.metadata ?? {}
+  return {
+    preferredCli: typeof metadata.preferredCli === 'string' ? metadata.preferredCli : undefined,
+    preferredModel: typeof metadata.preferredModel === 'string' ? metadata.preferredModel : undefined,
+  }
+}
 
+/**
+ * CLI and model a task will run with: the executor's next pick for the
+ * task's preference, or without one the preference itself and then `defaultCli`.
+ * Prompts are rendered for this CLI so they match the run.
+ */
+export function resolveTaskModel(
+  task: Task,
+  executor?: Pick<ICliExecutor, 'getNextModel'>,
+  defaultCli?: string
+): { cli?: string; model?: string; displayName?: string } {
+  const preference = modelPreference(task)
+  const next = executor?.getNextModel?.(preference)
+  if (next) return next
+  return { cli: preference.preferredCli || defaultCli, model: preference.preferredModel }
+}
+
+/**
+ * Keyword-based success criteria, used when the task does not list its own
+ * in `metadata.successCriteria`
+ */
 export function generateSuccessCriteria(task: Task): string[] {
   const criteria: string[] = []
   const desc = task.description.toLowerCase()
   const title = task.title.toLowerCase()
 
   if (desc.includes('test') || title.includes('test')) {
-    criteria.push('All related tests pass (`bun test` or `yarn test`)')
+    criteria.push('All related tests pass')
   }
 
   if (desc.includes('api') || desc.includes('endpoint') || desc.includes('graphql')) {
     criteria.push('API endpoint is functional and returns expected responses')
+  }
+
+  if (desc.includes('graphql')) {
     criteria.push('GraphQL schema validates (no SDL errors)')
   }
 
@@ -21,7 +57,7 @@ export function generateSuccessCriteria(task: Task): string[] {
 
   if (desc.includes('database') || desc.includes('migration') || desc.includes('prisma') || desc.includes('model')) {
     criteria.push('Database migrations apply cleanly')
-    criteria.push('Prisma schema is valid (`yarn rw prisma validate`)')
+    criteria.push('Database schema is valid')
   }
 
   if (desc.includes('fix') || desc.includes('bug') || title.includes('fix')) {
@@ -36,7 +72,7 @@ export function generateSuccessCriteria(task: Task): string[] {
 
   if (criteria.length === 0) {
     criteria.push('Implementation matches the PRD requirements')
-    criteria.push('No type errors (`yarn rw type-check`)')
+    criteria.push('No type errors')
     criteria.push('Code follows project conventions')
   }
 
@@ -60,43 +96,3 @@ export function generateFailureCriteria(task: Task): string[] {
 
   return criteria
 }
-
-export function buildPrompt(task: Task, retryContext: string = ''): string {
-  const url = task.metadata?.url || task.metadata?.prdFile || ''
-  const urlLine = url ? `\nSource: ${url}` : ''
-
-  const successCriteria = generateSuccessCriteria(task)
-  const failureCriteria = generateFailureCriteria(task)
-
-  return `# Task: ${task.id}
-
-## Title
-${task.title}
-
-## PRD (Product Requirements)
-${task.description}
-
-## Success Criteria
-The task is considered COMPLETE when:
-${successCriteria.map(c => `- [ ] ${c}`).join('\n')}
-
-## Failure Criteria
-The task should be marked FAILED if:
-${failureCriteria.map(c => `- ${c}`).join('\n')}
-
-## Instructions
-1. Read the PRD carefully and understand the requirements
-2. Implement the task as described
-3. Verify against the success criteria above
-4. Run relevant tests to verify your changes
-5. If tests fail, fix the issues before marking complete
-
-${retryContext ? `## Previous Attempt Context\n${retryContext}` : ''}
-
-## Important
-- Follow the project's coding style (no semicolons, single quotes, 2-space indent)
-- Run \`yarn rw type-check\` before tests
-- Self-verify against success criteria before marking complete
-${urlLine}
-`
-}
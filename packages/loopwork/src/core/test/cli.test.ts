@@ -110,7 +110,7 @@ describe('cli', () => {
 
       expect(result.hasAny).toBe(true)
       expect(result.found.size).toBe(3)
-      expect(result.notFound.length).toBe(4)
+      expect(result.notFound).toEqual(['droid', 'crush', 'kimi', 'kilocode'])
     })
 
     test('should report missing binaries', async () => {
@@ -146,7 +146,7 @@ describe('cli', () => {
 
       expect(result.hasAny).toBe(false)
       expect(result.found.size).toBe(0)
-      expect(result.notFound.length).toBe(7)
+      expect(result.notFound).toEqual(['claude', 'opencode', 'gemini', 'droid', 'crush', 'kimi', 'kilocode'])
     })
   })
 })
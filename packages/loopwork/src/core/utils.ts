@@ -5,7 +5,7 @@ import type { OutputFormat, JsonEvent } from '../contracts/output'
 import type { IErrorRegistry } from '@loopwork-ai/contracts'
 import type { OutputRenderer } from '../output/renderer'
 import { ConsoleRenderer } from '../output/console-renderer'
-import { getTimestamp, StreamLogger as CommonStreamLogger } from '@loopwork-ai/common'
+import { getTimestamp, redactSecrets, StreamLogger as CommonStreamLogger } from '@loopwork-ai/common'
 
 // Re-export core utilities from common
 export { getTimestamp, calculateChecksum } from '@loopwork-ai/common'
@@ -106,7 +106,7 @@ export const logger = {
         if (!fs.existsSync(dir)) {
           fs.mkdirSync(dir, { recursive: true })
         }
-        fs.appendFileSync(logger.logFile, `[${timestamp}] [${level}] ${msg}\n`)
+        fs.appendFileSync(logger.logFile, `[${timestamp}] [${level}] ${redactSecrets(msg)}\n`)
       } catch {
         // Silently ignore log file errors to prevent test failures
       }
@@ -117,7 +117,7 @@ export const logger = {
     logger.renderer.render({
       type: 'log',
       level: 'info',
-      message: msg,
+      message: redactSecrets(msg),
       timestamp: Date.now()
     })
     logger._logToFile('INFO', msg)
@@ -127,7 +127,7 @@ export const logger = {
       type: 'log',
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       level: 'success' as any, // Custom level supported by ConsoleRenderer
-      message: msg,
+      message: redactSecrets(msg),
       timestamp: Date.now()
     })
     logger._logToFile('SUCCESS', msg)
@@ -136,7 +136,7 @@ export const logger = {
     logger.renderer.render({
       type: 'log',
       level: 'warn',
-      message: msg,
+      message: redactSecrets(msg),
       timestamp: Date.now()
     })
     logger._logToFile('WARN', msg)
@@ -145,7 +145,7 @@ export const logger = {
     logger.renderer.render({
       type: 'log',
       level: 'error',
-      message: msg,
+      message: redactSecrets(msg),
       timestamp: Date.now()
     })
     logger._logToFile('ERROR', msg)
@@ -154,7 +154,7 @@ export const logger = {
     logger.renderer.render({
       type: 'log',
       level: 'debug',
-      message: msg,
+      message: redactSecrets(msg),
       timestamp: Date.now()
     })
     logger._logToFile('DEBUG', msg)
@@ -163,7 +163,7 @@ export const logger = {
     logger.renderer.render({
       type: 'log',
       level: 'trace',
-      message: msg,
+      message: redactSecrets(msg),
       timestamp: Date.now()
     })
     logger._logToFile('TRACE', msg)
@@ -171,7 +171,7 @@ export const logger = {
   update: (msg: string, percent?: number) => {
     logger.renderer.render({
       type: 'progress:update',
-      message: msg,
+      message: redactSecrets(msg),
       percent,
       timestamp: Date.now()
     })
@@ -180,7 +180,7 @@ export const logger = {
   startSpinner: (msg: string, percent?: number) => {
     logger.renderer.render({
       type: 'progress:start',
-      message: msg,
+      message: redactSecrets(msg),
       percent,
       timestamp: Date.now()
     })
@@ -189,7 +189,7 @@ export const logger = {
   stopSpinner: (msg?: string, _symbol?: string) => {
     logger.renderer.render({
       type: 'progress:stop',
-      message: msg,
+      message: msg && redactSecrets(msg),
       timestamp: Date.now(),
       success: true // Default to success if not specified
     })
@@ -202,7 +202,7 @@ export const logger = {
   raw: (msg: string, noNewline: boolean = false) => {
     logger.renderer.render({
       type: 'raw',
-      content: msg,
+      content: redactSecrets(msg),
       noNewline,
       timestamp: Date.now()
     })
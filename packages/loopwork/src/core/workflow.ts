@@ -0,0 +1,75 @@
+/**
+ * Project Workflow
+ *
+ * Locates and loads the project's workflow file. Its stages are materialized
+ * into backend tasks by the workflow plugin when a run starts.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import {
+  DEFAULT_WORKFLOW_FILE,
+  getWorkflowProgress,
+  loadWorkflowFile,
+  type StageProgress,
+  type WorkflowDefinition,
+} from '@loopwork-ai/workflow'
+import { LoopworkError } from './errors'
+
+/**
+ * Path of the workflow file to load, or null when there is none
+ *
+ * @throws LoopworkError when a configured workflow file does not exist
+ */
+export function resolveWorkflowFile(projectRoot: string, setting: string | false | undefined): string | null {
+  if (setting === false) return null
+
+  const file = path.resolve(projectRoot, setting || DEFAULT_WORKFLOW_FILE)
+  if (fs.existsSync(file)) return file
+  if (!setting) return null
+
+  throw new LoopworkError(
+    'ERR_FILE_NOT_FOUND',
+    `Workflow file not found: ${file}`,
+    [
+      'Check the workflow path in loopwork.config.ts',
+      `Or remove it to use ${DEFAULT_WORKFLOW_FILE} when present`,
+    ]
+  )
+}
+
+/**
+ * Load the project's workflow, if it has one
+ *
+ * @throws LoopworkError when the workflow is invalid
+ */
+export function loadProjectWorkflow(projectRoot: string, setting: string | false | undefined): WorkflowDefinition | null {
+  const file = resolveWorkflowFile(projectRoot, setting)
+  if (!file) return null
+
+  try {
+    return loadWorkflowFile(file)
+  } catch (error) {
+    throw new LoopworkError(
+      'ERR_CONFIG_INVALID',
+      `Failed to load workflow ${path.relative(projectRoot, file)}: ${error instanceof Error ? error.message : String(error)}`,
+      [
+        'Every stage needs an id and its tasks a title',
+        'needs may only reference existing stages and must not form a cycle',
+      ]
+    )
+  }
+}
+
+/**
+ * Per-stage progress of the project's workflow, for `loopwork status`
+ */
+export async function getProjectWorkflowProgress(): Promise<{ name: string; stages: StageProgress[] } | null> {
+  const { getConfig } = await import('./config')
+  const config = await getConfig()
+  const workflow = loadProjectWorkflow(config.projectRoot, config.workflow)
+  if (!workflow) return null
+
+  const { createBackend } = require('../backends')
+  return { name: workflow.name, stages: await getWorkflowProgress(workflow, createBackend(config.backend)) }
+}
@@ -19,6 +19,7 @@ import { buildCommandContext } from './registry/context-builder'
 
 // Import backend utilities for dependency injection
 import { getBackendAndConfig } from './commands/shared'
+import { shouldAutoInsertRun } from './commands/shared/legacy-args'
 
 /**
  * Helper function to execute a registered command
@@ -85,22 +86,30 @@ export {
   withPlugin,
   withJSONBackend,
   withGitHubBackend,
+  withSQLiteBackend,
   withClaudeCode,
   withIPC,
   withAIMonitor,
   withDynamicTasks,
   withGitAutoCommit,
+  withPullRequests,
+  GitHubForge,
+  LocalForge,
+  withOtlpExport,
   withSmartTasks,
   withSmartTasksConservative,
   withSmartTasksAggressive,
   withSmartTestTasks,
   withTaskRecovery,
   withSafety,
+  withDiffRiskAnalysis,
+  withAcceptanceCriteria,
   // CLI configuration
   withCli,
   withModels,
   withRetry,
   withCliPaths,
+  withCustomCli,
   withSelectionStrategy,
   createModel,
   ModelPresets,
@@ -117,6 +126,7 @@ export {
 export type { SimpleConfigOptions } from './plugins/simple-config'
 export { logger } from './core/utils' // TODO: Will be moved to @loopwork-ai/common after utils refactor
 export type { LoopworkConfig, LoopworkPlugin, ConfigWrapper, DynamicTasksConfig } from './contracts'
+export type { BeforeHookContext, HookDecision } from './contracts'
 export type {
   IDocGenerator,
   IChangeLogProvider,
@@ -126,6 +136,8 @@ export type {
   CliExecutorConfig,
   RetryConfig,
   CliPathConfig,
+  CustomCliConfig,
+  AdaptiveRoutingConfig,
   ModelSelectionStrategy,
   CliType,
 } from './contracts'
@@ -147,7 +159,7 @@ export {
   DEFAULT_ROLES,
   TASK_CATEGORY_CAPABILITY_MAP,
 } from './contracts'
-export type { IPCMessage, IPCEventType, IPCPluginOptions, DynamicTasksOptions, GitAutoCommitOptions } from './plugins'
+export type { IPCMessage, IPCEventType, IPCPluginOptions, DynamicTasksOptions, GitAutoCommitOptions, PullRequestOptions, Forge, DiffRiskPluginOptions } from './plugins'
 export type {
   AIMonitorConfig,
   MonitorState,
@@ -315,6 +327,25 @@ export {
 export { LocalIsolationProvider as LocalProvider } from '@loopwork-ai/isolation'
 export type { SandboxHandle } from '@loopwork-ai/isolation'
 
+// Re-export workflow files
+export { parseWorkflow, validateWorkflow, loadWorkflowFile, DEFAULT_WORKFLOW_FILE } from '@loopwork-ai/workflow'
+export type { WorkflowDefinition, StageDefinition, StageProgress, EdgeCondition } from '@loopwork-ai/workflow'
+
+// Prompt templates
+export { PromptTemplates, DEFAULT_PROMPT_TEMPLATE } from './core/prompt-templates'
+export type { PromptConfig, PromptTemplateContext } from './contracts'
+export { ContextAssembler, DEFAULT_CONTEXT_TOKENS } from './core/context-assembly'
+export type { ContextChunk, ContextSource, AssembledContext } from './core/context-assembly'
+
+// Task approvals
+export { ApprovalStore } from './core/approval-store'
+export type { ApprovalFilter } from './core/approval-store'
+export type { Approval, ApprovalRequest, ApprovalDecision, ApprovalStatus } from './contracts'
+
+// Post-run diff risk analysis
+export { DiffRiskAnalyzer, DEFAULT_PROTECTED_PATHS, DEFAULT_SECRET_PATTERNS } from './safety/diff-risk'
+export type { DiffRiskAssessment, DiffRiskFinding, DiffRiskOptions } from './safety/diff-risk'
+
 // Theme system with dark/light mode support
 export {
   ThemeProvider,
@@ -384,46 +415,6 @@ export {
   STATE_FILE_WATCH_PATTERNS,
 } from './core/constants'
 
-// Legacy args that should trigger auto-insertion of 'run' subcommand
-const RUN_ARGS = [
-  '--resume',
-  '--dry-run',
-  '--feature',
-  '--task',
-  '--max-iterations',
-  '--timeout',
-  '--cli',
-  '--model',
-  '--backend',
-  '--repo',
-  '--tasks-file',
-  '--namespace',
-  '--config',
-  '--debug',
-  '--parallel',
-  '--sequential',
-  '-y',
-  '--yes',
-  '--quiet',
-  '-q',
-  '--verbose',
-  '-v',
-]
-
-/**
- * Check if args contain flags that should trigger 'run' command
- */
-function shouldAutoInsertRun(args: string[]): boolean {
-  // If first arg is a known subcommand, don't auto-insert
-  const subcommands = ['run', 'init', 'start', 'stop', 'kill', 'status', 'logs', 'monitor', 'restart', 'dashboard', 'help', '--help', '-h', '--version', '-V', 'd', 'decompose', 'task-new', 'up', 'down', 'ps', 'models:configure']
-  if (args.length > 0 && subcommands.includes(args[0])) {
-    return false
-  }
-
-  // Check if any of the args match run-specific flags
-  return args.some(arg => RUN_ARGS.some(runArg => arg === runArg || arg.startsWith(runArg + '=')))
-}
-
 // Only run CLI if this is the main module
 if (import.meta.main) {
   async function main() {
@@ -505,7 +496,7 @@ if (import.meta.main) {
     program
       .command('run')
       .description('Run the task automation loop')
-      .option('--backend <type>', 'Task backend: github or json')
+      .option('--backend <type>', 'Task backend: github, json or sqlite')
       .option('--repo <owner/repo>', 'GitHub repository')
       .option('--tasks-file <path>', 'Path to tasks.json file')
       .option('--feature <name>', 'Filter by feature label')
@@ -637,6 +628,108 @@ if (import.meta.main) {
         }
       })
 
+    program
+      .command('plan')
+      .description('Estimate token usage and cost of pending tasks before a run')
+      .option('--feature <name>', 'Only estimate tasks of this feature')
+      .option('--model <model>', 'Model to estimate for (default: first configured model)')
+      .option('--namespace <name>', 'Namespace whose usage history to use')
+      .option('--json', 'Output as JSON')
+      .action(async (options) => {
+        try {
+          const { plan } = await import('./commands/plan')
+          await plan({
+            feature: options.feature,
+            model: options.model,
+            namespace: options.namespace,
+            json: options.json,
+          })
+        } catch (err) {
+          handleError(err)
+          process.exit(1)
+        }
+      })
+
+    // Prompt command with subcommands
+    const promptCmd = program
+      .command('prompt <subcommand>')
+      .description('Preview the prompts tasks are sent with')
+
+    promptCmd
+      .command('render <taskId>')
+      .description('Render the exact prompt a task would be sent with')
+      .option('--namespace <name>', 'Namespace whose template to use')
+      .option('--cli <name>', 'CLI whose template to use')
+      .option('--json', 'Output as JSON')
+      .action(async (taskId, options) => {
+        try {
+          const { promptRender } = await import('./commands/prompt')
+          await promptRender(taskId, {
+            namespace: options.namespace,
+            cli: options.cli,
+            json: options.json,
+          })
+        } catch (err) {
+          handleError(err)
+          process.exit(1)
+        }
+      })
+
+    // Index command with subcommands
+    const indexCmd = program
+      .command('index <subcommand>')
+      .description('Inspect and maintain the semantic code index')
+
+    indexCmd
+      .command('status')
+      .description('Show what is indexed and what changed since the last sync')
+      .option('--config <path>', 'Path to config file (loopwork.config.ts)')
+      .option('--json', 'Output as JSON')
+      .action(async (options) => {
+        try {
+          const { indexStatus } = await import('./commands/code-index')
+          await indexStatus({ config: options.config, json: options.json })
+        } catch (err) {
+          handleError(err)
+          process.exit(1)
+        }
+      })
+
+    indexCmd
+      .command('rebuild')
+      .description('Drop the index and index every source file again')
+      .option('--config <path>', 'Path to config file (loopwork.config.ts)')
+      .option('--json', 'Output as JSON')
+      .action(async (options) => {
+        try {
+          const { indexRebuild } = await import('./commands/code-index')
+          await indexRebuild({ config: options.config, json: options.json })
+        } catch (err) {
+          handleError(err)
+          process.exit(1)
+        }
+      })
+
+    indexCmd
+      .command('query <text>')
+      .description('Search the index the way task prompts do')
+      .option('--limit <n>', 'Most results to show', '5')
+      .option('--config <path>', 'Path to config file (loopwork.config.ts)')
+      .option('--json', 'Output as JSON')
+      .action(async (text, options) => {
+        try {
+          const { indexQuery } = await import('./commands/code-index')
+          await indexQuery(text, {
+            config: options.config,
+            limit: parseInt(options.limit, 10),
+            json: options.json,
+          })
+        } catch (err) {
+          handleError(err)
+          process.exit(1)
+        }
+      })
+
     // Models configure command
     program
       .command('models:configure')
@@ -790,7 +883,7 @@ if (import.meta.main) {
       .option('--lines <number>', 'Number of initial log lines to show when tailing', '20')
       .option('--clean-orphans', 'Clean up orphan processes before starting')
       .option('--namespace <name>', 'Namespace for the loop', 'default')
-      .option('--backend <type>', 'Task backend: github or json')
+      .option('--backend <type>', 'Task backend: github, json or sqlite')
       .option('--repo <owner/repo>', 'GitHub repository')
       .option('--tasks-file <path>', 'Path to tasks.json file')
       .option('--feature <name>', 'Filter by feature label')
@@ -886,7 +979,7 @@ if (import.meta.main) {
       .option('--tail, --follow', 'Tail logs after starting daemon')
       .option('--lines <number>', 'Number of initial log lines to show', '20')
       .option('--namespace <name>', 'Namespace for the loop', 'default')
-      .option('--backend <type>', 'Task backend: github or json')
+      .option('--backend <type>', 'Task backend: github, json or sqlite')
       .option('--repo <owner/repo>', 'GitHub repository')
       .option('--tasks-file <path>', 'Path to tasks.json file')
       .option('--feature <name>', 'Filter by feature label')
@@ -991,6 +1084,10 @@ if (import.meta.main) {
             cwd: () => process.cwd(),
             chalk,
             json: options.json,
+            getWorkflowProgress: async () => {
+              const { getProjectWorkflowProgress } = await import('./core/workflow')
+              return getProjectWorkflowProgress()
+            },
           })
         } catch (err) {
           handleError(err)
@@ -1072,6 +1169,166 @@ if (import.meta.main) {
         }
       })
 
+    // Approvals command with subcommands
+    const approvalsCmd = program
+      .command('approvals <subcommand> [id]')
+      .description('Review tasks waiting for human approval')
+
+    approvalsCmd
+      .command('list')
+      .description('List tasks waiting for approval')
+      .option('--all', 'Include decided and expired requests')
+      .option('--json', 'Output as JSON')
+      .action(async (options) => {
+        try {
+          const { approvalsList } = await import('./commands/approvals')
+          await approvalsList({ all: options.all, json: options.json })
+        } catch (err) {
+          handleError(err)
+          process.exit(1)
+        }
+      })
+
+    approvalsCmd
+      .command('approve <id>')
+      .description('Approve a task so it runs')
+      .option('--reason <text>', 'Why the task was approved')
+      .option('--json', 'Output as JSON')
+      .action(async (id, options) => {
+        try {
+          const { approvalsApprove } = await import('./commands/approvals')
+          await approvalsApprove(id, { reason: options.reason, json: options.json })
+        } catch (err) {
+          handleError(err)
+          process.exit(1)
+        }
+      })
+
+    approvalsCmd
+      .command('reject <id>')
+      .description('Reject a task so it fails without running')
+      .option('--reason <text>', 'Why the task was rejected')
+      .option('--json', 'Output as JSON')
+      .action(async (id, options) => {
+        try {
+          const { approvalsReject } = await import('./commands/approvals')
+          await approvalsReject(id, { reason: options.reason, json: options.json })
+        } catch (err) {
+          handleError(err)
+          process.exit(1)
+        }
+      })
+
+    // Audit command with subcommands
+    const auditCmd = program
+      .command('audit <subcommand>')
+      .description('Check run logs for problems')
+
+    auditCmd
+      .command('secrets')
+      .description('Scan run logs for leaked API keys, tokens and private keys')
+      .option('--namespace <name>', 'Only scan runs of this namespace')
+      .option('--redact', 'Mask the secrets found in place')
+      .option('--json', 'Output as JSON')
+      .action(async (options) => {
+        try {
+          const { auditSecrets } = await import('./commands/audit')
+          const leaks = await auditSecrets({ namespace: options.namespace, redact: options.redact, json: options.json })
+          if (leaks.length > 0 && !options.redact) {
+            process.exitCode = 1
+          }
+        } catch (err) {
+          handleError(err)
+          process.exit(1)
+        }
+      })
+
+    // Models command with subcommands
+    const modelsCmd = program
+      .command('models <subcommand>')
+      .description('Inspect the models tasks run on')
+
+    modelsCmd
+      .command('stats')
+      .description('Show what adaptive model selection has learned from past runs')
+      .option('--by <feature>', 'Break down by task category, feature, priority or size')
+      .option('--stats-file <path>', 'Stats file (default: .loopwork/model-stats.json)')
+      .option('--json', 'Output as JSON')
+      .action(async (options) => {
+        try {
+          const { modelsStats } = await import('./commands/models-stats')
+          await modelsStats({ by: options.by, statsFile: options.statsFile, json: options.json })
+        } catch (err) {
+          handleError(err)
+          process.exit(1)
+        }
+      })
+
+    // Schedule command with subcommands
+    const scheduleCmd = program
+      .command('schedule <subcommand>')
+      .description('Inspect when pending tasks will run')
+
+    scheduleCmd
+      .command('list')
+      .description('Show the upcoming timeline of due, scheduled and recurring tasks')
+      .option('--feature <name>', 'Only tasks of this feature')
+      .option('--json', 'Output as JSON')
+      .action(async (options) => {
+        try {
+          const { scheduleList } = await import('./commands/schedule')
+          await scheduleList({ feature: options.feature, json: options.json })
+        } catch (err) {
+          handleError(err)
+          process.exit(1)
+        }
+      })
+
+    // SQLite command with subcommands
+    const sqliteCmd = program
+      .command('sqlite <subcommand>')
+      .description('Move tasks between the JSON and SQLite backends')
+
+    sqliteCmd
+      .command('import')
+      .description('Import tasks.json and markdown PRDs into the SQLite database')
+      .option('--tasks-file <path>', 'Path to tasks.json')
+      .option('--tasks-dir <path>', 'Directory with PRD markdown files')
+      .option('--db-file <path>', 'Path to the SQLite database')
+      .action(async (options) => {
+        try {
+          const { importTasks } = await import('./commands/sqlite')
+          await importTasks({
+            tasksFile: options.tasksFile,
+            tasksDir: options.tasksDir,
+            dbFile: options.dbFile,
+          })
+        } catch (err) {
+          handleError(err)
+          process.exit(1)
+        }
+      })
+
+    sqliteCmd
+      .command('export')
+      .description('Export the SQLite database back to tasks.json and markdown PRDs')
+      .option('--tasks-file <path>', 'Path to tasks.json')
+      .option('--tasks-dir <path>', 'Directory for PRD markdown files')
+      .option('--db-file <path>', 'Path to the SQLite database')
+      .action(async (options) => {
+        try {
+          const { exportTasks } = await import('./commands/sqlite')
+          await exportTasks({
+            tasksFile: options.tasksFile,
+            tasksDir: options.tasksDir,
+            dbFile: options.dbFile,
+          })
+        } catch (err) {
+          handleError(err)
+          process.exit(1)
+        }
+      })
+
     // Processes command with subcommands
     const processesCmd = program
       .command('processes <subcommand> [options...]')
@@ -0,0 +1,39 @@
+/**
+ * Acceptance Criteria Gate
+ *
+ * Verifies each task's PRD success criteria before it is marked completed.
+ * Tasks whose required criteria fail are marked failed with the failing
+ * criteria as the reason, and every result is recorded as a task event.
+ */
+
+import type { ConfigWrapper, LoopworkConfig } from '../contracts'
+import type { AcceptanceConfig } from '../contracts/acceptance'
+
+/**
+ * Enable the acceptance criteria gate
+ *
+ * @example
+ * ```typescript
+ * import { withAcceptanceCriteria } from 'loopwork'
+ *
+ * export default compose(
+ *   withAcceptanceCriteria({
+ *     rules: [{ match: 'type.?check', check: { type: 'command', command: 'bun run typecheck' } }],
+ *     allowCommands: ['bun run (build|lint)'],
+ *     fallback: 'llm',
+ *   }),
+ * )(defineConfig({ ... }))
+ * ```
+ */
+export function withAcceptanceCriteria(options: AcceptanceConfig = {}): ConfigWrapper {
+  return (config) => {
+    const loopworkConfig = config as LoopworkConfig
+    return {
+      ...loopworkConfig,
+      acceptance: {
+        enabled: true,
+        ...options,
+      },
+    }
+  }
+}
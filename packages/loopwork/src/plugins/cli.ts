@@ -13,6 +13,8 @@ import type {
   CliExecutorConfig,
   RetryConfig,
   CliPathConfig,
+  CustomCliConfig,
+  AdaptiveRoutingConfig,
   ModelSelectionStrategy,
 } from '../contracts/cli'
 import { DEFAULT_RATE_LIMIT_WAIT_MS } from '@loopwork-ai/resilience'
@@ -163,6 +165,38 @@ export function withCliPaths(paths: CliPathConfig): ConfigWrapper {
   })
 }
 
+/**
+ * Declare an AI CLI without a built-in strategy, for models to use by name
+ *
+ * @example
+ * ```typescript
+ * compose(
+ *   withCustomCli({
+ *     name: 'aider',
+ *     command: 'aider',
+ *     args: ['--yes-always', '--message-file', '{promptFile}'],
+ *     prompt: 'file',
+ *     modelFlag: '--model',
+ *   }),
+ *   withModels({
+ *     models: [{ name: 'aider-sonnet', cli: 'aider', model: 'sonnet' }],
+ *   }),
+ * )(defineConfig({}))
+ * ```
+ */
+export function withCustomCli(definition: CustomCliConfig): ConfigWrapper {
+  return (config: LoopworkConfig): LoopworkConfig => ({
+    ...config,
+    cliConfig: {
+      ...config.cliConfig,
+      customClis: [
+        ...(config.cliConfig?.customClis ?? []).filter(cli => cli.name !== definition.name),
+        definition,
+      ],
+    },
+  })
+}
+
 /**
  * Configure model selection strategy
  *
@@ -171,14 +205,18 @@ export function withCliPaths(paths: CliPathConfig): ConfigWrapper {
  * compose(
  *   withSelectionStrategy('cost-aware'),
  * )(defineConfig({}))
+ *
+ * // Learn from past runs, weighing cost a little more than the default
+ * withSelectionStrategy('adaptive', { costWeight: 0.4 })
  * ```
  */
-export function withSelectionStrategy(strategy: ModelSelectionStrategy): ConfigWrapper {
+export function withSelectionStrategy(strategy: ModelSelectionStrategy, adaptive?: AdaptiveRoutingConfig): ConfigWrapper {
   return (config: LoopworkConfig): LoopworkConfig => ({
     ...config,
     cliConfig: {
       ...config.cliConfig,
       selectionStrategy: strategy,
+      ...(adaptive ? { adaptive } : {}),
     },
   })
 }
@@ -0,0 +1,157 @@
+/**
+ * Diff Risk Plugin
+ *
+ * Scores what an agent changed before its task is marked completed. Changes
+ * scoring at or above the threshold are held for approval or rolled back to
+ * the snapshot taken when the task started; either way a rejected task is
+ * returned to pending and skipped for the rest of the run.
+ */
+
+import type { LoopworkPlugin, ConfigWrapper, LoopworkConfig, TaskContext, HookDecision, ConfirmationRequest, ConfirmationResult } from '../contracts'
+import { takeSnapshot, rollbackToSnapshot, type GitSnapshot } from '../utils/git-snapshots'
+import { DiffRiskAnalyzer, type DiffRiskOptions, type DiffRiskAssessment } from '../safety/diff-risk'
+import { InteractiveConfirmation } from '../safety/interactive-confirmation'
+import { logger } from '../core/utils'
+
+const DEFAULT_THRESHOLD = 50
+const DEFAULT_CONFIRM_TIMEOUT_MS = 300_000
+
+export interface DiffRiskPluginOptions extends DiffRiskOptions {
+  enabled?: boolean
+  /** Score (0-100) from which changes are held or rolled back (default: 50) */
+  threshold?: number
+  /** What to do with risky changes (default: hold) */
+  action?: 'hold' | 'rollback'
+  /**
+   * Asks a human whether to keep risky changes, e.g. a governance approval
+   * gate. Approvals given automatically in non-interactive mode do not count.
+   * Defaults to a terminal prompt.
+   */
+  approve?: (request: ConfirmationRequest) => Promise<ConfirmationResult>
+  /** Terminal prompt timeout in milliseconds (default: 300000) */
+  confirmTimeout?: number
+  /** Called with every assessment, e.g. to record it */
+  onAssessment?: (taskId: string, assessment: DiffRiskAssessment) => void | Promise<void>
+}
+
+/**
+ * Create the diff risk plugin
+ */
+export function createDiffRiskPlugin(options: DiffRiskPluginOptions = {}): LoopworkPlugin {
+  const {
+    enabled = true,
+    threshold = DEFAULT_THRESHOLD,
+    action = 'hold',
+    confirmTimeout = DEFAULT_CONFIRM_TIMEOUT_MS,
+  } = options
+  const analyzer = new DiffRiskAnalyzer(options)
+  const approve = options.approve ?? ((request: ConfirmationRequest) => new InteractiveConfirmation(confirmTimeout).confirm(request))
+  const taskSnapshots = new Map<string, GitSnapshot>()
+
+  const rollback = async (taskId: string, snapshot: GitSnapshot, reason: string): Promise<HookDecision> => {
+    logger.warn(`Rolling back task ${taskId}: ${reason}`)
+    taskSnapshots.delete(taskId)
+    const success = await rollbackToSnapshot(snapshot).catch(() => false)
+    if (!success) {
+      logger.error(`Rollback failed for task ${taskId}; review the working tree before continuing`)
+    }
+    return { action: 'skip', reason }
+  }
+
+  return {
+    name: 'diff-risk',
+    essential: false,
+
+    async onTaskStart(context: TaskContext) {
+      if (!enabled || taskSnapshots.has(context.task.id)) return
+
+      try {
+        const snapshot = await takeSnapshot(context, 'Before diff risk analysis')
+        if (snapshot) {
+          taskSnapshots.set(context.task.id, snapshot)
+        }
+      } catch (error) {
+        logger.debug(`Failed to take pre-task snapshot: ${error}`)
+      }
+    },
+
+    async onBeforeComplete(context: TaskContext): Promise<HookDecision | void> {
+      const { task } = context
+      const snapshot = taskSnapshots.get(task.id)
+      if (!enabled || !snapshot) return
+
+      let assessment: DiffRiskAssessment
+      try {
+        assessment = await analyzer.assess(snapshot.hash, snapshot.workDir)
+      } catch (error) {
+        logger.warn(`Diff risk analysis failed for task ${task.id}: ${error}`)
+        return
+      }
+
+      await options.onAssessment?.(task.id, assessment)
+      logger.debug(`Task ${task.id} diff risk score: ${assessment.score} (${assessment.riskLevel})`)
+      if (assessment.score < threshold) return
+
+      const summary = `diff risk score ${assessment.score} (${assessment.riskLevel}) is at or above ${threshold}`
+      logger.warn(`⚠️  Task ${task.id} ${summary}:`)
+      assessment.reasons.forEach(reason => logger.warn(`   - ${reason}`))
+
+      if (action === 'rollback') {
+        return rollback(task.id, snapshot, summary)
+      }
+
+      const result = await approve({
+        taskId: task.id,
+        title: task.title,
+        riskLevel: assessment.riskLevel,
+        reasons: assessment.reasons,
+        timeout: confirmTimeout,
+      })
+
+      if (!result.confirmed || result.nonInteractive) {
+        const why = result.nonInteractive ? 'nobody available to approve' : result.timedOut ? 'approval timed out' : 'changes rejected'
+        return rollback(task.id, snapshot, `${summary}; ${why}`)
+      }
+
+      logger.info(`✓ Changes for task ${task.id} approved`)
+    },
+
+    async onTaskComplete(context: TaskContext) {
+      taskSnapshots.delete(context.task.id)
+    },
+
+    async onTaskFailed(context: TaskContext) {
+      taskSnapshots.delete(context.task.id)
+    },
+  }
+}
+
+/**
+ * Hold or roll back tasks whose changes look risky
+ *
+ * Uncommitted changes in the task's working directory (its worktree with
+ * worktree isolation) are stashed when each task starts, as with
+ * `withRollback`, so the analysis only sees what the agent changed.
+ *
+ * @example
+ * ```typescript
+ * import { withDiffRiskAnalysis } from 'loopwork'
+ *
+ * export default compose(
+ *   withDiffRiskAnalysis({
+ *     threshold: 50,
+ *     action: 'rollback',
+ *     protectedPaths: ['db/migrations/**', '.github/**'],
+ *   }),
+ * )(defineConfig({ cli: 'claude' }))
+ * ```
+ */
+export function withDiffRiskAnalysis(options: DiffRiskPluginOptions = {}): ConfigWrapper {
+  return (config) => {
+    const loopworkConfig = config as LoopworkConfig
+    return {
+      ...loopworkConfig,
+      plugins: [...(loopworkConfig.plugins || []), createDiffRiskPlugin(options)],
+    }
+  }
+}
@@ -3,12 +3,14 @@ import type {
   LoopworkPlugin,
   ConfigWrapper,
   CapabilityRegistry,
+  PluginHookDecision,
+  Task,
 } from '../contracts'
-import { withJSONBackend, withGitHubBackend } from '../backends/plugin'
+import { withJSONBackend, withGitHubBackend, withSQLiteBackend } from '../backends/plugin'
 import { logger } from '../core/utils'
 import { createCapabilityRegistry } from '../core/capability-registry'
 
-export { withJSONBackend, withGitHubBackend }
+export { withJSONBackend, withGitHubBackend, withSQLiteBackend }
 
 export { createClaudeCodePlugin, withClaudeCode } from './claude-code'
 export { createIPCPlugin, withIPC } from './ipc'
@@ -39,12 +41,16 @@ export {
 export type { SmartTasksConfig } from '@loopwork-ai/plugin-smart-tasks'
 export { createChaosPlugin, withChaos } from './chaos'
 export { withSafety } from './safety'
+export { createDiffRiskPlugin, withDiffRiskAnalysis } from './diff-risk'
+export { withAcceptanceCriteria } from './acceptance'
 export { withFeatureFlags } from './feature-flags'
 export { withAgents } from './agents'
 export { createGitAutoCommitPlugin, withGitAutoCommit } from '@loopwork-ai/plugin-git-autocommit'
+export { createPullRequestPlugin, withPullRequests, GitHubForge, LocalForge } from '@loopwork-ai/plugin-pull-request'
 export { createProjectSummaryPlugin, withProjectSummary } from './project-summary'
 export { createSystemMonitoringPlugin, withSystemMonitoring } from '@loopwork-ai/proactive-health-monitoring'
 export { createTelemetryPlugin, withTelemetry } from './telemetry'
+export { createOtlpPlugin, withOtlpExport, LocalOtlpCollector } from '@loopwork-ai/telemetry'
 export { createDebuggerPlugin, withDebugger } from './debugger'
 export { withDynamicPlugins } from './loader'
 export type { DebuggerConfig } from './debugger'
@@ -90,7 +96,10 @@ export type { IPCMessage, IPCEventType, IPCPluginOptions } from './ipc'
 export type { SystemMonitoringOptions } from '@loopwork-ai/proactive-health-monitoring'
 export type { DynamicTasksOptions } from './dynamic-tasks'
 export type { RollbackPluginOptions } from './rollback'
+export type { DiffRiskPluginOptions } from './diff-risk'
 export type { GitAutoCommitOptions } from '@loopwork-ai/plugin-git-autocommit'
+export type { PullRequestOptions, Forge, PullRequest, PullRequestInput } from '@loopwork-ai/plugin-pull-request'
+export type { OtlpPluginOptions, AttemptUsage } from '@loopwork-ai/telemetry'
 export type { ProjectSummaryConfig } from './project-summary'
 export {
   withAnalyzerConfig,
@@ -133,6 +142,7 @@ export {
   withModels,
   withRetry,
   withCliPaths,
+  withCustomCli,
   withSelectionStrategy,
   createModel,
   ModelPresets,
@@ -224,10 +234,22 @@ class PluginRegistry {
     await this.runner.runHook(hookName as string, ...args)
   }
 
+  async runDecisionHook(hookName: 'onBeforeTaskStart' | 'onBeforeComplete', ...args: unknown[]): Promise<PluginHookDecision> {
+    return await this.runner.runDecisionHook(hookName, ...args)
+  }
+
   async applyConfigHooks(config: LoopworkConfig): Promise<LoopworkConfig> {
     return await this.runner.applyConfigHooks(config)
   }
 
+  hasTaskSelectors(): boolean {
+    return this.runner.hasTaskSelectors()
+  }
+
+  async selectTasks(tasks: Task[]): Promise<Task[]> {
+    return await this.runner.selectTasks(tasks)
+  }
+
   clear(): void {
     this.plugins = []
     this.disabledPlugins.clear()
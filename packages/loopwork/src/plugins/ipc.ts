@@ -50,6 +50,11 @@ export interface IPCPluginOptions {
   writeFn?: IPCWriteFn
 }
 
+/**
+ * Steps the executor reports from the agent's event stream
+ */
+const AGENT_ACTIVITY_STEPS = new Set(['agent_tool_call', 'agent_file_edit'])
+
 /**
  * Default write function using process.stdout
  */
@@ -165,8 +170,8 @@ export function createIPCPlugin(options: IPCPluginOptions = {}): LoopworkPlugin
     async onStep(event) {
       if (!enabled) return
 
-      // Emit progress updates for certain steps
-      if (event.stepId.includes('progress') || event.stepId.includes('spawn')) {
+      // Emit progress updates for certain steps, including the agent's tool calls and file edits
+      if (event.stepId.includes('progress') || event.stepId.includes('spawn') || AGENT_ACTIVITY_STEPS.has(event.stepId)) {
         emitIPC('progress_update', {
           stepId: event.stepId,
           description: event.description,
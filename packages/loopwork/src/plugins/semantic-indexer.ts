@@ -4,12 +4,13 @@
  * Provides semantic code indexing with incremental updates
  */
 
-import { readFileSync, statSync, readdirSync } from 'fs'
-import { join, extname } from 'path'
+import { join } from 'path'
 import type { ConfigWrapper, LoopworkPlugin, TaskContext, PluginTaskResult } from '../contracts'
 import type { EmbeddingProvider } from '../contracts/embedding'
 import type { VectorStore } from '../contracts/vector-store'
 import { SemanticCodeIndexer, type IndexStats } from '../core/semantic-indexer'
+import { IndexSync, DEFAULT_INDEX_EXCLUDE_DIRS, type IndexSyncResult } from '../core/index-sync'
+import { logger } from '../core/utils'
 import { IndexPersistence } from '../utils/index-persistence'
 
 export interface SemanticIndexerPluginOptions {
@@ -21,49 +22,61 @@ export interface SemanticIndexerPluginOptions {
   persistIndex?: boolean
   chunkSize?: number
   chunkOverlap?: number
+  /**
+   * Where the offline index lives when no embedding provider and vector store
+   * are configured (default: .loopwork/vector-index)
+   */
+  vectorIndexPath?: string
+  /** Re-index files as they change on disk while the loop runs (default: false) */
+  watch?: boolean
 }
 
 export interface CodeIndexState {
   indexer: SemanticCodeIndexer
+  vectorStore: VectorStore
   persistence?: IndexPersistence
+  sync: IndexSync
   stats: IndexStats
   isIndexing: boolean
 }
 
-function walkDir(dir: string, extensions: string[], excludeDirs: string[]): string[] {
-  const files: string[] = []
-  try {
-    const entries = readdirSync(dir, { withFileTypes: true })
-    for (const entry of entries) {
-      const fullPath = join(dir, entry.name)
-      if (entry.isDirectory()) {
-        if (!excludeDirs.some(ex => entry.name.includes(ex))) {
-          files.push(...walkDir(fullPath, extensions, excludeDirs))
-        }
-      } else if (entry.isFile() && extensions.includes(extname(entry.name))) {
-        files.push(fullPath)
-      }
-    }
-  } catch {
-    return files
-  }
-  return files
-}
-
 export function createSemanticCodeIndexerPlugin(
   options: SemanticIndexerPluginOptions = {}
 ): LoopworkPlugin & { getIndexState: () => CodeIndexState | undefined } {
   let indexState: CodeIndexState | undefined
+  let stopWatching: (() => Promise<void>) | undefined
+
+  const toStats = (result: IndexSyncResult, totalFiles: number): IndexStats => ({
+    totalFiles,
+    indexedFiles: result.indexed + result.unchanged,
+    modifiedFiles: result.indexed,
+    removedFiles: result.removed,
+    errors: result.errors,
+  })
 
   return {
     name: 'semantic-code-indexer',
 
     async onConfigLoad(config) {
-      const embeddingProvider = (config as unknown as { _embeddingProvider?: EmbeddingProvider })._embeddingProvider
-      const vectorStore = (config as unknown as { _vectorStore?: VectorStore })._vectorStore
+      let embeddingProvider = (config as unknown as { _embeddingProvider?: EmbeddingProvider })._embeddingProvider
+      let vectorStore = (config as unknown as { _vectorStore?: VectorStore })._vectorStore
+      let indexPath = options.indexPath
 
+      // Without a configured provider, index offline with local embeddings and an HNSW index
       if (!embeddingProvider || !vectorStore) {
-        return config
+        const vectorIndexPath = options.vectorIndexPath || join('.loopwork', 'vector-index')
+        try {
+          const { LocalEmbeddingProvider, HnswVectorStore } = await import('@loopwork-ai/vector-store')
+          const store = new HnswVectorStore({ path: vectorIndexPath })
+          embeddingProvider = new LocalEmbeddingProvider()
+          vectorStore = store
+          indexPath = indexPath || join(vectorIndexPath, 'files.json')
+          // File hashes are meaningless without the vectors they describe
+          if (store.size === 0) new IndexPersistence({ indexPath }).clear()
+        } catch (error) {
+          logger.warn(`Semantic code index disabled: ${error instanceof Error ? error.message : String(error)}`)
+          return config
+        }
       }
 
       const indexer = new SemanticCodeIndexer({
@@ -75,15 +88,23 @@ export function createSemanticCodeIndexerPlugin(
       })
 
       let persistence: IndexPersistence | undefined
-      if (options.persistIndex !== false && options.indexPath) {
-        persistence = new IndexPersistence({ indexPath: options.indexPath })
+      if (options.persistIndex !== false && indexPath) {
+        persistence = new IndexPersistence({ indexPath })
         const savedStatus = persistence.load()
         indexer.loadIndexStatus(savedStatus)
       }
 
       indexState = {
         indexer,
+        vectorStore,
         persistence,
+        sync: new IndexSync({
+          indexer,
+          vectorStore,
+          persistence,
+          sourceDir: options.sourceDir,
+          excludeDirs: options.excludePatterns || DEFAULT_INDEX_EXCLUDE_DIRS,
+        }),
         stats: { totalFiles: 0, indexedFiles: 0, modifiedFiles: 0, removedFiles: 0, errors: 0 },
         isIndexing: false,
       }
@@ -92,70 +113,48 @@ export function createSemanticCodeIndexerPlugin(
     },
 
     async onLoopStart() {
-      if (!indexState || options.autoIndexOnStart === false) return
-
-      indexState.isIndexing = true
-      const sourceDir = options.sourceDir || '.'
-      const extensions = ['.ts', '.tsx', '.js', '.jsx', '.py', '.rs', '.go', '.java', '.rb', '.php']
-      const excludeDirs = options.excludePatterns || ['node_modules', 'dist', 'build', '.loopwork', '.specs', '.git', 'coverage']
+      if (!indexState) return
 
-      try {
-        const allFiles = walkDir(sourceDir, extensions, excludeDirs)
-        let indexedCount = 0
-        let errorCount = 0
-
-        for (const filePath of allFiles) {
-          try {
-            if (!indexState.indexer.shouldIndexFile(filePath)) continue
-
-            const content = readFileSync(filePath, 'utf-8')
-            const stats = statSync(filePath)
-
-            await indexState.indexer.indexFile(filePath, content, stats.mtimeMs)
-            indexedCount++
-          } catch {
-            errorCount++
-          }
-        }
-
-        if (indexState.persistence) {
-          indexState.persistence.save(indexState.indexer.getIndexStatus())
-        }
-
-        indexState.stats = {
-          totalFiles: allFiles.length,
-          indexedFiles: indexedCount,
-          modifiedFiles: 0,
-          removedFiles: 0,
-          errors: errorCount,
+      if (options.autoIndexOnStart !== false) {
+        indexState.isIndexing = true
+        try {
+          const result = await indexState.sync.sync()
+          indexState.stats = toStats(result, indexState.indexer.getIndexStatus().size)
+        } catch (error) {
+          logger.debug(`Semantic code index sync failed: ${error}`)
+        } finally {
+          indexState.isIndexing = false
         }
+      }
 
-      } catch {
-      } finally {
-        indexState.isIndexing = false
+      if (options.watch) {
+        stopWatching = indexState.sync.watch()
       }
     },
 
     async onTaskComplete(context: TaskContext, result: PluginTaskResult) {
-      if (!indexState || !result.output) return
-
-      const modifiedFiles = result.output.match(/Modified:?\s*(.+\.\w+)/gi)
-      if (!modifiedFiles) return
+      if (!indexState) return
 
-      for (const match of modifiedFiles) {
-        const filePath = match.replace(/Modified:?\s*/i, '').trim()
+      if (result.output) {
         try {
-          const content = readFileSync(filePath, 'utf-8')
-          const stats = statSync(filePath)
-          await indexState.indexer.indexFile(filePath, content, stats.mtimeMs)
+          await indexState.indexer.indexTaskOutput(context.task.id, context.task.title, result.output)
         } catch {}
       }
 
-      if (indexState.persistence) {
-        indexState.persistence.save(indexState.indexer.getIndexStatus())
+      // Pick up whatever the task changed, deleted or renamed
+      try {
+        const syncResult = await indexState.sync.sync()
+        indexState.stats = toStats(syncResult, indexState.indexer.getIndexStatus().size)
+      } catch (error) {
+        logger.debug(`Semantic code index sync failed: ${error}`)
       }
     },
 
+    async onLoopEnd() {
+      await stopWatching?.()
+      stopWatching = undefined
+    },
+
     getIndexState() {
       return indexState
     },
@@ -168,6 +167,7 @@ export function withSemanticCodeIndexer(options: SemanticIndexerPluginOptions =
 
     return {
       ...config,
+      plugins: [...((config as { plugins?: LoopworkPlugin[] }).plugins || []), plugin],
       _semanticCodeIndexer: plugin,
     }
   }
@@ -183,7 +183,7 @@ export interface SimpleConfigOptions {
    * Model selection strategy.
    * @default 'cost-aware'
    */
-  selectionStrategy?: 'cost-aware' | 'random' | 'round-robin' | 'capability'
+  selectionStrategy?: 'cost-aware' | 'random' | 'round-robin' | 'capability' | 'adaptive'
   
   /**
    * Additional plugins (for advanced use).
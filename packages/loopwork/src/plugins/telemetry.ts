@@ -106,11 +106,18 @@ export function createTelemetryPlugin(): LoopworkPlugin {
           }
         })
         reasoningSpans.set(taskId, span)
+      } else if (step.stepId === 'agent_file_edit') {
+        reasoningSpans.get(taskId)?.addEvent('agent.file_edit', {
+          'file.path': step.context?.path,
+          'tool.name': step.context?.tool,
+        })
       } else if (step.stepId === 'agent_reasoning_end' && step.phase === 'end') {
         const span = reasoningSpans.get(taskId)
         if (span) {
           span.setAttributes({
             'reasoning.duration_ms': step.context?.durationMs,
+            'reasoning.tokens.input': step.context?.usage?.inputTokens,
+            'reasoning.tokens.output': step.context?.usage?.outputTokens,
           })
           span.setStatus({ code: 1 })
           span.end()
@@ -122,6 +129,7 @@ export function createTelemetryPlugin(): LoopworkPlugin {
     async onToolCall(event: ToolCallEvent) {
       const { toolName, taskId, timestamp, arguments: toolArgs } = event
       logger.debug(`Tool call: ${toolName}${taskId ? ` (task: ${taskId})` : ''} at ${timestamp} with args: ${Object.keys(toolArgs || {}).join(', ')}`)
+      reasoningSpans.get(taskId || 'unknown')?.addEvent('agent.tool_call', { 'tool.name': toolName })
     },
   }
 }
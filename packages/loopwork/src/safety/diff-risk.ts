@@ -0,0 +1,211 @@
+/**
+ * Diff Risk Analysis
+ *
+ * Assesses what an agent actually changed, rather than what the task said it
+ * would do: deleted files, edits to protected paths, secret-like strings in
+ * added lines and large deletions each add to a 0-100 risk score.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { execFileSync } from 'child_process'
+import { ArtifactDetector } from '@loopwork-ai/result-parser'
+import type { Artifact, IGitRunner } from '@loopwork-ai/result-parser'
+import type { RiskAssessment } from '../contracts/safety'
+import { RiskLevel } from '../contracts/safety'
+import { globToRegExp } from '../core/acceptance'
+
+export type DiffRiskFindingType = 'deleted-file' | 'protected-path' | 'secret' | 'large-deletion'
+
+export interface DiffRiskFinding {
+  type: DiffRiskFindingType
+  /** File the finding is about; absent for findings about the whole diff */
+  file?: string
+  detail: string
+  /** Points added to the score */
+  weight: number
+}
+
+export interface DiffRiskAssessment extends RiskAssessment {
+  /** 0 (harmless) to 100 */
+  score: number
+  findings: DiffRiskFinding[]
+  artifacts: Artifact[]
+}
+
+/**
+ * A line added by the change
+ */
+export interface AddedLine {
+  file: string
+  line: number
+  text: string
+}
+
+export interface DiffRiskOptions {
+  /** Globs for files that should not change without review */
+  protectedPaths?: string[]
+  /** Total removed lines counted as a large deletion (default: 300) */
+  largeDeletionLines?: number
+  /** Patterns for secrets in added lines (default: common key and token formats) */
+  secretPatterns?: RegExp[]
+}
+
+export const DEFAULT_PROTECTED_PATHS = [
+  '**/migrations/**',
+  '**/*.sql',
+  '.github/**',
+  '.gitlab-ci.yml',
+  '**/Dockerfile',
+  '**/package-lock.json',
+  '**/yarn.lock',
+  '**/pnpm-lock.yaml',
+  '**/bun.lockb',
+  '**/bun.lock',
+  '**/.env',
+  '**/.env.*',
+]
+
+export const DEFAULT_SECRET_PATTERNS: RegExp[] = [
+  /AKIA[0-9A-Z]{16}/,
+  /-----BEGIN (?:RSA |EC |DSA |OPENSSH )?PRIVATE KEY-----/,
+  /gh[pousr]_[A-Za-z0-9]{36,}/,
+  /xox[abprs]-[A-Za-z0-9-]{10,}/,
+  /sk-(?:ant-)?[A-Za-z0-9_-]{20,}/,
+  /(?:api[_-]?key|secret|password|passwd|token)["']?\s*[:=]\s*["'][^"'\s]{12,}["']/i,
+]
+
+const WEIGHTS: Record<DiffRiskFindingType, number> = {
+  'deleted-file': 15,
+  'protected-path': 30,
+  secret: 50,
+  'large-deletion': 25,
+}
+
+const DEFAULT_LARGE_DELETION_LINES = 300
+const MAX_SCORE = 100
+/** Lowest score for each risk level above low */
+const CRITICAL_SCORE = 75
+const HIGH_SCORE = 50
+const MEDIUM_SCORE = 25
+/** Room for git output in large repositories (64 MiB) */
+const GIT_MAX_BUFFER_BYTES = 67_108_864
+/** Length of the `+++ ` prefix of a diff's new-file header */
+const NEW_FILE_HEADER_LENGTH = '+++ '.length
+
+const git = (args: string[], cwd: string): string =>
+  execFileSync('git', args, { cwd, stdio: 'pipe', maxBuffer: GIT_MAX_BUFFER_BYTES }).toString()
+
+/**
+ * Scores the changes in a working tree
+ */
+export class DiffRiskAnalyzer {
+  private protectedPaths: RegExp[]
+  private largeDeletionLines: number
+  private secretPatterns: RegExp[]
+
+  constructor(options: DiffRiskOptions = {}) {
+    this.protectedPaths = (options.protectedPaths ?? DEFAULT_PROTECTED_PATHS).map(globToRegExp)
+    this.largeDeletionLines = options.largeDeletionLines ?? DEFAULT_LARGE_DELETION_LINES
+    this.secretPatterns = options.secretPatterns ?? DEFAULT_SECRET_PATTERNS
+  }
+
+  /**
+   * Assess everything that changed in `workDir` since `baseRef`, including
+   * new untracked files
+   */
+  async assess(baseRef: string, workDir: string = process.cwd()): Promise<DiffRiskAssessment> {
+    const gitRunner: IGitRunner = {
+      diff: async args => git(['diff', baseRef, ...args], workDir),
+      status: async () => git(['status', '--porcelain'], workDir),
+    }
+
+    const artifacts = await new ArtifactDetector().parse('', { workDir, exitCode: 0, durationMs: 0, gitRunner })
+    const added = parseAddedLines(git(['diff', baseRef, '-U0', '--no-color'], workDir))
+
+    const untracked = git(['ls-files', '--others', '--exclude-standard'], workDir).split('\n').filter(Boolean)
+    for (const file of untracked) {
+      const lines = readText(path.join(workDir, file))
+      artifacts.push({ path: file, action: 'created', linesAdded: lines?.length, linesRemoved: 0 })
+      lines?.forEach((text, i) => added.push({ file, line: i + 1, text }))
+    }
+
+    return this.analyze(artifacts, added)
+  }
+
+  /**
+   * Score a set of changed files and the lines they added
+   */
+  analyze(artifacts: Artifact[], added: AddedLine[] = []): DiffRiskAssessment {
+    const findings: DiffRiskFinding[] = []
+
+    for (const artifact of artifacts) {
+      if (artifact.action === 'deleted') {
+        findings.push({ type: 'deleted-file', file: artifact.path, detail: `Deleted ${artifact.path}`, weight: WEIGHTS['deleted-file'] })
+      }
+      if (this.protectedPaths.some(pattern => pattern.test(artifact.path))) {
+        findings.push({ type: 'protected-path', file: artifact.path, detail: `Changed protected file ${artifact.path}`, weight: WEIGHTS['protected-path'] })
+      }
+    }
+
+    for (const { file, line, text } of added) {
+      const pattern = this.secretPatterns.find(p => p.test(text))
+      if (pattern) {
+        findings.push({ type: 'secret', file, detail: `Possible secret added at ${file}:${line}`, weight: WEIGHTS.secret })
+      }
+    }
+
+    const removed = artifacts.reduce((sum, a) => sum + (a.linesRemoved ?? 0), 0)
+    if (removed >= this.largeDeletionLines) {
+      findings.push({ type: 'large-deletion', detail: `Removed ${removed} lines`, weight: WEIGHTS['large-deletion'] })
+    }
+
+    const score = Math.min(MAX_SCORE, findings.reduce((sum, f) => sum + f.weight, 0))
+    return {
+      riskLevel: toRiskLevel(score),
+      reasons: findings.length > 0 ? findings.map(f => f.detail) : ['No significant risks detected'],
+      confidence: 0.9,
+      score,
+      findings,
+      artifacts,
+    }
+  }
+}
+
+function toRiskLevel(score: number): RiskLevel {
+  if (score >= CRITICAL_SCORE) return RiskLevel.CRITICAL
+  if (score >= HIGH_SCORE) return RiskLevel.HIGH
+  if (score >= MEDIUM_SCORE) return RiskLevel.MEDIUM
+  return RiskLevel.LOW
+}
+
+/**
+ * Added lines from a unified diff produced with `-U0`
+ */
+export function parseAddedLines(diff: string): AddedLine[] {
+  const added: AddedLine[] = []
+  let file: string | undefined
+  let line = 0
+
+  for (const text of diff.split('\n')) {
+    if (text.startsWith('+++ ')) {
+      file = text === '+++ /dev/null' ? undefined : text.slice(NEW_FILE_HEADER_LENGTH).replace(/^b\//, '')
+    } else if (text.startsWith('@@')) {
+      line = Number(text.match(/\+(\d+)/)?.[1] ?? 0)
+    } else if (text.startsWith('+') && file) {
+      added.push({ file, line: line++, text: text.slice(1) })
+    }
+  }
+  return added
+}
+
+function readText(file: string): string[] | undefined {
+  try {
+    const content = fs.readFileSync(file)
+    // Skip binary files
+    if (content.includes(0)) return undefined
+    return content.toString('utf-8').replace(/\n$/, '').split('\n')
+  } catch {
+    return undefined
+  }
+}
@@ -1,6 +1,6 @@
 import * as git from './git'
 import { logger } from '../core/utils'
-import type { TaskContext } from '../contracts'
+import type { TaskContext, LoopworkConfig } from '../contracts'
 import { join } from 'path'
 import { existsSync, mkdirSync, writeFileSync, readFileSync, unlinkSync } from 'fs'
 import { execSync } from 'child_process'
@@ -18,16 +18,36 @@ export interface GitSnapshot {
   hasStash: boolean
   stashRef?: string
   description: string
+  /** Working tree the snapshot was taken in (default: the current directory) */
+  workDir?: string
+}
+
+/**
+ * Whether the task has a checkout of its own to snapshot
+ *
+ * Parallel workers without worktrees share one checkout, so stashing or
+ * resetting it for one task would take the other workers' edits with it.
+ */
+function ownsCheckout(context: TaskContext): boolean {
+  const parallel = (context.config as LoopworkConfig | undefined)?.parallel ?? 1
+  return context.workDir !== undefined || parallel <= 1
 }
 
 /**
  * Take a snapshot of the current git state
+ *
+ * Returns null without touching git when parallel workers share the checkout.
  */
 export async function takeSnapshot(
   context: TaskContext,
   description: string = 'Before task execution'
 ): Promise<GitSnapshot | null> {
-  const workDir = process.cwd()
+  if (!ownsCheckout(context)) {
+    logger.warn(`Skipping snapshot of task ${context.task.id}: parallel workers share the checkout, enable worktrees to snapshot and roll back`)
+    return null
+  }
+
+  const workDir = context.workDir ?? process.cwd()
   
   if (!git.isGitRepo(workDir)) {
     logger.debug('Not a git repository, cannot take snapshot')
@@ -57,7 +77,8 @@ export async function takeSnapshot(
     hash,
     hasStash,
     stashRef,
-    description
+    description,
+    workDir,
   }
 
   // Save snapshot metadata to .loopwork/snapshots/
@@ -70,7 +91,7 @@ export async function takeSnapshot(
  * Rollback to a previous snapshot
  */
 export async function rollbackToSnapshot(snapshot: GitSnapshot): Promise<boolean> {
-  const workDir = process.cwd()
+  const workDir = snapshot.workDir ?? process.cwd()
   
   logger.info(`Rolling back to snapshot ${snapshot.id} (${snapshot.description})`)
 
@@ -97,7 +118,7 @@ export async function rollbackToSnapshot(snapshot: GitSnapshot): Promise<boolean
  * Get list of files changed since snapshot was taken
  */
 export function getChangesSinceSnapshot(snapshot: GitSnapshot): string[] {
-  const workDir = process.cwd()
+  const workDir = snapshot.workDir ?? process.cwd()
   return git.getDiffNames(snapshot.hash, workDir)
 }
 
@@ -108,7 +129,7 @@ export function getChangesSinceSnapshot(snapshot: GitSnapshot): string[] {
  * Currently git checkout <hash> -- <file> will fail if file didn't exist.
  */
 export async function rollbackFiles(snapshot: GitSnapshot, files: string[]): Promise<boolean> {
-  const workDir = process.cwd()
+  const workDir = snapshot.workDir ?? process.cwd()
   logger.info(`Rolling back ${files.length} files to snapshot ${snapshot.id}`)
   
   // We need to handle files that were added (didn't exist in snapshot).
@@ -8,6 +8,17 @@ import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs'
 import { dirname } from 'path'
 import type { IndexStatus } from '../core/semantic-indexer'
 
+/**
+ * Where the last sync left off, persisted next to the index status
+ */
+export interface IndexSyncState {
+  /** HEAD when the index was last synced */
+  commit?: string
+  /** Files that differed from that commit, so reverting them is noticed */
+  dirty: string[]
+  syncedAt?: number
+}
+
 export interface IndexPersistenceOptions {
   indexPath: string
 }
@@ -52,6 +63,30 @@ export class IndexPersistence {
     writeFileSync(this.indexPath, JSON.stringify(data, null, 2))
   }
 
+  /**
+   * Load where the last git-aware sync left off
+   */
+  loadSyncState(): IndexSyncState {
+    try {
+      const parsed = JSON.parse(readFileSync(this.syncStatePath(), 'utf-8')) as Partial<IndexSyncState>
+      return { commit: parsed.commit, dirty: parsed.dirty ?? [], syncedAt: parsed.syncedAt }
+    } catch {
+      return { dirty: [] }
+    }
+  }
+
+  /**
+   * Save where the last git-aware sync left off
+   */
+  saveSyncState(state: IndexSyncState): void {
+    const dir = dirname(this.indexPath)
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true })
+    }
+
+    writeFileSync(this.syncStatePath(), JSON.stringify(state, null, 2))
+  }
+
   /**
    * Clear persisted index
    */
@@ -59,5 +94,12 @@ export class IndexPersistence {
     if (existsSync(this.indexPath)) {
       writeFileSync(this.indexPath, '{}')
     }
+    if (existsSync(this.syncStatePath())) {
+      writeFileSync(this.syncStatePath(), JSON.stringify({ dirty: [] }))
+    }
+  }
+
+  private syncStatePath(): string {
+    return this.indexPath.replace(/(\.json)?$/, '.sync.json')
   }
 }
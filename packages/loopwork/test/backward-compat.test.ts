@@ -1,6 +1,7 @@
 import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from 'bun:test'
 import fs from 'fs'
 import path from 'path'
+import { shouldAutoInsertRun } from '../src/commands/shared/legacy-args'
 
 /**
  * Tests for backward compatibility of the CLI.
@@ -9,34 +10,6 @@ import path from 'path'
 
 describe('Backward Compatibility', () => {
   describe('shouldAutoInsertRun logic', () => {
-    // Re-implement the logic here for testing since it's not exported
-    const RUN_ARGS = [
-      '--resume',
-      '--dry-run',
-      '--feature',
-      '--task',
-      '--max-iterations',
-      '--timeout',
-      '--cli',
-      '--model',
-      '--backend',
-      '--repo',
-      '--tasks-file',
-      '--namespace',
-      '--config',
-      '--debug',
-      '-y',
-      '--yes',
-    ]
-
-    function shouldAutoInsertRun(args: string[]): boolean {
-      const subcommands = ['run', 'init', 'start', 'stop', 'status', 'logs', 'help', '--help', '-h', '--version', '-V']
-      if (args.length > 0 && subcommands.includes(args[0])) {
-        return false
-      }
-      return args.some(arg => RUN_ARGS.some(runArg => arg === runArg || arg.startsWith(runArg + '=')))
-    }
-
     describe('auto-inserts run for legacy flags', () => {
       test('--resume triggers auto-insert', () => {
         expect(shouldAutoInsertRun(['--resume'])).toBe(true)
@@ -155,6 +128,27 @@ describe('Backward Compatibility', () => {
       test('-V skips auto-insert', () => {
         expect(shouldAutoInsertRun(['-V'])).toBe(false)
       })
+
+      test('plan subcommand keeps its run-like flags', () => {
+        expect(shouldAutoInsertRun(['plan', '--feature', 'x'])).toBe(false)
+        expect(shouldAutoInsertRun(['plan', '--model', 'opus', '--json'])).toBe(false)
+      })
+
+      test('prompt subcommand keeps its run-like flags', () => {
+        expect(shouldAutoInsertRun(['prompt', 'render', 'TASK-001', '--cli', 'claude'])).toBe(false)
+        expect(shouldAutoInsertRun(['prompt', 'render', 'TASK-001', '--namespace', 'x'])).toBe(false)
+      })
+
+      test('audit, index, approvals and models subcommands keep their run-like flags', () => {
+        expect(shouldAutoInsertRun(['audit', 'secrets', '--namespace', 'x'])).toBe(false)
+        expect(shouldAutoInsertRun(['index', 'status', '--json', '--debug'])).toBe(false)
+        expect(shouldAutoInsertRun(['approvals', 'list', '--namespace', 'x'])).toBe(false)
+        expect(shouldAutoInsertRun(['models', 'stats', '--by', 'feature', '--verbose'])).toBe(false)
+      })
+
+      test('schedule subcommand keeps its run-like flags', () => {
+        expect(shouldAutoInsertRun(['schedule', 'list', '--feature', 'x'])).toBe(false)
+      })
     })
 
     describe('does not auto-insert for empty or unknown args', () => {
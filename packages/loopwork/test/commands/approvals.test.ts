@@ -0,0 +1,73 @@
+import { describe, test, expect, mock, beforeEach, afterEach } from 'bun:test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { approvalsList, approvalsApprove, approvalsReject, type ApprovalsDependencies } from '../../src/commands/approvals'
+import { ApprovalStore } from '../../src/core/approval-store'
+
+describe('approvals command', () => {
+  let dir: string
+  let store: ApprovalStore
+
+  function createMockDeps() {
+    return {
+      createStore: () => store,
+      getUser: () => 'ann',
+      logger: {
+        info: mock(() => {}),
+        success: mock(() => {}),
+        raw: mock(() => {}),
+      },
+    } satisfies ApprovalsDependencies
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'loopwork-approvals-cmd-'))
+    store = new ApprovalStore({ dir })
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  function open(taskId: string) {
+    return store.create({ taskId, title: `Task ${taskId}`, namespace: 'default', riskLevel: 'high', reasons: ['High priority'] })
+  }
+
+  test('lists only pending requests by default', async () => {
+    const pending = open('TASK-1')
+    await new Promise(resolve => setTimeout(resolve, 5))
+    const decided = open('TASK-2')
+    store.decide(decided.id, { status: 'rejected', decidedBy: 'bob', channel: 'telegram' })
+
+    const deps = createMockDeps()
+    expect((await approvalsList({ json: true }, deps)).map(a => a.id)).toEqual([pending.id])
+    expect((await approvalsList({ all: true, json: true }, deps)).map(a => a.id)).toEqual([pending.id, decided.id])
+  })
+
+  test('says when nothing is waiting', async () => {
+    const deps = createMockDeps()
+    await approvalsList({}, deps)
+
+    expect(deps.logger.info).toHaveBeenCalledWith('No tasks are waiting for approval.')
+  })
+
+  test('approves as the current user', async () => {
+    const approval = open('TASK-1')
+    const deps = createMockDeps()
+    const result = await approvalsApprove(approval.id, { reason: 'Reviewed the migration' }, deps)
+
+    expect(result.decision).toMatchObject({ status: 'approved', decidedBy: 'ann', channel: 'cli', reason: 'Reviewed the migration' })
+    expect(deps.logger.success).toHaveBeenCalledWith('Task TASK-1 approved')
+  })
+
+  test('refuses to decide twice', async () => {
+    const approval = open('TASK-1')
+    const deps = createMockDeps()
+    await approvalsReject(approval.id, {}, deps)
+
+    const error = await approvalsApprove(approval.id, {}, deps).catch(err => err)
+    expect(error.code).toBe('ERR_APPROVAL_DECIDED')
+    expect(store.get(approval.id)?.status).toBe('rejected')
+  })
+})
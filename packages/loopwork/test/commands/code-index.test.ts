@@ -0,0 +1,86 @@
+import { describe, test, expect, mock } from 'bun:test'
+import { indexStatus, indexRebuild, indexQuery, type IndexDependencies } from '../../src/commands/code-index'
+import { SemanticCodeIndexer } from '../../src/core/semantic-indexer'
+import { LocalVectorStore } from '../../src/vector-stores/local-vector-store'
+import { LoopworkError } from '../../src/core/errors'
+import type { PendingChanges } from '../../src/core/index-sync'
+
+describe('index command', () => {
+  const embeddingProvider = {
+    name: 'words',
+    embed: async (text: string) => ['logout', 'header', 'chart'].map(word => (text.toLowerCase().includes(word) ? 1 : 0)),
+    embedBatch: async (texts: string[]) => Promise.all(texts.map(t => embeddingProvider.embed(t))),
+  }
+
+  async function createMockDeps(pending: PendingChanges = { full: false, changed: [], removed: [] }) {
+    const vectorStore = new LocalVectorStore()
+    const indexer = new SemanticCodeIndexer({ embeddingProvider, vectorStore })
+    await indexer.indexFile('src/Header.tsx', 'export function Header() { return <header /> }', 0)
+    await indexer.indexFile('src/Chart.tsx', 'export function Chart() {}', 0)
+
+    const sync = {
+      getState: () => ({ commit: '0123456789abcdef', dirty: [], syncedAt: Date.UTC(2026, 0, 2) }),
+      pending: () => pending,
+      sync: mock(async () => ({ full: true, indexed: 2, removed: 0, unchanged: 0, errors: 0 })),
+    }
+    const deps = {
+      getConfig: mock(async (): Promise<any> => ({ namespace: 'default' })),
+      getIndexState: mock(async (): Promise<any> => ({ indexer, vectorStore, sync, isIndexing: false })),
+      logger: {
+        info: mock(() => {}),
+        success: mock(() => {}),
+        raw: mock(() => {}),
+      },
+    }
+    return { deps: deps as typeof deps & IndexDependencies, sync }
+  }
+
+  test('status reports the last sync and pending changes', async () => {
+    const { deps } = await createMockDeps({ full: false, changed: ['src/Header.tsx'], removed: ['src/Old.tsx'] })
+    const result = await indexStatus({}, deps)
+
+    expect(result).toEqual({
+      files: 2,
+      commit: '0123456789abcdef',
+      syncedAt: '2026-01-02T00:00:00.000Z',
+      pending: { full: false, changed: ['src/Header.tsx'], removed: ['src/Old.tsx'] },
+    })
+    expect(deps.logger.info).toHaveBeenCalledWith('Last sync: 2026-01-02T00:00:00.000Z at 0123456')
+    expect(deps.logger.info).toHaveBeenCalledWith('Pending: 1 to index, 1 to remove')
+    expect(deps.logger.raw).toHaveBeenCalledWith('  - src/Old.tsx')
+  })
+
+  test('status says when the index is up to date', async () => {
+    const { deps } = await createMockDeps()
+    await indexStatus({}, deps)
+
+    expect(deps.logger.success).toHaveBeenCalledWith('Index is up to date')
+  })
+
+  test('rebuild re-indexes from scratch', async () => {
+    const { deps, sync } = await createMockDeps()
+    const result = await indexRebuild({}, deps)
+
+    expect(sync.sync).toHaveBeenCalledWith({ rebuild: true })
+    expect(result.indexed).toBe(2)
+    expect(deps.logger.success).toHaveBeenCalledWith('Indexed 2 files')
+  })
+
+  test('query prints matching chunks as JSON', async () => {
+    const { deps } = await createMockDeps()
+    const chunks = await indexQuery('logout button in the header', { limit: 1, json: true }, deps)
+
+    expect(deps.getConfig).toHaveBeenCalledWith({ limit: 1, json: true })
+    expect(chunks.map(c => [c.file, c.lineStart, c.lineEnd])).toEqual([['src/Header.tsx', 1, 1]])
+    expect(JSON.parse((deps.logger.raw.mock.calls[0] as unknown as [string])[0])).toEqual(chunks)
+  })
+
+  test('fails with a suggestion when no index is available', async () => {
+    const { deps } = await createMockDeps()
+    deps.getIndexState.mockImplementation(async () => undefined)
+
+    const error = await indexStatus({}, deps).catch(err => err)
+    expect(error).toBeInstanceOf(LoopworkError)
+    expect(error.code).toBe('ERR_PLUGIN_LOAD')
+  })
+})
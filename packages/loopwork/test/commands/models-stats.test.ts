@@ -0,0 +1,74 @@
+import { describe, test, expect, mock, beforeEach, afterEach } from 'bun:test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { AdaptiveModelRouter } from '@loopwork-ai/executor'
+import { modelsStats, type ModelsStatsDependencies } from '../../src/commands/models-stats'
+import { LoopworkError } from '../../src/core/errors'
+
+describe('models stats command', () => {
+  let projectRoot: string
+
+  function createMockDeps() {
+    return {
+      loadStats: (statsFile: string) => new AdaptiveModelRouter({ statsFile }).getStats(),
+      logger: {
+        info: mock(() => {}),
+        success: mock(() => {}),
+        warn: mock(() => {}),
+        raw: mock((_msg: string, _noNewline?: boolean) => {}),
+      },
+    } satisfies ModelsStatsDependencies
+  }
+
+  async function recordOutcomes() {
+    const router = new AdaptiveModelRouter({ statsFile: path.join(projectRoot, '.loopwork', 'model-stats.json') })
+    await router.record({ model: 'sonnet', features: { category: 'testing', size: 'small' }, success: true, durationMs: 60000, retries: 0, costUsd: 0.2 })
+    await router.record({ model: 'sonnet', features: { category: 'debugging', size: 'large' }, success: false, durationMs: 120000, retries: 2, costUsd: 0.4 })
+    await router.record({ model: 'flash', features: { category: 'testing', size: 'small' }, success: true, durationMs: 30000, retries: 0 })
+  }
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'loopwork-models-stats-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true })
+  })
+
+  test('summarizes each model, best first', async () => {
+    await recordOutcomes()
+
+    const rows = await modelsStats({ projectRoot, json: true }, createMockDeps())
+
+    expect(rows).toMatchObject([
+      { model: 'flash', attempts: 1, successRate: 1, avgDurationMs: 30000, avgRetries: 0, avgCostUsd: undefined },
+      { model: 'sonnet', attempts: 2, successRate: 0.5, avgDurationMs: 90000, avgRetries: 1 },
+    ])
+    expect(rows[1].avgCostUsd).toBeCloseTo(0.3)
+  })
+
+  test('breaks stats down by task feature', async () => {
+    await recordOutcomes()
+
+    const rows = await modelsStats({ projectRoot, by: 'category', json: true }, createMockDeps())
+
+    expect(rows.map(row => [row.group, row.model, row.successRate])).toEqual([
+      ['debugging', 'sonnet', 0],
+      ['testing', 'flash', 1],
+      ['testing', 'sonnet', 1],
+    ])
+  })
+
+  test('rejects unknown breakdowns', async () => {
+    await expect(modelsStats({ projectRoot, by: 'color' as any }, createMockDeps())).rejects.toBeInstanceOf(LoopworkError)
+  })
+
+  test('says when nothing has been learned yet', async () => {
+    const deps = createMockDeps()
+    const rows = await modelsStats({ projectRoot }, deps)
+
+    expect(rows).toEqual([])
+    expect(deps.logger.info).toHaveBeenCalledWith(`No model outcomes recorded in ${path.join('.loopwork', 'model-stats.json')}`)
+  })
+})
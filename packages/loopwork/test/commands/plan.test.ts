@@ -0,0 +1,117 @@
+import { describe, test, expect, mock } from 'bun:test'
+import { CostEstimator } from '@loopwork-ai/cost-tracking'
+import type { UsageEntry } from '@loopwork-ai/cost-tracking'
+import type { BudgetScopeStatus } from '@loopwork-ai/contracts'
+import { plan, type PlanDependencies } from '../../src/commands/plan'
+
+describe('plan command', () => {
+  const tasks = [
+    { id: 'AUTH-001', title: 'Login form', description: 'Build the login form', status: 'completed', feature: 'auth' },
+    { id: 'AUTH-002', title: 'Logout', description: 'Add a logout button', status: 'pending', feature: 'auth' },
+    { id: 'BILL-001', title: 'Invoices', description: 'Generate invoices', status: 'pending', feature: 'billing' },
+  ]
+
+  const history: UsageEntry[] = [
+    {
+      taskId: 'AUTH-001',
+      model: 'sonnet',
+      usage: { inputTokens: 200_000, outputTokens: 20_000 },
+      cost: 0.9,
+      timestamp: new Date('2026-10-01T00:00:00Z'),
+      duration: 120,
+    },
+  ]
+
+  function createMockDeps(costTracking?: Record<string, unknown>, scopes: BudgetScopeStatus[] = []) {
+    const listTasks = mock(async (options?: { status?: string; feature?: string }) =>
+      tasks.filter(t =>
+        (!options?.status || t.status === options.status) &&
+        (!options?.feature || t.feature === options.feature)
+      )
+    )
+
+    const deps = {
+      getConfig: mock(async (): Promise<any> => ({
+        projectRoot: '/project',
+        namespace: 'default',
+        model: 'sonnet',
+        backend: { type: 'json', tasksFile: 'tasks.json' },
+        costTracking,
+      })),
+      createBackend: mock((): any => ({ listTasks })),
+      getUsageHistory: mock(async () => history),
+      createEstimator: mock(async (options: any) => new CostEstimator(options)),
+      getBudgetStatus: mock(async () => scopes),
+      logger: {
+        info: mock(() => {}),
+        warn: mock(() => {}),
+        raw: mock(() => {}),
+      },
+    }
+    return deps as typeof deps & PlanDependencies
+  }
+
+  test('estimates every pending task with the configured model', async () => {
+    const deps = createMockDeps()
+    const result = await plan({}, deps)
+
+    expect(result.model).toBe('sonnet')
+    expect(result.tasks.map(t => t.taskId)).toEqual(['AUTH-002', 'BILL-001'])
+    expect(result.tasks[0].basis).toBe('feature')
+    expect(result.tasks[1].basis).toBe('history')
+    expect(result.total.cost).toBeCloseTo(result.tasks[0].cost + result.tasks[1].cost)
+    expect(result.warnings).toEqual([])
+  })
+
+  test('filters by feature and model', async () => {
+    const deps = createMockDeps()
+    const result = await plan({ feature: 'billing', model: 'opus' }, deps)
+
+    expect(result.model).toBe('opus')
+    expect(result.tasks.map(t => t.taskId)).toEqual(['BILL-001'])
+  })
+
+  test('outputs JSON when requested', async () => {
+    const deps = createMockDeps()
+    await plan({ json: true }, deps)
+
+    const output = JSON.parse((deps.logger.raw.mock.calls[0] as unknown[])[0] as string)
+    expect(output.tasks).toHaveLength(2)
+    expect(output.total.cost).toBeGreaterThan(0)
+    expect(output.total.low).toBeLessThanOrEqual(output.total.cost)
+  })
+
+  test('warns about tasks over the per-task budget', async () => {
+    const deps = createMockDeps({ perTaskBudget: 0.01 })
+    const result = await plan({ json: true }, deps)
+
+    expect(result.warnings.map(w => w.taskId)).toEqual(['AUTH-002', 'BILL-001'])
+    expect(result.warnings[0].message).toContain('per-task budget')
+  })
+
+  test('warns once shared budgets are used up by earlier tasks', async () => {
+    const monthStatus: BudgetScopeStatus = {
+      scope: 'month',
+      key: '2026-10',
+      limit: 10,
+      spent: 9,
+      remaining: 1,
+      alertTriggered: true,
+    }
+    const deps = createMockDeps({ budgets: { month: { limit: 10 } } }, [monthStatus])
+    const result = await plan({ json: true }, deps)
+
+    // Each task costs about $0.90: the first fits, the second does not
+    expect(result.warnings).toHaveLength(1)
+    expect(result.warnings[0].taskId).toBe('BILL-001')
+    expect(result.warnings[0].message).toContain("month budget '2026-10'")
+  })
+
+  test('prints warnings below the table', async () => {
+    const deps = createMockDeps({ perTaskBudget: 0.01 })
+    await plan({}, deps)
+
+    expect(deps.logger.warn).toHaveBeenCalledTimes(2)
+    expect((deps.logger.warn.mock.calls[0] as unknown[])[0]).toStartWith('AUTH-002: ')
+  })
+})
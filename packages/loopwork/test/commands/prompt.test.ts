@@ -0,0 +1,73 @@
+import { describe, test, expect, mock } from 'bun:test'
+import { promptRender, type PromptDependencies } from '../../src/commands/prompt'
+import { PromptTemplates } from '../../src/core/prompt-templates'
+import { resolveTaskModel } from '../../src/core/task-utils'
+
+describe('prompt render command', () => {
+  const tasks = [
+    { id: 'AUTH-001', title: 'Login form', description: 'Build the login form', status: 'completed', priority: 'high', feature: 'auth', metadata: { output: 'Added LoginForm' } },
+    { id: 'AUTH-002', title: 'Logout', description: 'Add a logout button', status: 'pending', priority: 'high', feature: 'auth', dependsOn: ['AUTH-001'], metadata: { preferredCli: 'opencode', preferredModel: 'gpt-5' } },
+  ]
+
+  function createMockDeps(prompts: Record<string, unknown> = {}) {
+    const deps = {
+      getConfig: mock(async (): Promise<any> => ({
+        projectRoot: '/project',
+        namespace: 'default',
+        cli: 'claude',
+        backend: { type: 'json', tasksFile: 'tasks.json' },
+        prompts,
+      })),
+      createBackend: mock((): any => ({
+        getTask: async (id: string) => tasks.find(t => t.id === id) ?? null,
+      })),
+      createPromptTemplates: mock((config: any, backend: any) =>
+        new PromptTemplates({ projectRoot: config.projectRoot, config: config.prompts, backend })
+      ),
+      logger: {
+        info: mock(() => {}),
+        raw: mock(() => {}),
+      },
+    }
+    return deps as typeof deps & PromptDependencies
+  }
+
+  test('renders with the template for the task\'s preferred CLI', async () => {
+    const deps = createMockDeps({ clis: { opencode: '{{cli}} {{task.id}} after {{#each dependencies}}{{id}}: {{output}}{{/each}}' } })
+    const result = await promptRender('AUTH-002', {}, deps)
+
+    expect(result.template).toEqual({ source: 'cli:opencode' })
+    expect(result.prompt).toBe('opencode AUTH-002 after AUTH-001: Added LoginForm')
+    expect(deps.logger.raw).toHaveBeenCalledWith(result.prompt)
+  })
+
+  test('--cli overrides the task preference and --json prints the result', async () => {
+    const deps = createMockDeps({ clis: { opencode: 'opencode' }, template: 'default {{cli}}' })
+    const result = await promptRender('AUTH-002', { cli: 'gemini', json: true }, deps)
+
+    expect(result.template.source).toBe('default')
+    expect(result.prompt).toBe('default gemini')
+    expect(JSON.parse((deps.logger.raw.mock.calls[0] as unknown as [string])[0])).toEqual(result)
+  })
+
+  test('renders with the task\'s preferred model', async () => {
+    const deps = createMockDeps({ template: '{{cli}}/{{model}}' })
+    const result = await promptRender('AUTH-002', {}, deps)
+
+    expect(result.prompt).toBe('opencode/gpt-5')
+  })
+
+  test('resolves the CLI the run loop would pick', () => {
+    const task = tasks[1] as any
+    const executor = { getNextModel: mock(() => ({ cli: 'opencode', model: 'gpt-5-mini' })) }
+
+    expect(resolveTaskModel(task, executor, 'claude')).toEqual({ cli: 'opencode', model: 'gpt-5-mini' })
+    expect(executor.getNextModel).toHaveBeenCalledWith({ preferredCli: 'opencode', preferredModel: 'gpt-5' })
+    expect(resolveTaskModel(task, { getNextModel: () => null }, 'claude')).toEqual({ cli: 'opencode', model: 'gpt-5' })
+    expect(resolveTaskModel(tasks[0] as any, undefined, 'claude')).toEqual({ cli: 'claude', model: undefined })
+  })
+
+  test('fails for unknown tasks', async () => {
+    await expect(promptRender('NOPE-1', {}, createMockDeps())).rejects.toThrow('Task NOPE-1 not found')
+  })
+})
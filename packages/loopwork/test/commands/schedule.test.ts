@@ -0,0 +1,68 @@
+import { describe, test, expect, mock } from 'bun:test'
+import type { Task } from '../../src/contracts/task'
+import { scheduleList, type ScheduleDependencies } from '../../src/commands/schedule'
+
+const NOW = new Date('2024-01-01T09:00:00Z').getTime()
+
+function task(id: string, extra: Partial<Task> = {}): Task {
+  return { id, title: `Task ${id}`, description: '', status: 'pending', priority: 'medium', ...extra }
+}
+
+describe('schedule list command', () => {
+  function createMockDeps(pending: Task[]) {
+    const backend = { listPendingTasks: mock(async () => pending) }
+    return {
+      backend,
+      deps: {
+        getConfig: mock(async (): Promise<any> => ({ backend: { type: 'json', tasksFile: 'tasks.json' } })),
+        createBackend: mock((): any => backend),
+        now: () => NOW,
+        logger: {
+          info: mock(() => {}),
+          success: mock(() => {}),
+          warn: mock(() => {}),
+          raw: mock((_msg: string, _noNewline?: boolean) => {}),
+        },
+      } satisfies ScheduleDependencies,
+    }
+  }
+
+  test('lists due tasks first, then the upcoming runs', async () => {
+    const { deps } = createMockDeps([
+      task('REPORT', { scheduledFor: '2024-01-01T10:00:00Z', metadata: { cron: '0 10 * * *' } }),
+      task('LOW', { priority: 'low' }),
+      task('HIGH', { priority: 'high' }),
+    ])
+
+    const timeline = await scheduleList({ json: true }, deps)
+
+    expect(timeline.map(entry => [entry.taskId, entry.due])).toEqual([
+      ['HIGH', true],
+      ['LOW', true],
+      ['REPORT', false],
+    ])
+    expect(timeline[2].nextRunAt).toBe(new Date('2024-01-02T10:00:00Z').getTime())
+    expect(JSON.parse(deps.logger.raw.mock.calls[0][0])).toHaveLength(3)
+  })
+
+  test('filters by feature', async () => {
+    const { deps, backend } = createMockDeps([])
+
+    await scheduleList({ feature: 'billing' }, deps)
+
+    expect(backend.listPendingTasks).toHaveBeenCalledWith({ feature: 'billing' })
+    expect(deps.logger.info).toHaveBeenCalledWith('No pending tasks scheduled.')
+  })
+
+  test('summarizes what is due now and later', async () => {
+    const { deps } = createMockDeps([
+      task('NOW'),
+      task('LATER', { scheduledFor: '2024-01-02T00:00:00Z' }),
+    ])
+
+    await scheduleList({}, deps)
+
+    expect(deps.logger.raw).toHaveBeenCalledTimes(1)
+    expect(deps.logger.info).toHaveBeenCalledWith('1 due now, 1 scheduled for later')
+  })
+})
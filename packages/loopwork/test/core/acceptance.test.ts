@@ -0,0 +1,244 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  AcceptanceVerifier,
+  parseCriterion,
+  findFiles,
+  formatAcceptanceFailure,
+  recordAcceptanceResults,
+} from '../../src/core/acceptance'
+import type { Task, TaskBackend } from '../../src/contracts'
+import type { ICriterionJudge, CriterionJudgeRequest } from '../../src/contracts/llm-analyzer'
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'AUTH-001',
+    title: 'Add login',
+    description: 'Implement login',
+    status: 'in-progress',
+    priority: 'high',
+    ...overrides,
+  }
+}
+
+function makeJudge(passed: boolean | null): ICriterionJudge & { requests: CriterionJudgeRequest[] } {
+  const requests: CriterionJudgeRequest[] = []
+  return {
+    name: 'criterion-judge',
+    requests,
+    getCacheKey: (request) => request.criterion,
+    clearCache: () => {},
+    async analyze(request) {
+      requests.push(request)
+      return passed === null ? null : { passed, reason: passed ? 'Looks done' : 'No evidence', confidence: 0.9 }
+    },
+  }
+}
+
+describe('parseCriterion', () => {
+  test('parses inline check directives', () => {
+    expect(parseCriterion('Build passes `run: bun run build`')).toEqual({
+      text: 'Build passes',
+      required: true,
+      inline: true,
+      check: { type: 'command', command: 'bun run build' },
+    })
+    expect(parseCriterion('Login tests pass `test: test/auth/*.test.ts`').check).toEqual({
+      type: 'test',
+      pattern: 'test/auth/*.test.ts',
+    })
+    expect(parseCriterion('No console.log left `grep!: console\\.log in src/**/*.ts`').check).toEqual({
+      type: 'grep',
+      pattern: 'console\\.log',
+      files: 'src/**/*.ts',
+      absent: true,
+    })
+    expect(parseCriterion('Code is readable `judge`').check).toEqual({ type: 'llm' })
+  })
+
+  test('marks "(optional)" criteria as not required', () => {
+    const criterion = parseCriterion('Docs updated (optional)')
+    expect(criterion.required).toBe(false)
+    expect(criterion.text).toBe('Docs updated')
+  })
+
+  test('falls back to configured rules, then the fallback', () => {
+    const config = {
+      rules: [{ match: 'type.?check', check: { type: 'command' as const, command: 'tsc --noEmit' } }],
+    }
+    expect(parseCriterion('Typecheck is clean', config).check).toEqual({ type: 'command', command: 'tsc --noEmit' })
+    expect(parseCriterion('Users can log in', config).check).toEqual({ type: 'llm' })
+    expect(parseCriterion('Users can log in', { fallback: 'skip' }).check).toBeUndefined()
+  })
+})
+
+describe('AcceptanceVerifier', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'loopwork-acceptance-'))
+    fs.mkdirSync(path.join(tmpDir, 'src', 'auth'), { recursive: true })
+    fs.writeFileSync(path.join(tmpDir, 'src', 'auth', 'login.ts'), 'export function login() {\n  return true\n}\n')
+    fs.mkdirSync(path.join(tmpDir, 'node_modules', 'dep'), { recursive: true })
+    fs.writeFileSync(path.join(tmpDir, 'node_modules', 'dep', 'index.ts'), 'export function login() {}\n')
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  test('findFiles matches globs and skips node_modules', () => {
+    expect(findFiles(tmpDir, '**/*.ts')).toEqual(['src/auth/login.ts'])
+    expect(findFiles(tmpDir, 'src/*/login.ts')).toEqual(['src/auth/login.ts'])
+    expect(findFiles(tmpDir, 'src/*.ts')).toEqual([])
+  })
+
+  test('returns null when the task has no success criteria', async () => {
+    const verifier = new AcceptanceVerifier({ cwd: tmpDir })
+    expect(await verifier.verify(makeTask(), '')).toBeNull()
+  })
+
+  test('reads criteria from the PRD file', async () => {
+    const prdFile = path.join(tmpDir, 'AUTH-001.md')
+    fs.writeFileSync(prdFile, [
+      '# AUTH-001: Add login',
+      '',
+      '## Success Criteria',
+      '- [ ] Login is exported `grep: export function login in src/**/*.ts`',
+      '- [ ] Exits cleanly `run: exit 0`',
+    ].join('\n'))
+
+    const verifier = new AcceptanceVerifier({ cwd: tmpDir, allowCommands: ['exit 0'] })
+    const report = await verifier.verify(makeTask({ metadata: { prdFile } }), '')
+
+    expect(report?.passed).toBe(true)
+    expect(report?.results.map(r => [r.criterion, r.status])).toEqual([
+      ['Login is exported', 'passed'],
+      ['Exits cleanly', 'passed'],
+    ])
+    expect(report?.results[0].detail).toContain('src/auth/login.ts:1')
+  })
+
+  test('fails required criteria and ignores optional failures', async () => {
+    const verifier = new AcceptanceVerifier({ cwd: tmpDir, allowInlineCommands: true })
+    const task = makeTask({
+      metadata: {
+        successCriteria: [
+          'Build passes `run: echo "2 type errors" && exit 1`',
+          'No TODOs left `grep!: TODO in src/**/*.ts`',
+          'Has tests `test: test/**/*.test.ts`',
+          'Changelog updated (optional) `run: exit 1`',
+        ],
+      },
+    })
+
+    const report = await verifier.verify(task, '')
+
+    expect(report?.passed).toBe(false)
+    expect(report?.results.map(r => r.status)).toEqual(['failed', 'passed', 'failed', 'failed'])
+    expect(report?.failures.map(f => f.criterion)).toEqual(['Build passes', 'Has tests'])
+    expect(report?.failures[1].detail).toBe('No test files match test/**/*.test.ts')
+
+    const reason = formatAcceptanceFailure(report!)
+    expect(reason).toContain('2 of 3 required failed')
+    expect(reason).toContain('- [command] Build passes: 2 type errors')
+    expect(reason).not.toContain('Changelog')
+  })
+
+  test('uses the judge for criteria without a mechanical check', async () => {
+    const judge = makeJudge(false)
+    const verifier = new AcceptanceVerifier({ cwd: tmpDir, judge })
+    const task = makeTask({ metadata: { successCriteria: ['Errors are user friendly'] } })
+
+    const report = await verifier.verify(task, 'agent output')
+
+    expect(judge.requests[0]).toMatchObject({ criterion: 'Errors are user friendly', output: 'agent output' })
+    expect(report?.results[0]).toMatchObject({ check: 'llm', status: 'failed', detail: 'No evidence' })
+  })
+
+  test('fails required judged criteria when the judge is unavailable', async () => {
+    const task = makeTask({ metadata: { successCriteria: ['Errors are user friendly', 'Docs are clear (optional)'] } })
+
+    const withoutJudge = await new AcceptanceVerifier({ cwd: tmpDir }).verify(task, '')
+    const judgeDown = await new AcceptanceVerifier({ cwd: tmpDir, judge: makeJudge(null) }).verify(task, '')
+
+    for (const report of [withoutJudge, judgeDown]) {
+      expect(report?.passed).toBe(false)
+      expect(report?.results.map(r => r.status)).toEqual(['failed', 'skipped'])
+      expect(report?.failures[0].detail).toBe('LLM judge unavailable')
+    }
+  })
+
+  test('skips criteria without a check when the fallback is skip', async () => {
+    const task = makeTask({ metadata: { successCriteria: ['Errors are user friendly'] } })
+
+    const report = await new AcceptanceVerifier({ cwd: tmpDir, fallback: 'skip' }).verify(task, '')
+
+    expect(report?.passed).toBe(true)
+    expect(report?.results[0]).toMatchObject({ check: 'none', status: 'skipped' })
+  })
+
+  test('only runs inline commands that are allowed', async () => {
+    const task = makeTask({ metadata: { successCriteria: ['Marker written `run: touch ran.txt`'] } })
+
+    const blocked = await new AcceptanceVerifier({ cwd: tmpDir, allowCommands: ['bun run .*'] }).verify(task, '')
+    expect(blocked?.passed).toBe(false)
+    expect(blocked?.results[0]).toMatchObject({ status: 'failed', detail: expect.stringContaining('not allowed') })
+    expect(fs.existsSync(path.join(tmpDir, 'ran.txt'))).toBe(false)
+
+    const allowed = await new AcceptanceVerifier({ cwd: tmpDir, allowCommands: ['touch \\S+'] }).verify(task, '')
+    expect(allowed?.results[0].status).toBe('passed')
+    expect(fs.existsSync(path.join(tmpDir, 'ran.txt'))).toBe(true)
+  })
+
+  test('always runs commands from configured rules', async () => {
+    const verifier = new AcceptanceVerifier({
+      cwd: tmpDir,
+      rules: [{ match: 'builds', check: { type: 'command', command: 'exit 0' } }],
+    })
+    const report = await verifier.verify(makeTask({ metadata: { successCriteria: ['It builds'] } }), '')
+
+    expect(report?.results[0].status).toBe('passed')
+  })
+
+  test('fails commands that exceed the timeout and stops their children', async () => {
+    const verifier = new AcceptanceVerifier({ cwd: tmpDir, timeoutMs: 200, allowInlineCommands: true })
+    const task = makeTask({ metadata: { successCriteria: ['Finishes `run: (sleep 0.6 && touch late.txt) & wait`'] } })
+
+    const report = await verifier.verify(task, '')
+
+    expect(report?.passed).toBe(false)
+    expect(report?.results[0].detail).toContain('timed out after 200ms')
+    await new Promise(resolve => setTimeout(resolve, 800))
+    expect(fs.existsSync(path.join(tmpDir, 'late.txt'))).toBe(false)
+  })
+})
+
+describe('recordAcceptanceResults', () => {
+  test('records one event per criterion', async () => {
+    const events: Array<{ taskId: string; event: Record<string, unknown> }> = []
+    const backend = {
+      addEvent: async (taskId: string, event: Record<string, unknown>) => {
+        events.push({ taskId, event })
+        return { success: true }
+      },
+    } as unknown as TaskBackend
+
+    await recordAcceptanceResults(backend, {
+      taskId: 'AUTH-001',
+      passed: false,
+      results: [
+        { criterion: 'Build passes', check: 'command', required: true, status: 'failed', detail: '', durationMs: 5 },
+        { criterion: 'Docs', check: 'llm', required: false, status: 'failed', detail: '', durationMs: 1 },
+      ],
+      failures: [],
+    })
+
+    expect(events.map(e => [e.taskId, e.event.type, e.event.level])).toEqual([
+      ['AUTH-001', 'acceptance', 'error'],
+      ['AUTH-001', 'acceptance', 'warn'],
+    ])
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { ApprovalStore } from '../../src/core/approval-store'
+import { LoopworkError } from '../../src/core/errors'
+
+describe('ApprovalStore', () => {
+  let dir: string
+  let store: ApprovalStore
+
+  const request = {
+    taskId: 'DB-004',
+    title: 'Drop the legacy sessions table',
+    namespace: 'default',
+    riskLevel: 'critical' as const,
+    reasons: ['Contains critical keywords: drop table'],
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'loopwork-approvals-'))
+    store = new ApprovalStore({ dir })
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('creates pending requests', () => {
+    const approval = store.create(request)
+
+    expect(approval.id).toMatch(/^apr_\d+_\w+$/)
+    expect(approval.status).toBe('pending')
+    expect(store.get(approval.id)).toEqual(approval)
+  })
+
+  test('records a decision once', () => {
+    const approval = store.create(request)
+    const approved = store.decide(approval.id, { status: 'approved', decidedBy: 'ann', channel: 'cli' })
+
+    expect(approved.status).toBe('approved')
+    expect(store.get(approval.id)?.decision?.decidedBy).toBe('ann')
+
+    const error = (() => {
+      try {
+        store.decide(approval.id, { status: 'rejected', decidedBy: 'bob', channel: 'telegram' })
+      } catch (err) {
+        return err as LoopworkError
+      }
+    })()
+    expect(error).toBeInstanceOf(LoopworkError)
+    expect(error?.code).toBe('ERR_APPROVAL_DECIDED')
+    expect(error?.message).toContain('approved by ann via cli')
+    expect(store.get(approval.id)?.status).toBe('approved')
+  })
+
+  test('lists requests by status and task, oldest first', async () => {
+    const first = store.create(request)
+    await new Promise(resolve => setTimeout(resolve, 5))
+    const second = store.create({ ...request, taskId: 'DB-005' })
+    store.decide(second.id, { status: 'rejected', decidedBy: 'ann', channel: 'dashboard' })
+
+    expect(store.list().map(a => a.id)).toEqual([first.id, second.id])
+    expect(store.list({ status: 'pending' }).map(a => a.id)).toEqual([first.id])
+    expect(store.list({ taskId: 'DB-005' }).map(a => a.status)).toEqual(['rejected'])
+  })
+
+  test('keeps the decision when a request is updated', () => {
+    const approval = store.create(request)
+    store.decide(approval.id, { status: 'expired', decidedBy: 'system', channel: 'expiry' })
+    store.update(approval.id, { settledAt: '2026-01-02T00:00:00.000Z' })
+
+    const updated = store.get(approval.id)
+    expect(updated?.status).toBe('expired')
+    expect(updated?.settledAt).toBe('2026-01-02T00:00:00.000Z')
+  })
+
+  test('fails for unknown or malformed ids', () => {
+    expect(store.get('../state')).toBeNull()
+    expect(() => store.decide('apr_missing', { status: 'approved', decidedBy: 'ann', channel: 'cli' })).toThrow(LoopworkError)
+  })
+})
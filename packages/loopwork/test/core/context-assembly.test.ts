@@ -0,0 +1,151 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  ContextAssembler,
+  chunkFromSearchResult,
+  dedupeChunks,
+  recordAssembledContext,
+  type ContextChunk,
+} from '../../src/core/context-assembly'
+import { SemanticCodeIndexer } from '../../src/core/semantic-indexer'
+import { LocalVectorStore } from '../../src/vector-stores/local-vector-store'
+import { renderPromptTemplate, createPromptContext, DEFAULT_PROMPT_TEMPLATE } from '../../src/core/prompt-templates'
+import type { Task, TaskEvent } from '../../src/contracts'
+
+const task: Task = {
+  id: 'AUTH-002',
+  title: 'Add logout',
+  description: 'Add a logout button to the header',
+  status: 'pending',
+  priority: 'high',
+}
+
+function chunk(id: string, score: number, overrides: Partial<ContextChunk> = {}): ContextChunk {
+  return { id, source: 'code', file: id.split('#')[0], content: `content of ${id}`, score, ...overrides }
+}
+
+describe('dedupeChunks', () => {
+  test('keeps the best copy of repeated documents, content and overlapping ranges', () => {
+    const chunks = dedupeChunks([
+      chunk('a.ts#chunk-0', 0.5, { lineStart: 1, lineEnd: 40 }),
+      chunk('a.ts#chunk-1', 0.9, { lineStart: 35, lineEnd: 80 }),
+      chunk('a.ts#chunk-2', 0.4, { lineStart: 81, lineEnd: 120 }),
+      chunk('b.ts#chunk-0', 0.7),
+      chunk('b.ts#chunk-0', 0.6),
+      chunk('c.ts#chunk-0', 0.3, { content: 'content of b.ts#chunk-0' }),
+    ])
+
+    expect(chunks.map(c => c.id)).toEqual(['a.ts#chunk-1', 'b.ts#chunk-0', 'a.ts#chunk-2'])
+  })
+})
+
+describe('ContextAssembler', () => {
+  test('merges sources, best first, within the token budget', async () => {
+    const assembler = new ContextAssembler({
+      maxTokens: 100,
+      sources: [
+        async () => [chunk('a.ts#chunk-0', 0.9, { content: 'a'.repeat(200) }), chunk('b.ts#chunk-0', 0.5, { content: 'b'.repeat(200) })],
+        async () => [chunk('task-output:AUTH-001', 0.7, { source: 'task-output', taskId: 'AUTH-001', content: 'c'.repeat(160) })],
+      ],
+    })
+
+    const context = await assembler.assemble(task, 5)
+
+    // 50 + 40 tokens fit; the 50-token b.ts chunk does not
+    expect(context.chunks.map(c => c.id)).toEqual(['a.ts#chunk-0', 'task-output:AUTH-001'])
+    expect(context.tokens).toBe(90)
+    expect(context.candidates).toBe(3)
+  })
+
+  test('passes the task to sources and leaves out its own output', async () => {
+    const queries: Array<[string, number]> = []
+    const assembler = new ContextAssembler({
+      sources: [
+        async (query, limit) => {
+          queries.push([query, limit])
+          return [
+            chunk('task-output:AUTH-002', 0.9, { source: 'task-output', taskId: 'AUTH-002' }),
+            chunk('a.ts#chunk-0', 0.8),
+            chunk('b.ts#chunk-0', 0.7),
+          ]
+        },
+        async () => { throw new Error('index unavailable') },
+      ],
+    })
+
+    const context = await assembler.assemble(task, 1)
+
+    expect(queries).toEqual([['Add logout\nAdd a logout button to the header', 4]])
+    expect(context.chunks.map(c => c.id)).toEqual(['a.ts#chunk-0'])
+  })
+
+  test('cuts a chunk bigger than the whole budget', async () => {
+    const assembler = new ContextAssembler({
+      maxTokens: 10,
+      sources: [async () => [chunk('big.ts#chunk-0', 0.9, { content: 'x'.repeat(1000) })]],
+    })
+
+    const context = await assembler.assemble(task, 5)
+
+    expect(context.chunks[0].content).toHaveLength(40)
+    expect(context.tokens).toBe(10)
+  })
+})
+
+describe('context from the semantic code indexer', () => {
+  test('finds earlier task outputs next to code and labels them in the prompt', async () => {
+    const embeddingProvider = {
+      name: 'words',
+      embed: async (text: string) => ['logout', 'header', 'session', 'chart'].map(word => (text.toLowerCase().includes(word) ? 1 : 0)),
+      embedBatch: async (texts: string[]) => Promise.all(texts.map(t => embeddingProvider.embed(t))),
+    }
+    const indexer = new SemanticCodeIndexer({ embeddingProvider, vectorStore: new LocalVectorStore() })
+    await indexer.indexFile('src/Header.tsx', 'export function Header() { return <header /> }', 0)
+    await indexer.indexFile('src/Chart.tsx', 'export function Chart() {}', 0)
+    await indexer.indexTaskOutput('AUTH-001', 'Add login', 'Created src/auth/session.ts with the session store for logout')
+
+    const assembler = new ContextAssembler({
+      sources: [async (query, limit) => (await indexer.search(query, limit)).map(chunkFromSearchResult)],
+    })
+    const context = await assembler.assemble(task, 2)
+
+    expect(context.chunks.map(c => [c.source, c.file])).toEqual([
+      ['code', 'src/Header.tsx'],
+      ['task-output', 'task:AUTH-001'],
+    ])
+
+    const prompt = renderPromptTemplate(DEFAULT_PROMPT_TEMPLATE, createPromptContext({ task, namespace: 'default', codeContext: context.chunks }))
+    expect(prompt).toContain('## Relevant Code\n### src/Header.tsx:1-1\n')
+    expect(prompt).toContain('### Output of task AUTH-001\n```\nAdd login\n\nCreated src/auth/session.ts')
+  })
+})
+
+describe('recordAssembledContext', () => {
+  test('records the included chunks on the task event log', async () => {
+    const events: Array<Omit<TaskEvent, 'taskId' | 'timestamp'> & { taskId: string }> = []
+    const backend = {
+      addEvent: async (taskId: string, event: Omit<TaskEvent, 'taskId' | 'timestamp'>) => {
+        events.push({ taskId, ...event })
+        return { success: true }
+      },
+    }
+
+    await recordAssembledContext(backend, 'AUTH-002', {
+      chunks: [chunk('a.ts#chunk-0', 0.9, { lineStart: 1, lineEnd: 20 })],
+      tokens: 6,
+      candidates: 3,
+    })
+    await recordAssembledContext(backend, 'AUTH-003', { chunks: [], tokens: 0, candidates: 0 })
+
+    expect(events).toHaveLength(1)
+    expect(events[0]).toMatchObject({
+      taskId: 'AUTH-002',
+      type: 'context',
+      message: 'Included 1 of 3 retrieved chunks (~6 tokens) in the prompt',
+      metadata: {
+        tokens: 6,
+        candidates: 3,
+        chunks: [{ id: 'a.ts#chunk-0', source: 'code', file: 'a.ts', lineStart: 1, lineEnd: 20, score: 0.9 }],
+      },
+    })
+  })
+})
@@ -0,0 +1,133 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { execFileSync } from 'child_process'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, renameSync, realpathSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { IndexSync, parseNameStatus } from '../../src/core/index-sync'
+import { SemanticCodeIndexer } from '../../src/core/semantic-indexer'
+import { IndexPersistence } from '../../src/utils/index-persistence'
+import { LocalVectorStore } from '../../src/vector-stores/local-vector-store'
+import type { EmbeddingProvider } from '../../src/contracts/embedding'
+
+const embeddingProvider: EmbeddingProvider = {
+  name: 'mock',
+  async embed(text: string): Promise<number[]> {
+    const hash = text.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0)
+    return Array(10).fill(0).map((_, i) => (hash + i) % 100 / 100)
+  },
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(t => this.embed(t)))
+  },
+}
+
+describe('parseNameStatus', () => {
+  test('lists both sides of renames and copies', () => {
+    const output = ['M', 'src/a.ts', 'R100', 'src/old.ts', 'src/new.ts', 'D', 'src/gone.ts', 'C75', 'src/b.ts', 'src/c.ts', ''].join('\0')
+
+    expect(parseNameStatus(output)).toEqual(['src/a.ts', 'src/old.ts', 'src/new.ts', 'src/gone.ts', 'src/b.ts', 'src/c.ts'])
+  })
+})
+
+describe('IndexSync', () => {
+  let repo: string
+  let indexer: SemanticCodeIndexer
+  let persistence: IndexPersistence
+
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, stdio: 'pipe' }).toString()
+  const write = (file: string, content: string) => {
+    mkdirSync(join(repo, file, '..'), { recursive: true })
+    writeFileSync(join(repo, file), content)
+  }
+  const commit = (message: string) => {
+    git('add', '-A')
+    git('commit', '-q', '-m', message)
+  }
+  const createSync = () => new IndexSync({ indexer, vectorStore: new LocalVectorStore(), persistence, sourceDir: repo })
+  const indexed = () => [...indexer.getIndexStatus().keys()].map(file => file.slice(repo.length + 1)).sort()
+
+  beforeEach(() => {
+    repo = realpathSync(mkdtempSync(join(tmpdir(), 'index-sync-test-')))
+    git('init', '-q')
+    git('config', 'user.email', 'test@example.com')
+    git('config', 'user.name', 'Test')
+    indexer = new SemanticCodeIndexer({ embeddingProvider, vectorStore: new LocalVectorStore() })
+    persistence = new IndexPersistence({ indexPath: join(repo, '.loopwork', 'index.json') })
+
+    write('src/a.ts', 'export const a = 1')
+    write('src/b.ts', 'export const b = 2')
+    write('node_modules/dep/index.js', 'module.exports = {}')
+    write('.gitignore', 'node_modules\n.loopwork\n')
+    commit('initial')
+  })
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true })
+  })
+
+  test('indexes every file on the first sync and remembers the commit', async () => {
+    const result = await createSync().sync()
+
+    expect(result).toMatchObject({ full: true, indexed: 2, removed: 0, errors: 0 })
+    expect(indexed()).toEqual(['src/a.ts', 'src/b.ts'])
+    expect(persistence.loadSyncState().commit).toBe(git('rev-parse', 'HEAD').trim())
+  })
+
+  test('only looks at files changed since the last indexed commit', async () => {
+    await createSync().sync()
+
+    write('src/a.ts', 'export const a = 10')
+    write('src/c.ts', 'export const c = 3')
+    commit('change a, add c')
+    write('src/d.ts', 'export const d = 4')
+
+    const result = await createSync().sync()
+
+    expect(result).toMatchObject({ full: false, indexed: 3, removed: 0, unchanged: 0 })
+    expect(indexed()).toEqual(['src/a.ts', 'src/b.ts', 'src/c.ts', 'src/d.ts'])
+  })
+
+  test('removes deleted and renamed files from the index', async () => {
+    await createSync().sync()
+
+    rmSync(join(repo, 'src/b.ts'))
+    renameSync(join(repo, 'src/a.ts'), join(repo, 'src/renamed.ts'))
+    commit('delete b, rename a')
+
+    const result = await createSync().sync()
+
+    expect(result).toMatchObject({ indexed: 1, removed: 2 })
+    expect(indexed()).toEqual(['src/renamed.ts'])
+  })
+
+  test('notices an uncommitted edit being reverted', async () => {
+    write('src/a.ts', 'export const a = "draft"')
+    await createSync().sync()
+
+    git('checkout', '--', 'src/a.ts')
+    const sync = createSync()
+
+    expect(sync.pending().changed).toEqual([join(repo, 'src/a.ts')])
+    expect(await sync.sync()).toMatchObject({ indexed: 1 })
+    expect(indexer.isUpToDate(join(repo, 'src/a.ts'), 'export const a = 1')).toBe(true)
+    expect(createSync().pending()).toEqual({ full: false, changed: [], removed: [] })
+  })
+
+  test('rebuild clears the index and indexes everything again', async () => {
+    await createSync().sync()
+
+    const result = await createSync().sync({ rebuild: true })
+
+    expect(result).toMatchObject({ full: true, indexed: 2 })
+    expect(indexed()).toEqual(['src/a.ts', 'src/b.ts'])
+  })
+
+  test('falls back to modification times outside git', async () => {
+    rmSync(join(repo, '.git'), { recursive: true, force: true })
+    const sync = createSync()
+
+    expect(await sync.sync()).toMatchObject({ full: true, commit: undefined, indexed: 2 })
+
+    rmSync(join(repo, 'src/b.ts'))
+    expect(await sync.sync()).toMatchObject({ indexed: 0, unchanged: 1, removed: 1 })
+  })
+})
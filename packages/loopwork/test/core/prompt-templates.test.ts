@@ -0,0 +1,140 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  MAX_RECORDED_OUTPUT,
+  PromptTemplates,
+  collectDependencyOutputs,
+  recordTaskOutput,
+} from '../../src/core/prompt-templates'
+import { LoopworkError } from '../../src/core/errors'
+import type { Task } from '../../src/contracts'
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'AUTH-002',
+    title: 'Add logout',
+    description: 'Add a logout button to the header',
+    status: 'pending',
+    priority: 'high',
+    feature: 'auth',
+    ...overrides,
+  }
+}
+
+function makeBackend(tasks: Task[]) {
+  const updates: Array<{ taskId: string; updates: Partial<Task> }> = []
+  return {
+    updates,
+    getTask: async (id: string) => tasks.find(t => t.id === id) ?? null,
+    updateTask: async (taskId: string, update: Partial<Task>) => {
+      updates.push({ taskId, updates: update })
+      return { success: true }
+    },
+  }
+}
+
+describe('PromptTemplates', () => {
+  let projectRoot: string
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'loopwork-prompts-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true })
+  })
+
+  test('prefers CLI over feature over namespace over the project default', () => {
+    fs.mkdirSync(path.join(projectRoot, 'prompts'))
+    fs.writeFileSync(path.join(projectRoot, 'prompts/auth.hbs'), 'auth {{task.id}}')
+    const templates = new PromptTemplates({
+      projectRoot,
+      config: {
+        template: 'default {{task.id}}',
+        namespaces: { nightly: 'nightly {{task.id}}' },
+        features: { auth: 'prompts/auth.hbs' },
+        clis: { opencode: 'opencode {{task.id}}' },
+      },
+    })
+
+    expect(templates.resolve({ namespace: 'nightly', feature: 'auth', cli: 'opencode' }).source).toBe('cli:opencode')
+    expect(templates.resolve({ namespace: 'nightly', feature: 'auth', cli: 'claude' })).toMatchObject({
+      source: 'feature:auth',
+      file: path.join(projectRoot, 'prompts/auth.hbs'),
+      template: 'auth {{task.id}}',
+    })
+    expect(templates.resolve({ namespace: 'nightly', feature: 'billing' }).source).toBe('namespace:nightly')
+    expect(templates.resolve({ namespace: 'default' }).source).toBe('default')
+    expect(new PromptTemplates({ projectRoot }).resolve({}).template).toBe(DEFAULT_PROMPT_TEMPLATE)
+  })
+
+  test('renders task fields, dependency outputs, retry context, conventions and code', async () => {
+    fs.mkdirSync(path.join(projectRoot, '.loopwork'))
+    fs.writeFileSync(path.join(projectRoot, '.loopwork/conventions.md'), '# Conventions\n\n- Use `bun test`\n- No default exports\n')
+    const login = makeTask({ id: 'AUTH-001', title: 'Add login', status: 'completed', metadata: { output: 'Created src/auth/session.ts' } })
+    const templates = new PromptTemplates({
+      projectRoot,
+      config: { conventions: ['Single quotes, no semicolons'] },
+      backend: makeBackend([login]),
+      retrieveCode: async () => [{ file: 'src/components/Header.tsx', content: 'export function Header() {}', lineStart: 1, lineEnd: 3 }],
+    })
+
+    const prompt = await templates.render({
+      task: makeTask({
+        dependsOn: ['AUTH-001'],
+        metadata: { successCriteria: ['Logout clears the session <cookie>'], prdFile: '.specs/tasks/AUTH-002.md' },
+      }),
+      namespace: 'default',
+      retryAttempt: 1,
+      retryContext: 'Header test failed',
+    })
+
+    expect(prompt).toContain('# Task: AUTH-002')
+    expect(prompt).toContain('- [ ] Logout clears the session <cookie>')
+    expect(prompt).toContain('### AUTH-001: Add login (completed)\n```\nCreated src/auth/session.ts\n```')
+    expect(prompt).toContain('### src/components/Header.tsx:1-3')
+    expect(prompt).toContain('Attempt 1 did not complete the task:\nHeader test failed')
+    expect(prompt).toContain('- Single quotes, no semicolons\n- Use `bun test`\n- No default exports\n')
+    expect(prompt).toContain('Source: .specs/tasks/AUTH-002.md')
+    expect(prompt).not.toContain('yarn rw')
+  })
+
+  test('uses the last error of a previously failed task as retry context', async () => {
+    const templates = new PromptTemplates({ projectRoot, config: { template: '{{#if retry}}{{retry.attempt}}: {{retry.context}}{{/if}}' } })
+
+    const prompt = await templates.render({
+      task: makeTask({ failureCount: 2, lastError: 'Type check failed' }),
+      namespace: 'default',
+    })
+
+    expect(prompt).toBe('2: Type check failed')
+  })
+
+  test('rejects missing template files and invalid templates', () => {
+    const missing = new PromptTemplates({ projectRoot, config: { features: { auth: 'prompts/missing.hbs' } } })
+    expect(() => missing.validate()).toThrow(LoopworkError)
+    expect(() => missing.resolve({ feature: 'auth' })).toThrow('Prompt template not found')
+
+    const invalid = new PromptTemplates({ projectRoot, config: { template: '{{#each successCriteria}}\n- {{this}}' } })
+    expect(() => invalid.validate()).toThrow('Invalid prompt template (default)')
+  })
+})
+
+describe('dependency outputs', () => {
+  test('records the end of a completed task output for its dependents', async () => {
+    const backend = makeBackend([])
+    await recordTaskOutput(backend, 'AUTH-001', 'x'.repeat(MAX_RECORDED_OUTPUT) + 'done\n')
+
+    expect(backend.updates).toEqual([{ taskId: 'AUTH-001', updates: { metadata: { output: 'x'.repeat(MAX_RECORDED_OUTPUT - 4) + 'done' } } }])
+  })
+
+  test('skips dependencies the backend does not know', async () => {
+    const backend = makeBackend([makeTask({ id: 'AUTH-001', status: 'completed' })])
+    const outputs = await collectDependencyOutputs(makeTask({ dependsOn: ['AUTH-001', 'GONE-1'] }), backend)
+
+    expect(outputs).toEqual([{ id: 'AUTH-001', title: 'Add logout', status: 'completed', output: undefined }])
+  })
+})
@@ -0,0 +1,157 @@
+import { describe, expect, test } from 'bun:test'
+import type { PluginHookEvent } from '@loopwork-ai/contracts'
+import { LoopworkRunner } from '../../src/core/runner'
+
+describe('LoopworkRunner hook reporting', () => {
+  test('reports other plugins\' hook calls to onPluginHook observers', async () => {
+    const events: PluginHookEvent[] = []
+    const runner = new LoopworkRunner()
+    runner.registerPlugin({
+      name: 'observer',
+      onTaskStart: async () => {},
+      onPluginHook: (event) => events.push(event),
+    })
+    runner.registerPlugin({ name: 'notifier', onTaskStart: async () => {} })
+    runner.registerPlugin({
+      name: 'flaky',
+      onTaskComplete: async () => {
+        throw new Error('webhook down')
+      },
+    })
+
+    await runner.runHook('onTaskStart', { task: { id: 'TASK-1' } })
+    await runner.runHook('onTaskComplete', { task: { id: 'TASK-1' } }, { success: true })
+
+    expect(events.map(e => [e.plugin, e.hook, e.taskId, e.error])).toEqual([
+      ['notifier', 'onTaskStart', 'TASK-1', undefined],
+      ['flaky', 'onTaskComplete', 'TASK-1', 'webhook down'],
+    ])
+    expect(events[0].durationMs).toBeGreaterThanOrEqual(0)
+  })
+})
+
+describe('LoopworkRunner ordering and timeouts', () => {
+  test('runs hooks of higher-priority plugins first', async () => {
+    const calls: string[] = []
+    const runner = new LoopworkRunner()
+    runner.registerPlugin({ name: 'default', onLoopStart: () => { calls.push('default') } })
+    runner.registerPlugin({ name: 'late', priority: -10, onLoopStart: () => { calls.push('late') } })
+    runner.registerPlugin({ name: 'early', priority: 10, onLoopStart: () => { calls.push('early') } })
+    runner.registerPlugin({ name: 'default-2', onLoopStart: () => { calls.push('default-2') } })
+
+    await runner.runHook('onLoopStart', 'default')
+
+    expect(calls).toEqual(['early', 'default', 'default-2', 'late'])
+  })
+
+  test('abandons hooks past their timeout and auto-disables repeat offenders', async () => {
+    const events: PluginHookEvent[] = []
+    const calls: string[] = []
+    const runner = new LoopworkRunner()
+    runner.registerPlugin({ name: 'observer', onPluginHook: (event) => events.push(event) })
+    runner.registerPlugin({
+      name: 'slow',
+      timeoutMs: 20,
+      onTaskStart: () => new Promise<void>(resolve => setTimeout(resolve, 200)),
+    })
+    runner.registerPlugin({ name: 'next', onTaskStart: () => { calls.push('next') } })
+
+    for (let i = 0; i < 4; i++) {
+      await runner.runHook('onTaskStart', { task: { id: `TASK-${i}` } })
+    }
+
+    expect(calls).toHaveLength(4)
+    expect(events.filter(e => e.plugin === 'slow').map(e => e.error)).toEqual([
+      'Hook timed out after 20ms',
+      'Hook timed out after 20ms',
+      'Hook timed out after 20ms',
+    ])
+  })
+})
+
+describe('LoopworkRunner decision hooks', () => {
+  const context = { task: { id: 'TASK-1' }, prompt: 'Do the task' }
+
+  test('proceeds when no plugin objects', async () => {
+    const runner = new LoopworkRunner()
+    runner.registerPlugin({ name: 'quiet', onBeforeTaskStart: () => {} })
+
+    expect(await runner.runDecisionHook('onBeforeTaskStart', context)).toEqual({ action: 'proceed' })
+  })
+
+  test('passes rewritten prompts on and stops at the first veto', async () => {
+    const seen: string[] = []
+    const runner = new LoopworkRunner()
+    runner.registerPlugin({
+      name: 'rewriter',
+      priority: 10,
+      onBeforeTaskStart: (ctx) => ({ action: 'rewrite', prompt: `${ctx.prompt}\nUse pnpm` }),
+    })
+    runner.registerPlugin({
+      name: 'freeze',
+      onBeforeTaskStart: (ctx) => {
+        seen.push(ctx.prompt)
+        return { action: 'defer', until: '2026-10-19T09:00:00Z', reason: 'Release freeze' }
+      },
+    })
+    runner.registerPlugin({ name: 'after', onBeforeTaskStart: () => { seen.push('after') } })
+
+    const decision = await runner.runDecisionHook('onBeforeTaskStart', context)
+
+    expect(decision).toEqual({ action: 'defer', until: '2026-10-19T09:00:00Z', reason: 'Release freeze', plugin: 'freeze' })
+    expect(seen).toEqual(['Do the task\nUse pnpm'])
+  })
+
+  test('returns the final rewrite and ignores invalid decisions', async () => {
+    const runner = new LoopworkRunner()
+    runner.registerPlugin({ name: 'broken', onBeforeComplete: () => ({ action: 'defer', until: 'someday' }) as never })
+    runner.registerPlugin({ name: 'reviewer', onBeforeComplete: () => ({ action: 'rewrite', prompt: 'Add the missing tests' }) })
+
+    const decision = await runner.runDecisionHook('onBeforeComplete', context, { success: true, duration: 1 })
+
+    expect(decision).toEqual({ action: 'rewrite', prompt: 'Add the missing tests', plugin: 'reviewer' })
+  })
+
+  test('ignores a decision that arrives after the timeout', async () => {
+    const runner = new LoopworkRunner()
+    runner.registerPlugin({
+      name: 'slow-veto',
+      timeoutMs: 20,
+      onBeforeTaskStart: () => new Promise(resolve => setTimeout(() => resolve({ action: 'skip' }), 100)),
+    })
+
+    expect(await runner.runDecisionHook('onBeforeTaskStart', context)).toEqual({ action: 'proceed' })
+  })
+})
+
+describe('LoopworkRunner task selection', () => {
+  const tasks = [{ id: 'TASK-1' }, { id: 'TASK-2' }, { id: 'TASK-3' }]
+
+  test('knows whether any enabled plugin selects tasks', () => {
+    const runner = new LoopworkRunner()
+    runner.registerPlugin({ name: 'other', onLoopStart: () => {} })
+    expect(runner.hasTaskSelectors()).toBe(false)
+
+    runner.registerPlugin({ name: 'scheduler', onSelectTasks: (list) => list })
+    expect(runner.hasTaskSelectors()).toBe(true)
+
+    runner.disablePlugin('scheduler')
+    expect(runner.hasTaskSelectors()).toBe(false)
+  })
+
+  test('passes each plugin the list the previous one returned', async () => {
+    const runner = new LoopworkRunner()
+    runner.registerPlugin({ name: 'reverse', priority: 10, onSelectTasks: (list) => [...list].reverse() })
+    runner.registerPlugin({ name: 'observer', onSelectTasks: () => {} })
+    runner.registerPlugin({ name: 'drop-first', priority: -10, onSelectTasks: async (list) => list.slice(1) })
+
+    expect(await runner.selectTasks(tasks)).toEqual([{ id: 'TASK-2' }, { id: 'TASK-1' }])
+  })
+
+  test('keeps the list when a plugin throws', async () => {
+    const runner = new LoopworkRunner()
+    runner.registerPlugin({ name: 'broken', onSelectTasks: () => { throw new Error('boom') } })
+
+    expect(await runner.selectTasks(tasks)).toEqual(tasks)
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, expect, mock, test } from 'bun:test'
+import type { Task } from '../../src/contracts/task'
+import { claimNextTask, findNextTask, isTaskDue } from '../../src/core/task-selection'
+
+const NOW = Date.now()
+
+function task(id: string, extra: Partial<Task> = {}): Task {
+  return { id, title: id, description: '', status: 'pending', priority: 'medium', ...extra }
+}
+
+function createBackend(pending: Task[], withClaim = true) {
+  return {
+    findNextTask: mock(async () => pending[0] ?? null),
+    getTask: mock(async (id: string) => pending.find(t => t.id === id) ?? null),
+    listPendingTasks: mock(async () => pending),
+    markInProgress: mock(async () => ({ success: true })),
+    claimTask: withClaim
+      ? mock(async (options?: { startFrom?: string }) => pending.find(t => t.id === options?.startFrom) ?? pending[0] ?? null)
+      : undefined,
+  }
+}
+
+describe('isTaskDue', () => {
+  test('treats unscheduled, past and unparseable times as due', () => {
+    expect(isTaskDue(task('A'), NOW)).toBe(true)
+    expect(isTaskDue(task('A', { scheduledFor: new Date(NOW - 1000).toISOString() }), NOW)).toBe(true)
+    expect(isTaskDue(task('A', { scheduledFor: 'whenever' }), NOW)).toBe(true)
+    expect(isTaskDue(task('A', { scheduledFor: new Date(NOW + 60000).toISOString() }), NOW)).toBe(false)
+  })
+})
+
+describe('findNextTask', () => {
+  test('leaves the choice to the backend without selectors', async () => {
+    const backend = createBackend([task('A'), task('B')])
+
+    expect((await findNextTask(backend, {}))?.id).toBe('A')
+    expect(backend.listPendingTasks).not.toHaveBeenCalled()
+  })
+
+  test('takes the first due task the selector returns', async () => {
+    const backend = createBackend([task('A'), task('LATER', { scheduledFor: new Date(NOW + 60000).toISOString() }), task('B')])
+    const selectTasks = mock(async (tasks: Task[]) => [...tasks].reverse())
+
+    expect((await findNextTask(backend, { feature: 'x' }, selectTasks))?.id).toBe('B')
+    expect(selectTasks.mock.calls[0][0].map(t => t.id)).toEqual(['A', 'B'])
+    expect(backend.listPendingTasks).toHaveBeenCalledWith({ feature: 'x' })
+  })
+
+  test('never offers excluded tasks to the selector', async () => {
+    const backend = createBackend([task('A'), task('B')])
+    const selectTasks = mock(async (tasks: Task[]) => tasks)
+
+    expect((await findNextTask(backend, { exclude: ['A'] }, selectTasks))?.id).toBe('B')
+    expect(selectTasks.mock.calls[0][0].map(t => t.id)).toEqual(['B'])
+  })
+
+  test('finds nothing when the selector keeps nothing', async () => {
+    const backend = createBackend([task('A')])
+
+    expect(await findNextTask(backend, {}, async () => [])).toBeNull()
+  })
+})
+
+describe('claimNextTask', () => {
+  test('claims the selected task through startFrom', async () => {
+    const backend = createBackend([task('A'), task('B')])
+
+    const claimed = await claimNextTask(backend, {}, async (tasks) => [...tasks].reverse())
+
+    expect(claimed?.id).toBe('B')
+    expect(backend.claimTask).toHaveBeenCalledWith({ startFrom: 'B' })
+  })
+
+  test('passes excluded tasks on to the backend', async () => {
+    const backend = createBackend([task('A'), task('B')])
+
+    const claimed = await claimNextTask(backend, { exclude: ['A'] }, async (tasks) => tasks)
+
+    expect(claimed?.id).toBe('B')
+    expect(backend.claimTask).toHaveBeenCalledWith({ exclude: ['A'], startFrom: 'B' })
+  })
+
+  test('falls back to find and mark in progress', async () => {
+    const backend = createBackend([task('A')], false)
+
+    expect((await claimNextTask(backend, {}))?.id).toBe('A')
+    expect(backend.markInProgress).toHaveBeenCalledWith('A')
+  })
+
+  test('claims nothing when no task is due', async () => {
+    const backend = createBackend([task('LATER', { scheduledFor: new Date(NOW + 60000).toISOString() })])
+
+    expect(await claimNextTask(backend, {}, async (tasks) => tasks)).toBeNull()
+    expect(backend.claimTask).not.toHaveBeenCalled()
+  })
+})
@@ -1,14 +1,21 @@
-import { describe, test, expect, mock, beforeEach, afterEach } from 'bun:test'
+import { describe, test, expect, mock, beforeEach, afterEach, afterAll } from 'bun:test'
 import { createGitAutoCommitPlugin, type GitAutoCommitOptions } from '@loopwork-ai/plugin-git-autocommit'
 import type { TaskContext, PluginTaskResult } from '../src/contracts/plugin'
+import * as childProcess from 'child_process'
 import { execSync } from 'child_process'
 
-// Mock execSync
+// Mock execSync; module mocks outlive this file, so restore the real module after it
+const realChildProcess = { ...childProcess }
 const mockExecSync = mock(() => '')
 mock.module('child_process', () => ({
+  ...realChildProcess,
   execSync: mockExecSync,
 }))
 
+afterAll(() => {
+  mock.module('child_process', () => realChildProcess)
+})
+
 describe('Git Auto-Commit Plugin', () => {
   beforeEach(() => {
     mockExecSync.mockClear()
@@ -2,13 +2,17 @@
  * Unit tests for ParallelRunner
  */
 
-import { describe, test, expect, beforeEach, afterEach, mock } from 'bun:test'
+import { describe, test, expect, beforeEach, afterEach, mock, spyOn } from 'bun:test'
 import fs from 'fs'
 import path from 'path'
 import { ParallelRunner, type ParallelRunnerOptions } from '../src/core/parallel-runner'
 import type { TaskBackend, Task, FindTaskOptions, UpdateResult } from '../src/backends/types'
 import type { ICliExecutor } from '../src/contracts/executor'
 import type { Config } from '../src/core/config'
+import * as git from '../src/utils/git'
+import { takeSnapshot, type GitSnapshot } from '../src/utils/git-snapshots'
+import { logger } from '../src/core/utils'
+import { BudgetSkipError } from '@loopwork-ai/executor'
 
 // Mock task data
 const createMockTask = (id: string, status: 'pending' | 'in-progress' | 'completed' | 'failed' = 'pending'): Task => ({
@@ -30,7 +34,7 @@ function createMockBackend(tasks: Task[]): TaskBackend & { claimedTasks: string[
 
     async claimTask(options?: FindTaskOptions): Promise<Task | null> {
       for (const [id, task] of taskMap) {
-        if (task.status === 'pending') {
+        if (task.status === 'pending' && !options?.exclude?.includes(id)) {
           task.status = 'in-progress'
           claimedTasks.push(id)
           return { ...task }
@@ -611,6 +615,174 @@ describe('ParallelRunner', () => {
     })
   })
 
+  describe('Skipped Tasks', () => {
+    test('should move on to the next task after a budget skip', async () => {
+      const backend = createMockBackend([createMockTask('TASK-001'), createMockTask('TASK-002')])
+      const cliExecutor = createMockCliExecutor()
+      const executeTask = cliExecutor.executeTask.bind(cliExecutor)
+      cliExecutor.executeTask = async (task, prompt, outputFile, timeout) => {
+        if (task.id === 'TASK-001') throw new BudgetSkipError(task.id, [], 1)
+        return executeTask(task, prompt, outputFile, timeout)
+      }
+
+      const runner = new ParallelRunner({
+        config: createTestConfig({ parallel: 1 }),
+        backend,
+        cliExecutor,
+        logger: createMockLogger(),
+        pluginRegistry: createMockPluginRegistry(),
+        buildPrompt: (task) => `Test prompt for ${task.id}`,
+      })
+
+      const stats = await runner.run()
+
+      expect(backend.claimedTasks).toEqual(['TASK-001', 'TASK-002'])
+      expect(stats.completed).toBe(1)
+      expect((await backend.getTask('TASK-001'))?.status).toBe('pending')
+    })
+
+    test('should run the next task after a plugin skips one', async () => {
+      const backend = createMockBackend([createMockTask('TASK-001'), createMockTask('TASK-002')])
+      const runDecisionHook = mock(async (_hookName: string, context: { task: Task }) =>
+        context.task.id === 'TASK-001'
+          ? { action: 'skip' as const, reason: 'Not today', plugin: 'gate' }
+          : { action: 'proceed' as const }
+      )
+
+      const runner = new ParallelRunner({
+        config: createTestConfig({ parallel: 1 }),
+        backend,
+        cliExecutor: createMockCliExecutor(),
+        logger: createMockLogger(),
+        pluginRegistry: createMockPluginRegistry(),
+        buildPrompt: (task) => `Test prompt for ${task.id}`,
+        runDecisionHook,
+      })
+
+      const stats = await runner.run()
+
+      expect(backend.claimedTasks).toEqual(['TASK-001', 'TASK-002'])
+      expect(stats.completed).toBe(1)
+      expect((await backend.getTask('TASK-001'))?.status).toBe('pending')
+      expect((await backend.getTask('TASK-002'))?.status).toBe('completed')
+    })
+  })
+
+  describe('Worktree Isolation', () => {
+    function createMockWorktrees(statuses: Record<string, 'merged' | 'conflict'>) {
+      return {
+        integrate: mock(async (taskId: string) => ({
+          taskId,
+          branch: `loopwork/${taskId}`,
+          strategy: 'merge' as const,
+          status: statuses[taskId] ?? 'merged',
+          conflicts: statuses[taskId] === 'conflict' ? ['src/shared.ts'] : [],
+        })),
+        discard: mock(async () => {}),
+        acquire: mock(async () => ({})),
+        release: mock(async () => {}),
+        getWorktreePath: mock(() => undefined as string | undefined),
+      }
+    }
+
+    test('should start tasks in their worktree', async () => {
+      const backend = createMockBackend([createMockTask('TASK-001')])
+      const worktrees = createMockWorktrees({})
+      worktrees.getWorktreePath.mockImplementation(() => '/repo/.loopwork/worktrees/TASK-001')
+      const workDirs: Array<string | undefined> = []
+
+      const runner = new ParallelRunner({
+        config: createTestConfig({ parallel: 1 }),
+        backend,
+        cliExecutor: createMockCliExecutor(),
+        logger: createMockLogger(),
+        pluginRegistry: createMockPluginRegistry(),
+        buildPrompt: (task) => `Test prompt for ${task.id}`,
+        onTaskStart: async (context) => { workDirs.push(context.workDir) },
+        worktrees: worktrees as unknown as ParallelRunnerOptions['worktrees'],
+      })
+
+      await runner.run()
+
+      expect(worktrees.acquire).toHaveBeenCalledWith({ options: { taskId: 'TASK-001', workerId: 0 } })
+      expect(workDirs).toEqual(['/repo/.loopwork/worktrees/TASK-001'])
+    })
+
+    test('should not snapshot the shared checkout when parallel workers have no worktrees', async () => {
+      const backend = createMockBackend([createMockTask('TASK-001'), createMockTask('TASK-002')])
+      const isGitRepo = spyOn(git, 'isGitRepo').mockReturnValue(false)
+      const warn = spyOn(logger, 'warn').mockImplementation(() => {})
+      const snapshots: Array<GitSnapshot | null> = []
+
+      const runner = new ParallelRunner({
+        config: createTestConfig({ parallel: 2 }),
+        backend,
+        cliExecutor: createMockCliExecutor(),
+        logger: createMockLogger(),
+        pluginRegistry: createMockPluginRegistry(),
+        buildPrompt: (task) => `Test prompt for ${task.id}`,
+        onTaskStart: async (context) => { snapshots.push(await takeSnapshot(context)) },
+      })
+
+      await runner.run()
+      const warnings = warn.mock.calls.map(([message]) => String(message))
+      const gitChecked = isGitRepo.mock.calls.length
+      isGitRepo.mockRestore()
+      warn.mockRestore()
+
+      expect(snapshots).toEqual([null, null])
+      expect(gitChecked).toBe(0)
+      expect(warnings.filter(message => message.includes('Skipping snapshot'))).toHaveLength(2)
+    })
+
+    test('should merge successful tasks and block tasks with conflicts', async () => {
+      const backend = createMockBackend([createMockTask('TASK-001'), createMockTask('TASK-002')])
+      const updateTask = mock(async () => ({ success: true }))
+      backend.updateTask = updateTask
+      const worktrees = createMockWorktrees({ 'TASK-002': 'conflict' })
+
+      const runner = new ParallelRunner({
+        config: createTestConfig({ parallel: 1 }),
+        backend,
+        cliExecutor: createMockCliExecutor(),
+        logger: createMockLogger(),
+        pluginRegistry: createMockPluginRegistry(),
+        buildPrompt: (task) => `Test prompt for ${task.id}`,
+        worktrees: worktrees as unknown as ParallelRunnerOptions['worktrees'],
+      })
+
+      const stats = await runner.run()
+
+      expect(stats.completed).toBe(1)
+      expect(worktrees.integrate).toHaveBeenCalledTimes(2)
+      expect(updateTask).toHaveBeenCalledWith('TASK-002', {
+        status: 'blocked',
+        metadata: expect.objectContaining({ worktreeBranch: 'loopwork/TASK-002', conflicts: ['src/shared.ts'] }),
+      })
+      expect((await backend.getTask('TASK-001'))?.status).toBe('completed')
+    })
+
+    test('should discard the worktree of failed tasks', async () => {
+      const backend = createMockBackend([createMockTask('TASK-001')])
+      const worktrees = createMockWorktrees({})
+
+      const runner = new ParallelRunner({
+        config: createTestConfig({ parallel: 1 }),
+        backend,
+        cliExecutor: createMockCliExecutor(new Map([['TASK-001', 1]])),
+        logger: createMockLogger(),
+        pluginRegistry: createMockPluginRegistry(),
+        buildPrompt: (task) => `Test prompt for ${task.id}`,
+        worktrees: worktrees as unknown as ParallelRunnerOptions['worktrees'],
+      })
+
+      await runner.run()
+
+      expect(worktrees.integrate).not.toHaveBeenCalled()
+      expect(worktrees.discard).toHaveBeenCalledWith('TASK-001')
+    })
+  })
+
   describe('Self-Healing', () => {
     // Create a failing executor that includes error messages in output
     function createFailingExecutor(errorMessage: string): ICliExecutor {
@@ -93,6 +93,16 @@ describe('Git Utilities & Snapshots', () => {
       expect(snapshot?.stashRef).toBe('stash@{0}')
     })
 
+    test('takeSnapshot should snapshot a parallel task in its own worktree', async () => {
+      mockExecSync.mockImplementation((cmd: string) => {
+        if (cmd.includes('git rev-parse HEAD')) return 'basehash'
+        return ''
+      })
+
+      const snapshot = await snapshots.takeSnapshot({ ...mockContext, config: { parallel: 2 }, workDir: '/repo/.loopwork/worktrees/TASK-001' })
+      expect(snapshot?.workDir).toBe('/repo/.loopwork/worktrees/TASK-001')
+    })
+
     test('rollbackToSnapshot should reset and apply stash', async () => {
       const snapshot: snapshots.GitSnapshot = {
         id: 'snap1',
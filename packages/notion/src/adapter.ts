@@ -26,7 +26,7 @@ export class NotionTaskAdapter implements BackendPlugin {
   }
 
   async findNextTask(options?: FindTaskOptions): Promise<Task | null> {
-    const tasks = await this.listPendingTasks(options)
+    const tasks = (await this.listPendingTasks(options)).filter(t => !options?.exclude?.includes(t.id))
     return tasks[0] || null
   }
 
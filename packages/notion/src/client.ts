@@ -1,4 +1,5 @@
 import { Client } from "@notionhq/client";
+import type { NotionEditedSinceFilter, NotionPage, NotionPropertyInput } from "./types";
 
 export interface QueryOptions {
   status?: {
@@ -52,6 +53,51 @@ export class NotionClient {
     }
   }
 
+  /**
+   * Query every page edited after `since` (all pages when omitted),
+   * following pagination cursors
+   */
+  async queryEditedSince(since?: string): Promise<NotionPage[]> {
+    try {
+      const filter: NotionEditedSinceFilter | undefined = since
+        ? {
+            timestamp: "last_edited_time",
+            last_edited_time: {
+              after: since,
+            },
+          }
+        : undefined;
+
+      const results: NotionPage[] = [];
+      let cursor: string | undefined;
+      do {
+        const response = await this.notion.databases.query({
+          database_id: this.databaseId,
+          filter,
+          start_cursor: cursor,
+          page_size: 100,
+        });
+        results.push(...(response.results as NotionPage[]));
+        cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
+      } while (cursor);
+
+      return results;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async createTask(properties: NotionPropertyInput): Promise<NotionPage> {
+    try {
+      return (await this.notion.pages.create({
+        parent: { database_id: this.databaseId },
+        properties,
+      })) as NotionPage;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
   async updateTask(pageId: string, properties: any) {
     try {
       return await this.notion.pages.update({
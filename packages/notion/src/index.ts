@@ -2,3 +2,4 @@ export * from "./client.js";
 export * from "./types.js";
 export * from "./adapter.js";
 export * from "./plugin.js";
+export * from "./sync.js";
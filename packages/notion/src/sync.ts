@@ -0,0 +1,108 @@
+import type { ISyncRemote, RemoteSyncItem, SyncFieldMapping } from '@loopwork-ai/contracts'
+import { NotionClient } from './client'
+import type { NotionBackendConfig, NotionPage, NotionPropertyInput, NotionPropertyValue } from './types'
+
+export interface NotionSyncRemoteConfig extends NotionBackendConfig {
+  /** Remote name used for the sync state file (default: notion) */
+  name?: string
+}
+
+/**
+ * Notion database as a two-way sync remote
+ *
+ * Remote fields are keyed by property name (Title, Description, Status,
+ * Priority by default). Status is a Notion status property and Priority
+ * a select property, matching NotionTaskAdapter.
+ */
+export class NotionSyncRemote implements ISyncRemote {
+  readonly name: string
+  readonly defaultMappings: SyncFieldMapping[]
+  private client: NotionClient
+  private props: { title: string; description: string; status: string; priority: string }
+
+  constructor(config: NotionSyncRemoteConfig) {
+    this.name = config.name || 'notion'
+    this.client = new NotionClient(config.apiKey, config.databaseId)
+    this.props = {
+      title: config.properties?.title || 'Title',
+      description: config.properties?.description || 'Description',
+      status: config.properties?.status || 'Status',
+      priority: config.properties?.priority || 'Priority',
+    }
+
+    const statusValues = config.statusValues || {}
+    this.defaultMappings = [
+      { local: 'title', remote: this.props.title },
+      { local: 'description', remote: this.props.description },
+      {
+        local: 'status',
+        remote: this.props.status,
+        values: {
+          pending: statusValues.pending || 'Pending',
+          'in-progress': statusValues.inProgress || 'In Progress',
+          completed: statusValues.completed || 'Completed',
+          failed: statusValues.failed || 'Failed',
+          quarantined: statusValues.quarantined || 'Quarantined',
+        },
+      },
+      {
+        local: 'priority',
+        remote: this.props.priority,
+        values: { high: 'High', medium: 'Medium', low: 'Low', background: 'Low' },
+      },
+    ]
+  }
+
+  async listItems(since?: string): Promise<RemoteSyncItem[]> {
+    const pages = await this.client.queryEditedSince(since)
+    return pages.map(page => this.toItem(page))
+  }
+
+  async createItem(fields: Record<string, unknown>): Promise<RemoteSyncItem> {
+    const page = await this.client.createTask(this.toProperties(fields))
+    return this.toItem(page)
+  }
+
+  async updateItem(id: string, fields: Record<string, unknown>): Promise<RemoteSyncItem> {
+    const page = await this.client.updateTask(id, this.toProperties(fields))
+    return this.toItem(page as NotionPage)
+  }
+
+  private toProperties(fields: Record<string, unknown>): NotionPropertyInput {
+    const properties: NotionPropertyInput = {}
+    const text = (value: unknown) => [{ type: 'text' as const, text: { content: String(value ?? '') } }]
+
+    for (const [key, value] of Object.entries(fields)) {
+      if (key === this.props.title) {
+        properties[key] = { title: text(value) }
+      } else if (key === this.props.status) {
+        properties[key] = { status: { name: String(value) } }
+      } else if (key === this.props.priority) {
+        properties[key] = { select: value ? { name: String(value) } : null }
+      } else {
+        properties[key] = { rich_text: text(value) }
+      }
+    }
+    return properties
+  }
+
+  private toItem(page: NotionPage): RemoteSyncItem {
+    const props = page.properties
+    return {
+      id: page.id,
+      updatedAt: page.last_edited_time,
+      fields: {
+        [this.props.title]: this.getText(props[this.props.title]),
+        [this.props.description]: this.getText(props[this.props.description]),
+        [this.props.status]: props[this.props.status]?.status?.name,
+        [this.props.priority]: props[this.props.priority]?.select?.name,
+      },
+    }
+  }
+
+  private getText(prop: NotionPropertyValue | undefined): string {
+    const richText = prop?.rich_text || prop?.title
+    if (!Array.isArray(richText)) return ''
+    return richText.map(t => t.plain_text ?? t.text?.content ?? '').join('')
+  }
+}
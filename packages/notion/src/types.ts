@@ -18,3 +18,49 @@ export interface NotionBackendConfig {
     quarantined?: string;
   };
 }
+
+/**
+ * Text run of a Notion title or rich_text property
+ */
+export interface NotionRichText {
+  plain_text?: string;
+  text?: { content: string };
+}
+
+/**
+ * The parts of a page property value the sync remote reads
+ */
+export interface NotionPropertyValue {
+  title?: NotionRichText[];
+  rich_text?: NotionRichText[];
+  status?: { name: string } | null;
+  select?: { name: string } | null;
+}
+
+/**
+ * Property values written to a page, keyed by property name
+ */
+export type NotionPropertyInput = Record<
+  string,
+  | { title: { type: "text"; text: { content: string } }[] }
+  | { rich_text: { type: "text"; text: { content: string } }[] }
+  | { status: { name: string } }
+  | { select: { name: string } | null }
+>;
+
+/**
+ * Database page as returned by the query and page endpoints
+ */
+export interface NotionPage {
+  id: string;
+  last_edited_time: string;
+  properties: Record<string, NotionPropertyValue | undefined>;
+}
+
+/**
+ * Database query filter on the pages' last edit time
+ */
+export interface NotionEditedSinceFilter {
+  timestamp: "last_edited_time";
+  last_edited_time: { after: string };
+}
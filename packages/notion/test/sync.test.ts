@@ -0,0 +1,85 @@
+import { expect, test, describe, beforeEach, mock } from 'bun:test';
+
+const mockQuery = mock((_args: any): Promise<any> => Promise.resolve({ results: [], has_more: false }));
+const mockCreate = mock((args: any) => Promise.resolve({ id: 'page-new', last_edited_time: '2026-03-01T10:00:00.000Z', properties: args.properties }));
+const mockUpdate = mock((args: any) => Promise.resolve({ id: args.page_id, last_edited_time: '2026-03-01T11:00:00.000Z', properties: args.properties }));
+
+mock.module("@notionhq/client", () => {
+  return {
+    Client: class {
+      databases = { query: mockQuery };
+      pages = { create: mockCreate, update: mockUpdate, retrieve: mock() };
+      blocks = { children: { append: mock() } };
+    },
+  };
+});
+
+import { NotionSyncRemote } from '../src/sync';
+
+function page(id: string, title: string, status: string) {
+  return {
+    id,
+    last_edited_time: '2026-03-01T09:00:00.000Z',
+    properties: {
+      Title: { title: [{ plain_text: title }] },
+      Description: { rich_text: [{ plain_text: 'Details' }] },
+      Status: { status: { name: status } },
+      Priority: { select: { name: 'High' } },
+    },
+  };
+}
+
+describe('NotionSyncRemote', () => {
+  const remote = () => new NotionSyncRemote({ apiKey: 'key', databaseId: 'db-1' });
+
+  beforeEach(() => {
+    mockQuery.mockClear();
+    mockCreate.mockClear();
+    mockUpdate.mockClear();
+  });
+
+  test('lists pages across result pages', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ results: [page('p1', 'One', 'Pending')], has_more: true, next_cursor: 'c2' })
+      .mockResolvedValueOnce({ results: [page('p2', 'Two', 'Completed')], has_more: false });
+
+    const items = await remote().listItems();
+
+    expect(items.map(i => i.id)).toEqual(['p1', 'p2']);
+    expect(items[1].fields).toEqual({ Title: 'Two', Description: 'Details', Status: 'Completed', Priority: 'High' });
+    expect(mockQuery.mock.calls[1][0].start_cursor).toBe('c2');
+  });
+
+  test('filters by last edited time when given a cursor', async () => {
+    await remote().listItems('2026-03-01T00:00:00.000Z');
+
+    expect(mockQuery.mock.calls[0][0].filter).toEqual({
+      timestamp: 'last_edited_time',
+      last_edited_time: { after: '2026-03-01T00:00:00.000Z' },
+    });
+  });
+
+  test('writes fields as typed Notion properties', async () => {
+    const item = await remote().createItem({ Title: 'New', Description: 'Body', Status: 'In Progress', Priority: 'Low' });
+
+    expect(mockCreate.mock.calls[0][0]).toEqual({
+      parent: { database_id: 'db-1' },
+      properties: {
+        Title: { title: [{ type: 'text', text: { content: 'New' } }] },
+        Description: { rich_text: [{ type: 'text', text: { content: 'Body' } }] },
+        Status: { status: { name: 'In Progress' } },
+        Priority: { select: { name: 'Low' } },
+      },
+    });
+    expect(item.fields.Title).toBe('New');
+  });
+
+  test('updates only the given properties', async () => {
+    await remote().updateItem('p1', { Status: 'Completed' });
+
+    expect(mockUpdate.mock.calls[0][0]).toEqual({
+      page_id: 'p1',
+      properties: { Status: { status: { name: 'Completed' } } },
+    });
+  });
+});
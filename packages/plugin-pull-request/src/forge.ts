@@ -0,0 +1,168 @@
+/**
+ * Forges
+ *
+ * Hosts that pull requests are opened on. GitHub is built in; LocalForge
+ * records pull requests in memory for tests and dry runs.
+ */
+
+export const DEFAULT_GITHUB_API_URL = 'https://api.github.com'
+
+export interface PullRequestInput {
+  title: string
+  body: string
+  /** Branch with the task's changes */
+  head: string
+  /** Branch the pull request targets */
+  base: string
+  draft?: boolean
+  labels?: string[]
+}
+
+export interface PullRequest {
+  number: number
+  url: string
+}
+
+/**
+ * Opens pull/merge requests on a code host
+ */
+export interface Forge {
+  readonly name: string
+  createPullRequest(input: PullRequestInput): Promise<PullRequest>
+  /** Find an open pull request for a branch, so reruns don't open duplicates */
+  findPullRequest?(head: string): Promise<PullRequest | null>
+}
+
+export interface GitHubForgeOptions {
+  /** owner/repo (default: GITHUB_REPOSITORY or detected from the git remote) */
+  repo?: string
+  /** API token (default: GITHUB_TOKEN) */
+  token?: string
+  /** REST API root (default: https://api.github.com, GHES: https://host/api/v3) */
+  apiUrl?: string
+}
+
+interface RestPullRequest {
+  number: number
+  html_url: string
+}
+
+/**
+ * Parse owner/repo from a GitHub remote URL
+ *
+ * @example
+ * parseGitHubRemote('git@github.com:acme/app.git') // 'acme/app'
+ * parseGitHubRemote('https://github.com/acme/app') // 'acme/app'
+ */
+export function parseGitHubRemote(remoteUrl: string): string | null {
+  const match = remoteUrl.trim().match(/[:/]([^/:]+\/[^/]+?)(?:\.git)?\/?$/)
+  return match ? match[1] : null
+}
+
+/**
+ * Opens pull requests through the GitHub REST API
+ */
+export class GitHubForge implements Forge {
+  readonly name = 'github'
+  private repo?: string
+  private token?: string
+  private apiUrl: string
+
+  constructor(options: GitHubForgeOptions = {}) {
+    this.repo = options.repo || process.env.GITHUB_REPOSITORY
+    this.token = options.token || process.env.GITHUB_TOKEN
+    this.apiUrl = (options.apiUrl || DEFAULT_GITHUB_API_URL).replace(/\/+$/, '')
+  }
+
+  /**
+   * Fill in the repository from the remote URL when none was configured
+   */
+  useRemote(remoteUrl: string): void {
+    if (!this.repo) {
+      this.repo = parseGitHubRemote(remoteUrl) ?? undefined
+    }
+  }
+
+  async createPullRequest(input: PullRequestInput): Promise<PullRequest> {
+    const pr = await this.request<RestPullRequest>('POST', '/pulls', {
+      title: input.title,
+      body: input.body,
+      head: input.head,
+      base: input.base,
+      draft: input.draft ?? false,
+    })
+
+    if (input.labels && input.labels.length > 0) {
+      await this.request('POST', `/issues/${pr.number}/labels`, { labels: input.labels })
+    }
+
+    return { number: pr.number, url: pr.html_url }
+  }
+
+  async findPullRequest(head: string): Promise<PullRequest | null> {
+    const owner = this.repoPath().split('/')[0]
+    const prs = await this.request<RestPullRequest[]>(
+      'GET',
+      `/pulls?state=open&head=${encodeURIComponent(`${owner}:${head}`)}`
+    )
+    return prs.length > 0 ? { number: prs[0].number, url: prs[0].html_url } : null
+  }
+
+  private repoPath(): string {
+    if (!this.repo) {
+      throw new Error('GitHub repository not configured: set the forge repo option or GITHUB_REPOSITORY=owner/repo')
+    }
+    return this.repo
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    if (!this.token) {
+      throw new Error('GITHUB_TOKEN is not set: pull requests need a token with the repo scope')
+    }
+
+    const response = await fetch(`${this.apiUrl}/repos/${this.repoPath()}${path}`, {
+      method,
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${this.token}`,
+        'User-Agent': 'loopwork',
+        'X-GitHub-Api-Version': '2022-11-28',
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    })
+
+    if (!response.ok) {
+      let detail = ''
+      try {
+        const data = await response.json() as { message?: string }
+        detail = data.message ? `: ${data.message}` : ''
+      } catch {
+        // Body is not JSON
+      }
+      throw new Error(`GitHub API request failed with status ${response.status}${detail}`)
+    }
+
+    return await response.json() as T
+  }
+}
+
+/**
+ * Records pull requests in memory instead of opening them
+ */
+export class LocalForge implements Forge {
+  readonly name = 'local'
+  readonly pullRequests: Array<PullRequestInput & PullRequest> = []
+
+  async createPullRequest(input: PullRequestInput): Promise<PullRequest> {
+    const number = this.pullRequests.length + 1
+    const pr = { ...input, number, url: `local://pull/${number}` }
+    this.pullRequests.push(pr)
+    return { number, url: pr.url }
+  }
+
+  async findPullRequest(head: string): Promise<PullRequest | null> {
+    const pr = this.pullRequests.find(p => p.head === head)
+    return pr ? { number: pr.number, url: pr.url } : null
+  }
+}
@@ -0,0 +1,395 @@
+/**
+ * Pull Request Plugin
+ *
+ * Commits each completed task's changes to its own branch and opens a
+ * pull request for review instead of leaving them on the working branch
+ */
+
+import type { LoopworkPlugin, TaskContext, PluginTaskResult, TaskBackend } from '@loopwork-ai/contracts'
+import { logger } from '@loopwork-ai/common'
+import { execFileSync } from 'child_process'
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { GitHubForge, type Forge, type PullRequest } from './forge'
+
+export { GitHubForge, LocalForge, parseGitHubRemote, DEFAULT_GITHUB_API_URL } from './forge'
+export type { Forge, PullRequest, PullRequestInput, GitHubForgeOptions } from './forge'
+
+interface LoopworkConfig {
+  plugins?: LoopworkPlugin[]
+  [key: string]: any
+}
+
+type ConfigWrapper = (config: LoopworkConfig) => LoopworkConfig
+
+/**
+ * Cost of a task as reported in the pull request body
+ */
+export interface TaskCost {
+  cost: number
+  inputTokens: number
+  outputTokens: number
+}
+
+/**
+ * Verification result as passed by the acceptance gate
+ */
+interface VerificationResult {
+  criterion: string
+  check: string
+  required: boolean
+  status: 'passed' | 'failed' | 'skipped'
+}
+
+export interface PullRequestOptions {
+  enabled?: boolean
+  /** Where pull requests are opened (default: GitHub) */
+  forge?: Forge
+  /** Remote branches are pushed to (default: 'origin') */
+  remote?: string
+  /** Push the branch before opening the pull request (default: true) */
+  push?: boolean
+  /** Branch pull requests target (default: the branch checked out when the task completes) */
+  baseBranch?: string
+  /** Prefix of task branches (default: 'loopwork/') */
+  branchPrefix?: string
+  /** Open pull requests as drafts */
+  draft?: boolean
+  labels?: string[]
+  /** Look up a task's cost (default: read from the cost tracker) */
+  getTaskCost?: (taskId: string, context: TaskContext) => TaskCost | null | Promise<TaskCost | null>
+}
+
+/**
+ * Lowercase, dash-separated form of a task title for branch names
+ */
+export function slugify(text: string, maxLength = 40): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, maxLength)
+    .replace(/^-+|-+$/g, '')
+}
+
+export function taskBranchName(task: { id: string; title?: string }, prefix = 'loopwork/'): string {
+  const slug = slugify(task.title || '')
+  return `${prefix}${task.id}${slug ? `-${slug}` : ''}`
+}
+
+export function createPullRequestPlugin(options: PullRequestOptions = {}): LoopworkPlugin {
+  const {
+    enabled = true,
+    remote = 'origin',
+    push = true,
+    branchPrefix = 'loopwork/',
+    draft = false,
+    labels = [],
+  } = options
+  const forge = options.forge ?? new GitHubForge()
+  const getTaskCost = options.getTaskCost ?? readTrackedCost
+  let backend: TaskBackend | null = null
+  let warnedParallel = false
+  // Paths that were already dirty when each task started, with their content hashes
+  const taskSnapshots = new Map<string, Map<string, string | null>>()
+
+  return {
+    name: 'pull-request',
+    classification: 'enhancement',
+
+    onBackendReady(ready: TaskBackend) {
+      backend = ready
+    },
+
+    onTaskStart(context: TaskContext) {
+      if (!enabled || context.workerId !== undefined) return
+      // Keep the first snapshot, so a retry doesn't count the earlier attempt's changes as the user's
+      if (taskSnapshots.has(context.task.id)) return
+
+      const cwd = projectRoot(context)
+      if (!isGitRepo(cwd)) return
+      try {
+        taskSnapshots.set(context.task.id, dirtyFiles(cwd))
+      } catch (error) {
+        logger.debug(`[pull-request] Failed to snapshot the working tree: ${error}`)
+      }
+    },
+
+    onTaskFailed(context: TaskContext) {
+      taskSnapshots.delete(context.task.id)
+    },
+
+    async onTaskComplete(context: TaskContext, result: PluginTaskResult) {
+      const before = taskSnapshots.get(context.task.id)
+      taskSnapshots.delete(context.task.id)
+      if (!enabled || !result.success) return
+
+      // Parallel workers share one checkout, so one task's changes can't be told apart from another's
+      if (context.workerId !== undefined) {
+        if (!warnedParallel) {
+          warnedParallel = true
+          logger.warn('[pull-request] Pull requests are not opened for tasks run by parallel workers; run without --parallel to get one per task')
+        }
+        logger.info(`[pull-request] No pull request for ${context.task.id}: it ran on parallel worker ${context.workerId}`)
+        return
+      }
+
+      const cwd = projectRoot(context)
+      if (!isGitRepo(cwd)) {
+        logger.debug('[pull-request] Not a git repository, skipping')
+        return
+      }
+
+      // Without a snapshot the task's changes can't be told apart from the user's
+      if (!before) {
+        logger.warn(`[pull-request] No pull request for ${context.task.id}: the working tree wasn't captured when it started`)
+        return
+      }
+
+      // Only what the task itself changed goes in the pull request: not the user's own
+      // uncommitted work, and not the task backend's or loopwork's state files
+      const stateFiles = statePaths(context, cwd)
+      const changed = [...dirtyFiles(cwd)]
+        .filter(([file, hash]) => before.get(file) !== hash && !stateFiles.some(state => isWithin(file, state)))
+        .map(([file]) => file)
+      if (changed.length === 0) {
+        logger.debug(`[pull-request] No changes for ${context.task.id}, skipping`)
+        return
+      }
+
+      const base = options.baseBranch ?? git(cwd, 'rev-parse', '--abbrev-ref', 'HEAD')
+      if (base === 'HEAD') {
+        logger.warn('[pull-request] HEAD is detached, skipping pull request')
+        return
+      }
+
+      const branch = taskBranchName(context.task, branchPrefix)
+      try {
+        // Built in a separate index, so the checkout never switches branches and the user's staging is untouched
+        commitToBranch(cwd, branch, changed, commitMessage(context))
+        // The changes now live on the task branch; paths the user had already touched are left as they are
+        restorePaths(cwd, changed.filter(file => !before.has(file)))
+
+        if (push) {
+          git(cwd, 'push', '--force-with-lease', '-u', remote, branch)
+        }
+        if (forge instanceof GitHubForge) {
+          forge.useRemote(remoteUrl(cwd, remote))
+        }
+
+        const cost = await lookupCost(getTaskCost, context)
+        const pr = await openPullRequest(forge, {
+          title: `${context.task.id}: ${context.task.title}`,
+          body: pullRequestBody(context, result, cost),
+          head: branch,
+          base,
+          draft,
+          labels,
+        })
+        logger.info(`[pull-request] Opened ${pr.url} for task ${context.task.id}`)
+
+        if (backend?.addComment) {
+          await backend.addComment(context.task.id, `Pull request: ${pr.url}`)
+        }
+      } catch (error) {
+        logger.error(`[pull-request] Failed to open pull request for ${context.task.id}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    },
+  }
+}
+
+async function openPullRequest(forge: Forge, input: Parameters<Forge['createPullRequest']>[0]): Promise<PullRequest> {
+  const existing = await forge.findPullRequest?.(input.head)
+  return existing ?? forge.createPullRequest(input)
+}
+
+async function lookupCost(getTaskCost: NonNullable<PullRequestOptions['getTaskCost']>, context: TaskContext): Promise<TaskCost | null> {
+  try {
+    return await getTaskCost(context.task.id, context)
+  } catch (error) {
+    logger.debug(`[pull-request] Cost lookup failed: ${error}`)
+    return null
+  }
+}
+
+async function readTrackedCost(taskId: string, context: TaskContext): Promise<TaskCost | null> {
+  const { CostTracker } = await import('@loopwork-ai/cost-tracking')
+  const summary = new CostTracker(projectRoot(context), context.namespace).getTaskSummary(taskId)
+  if (summary.taskCount === 0) return null
+  return {
+    cost: summary.totalCost,
+    inputTokens: summary.totalInputTokens,
+    outputTokens: summary.totalOutputTokens,
+  }
+}
+
+function projectRoot(context: TaskContext): string {
+  return (context.config as { projectRoot?: string } | undefined)?.projectRoot ?? process.cwd()
+}
+
+function git(cwd: string, ...args: string[]): string {
+  return gitWithEnv(cwd, {}, ...args)
+}
+
+function gitWithEnv(cwd: string, env: Record<string, string>, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, stdio: 'pipe', env: { ...process.env, ...env } }).toString().trim()
+}
+
+/**
+ * Uncommitted files relative to the repository root, with a hash of their
+ * content (null when deleted) so later edits to an already dirty file show
+ */
+function dirtyFiles(cwd: string): Map<string, string | null> {
+  const top = git(cwd, 'rev-parse', '--show-toplevel')
+  const entries = execFileSync('git', ['status', '--porcelain', '-z', '--untracked-files=all'], { cwd: top, stdio: 'pipe' })
+    .toString()
+    .split('\0')
+  const files = new Map<string, string | null>()
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i]
+    if (!entry) continue
+    const file = entry.slice(3)
+    files.set(file, hashFile(path.join(top, file)))
+    // Renames and copies are followed by their source path
+    if (entry[0] === 'R' || entry[0] === 'C') {
+      const source = entries[++i]
+      files.set(source, hashFile(path.join(top, source)))
+    }
+  }
+  return files
+}
+
+function hashFile(file: string): string | null {
+  try {
+    return crypto.createHash('sha1').update(fs.readFileSync(file)).digest('hex')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Files loopwork writes while it runs, relative to the repository root
+ */
+function statePaths(context: TaskContext, cwd: string): string[] {
+  const config = (context.config ?? {}) as { backend?: Record<string, unknown> }
+  const backendFiles = ['tasksFile', 'dbFile']
+    .map(key => config.backend?.[key])
+    .filter((file): file is string => typeof file === 'string')
+  const files = [...backendFiles, '.loopwork']
+  const top = git(cwd, 'rev-parse', '--show-toplevel')
+  return files.map(file => path.relative(top, path.resolve(cwd, file)))
+}
+
+/**
+ * Whether a file is the target, inside it, or one of its companions such as
+ * tasks.json.lock or tasks.db-wal
+ */
+function isWithin(file: string, target: string): boolean {
+  return file.startsWith(target) && /^(?:$|[/.-])/.test(file.slice(target.length))
+}
+
+/**
+ * Point `branch` at a commit of HEAD plus the given files, staged in a
+ * throwaway index so neither the checkout nor the user's index changes
+ */
+function commitToBranch(cwd: string, branch: string, files: string[], message: string): void {
+  const top = git(cwd, 'rev-parse', '--show-toplevel')
+  const indexFile = path.resolve(top, git(top, 'rev-parse', '--git-path', `loopwork-pr-${process.pid}.index`))
+  const env = { GIT_INDEX_FILE: indexFile }
+  try {
+    gitWithEnv(top, env, 'read-tree', 'HEAD')
+    gitWithEnv(top, env, 'add', '-A', '--', ...files)
+    const tree = gitWithEnv(top, env, 'write-tree')
+    // commit-tree runs no hooks, like the --no-verify commits of git-autocommit
+    const commit = git(top, 'commit-tree', tree, '-p', 'HEAD', '-m', message)
+    git(top, 'update-ref', `refs/heads/${branch}`, commit)
+  } finally {
+    fs.rmSync(indexFile, { force: true })
+  }
+}
+
+/**
+ * Put files back as they are in HEAD, removing those HEAD doesn't have
+ */
+function restorePaths(cwd: string, files: string[]): void {
+  if (files.length === 0) return
+  const top = git(cwd, 'rev-parse', '--show-toplevel')
+  const tracked = new Set(git(top, 'ls-tree', '-r', '-z', '--name-only', 'HEAD', '--', ...files).split('\0').filter(Boolean))
+  const inHead = files.filter(file => tracked.has(file))
+  if (inHead.length > 0) {
+    git(top, 'checkout', 'HEAD', '--', ...inHead)
+  }
+  for (const file of files.filter(file => !tracked.has(file))) {
+    git(top, 'rm', '-q', '--cached', '--ignore-unmatch', '--', file)
+    fs.rmSync(path.join(top, file), { force: true })
+  }
+}
+
+function isGitRepo(cwd: string): boolean {
+  try {
+    git(cwd, 'rev-parse', '--is-inside-work-tree')
+    return true
+  } catch {
+    return false
+  }
+}
+
+function remoteUrl(cwd: string, remote: string): string {
+  try {
+    return git(cwd, 'remote', 'get-url', remote)
+  } catch {
+    return ''
+  }
+}
+
+function commitMessage(context: TaskContext): string {
+  const { task } = context
+  return [`feat(${task.id}): ${task.title}`, '', `Task: ${task.id}`, `Iteration: ${context.iteration}`].join('\n')
+}
+
+const STATUS_ICONS: Record<VerificationResult['status'], string> = {
+  passed: '✅',
+  failed: '❌',
+  skipped: '⏭️',
+}
+
+export function pullRequestBody(context: TaskContext, result: PluginTaskResult, cost: TaskCost | null): string {
+  const { task } = context
+  const lines = ['## Task', '', `**${task.id}**: ${task.title}`, '']
+
+  if (task.description) {
+    lines.push(task.description.trim(), '')
+  }
+
+  lines.push('## Execution', '')
+  lines.push(`- CLI: ${context.cli ?? 'unknown'}`)
+  lines.push(`- Model: ${context.modelDisplayName ?? context.model ?? 'unknown'}`)
+  lines.push(`- Duration: ${result.duration.toFixed(1)}s`)
+  if (cost) {
+    lines.push(`- Cost: $${cost.cost.toFixed(4)} (${cost.inputTokens.toLocaleString()} input / ${cost.outputTokens.toLocaleString()} output tokens)`)
+  } else {
+    lines.push('- Cost: not tracked')
+  }
+  lines.push('')
+
+  lines.push('## Verification', '')
+  const verification = (result.acceptance as { results?: VerificationResult[] } | undefined)?.results
+  if (verification && verification.length > 0) {
+    for (const item of verification) {
+      const optional = item.required ? '' : ' (optional)'
+      lines.push(`- ${STATUS_ICONS[item.status]} ${item.criterion}${optional} — ${item.check}`)
+    }
+  } else {
+    lines.push('No success criteria were verified.')
+  }
+  lines.push('', '---', '_Opened by Loopwork_')
+
+  return lines.join('\n')
+}
+
+export function withPullRequests(options: PullRequestOptions = {}): ConfigWrapper {
+  return (config: LoopworkConfig) => ({
+    ...config,
+    plugins: [...(config.plugins || []), createPullRequestPlugin(options)],
+  })
+}
@@ -0,0 +1,231 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test'
+import { execFileSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  createPullRequestPlugin,
+  pullRequestBody,
+  taskBranchName,
+  parseGitHubRemote,
+  LocalForge,
+} from '../src/index'
+import type { TaskContext, PluginTaskResult } from '@loopwork-ai/contracts'
+import { logger } from '@loopwork-ai/common'
+
+const GIT_ENV = {
+  GIT_AUTHOR_NAME: 'Test',
+  GIT_AUTHOR_EMAIL: 'test@example.com',
+  GIT_COMMITTER_NAME: 'Test',
+  GIT_COMMITTER_EMAIL: 'test@example.com',
+}
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, env: { ...process.env, ...GIT_ENV } }).toString().trim()
+}
+
+function makeContext(projectRoot: string, overrides: Partial<TaskContext> = {}): TaskContext {
+  return {
+    task: {
+      id: 'TASK-001',
+      title: 'Add login form',
+      description: 'Build the login form',
+      status: 'completed',
+      priority: 'medium',
+    },
+    config: { projectRoot },
+    iteration: 2,
+    startTime: new Date(),
+    namespace: 'default',
+    cli: 'claude',
+    model: 'sonnet',
+    ...overrides,
+  }
+}
+
+const success: PluginTaskResult = { duration: 12.34, success: true, output: '' }
+
+describe('Pull Request Plugin', () => {
+  let root: string
+  let repo: string
+  let remote: string
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'loopwork-pr-'))
+    repo = path.join(root, 'repo')
+    remote = path.join(root, 'remote.git')
+    fs.mkdirSync(repo)
+    git(root, 'init', '-q', '--bare', remote)
+    git(repo, 'init', '-q', '-b', 'main')
+    git(repo, 'remote', 'add', 'origin', remote)
+    git(repo, 'config', 'user.name', 'Test')
+    git(repo, 'config', 'user.email', 'test@example.com')
+    fs.writeFileSync(path.join(repo, 'README.md'), 'app\n')
+    git(repo, 'add', '-A')
+    git(repo, 'commit', '-q', '-m', 'initial')
+  })
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  test('commits the task to its own branch and opens a pull request', async () => {
+    const forge = new LocalForge()
+    const comments: Array<[string, string]> = []
+    const plugin = createPullRequestPlugin({
+      forge,
+      getTaskCost: () => ({ cost: 0.0123, inputTokens: 1200, outputTokens: 340 }),
+    })
+    await plugin.onBackendReady!({
+      addComment: async (taskId: string, comment: string) => {
+        comments.push([taskId, comment])
+        return { success: true }
+      },
+    })
+    await plugin.onTaskStart!(makeContext(repo))
+    fs.writeFileSync(path.join(repo, 'login.ts'), 'export const login = true\n')
+
+    await plugin.onTaskComplete!(makeContext(repo), success)
+
+    expect(forge.pullRequests).toHaveLength(1)
+    const pr = forge.pullRequests[0]
+    expect(pr).toMatchObject({ head: 'loopwork/TASK-001-add-login-form', base: 'main', title: 'TASK-001: Add login form' })
+    expect(pr.body).toContain('Build the login form')
+    expect(pr.body).toContain('- Model: sonnet')
+    expect(pr.body).toContain('- Cost: $0.0123')
+    expect(comments).toEqual([['TASK-001', 'Pull request: local://pull/1']])
+
+    expect(git(repo, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe('main')
+    expect(fs.existsSync(path.join(repo, 'login.ts'))).toBe(false)
+    expect(git(repo, 'log', '--format=%s', '-1', pr.head)).toBe('feat(TASK-001): Add login form')
+    expect(git(remote, 'branch', '--list', pr.head)).toContain(pr.head)
+  })
+
+  test('skips failed tasks, parallel workers and tasks without changes', async () => {
+    const forge = new LocalForge()
+    const plugin = createPullRequestPlugin({ forge, push: false, getTaskCost: () => null })
+
+    await plugin.onTaskStart!(makeContext(repo))
+    await plugin.onTaskComplete!(makeContext(repo), success)
+    await plugin.onTaskStart!(makeContext(repo))
+    fs.writeFileSync(path.join(repo, 'login.ts'), 'export const login = true\n')
+    await plugin.onTaskComplete!(makeContext(repo), { ...success, success: false })
+    await plugin.onTaskStart!(makeContext(repo, { workerId: 1 }))
+    await plugin.onTaskComplete!(makeContext(repo, { workerId: 1 }), success)
+
+    expect(forge.pullRequests).toHaveLength(0)
+    expect(git(repo, 'branch', '--list', 'loopwork/*')).toBe('')
+  })
+
+  test('warns once that parallel workers get no pull requests', async () => {
+    const warn = spyOn(logger, 'warn').mockImplementation(() => {})
+    const info = spyOn(logger, 'info').mockImplementation(() => {})
+    const plugin = createPullRequestPlugin({ forge: new LocalForge(), push: false, getTaskCost: () => null })
+
+    await plugin.onTaskComplete!(makeContext(repo, { workerId: 1 }), success)
+    await plugin.onTaskComplete!(makeContext(repo, { workerId: 2 }), success)
+
+    expect(warn).toHaveBeenCalledTimes(1)
+    expect(warn.mock.calls[0][0]).toContain('parallel workers')
+    expect(info).toHaveBeenCalledTimes(2)
+    warn.mockRestore()
+    info.mockRestore()
+  })
+
+  test('reuses the open pull request when a task is rerun', async () => {
+    const forge = new LocalForge()
+    const plugin = createPullRequestPlugin({ forge, getTaskCost: () => null })
+
+    await plugin.onTaskStart!(makeContext(repo))
+    fs.writeFileSync(path.join(repo, 'login.ts'), 'one\n')
+    await plugin.onTaskComplete!(makeContext(repo), success)
+    await plugin.onTaskStart!(makeContext(repo))
+    fs.writeFileSync(path.join(repo, 'login.ts'), 'two\n')
+    await plugin.onTaskComplete!(makeContext(repo), success)
+
+    expect(forge.pullRequests).toHaveLength(1)
+    expect(git(repo, 'show', 'loopwork/TASK-001-add-login-form:login.ts')).toBe('two')
+  })
+
+  test('commits only what the task changed and leaves the checkout alone', async () => {
+    const forge = new LocalForge()
+    const plugin = createPullRequestPlugin({ forge, push: false, getTaskCost: () => null })
+    const tasksFile = path.join(repo, '.specs/tasks/tasks.json')
+    fs.mkdirSync(path.dirname(tasksFile), { recursive: true })
+    fs.writeFileSync(tasksFile, '{"tasks":[{"id":"TASK-001","status":"pending"}]}\n')
+    git(repo, 'add', '-A')
+    git(repo, 'commit', '-q', '-m', 'tasks')
+    const context = makeContext(repo, { config: { projectRoot: repo, backend: { type: 'json', tasksFile } } })
+
+    fs.writeFileSync(path.join(repo, 'notes.md'), 'my notes\n')
+    fs.writeFileSync(path.join(repo, 'README.md'), 'app, edited by hand\n')
+    git(repo, 'add', 'README.md')
+    await plugin.onTaskStart!(context)
+    fs.writeFileSync(path.join(repo, 'login.ts'), 'export const login = true\n')
+    fs.writeFileSync(tasksFile, '{"tasks":[{"id":"TASK-001","status":"completed"}]}\n')
+    fs.writeFileSync(`${tasksFile}.lock`, '123')
+    fs.mkdirSync(path.join(repo, '.loopwork'))
+    fs.writeFileSync(path.join(repo, '.loopwork/state.json'), '{}\n')
+
+    await plugin.onTaskComplete!(context, success)
+
+    const head = 'loopwork/TASK-001-add-login-form'
+    expect(forge.pullRequests).toHaveLength(1)
+    expect(git(repo, 'show', '--name-only', '--format=', head)).toBe('login.ts')
+    expect(git(repo, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe('main')
+    expect(fs.existsSync(path.join(repo, 'login.ts'))).toBe(false)
+    expect(fs.readFileSync(tasksFile, 'utf-8')).toContain('"completed"')
+    expect(fs.readFileSync(path.join(repo, 'notes.md'), 'utf-8')).toBe('my notes\n')
+    expect(git(repo, 'diff', '--cached', '--name-only')).toBe('README.md')
+  })
+
+  test('skips tasks whose start was not seen', async () => {
+    const forge = new LocalForge()
+    const warn = spyOn(logger, 'warn').mockImplementation(() => {})
+    const plugin = createPullRequestPlugin({ forge, push: false, getTaskCost: () => null })
+
+    fs.writeFileSync(path.join(repo, 'login.ts'), 'export const login = true\n')
+    await plugin.onTaskComplete!(makeContext(repo), success)
+
+    expect(forge.pullRequests).toHaveLength(0)
+    expect(fs.existsSync(path.join(repo, 'login.ts'))).toBe(true)
+    expect(warn.mock.calls[0][0]).toContain('wasn\'t captured')
+    warn.mockRestore()
+  })
+})
+
+describe('pullRequestBody', () => {
+  test('lists verification results and untracked cost', () => {
+    const body = pullRequestBody(makeContext('/tmp'), {
+      ...success,
+      acceptance: {
+        results: [
+          { criterion: 'Build passes', check: 'command', required: true, status: 'passed' },
+          { criterion: 'Docs updated', check: 'llm', required: false, status: 'skipped' },
+        ],
+      },
+    }, null)
+
+    expect(body).toContain('- ✅ Build passes — command')
+    expect(body).toContain('- ⏭️ Docs updated (optional) — llm')
+    expect(body).toContain('- Cost: not tracked')
+    expect(body).toContain('- Duration: 12.3s')
+  })
+
+  test('notes when no criteria were verified', () => {
+    expect(pullRequestBody(makeContext('/tmp'), success, null)).toContain('No success criteria were verified.')
+  })
+})
+
+describe('branch and remote names', () => {
+  test('builds task branch names from id and title', () => {
+    expect(taskBranchName({ id: 'AUTH-001', title: 'Add OAuth (Google) login!' })).toBe('loopwork/AUTH-001-add-oauth-google-login')
+    expect(taskBranchName({ id: 'AUTH-001', title: '' }, 'tasks/')).toBe('tasks/AUTH-001')
+  })
+
+  test('parses GitHub remotes', () => {
+    expect(parseGitHubRemote('git@github.com:acme/app.git')).toBe('acme/app')
+    expect(parseGitHubRemote('https://github.com/acme/app')).toBe('acme/app')
+    expect(parseGitHubRemote('')).toBeNull()
+  })
+})
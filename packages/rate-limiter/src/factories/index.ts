@@ -7,10 +7,18 @@ import { RateLimitDetector } from '../implementations/rate-limit-detector';
 import { MemoryStorage } from '../implementations/memory-storage';
 import { FileStorage } from '../implementations/file-storage';
 import { ProviderManager } from '../implementations/provider-manager';
+import { SharedRateLimiter, SharedRateLimitTimeoutError } from '../implementations/shared-rate-limiter';
+import type { SharedRateLimiterOptions, SharedRateLimitStatus } from '../implementations/shared-rate-limiter';
 
 export * from '../interfaces';
-export { RateLimitDetector, MemoryStorage, FileStorage, ProviderManager };
-export type { TokenBucketConfig, TimeSource, SlidingWindowConfig };
+export { RateLimitDetector, MemoryStorage, FileStorage, ProviderManager, SharedRateLimiter, SharedRateLimitTimeoutError };
+export {
+  DEFAULT_MAX_WAIT_MS,
+  DEFAULT_RATE_LIMIT_COOLDOWN_MS,
+  DEFAULT_QUOTA_COOLDOWN_MS,
+  DEFAULT_LEARNED_LIMIT_TTL_MS,
+} from '../implementations/shared-rate-limiter';
+export type { TokenBucketConfig, TimeSource, SlidingWindowConfig, SharedRateLimiterOptions, SharedRateLimitStatus };
 
 export function createProviderManager(): ProviderManager {
   return new ProviderManager();
@@ -39,3 +47,10 @@ export function createMemoryStorage(): RateLimitStorage {
 export function createFileStorage(filePath: string): RateLimitStorage {
   return new FileStorage(filePath);
 }
+
+/**
+ * Rate limiter shared by every process using the same state file
+ */
+export function createSharedRateLimiter(options: SharedRateLimiterOptions, timeSource?: TimeSource): SharedRateLimiter {
+  return new SharedRateLimiter(options, timeSource);
+}
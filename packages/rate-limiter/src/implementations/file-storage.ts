@@ -1,4 +1,6 @@
-import { existsSync, readFileSync, writeFileSync, unlinkSync, statSync } from "fs";
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import { FileLock } from "@loopwork-ai/utils-fs";
 import { RateLimitState, RateLimitStorage } from "../interfaces";
 
 interface StorageContent {
@@ -7,13 +9,11 @@ interface StorageContent {
 
 export class FileStorage implements RateLimitStorage {
   private filePath: string;
-  private lockFile: string;
-  private lockTimeout: number = 2000;
-  private retryDelay: number = 50;
+  private lock: FileLock;
 
   constructor(filePath: string) {
     this.filePath = filePath;
-    this.lockFile = `${filePath}.lock`;
+    this.lock = new FileLock({ filePath, timeout: 2000, retryDelay: 50, staleTimeout: 2000 });
   }
 
   async getState(provider: string): Promise<RateLimitState | null> {
@@ -41,6 +41,28 @@ export class FileStorage implements RateLimitStorage {
     });
   }
 
+  /**
+   * Read, change and write a provider's state under one lock, so processes
+   * sharing the file never overwrite each other's updates.
+   * Returning null from the updater removes the state.
+   */
+  async update(
+    provider: string,
+    updater: (state: RateLimitState | null) => RateLimitState | null
+  ): Promise<RateLimitState | null> {
+    return this.withLock(() => {
+      const data = this.readData();
+      const next = updater(data[provider] || null);
+      if (next) {
+        data[provider] = next;
+      } else {
+        delete data[provider];
+      }
+      this.writeData(data);
+      return next;
+    });
+  }
+
   private readData(): StorageContent {
     if (!existsSync(this.filePath)) {
       return {};
@@ -60,43 +82,7 @@ export class FileStorage implements RateLimitStorage {
   }
 
   private async withLock<T>(action: () => T): Promise<T> {
-    const start = Date.now();
-    while (Date.now() - start < this.lockTimeout) {
-      try {
-        // Exclusive create
-        writeFileSync(this.lockFile, String(process.pid), { flag: "wx" });
-        try {
-          return action();
-        } finally {
-          try {
-             unlinkSync(this.lockFile);
-          } catch (e) {
-             // Ignore unlock error
-          }
-        }
-      } catch (e: any) {
-        if (e.code === "EEXIST") {
-           // Check for stale lock
-           try {
-             const stats = statSync(this.lockFile);
-             if (Date.now() - stats.mtimeMs > this.lockTimeout) {
-                try {
-                   unlinkSync(this.lockFile);
-                   continue;
-                } catch (delErr) {
-                   // Ignore
-                }
-             }
-           } catch (statErr) {
-              // Lock file might be gone
-           }
-           // Wait and retry
-           await new Promise((resolve) => setTimeout(resolve, this.retryDelay));
-        } else {
-           throw e;
-        }
-      }
-    }
-    throw new Error(`Could not acquire lock on ${this.filePath}`);
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    return this.lock.withLock(action);
   }
 }
@@ -0,0 +1,242 @@
+import type {
+  IProviderRateLimiter,
+  ProviderLimitKind,
+  ProviderRateLimit,
+  RateLimitRequest,
+  RateLimitSlot,
+  SharedRateLimitConfig,
+} from '@loopwork-ai/contracts';
+import { RateLimitState } from '../interfaces';
+import { FileStorage } from './file-storage';
+import type { TimeSource } from './token-bucket';
+
+const WINDOW_MS = 60000;
+
+export const DEFAULT_MAX_WAIT_MS = 300000;
+export const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 60000;
+export const DEFAULT_QUOTA_COOLDOWN_MS = 900000;
+export const DEFAULT_LEARNED_LIMIT_TTL_MS = 3600000;
+
+/**
+ * What every process knows about one provider/model, kept in the state
+ * file's metadata
+ */
+interface SharedWindow {
+  /** Start time of each run in the last minute */
+  requests: number[];
+  /** Tokens charged in the last minute, as [time, tokens] */
+  tokens: [number, number][];
+  /** No run may start before this time (set by 429s and quota errors) */
+  blockedUntil?: number;
+  /** Requests-per-minute limit learned from a 429 */
+  learnedRequestsPerMinute?: number;
+  learnedAt?: number;
+}
+
+export interface SharedRateLimiterOptions extends SharedRateLimitConfig {
+  stateFile: string;
+}
+
+/**
+ * Where a provider/model stands in the current window
+ */
+export interface SharedRateLimitStatus {
+  key: string;
+  requestsInWindow: number;
+  tokensInWindow: number;
+  limit: ProviderRateLimit;
+  blockedUntil?: number;
+}
+
+/**
+ * Thrown by acquire() when no slot frees up within maxWaitMs. The message
+ * mentions the rate limit so executor retries treat it as one.
+ */
+export class SharedRateLimitTimeoutError extends Error {
+  constructor(public readonly key: string, public readonly maxWaitMs: number) {
+    super(`Rate limit for ${key} did not free up within ${maxWaitMs}ms`);
+    this.name = 'SharedRateLimitTimeoutError';
+  }
+}
+
+/**
+ * Sliding-window rate limiter shared through a locked state file, so every
+ * loopwork process on the machine draws from the same per-provider budget.
+ */
+export class SharedRateLimiter implements IProviderRateLimiter {
+  private storage: FileStorage;
+  private limits: Record<string, ProviderRateLimit>;
+  private maxWaitMs: number;
+  private rateLimitCooldownMs: number;
+  private quotaCooldownMs: number;
+  private learnedLimitTtlMs: number;
+
+  constructor(
+    options: SharedRateLimiterOptions,
+    private timeSource: TimeSource = { now: () => Date.now() },
+    private sleep: (ms: number) => Promise<void> = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+  ) {
+    this.storage = new FileStorage(options.stateFile);
+    this.limits = options.limits ?? {};
+    this.maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+    this.rateLimitCooldownMs = options.rateLimitCooldownMs ?? DEFAULT_RATE_LIMIT_COOLDOWN_MS;
+    this.quotaCooldownMs = options.quotaCooldownMs ?? DEFAULT_QUOTA_COOLDOWN_MS;
+    this.learnedLimitTtlMs = options.learnedLimitTtlMs ?? DEFAULT_LEARNED_LIMIT_TTL_MS;
+  }
+
+  async acquire(request: RateLimitRequest): Promise<RateLimitSlot> {
+    const key = keyFor(request);
+    const tokens = request.estimatedTokens ?? 0;
+    const start = this.timeSource.now();
+
+    for (;;) {
+      let waitMs = 0;
+      await this.storage.update(key, (state) => {
+        const now = this.timeSource.now();
+        const window = this.prune(state, now);
+        waitMs = this.waitFor(request, window, tokens, now);
+        if (waitMs === 0) {
+          window.requests.push(now);
+          if (tokens > 0) window.tokens.push([now, tokens]);
+        }
+        return toState(key, window, now);
+      });
+
+      const waited = this.timeSource.now() - start;
+      if (waitMs === 0) {
+        return { key, waitedMs: waited };
+      }
+      if (waited + waitMs > this.maxWaitMs) {
+        throw new SharedRateLimitTimeoutError(key, this.maxWaitMs);
+      }
+      await this.sleep(waitMs);
+    }
+  }
+
+  async recordUsage(request: RateLimitRequest, tokens: number): Promise<void> {
+    if (tokens <= 0) return;
+    const key = keyFor(request);
+    await this.storage.update(key, (state) => {
+      const now = this.timeSource.now();
+      const window = this.prune(state, now);
+      window.tokens.push([now, tokens]);
+      return toState(key, window, now);
+    });
+  }
+
+  async reportLimited(request: RateLimitRequest, kind: ProviderLimitKind, retryAfterMs?: number): Promise<void> {
+    const key = keyFor(request);
+    await this.storage.update(key, (state) => {
+      const now = this.timeSource.now();
+      const window = this.prune(state, now);
+
+      const cooldown = retryAfterMs ?? (kind === 'quota' ? this.quotaCooldownMs : this.rateLimitCooldownMs);
+      window.blockedUntil = Math.max(window.blockedUntil ?? 0, now + cooldown);
+
+      // The provider took the runs before this one, so its limit is at most that many
+      if (kind === 'rate-limit' && window.requests.length > 0) {
+        const learned = Math.max(1, window.requests.length - 1);
+        window.learnedRequestsPerMinute = Math.min(learned, window.learnedRequestsPerMinute ?? Infinity);
+        window.learnedAt = now;
+      }
+      return toState(key, window, now);
+    });
+  }
+
+  async status(request: RateLimitRequest): Promise<SharedRateLimitStatus> {
+    const key = keyFor(request);
+    const now = this.timeSource.now();
+    const window = this.prune(await this.storage.getState(key), now);
+    return {
+      key,
+      requestsInWindow: window.requests.length,
+      tokensInWindow: sumTokens(window),
+      limit: this.limitFor(request, window),
+      blockedUntil: window.blockedUntil,
+    };
+  }
+
+  async reset(request: RateLimitRequest): Promise<void> {
+    await this.storage.reset(keyFor(request));
+  }
+
+  /**
+   * Configured limit, tightened by a learned one that has not expired
+   */
+  private limitFor(request: RateLimitRequest, window: SharedWindow): ProviderRateLimit {
+    const configured = this.limits[keyFor(request)] ?? this.limits[request.provider] ?? {};
+    if (window.learnedRequestsPerMinute === undefined) return configured;
+    return {
+      ...configured,
+      requestsPerMinute: Math.min(configured.requestsPerMinute ?? Infinity, window.learnedRequestsPerMinute),
+    };
+  }
+
+  /**
+   * How long until the run fits, or 0 if it fits now
+   */
+  private waitFor(request: RateLimitRequest, window: SharedWindow, tokens: number, now: number): number {
+    if (window.blockedUntil && window.blockedUntil > now) {
+      return window.blockedUntil - now;
+    }
+
+    const limit = this.limitFor(request, window);
+    let waitMs = 0;
+
+    const rpm = limit.requestsPerMinute;
+    if (rpm !== undefined && window.requests.length >= rpm) {
+      // Wait until enough runs leave the window to make room for one more
+      waitMs = window.requests[window.requests.length - rpm] + WINDOW_MS - now;
+    }
+
+    const tpm = limit.tokensPerMinute;
+    const used = sumTokens(window);
+    if (tpm !== undefined && used > 0 && used + tokens > tpm) {
+      // An oversized run still goes ahead once the window is empty
+      let freed = 0;
+      let tokenWaitMs = 0;
+      for (const [at, count] of window.tokens) {
+        freed += count;
+        tokenWaitMs = at + WINDOW_MS - now;
+        if (used - freed + tokens <= tpm) break;
+      }
+      waitMs = Math.max(waitMs, tokenWaitMs);
+    }
+
+    return waitMs > 0 ? waitMs : 0;
+  }
+
+  private prune(state: RateLimitState | null, now: number): SharedWindow {
+    const saved = (state?.metadata ?? {}) as Partial<SharedWindow>;
+    const since = now - WINDOW_MS;
+    const window: SharedWindow = {
+      requests: (saved.requests ?? []).filter((at) => at > since).sort((a, b) => a - b),
+      tokens: (saved.tokens ?? []).filter(([at]) => at > since).sort((a, b) => a[0] - b[0]),
+    };
+    if (saved.blockedUntil && saved.blockedUntil > now) {
+      window.blockedUntil = saved.blockedUntil;
+    }
+    if (saved.learnedAt && saved.learnedAt + this.learnedLimitTtlMs > now) {
+      window.learnedRequestsPerMinute = saved.learnedRequestsPerMinute;
+      window.learnedAt = saved.learnedAt;
+    }
+    return window;
+  }
+}
+
+function keyFor(request: RateLimitRequest): string {
+  return `${request.provider}/${request.model}`;
+}
+
+function sumTokens(window: SharedWindow): number {
+  return window.tokens.reduce((sum, [, count]) => sum + count, 0);
+}
+
+function toState(key: string, window: SharedWindow, now: number): RateLimitState {
+  return {
+    provider: key,
+    used: window.requests.length,
+    lastRequest: window.requests[window.requests.length - 1] ?? now,
+    metadata: window,
+  };
+}
@@ -0,0 +1,115 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SharedRateLimiter, SharedRateLimitTimeoutError } from '../../src/factories';
+import type { SharedRateLimiterOptions } from '../../src/factories';
+
+const request = { provider: 'claude', model: 'sonnet' };
+
+describe('SharedRateLimiter', () => {
+  let dir: string;
+  let currentTime: number;
+  let slept: number[];
+
+  // Two limiters on one state file stand in for two loopwork processes
+  function limiter(options: Partial<SharedRateLimiterOptions> = {}): SharedRateLimiter {
+    return new SharedRateLimiter(
+      { stateFile: join(dir, 'rate-limits.json'), ...options },
+      { now: () => currentTime },
+      async (ms) => {
+        slept.push(ms);
+        currentTime += ms;
+      }
+    );
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'shared-rate-limiter-'));
+    currentTime = 1_000_000;
+    slept = [];
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('shares requests per minute between processes', async () => {
+    const options = { limits: { claude: { requestsPerMinute: 2 } } };
+    const first = limiter(options);
+    const second = limiter(options);
+
+    await first.acquire(request);
+    currentTime += 10_000;
+    await second.acquire(request);
+    currentTime += 10_000;
+
+    const slot = await first.acquire(request);
+
+    // The third run waits until the first one leaves the window
+    expect(slept).toEqual([40_000]);
+    expect(slot).toEqual({ key: 'claude/sonnet', waitedMs: 40_000 });
+    expect((await second.status(request)).requestsInWindow).toBe(2);
+  });
+
+  test('model limits win over provider limits', async () => {
+    const shared = limiter({ limits: { claude: { requestsPerMinute: 1 }, 'claude/sonnet': { requestsPerMinute: 5 } } });
+
+    for (let i = 0; i < 5; i++) await shared.acquire(request);
+    await shared.acquire({ provider: 'claude', model: 'opus' });
+
+    expect(slept).toEqual([]);
+  });
+
+  test('shares tokens per minute', async () => {
+    const options = { limits: { claude: { tokensPerMinute: 1000 } } };
+    const first = limiter(options);
+    const second = limiter(options);
+
+    await first.acquire({ ...request, estimatedTokens: 400 });
+    currentTime += 5_000;
+    await first.recordUsage(request, 300);
+    await second.acquire({ ...request, estimatedTokens: 400 });
+
+    // 700 tokens are in the window; the first 400 leave after a minute
+    expect(slept).toEqual([55_000]);
+    expect((await second.status(request)).tokensInWindow).toBe(700);
+  });
+
+  test('backs every process off after a 429 and learns the limit', async () => {
+    const first = limiter();
+    const second = limiter();
+
+    await first.acquire(request);
+    await first.acquire(request);
+    await second.acquire(request);
+    await second.reportLimited(request, 'rate-limit', 5_000);
+
+    const status = await first.status(request);
+    // Two runs got through before the 429, so only two fit in a minute
+    expect(status.limit.requestsPerMinute).toBe(2);
+
+    await first.acquire(request);
+    // The retry-after first, then until the window has room for the learned limit
+    expect(slept).toEqual([5_000, 55_000]);
+  });
+
+  test('uses the quota cooldown when no retry-after is given', async () => {
+    const shared = limiter({ quotaCooldownMs: 120_000, maxWaitMs: 600_000 });
+
+    await shared.reportLimited(request, 'quota');
+    await shared.acquire(request);
+
+    expect(slept).toEqual([120_000]);
+  });
+
+  test('fails as rate limited when no slot frees up within maxWaitMs', async () => {
+    const shared = limiter({ maxWaitMs: 1_000 });
+
+    await shared.reportLimited(request, 'rate-limit', 30_000);
+
+    await expect(shared.acquire(request)).rejects.toBeInstanceOf(SharedRateLimitTimeoutError);
+    await expect(shared.acquire(request)).rejects.toThrow(/Rate limit for claude\/sonnet/);
+    expect(slept).toEqual([]);
+  });
+});
@@ -1,3 +1,7 @@
 export * from './interfaces/index.js';
 export * from './factories/index.js';
 export { withScheduler } from './plugin.js';
+export type { SchedulerPluginConfig } from './plugin.js';
+export { PRIORITY_SCORES, parseTimestamp, taskCron, toScheduledTask, createTaskScorer, rankTasks } from './task-mapping.js';
+export { buildTimeline } from './timeline.js';
+export type { TimelineEntry } from './timeline.js';
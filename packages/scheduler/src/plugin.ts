@@ -1,6 +1,7 @@
-import type { LoopworkPlugin } from '@loopwork-ai/loopwork';
-import { createTaskScheduler } from './factories/index.js';
-import type { TaskScheduler, SchedulerConfig } from './interfaces/index.js';
+import type { LoopworkPlugin, Task, TaskBackend } from '@loopwork-ai/loopwork/contracts';
+import { createCronParser, createScheduleMatcher } from './factories/index.js';
+import type { SchedulerConfig, SchedulerStats, TimeSource } from './interfaces/index.js';
+import { rankTasks, taskCron, toScheduledTask } from './task-mapping.js';
 
 export interface SchedulerPluginConfig extends SchedulerConfig {
   enabled?: boolean;
@@ -8,24 +9,115 @@ export interface SchedulerPluginConfig extends SchedulerConfig {
   networkAware?: boolean; // Defer tasks when offline
 }
 
-export function withScheduler(config: SchedulerPluginConfig = {}): (loopworkConfig: any) => any {
+/** Metadata the JSON backend derives from its PRD files; not copied to the next run */
+const DERIVED_METADATA = ['prdFile', 'prdWarning', 'featureName'];
+
+export function withScheduler(
+  config: SchedulerPluginConfig = {},
+  timeSource: TimeSource = { now: () => Date.now() }
+): (loopworkConfig: any) => any {
   if (config.enabled === false) {
     return (loopworkConfig) => loopworkConfig;
   }
 
-  const scheduler = createTaskScheduler(config);
+  const cronParser = createCronParser();
+  const scheduleMatcher = createScheduleMatcher(timeSource);
+  const stats: SchedulerStats = {
+    totalScheduled: 0,
+    totalCompleted: 0,
+    totalMissedDeadlines: 0,
+    averageWaitTime: 0
+  };
+  let backend: TaskBackend | null = null;
+
+  /**
+   * Create the pending task for the next run of a recurring task
+   */
+  const scheduleNextRun = async (task: Task, cron: string): Promise<void> => {
+    if (!backend?.createTask) {
+      console.warn(`[Scheduler] Backend cannot create tasks, ${task.id} will not recur`);
+      return;
+    }
+
+    const recurrenceOf = typeof task.metadata?.recurrenceOf === 'string' ? task.metadata.recurrenceOf : task.id;
+    const pending = await backend.listPendingTasks({ includeBlocked: true });
+    if (pending.some(t => t.metadata?.recurrenceOf === recurrenceOf)) return;
+
+    const now = timeSource.now();
+    const scheduled = toScheduledTask(task, now, config.timezone);
+    const nextRun = scheduleMatcher.getNextExecution({ cron, timezone: scheduled.schedule?.timezone }, now);
+    if (nextRun === null) {
+      console.warn(`[Scheduler] No run of "${cron}" within a year, ${task.id} will not recur`);
+      return;
+    }
+
+    const metadata: Record<string, unknown> = { ...task.metadata, recurrenceOf };
+    for (const key of DERIVED_METADATA) delete metadata[key];
+
+    // Keep the deadline the same distance from the start of the run
+    if (scheduled.deadline !== undefined) {
+      const runStart = scheduled.schedule?.startTime ?? scheduled.createdAt;
+      const offset = scheduled.deadline - runStart;
+      if (offset > 0) {
+        metadata.deadline = new Date(nextRun + offset).toISOString();
+      } else {
+        delete metadata.deadline;
+      }
+    }
+
+    const next = await backend.createTask({
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      feature: task.feature,
+      parentId: task.parentId,
+      dependsOn: task.dependsOn,
+      metadata,
+      scheduledFor: new Date(nextRun).toISOString()
+    });
+    stats.totalScheduled++;
+    console.log(`[Scheduler] ${task.id} recurs as ${next.id} at ${new Date(nextRun).toISOString()}`);
+  };
 
   const plugin: LoopworkPlugin = {
     name: 'task-scheduler',
 
+    onBackendReady: async (taskBackend) => {
+      backend = taskBackend;
+    },
+
     onLoopStart: async () => {
       console.log('[Scheduler] Initialized');
     },
 
-    onLoopEnd: async (stats) => {
+    onSelectTasks: (tasks) => rankTasks(tasks, config, timeSource),
+
+    onTaskComplete: async (context) => {
+      const task = context.task;
+      const now = timeSource.now();
+      const scheduled = toScheduledTask(task, now, config.timezone);
+      const readyAt = scheduled.schedule?.startTime ?? scheduled.createdAt;
+
+      stats.averageWaitTime = (stats.averageWaitTime * stats.totalCompleted
+        + Math.max(0, context.startTime.getTime() - readyAt)) / (stats.totalCompleted + 1);
+      stats.totalCompleted++;
+      if (scheduled.deadline !== undefined && now > scheduled.deadline) {
+        stats.totalMissedDeadlines++;
+      }
+
+      const cron = taskCron(task);
+      if (!cron) return;
+      if (!cronParser.isValid(cron)) {
+        console.warn(`[Scheduler] Invalid cron "${cron}" on ${task.id}, not rescheduling`);
+        return;
+      }
+
+      await scheduleNextRun(task, cron);
+    },
+
+    onLoopEnd: async () => {
       if (config.reportStats) {
-        const schedStats = scheduler.getStats();
-        console.log('[Scheduler] Stats:', schedStats);
+        console.log('[Scheduler] Stats:', { ...stats });
       }
     }
   };
@@ -0,0 +1,81 @@
+import type { Task } from '@loopwork-ai/loopwork/contracts';
+import { createPriorityScorer } from './factories/index.js';
+import type { ScheduledTask, SchedulerConfig, TimeSource } from './interfaces/index.js';
+
+/**
+ * Scheduler priority (0-100) for each Loopwork task priority
+ */
+export const PRIORITY_SCORES: Record<Task['priority'], number> = {
+  high: 90,
+  medium: 50,
+  low: 25,
+  background: 10
+};
+
+/**
+ * Read a timestamp from an ISO date string or epoch milliseconds
+ */
+export function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Cron expression of a recurring task (`metadata.cron`)
+ */
+export function taskCron(task: Pick<Task, 'metadata'>): string | undefined {
+  const cron = task.metadata?.cron;
+  return typeof cron === 'string' && cron.trim() ? cron.trim() : undefined;
+}
+
+/**
+ * Map a Loopwork task onto the scheduler's task model.
+ *
+ * `metadata.cron`, `metadata.timezone` and `metadata.deadline` (ISO date or
+ * epoch ms) carry the scheduling fields; `scheduledFor` becomes the start time.
+ */
+export function toScheduledTask(task: Task, now: number, timezone?: string): ScheduledTask {
+  const cron = taskCron(task);
+  const startTime = parseTimestamp(task.scheduledFor);
+  const taskTimezone = typeof task.metadata?.timezone === 'string' ? task.metadata.timezone : timezone;
+
+  return {
+    id: task.id,
+    priority: PRIORITY_SCORES[task.priority] ?? PRIORITY_SCORES.medium,
+    deadline: parseTimestamp(task.metadata?.deadline),
+    createdAt: parseTimestamp(task.timestamps?.createdAt) ?? now,
+    dependencies: task.dependsOn,
+    schedule: cron || startTime !== undefined
+      ? { cron, startTime, timezone: taskTimezone }
+      : undefined,
+    metadata: task.metadata
+  };
+}
+
+/**
+ * Score tasks the way the scheduler plugin orders them: base priority plus
+ * deadline urgency, unless `respectDeadlines` is false
+ */
+export function createTaskScorer(config: SchedulerConfig = {}, timeSource: TimeSource = { now: () => Date.now() }): (task: Task) => number {
+  const scorer = createPriorityScorer(timeSource);
+
+  return (task) => {
+    const scheduled = toScheduledTask(task, timeSource.now(), config.timezone);
+    if (config.respectDeadlines === false) scheduled.deadline = undefined;
+    return scorer.calculateScore(scheduled);
+  };
+}
+
+/**
+ * Order tasks highest score first, keeping the backend's order on ties
+ */
+export function rankTasks(tasks: Task[], config: SchedulerConfig = {}, timeSource?: TimeSource): Task[] {
+  const score = createTaskScorer(config, timeSource);
+  return tasks
+    .map(task => ({ task, score: score(task) }))
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.task);
+}
@@ -0,0 +1,67 @@
+import type { Task } from '@loopwork-ai/loopwork/contracts';
+import { createScheduleMatcher, createDeadlineEnforcer } from './factories/index.js';
+import type { SchedulerConfig, TimeSource } from './interfaces/index.js';
+import { createTaskScorer, parseTimestamp, taskCron, toScheduledTask } from './task-mapping.js';
+
+/**
+ * A pending task on the scheduler's timeline
+ */
+export interface TimelineEntry {
+  taskId: string;
+  title: string;
+  /** When the task can be claimed; tasks that already can are due now */
+  dueAt: number;
+  due: boolean;
+  cron?: string;
+  /** The run after this one, for recurring tasks */
+  nextRunAt?: number;
+  deadline?: number;
+  /** 0-1, how close the deadline is */
+  urgency: number;
+  /** What due tasks are ordered by, highest first */
+  score: number;
+}
+
+/**
+ * Lay pending tasks out in the order they will run: due tasks first, by
+ * score, then scheduled tasks by the time they become due
+ */
+export function buildTimeline(
+  tasks: Task[],
+  config: SchedulerConfig = {},
+  timeSource: TimeSource = { now: () => Date.now() }
+): TimelineEntry[] {
+  const now = timeSource.now();
+  const matcher = createScheduleMatcher(timeSource);
+  const deadlines = createDeadlineEnforcer(timeSource);
+  const score = createTaskScorer(config, timeSource);
+
+  const entries = tasks.map((task): TimelineEntry => {
+    const scheduled = toScheduledTask(task, now, config.timezone);
+    const dueAt = Math.max(parseTimestamp(task.scheduledFor) ?? now, now);
+    const cron = taskCron(task);
+
+    let nextRunAt: number | undefined;
+    if (cron) {
+      try {
+        nextRunAt = matcher.getNextExecution({ cron, timezone: scheduled.schedule?.timezone }, dueAt) ?? undefined;
+      } catch {
+        // Invalid cron: the task still runs once, it just does not recur
+      }
+    }
+
+    return {
+      taskId: task.id,
+      title: task.title,
+      dueAt,
+      due: dueAt <= now,
+      cron,
+      nextRunAt,
+      deadline: scheduled.deadline,
+      urgency: deadlines.calculateUrgency(scheduled),
+      score: score(task)
+    };
+  });
+
+  return entries.sort((a, b) => a.dueAt - b.dueAt || b.score - a.score);
+}
@@ -1,6 +1,37 @@
-import { describe, test, expect } from 'bun:test';
+import { describe, test, expect, mock } from 'bun:test';
+import type { Task } from '@loopwork-ai/loopwork/contracts';
 import { withScheduler } from '../../src/plugin.js';
 
+const NOW = new Date('2024-01-01T09:00:00Z').getTime(); // Monday
+const timeSource = { now: () => NOW };
+
+function task(id: string, extra: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    description: `Do ${id}`,
+    status: 'pending',
+    priority: 'medium',
+    timestamps: { createdAt: new Date(NOW - 3600000).toISOString(), updatedAt: new Date(NOW).toISOString() },
+    ...extra
+  };
+}
+
+function createPlugin(config = {}) {
+  return withScheduler(config, timeSource)({ plugins: [] }).plugins[0];
+}
+
+function createBackend(pending: Task[] = []) {
+  return {
+    listPendingTasks: mock(async () => pending),
+    createTask: mock(async (input: Omit<Task, 'id' | 'status'>) => ({ ...input, id: 'TASK-NEXT', status: 'pending' as const }))
+  };
+}
+
+async function complete(plugin: any, completed: Task) {
+  await plugin.onTaskComplete({ task: completed, startTime: new Date(NOW), config: {}, iteration: 1, namespace: 'default' }, { success: true, duration: 1 });
+}
+
 describe('Scheduler Plugin', () => {
   test('creates plugin when enabled', () => {
     const result = withScheduler({})({ plugins: [] });
@@ -18,4 +49,87 @@ describe('Scheduler Plugin', () => {
     const result = withScheduler({})({ plugins: [existing] });
     expect(result.plugins.length).toBe(2);
   });
+
+  test('orders due tasks by priority and deadline urgency', () => {
+    const plugin = createPlugin();
+    const tasks = [
+      task('LOW', { priority: 'low' }),
+      task('HIGH', { priority: 'high' }),
+      task('URGENT', { priority: 'low', metadata: { deadline: new Date(NOW + 60000).toISOString() } }),
+      task('MEDIUM')
+    ];
+
+    expect(plugin.onSelectTasks(tasks).map((t: Task) => t.id)).toEqual(['URGENT', 'HIGH', 'MEDIUM', 'LOW']);
+  });
+
+  test('ignores deadlines when respectDeadlines is false', () => {
+    const plugin = createPlugin({ respectDeadlines: false });
+    const tasks = [
+      task('URGENT', { priority: 'low', metadata: { deadline: new Date(NOW + 60000).toISOString() } }),
+      task('MEDIUM')
+    ];
+
+    expect(plugin.onSelectTasks(tasks).map((t: Task) => t.id)).toEqual(['MEDIUM', 'URGENT']);
+  });
+
+  test('creates the next run of a cron task when it completes', async () => {
+    const plugin = createPlugin();
+    const backend = createBackend();
+    await plugin.onBackendReady(backend);
+
+    await complete(plugin, task('REPORT', {
+      feature: 'ops',
+      scheduledFor: new Date(NOW - 60000).toISOString(),
+      metadata: { cron: '0 10 * * *', deadline: new Date(NOW + 1800000).toISOString(), prdFile: 'REPORT.md' }
+    }));
+
+    expect(backend.createTask).toHaveBeenCalledTimes(1);
+    const next = backend.createTask.mock.calls[0][0];
+    expect(next).toMatchObject({ title: 'Task REPORT', description: 'Do REPORT', priority: 'medium', feature: 'ops' });
+    expect(next.scheduledFor).toBe('2024-01-01T10:00:00.000Z');
+    // Deadline keeps its 31 minutes after the scheduled start
+    expect(next.metadata).toEqual({ cron: '0 10 * * *', deadline: '2024-01-01T10:31:00.000Z', recurrenceOf: 'REPORT' });
+  });
+
+  test('keeps linking later runs to the first one', async () => {
+    const plugin = createPlugin();
+    const backend = createBackend();
+    await plugin.onBackendReady(backend);
+
+    await complete(plugin, task('TASK-002', { metadata: { cron: '*/15 * * * *', recurrenceOf: 'TASK-001' } }));
+
+    expect(backend.createTask.mock.calls[0][0]).toMatchObject({
+      scheduledFor: '2024-01-01T09:15:00.000Z',
+      metadata: { recurrenceOf: 'TASK-001' }
+    });
+  });
+
+  test('does not create a second pending run', async () => {
+    const plugin = createPlugin();
+    const backend = createBackend([task('TASK-003', { metadata: { recurrenceOf: 'TASK-001' } })]);
+    await plugin.onBackendReady(backend);
+
+    await complete(plugin, task('TASK-002', { metadata: { cron: '*/15 * * * *', recurrenceOf: 'TASK-001' } }));
+
+    expect(backend.createTask).not.toHaveBeenCalled();
+  });
+
+  test('leaves tasks without a valid cron alone', async () => {
+    const plugin = createPlugin();
+    const backend = createBackend();
+    await plugin.onBackendReady(backend);
+    const warn = mock(() => {});
+    const originalWarn = console.warn;
+    console.warn = warn;
+
+    try {
+      await complete(plugin, task('ONCE'));
+      await complete(plugin, task('BROKEN', { metadata: { cron: 'every day' } }));
+    } finally {
+      console.warn = originalWarn;
+    }
+
+    expect(backend.createTask).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
 });
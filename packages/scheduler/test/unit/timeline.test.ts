@@ -0,0 +1,80 @@
+import { describe, test, expect } from 'bun:test';
+import type { Task } from '@loopwork-ai/loopwork/contracts';
+import { buildTimeline } from '../../src/timeline.js';
+import { parseTimestamp, toScheduledTask } from '../../src/task-mapping.js';
+
+const NOW = new Date('2024-01-01T09:00:00Z').getTime();
+const timeSource = { now: () => NOW };
+
+function task(id: string, extra: Partial<Task> = {}): Task {
+  return { id, title: `Task ${id}`, description: '', status: 'pending', priority: 'medium', ...extra };
+}
+
+describe('toScheduledTask', () => {
+  test('maps priority, deadline and schedule', () => {
+    const scheduled = toScheduledTask(task('A', {
+      priority: 'high',
+      scheduledFor: '2024-01-02T00:00:00Z',
+      dependsOn: ['B'],
+      metadata: { cron: '0 0 * * *', deadline: NOW + 1000, timezone: 'Europe/Berlin' },
+      timestamps: { createdAt: '2023-12-31T00:00:00Z', updatedAt: '2023-12-31T00:00:00Z' }
+    }), NOW);
+
+    expect(scheduled).toMatchObject({
+      id: 'A',
+      priority: 90,
+      deadline: NOW + 1000,
+      createdAt: new Date('2023-12-31T00:00:00Z').getTime(),
+      dependencies: ['B'],
+      schedule: { cron: '0 0 * * *', startTime: new Date('2024-01-02T00:00:00Z').getTime(), timezone: 'Europe/Berlin' }
+    });
+  });
+
+  test('falls back to now and no schedule', () => {
+    const scheduled = toScheduledTask(task('A', { priority: 'background' }), NOW);
+    expect(scheduled).toMatchObject({ priority: 10, createdAt: NOW, schedule: undefined, deadline: undefined });
+  });
+
+  test('parses ISO dates and epoch milliseconds', () => {
+    expect(parseTimestamp('2024-01-01T09:00:00Z')).toBe(NOW);
+    expect(parseTimestamp(NOW)).toBe(NOW);
+    expect(parseTimestamp('soon')).toBeUndefined();
+    expect(parseTimestamp(undefined)).toBeUndefined();
+  });
+});
+
+describe('buildTimeline', () => {
+  test('lists due tasks by score, then scheduled tasks by due time', () => {
+    const timeline = buildTimeline([
+      task('LATER', { scheduledFor: '2024-01-01T12:00:00Z' }),
+      task('LOW', { priority: 'low' }),
+      task('SOON', { scheduledFor: '2024-01-01T10:00:00Z', metadata: { cron: '0 10 * * *' } }),
+      task('HIGH', { priority: 'high', scheduledFor: '2024-01-01T08:00:00Z' })
+    ], {}, timeSource);
+
+    expect(timeline.map(entry => [entry.taskId, entry.due])).toEqual([
+      ['HIGH', true],
+      ['LOW', true],
+      ['SOON', false],
+      ['LATER', false]
+    ]);
+    expect(timeline[0].dueAt).toBe(NOW);
+    expect(timeline[2]).toMatchObject({
+      dueAt: new Date('2024-01-01T10:00:00Z').getTime(),
+      cron: '0 10 * * *',
+      nextRunAt: new Date('2024-01-02T10:00:00Z').getTime()
+    });
+  });
+
+  test('reports deadline urgency', () => {
+    const [entry] = buildTimeline([
+      task('A', {
+        metadata: { deadline: '2024-01-01T10:00:00Z' },
+        timestamps: { createdAt: '2024-01-01T08:00:00Z', updatedAt: '2024-01-01T08:00:00Z' }
+      })
+    ], {}, timeSource);
+
+    expect(entry.deadline).toBe(new Date('2024-01-01T10:00:00Z').getTime());
+    expect(entry.urgency).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,397 @@
+import type {
+  TaskBackend,
+  Task,
+  TaskStatus,
+  Priority,
+  FindTaskOptions,
+  UpdateResult,
+  ISyncRemote,
+  RemoteSyncItem,
+  SyncFields,
+  SyncFieldMapping,
+  SyncConflict,
+  SyncConflictResolution,
+  SyncResult,
+} from '@loopwork-ai/contracts'
+import { logger } from '@loopwork-ai/common'
+import { SyncStateStore, type SyncLink, type SyncState } from './state'
+import {
+  taskToSyncFields,
+  toRemoteFields,
+  toLocalFields,
+  pickMapped,
+  pickRemote,
+  fingerprint,
+  diffFields,
+} from './mapping'
+
+export interface SyncEngineOptions {
+  /** Canonical local backend (JSON, SQLite, ...) */
+  local: TaskBackend
+  /** Remote tracker to mirror */
+  remote: ISyncRemote
+  /** State store (default: .loopwork/sync/<remote>.json) */
+  store?: SyncStateStore
+  /** Field mapping (default: remote.defaultMappings) */
+  mappings?: SyncFieldMapping[]
+  /** How to settle tasks changed on both sides (default: manual) */
+  resolution?: SyncConflictResolution
+  /** Which local tasks to mirror (default: all) */
+  filter?: FindTaskOptions
+  /** Create remote items for unlinked local tasks (default: true) */
+  createRemote?: boolean
+  /** Create local tasks for unlinked remote items (default: true) */
+  createLocal?: boolean
+}
+
+type PriorityCapable = TaskBackend & {
+  setPriority?(taskId: string, priority: Priority): Promise<UpdateResult>
+}
+
+function isNewer(current: string | undefined, previous: string | undefined): boolean {
+  if (!current || !previous) return true
+  return Date.parse(current) > Date.parse(previous)
+}
+
+function latest(cursor: string | undefined, timestamps: Array<string | undefined>): string | undefined {
+  let result = cursor
+  for (const ts of timestamps) {
+    if (ts && (!result || Date.parse(ts) > Date.parse(result))) result = ts
+  }
+  return result
+}
+
+function assertUpdated(result: UpdateResult): void {
+  if (!result.success) {
+    throw new Error(result.error || 'Update failed')
+  }
+}
+
+/**
+ * Two-way sync between a local TaskBackend and one remote tracker.
+ *
+ * Each run pulls remote items changed since the persisted cursor, walks the
+ * local tasks, and for every linked pair compares both sides against the
+ * fingerprints and updatedAt recorded at the last sync:
+ *
+ * - only local changed:  push mapped fields to the remote
+ * - only remote changed: pull mapped fields into the local backend
+ * - both changed:        conflict, settled by `resolution`
+ *
+ * Unlinked tasks/items are created on the other side. Deletions are not
+ * propagated.
+ */
+export class SyncEngine {
+  readonly remote: ISyncRemote
+  private local: TaskBackend
+  private store: SyncStateStore
+  private mappings: SyncFieldMapping[]
+  private resolution: SyncConflictResolution
+  private filter?: FindTaskOptions
+  private createRemote: boolean
+  private createLocal: boolean
+
+  constructor(options: SyncEngineOptions) {
+    this.local = options.local
+    this.remote = options.remote
+    this.store = options.store || SyncStateStore.forRemote(options.remote.name)
+    this.mappings = options.mappings || options.remote.defaultMappings
+    this.resolution = options.resolution || 'manual'
+    this.filter = options.filter
+    this.createRemote = options.createRemote ?? true
+    this.createLocal = options.createLocal ?? true
+  }
+
+  /**
+   * Run one sync pass and persist the resulting state.
+   *
+   * The cursor only advances when every item synced cleanly, so failed
+   * items are retried on the next run.
+   */
+  async sync(): Promise<SyncResult> {
+    const state = await this.store.load()
+    const result: SyncResult = {
+      remote: this.remote.name,
+      pushed: 0,
+      pulled: 0,
+      created: { local: 0, remote: 0 },
+      conflicts: [],
+      errors: [],
+    }
+
+    const localTasks = await this.loadLocalTasks()
+    const remoteItems = await this.remote.listItems(state.cursor)
+
+    const linksByLocal = new Map(state.links.map(link => [link.localId, link]))
+    const linksByRemote = new Map(state.links.map(link => [link.remoteId, link]))
+    const changedRemote = new Map<string, RemoteSyncItem>()
+
+    const addLink = (link: SyncLink) => {
+      state.links.push(link)
+      linksByLocal.set(link.localId, link)
+      linksByRemote.set(link.remoteId, link)
+    }
+
+    for (const item of remoteItems) {
+      if (linksByRemote.has(item.id)) {
+        changedRemote.set(item.id, item)
+      } else if (this.createLocal) {
+        await this.guard(result, item.id, async () => {
+          addLink(await this.createLocalTask(item))
+          result.pulled++
+          result.created.local++
+        })
+      }
+    }
+
+    for (const task of localTasks) {
+      const link = linksByLocal.get(task.id)
+      if (!link) {
+        if (!this.createRemote) continue
+        await this.guard(result, task.id, async () => {
+          addLink(await this.createRemoteItem(task))
+          result.pushed++
+          result.created.remote++
+        })
+        continue
+      }
+
+      const item = changedRemote.get(link.remoteId)
+      changedRemote.delete(link.remoteId)
+      await this.guard(result, task.id, () => this.syncPair(state, link, task, item, result))
+    }
+
+    // Remote changes to linked tasks that fell outside the local listing
+    for (const item of changedRemote.values()) {
+      const link = linksByRemote.get(item.id)!
+      await this.guard(result, link.localId, async () => {
+        const task = await this.local.getTask(link.localId)
+        if (task) await this.syncPair(state, link, task, item, result)
+      })
+    }
+
+    if (result.errors.length === 0) {
+      state.cursor = latest(state.cursor, remoteItems.map(item => item.updatedAt))
+    }
+    await this.store.save(state)
+
+    result.cursor = state.cursor
+    result.conflicts = state.conflicts.map(({ remoteFields: _fields, remoteUpdatedAt: _updatedAt, ...conflict }) => conflict)
+    return result
+  }
+
+  /**
+   * Conflicts awaiting manual resolution
+   */
+  async getConflicts(): Promise<SyncConflict[]> {
+    const state = await this.store.load()
+    return state.conflicts.map(({ remoteFields: _fields, remoteUpdatedAt: _updatedAt, ...conflict }) => conflict)
+  }
+
+  /**
+   * Settle a manual conflict by copying one side over the other
+   */
+  async resolveConflict(localId: string, resolution: Exclude<SyncConflictResolution, 'manual'>): Promise<void> {
+    const state = await this.store.load()
+    const conflict = state.conflicts.find(c => c.localId === localId)
+    const link = state.links.find(l => l.localId === localId)
+    if (!conflict || !link) {
+      throw new Error(`No sync conflict recorded for task ${localId}`)
+    }
+
+    const task = await this.local.getTask(localId)
+    if (!task) {
+      throw new Error(`Task ${localId} not found in ${this.local.name} backend`)
+    }
+
+    if (resolution === 'local-wins') {
+      await this.push(link, task)
+    } else {
+      await this.pull(link, task, conflict.remoteFields, conflict.remoteUpdatedAt)
+    }
+
+    state.conflicts = state.conflicts.filter(c => c !== conflict)
+    await this.store.save(state)
+  }
+
+  private async loadLocalTasks(): Promise<Task[]> {
+    // listTasks may return summaries (the JSON backend omits PRD content)
+    const summaries = await this.local.listTasks(this.filter)
+    const tasks: Task[] = []
+    for (const summary of summaries) {
+      const task = await this.local.getTask(summary.id)
+      if (task) tasks.push(task)
+    }
+    return tasks
+  }
+
+  private async guard(result: SyncResult, id: string, fn: () => Promise<void>): Promise<void> {
+    try {
+      await fn()
+    } catch (e: unknown) {
+      const error = e instanceof Error ? e.message : String(e)
+      result.errors.push({ id, error })
+      logger.warn(`[sync:${this.remote.name}] ${id}: ${error}`)
+    }
+  }
+
+  private async syncPair(
+    state: SyncState,
+    link: SyncLink,
+    task: Task,
+    item: RemoteSyncItem | undefined,
+    result: SyncResult
+  ): Promise<void> {
+    const localFields = pickMapped(taskToSyncFields(task), this.mappings)
+    const localChanged = fingerprint(localFields) !== link.localHash &&
+      isNewer(task.timestamps?.updatedAt, link.localUpdatedAt)
+    const remoteChanged = item !== undefined &&
+      fingerprint(pickRemote(item.fields, this.mappings)) !== link.remoteHash &&
+      isNewer(item.updatedAt, link.remoteUpdatedAt)
+
+    const existing = state.conflicts.find(c => c.localId === link.localId)
+    if (existing) {
+      // Still waiting for resolveConflict(); keep the snapshot current
+      existing.local = localFields
+      if (item) {
+        existing.remote = toLocalFields(item.fields, this.mappings)
+        existing.remoteFields = item.fields
+        existing.remoteUpdatedAt = item.updatedAt
+      }
+      return
+    }
+
+    if (!localChanged && !remoteChanged) return
+
+    let direction: 'push' | 'pull' = localChanged ? 'push' : 'pull'
+    if (localChanged && remoteChanged) {
+      if (this.resolution === 'manual') {
+        state.conflicts.push({
+          localId: link.localId,
+          remoteId: link.remoteId,
+          local: localFields,
+          remote: toLocalFields(item!.fields, this.mappings),
+          detectedAt: new Date().toISOString(),
+          remoteFields: item!.fields,
+          remoteUpdatedAt: item!.updatedAt,
+        })
+        logger.warn(`[sync:${this.remote.name}] Conflict on ${task.id}: changed locally and remotely`)
+        return
+      }
+      direction = this.resolution === 'local-wins' ? 'push' : 'pull'
+    }
+
+    if (direction === 'push') {
+      await this.push(link, task)
+      result.pushed++
+    } else if (await this.pull(link, task, item!.fields, item!.updatedAt)) {
+      result.pulled++
+    }
+  }
+
+  private async push(link: SyncLink, task: Task): Promise<void> {
+    const updated = await this.remote.updateItem(link.remoteId, toRemoteFields(taskToSyncFields(task), this.mappings))
+    this.recordSynced(link, task, updated)
+  }
+
+  /**
+   * Apply remote fields to the local task; returns false when nothing differed
+   */
+  private async pull(
+    link: SyncLink,
+    task: Task,
+    remoteFields: Record<string, unknown>,
+    remoteUpdatedAt: string | undefined
+  ): Promise<boolean> {
+    const current = taskToSyncFields(task)
+    const changes = diffFields(current, toLocalFields(remoteFields, this.mappings, current))
+    const hasChanges = Object.keys(changes).length > 0
+
+    if (hasChanges) {
+      await this.applyLocal(task.id, changes)
+    }
+
+    const refreshed = hasChanges ? (await this.local.getTask(task.id)) || task : task
+    this.recordSynced(link, refreshed, { id: link.remoteId, fields: remoteFields, updatedAt: remoteUpdatedAt })
+    return hasChanges
+  }
+
+  private recordSynced(link: SyncLink, task: Task, item: RemoteSyncItem): void {
+    link.localHash = fingerprint(pickMapped(taskToSyncFields(task), this.mappings))
+    link.localUpdatedAt = task.timestamps?.updatedAt
+    link.remoteHash = fingerprint(pickRemote(item.fields, this.mappings))
+    link.remoteUpdatedAt = item.updatedAt
+    link.syncedAt = new Date().toISOString()
+  }
+
+  private async createRemoteItem(task: Task): Promise<SyncLink> {
+    const item = await this.remote.createItem(toRemoteFields(taskToSyncFields(task), this.mappings))
+    const link = { localId: task.id, remoteId: item.id } as SyncLink
+    this.recordSynced(link, task, item)
+    return link
+  }
+
+  private async createLocalTask(item: RemoteSyncItem): Promise<SyncLink> {
+    if (!this.local.createTask) {
+      throw new Error(`${this.local.name} backend cannot create tasks`)
+    }
+
+    const fields = toLocalFields(item.fields, this.mappings)
+    const created = await this.local.createTask({
+      title: fields.title || `${this.remote.name} ${item.id}`,
+      description: fields.description || '',
+      priority: fields.priority || 'medium',
+      feature: fields.feature,
+      metadata: { sync: { remote: this.remote.name, remoteId: item.id } },
+    })
+
+    if (fields.status && fields.status !== created.status) {
+      await this.applyStatus(created.id, fields.status)
+    }
+
+    const task = (await this.local.getTask(created.id)) || created
+    const link = { localId: task.id, remoteId: item.id } as SyncLink
+    this.recordSynced(link, task, item)
+    return link
+  }
+
+  private async applyLocal(taskId: string, changes: Partial<SyncFields>): Promise<void> {
+    const { status, ...fields } = changes
+    const local = this.local as PriorityCapable
+
+    if (Object.keys(fields).length > 0) {
+      if (local.updateTask) {
+        assertUpdated(await local.updateTask(taskId, fields))
+      } else if (Object.keys(fields).length === 1 && fields.priority && local.setPriority) {
+        assertUpdated(await local.setPriority(taskId, fields.priority))
+      } else {
+        throw new Error(`${local.name} backend cannot update ${Object.keys(fields).join(', ')}`)
+      }
+    }
+
+    if (status) {
+      await this.applyStatus(taskId, status)
+    }
+  }
+
+  private async applyStatus(taskId: string, status: TaskStatus): Promise<void> {
+    const source = this.remote.name
+    switch (status) {
+      case 'pending':
+        return assertUpdated(await this.local.resetToPending(taskId))
+      case 'in-progress':
+        return assertUpdated(await this.local.markInProgress(taskId))
+      case 'completed':
+        return assertUpdated(await this.local.markCompleted(taskId, `Completed in ${source}`))
+      case 'failed':
+        return assertUpdated(await this.local.markFailed(taskId, `Marked as failed in ${source}`))
+      case 'quarantined':
+        return assertUpdated(await this.local.markQuarantined(taskId, `Quarantined in ${source}`))
+      default:
+        if (!this.local.updateTask) {
+          throw new Error(`${this.local.name} backend cannot set status ${status}`)
+        }
+        return assertUpdated(await this.local.updateTask(taskId, { status }))
+    }
+  }
+}
@@ -0,0 +1,14 @@
+export * from './engine'
+export * from './mapping'
+export * from './state'
+export * from './plugin'
+export type {
+  ISyncRemote,
+  RemoteSyncItem,
+  SyncFields,
+  SyncField,
+  SyncFieldMapping,
+  SyncConflict,
+  SyncConflictResolution,
+  SyncResult,
+} from '@loopwork-ai/contracts'
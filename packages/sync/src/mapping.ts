@@ -0,0 +1,117 @@
+import type { Task, SyncFields, SyncField, SyncFieldMapping } from '@loopwork-ai/contracts'
+
+/**
+ * Local fields read from a task for syncing
+ */
+export function taskToSyncFields(task: Task): SyncFields {
+  return {
+    title: task.title,
+    description: task.description,
+    status: task.status,
+    priority: task.priority,
+    feature: task.feature,
+  }
+}
+
+function canPush(mapping: SyncFieldMapping): boolean {
+  return mapping.direction !== 'pull'
+}
+
+function canPull(mapping: SyncFieldMapping): boolean {
+  return mapping.direction !== 'push'
+}
+
+/**
+ * Translate local fields into remote fields using push-enabled mappings.
+ * Fields missing from `fields` are skipped.
+ */
+export function toRemoteFields(fields: Partial<SyncFields>, mappings: SyncFieldMapping[]): Record<string, unknown> {
+  const remote: Record<string, unknown> = {}
+  for (const mapping of mappings) {
+    if (!canPush(mapping) || !(mapping.local in fields)) continue
+    const value = fields[mapping.local]
+    remote[mapping.remote] = value !== undefined && mapping.values
+      ? mapping.values[String(value)] ?? value
+      : value
+  }
+  return remote
+}
+
+/**
+ * Translate remote fields into local fields using pull-enabled mappings.
+ *
+ * Value maps may be many-to-one (e.g. pending and in-progress both map to
+ * an "open" remote state). When pulling such a value the current local
+ * value is kept if it is one of the candidates. Remote values with no
+ * candidate in a value map are dropped rather than written verbatim.
+ */
+export function toLocalFields(
+  remote: Record<string, unknown>,
+  mappings: SyncFieldMapping[],
+  current: Partial<SyncFields> = {}
+): Partial<SyncFields> {
+  const local: Record<string, unknown> = {}
+  for (const mapping of mappings) {
+    if (!canPull(mapping) || !(mapping.remote in remote)) continue
+    const value = remote[mapping.remote]
+
+    if (!mapping.values || value === undefined || value === null) {
+      local[mapping.local] = value ?? undefined
+      continue
+    }
+
+    const candidates = Object.entries(mapping.values)
+      .filter(([, remoteValue]) => remoteValue === String(value))
+      .map(([localValue]) => localValue)
+    if (candidates.length === 0) continue
+
+    const currentValue = current[mapping.local]
+    local[mapping.local] = currentValue !== undefined && candidates.includes(String(currentValue))
+      ? currentValue
+      : candidates[0]
+  }
+  return local as Partial<SyncFields>
+}
+
+/**
+ * Local fields covered by the mappings
+ */
+export function pickMapped(fields: Partial<SyncFields>, mappings: SyncFieldMapping[]): Partial<SyncFields> {
+  const picked: Record<string, unknown> = {}
+  for (const mapping of mappings) {
+    picked[mapping.local] = fields[mapping.local]
+  }
+  return picked as Partial<SyncFields>
+}
+
+/**
+ * Remote fields covered by the mappings
+ */
+export function pickRemote(fields: Record<string, unknown>, mappings: SyncFieldMapping[]): Record<string, unknown> {
+  const picked: Record<string, unknown> = {}
+  for (const mapping of mappings) {
+    picked[mapping.remote] = fields[mapping.remote]
+  }
+  return picked
+}
+
+/**
+ * Stable content hash used to tell whether a side changed since the last sync
+ */
+export function fingerprint(fields: Record<string, unknown>): string {
+  const keys = Object.keys(fields).sort()
+  return JSON.stringify(keys.map(key => [key, fields[key] ?? null]))
+}
+
+/**
+ * Fields of `next` whose values differ from `current`
+ */
+export function diffFields(current: Partial<SyncFields>, next: Partial<SyncFields>): Partial<SyncFields> {
+  const diff: Record<string, unknown> = {}
+  for (const key of Object.keys(next) as SyncField[]) {
+    if ((next[key] ?? undefined) !== (current[key] ?? undefined)) {
+      diff[key] = next[key]
+    }
+  }
+  return diff as Partial<SyncFields>
+}
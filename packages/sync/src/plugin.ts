@@ -0,0 +1,138 @@
+import type { LoopworkPlugin, TaskBackend, ISyncRemote, SyncConflictResolution, SyncFieldMapping, FindTaskOptions, SyncResult } from '@loopwork-ai/contracts'
+import path from 'path'
+import { logger } from '@loopwork-ai/common'
+import { SyncEngine } from './engine'
+import { SyncStateStore, DEFAULT_SYNC_STATE_DIR } from './state'
+
+export interface SyncPluginOptions {
+  /** Remote trackers to mirror the local backend to */
+  remotes: ISyncRemote[]
+  /** Conflict resolution for all remotes (default: manual) */
+  resolution?: SyncConflictResolution
+  /** Per-remote field mapping overrides, keyed by remote name */
+  mappings?: Record<string, SyncFieldMapping[]>
+  /** Which local tasks to mirror (default: all) */
+  filter?: FindTaskOptions
+  /** Directory for sync cursors and links, relative to the project root (default: .loopwork/sync) */
+  stateDir?: string
+  /** Sync after every task completes or fails (default: true) */
+  syncOnTaskEnd?: boolean
+}
+
+/**
+ * Create a plugin that keeps the local backend in sync with remote trackers.
+ *
+ * Syncs when the loop starts (picking up edits made in the trackers),
+ * after each task finishes (publishing status) and when the loop ends.
+ * Sync failures are logged and never stop the loop.
+ */
+export function createSyncPlugin(options: SyncPluginOptions): LoopworkPlugin {
+  let engines: SyncEngine[] = []
+  let projectRoot = process.cwd()
+  let running: Promise<SyncResult[]> | null = null
+  let queued: Promise<SyncResult[]> | null = null
+
+  const runOnce = async (): Promise<SyncResult[]> => {
+    const results: SyncResult[] = []
+    for (const engine of engines) {
+      try {
+        const result = await engine.sync()
+        results.push(result)
+        if (result.pushed || result.pulled) {
+          logger.debug(`[sync:${result.remote}] pushed ${result.pushed}, pulled ${result.pulled}`)
+        }
+        if (result.conflicts.length > 0) {
+          logger.warn(`[sync:${result.remote}] ${result.conflicts.length} conflict(s) need manual resolution`)
+        }
+      } catch (e: unknown) {
+        logger.warn(`[sync:${engine.remote.name}] Sync failed: ${e instanceof Error ? e.message : String(e)}`)
+      }
+    }
+    return results
+  }
+
+  const start = (): Promise<SyncResult[]> => {
+    running = runOnce().finally(() => {
+      running = null
+    })
+    return running
+  }
+
+  const syncAll = (): Promise<SyncResult[]> => {
+    // Hooks can fire while a run is in flight; the changes behind them may
+    // have been read already, so queue one more run after it (shared by
+    // every caller that arrives meanwhile)
+    if (queued) return queued
+    if (running) {
+      queued = running.then(() => {
+        queued = null
+        return start()
+      })
+      return queued
+    }
+    return start()
+  }
+
+  const syncOnTaskEnd = options.syncOnTaskEnd ?? true
+
+  return {
+    name: 'sync',
+    classification: 'enhancement',
+
+    async onConfigLoad(config) {
+      if (config?.projectRoot) projectRoot = config.projectRoot
+      return config
+    },
+
+    async onBackendReady(backend: TaskBackend) {
+      const stateDir = path.resolve(projectRoot, options.stateDir || DEFAULT_SYNC_STATE_DIR)
+      engines = options.remotes.map(remote => new SyncEngine({
+        local: backend,
+        remote,
+        store: SyncStateStore.forRemote(remote.name, stateDir),
+        mappings: options.mappings?.[remote.name],
+        resolution: options.resolution,
+        filter: options.filter,
+      }))
+    },
+
+    async onLoopStart() {
+      await syncAll()
+    },
+
+    async onTaskComplete() {
+      if (syncOnTaskEnd) await syncAll()
+    },
+
+    async onTaskFailed() {
+      if (syncOnTaskEnd) await syncAll()
+    },
+
+    async onLoopEnd() {
+      await syncAll()
+    },
+
+    syncAll,
+  }
+}
+
+/**
+ * Config wrapper for two-way tracker sync
+ *
+ * @example
+ * ```typescript
+ * export default compose(
+ *   withJSONBackend(),
+ *   withSync({
+ *     remotes: [new TrelloSyncRemote({ apiKey, token, boardId })],
+ *     resolution: 'remote-wins',
+ *   })
+ * )(defineConfig({ cli: 'claude' }))
+ * ```
+ */
+export function withSync(options: SyncPluginOptions) {
+  return <T extends { plugins?: unknown[] }>(baseConfig: T): T => ({
+    ...baseConfig,
+    plugins: [...(baseConfig.plugins || []), createSyncPlugin(options)],
+  })
+}
@@ -0,0 +1,86 @@
+import fs from 'fs'
+import path from 'path'
+import type { SyncConflict } from '@loopwork-ai/contracts'
+
+export const SYNC_STATE_VERSION = 1
+
+export const DEFAULT_SYNC_STATE_DIR = '.loopwork/sync'
+
+/**
+ * Pairing between a local task and a remote item, with what each side
+ * looked like at the last successful sync
+ */
+export interface SyncLink {
+  localId: string
+  remoteId: string
+  /** Fingerprint of the mapped local fields */
+  localHash: string
+  /** Fingerprint of the mapped remote fields */
+  remoteHash: string
+  localUpdatedAt?: string
+  remoteUpdatedAt?: string
+  syncedAt: string
+}
+
+/**
+ * Conflict plus the remote snapshot needed to resolve it later
+ */
+export interface StoredSyncConflict extends SyncConflict {
+  remoteFields: Record<string, unknown>
+  remoteUpdatedAt?: string
+}
+
+export interface SyncState {
+  version: number
+  /** Latest remote updatedAt seen, passed to ISyncRemote.listItems() */
+  cursor?: string
+  links: SyncLink[]
+  conflicts: StoredSyncConflict[]
+}
+
+export function emptySyncState(): SyncState {
+  return { version: SYNC_STATE_VERSION, links: [], conflicts: [] }
+}
+
+/**
+ * Persists sync state for one remote as a JSON file.
+ *
+ * @example
+ * ```ts
+ * const store = new SyncStateStore('.loopwork/sync/trello.json')
+ * const state = await store.load()
+ * await store.save(state)
+ * ```
+ */
+export class SyncStateStore {
+  constructor(readonly filePath: string) {}
+
+  /**
+   * Store for a remote under the given state directory
+   */
+  static forRemote(remoteName: string, stateDir = DEFAULT_SYNC_STATE_DIR): SyncStateStore {
+    const safeName = remoteName.replace(/[/\\?%*:|"<>]/g, '-')
+    return new SyncStateStore(path.join(stateDir, `${safeName}.json`))
+  }
+
+  async load(): Promise<SyncState> {
+    if (!fs.existsSync(this.filePath)) {
+      return emptySyncState()
+    }
+    const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Partial<SyncState>
+    return {
+      ...emptySyncState(),
+      ...data,
+    }
+  }
+
+  /**
+   * Write atomically (temp file + rename) so a crash never leaves a torn cursor
+   */
+  async save(state: SyncState): Promise<void> {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    const tempPath = `${this.filePath}.${process.pid}.tmp`
+    fs.writeFileSync(tempPath, JSON.stringify(state, null, 2))
+    fs.renameSync(tempPath, this.filePath)
+  }
+}
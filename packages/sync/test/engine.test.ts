@@ -0,0 +1,308 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import type { Task, TaskStatus, TaskBackend, UpdateResult, ISyncRemote, RemoteSyncItem, SyncFieldMapping } from '@loopwork-ai/contracts'
+import { SyncEngine, SyncStateStore, createSyncPlugin } from '../src'
+
+/**
+ * In-memory local backend with a controllable clock
+ */
+class MemoryBackend {
+  readonly name = 'memory'
+  tasks = new Map<string, Task>()
+  private seq = 0
+  now = Date.parse('2026-01-01T00:00:00Z')
+
+  tick(): string {
+    this.now += 1000
+    return new Date(this.now).toISOString()
+  }
+
+  add(task: Partial<Task> & { id: string }): Task {
+    const ts = this.tick()
+    const full: Task = {
+      title: task.id,
+      description: '',
+      status: 'pending',
+      priority: 'medium',
+      ...task,
+      timestamps: { createdAt: ts, updatedAt: ts },
+    }
+    this.tasks.set(full.id, full)
+    return full
+  }
+
+  edit(id: string, updates: Partial<Task>): UpdateResult {
+    const task = this.tasks.get(id)
+    if (!task) return { success: false, error: `Task ${id} not found` }
+    Object.assign(task, updates)
+    task.timestamps = { ...task.timestamps!, updatedAt: this.tick() }
+    return { success: true }
+  }
+
+  private setStatus(id: string, status: TaskStatus): Promise<UpdateResult> {
+    return Promise.resolve(this.edit(id, { status }))
+  }
+
+  async listTasks(): Promise<Task[]> {
+    // Summaries only, like the JSON backend
+    return [...this.tasks.values()].map(t => ({ ...t, title: t.id, description: '' }))
+  }
+  async getTask(id: string) {
+    const task = this.tasks.get(id)
+    return task ? structuredClone(task) : null
+  }
+  async createTask(task: Omit<Task, 'id' | 'status'>): Promise<Task> {
+    return this.add({ ...task, id: `LOCAL-${++this.seq}` })
+  }
+  async updateTask(id: string, updates: Partial<Task>) { return this.edit(id, updates) }
+  markInProgress(id: string) { return this.setStatus(id, 'in-progress') }
+  markCompleted(id: string) { return this.setStatus(id, 'completed') }
+  markFailed(id: string) { return this.setStatus(id, 'failed') }
+  markQuarantined(id: string) { return this.setStatus(id, 'quarantined') }
+  resetToPending(id: string) { return this.setStatus(id, 'pending') }
+}
+
+/**
+ * In-memory tracker whose "status" is a column name
+ */
+class MemoryRemote implements ISyncRemote {
+  readonly name = 'board'
+  readonly defaultMappings: SyncFieldMapping[] = [
+    { local: 'title', remote: 'name' },
+    { local: 'description', remote: 'notes' },
+    { local: 'status', remote: 'column', values: { pending: 'Todo', 'in-progress': 'Todo', completed: 'Done', failed: 'Todo', quarantined: 'Todo' } },
+    { local: 'priority', remote: 'priority' },
+  ]
+  items = new Map<string, RemoteSyncItem>()
+  listCalls: Array<string | undefined> = []
+  private seq = 0
+  now = Date.parse('2026-06-01T00:00:00Z')
+
+  tick(): string {
+    this.now += 1000
+    return new Date(this.now).toISOString()
+  }
+
+  edit(id: string, fields: Record<string, unknown>): RemoteSyncItem {
+    const item = this.items.get(id)!
+    item.fields = { ...item.fields, ...fields }
+    item.updatedAt = this.tick()
+    return structuredClone(item)
+  }
+
+  async listItems(since?: string) {
+    this.listCalls.push(since)
+    return [...this.items.values()]
+      .filter(i => !since || Date.parse(i.updatedAt!) > Date.parse(since))
+      .map(i => structuredClone(i))
+  }
+  async createItem(fields: Record<string, unknown>) {
+    const item = { id: `R${++this.seq}`, fields, updatedAt: this.tick() }
+    this.items.set(item.id, item)
+    return structuredClone(item)
+  }
+  async updateItem(id: string, fields: Record<string, unknown>) {
+    return this.edit(id, fields)
+  }
+}
+
+let tmpDir: string
+let local: MemoryBackend
+let remote: MemoryRemote
+
+function createEngine(resolution?: 'local-wins' | 'remote-wins' | 'manual') {
+  return new SyncEngine({
+    local: local as unknown as TaskBackend,
+    remote,
+    store: new SyncStateStore(path.join(tmpDir, 'board.json')),
+    resolution,
+  })
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'loopwork-sync-'))
+  local = new MemoryBackend()
+  remote = new MemoryRemote()
+})
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true })
+})
+
+describe('SyncEngine', () => {
+  test('creates remote items for local tasks and local tasks for remote items', async () => {
+    local.add({ id: 'TASK-1', title: 'Write docs', priority: 'high' })
+    await remote.createItem({ name: 'Fix login', notes: 'From PM', column: 'Done', priority: 'low' })
+
+    const result = await createEngine().sync()
+
+    expect(result.created).toEqual({ local: 1, remote: 1 })
+    expect(remote.items.get('R2')!.fields).toEqual({ name: 'Write docs', notes: '', column: 'Todo', priority: 'high' })
+
+    const created = local.tasks.get('LOCAL-1')!
+    expect(created.title).toBe('Fix login')
+    expect(created.status).toBe('completed')
+    expect(created.metadata).toEqual({ sync: { remote: 'board', remoteId: 'R1' } })
+
+    const second = await createEngine().sync()
+    expect(second.pushed + second.pulled).toBe(0)
+  })
+
+  test('pushes local changes and pulls remote changes', async () => {
+    local.add({ id: 'TASK-1', title: 'One' })
+    local.add({ id: 'TASK-2', title: 'Two' })
+    await createEngine().sync()
+
+    local.edit('TASK-1', { status: 'completed' })
+    remote.edit('R2', { name: 'Two (renamed)', priority: 'high' })
+
+    const result = await createEngine().sync()
+
+    expect(result.pushed).toBe(1)
+    expect(result.pulled).toBe(1)
+    expect(remote.items.get('R1')!.fields.column).toBe('Done')
+    expect(local.tasks.get('TASK-2')!.title).toBe('Two (renamed)')
+    expect(local.tasks.get('TASK-2')!.priority).toBe('high')
+
+    const quiet = await createEngine().sync()
+    expect(quiet.pushed + quiet.pulled).toBe(0)
+  })
+
+  test('keeps a compatible local status when the remote value is ambiguous', async () => {
+    local.add({ id: 'TASK-1', status: 'in-progress' })
+    await createEngine().sync()
+
+    remote.edit('R1', { notes: 'more detail' })
+    await createEngine().sync()
+
+    expect(local.tasks.get('TASK-1')!.status).toBe('in-progress')
+    expect(local.tasks.get('TASK-1')!.description).toBe('more detail')
+  })
+
+  test('persists the cursor and passes it to the remote', async () => {
+    await remote.createItem({ name: 'From PM' })
+    const first = await createEngine().sync()
+
+    expect(first.cursor).toBe(remote.items.get('R1')!.updatedAt)
+    await createEngine().sync()
+    expect(remote.listCalls).toEqual([undefined, first.cursor])
+  })
+
+  test('records conflicts in manual mode and resolves them on request', async () => {
+    local.add({ id: 'TASK-1', title: 'Original' })
+    await createEngine().sync()
+
+    local.edit('TASK-1', { title: 'Local title' })
+    remote.edit('R1', { name: 'Remote title' })
+
+    const engine = createEngine('manual')
+    const result = await engine.sync()
+
+    expect(result.pushed + result.pulled).toBe(0)
+    expect(result.conflicts).toHaveLength(1)
+    expect(result.conflicts[0].local.title).toBe('Local title')
+    expect(result.conflicts[0].remote.title).toBe('Remote title')
+
+    // Conflicted pairs are skipped until resolved
+    local.edit('TASK-1', { title: 'Local title 2' })
+    await engine.sync()
+    expect(remote.items.get('R1')!.fields.name).toBe('Remote title')
+
+    await engine.resolveConflict('TASK-1', 'remote-wins')
+    expect(local.tasks.get('TASK-1')!.title).toBe('Remote title')
+    expect(await engine.getConflicts()).toEqual([])
+
+    const after = await engine.sync()
+    expect(after.pushed + after.pulled).toBe(0)
+  })
+
+  test.each([
+    ['local-wins', 'Local title', 'Local title'],
+    ['remote-wins', 'Remote title', 'Remote title'],
+  ] as const)('resolves conflicts with %s', async (resolution: 'local-wins' | 'remote-wins', localTitle: string, remoteTitle: string) => {
+    local.add({ id: 'TASK-1', title: 'Original' })
+    await createEngine().sync()
+
+    local.edit('TASK-1', { title: 'Local title' })
+    remote.edit('R1', { name: 'Remote title' })
+
+    const result = await createEngine(resolution).sync()
+
+    expect(result.conflicts).toEqual([])
+    expect(local.tasks.get('TASK-1')!.title).toBe(localTitle)
+    expect(remote.items.get('R1')!.fields.name).toBe(remoteTitle)
+  })
+
+  test('does not advance the cursor when an item fails', async () => {
+    local.add({ id: 'TASK-1' })
+    await createEngine().sync()
+    const state = JSON.parse(fs.readFileSync(path.join(tmpDir, 'board.json'), 'utf-8'))
+
+    remote.edit('R1', { name: 'Renamed' })
+    local.updateTask = async () => ({ success: false, error: 'disk full' })
+
+    const result = await createEngine().sync()
+
+    expect(result.errors).toEqual([{ id: 'TASK-1', error: 'disk full' }])
+    expect(result.cursor).toBe(state.cursor)
+  })
+
+  test('respects field directions', async () => {
+    local.add({ id: 'TASK-1', title: 'One' })
+    const engine = new SyncEngine({
+      local: local as unknown as TaskBackend,
+      remote,
+      store: new SyncStateStore(path.join(tmpDir, 'board.json')),
+      mappings: [
+        { local: 'title', remote: 'name', direction: 'push' },
+        { local: 'priority', remote: 'priority', direction: 'pull' },
+      ],
+    })
+    await engine.sync()
+    expect(remote.items.get('R1')!.fields).toEqual({ name: 'One' })
+
+    remote.edit('R1', { name: 'Ignored', priority: 'low' })
+    await engine.sync()
+    expect(local.tasks.get('TASK-1')!.title).toBe('One')
+    expect(local.tasks.get('TASK-1')!.priority).toBe('low')
+  })
+})
+
+describe('createSyncPlugin', () => {
+  test('syncs every remote when the loop starts', async () => {
+    local.add({ id: 'TASK-1' })
+    const plugin = createSyncPlugin({ remotes: [remote], stateDir: tmpDir })
+
+    await plugin.onBackendReady!(local)
+    await plugin.onLoopStart!('default')
+
+    expect(remote.items.size).toBe(1)
+    expect(fs.existsSync(path.join(tmpDir, 'board.json'))).toBe(true)
+  })
+
+  test('keeps sync state under the project root', async () => {
+    const plugin = createSyncPlugin({ remotes: [remote] })
+
+    await plugin.onConfigLoad!({ projectRoot: tmpDir })
+    await plugin.onBackendReady!(local)
+    await plugin.onLoopStart!('default')
+
+    expect(fs.existsSync(path.join(tmpDir, '.loopwork/sync/board.json'))).toBe(true)
+  })
+
+  test('runs once more after an in-flight sync instead of dropping the request', async () => {
+    local.add({ id: 'TASK-1' })
+    const plugin = createSyncPlugin({ remotes: [remote], stateDir: tmpDir })
+    await plugin.onBackendReady!(local)
+
+    const first = plugin.syncAll!()
+    const second = plugin.syncAll!()
+    const third = plugin.syncAll!()
+    await Promise.all([first, second, third])
+
+    expect(second).toBe(third)
+    expect(remote.listCalls).toHaveLength(2)
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * Telegram Approval Channel
+ *
+ * Posts tasks waiting for approval to a Telegram chat with Approve/Reject
+ * buttons. Button presses are handled by TelegramTaskBot, which records the
+ * decision in the shared approval store.
+ *
+ * Usage:
+ *   withGovernance({
+ *     rules: { approvalRequired: true },
+ *     approval: { broker: new ApprovalBroker({ channels: [new TelegramApprovalChannel()] }) },
+ *   })
+ */
+
+import type { Approval } from '@loopwork-ai/loopwork/contracts'
+import { logger } from '@loopwork-ai/common'
+
+export const APPROVAL_CALLBACK_PREFIX = 'approval:'
+
+export interface TelegramApprovalConfig {
+  botToken?: string
+  chatId?: string
+}
+
+/**
+ * Callback data for an approval button, e.g. `approval:apr_123_abc:approve`
+ */
+export function approvalCallbackData(approvalId: string, action: 'approve' | 'reject'): string {
+  return `${APPROVAL_CALLBACK_PREFIX}${approvalId}:${action}`
+}
+
+/**
+ * Read an approval button press; null when the data is not for an approval
+ */
+export function parseApprovalCallback(data: string): { approvalId: string; approved: boolean } | null {
+  if (!data.startsWith(APPROVAL_CALLBACK_PREFIX)) return null
+  const [approvalId, action] = data.slice(APPROVAL_CALLBACK_PREFIX.length).split(':')
+  if (!approvalId || (action !== 'approve' && action !== 'reject')) return null
+  return { approvalId, approved: action === 'approve' }
+}
+
+const RISK_EMOJI: Record<string, string> = {
+  low: 'ℹ️',
+  medium: '⚡',
+  high: '⚠️',
+  critical: '🚨',
+}
+
+export class TelegramApprovalChannel {
+  readonly name = 'telegram'
+  private botToken: string
+  private chatId: string
+  /** Message holding the buttons for each approval */
+  private messages = new Map<string, number>()
+
+  constructor(config: TelegramApprovalConfig = {}) {
+    this.botToken = config.botToken || process.env.TELEGRAM_BOT_TOKEN || ''
+    this.chatId = config.chatId || process.env.TELEGRAM_CHAT_ID || ''
+  }
+
+  async notify(approval: Approval): Promise<void> {
+    const emoji = RISK_EMOJI[approval.riskLevel] || '🔒'
+    const lines = [
+      `${emoji} <b>Approval Required</b>`,
+      '',
+      `<b>Task:</b> ${escapeHtml(approval.taskId)} - ${escapeHtml(approval.title)}`,
+      `<b>Risk:</b> ${escapeHtml(approval.riskLevel)}`,
+      ...approval.reasons.map(reason => `• ${escapeHtml(reason)}`),
+    ]
+    if (approval.expiresAt) {
+      lines.push('', `<i>Expires ${new Date(approval.expiresAt).toLocaleString()}</i>`)
+    }
+
+    const messageId = await this.call<{ message_id: number }>('sendMessage', {
+      chat_id: this.chatId,
+      text: lines.join('\n'),
+      parse_mode: 'HTML',
+      reply_markup: {
+        inline_keyboard: [[
+          { text: '✅ Approve', callback_data: approvalCallbackData(approval.id, 'approve') },
+          { text: '❌ Reject', callback_data: approvalCallbackData(approval.id, 'reject') },
+        ]],
+      },
+    })
+    if (messageId) {
+      this.messages.set(approval.id, messageId.message_id)
+    }
+  }
+
+  async escalate(approval: Approval): Promise<void> {
+    await this.call('sendMessage', {
+      chat_id: this.chatId,
+      text: `⏰ <b>Still waiting for approval</b>\n\nTask ${escapeHtml(approval.taskId)} - ${escapeHtml(approval.title)} has been blocked since ${new Date(approval.requestedAt).toLocaleString()}.`,
+      parse_mode: 'HTML',
+      reply_to_message_id: this.messages.get(approval.id),
+    })
+  }
+
+  async resolved(approval: Approval): Promise<void> {
+    const messageId = this.messages.get(approval.id)
+    this.messages.delete(approval.id)
+
+    if (messageId) {
+      await this.call('editMessageReplyMarkup', {
+        chat_id: this.chatId,
+        message_id: messageId,
+        reply_markup: { inline_keyboard: [] },
+      })
+    }
+
+    const by = approval.decision ? ` by ${escapeHtml(approval.decision.decidedBy)} via ${escapeHtml(approval.decision.channel)}` : ''
+    const emoji = approval.status === 'approved' ? '✅' : approval.status === 'expired' ? '⏱️' : '❌'
+    await this.call('sendMessage', {
+      chat_id: this.chatId,
+      text: `${emoji} Task ${escapeHtml(approval.taskId)} ${approval.status}${by}`,
+      parse_mode: 'HTML',
+      reply_to_message_id: messageId,
+    })
+  }
+
+  private async call<T>(method: string, body: Record<string, unknown>): Promise<T | null> {
+    if (!this.botToken || !this.chatId) {
+      logger.warn('TelegramApprovalChannel: Missing botToken or chatId')
+      return null
+    }
+
+    const url = `https://api.telegram.org/bot${this.botToken}/${method}`
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const data = await response.json().catch(() => ({})) as { ok?: boolean; result?: T; description?: string }
+    if (!response.ok || !data.ok) {
+      throw new Error(data.description || `HTTP ${response.status}`)
+    }
+    return data.result ?? null
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
@@ -24,6 +24,7 @@ import type { TaskBackend, Task, BackendConfig } from '@loopwork-ai/loopwork/con
 import { SessionManager, type UserSession } from './session'
 import { IPCHandler } from './ipc-handler'
 import { DailyBriefingManager, type DailyBriefingConfig } from './daily-briefing'
+import { parseApprovalCallback } from './approvals'
 
 interface TelegramUpdate {
   update_id: number
@@ -85,6 +86,7 @@ export class TelegramTaskBot {
   private whisperModel: string
   private whisperLanguage?: string
   private briefingManager?: DailyBriefingManager
+  private projectRoot: string
 
   constructor(config: {
     botToken?: string
@@ -96,11 +98,14 @@ export class TelegramTaskBot {
     whisperModel?: string
     whisperLanguage?: string
     dailyBriefing?: Partial<DailyBriefingConfig>
+    /** Project whose .loopwork directory holds approval requests (default: cwd) */
+    projectRoot?: string
   } = {}) {
     this.botToken = config.botToken || process.env.TELEGRAM_BOT_TOKEN || ''
     this.allowedChatId = config.chatId || process.env.TELEGRAM_CHAT_ID || ''
     this.sessionManager = new SessionManager()
     this.loopCommand = config.loopCommand || ['loopwork', 'run']
+    this.projectRoot = config.projectRoot || process.cwd()
     this.ipcHandler = new IPCHandler(this)
 
     // Whisper configuration
@@ -1089,6 +1094,12 @@ Simply type "Create a task..." to start drafting!${voiceNoteInfo}
 
     const data = query.data
 
+    const approval = parseApprovalCallback(data)
+    if (approval) {
+      await this.handleApprovalCallback(query, approval.approvalId, approval.approved)
+      return
+    }
+
     // Handle IPC-related callback queries
     if (data.startsWith('ipc:')) {
       const [_, messageId, response] = data.split(':')
@@ -1117,6 +1128,38 @@ Simply type "Create a task..." to start drafting!${voiceNoteInfo}
     }
   }
 
+  /**
+   * Record an Approve/Reject button press in the shared approval store; the
+   * loop waiting on the request picks the decision up from there
+   */
+  private async handleApprovalCallback(
+    query: NonNullable<TelegramUpdate['callback_query']>,
+    approvalId: string,
+    approved: boolean
+  ): Promise<void> {
+    if (!query.message || String(query.message.chat.id) !== this.allowedChatId) {
+      await this.answerCallbackQuery(query.id, 'Not authorized')
+      return
+    }
+
+    const decidedBy = query.from.username ? `@${query.from.username}` : query.from.first_name || String(query.from.id)
+    let text: string
+    try {
+      const { ApprovalStore } = await import('@loopwork-ai/loopwork/approvals')
+      const decided = new ApprovalStore({ projectRoot: this.projectRoot }).decide(approvalId, {
+        status: approved ? 'approved' : 'rejected',
+        decidedBy: `telegram:${decidedBy}`,
+        channel: 'telegram',
+      })
+      text = `Task ${decided.taskId} ${decided.status}`
+    } catch (e: any) {
+      text = e.message
+    }
+
+    await this.answerCallbackQuery(query.id, text)
+    await this.editMessageReplyMarkup(query.message.message_id, { inline_keyboard: [] })
+  }
+
   /**
    * Answer a callback query
    */
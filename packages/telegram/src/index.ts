@@ -26,3 +26,4 @@ export function withTelegram(options: TelegramConfig = {}): ConfigWrapper {
 export * from './notifications'
 export * from './bot'
 export * from './daily-briefing'
+export * from './approvals'
@@ -11,7 +11,7 @@
 
 import type { LoopworkPlugin, PluginTask, LoopStats, PluginTaskResult, TaskContext } from '@loopwork-ai/loopwork/contracts'
 import type { INotificationProvider, NotificationOptions } from '@loopwork-ai/contracts'
-import { logger } from '@loopwork-ai/common'
+import { logger, redactSecrets } from '@loopwork-ai/common'
 
 export type NotificationLevel = 'info' | 'success' | 'warning' | 'error'
 
@@ -106,7 +106,7 @@ export class TelegramNotificationProvider implements INotificationProvider {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           chat_id: this.config.chatId,
-          text,
+          text: redactSecrets(text),
           parse_mode: this.config.parseMode,
           disable_notification: this.config.disableNotification,
         }),
@@ -162,7 +162,7 @@ export function createTelegramPlugin(config?: Partial<TelegramConfig>): Notifica
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             chat_id: chatId,
-            text,
+            text: redactSecrets(text),
             parse_mode: parseMode,
             disable_notification: disableNotification,
           }),
@@ -0,0 +1,16 @@
+import { describe, expect, test } from 'bun:test'
+import { approvalCallbackData, parseApprovalCallback } from '../approvals'
+
+describe('approvals', () => {
+  describe('parseApprovalCallback', () => {
+    test('reads approve and reject buttons', () => {
+      expect(parseApprovalCallback(approvalCallbackData('apr_1_abc', 'approve'))).toEqual({ approvalId: 'apr_1_abc', approved: true })
+      expect(parseApprovalCallback(approvalCallbackData('apr_1_abc', 'reject'))).toEqual({ approvalId: 'apr_1_abc', approved: false })
+    })
+
+    test('ignores other callback data', () => {
+      expect(parseApprovalCallback('ipc:msg_1:approve')).toBeNull()
+      expect(parseApprovalCallback('approval:apr_1_abc:maybe')).toBeNull()
+    })
+  })
+})
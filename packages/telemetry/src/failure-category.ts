@@ -0,0 +1,23 @@
+import type { FailureCategory } from '@loopwork-ai/contracts'
+
+/**
+ * Patterns checked in order; the first match wins
+ */
+const FAILURE_PATTERNS: Array<[FailureCategory, RegExp]> = [
+  ['rate_limit', /rate.?limit|too many requests|\b429\b/i],
+  ['timeout', /timed out|timeout|ETIMEDOUT/i],
+  ['memory', /out of memory|ENOMEM|heap limit|resource exhausted/i],
+  ['opencode_dependency', /opencode.*(cannot find module|missing dependency|module not found)/i],
+  ['opencode_cache', /opencode.*cache/i],
+  ['cli_cache', /cache corrupt/i],
+]
+
+/**
+ * Classify a task failure message
+ */
+export function categorizeFailure(error: string): FailureCategory {
+  for (const [category, pattern] of FAILURE_PATTERNS) {
+    if (pattern.test(error)) return category
+  }
+  return 'unknown'
+}
@@ -2,3 +2,9 @@ export * from './console-collector'
 export * from './token-metrics'
 export * from './error-correlation'
 export * from './telemetry-provider'
+export * from './failure-category'
+export * from './otlp-tracer'
+export * from './otlp-metrics'
+export * from './otlp-exporter'
+export * from './local-collector'
+export * from './otlp-plugin'
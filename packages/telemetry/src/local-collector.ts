@@ -0,0 +1,179 @@
+import http from 'http'
+import type { AddressInfo } from 'net'
+import type { AttributeValue } from './otlp-tracer'
+import type { OtlpKeyValue } from './otlp-exporter'
+
+/**
+ * A span as received by the collector, with attributes decoded
+ */
+export interface CollectedSpan {
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  name: string
+  startTimeUnixNano: string
+  endTimeUnixNano: string
+  attributes: Record<string, AttributeValue>
+  status: { code: number; message?: string }
+  resource: Record<string, AttributeValue>
+}
+
+export interface CollectedDataPoint {
+  attributes: Record<string, AttributeValue>
+  /** Sum value */
+  value?: number
+  /** Histogram fields */
+  count?: number
+  sum?: number
+  bucketCounts?: number[]
+}
+
+/**
+ * A metric from one export request
+ */
+export interface CollectedMetric {
+  name: string
+  type: 'sum' | 'histogram' | 'gauge'
+  unit?: string
+  points: CollectedDataPoint[]
+}
+
+export function decodeAttributes(attributes: OtlpKeyValue[] = []): Record<string, AttributeValue> {
+  const result: Record<string, AttributeValue> = {}
+  for (const { key, value } of attributes) {
+    if ('stringValue' in value) result[key] = value.stringValue
+    else if ('intValue' in value) result[key] = Number(value.intValue)
+    else if ('doubleValue' in value) result[key] = value.doubleValue
+    else if ('boolValue' in value) result[key] = value.boolValue
+  }
+  return result
+}
+
+/**
+ * In-process stand-in for an OpenTelemetry collector.
+ *
+ * Accepts OTLP/HTTP JSON on /v1/traces and /v1/metrics and keeps what it
+ * receives, so exports can be asserted on in tests or inspected locally.
+ */
+export class LocalOtlpCollector {
+  readonly spans: CollectedSpan[] = []
+  readonly metrics: CollectedMetric[] = []
+  /** Request paths received, in order */
+  readonly requests: string[] = []
+  private server: http.Server | null = null
+  private url: string | null = null
+
+  /**
+   * Base URL to configure exporters with
+   */
+  get endpoint(): string {
+    if (!this.url) throw new Error('Collector is not started')
+    return this.url
+  }
+
+  /**
+   * Listen on localhost
+   *
+   * @param port - Port to listen on (default: any free port)
+   * @returns The collector's endpoint
+   */
+  async start(port = 0): Promise<string> {
+    if (this.url) return this.url
+
+    const server = http.createServer((req, res) => this.handle(req, res))
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(port, '127.0.0.1', () => resolve())
+    })
+    this.server = server
+    this.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    return this.url
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server
+    this.server = null
+    this.url = null
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()))
+    }
+  }
+
+  /**
+   * Most recent export of a metric; totals are cumulative, so this is the current value
+   */
+  latestMetric(name: string): CollectedMetric | undefined {
+    return [...this.metrics].reverse().find(m => m.name === name)
+  }
+
+  clear(): void {
+    this.spans.length = 0
+    this.metrics.length = 0
+    this.requests.length = 0
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const chunks: Buffer[] = []
+    req.on('data', chunk => chunks.push(chunk))
+    req.on('end', () => {
+      const path = req.url ?? ''
+      if (req.method !== 'POST' || (path !== '/v1/traces' && path !== '/v1/metrics')) {
+        res.writeHead(404).end()
+        return
+      }
+
+      try {
+        const body = JSON.parse(Buffer.concat(chunks).toString('utf-8'))
+        this.requests.push(path)
+        if (path === '/v1/traces') this.collectSpans(body)
+        else this.collectMetrics(body)
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end('{}')
+      } catch (error) {
+        res.writeHead(400).end(String(error))
+      }
+    })
+  }
+
+  private collectSpans(body: any): void {
+    for (const resourceSpans of body.resourceSpans ?? []) {
+      const resource = decodeAttributes(resourceSpans.resource?.attributes)
+      for (const scopeSpans of resourceSpans.scopeSpans ?? []) {
+        for (const span of scopeSpans.spans ?? []) {
+          this.spans.push({
+            traceId: span.traceId,
+            spanId: span.spanId,
+            parentSpanId: span.parentSpanId || undefined,
+            name: span.name,
+            startTimeUnixNano: span.startTimeUnixNano,
+            endTimeUnixNano: span.endTimeUnixNano,
+            attributes: decodeAttributes(span.attributes),
+            status: span.status ?? { code: 0 },
+            resource,
+          })
+        }
+      }
+    }
+  }
+
+  private collectMetrics(body: any): void {
+    for (const resourceMetrics of body.resourceMetrics ?? []) {
+      for (const scopeMetrics of resourceMetrics.scopeMetrics ?? []) {
+        for (const metric of scopeMetrics.metrics ?? []) {
+          const type = metric.sum ? 'sum' : metric.histogram ? 'histogram' : 'gauge'
+          const data = metric.sum ?? metric.histogram ?? metric.gauge ?? { dataPoints: [] }
+          this.metrics.push({
+            name: metric.name,
+            type,
+            unit: metric.unit,
+            points: (data.dataPoints ?? []).map((p: any) => ({
+              attributes: decodeAttributes(p.attributes),
+              ...(type === 'histogram'
+                ? { count: Number(p.count), sum: p.sum, bucketCounts: (p.bucketCounts ?? []).map(Number) }
+                : { value: p.asDouble ?? Number(p.asInt) }),
+            })),
+          })
+        }
+      }
+    }
+  }
+}
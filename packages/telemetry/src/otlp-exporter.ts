@@ -0,0 +1,205 @@
+import type { AttributeValue, Attributes, SpanData, SpanStatusCode } from './otlp-tracer'
+import { definedAttributes } from './otlp-tracer'
+import type { MetricData } from './otlp-metrics'
+
+/**
+ * Default collector for OTLP over HTTP
+ */
+export const DEFAULT_OTLP_ENDPOINT = 'http://localhost:4318'
+
+export interface OtlpExporterOptions {
+  /**
+   * Collector base URL; /v1/traces and /v1/metrics are appended
+   * (default: OTEL_EXPORTER_OTLP_ENDPOINT, then http://localhost:4318)
+   */
+  endpoint?: string
+  /** Extra request headers, e.g. auth (default: parsed from OTEL_EXPORTER_OTLP_HEADERS) */
+  headers?: Record<string, string>
+  /** service.name resource attribute (default: OTEL_SERVICE_NAME, then 'loopwork') */
+  serviceName?: string
+  /** Extra resource attributes, e.g. deployment.environment */
+  resourceAttributes?: Attributes
+  /** Request timeout (default: 10000) */
+  timeoutMs?: number
+  /** Injected for tests */
+  fetch?: typeof fetch
+}
+
+/** OTLP attribute as sent over JSON */
+export interface OtlpKeyValue {
+  key: string
+  value: { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean }
+}
+
+const SCOPE = { name: 'loopwork', version: '1.0.0' }
+
+/** OTLP SpanKind INTERNAL */
+const SPAN_KIND_INTERNAL = 1
+
+/** OTLP AggregationTemporality CUMULATIVE */
+const TEMPORALITY_CUMULATIVE = 2
+
+const STATUS_CODES: Record<SpanStatusCode, number> = { unset: 0, ok: 1, error: 2 }
+
+/**
+ * Parse the `key1=value1,key2=value2` format of OTEL_EXPORTER_OTLP_HEADERS
+ */
+export function parseOtlpHeaders(value: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const pair of (value ?? '').split(',')) {
+    const index = pair.indexOf('=')
+    if (index <= 0) continue
+    headers[decodeURIComponent(pair.slice(0, index).trim())] = decodeURIComponent(pair.slice(index + 1).trim())
+  }
+  return headers
+}
+
+function unixNano(ms: number): string {
+  return `${Math.round(ms)}000000`
+}
+
+export function encodeAttributes(attributes: Record<string, AttributeValue>): OtlpKeyValue[] {
+  return Object.entries(attributes).map(([key, value]) => {
+    if (typeof value === 'boolean') return { key, value: { boolValue: value } }
+    if (typeof value === 'number') {
+      return { key, value: Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value } }
+    }
+    return { key, value: { stringValue: value } }
+  })
+}
+
+/**
+ * OTLP/JSON ExportTraceServiceRequest body
+ */
+export function encodeSpans(spans: SpanData[], resource: Record<string, AttributeValue>): object {
+  return {
+    resourceSpans: [{
+      resource: { attributes: encodeAttributes(resource) },
+      scopeSpans: [{
+        scope: SCOPE,
+        spans: spans.map(span => ({
+          traceId: span.traceId,
+          spanId: span.spanId,
+          ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+          name: span.name,
+          kind: SPAN_KIND_INTERNAL,
+          startTimeUnixNano: unixNano(span.startTime),
+          endTimeUnixNano: unixNano(span.endTime),
+          attributes: encodeAttributes(span.attributes),
+          status: { code: STATUS_CODES[span.status.code], ...(span.status.message ? { message: span.status.message } : {}) },
+        })),
+      }],
+    }],
+  }
+}
+
+/**
+ * OTLP/JSON ExportMetricsServiceRequest body
+ */
+export function encodeMetrics(
+  metrics: MetricData[],
+  resource: Record<string, AttributeValue>,
+  startTime: number,
+  time = Date.now()
+): object {
+  const start = unixNano(startTime)
+  const now = unixNano(time)
+
+  return {
+    resourceMetrics: [{
+      resource: { attributes: encodeAttributes(resource) },
+      scopeMetrics: [{
+        scope: SCOPE,
+        metrics: metrics.map(metric => {
+          const base = {
+            name: metric.name,
+            ...(metric.description ? { description: metric.description } : {}),
+            ...(metric.unit ? { unit: metric.unit } : {}),
+          }
+          if (metric.type === 'sum') {
+            return {
+              ...base,
+              sum: {
+                aggregationTemporality: TEMPORALITY_CUMULATIVE,
+                isMonotonic: true,
+                dataPoints: metric.points.map(p => ({
+                  attributes: encodeAttributes(p.attributes),
+                  startTimeUnixNano: start,
+                  timeUnixNano: now,
+                  asDouble: p.value,
+                })),
+              },
+            }
+          }
+          return {
+            ...base,
+            histogram: {
+              aggregationTemporality: TEMPORALITY_CUMULATIVE,
+              dataPoints: metric.points.map(p => ({
+                attributes: encodeAttributes(p.attributes),
+                startTimeUnixNano: start,
+                timeUnixNano: now,
+                count: String(p.count),
+                sum: p.sum,
+                min: p.min,
+                max: p.max,
+                bucketCounts: p.bucketCounts.map(String),
+                explicitBounds: metric.bounds,
+              })),
+            },
+          }
+        }),
+      }],
+    }],
+  }
+}
+
+/**
+ * Sends spans and metrics to an OpenTelemetry collector using OTLP/HTTP with JSON bodies
+ */
+export class OtlpHttpExporter {
+  readonly endpoint: string
+  private headers: Record<string, string>
+  private resource: Record<string, AttributeValue>
+  private timeoutMs: number
+  private fetchImpl: typeof fetch
+
+  constructor(options: OtlpExporterOptions = {}) {
+    this.endpoint = (options.endpoint ?? process.env.OTEL_EXPORTER_OTLP_ENDPOINT ?? DEFAULT_OTLP_ENDPOINT).replace(/\/+$/, '')
+    this.headers = options.headers ?? parseOtlpHeaders(process.env.OTEL_EXPORTER_OTLP_HEADERS)
+    this.resource = definedAttributes({
+      'service.name': options.serviceName ?? process.env.OTEL_SERVICE_NAME ?? 'loopwork',
+      'service.namespace': 'loopwork',
+      ...options.resourceAttributes,
+    })
+    this.timeoutMs = options.timeoutMs ?? 10000
+    this.fetchImpl = options.fetch ?? fetch
+  }
+
+  async exportSpans(spans: SpanData[]): Promise<void> {
+    if (spans.length === 0) return
+    await this.post('/v1/traces', encodeSpans(spans, this.resource))
+  }
+
+  /**
+   * @param startTime - When the cumulative totals started, in epoch milliseconds
+   */
+  async exportMetrics(metrics: MetricData[], startTime: number): Promise<void> {
+    if (metrics.length === 0) return
+    await this.post('/v1/metrics', encodeMetrics(metrics, this.resource, startTime))
+  }
+
+  private async post(path: string, body: object): Promise<void> {
+    const url = `${this.endpoint}${path}`
+    const response = await this.fetchImpl(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    })
+    if (!response.ok) {
+      const text = await response.text().catch(() => '')
+      throw new Error(`OTLP export to ${url} failed: ${response.status} ${text}`.trim())
+    }
+  }
+}
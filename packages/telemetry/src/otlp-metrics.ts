@@ -0,0 +1,114 @@
+import { definedAttributes, type AttributeValue, type Attributes } from './otlp-tracer'
+
+/**
+ * Histogram bucket bounds for durations in milliseconds, from 100ms to 30 minutes
+ */
+export const DEFAULT_DURATION_BUCKETS_MS = [100, 500, 1000, 5000, 15000, 30000, 60000, 120000, 300000, 600000, 1800000]
+
+export interface InstrumentOptions {
+  description?: string
+  unit?: string
+}
+
+export interface HistogramOptions extends InstrumentOptions {
+  /** Upper bounds of the histogram buckets (default: DEFAULT_DURATION_BUCKETS_MS) */
+  bounds?: number[]
+}
+
+export interface SumPoint {
+  attributes: Record<string, AttributeValue>
+  value: number
+}
+
+export interface HistogramPoint {
+  attributes: Record<string, AttributeValue>
+  count: number
+  sum: number
+  min: number
+  max: number
+  /** One count per bucket, plus the overflow bucket */
+  bucketCounts: number[]
+}
+
+export type MetricData =
+  | (InstrumentOptions & { type: 'sum'; name: string; points: SumPoint[] })
+  | (InstrumentOptions & { type: 'histogram'; name: string; bounds: number[]; points: HistogramPoint[] })
+
+function pointKey(attributes: Record<string, AttributeValue>): string {
+  return JSON.stringify(Object.entries(attributes).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+/**
+ * Aggregates counters and histograms per attribute set.
+ *
+ * Values are cumulative since the meter was created, matching OTLP's
+ * cumulative temporality, so every export carries the running totals.
+ */
+export class OtlpMeter {
+  readonly startTime = Date.now()
+  private sums = new Map<string, InstrumentOptions & { points: Map<string, SumPoint> }>()
+  private histograms = new Map<string, HistogramOptions & { bounds: number[]; points: Map<string, HistogramPoint> }>()
+
+  /**
+   * Add to a monotonic counter
+   */
+  add(name: string, value: number, attributes: Attributes = {}, options: InstrumentOptions = {}): void {
+    let sum = this.sums.get(name)
+    if (!sum) {
+      sum = { ...options, points: new Map() }
+      this.sums.set(name, sum)
+    }
+
+    const attrs = definedAttributes(attributes)
+    const key = pointKey(attrs)
+    const point = sum.points.get(key) ?? { attributes: attrs, value: 0 }
+    point.value += value
+    sum.points.set(key, point)
+  }
+
+  /**
+   * Record a value in a histogram
+   */
+  record(name: string, value: number, attributes: Attributes = {}, options: HistogramOptions = {}): void {
+    let histogram = this.histograms.get(name)
+    if (!histogram) {
+      histogram = { ...options, bounds: options.bounds ?? DEFAULT_DURATION_BUCKETS_MS, points: new Map() }
+      this.histograms.set(name, histogram)
+    }
+
+    const attrs = definedAttributes(attributes)
+    const key = pointKey(attrs)
+    let point = histogram.points.get(key)
+    if (!point) {
+      point = { attributes: attrs, count: 0, sum: 0, min: value, max: value, bucketCounts: new Array(histogram.bounds.length + 1).fill(0) }
+      histogram.points.set(key, point)
+    }
+
+    point.count++
+    point.sum += value
+    point.min = Math.min(point.min, value)
+    point.max = Math.max(point.max, value)
+    const bucket = histogram.bounds.findIndex(bound => value <= bound)
+    point.bucketCounts[bucket === -1 ? histogram.bounds.length : bucket]++
+  }
+
+  /**
+   * Snapshot of every instrument's current totals
+   */
+  collect(): MetricData[] {
+    const metrics: MetricData[] = []
+    for (const [name, { points, ...options }] of this.sums) {
+      metrics.push({ ...options, type: 'sum', name, points: [...points.values()].map(p => ({ ...p })) })
+    }
+    for (const [name, { points, bounds, ...options }] of this.histograms) {
+      metrics.push({
+        ...options,
+        type: 'histogram',
+        name,
+        bounds,
+        points: [...points.values()].map(p => ({ ...p, bucketCounts: [...p.bucketCounts] })),
+      })
+    }
+    return metrics
+  }
+}
@@ -0,0 +1,387 @@
+/**
+ * OpenTelemetry Export Plugin
+ *
+ * Traces each loop run and ships spans and metrics to an OTLP/HTTP collector:
+ *
+ *   loopwork.run
+ *   └─ loopwork.task
+ *      ├─ loopwork.model_attempt (one per CLI/model tried)
+ *      ├─ loopwork.retry
+ *      ├─ loopwork.verification
+ *      └─ loopwork.plugin_hook (other plugins' hooks for the task)
+ */
+
+import type { LoopworkPlugin, LoopStats, PluginHookEvent, PluginTaskResult, TaskContext } from '@loopwork-ai/contracts'
+import { logger } from '@loopwork-ai/common'
+import { categorizeFailure } from './failure-category'
+import { OtlpHttpExporter, type OtlpExporterOptions } from './otlp-exporter'
+import { OtlpMeter } from './otlp-metrics'
+import { OtlpTracer, type OtlpSpan } from './otlp-tracer'
+
+interface LoopworkConfig {
+  plugins?: LoopworkPlugin[]
+  [key: string]: any
+}
+
+type ConfigWrapper = (config: LoopworkConfig) => LoopworkConfig
+
+/**
+ * Tokens and cost of one model attempt
+ */
+export interface AttemptUsage {
+  inputTokens: number
+  outputTokens: number
+  /** USD */
+  cost?: number
+}
+
+export interface UsageInput {
+  output: string
+  model: string
+  cli: string
+}
+
+export interface OtlpPluginOptions extends OtlpExporterOptions {
+  /** Exporter to use instead of one built from the options above */
+  exporter?: OtlpHttpExporter
+  /**
+   * Read token usage from a CLI run's output
+   * (default: the budget manager's output parser and model pricing)
+   */
+  parseUsage?: (input: UsageInput) => AttemptUsage | null | Promise<AttemptUsage | null>
+}
+
+interface StepEvent {
+  stepId: string
+  phase: 'start' | 'end'
+  durationMs?: number
+  context?: Record<string, any>
+}
+
+interface CliResultEvent {
+  taskId?: string
+  model: string
+  cli: string
+  exitCode: number
+  durationMs: number
+  output: string
+  timedOut: boolean
+  usage?: { inputTokens: number; outputTokens: number; costUsd?: number }
+}
+
+interface TaskTotals {
+  inputTokens: number
+  outputTokens: number
+  cost: number
+  attempts: number
+  cli?: string
+  model?: string
+}
+
+async function readUsage({ output, model }: UsageInput): Promise<AttemptUsage | null> {
+  const { parseUsageFromOutput, calculateModelCost } = await import('@loopwork-ai/budget-manager')
+  const usage = parseUsageFromOutput(output)
+  if (!usage) return null
+
+  return {
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    cost: calculateModelCost(model, usage),
+  }
+}
+
+export function createOtlpPlugin(options: OtlpPluginOptions = {}): LoopworkPlugin {
+  const exporter = options.exporter ?? new OtlpHttpExporter(options)
+  const parseUsage = options.parseUsage ?? readUsage
+  const tracer = new OtlpTracer()
+  const meter = new OtlpMeter()
+
+  let loopSpan: OtlpSpan | null = null
+  let namespace = 'default'
+  // An ended task's span is kept until the next task ends, so hooks running
+  // after ours still nest under it
+  const taskSpans = new Map<string, OtlpSpan>()
+  let lastEndedTaskId: string | undefined
+  const attemptSpans = new Map<string, OtlpSpan>()
+  const verificationSpans = new Map<string, OtlpSpan>()
+  const totals = new Map<string, TaskTotals>()
+  let exportFailed = false
+
+  const parentFor = (taskId?: string): OtlpSpan | null =>
+    (taskId ? taskSpans.get(taskId) : undefined) ?? loopSpan
+
+  const totalsFor = (taskId: string): TaskTotals => {
+    let entry = totals.get(taskId)
+    if (!entry) {
+      entry = { inputTokens: 0, outputTokens: 0, cost: 0, attempts: 0 }
+      totals.set(taskId, entry)
+    }
+    return entry
+  }
+
+  // Metrics are cumulative, so each export carries the totals so far
+  const flush = async () => {
+    try {
+      await exporter.exportSpans(tracer.drain())
+      await exporter.exportMetrics(meter.collect(), meter.startTime)
+      exportFailed = false
+    } catch (error) {
+      // Warn once per outage rather than on every task
+      const message = `OTLP export to ${exporter.endpoint} failed: ${error instanceof Error ? error.message : String(error)}`
+      if (exportFailed) {
+        logger.debug(message)
+      } else {
+        logger.warn(message)
+      }
+      exportFailed = true
+    }
+  }
+
+  const endAttempt = (taskId: string, status: 'ok' | 'error', message?: string) => {
+    const span = attemptSpans.get(taskId)
+    if (!span) return
+    span.setStatus(status, message).end()
+    attemptSpans.delete(taskId)
+  }
+
+  const endTask = async (context: TaskContext, success: boolean, error?: string) => {
+    const taskId = context.task.id as string
+    const span = taskSpans.get(taskId)
+    if (!span || span.isEnded) return
+
+    endAttempt(taskId, 'error', 'Task ended before the attempt reported a result')
+    verificationSpans.get(taskId)?.end()
+    verificationSpans.delete(taskId)
+
+    const entry = totalsFor(taskId)
+    const cli = context.cli ?? entry.cli
+    const model = context.model ?? entry.model
+    const durationMs = Date.now() - span.startTime
+    const category = success ? undefined : categorizeFailure(error ?? '')
+
+    span.setAttributes({
+      'loopwork.cli': cli,
+      'loopwork.model': model,
+      'loopwork.attempts': entry.attempts,
+      'loopwork.tokens.input': entry.inputTokens,
+      'loopwork.tokens.output': entry.outputTokens,
+      'loopwork.cost_usd': entry.cost,
+      'task.success': success,
+      'failure.category': category,
+    })
+    span.setStatus(success ? 'ok' : 'error', error?.slice(0, 500)).end()
+    totals.delete(taskId)
+    if (lastEndedTaskId && lastEndedTaskId !== taskId && taskSpans.get(lastEndedTaskId)?.isEnded) {
+      taskSpans.delete(lastEndedTaskId)
+    }
+    lastEndedTaskId = taskId
+
+    meter.record('loopwork.task.duration', durationMs, {
+      'task.status': success ? 'success' : 'failed',
+      'loopwork.namespace': namespace,
+      'loopwork.cli': cli,
+      'loopwork.model': model,
+    }, { description: 'Task execution duration', unit: 'ms' })
+    if (category) {
+      meter.add('loopwork.task.failures', 1, {
+        'failure.category': category,
+        'loopwork.namespace': namespace,
+        'loopwork.cli': cli,
+        'loopwork.model': model,
+      }, { description: 'Failed tasks by failure category', unit: '1' })
+    }
+
+    await flush()
+  }
+
+  return {
+    name: 'otlp',
+    classification: 'enhancement',
+    requiresNetwork: true,
+
+    async onLoopStart(ns: string) {
+      namespace = ns
+      loopSpan = tracer.startSpan('loopwork.run', { attributes: { 'loopwork.namespace': ns } })
+    },
+
+    async onTaskStart(context: TaskContext) {
+      const task = context.task
+      const span = tracer.startSpan('loopwork.task', {
+        parent: loopSpan,
+        attributes: {
+          'task.id': task.id,
+          'task.title': task.title,
+          'task.priority': task.priority,
+          'task.feature': task.feature,
+          'loopwork.namespace': context.namespace,
+          'loopwork.iteration': context.iteration,
+          'loopwork.worker_id': context.workerId,
+          'loopwork.cli': context.cli,
+          'loopwork.model': context.model,
+        },
+      })
+      taskSpans.set(task.id, span)
+      totals.delete(task.id)
+    },
+
+    async onStep(event: StepEvent) {
+      const taskId = event.context?.taskId as string | undefined
+      if (!taskId) return
+
+      if (event.stepId === 'model_selected') {
+        endAttempt(taskId, 'error', 'Superseded by the next attempt')
+        const entry = totalsFor(taskId)
+        entry.attempts++
+        entry.cli = event.context?.cli
+        entry.model = event.context?.model
+        attemptSpans.set(taskId, tracer.startSpan('loopwork.model_attempt', {
+          parent: parentFor(taskId),
+          attributes: {
+            'task.id': taskId,
+            'loopwork.attempt': entry.attempts,
+            'loopwork.cli': event.context?.cli,
+            'loopwork.model': event.context?.model,
+          },
+        }))
+      } else if (event.stepId === 'cli_execution_end') {
+        endAttempt(taskId, 'error', 'CLI execution ended without a result')
+      } else if (event.stepId === 'acceptance_verification' && event.phase === 'start') {
+        verificationSpans.set(taskId, tracer.startSpan('loopwork.verification', {
+          parent: parentFor(taskId),
+          attributes: { 'task.id': taskId },
+        }))
+      } else if (event.stepId === 'acceptance_verification' && event.phase === 'end') {
+        const span = verificationSpans.get(taskId)
+        if (!span) return
+        const passed = event.context?.passed !== false
+        span.setAttributes({
+          'verification.passed': passed,
+          'verification.criteria': event.context?.criteria,
+          'verification.failures': event.context?.failures,
+        })
+        span.setStatus(passed ? 'ok' : 'error').end()
+        verificationSpans.delete(taskId)
+      }
+    },
+
+    async onCliResult(event: CliResultEvent) {
+      const taskId = event.taskId
+      if (!taskId) return
+
+      const span = attemptSpans.get(taskId)
+      // Usage from the CLI's event stream is exact, so it wins over parsing the output
+      const usage: AttemptUsage | null = event.usage
+        ? { inputTokens: event.usage.inputTokens, outputTokens: event.usage.outputTokens, cost: event.usage.costUsd }
+        : event.output
+          ? await Promise.resolve(parseUsage({ output: event.output, model: event.model, cli: event.cli })).catch(() => null)
+          : null
+
+      const attributes = {
+        'loopwork.cli': event.cli,
+        'loopwork.model': event.model,
+      }
+      if (usage) {
+        const entry = totalsFor(taskId)
+        entry.inputTokens += usage.inputTokens
+        entry.outputTokens += usage.outputTokens
+        entry.cost += usage.cost ?? 0
+        meter.add('loopwork.tokens', usage.inputTokens, { ...attributes, 'token.type': 'input' }, { description: 'Tokens used by model attempts', unit: '{token}' })
+        meter.add('loopwork.tokens', usage.outputTokens, { ...attributes, 'token.type': 'output' })
+        if (usage.cost !== undefined) {
+          meter.add('loopwork.cost', usage.cost, attributes, { description: 'Estimated model cost', unit: 'USD' })
+        }
+      }
+
+      if (!span) return
+      span.setAttributes({
+        'cli.exit_code': event.exitCode,
+        'cli.timed_out': event.timedOut,
+        'cli.duration_ms': event.durationMs,
+        'loopwork.tokens.input': usage?.inputTokens,
+        'loopwork.tokens.output': usage?.outputTokens,
+        'loopwork.cost_usd': usage?.cost,
+      })
+      const failed = event.exitCode !== 0 || event.timedOut
+      endAttempt(taskId, failed ? 'error' : 'ok', event.timedOut ? 'Timed out' : failed ? `Exited with code ${event.exitCode}` : undefined)
+    },
+
+    // Called as (context, error) by the loop and ({ task, retryAttempt, error }) by the executor
+    async onTaskRetry(context: TaskContext & { error?: string }, error?: string) {
+      const taskId = context.task?.id as string | undefined
+      const message = error ?? context.error ?? ''
+      const category = categorizeFailure(message)
+      const now = Date.now()
+
+      tracer.startSpan('loopwork.retry', {
+        parent: parentFor(taskId),
+        startTime: now,
+        attributes: {
+          'task.id': taskId,
+          'loopwork.retry_attempt': context.retryAttempt,
+          'failure.category': category,
+          'error.message': message.slice(0, 500),
+        },
+      }).setStatus('error', message.slice(0, 500)).end(now)
+
+      meter.add('loopwork.task.retries', 1, {
+        'failure.category': category,
+        'loopwork.namespace': namespace,
+      }, { description: 'Task retries by failure category', unit: '1' })
+    },
+
+    onPluginHook(event: PluginHookEvent) {
+      const parent = parentFor(event.taskId)
+      if (!parent) return
+
+      tracer.startSpan('loopwork.plugin_hook', {
+        parent,
+        startTime: event.startTime,
+        attributes: {
+          'plugin.name': event.plugin,
+          'plugin.hook': event.hook,
+          'task.id': event.taskId,
+        },
+      }).setStatus(event.error ? 'error' : 'ok', event.error).end(event.startTime + event.durationMs)
+    },
+
+    async onTaskComplete(context: TaskContext, result: PluginTaskResult) {
+      await endTask(context, result.success !== false, result.error)
+    },
+
+    async onTaskFailed(context: TaskContext, error: string) {
+      await endTask(context, false, error)
+    },
+
+    async onTaskAbort(context: TaskContext) {
+      await endTask(context, false, 'Task aborted')
+    },
+
+    async onLoopEnd(stats: LoopStats) {
+      for (const span of taskSpans.values()) {
+        if (!span.isEnded) span.setStatus('error', 'Loop ended before the task').end()
+      }
+      if (loopSpan) {
+        loopSpan.setAttributes({
+          'loop.completed': stats?.completed,
+          'loop.failed': stats?.failed,
+          'loop.total': stats?.total,
+        })
+        loopSpan.setStatus('ok').end()
+        loopSpan = null
+      }
+      taskSpans.clear()
+      lastEndedTaskId = undefined
+      await flush()
+    },
+  }
+}
+
+/**
+ * Export traces and metrics to an OpenTelemetry collector over OTLP/HTTP
+ */
+export function withOtlpExport(options: OtlpPluginOptions = {}): ConfigWrapper {
+  return (config: LoopworkConfig) => ({
+    ...config,
+    plugins: [...(config.plugins || []), createOtlpPlugin(options)],
+  })
+}
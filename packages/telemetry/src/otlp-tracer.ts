@@ -0,0 +1,129 @@
+import { randomBytes } from 'crypto'
+
+export type AttributeValue = string | number | boolean
+
+/**
+ * Span or metric attributes; undefined values are dropped
+ */
+export type Attributes = Record<string, AttributeValue | undefined>
+
+export type SpanStatusCode = 'unset' | 'ok' | 'error'
+
+/**
+ * A finished span, ready for export
+ */
+export interface SpanData {
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  name: string
+  /** Epoch milliseconds */
+  startTime: number
+  /** Epoch milliseconds */
+  endTime: number
+  attributes: Record<string, AttributeValue>
+  status: { code: SpanStatusCode; message?: string }
+}
+
+export interface StartSpanOptions {
+  /** Parent span; without one the span starts a new trace */
+  parent?: OtlpSpan | null
+  attributes?: Attributes
+  /** Epoch milliseconds (default: now) */
+  startTime?: number
+}
+
+/**
+ * Drop undefined attribute values
+ */
+export function definedAttributes(attributes: Attributes): Record<string, AttributeValue> {
+  const result: Record<string, AttributeValue> = {}
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) result[key] = value
+  }
+  return result
+}
+
+/**
+ * A span being recorded. Ending it hands it to the tracer for export.
+ */
+export class OtlpSpan {
+  readonly traceId: string
+  readonly spanId: string
+  readonly parentSpanId?: string
+  readonly startTime: number
+  private attributes: Record<string, AttributeValue>
+  private status: SpanData['status'] = { code: 'unset' }
+  private ended = false
+
+  constructor(
+    private readonly tracer: OtlpTracer,
+    readonly name: string,
+    options: StartSpanOptions = {}
+  ) {
+    this.traceId = options.parent?.traceId ?? randomBytes(16).toString('hex')
+    this.spanId = randomBytes(8).toString('hex')
+    this.parentSpanId = options.parent?.spanId
+    this.startTime = options.startTime ?? Date.now()
+    this.attributes = definedAttributes(options.attributes ?? {})
+  }
+
+  get isEnded(): boolean {
+    return this.ended
+  }
+
+  setAttributes(attributes: Attributes): this {
+    Object.assign(this.attributes, definedAttributes(attributes))
+    return this
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    this.status = message ? { code, message } : { code }
+    return this
+  }
+
+  /**
+   * End the span; later calls are ignored
+   */
+  end(endTime = Date.now()): void {
+    if (this.ended) return
+    this.ended = true
+    this.tracer.record({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      startTime: this.startTime,
+      endTime,
+      attributes: { ...this.attributes },
+      status: { ...this.status },
+    })
+  }
+}
+
+/**
+ * Creates spans and buffers them once ended until they are drained for export
+ */
+export class OtlpTracer {
+  private finished: SpanData[] = []
+
+  startSpan(name: string, options: StartSpanOptions = {}): OtlpSpan {
+    return new OtlpSpan(this, name, options)
+  }
+
+  /**
+   * Buffer a finished span (called by OtlpSpan.end)
+   */
+  record(span: SpanData): void {
+    this.finished.push(span)
+  }
+
+  /**
+   * Take every finished span not yet exported
+   */
+  drain(): SpanData[] {
+    const spans = this.finished
+    this.finished = []
+    return spans
+  }
+}
@@ -0,0 +1,208 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
+import type { LoopworkPlugin, TaskContext } from '@loopwork-ai/contracts'
+import {
+  LocalOtlpCollector,
+  OtlpHttpExporter,
+  OtlpMeter,
+  categorizeFailure,
+  createOtlpPlugin,
+  parseOtlpHeaders,
+} from '../src'
+import { calculateModelCost } from '@loopwork-ai/budget-manager'
+
+type Plugin = Required<LoopworkPlugin>
+
+function taskContext(id: string, overrides: Partial<TaskContext> = {}): TaskContext {
+  return {
+    task: { id, title: `Task ${id}`, priority: 'high' },
+    config: {},
+    iteration: 1,
+    startTime: new Date(),
+    namespace: 'default',
+    cli: 'claude',
+    model: 'sonnet',
+    ...overrides,
+  }
+}
+
+/**
+ * Drive the plugin through one model attempt the way the executor does
+ */
+async function runAttempt(plugin: Plugin, taskId: string, exitCode: number, output = '') {
+  await plugin.onStep({ stepId: 'model_selected', phase: 'start', context: { taskId, cli: 'claude', model: 'sonnet' } })
+  await plugin.onCliResult({ taskId, cli: 'claude', model: 'sonnet', exitCode, durationMs: 1200, output, timedOut: false })
+}
+
+describe('OTLP export', () => {
+  let collector: LocalOtlpCollector
+  let plugin: Plugin
+
+  beforeEach(async () => {
+    collector = new LocalOtlpCollector()
+    const endpoint = await collector.start()
+    plugin = createOtlpPlugin({
+      endpoint,
+      serviceName: 'loopwork-test',
+      parseUsage: ({ output }) => output ? { inputTokens: 1000, outputTokens: 200, cost: 0.5 } : null,
+    }) as Plugin
+  })
+
+  afterEach(async () => {
+    await collector.stop()
+  })
+
+  test('exports a trace per run with task, attempt, retry, verification and hook spans', async () => {
+    const context = taskContext('TASK-1')
+    await plugin.onLoopStart('default')
+    await plugin.onTaskStart(context)
+    await runAttempt(plugin, 'TASK-1', 1)
+    await plugin.onTaskRetry({ task: context.task, retryAttempt: 1, error: 'Rate limit exceeded on sonnet' })
+    await runAttempt(plugin, 'TASK-1', 0, 'Tokens: 1000 input, 200 output')
+    await plugin.onStep({ stepId: 'acceptance_verification', phase: 'start', context: { taskId: 'TASK-1' } })
+    await plugin.onStep({ stepId: 'acceptance_verification', phase: 'end', context: { taskId: 'TASK-1', passed: true, criteria: 2, failures: 0 } })
+    plugin.onPluginHook({ plugin: 'git-autocommit', hook: 'onTaskComplete', startTime: Date.now(), durationMs: 40, taskId: 'TASK-1' })
+    await plugin.onTaskComplete(context, { duration: 3, success: true })
+    await plugin.onLoopEnd({ completed: 1, failed: 0, total: 1 })
+
+    const byName = (name: string) => collector.spans.filter(s => s.name === name)
+    const [run] = byName('loopwork.run')
+    const [task] = byName('loopwork.task')
+
+    expect(run.parentSpanId).toBeUndefined()
+    expect(run.attributes['loop.completed']).toBe(1)
+    expect(run.resource['service.name']).toBe('loopwork-test')
+    expect(collector.spans.every(s => s.traceId === run.traceId)).toBe(true)
+
+    expect(task.parentSpanId).toBe(run.spanId)
+    expect(task.attributes).toMatchObject({
+      'task.id': 'TASK-1',
+      'loopwork.cli': 'claude',
+      'loopwork.model': 'sonnet',
+      'loopwork.attempts': 2,
+      'loopwork.tokens.input': 1000,
+      'loopwork.tokens.output': 200,
+      'loopwork.cost_usd': 0.5,
+      'task.success': true,
+    })
+    expect(task.status.code).toBe(1)
+
+    const attempts = byName('loopwork.model_attempt')
+    expect(attempts.map(a => [a.attributes['loopwork.attempt'], a.status.code])).toEqual([[1, 2], [2, 1]])
+    expect(attempts.every(a => a.parentSpanId === task.spanId)).toBe(true)
+
+    const [retry] = byName('loopwork.retry')
+    expect(retry.parentSpanId).toBe(task.spanId)
+    expect(retry.attributes['failure.category']).toBe('rate_limit')
+
+    const [verification] = byName('loopwork.verification')
+    expect(verification.attributes).toMatchObject({ 'verification.passed': true, 'verification.criteria': 2 })
+
+    const [hook] = byName('loopwork.plugin_hook')
+    expect(hook.parentSpanId).toBe(task.spanId)
+    expect(hook.attributes).toMatchObject({ 'plugin.name': 'git-autocommit', 'plugin.hook': 'onTaskComplete' })
+  })
+
+  test('exports duration histograms and failure counters by category', async () => {
+    await plugin.onLoopStart('default')
+    for (const [id, error] of [['TASK-1', 'Execution timed out after 600s'], ['TASK-2', 'Execution timed out after 600s'], ['TASK-3', 'CLI exited with code 1']]) {
+      const context = taskContext(id)
+      await plugin.onTaskStart(context)
+      await runAttempt(plugin, id, 1)
+      await plugin.onTaskFailed(context, error)
+    }
+    const done = taskContext('TASK-4')
+    await plugin.onTaskStart(done)
+    await runAttempt(plugin, 'TASK-4', 0, 'Tokens: 1000 input, 200 output')
+    await plugin.onTaskComplete(done, { duration: 1, success: true })
+    await plugin.onLoopEnd({ completed: 1, failed: 3, total: 4 })
+
+    const failures = collector.latestMetric('loopwork.task.failures')!
+    expect(failures.type).toBe('sum')
+    expect(failures.points.map(p => [p.attributes['failure.category'], p.value]).sort()).toEqual([['timeout', 2], ['unknown', 1]])
+
+    const duration = collector.latestMetric('loopwork.task.duration')!
+    expect(duration.type).toBe('histogram')
+    const counts = Object.fromEntries(duration.points.map(p => [p.attributes['task.status'], p.count]))
+    expect(counts).toEqual({ failed: 3, success: 1 })
+
+    const tokens = collector.latestMetric('loopwork.tokens')!
+    expect(tokens.points.find(p => p.attributes['token.type'] === 'input')!.value).toBe(1000)
+    expect(collector.latestMetric('loopwork.cost')!.points[0].value).toBe(0.5)
+  })
+
+  test('exports metrics when a task ends, before the loop does', async () => {
+    await plugin.onLoopStart('default')
+    const context = taskContext('TASK-1')
+    await plugin.onTaskStart(context)
+    await plugin.onTaskFailed(context, 'Execution timed out after 600s')
+
+    expect(collector.latestMetric('loopwork.task.failures')!.points[0].value).toBe(1)
+  })
+
+  test('prices parsed usage with the budget manager\'s model pricing', async () => {
+    const defaultPlugin = createOtlpPlugin({ endpoint: collector.endpoint }) as Plugin
+    await defaultPlugin.onLoopStart('default')
+    await defaultPlugin.onTaskStart(taskContext('TASK-1'))
+    await runAttempt(defaultPlugin, 'TASK-1', 0, 'Tokens: 1000 input, 200 output')
+    await defaultPlugin.onLoopEnd({ completed: 1, failed: 0, total: 1 })
+
+    expect(collector.latestMetric('loopwork.cost')!.points[0].value)
+      .toBeCloseTo(calculateModelCost('sonnet', { inputTokens: 1000, outputTokens: 200 }))
+  })
+
+  test('keeps running when the collector is unreachable', async () => {
+    await collector.stop()
+    await plugin.onLoopStart('default')
+    await plugin.onTaskStart(taskContext('TASK-1'))
+    await plugin.onTaskFailed(taskContext('TASK-1'), 'boom')
+    await plugin.onLoopEnd({ completed: 0, failed: 1, total: 1 })
+
+    expect(collector.spans).toHaveLength(0)
+  })
+})
+
+describe('OtlpHttpExporter', () => {
+  test('sends OTLP JSON with configured headers', async () => {
+    const requests: Array<{ url: string; headers: Record<string, string>; body: any }> = []
+    const fetchStub = (async (url: string, init: RequestInit) => {
+      requests.push({ url, headers: init.headers as Record<string, string>, body: JSON.parse(init.body as string) })
+      return new Response('{}')
+    }) as unknown as typeof fetch
+    const exporter = new OtlpHttpExporter({ endpoint: 'http://collector:4318/', headers: { authorization: 'Bearer abc' }, fetch: fetchStub })
+
+    const meter = new OtlpMeter()
+    meter.add('loopwork.task.failures', 1, { 'failure.category': 'timeout' })
+    meter.record('loopwork.task.duration', 1500)
+    await exporter.exportMetrics(meter.collect(), meter.startTime)
+
+    expect(requests[0].url).toBe('http://collector:4318/v1/metrics')
+    expect(requests[0].headers.authorization).toBe('Bearer abc')
+    const [sum, histogram] = requests[0].body.resourceMetrics[0].scopeMetrics[0].metrics
+    expect(sum.sum.dataPoints[0]).toMatchObject({ asDouble: 1, attributes: [{ key: 'failure.category', value: { stringValue: 'timeout' } }] })
+    expect(histogram.histogram.dataPoints[0]).toMatchObject({ count: '1', sum: 1500 })
+    expect(histogram.histogram.dataPoints[0].bucketCounts[3]).toBe('1')
+  })
+
+  test('reports collector errors', async () => {
+    const fetchStub = (async () => new Response('bad payload', { status: 400 })) as unknown as typeof fetch
+    const exporter = new OtlpHttpExporter({ endpoint: 'http://collector:4318', fetch: fetchStub })
+
+    await expect(exporter.exportSpans([{
+      traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), name: 'x', startTime: 0, endTime: 1, attributes: {}, status: { code: 'ok' },
+    }])).rejects.toThrow('OTLP export to http://collector:4318/v1/traces failed: 400 bad payload')
+  })
+
+  test('parses OTEL_EXPORTER_OTLP_HEADERS', () => {
+    expect(parseOtlpHeaders('api-key=abc%3D,x-team = loopwork,broken')).toEqual({ 'api-key': 'abc=', 'x-team': 'loopwork' })
+  })
+})
+
+describe('categorizeFailure', () => {
+  test('classifies common failures', () => {
+    expect(categorizeFailure('Rate limit exceeded on sonnet')).toBe('rate_limit')
+    expect(categorizeFailure('Execution timed out after 600s')).toBe('timeout')
+    expect(categorizeFailure('FATAL ERROR: JavaScript heap out of memory')).toBe('memory')
+    expect(categorizeFailure('opencode cache corruption detected')).toBe('opencode_cache')
+    expect(categorizeFailure('CLI exited with code 1')).toBe('unknown')
+  })
+})
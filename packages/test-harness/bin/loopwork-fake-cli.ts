@@ -0,0 +1,6 @@
+#!/usr/bin/env bun
+import { runFakeCli } from '../src/fake-cli'
+
+runFakeCli(process.argv.slice(2)).then((code) => {
+  process.exitCode = code
+})
@@ -0,0 +1,187 @@
+/**
+ * loopwork-fake-cli
+ *
+ * A scripted stand-in for an AI CLI. It reads the prompt from stdin (or
+ * --prompt), picks a response from the scenario file and plays its steps, so
+ * tests can drive the real executor spawn path without any network access.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import type { CustomCliConfig } from '@loopwork-ai/contracts'
+import {
+  DEFAULT_QUOTA_MESSAGE,
+  DEFAULT_RATE_LIMIT_MESSAGE,
+  formatUsage,
+  parseScenario,
+  selectResponse,
+} from './scenario'
+import type { FakeCliScenario, FakeCliState, FakeCliStep } from './scenario'
+
+export * from './scenario'
+
+export const FAKE_CLI_VERSION = '0.1.0'
+
+/** Absolute path of the executable */
+export const FAKE_CLI_PATH = path.resolve(__dirname, '../../bin/loopwork-fake-cli.ts')
+
+/**
+ * Custom CLI definition for the fake CLI. Add it to `customClis` and give
+ * models `cli: 'fake'` with the scenario file as their model.
+ */
+export const FAKE_CLI_CONFIG: CustomCliConfig = {
+  name: 'fake',
+  command: FAKE_CLI_PATH,
+  args: ['--scenario', '{model}'],
+  prompt: 'stdin',
+  rateLimitPatterns: ['rate.*limit', 'too many requests', '429'],
+  quotaPatterns: ['quota.*exceed', 'billing.*limit'],
+}
+
+/** Exit code when the scenario file is missing or invalid */
+export const EXIT_BAD_SCENARIO = 2
+/** Exit code when no response in the scenario matches the prompt */
+export const EXIT_NO_MATCH = 3
+
+export interface FakeCliIO {
+  stdout: { write(chunk: string): unknown }
+  stderr: { write(chunk: string): unknown }
+  readStdin(): Promise<string>
+  env: Record<string, string | undefined>
+  cwd: string
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function readProcessStdin(): Promise<string> {
+  if (process.stdin.isTTY) return ''
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk))
+  }
+  return Buffer.concat(chunks).toString('utf-8')
+}
+
+const processIO: FakeCliIO = {
+  stdout: process.stdout,
+  stderr: process.stderr,
+  readStdin: readProcessStdin,
+  env: process.env,
+  cwd: process.cwd(),
+}
+
+/**
+ * Where invocations of a scenario are recorded. Kept next to the scenario
+ * unless LOOPWORK_FAKE_CLI_STATE says otherwise.
+ */
+export function stateFileFor(scenarioPath: string, env: Record<string, string | undefined> = process.env): string {
+  return env.LOOPWORK_FAKE_CLI_STATE || `${scenarioPath}.state.json`
+}
+
+/**
+ * Invocations recorded so far for a scenario file
+ */
+export function readFakeCliState(scenarioPath: string, env?: Record<string, string | undefined>): FakeCliState {
+  const stateFile = stateFileFor(scenarioPath, env)
+  if (!fs.existsSync(stateFile)) return { calls: [] }
+  return JSON.parse(fs.readFileSync(stateFile, 'utf-8')) as FakeCliState
+}
+
+/**
+ * Write a scenario to disk and forget any invocations recorded for it
+ */
+export function writeFakeScenario(scenarioPath: string, scenario: FakeCliScenario): string {
+  fs.mkdirSync(path.dirname(scenarioPath), { recursive: true })
+  fs.writeFileSync(scenarioPath, JSON.stringify(scenario, null, 2))
+  fs.rmSync(stateFileFor(scenarioPath), { force: true })
+  return scenarioPath
+}
+
+function parseArgs(argv: string[]): { scenario?: string; prompt?: string; version: boolean } {
+  const parsed: { scenario?: string; prompt?: string; version: boolean } = { version: false }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--version' || arg === '-v') parsed.version = true
+    else if (arg === '--scenario') parsed.scenario = argv[++i]
+    else if (arg === '--prompt') parsed.prompt = argv[++i]
+  }
+  return parsed
+}
+
+/**
+ * Run the fake CLI and resolve with its exit code. A `hang` step never
+ * resolves; the caller's timeout is expected to kill the process.
+ */
+export async function runFakeCli(argv: string[], io: FakeCliIO = processIO): Promise<number> {
+  const args = parseArgs(argv)
+  if (args.version) {
+    io.stdout.write(`loopwork-fake-cli ${FAKE_CLI_VERSION}\n`)
+    return 0
+  }
+
+  const scenarioArg = args.scenario ?? io.env.LOOPWORK_FAKE_CLI_SCENARIO
+  if (!scenarioArg) {
+    io.stderr.write('loopwork-fake-cli: no scenario given (use --scenario <file> or LOOPWORK_FAKE_CLI_SCENARIO)\n')
+    return EXIT_BAD_SCENARIO
+  }
+
+  const scenarioPath = path.resolve(io.cwd, scenarioArg)
+  let scenario: FakeCliScenario
+  try {
+    scenario = parseScenario(JSON.parse(fs.readFileSync(scenarioPath, 'utf-8')), scenarioPath)
+  } catch (error) {
+    io.stderr.write(`loopwork-fake-cli: ${(error as Error).message}\n`)
+    return EXIT_BAD_SCENARIO
+  }
+
+  const prompt = args.prompt ?? await io.readStdin()
+  const state = readFakeCliState(scenarioPath, io.env)
+  const index = selectResponse(scenario, prompt, state)
+  if (index < 0) {
+    io.stderr.write(`loopwork-fake-cli: no response in ${scenarioPath} matches the prompt\n`)
+    return EXIT_NO_MATCH
+  }
+
+  // Recorded before playing so hung and killed invocations are counted too
+  state.calls.push({ response: index, prompt, args: argv, timestamp: Date.now() })
+  fs.writeFileSync(stateFileFor(scenarioPath, io.env), JSON.stringify(state, null, 2))
+
+  for (const step of scenario.responses[index].steps) {
+    const exitCode = await playStep(step, io)
+    if (exitCode !== undefined) return exitCode
+  }
+  return 0
+}
+
+async function playStep(step: FakeCliStep, io: FakeCliIO): Promise<number | undefined> {
+  switch (step.type) {
+    case 'output':
+      if (step.delayMs) await sleep(step.delayMs)
+      io[step.stream ?? 'stdout'].write(step.text)
+      return undefined
+    case 'sleep':
+      await sleep(step.ms)
+      return undefined
+    case 'writeFile': {
+      const target = path.resolve(io.cwd, step.path)
+      fs.mkdirSync(path.dirname(target), { recursive: true })
+      fs.writeFileSync(target, step.content)
+      return undefined
+    }
+    case 'rateLimit':
+      io.stderr.write(`${step.message ?? DEFAULT_RATE_LIMIT_MESSAGE}\n`)
+      return undefined
+    case 'quota':
+      io.stderr.write(`${step.message ?? DEFAULT_QUOTA_MESSAGE}\n`)
+      return undefined
+    case 'usage':
+      io.stdout.write(`${formatUsage(step)}\n`)
+      return undefined
+    case 'hang':
+      // The interval keeps the event loop alive until the process is killed
+      setInterval(() => {}, 60_000)
+      return new Promise<never>(() => {})
+    case 'exit':
+      return step.code
+  }
+}
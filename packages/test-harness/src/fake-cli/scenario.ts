@@ -0,0 +1,118 @@
+/**
+ * Scenario files for loopwork-fake-cli
+ *
+ * A scenario is a JSON file listing canned responses. Each invocation of the
+ * fake CLI plays the steps of the first response whose `match` regex matches
+ * the prompt and whose `times` budget is not used up.
+ */
+
+export type FakeCliStep =
+  | { type: 'output'; text: string; delayMs?: number; stream?: 'stdout' | 'stderr' }
+  | { type: 'sleep'; ms: number }
+  | { type: 'writeFile'; path: string; content: string }
+  | { type: 'rateLimit'; message?: string }
+  | { type: 'quota'; message?: string }
+  | { type: 'usage'; inputTokens: number; outputTokens: number; format?: 'claude' | 'opencode' | 'json' }
+  | { type: 'hang' }
+  | { type: 'exit'; code: number }
+
+export interface FakeCliResponse {
+  /** Regex tested against the prompt; responses without one match every prompt */
+  match?: string
+  /** How many invocations may use this response before it is skipped */
+  times?: number
+  steps: FakeCliStep[]
+}
+
+export interface FakeCliScenario {
+  name?: string
+  responses: FakeCliResponse[]
+}
+
+/** One recorded invocation, kept in the scenario's state file */
+export interface FakeCliCall {
+  response: number
+  prompt: string
+  args: string[]
+  timestamp: number
+}
+
+export interface FakeCliState {
+  calls: FakeCliCall[]
+}
+
+export const DEFAULT_RATE_LIMIT_MESSAGE = 'Error: 429 Too Many Requests - rate limit exceeded, please retry later'
+export const DEFAULT_QUOTA_MESSAGE = 'Error: quota exceeded for the current billing period'
+
+const STEP_FIELDS: Record<FakeCliStep['type'], Record<string, 'string' | 'number'>> = {
+  output: { text: 'string' },
+  sleep: { ms: 'number' },
+  writeFile: { path: 'string', content: 'string' },
+  rateLimit: {},
+  quota: {},
+  usage: { inputTokens: 'number', outputTokens: 'number' },
+  hang: {},
+  exit: { code: 'number' },
+}
+
+/**
+ * Check a parsed scenario file, naming the first offending response and step
+ */
+export function parseScenario(data: unknown, source: string): FakeCliScenario {
+  const scenario = data as Partial<FakeCliScenario> | null
+  if (!scenario || !Array.isArray(scenario.responses) || scenario.responses.length === 0) {
+    throw new Error(`${source}: scenario must have a non-empty "responses" array`)
+  }
+
+  scenario.responses.forEach((response, i) => {
+    if (!response || !Array.isArray(response.steps)) {
+      throw new Error(`${source}: responses[${i}] must have a "steps" array`)
+    }
+    if (response.match !== undefined) {
+      try {
+        new RegExp(response.match)
+      } catch (error) {
+        throw new Error(`${source}: responses[${i}].match is not a valid regex: ${(error as Error).message}`)
+      }
+    }
+
+    response.steps.forEach((step, j) => {
+      const fields = step && STEP_FIELDS[step.type as FakeCliStep['type']]
+      if (!fields) {
+        throw new Error(`${source}: responses[${i}].steps[${j}] has unknown type "${step?.type}"`)
+      }
+      for (const [field, kind] of Object.entries(fields)) {
+        if (typeof (step as Record<string, unknown>)[field] !== kind) {
+          throw new Error(`${source}: responses[${i}].steps[${j}] (${step.type}) needs a ${kind} "${field}"`)
+        }
+      }
+    })
+  })
+
+  return scenario as FakeCliScenario
+}
+
+/**
+ * Index of the response the next invocation should play, or -1 if none matches
+ */
+export function selectResponse(scenario: FakeCliScenario, prompt: string, state: FakeCliState): number {
+  return scenario.responses.findIndex((response, i) => {
+    if (response.match !== undefined && !new RegExp(response.match).test(prompt)) return false
+    if (response.times === undefined) return true
+    return state.calls.filter(call => call.response === i).length < response.times
+  })
+}
+
+/**
+ * Usage line in a format `parseUsageFromOutput` understands
+ */
+export function formatUsage(step: Extract<FakeCliStep, { type: 'usage' }>): string {
+  switch (step.format) {
+    case 'opencode':
+      return `Usage: ${step.inputTokens} prompt tokens, ${step.outputTokens} completion tokens`
+    case 'json':
+      return JSON.stringify({ input_tokens: step.inputTokens, output_tokens: step.outputTokens })
+    default:
+      return `Tokens: ${step.inputTokens} input, ${step.outputTokens} output`
+  }
+}
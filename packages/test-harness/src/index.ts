@@ -3,3 +3,17 @@ export { TestEnvironment } from './test-environment'
 export { TestHarnessFactory, testHarnessFactory } from './test-harness-factory'
 export { VirtualFileSystem } from './mocks/fs'
 export { MemoryTaskBackend, MockCliExecutor } from './mocks'
+export {
+  runFakeCli,
+  readFakeCliState,
+  writeFakeScenario,
+  FAKE_CLI_PATH,
+  FAKE_CLI_CONFIG,
+} from './fake-cli'
+export type {
+  FakeCliScenario,
+  FakeCliResponse,
+  FakeCliStep,
+  FakeCliCall,
+  FakeCliState,
+} from './fake-cli'
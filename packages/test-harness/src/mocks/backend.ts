@@ -6,6 +6,7 @@ interface FindTaskOptions {
   priority?: Priority
   status?: TaskStatus | TaskStatus[]
   startFrom?: string
+  exclude?: string[]
   parentId?: string
   includeBlocked?: boolean
   topLevelOnly?: boolean
@@ -143,7 +144,7 @@ export class MemoryTaskBackend implements TaskBackend {
   }
 
   async findNextTask(options?: FindTaskOptions): Promise<Task | null> {
-    const tasks = await this.listPendingTasks(options)
+    const tasks = (await this.listPendingTasks(options)).filter(t => !options?.exclude?.includes(t.id))
 
     if (options?.startFrom) {
       const startIdx = tasks.findIndex(t => t.id === options.startFrom)
@@ -0,0 +1,184 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import fs from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { CliExecutor, createSpawner } from '@loopwork-ai/executor'
+import type { ILogger, IPluginRegistry, IProcessManager, ModelConfig } from '@loopwork-ai/contracts'
+import {
+  runFakeCli,
+  readFakeCliState,
+  writeFakeScenario,
+  parseScenario,
+  FAKE_CLI_CONFIG,
+  EXIT_NO_MATCH,
+} from '../src/fake-cli'
+import type { FakeCliIO, FakeCliScenario } from '../src/fake-cli'
+
+function captureIO(cwd: string, stdin = ''): FakeCliIO & { out: string; err: string } {
+  const io = {
+    out: '',
+    err: '',
+    stdout: { write: (chunk: string) => { io.out += chunk } },
+    stderr: { write: (chunk: string) => { io.err += chunk } },
+    readStdin: async () => stdin,
+    env: {},
+    cwd,
+  }
+  return io
+}
+
+/** Process manager that spawns for real, so the executor's spawn path runs end to end */
+function realProcessManager(): IProcessManager {
+  const spawner = createSpawner(false)
+  return {
+    spawn: (command: string, args: string[], options?: Record<string, unknown>) => spawner.spawn(command, args, options),
+    kill: (pid: number) => {
+      try {
+        process.kill(pid, 'SIGKILL')
+        return true
+      } catch {
+        return false
+      }
+    },
+  } as unknown as IProcessManager
+}
+
+const silentLogger = new Proxy({}, { get: () => () => {} }) as ILogger
+
+const pluginRegistry = {
+  runHook: async () => {},
+  getCapabilityRegistry: () => ({ getPromptInjection: () => '' }),
+} as unknown as IPluginRegistry
+
+describe('loopwork-fake-cli', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(tmpdir(), 'fake-cli-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  function scenario(name: string, data: FakeCliScenario): string {
+    return writeFakeScenario(path.join(tempDir, `${name}.json`), data)
+  }
+
+  describe('scenarios', () => {
+    test('rejects steps with missing fields', () => {
+      expect(() => parseScenario({ responses: [{ steps: [{ type: 'exit' }] }] }, 'bad.json'))
+        .toThrow('bad.json: responses[0].steps[0] (exit) needs a number "code"')
+      expect(() => parseScenario({ responses: [] }, 'empty.json')).toThrow('non-empty "responses"')
+    })
+
+    test('plays output, file writes and usage lines', async () => {
+      const file = scenario('ok', {
+        responses: [{
+          steps: [
+            { type: 'output', text: 'Working on it\n' },
+            { type: 'writeFile', path: 'src/done.txt', content: 'done' },
+            { type: 'usage', inputTokens: 1200, outputTokens: 300 },
+            { type: 'usage', inputTokens: 5, outputTokens: 6, format: 'opencode' },
+          ],
+        }],
+      })
+      const io = captureIO(tempDir, 'Implement TASK-001')
+
+      expect(await runFakeCli(['--scenario', file], io)).toBe(0)
+      expect(io.out).toBe('Working on it\nTokens: 1200 input, 300 output\nUsage: 5 prompt tokens, 6 completion tokens\n')
+      expect(fs.readFileSync(path.join(tempDir, 'src/done.txt'), 'utf-8')).toBe('done')
+      expect(readFakeCliState(file).calls[0].prompt).toBe('Implement TASK-001')
+    })
+
+    test('matches responses by prompt and honours times', async () => {
+      const file = scenario('sequence', {
+        responses: [
+          { match: 'TASK-001', times: 1, steps: [{ type: 'rateLimit' }, { type: 'exit', code: 1 }] },
+          { match: 'TASK-001', steps: [{ type: 'output', text: 'second try\n' }] },
+        ],
+      })
+
+      const first = captureIO(tempDir, 'TASK-001')
+      expect(await runFakeCli(['--scenario', file], first)).toBe(1)
+      expect(first.err).toContain('429 Too Many Requests')
+
+      const second = captureIO(tempDir, 'TASK-001')
+      expect(await runFakeCli(['--scenario', file], second)).toBe(0)
+      expect(second.out).toBe('second try\n')
+
+      const other = captureIO(tempDir, 'TASK-002')
+      expect(await runFakeCli(['--scenario', file], other)).toBe(EXIT_NO_MATCH)
+      expect(readFakeCliState(file).calls.map(call => call.response)).toEqual([0, 1])
+    })
+  })
+
+  describe('through CliExecutor', () => {
+    function createExecutor(models: ModelConfig[]): CliExecutor {
+      return new CliExecutor(
+        {
+          models,
+          fallbackModels: [],
+          customClis: [FAKE_CLI_CONFIG],
+          preferPty: false,
+          retry: { rateLimitWaitMs: 10, baseDelayMs: 10, delayBetweenModelAttemptsMs: 10, maxRetriesPerModel: 2 },
+        },
+        realProcessManager(),
+        pluginRegistry,
+        silentLogger
+      )
+    }
+
+    test('streams the fake CLI output into the output file', async () => {
+      const target = path.join(tempDir, 'written.txt')
+      const file = scenario('stream', {
+        responses: [{
+          steps: [
+            { type: 'output', text: 'chunk one\n' },
+            { type: 'output', text: 'chunk two\n', delayMs: 50 },
+            { type: 'writeFile', path: target, content: 'from the agent' },
+            { type: 'usage', inputTokens: 10, outputTokens: 20 },
+          ],
+        }],
+      })
+      const outputFile = path.join(tempDir, 'output.txt')
+
+      const exitCode = await createExecutor([{ name: 'fake-stream', cli: 'fake', model: file }])
+        .execute('Implement TASK-001', outputFile, 30)
+
+      expect(exitCode).toBe(0)
+      expect(fs.readFileSync(outputFile, 'utf-8')).toBe('chunk one\nchunk two\nTokens: 10 input, 20 output\n')
+      expect(fs.readFileSync(target, 'utf-8')).toBe('from the agent')
+      expect(readFakeCliState(file).calls[0].prompt).toBe('Implement TASK-001')
+    })
+
+    test('retries after a rate limit message', async () => {
+      const file = scenario('rate-limit', {
+        responses: [
+          { times: 1, steps: [{ type: 'rateLimit' }, { type: 'exit', code: 1 }] },
+          { steps: [{ type: 'output', text: 'recovered\n' }] },
+        ],
+      })
+      const outputFile = path.join(tempDir, 'output.txt')
+
+      const exitCode = await createExecutor([{ name: 'fake-limited', cli: 'fake', model: file }])
+        .execute('Implement TASK-002', outputFile, 30)
+
+      expect(exitCode).toBe(0)
+      expect(readFakeCliState(file).calls).toHaveLength(2)
+      expect(fs.readFileSync(outputFile, 'utf-8')).toBe('recovered\n')
+    })
+
+    test('kills a hung CLI at the timeout', async () => {
+      const file = scenario('hang', {
+        responses: [{ steps: [{ type: 'output', text: 'thinking...\n' }, { type: 'hang' }] }],
+      })
+      const outputFile = path.join(tempDir, 'output.txt')
+      const executor = createExecutor([{ name: 'fake-hang', cli: 'fake', model: file }])
+
+      await expect(executor.execute('Implement TASK-003', outputFile, 1))
+        .rejects.toThrow('All CLI configurations failed')
+      expect(readFakeCliState(file).calls.length).toBeGreaterThan(0)
+    }, 20000)
+  })
+})
@@ -96,7 +96,7 @@ export class TodoistTaskBackend implements TaskBackend {
   }
 
   async findNextTask(options?: FindTaskOptions): Promise<Task | null> {
-    const tasks = await this.listPendingTasks(options)
+    const tasks = (await this.listPendingTasks(options)).filter(t => !options?.exclude?.includes(t.id))
     return tasks.length > 0 ? tasks[0] : null
   }
 
@@ -33,6 +33,17 @@ export interface TodoistTask {
   created_at: string
 }
 
+/**
+ * A completed task as listed by the Sync API
+ */
+export interface TodoistCompletedTask {
+  id: string
+  task_id: string
+  content: string
+  project_id: string
+  completed_at: string
+}
+
 interface TodoistComment {
   id: string
   task_id: string
@@ -40,6 +51,11 @@ interface TodoistComment {
   posted_at: string
 }
 
+const SYNC_API_URL = 'https://api.todoist.com/sync/v9'
+
+/** Most completed tasks the Sync API returns per request */
+const COMPLETED_TASKS_LIMIT = 200
+
 export class TodoistClient {
   private baseUrl = 'https://api.todoist.com/rest/v2'
   private apiToken: string
@@ -51,9 +67,10 @@ export class TodoistClient {
   private async request<T>(
     method: string,
     endpoint: string,
-    body?: Record<string, unknown>
+    body?: Record<string, unknown>,
+    baseUrl = this.baseUrl
   ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`
+    const url = `${baseUrl}${endpoint}`
     const response = await fetch(url, {
       method,
       headers: {
@@ -143,6 +160,20 @@ export class TodoistClient {
     return this.request('GET', `/tasks?project_id=${projectId}`)
   }
 
+  /**
+   * Get the most recently completed tasks in a project
+   * (the REST API only lists open tasks)
+   */
+  async getCompletedTasks(projectId: string): Promise<TodoistCompletedTask[]> {
+    const result = await this.request<{ items: TodoistCompletedTask[] }>(
+      'GET',
+      `/completed/get_all?project_id=${projectId}&limit=${COMPLETED_TASKS_LIMIT}`,
+      undefined,
+      SYNC_API_URL
+    )
+    return result.items
+  }
+
   /**
    * Add a comment to a task
    */
@@ -0,0 +1,130 @@
+import { TodoistClient, type TodoistCompletedTask, type TodoistTask } from './index'
+import type { ISyncRemote, RemoteSyncItem, SyncFieldMapping } from '@loopwork-ai/contracts'
+
+export interface TodoistSyncRemoteOptions {
+  client: TodoistClient
+  projectId: string
+  /** Remote name used for the sync state file (default: todoist) */
+  name?: string
+}
+
+type TodoistPriority = 1 | 2 | 3 | 4
+
+/**
+ * Todoist project as a two-way sync remote
+ *
+ * Open tasks come from the REST API, which has no modification time, so
+ * their changes are detected by content. Completed tasks come from the Sync
+ * API and only carry their content and completion time, so a completion made
+ * in Todoist is pulled as a state change. Priority is sent as Todoist's 1-4
+ * scale (4 = urgent) and status as an open/completed state; a task is only
+ * closed or reopened when its remote state actually differs.
+ */
+export class TodoistSyncRemote implements ISyncRemote {
+  readonly name: string
+  readonly defaultMappings: SyncFieldMapping[] = [
+    { local: 'title', remote: 'content' },
+    { local: 'description', remote: 'description' },
+    {
+      local: 'status',
+      remote: 'state',
+      values: { pending: 'open', 'in-progress': 'open', failed: 'open', quarantined: 'open', completed: 'completed' },
+    },
+    {
+      local: 'priority',
+      remote: 'priority',
+      values: { high: '4', medium: '3', low: '2', background: '1' },
+    },
+  ]
+  private client: TodoistClient
+  private projectId: string
+  /** Remote state of each task as last listed or written */
+  private states = new Map<string, string>()
+
+  constructor(options: TodoistSyncRemoteOptions) {
+    this.name = options.name || 'todoist'
+    this.client = options.client
+    this.projectId = options.projectId
+  }
+
+  async listItems(): Promise<RemoteSyncItem[]> {
+    const [open, completed] = await Promise.all([
+      this.client.getProjectTasks(this.projectId),
+      this.client.getCompletedTasks(this.projectId),
+    ])
+    return [...open.map(t => this.toItem(t)), ...completed.map(t => this.toCompletedItem(t))]
+  }
+
+  async createItem(fields: Record<string, unknown>): Promise<RemoteSyncItem> {
+    const task = await this.client.createTask(String(fields.content ?? ''), {
+      description: fields.description as string | undefined,
+      projectId: this.projectId,
+      priority: this.toPriority(fields.priority),
+    })
+    if (fields.state === 'completed') {
+      await this.client.completeTask(task.id)
+      return this.completedItem(task.id, task.content)
+    }
+    return this.toItem(task)
+  }
+
+  async updateItem(id: string, fields: Record<string, unknown>): Promise<RemoteSyncItem> {
+    const current = this.states.get(id) ?? (await this.getItem(id)).fields.state
+    const target = fields.state ?? current
+
+    // Completed tasks can't be edited, so reopen before updating
+    if (target === 'open' && current === 'completed') {
+      await this.client.reopenTask(id)
+    }
+    if (target === 'completed' && current === 'completed') {
+      return this.completedItem(id, String(fields.content ?? ''))
+    }
+
+    const updates: { content?: string; description?: string; priority?: TodoistPriority } = {}
+    if ('content' in fields) updates.content = String(fields.content ?? '')
+    if ('description' in fields) updates.description = String(fields.description ?? '')
+    if ('priority' in fields) updates.priority = this.toPriority(fields.priority)
+
+    if (Object.keys(updates).length > 0) {
+      await this.client.updateTask(id, updates)
+    }
+    if (target === 'completed') {
+      await this.client.completeTask(id)
+      return this.completedItem(id, String(fields.content ?? ''))
+    }
+
+    return this.getItem(id)
+  }
+
+  private async getItem(id: string): Promise<RemoteSyncItem> {
+    return this.toItem(await this.client.getTask(id))
+  }
+
+  private toPriority(value: unknown): TodoistPriority | undefined {
+    const n = Number(value)
+    return n >= 1 && n <= 4 ? n as TodoistPriority : undefined
+  }
+
+  private toItem(t: TodoistTask): RemoteSyncItem {
+    this.states.set(t.id, t.is_completed ? 'completed' : 'open')
+    return {
+      id: t.id,
+      fields: {
+        content: t.content,
+        description: t.description || '',
+        state: t.is_completed ? 'completed' : 'open',
+        priority: String(t.priority),
+      },
+    }
+  }
+
+  private toCompletedItem(t: TodoistCompletedTask): RemoteSyncItem {
+    return { ...this.completedItem(t.task_id, t.content), updatedAt: t.completed_at }
+  }
+
+  /** Completed tasks are listed with their content only, so every path returns that shape */
+  private completedItem(id: string, content: string): RemoteSyncItem {
+    this.states.set(id, 'completed')
+    return { id, fields: { content, state: 'completed' } }
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, expect, test, mock, beforeEach, afterEach } from 'bun:test'
+import { TodoistClient } from '../src'
+import { TodoistSyncRemote } from '../src/sync'
+
+const originalFetch = global.fetch
+let mockFetch: ReturnType<typeof mock>
+
+const openTask = {
+  id: 't1',
+  content: 'Write docs',
+  description: 'API reference',
+  is_completed: false,
+  project_id: 'project-1',
+  priority: 4,
+  labels: [],
+  created_at: '2026-03-01T10:00:00Z',
+}
+
+const completedTask = {
+  id: 'c1',
+  task_id: 't2',
+  content: 'Ship release',
+  project_id: 'project-1',
+  completed_at: '2026-03-02T09:00:00Z',
+}
+
+const COMPLETED_URL = 'https://api.todoist.com/sync/v9/completed/get_all?project_id=project-1&limit=200'
+
+function respond(body: unknown) {
+  return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve(body), text: () => Promise.resolve('') })
+}
+
+beforeEach(() => {
+  mockFetch = mock((url: string) => respond(url.endsWith('/close') || url.endsWith('/reopen') ? {} : openTask))
+  global.fetch = mockFetch as any
+})
+
+afterEach(() => {
+  global.fetch = originalFetch
+})
+
+describe('TodoistSyncRemote', () => {
+  const remote = () => new TodoistSyncRemote({ client: new TodoistClient('test-token'), projectId: 'project-1' })
+
+  test('lists open and completed project tasks', async () => {
+    mockFetch.mockImplementation((url: string) => respond(url === COMPLETED_URL ? { items: [completedTask] } : [openTask]))
+
+    const items = await remote().listItems()
+
+    expect(mockFetch.mock.calls.map(c => c[0])).toEqual([
+      'https://api.todoist.com/rest/v2/tasks?project_id=project-1',
+      COMPLETED_URL,
+    ])
+    expect(items).toEqual([
+      {
+        id: 't1',
+        fields: { content: 'Write docs', description: 'API reference', state: 'open', priority: '4' },
+      },
+      {
+        id: 't2',
+        fields: { content: 'Ship release', state: 'completed' },
+        updatedAt: '2026-03-02T09:00:00Z',
+      },
+    ])
+  })
+
+  test('creates tasks in the project and closes completed ones', async () => {
+    const item = await remote().createItem({ content: 'Write docs', priority: '3', state: 'completed' })
+
+    const [, init] = mockFetch.mock.calls[0]
+    expect(JSON.parse(init.body)).toMatchObject({ content: 'Write docs', project_id: 'project-1', priority: 3 })
+    expect(mockFetch.mock.calls[1][0]).toBe('https://api.todoist.com/rest/v2/tasks/t1/close')
+    expect(item.fields.state).toBe('completed')
+  })
+
+  test('updates open tasks without reopening them', async () => {
+    await remote().updateItem('t1', { content: 'Renamed', state: 'open' })
+
+    const urls = mockFetch.mock.calls.map(c => c[0])
+    expect(urls).toEqual([
+      'https://api.todoist.com/rest/v2/tasks/t1',
+      'https://api.todoist.com/rest/v2/tasks/t1',
+      'https://api.todoist.com/rest/v2/tasks/t1',
+    ])
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toEqual({ content: 'Renamed' })
+  })
+
+  test('reopens tasks completed remotely before updating content', async () => {
+    mockFetch.mockImplementation((url: string) => respond(url === COMPLETED_URL ? { items: [completedTask] } : []))
+    const todoist = remote()
+    await todoist.listItems()
+    mockFetch.mockClear()
+    mockFetch.mockImplementation((url: string) => respond(url.endsWith('/reopen') ? {} : { ...openTask, id: 't2' }))
+
+    await todoist.updateItem('t2', { content: 'Renamed', state: 'open' })
+
+    expect(mockFetch.mock.calls.map(c => c[0])).toEqual([
+      'https://api.todoist.com/rest/v2/tasks/t2/reopen',
+      'https://api.todoist.com/rest/v2/tasks/t2',
+      'https://api.todoist.com/rest/v2/tasks/t2',
+    ])
+  })
+
+  test('leaves completed tasks alone when they stay completed', async () => {
+    mockFetch.mockImplementation((url: string) => respond(url === COMPLETED_URL ? { items: [completedTask] } : []))
+    const todoist = remote()
+    await todoist.listItems()
+    mockFetch.mockClear()
+
+    const item = await todoist.updateItem('t2', { content: 'Ship release', state: 'completed' })
+
+    expect(mockFetch).not.toHaveBeenCalled()
+    expect(item).toEqual({ id: 't2', fields: { content: 'Ship release', state: 'completed' } })
+  })
+})
@@ -67,7 +67,7 @@ export class TrelloTaskAdapter implements TaskBackend {
   }
 
   async findNextTask(options?: FindTaskOptions): Promise<Task | null> {
-    const tasks = await this.listPendingTasks(options);
+    const tasks = (await this.listPendingTasks(options)).filter(t => !options?.exclude?.includes(t.id));
     return tasks[0] || null;
   }
 
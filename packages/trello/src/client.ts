@@ -62,4 +62,16 @@ export class TrelloClient {
   async getCard(cardId: string): Promise<TrelloCard> {
     return this.request<TrelloCard>('GET', `/cards/${cardId}`);
   }
+
+  async getBoardCards(): Promise<TrelloCard[]> {
+    return this.request<TrelloCard[]>('GET', `/boards/${this.boardId}/cards`);
+  }
+
+  async createCard(listId: string, name: string, desc?: string): Promise<TrelloCard> {
+    return this.request<TrelloCard>('POST', '/cards', { idList: listId, name, desc });
+  }
+
+  async updateCard(cardId: string, updates: Partial<Pick<TrelloCard, 'name' | 'desc' | 'idList'>>): Promise<TrelloCard> {
+    return this.request<TrelloCard>('PUT', `/cards/${cardId}`, updates);
+  }
 }
@@ -1,3 +1,4 @@
 export * from './adapter';
 export * from './client';
 export * from './types';
+export * from './sync';
@@ -0,0 +1,116 @@
+import { TrelloClient } from './client';
+import type { TrelloBackendConfig, TrelloCard, TrelloList } from './types';
+import type { ISyncRemote, RemoteSyncItem, SyncFieldMapping } from '@loopwork-ai/contracts';
+
+export interface TrelloSyncRemoteConfig extends TrelloBackendConfig {
+  /** Remote name used for the sync state file (default: trello) */
+  name?: string;
+}
+
+/**
+ * Trello board as a two-way sync remote
+ *
+ * Cards map to tasks: name -> title, desc -> description and the card's
+ * list -> status. Priority is read from "high"/"low" labels but never
+ * written, since Trello labels need board-specific ids.
+ */
+export class TrelloSyncRemote implements ISyncRemote {
+  readonly name: string;
+  readonly defaultMappings: SyncFieldMapping[];
+  private client: TrelloClient;
+  private listsById: Map<string, TrelloList> | null = null;
+
+  constructor(private config: TrelloSyncRemoteConfig) {
+    this.name = config.name || 'trello';
+    this.client = new TrelloClient(config.apiKey, config.token, config.boardId);
+
+    const lists = config.lists || {};
+    this.defaultMappings = [
+      { local: 'title', remote: 'name' },
+      { local: 'description', remote: 'desc' },
+      {
+        local: 'status',
+        remote: 'list',
+        values: {
+          pending: lists.pending || 'To Do',
+          'in-progress': lists.inProgress || 'Doing',
+          completed: lists.completed || 'Done',
+          failed: lists.failed || 'Failed',
+          quarantined: lists.quarantined || 'Quarantined',
+        },
+      },
+      { local: 'priority', remote: 'priority', direction: 'pull' },
+    ];
+  }
+
+  /**
+   * Trello has no server-side "modified since" filter for board cards,
+   * so the cursor is applied to dateLastActivity client-side
+   */
+  async listItems(since?: string): Promise<RemoteSyncItem[]> {
+    await this.ensureLists();
+    const cards = await this.client.getBoardCards();
+    const sinceMs = since ? Date.parse(since) : 0;
+
+    return cards
+      .filter(card => !sinceMs || Date.parse(card.dateLastActivity) > sinceMs)
+      .map(card => this.toItem(card));
+  }
+
+  async createItem(fields: Record<string, unknown>): Promise<RemoteSyncItem> {
+    const listId = await this.resolveListId(fields.list) ?? await this.resolveListId(this.config.lists?.pending || 'To Do');
+    if (!listId) {
+      throw new Error(`Trello list "${String(fields.list)}" not found on board`);
+    }
+    const card = await this.client.createCard(listId, String(fields.name ?? ''), fields.desc as string | undefined);
+    return this.toItem(card);
+  }
+
+  async updateItem(id: string, fields: Record<string, unknown>): Promise<RemoteSyncItem> {
+    const updates: Partial<Pick<TrelloCard, 'name' | 'desc' | 'idList'>> = {};
+    if ('name' in fields) updates.name = String(fields.name ?? '');
+    if ('desc' in fields) updates.desc = String(fields.desc ?? '');
+    if ('list' in fields) {
+      const listId = await this.resolveListId(fields.list);
+      if (!listId) {
+        throw new Error(`Trello list "${String(fields.list)}" not found on board`);
+      }
+      updates.idList = listId;
+    }
+
+    const card = await this.client.updateCard(id, updates);
+    return this.toItem(card);
+  }
+
+  private async ensureLists(): Promise<Map<string, TrelloList>> {
+    if (!this.listsById) {
+      const lists = await this.client.getLists();
+      this.listsById = new Map(lists.map(list => [list.id, list]));
+    }
+    return this.listsById;
+  }
+
+  private async resolveListId(name: unknown): Promise<string | undefined> {
+    if (typeof name !== 'string') return undefined;
+    const lists = await this.ensureLists();
+    return [...lists.values()].find(l => l.name.toLowerCase() === name.toLowerCase())?.id;
+  }
+
+  private toItem(card: TrelloCard): RemoteSyncItem {
+    const labels = (card.labels || []).map(l => l.name.toLowerCase());
+    let priority = 'medium';
+    if (labels.includes('high')) priority = 'high';
+    else if (labels.includes('low')) priority = 'low';
+
+    return {
+      id: card.id,
+      updatedAt: card.dateLastActivity,
+      fields: {
+        name: card.name,
+        desc: card.desc || '',
+        list: this.listsById?.get(card.idList)?.name,
+        priority,
+      },
+    };
+  }
+}
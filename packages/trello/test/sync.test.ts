@@ -0,0 +1,103 @@
+import { expect, test, describe, beforeEach, afterEach, mock } from 'bun:test';
+import { TrelloSyncRemote } from '../src/sync';
+import type { TrelloCard, TrelloList } from '../src/types';
+
+const originalFetch = global.fetch;
+
+const lists: TrelloList[] = [
+  { id: 'list-todo', name: 'To Do', closed: false, idBoard: 'board-123' },
+  { id: 'list-doing', name: 'Doing', closed: false, idBoard: 'board-123' },
+  { id: 'list-done', name: 'Done', closed: false, idBoard: 'board-123' },
+];
+
+function card(overrides: Partial<TrelloCard>): TrelloCard {
+  return {
+    id: 'card-1',
+    name: 'Card',
+    desc: '',
+    idList: 'list-todo',
+    idBoard: 'board-123',
+    url: 'https://trello.com/c/card-1',
+    dateLastActivity: '2026-03-01T10:00:00.000Z',
+    labels: [],
+    ...overrides,
+  };
+}
+
+let cards: TrelloCard[];
+let requests: Array<{ method: string; url: string; body?: any }>;
+
+beforeEach(() => {
+  cards = [];
+  requests = [];
+  global.fetch = mock(async (url: string, init?: RequestInit) => {
+    const method = init?.method || 'GET';
+    const body = init?.body ? JSON.parse(init.body as string) : undefined;
+    requests.push({ method, url, body });
+
+    const path = new URL(url).pathname;
+    if (path.endsWith('/lists')) return Response.json(lists);
+    if (path.endsWith('/cards') && method === 'GET') return Response.json(cards);
+    if (path === '/1/cards' && method === 'POST') {
+      return Response.json(card({ id: 'card-new', name: body.name, desc: body.desc, idList: body.idList }));
+    }
+    if (method === 'PUT') {
+      const id = path.split('/').pop()!;
+      return Response.json(card({ id, ...body }));
+    }
+    return new Response('not found', { status: 404 });
+  }) as any;
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+describe('TrelloSyncRemote', () => {
+  const remote = () => new TrelloSyncRemote({ apiKey: 'key', token: 'token', boardId: 'board-123' });
+
+  test('lists board cards with list names and label priority', async () => {
+    cards = [
+      card({ id: 'a', name: 'Alpha', idList: 'list-doing', labels: [{ id: 'l1', idBoard: 'board-123', name: 'High', color: 'red' }] }),
+    ];
+
+    const items = await remote().listItems();
+
+    expect(items).toEqual([{
+      id: 'a',
+      updatedAt: '2026-03-01T10:00:00.000Z',
+      fields: { name: 'Alpha', desc: '', list: 'Doing', priority: 'high' },
+    }]);
+  });
+
+  test('filters cards by the cursor', async () => {
+    cards = [
+      card({ id: 'old', dateLastActivity: '2026-03-01T10:00:00.000Z' }),
+      card({ id: 'new', dateLastActivity: '2026-03-02T10:00:00.000Z' }),
+    ];
+
+    const items = await remote().listItems('2026-03-01T10:00:00.000Z');
+
+    expect(items.map(i => i.id)).toEqual(['new']);
+  });
+
+  test('creates cards in the mapped list', async () => {
+    const item = await remote().createItem({ name: 'New task', desc: 'Details', list: 'Done' });
+
+    const post = requests.find(r => r.method === 'POST')!;
+    expect(post.body).toEqual({ idList: 'list-done', name: 'New task', desc: 'Details' });
+    expect(item.fields.list).toBe('Done');
+  });
+
+  test('moves cards when the list changes', async () => {
+    await remote().updateItem('card-1', { list: 'Doing', name: 'Renamed' });
+
+    const put = requests.find(r => r.method === 'PUT')!;
+    expect(put.url).toContain('/cards/card-1');
+    expect(put.body).toEqual({ name: 'Renamed', idList: 'list-doing' });
+  });
+
+  test('rejects unknown lists', async () => {
+    await expect(remote().updateItem('card-1', { list: 'Archive' })).rejects.toThrow('Trello list "Archive" not found');
+  });
+});
@@ -0,0 +1,448 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+/**
+ * HNSW (Hierarchical Navigable Small World) index over cosine similarity.
+ *
+ * Vectors are normalized on insert, so similarity is a dot product. Removed
+ * vectors are tombstoned and dropped when the index is compacted.
+ */
+
+export interface HnswIndexOptions {
+  /** Length of every vector in the index */
+  dimensions: number
+
+  /** Links per node on the upper layers; layer 0 keeps twice as many (default: 16) */
+  m?: number
+
+  /** Candidates considered while linking a new node (default: 100) */
+  efConstruction?: number
+
+  /** Candidates considered while searching; raise for better recall (default: 64) */
+  efSearch?: number
+
+  /** Random source used to pick node levels (default: Math.random) */
+  random?: () => number
+}
+
+export interface HnswMatch {
+  id: string
+  score: number
+}
+
+interface HnswHeader {
+  version: number
+  dimensions: number
+  m: number
+  efConstruction: number
+  efSearch: number
+  entryPoint: number
+  maxLevel: number
+  ids: string[]
+  levels: number[]
+  deleted: number[]
+}
+
+const FORMAT_VERSION = 1
+
+/** Compact once this share of nodes is tombstoned */
+const COMPACT_RATIO = 0.3
+
+/**
+ * Binary heap ordered by score; `max` decides which end comes out first
+ */
+class ScoreHeap {
+  private items: Array<[number, number]> = []
+
+  constructor(private max: boolean) {}
+
+  get size(): number {
+    return this.items.length
+  }
+
+  peek(): [number, number] | undefined {
+    return this.items[0]
+  }
+
+  push(node: number, score: number): void {
+    const items = this.items
+    items.push([node, score])
+    let i = items.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (!this.before(items[i][1], items[parent][1])) break
+      ;[items[i], items[parent]] = [items[parent], items[i]]
+      i = parent
+    }
+  }
+
+  pop(): [number, number] | undefined {
+    const items = this.items
+    const top = items[0]
+    const last = items.pop()
+    if (items.length > 0 && last) {
+      items[0] = last
+      let i = 0
+      for (;;) {
+        const left = 2 * i + 1
+        const right = left + 1
+        let next = i
+        if (left < items.length && this.before(items[left][1], items[next][1])) next = left
+        if (right < items.length && this.before(items[right][1], items[next][1])) next = right
+        if (next === i) break
+        ;[items[i], items[next]] = [items[next], items[i]]
+        i = next
+      }
+    }
+    return top
+  }
+
+  toArray(): Array<[number, number]> {
+    return [...this.items]
+  }
+
+  private before(a: number, b: number): boolean {
+    return this.max ? a > b : a < b
+  }
+}
+
+export class HnswIndex {
+  readonly dimensions: number
+  private m: number
+  private efConstruction: number
+  private efSearch: number
+  private random: () => number
+  private levelFactor: number
+
+  private ids: string[] = []
+  private vectors: Float32Array[] = []
+  private levels: number[] = []
+  private links: number[][][] = []
+  private deleted = new Set<number>()
+  private nodeById = new Map<string, number>()
+  private entryPoint = -1
+  private maxLevel = -1
+
+  constructor(options: HnswIndexOptions) {
+    this.dimensions = options.dimensions
+    this.m = options.m ?? 16
+    this.efConstruction = options.efConstruction ?? 100
+    this.efSearch = options.efSearch ?? 64
+    this.random = options.random ?? Math.random
+    this.levelFactor = 1 / Math.log(this.m)
+  }
+
+  /** Number of live vectors */
+  get size(): number {
+    return this.nodeById.size
+  }
+
+  has(id: string): boolean {
+    return this.nodeById.has(id)
+  }
+
+  /**
+   * Add a vector, replacing any vector already stored under the ID
+   */
+  add(id: string, vector: number[]): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector for ${id} has ${vector.length} dimensions, index expects ${this.dimensions}`)
+    }
+    this.remove(id)
+
+    const node = this.ids.length
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelFactor)
+    this.ids.push(id)
+    this.vectors.push(normalize(vector))
+    this.levels.push(level)
+    this.links.push(Array.from({ length: level + 1 }, () => []))
+    this.nodeById.set(id, node)
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = node
+      this.maxLevel = level
+      return
+    }
+
+    const query = this.vectors[node]
+    let entry = this.entryPoint
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.greedyClosest(query, entry, layer)
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(query, [entry], this.efConstruction, layer)
+      const neighbours = candidates.slice(0, this.m).map(([n]) => n)
+      this.links[node][layer] = neighbours
+      for (const neighbour of neighbours) {
+        this.link(neighbour, node, layer)
+      }
+      entry = candidates[0][0]
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = node
+      this.maxLevel = level
+    }
+  }
+
+  /**
+   * Remove the vector stored under an ID
+   *
+   * @returns Whether the ID was in the index
+   */
+  remove(id: string): boolean {
+    const node = this.nodeById.get(id)
+    if (node === undefined) return false
+
+    this.nodeById.delete(id)
+    this.deleted.add(node)
+    if (this.nodeById.size === 0) {
+      this.clear()
+    } else if (this.deleted.size > this.ids.length * COMPACT_RATIO) {
+      this.compact()
+    }
+    return true
+  }
+
+  clear(): void {
+    this.ids = []
+    this.vectors = []
+    this.levels = []
+    this.links = []
+    this.deleted.clear()
+    this.nodeById.clear()
+    this.entryPoint = -1
+    this.maxLevel = -1
+  }
+
+  /**
+   * Approximate k nearest neighbours by cosine similarity, best first
+   *
+   * @param accept - Skip IDs it returns false for (the search widens to make up for them)
+   */
+  search(vector: number[], k: number, accept?: (id: string) => boolean): HnswMatch[] {
+    if (this.entryPoint === -1 || k <= 0) return []
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Query has ${vector.length} dimensions, index expects ${this.dimensions}`)
+    }
+
+    const query = normalize(vector)
+    let entry = this.entryPoint
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.greedyClosest(query, entry, layer)
+    }
+
+    let ef = Math.max(this.efSearch, k)
+    for (;;) {
+      const matches: HnswMatch[] = []
+      const candidates = this.searchLayer(query, [entry], ef, 0)
+      for (const [node, score] of candidates) {
+        if (this.deleted.has(node)) continue
+        const id = this.ids[node]
+        if (accept && !accept(id)) continue
+        matches.push({ id, score })
+        if (matches.length === k) return matches
+      }
+      // Everything reachable was visited, or the filter keeps rejecting
+      if (candidates.length < ef || ef >= this.ids.length) return matches
+      ef *= 4
+    }
+  }
+
+  /**
+   * Write the index to `<file>` (header) and `<file>.bin` (vectors and links)
+   */
+  save(file: string): void {
+    const header: HnswHeader = {
+      version: FORMAT_VERSION,
+      dimensions: this.dimensions,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      ids: this.ids,
+      levels: this.levels,
+      deleted: Array.from(this.deleted),
+    }
+
+    const count = this.ids.length
+    const linkInts = this.links.reduce(
+      (sum, layers) => sum + layers.reduce((n, neighbours) => n + 1 + neighbours.length, 0),
+      0
+    )
+    const vectors = new Float32Array(count * this.dimensions)
+    this.vectors.forEach((vector, node) => vectors.set(vector, node * this.dimensions))
+    const links = new Int32Array(linkInts)
+    let offset = 0
+    for (const layers of this.links) {
+      for (const neighbours of layers) {
+        links[offset++] = neighbours.length
+        links.set(neighbours, offset)
+        offset += neighbours.length
+      }
+    }
+
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    writeAtomic(`${file}.bin`, Buffer.concat([
+      Buffer.from(vectors.buffer, vectors.byteOffset, vectors.byteLength),
+      Buffer.from(links.buffer, links.byteOffset, links.byteLength),
+    ]))
+    writeAtomic(file, JSON.stringify(header))
+  }
+
+  /**
+   * Read an index written by save()
+   *
+   * @returns null when the files are missing or unreadable
+   */
+  static load(file: string, options: Pick<HnswIndexOptions, 'efSearch' | 'random'> = {}): HnswIndex | null {
+    try {
+      if (!fs.existsSync(file) || !fs.existsSync(`${file}.bin`)) return null
+      const header = JSON.parse(fs.readFileSync(file, 'utf-8')) as HnswHeader
+      if (header.version !== FORMAT_VERSION) return null
+
+      const index = new HnswIndex({
+        dimensions: header.dimensions,
+        m: header.m,
+        efConstruction: header.efConstruction,
+        efSearch: options.efSearch ?? header.efSearch,
+        random: options.random,
+      })
+
+      const data = fs.readFileSync(`${file}.bin`)
+      const bytes = new Uint8Array(data.byteLength)
+      bytes.set(data)
+      const count = header.ids.length
+      const vectorFloats = count * header.dimensions
+      const vectors = new Float32Array(bytes.buffer, 0, vectorFloats)
+      const links = new Int32Array(bytes.buffer, vectorFloats * 4)
+
+      let offset = 0
+      for (let node = 0; node < count; node++) {
+        index.vectors.push(vectors.subarray(node * header.dimensions, (node + 1) * header.dimensions))
+        const layers: number[][] = []
+        for (let layer = 0; layer <= header.levels[node]; layer++) {
+          const length = links[offset++]
+          layers.push(Array.from(links.subarray(offset, offset + length)))
+          offset += length
+        }
+        index.links.push(layers)
+      }
+
+      index.ids = header.ids
+      index.levels = header.levels
+      index.entryPoint = header.entryPoint
+      index.maxLevel = header.maxLevel
+      index.deleted = new Set(header.deleted)
+      header.ids.forEach((id, node) => {
+        if (!index.deleted.has(node)) index.nodeById.set(id, node)
+      })
+      return index
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Rebuild the graph from the live vectors, dropping tombstones
+   */
+  private compact(): void {
+    const live = Array.from(this.nodeById.entries()).sort((a, b) => a[1] - b[1])
+    const vectors = this.vectors
+    this.clear()
+    for (const [id, node] of live) {
+      this.add(id, Array.from(vectors[node]))
+    }
+  }
+
+  private link(from: number, to: number, layer: number): void {
+    const neighbours = this.links[from][layer]
+    neighbours.push(to)
+    const max = layer === 0 ? this.m * 2 : this.m
+    if (neighbours.length <= max) return
+
+    const vector = this.vectors[from]
+    this.links[from][layer] = neighbours
+      .map((n): [number, number] => [n, dot(vector, this.vectors[n])])
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, max)
+      .map(([n]) => n)
+  }
+
+  private greedyClosest(query: Float32Array, entry: number, layer: number): number {
+    let best = entry
+    let bestScore = dot(query, this.vectors[entry])
+    let improved = true
+    while (improved) {
+      improved = false
+      for (const neighbour of this.links[best][layer] ?? []) {
+        const score = dot(query, this.vectors[neighbour])
+        if (score > bestScore) {
+          best = neighbour
+          bestScore = score
+          improved = true
+        }
+      }
+    }
+    return best
+  }
+
+  /**
+   * Best-first search of one layer
+   *
+   * @returns Up to ef [node, score] pairs, best first
+   */
+  private searchLayer(query: Float32Array, entries: number[], ef: number, layer: number): Array<[number, number]> {
+    const visited = new Set<number>(entries)
+    const candidates = new ScoreHeap(true)
+    const found = new ScoreHeap(false)
+
+    for (const entry of entries) {
+      const score = dot(query, this.vectors[entry])
+      candidates.push(entry, score)
+      found.push(entry, score)
+    }
+
+    while (candidates.size > 0) {
+      const [node, score] = candidates.pop()!
+      if (found.size >= ef && score < found.peek()![1]) break
+
+      for (const neighbour of this.links[node][layer] ?? []) {
+        if (visited.has(neighbour)) continue
+        visited.add(neighbour)
+        const neighbourScore = dot(query, this.vectors[neighbour])
+        if (found.size < ef || neighbourScore > found.peek()![1]) {
+          candidates.push(neighbour, neighbourScore)
+          found.push(neighbour, neighbourScore)
+          if (found.size > ef) found.pop()
+        }
+      }
+    }
+
+    return found.toArray().sort((a, b) => b[1] - a[1])
+  }
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const result = new Float32Array(vector.length)
+  let norm = 0
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i]
+  norm = Math.sqrt(norm)
+  if (norm === 0) return result
+  for (let i = 0; i < vector.length; i++) result[i] = vector[i] / norm
+  return result
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i]
+  return sum
+}
+
+function writeAtomic(file: string, content: string | Buffer): void {
+  const temp = `${file}.${process.pid}.tmp`
+  fs.writeFileSync(temp, content)
+  fs.renameSync(temp, file)
+}
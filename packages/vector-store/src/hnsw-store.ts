@@ -0,0 +1,187 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { HnswIndex, type HnswIndexOptions } from './hnsw-index'
+import type { Document, SearchOptions, SearchResult } from './local-store'
+
+interface HnswVectorStoreConfig extends Omit<HnswIndexOptions, 'dimensions'> {
+  /** Directory holding the index (default: .loopwork/vector-index) */
+  path?: string
+
+  /** Embedding length; taken from the first embedding added when not set */
+  dimensions?: number
+}
+
+interface StoreData {
+  documents: Document[]
+}
+
+const DOCUMENTS_FILE = 'documents.json'
+const INDEX_FILE = 'index.hnsw'
+
+/**
+ * Vector store backed by an HNSW index, for projects too large for the
+ * linear scan of LocalVectorStore.
+ *
+ * The store is loaded once and kept in memory. Changes are written to disk
+ * by flush(); documents (without embeddings) go to documents.json, vectors
+ * and the graph to index.hnsw and index.hnsw.bin.
+ */
+export class HnswVectorStore {
+  private dir: string
+  private options: HnswVectorStoreConfig
+  private documents = new Map<string, Document>()
+  private index: HnswIndex | null = null
+  private loaded = false
+  private dirty = false
+
+  constructor(config: HnswVectorStoreConfig = {}) {
+    this.dir = config.path || path.join(process.cwd(), '.loopwork', 'vector-index')
+    this.options = config
+  }
+
+  /** Number of documents in the store */
+  get size(): number {
+    this.load()
+    return this.documents.size
+  }
+
+  async add(documents: Document[]): Promise<void> {
+    this.load()
+
+    for (const doc of documents) {
+      const { embedding, ...stored } = doc
+      this.documents.set(doc.id, stored)
+
+      if (embedding) {
+        this.indexFor(embedding.length).add(doc.id, embedding)
+      } else {
+        this.index?.remove(doc.id)
+      }
+    }
+
+    this.dirty = true
+  }
+
+  async search(query: string | number[], options?: SearchOptions): Promise<SearchResult[]> {
+    this.load()
+
+    const limit = options?.limit || 5
+    const threshold = options?.threshold
+    const filter = options?.filter
+    const matchesFilter = (doc: Document) => !filter || Object.entries(filter).every(([key, value]) =>
+      doc.metadata?.[key] === value
+    )
+
+    if (typeof query === 'string') {
+      return this.textSearch(query.toLowerCase(), limit, threshold, matchesFilter)
+    }
+
+    if (!this.index || query.length !== this.index.dimensions) return []
+
+    const results: SearchResult[] = []
+    const matches = this.index.search(query, limit, (id) => matchesFilter(this.documents.get(id)!))
+    for (const { id, score } of matches) {
+      if (threshold !== undefined && score < threshold) break
+      results.push({ document: this.documents.get(id)!, score })
+    }
+    return results
+  }
+
+  async delete(id: string): Promise<void> {
+    this.load()
+    if (this.documents.delete(id)) {
+      this.index?.remove(id)
+      this.dirty = true
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.load()
+    this.documents.clear()
+    this.index?.clear()
+    this.dirty = true
+  }
+
+  /**
+   * Write pending changes to disk
+   */
+  async flush(): Promise<void> {
+    if (!this.dirty) return
+
+    fs.mkdirSync(this.dir, { recursive: true })
+    const indexFile = path.join(this.dir, INDEX_FILE)
+    if (this.index && this.index.size > 0) {
+      this.index.save(indexFile)
+    } else {
+      fs.rmSync(indexFile, { force: true })
+      fs.rmSync(`${indexFile}.bin`, { force: true })
+    }
+
+    const data: StoreData = { documents: Array.from(this.documents.values()) }
+    const documentsFile = path.join(this.dir, DOCUMENTS_FILE)
+    const temp = `${documentsFile}.${process.pid}.tmp`
+    fs.writeFileSync(temp, JSON.stringify(data))
+    fs.renameSync(temp, documentsFile)
+
+    this.dirty = false
+  }
+
+  private load(): void {
+    if (this.loaded) return
+    this.loaded = true
+
+    const documentsFile = path.join(this.dir, DOCUMENTS_FILE)
+    try {
+      if (fs.existsSync(documentsFile)) {
+        const data: StoreData = JSON.parse(fs.readFileSync(documentsFile, 'utf-8'))
+        this.documents = new Map(data.documents.map(doc => [doc.id, doc]))
+      }
+    } catch (error) {
+      console.error('Failed to load vector index:', error)
+      this.documents = new Map()
+    }
+
+    this.index = HnswIndex.load(path.join(this.dir, INDEX_FILE), this.options)
+    if (this.index && this.options.dimensions && this.index.dimensions !== this.options.dimensions) {
+      // The embedding model changed; the old vectors cannot be compared with new ones
+      this.index = null
+      this.documents.clear()
+      this.dirty = true
+    }
+  }
+
+  private indexFor(dimensions: number): HnswIndex {
+    if (!this.index) {
+      this.index = new HnswIndex({ ...this.options, dimensions: this.options.dimensions ?? dimensions })
+    }
+    return this.index
+  }
+
+  private textSearch(
+    query: string,
+    limit: number,
+    threshold: number | undefined,
+    matchesFilter: (doc: Document) => boolean
+  ): SearchResult[] {
+    const queryWords = query.split(/\s+/)
+    const results: SearchResult[] = []
+
+    for (const doc of Array.from(this.documents.values())) {
+      if (!matchesFilter(doc)) continue
+      const content = doc.content.toLowerCase()
+      if (!content.includes(query)) continue
+
+      const contentWords = content.split(/\s+/)
+      const score = queryWords.filter(word => contentWords.includes(word)).length / queryWords.length
+      if (threshold === undefined || score >= threshold) {
+        results.push({ document: doc, score })
+      }
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+  }
+}
+
+export type { HnswVectorStoreConfig }
@@ -10,7 +10,18 @@ export {
   type GeminiEmbeddingConfig,
 } from './providers/gemini'
 
+export {
+  LocalEmbeddingProvider,
+  createLocalEmbeddingProvider,
+  type LocalEmbeddingConfig,
+} from './providers/local'
+
 export type { IEmbeddingProvider, IEmbeddingConfig } from '@loopwork-ai/contracts'
 
 export { LocalVectorStore } from './local-store'
 export type { Document, SearchOptions, SearchResult } from './local-store'
+
+export { HnswVectorStore } from './hnsw-store'
+export type { HnswVectorStoreConfig } from './hnsw-store'
+export { HnswIndex } from './hnsw-index'
+export type { HnswIndexOptions, HnswMatch } from './hnsw-index'
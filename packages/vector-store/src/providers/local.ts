@@ -0,0 +1,104 @@
+import { IEmbeddingProvider, IEmbeddingConfig } from '@loopwork-ai/contracts'
+
+export type LocalEmbeddingConfig = Pick<IEmbeddingConfig, 'dimensions'> & {
+  /** Weight of character trigrams relative to whole words (default: 0.5) */
+  trigramWeight?: number
+}
+
+const DEFAULT_DIMENSIONS = 256
+
+/** Words that say nothing about what code or prose is about */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or',
+  'the', 'this', 'to', 'with', 'const', 'let', 'var', 'function', 'return', 'import', 'export',
+  'if', 'else', 'new', 'true', 'false', 'null', 'undefined', 'void', 'async', 'await', 'def', 'self',
+])
+
+/**
+ * Embedding provider that runs in-process with no network, model download or
+ * GPU.
+ *
+ * Text is split into words and identifier parts (`getUserName` gives `get`,
+ * `user`, `name` and `getusername`), and each word adds its character
+ * trigrams so near-spellings match. Features are hashed into a fixed number
+ * of signed buckets with log-scaled term frequency, and the vector is
+ * normalized. Texts that share vocabulary end up close; it knows nothing
+ * about synonyms.
+ */
+export class LocalEmbeddingProvider implements IEmbeddingProvider {
+  readonly name = 'local-embedding'
+
+  private dimensions: number
+  private trigramWeight: number
+
+  constructor(config: LocalEmbeddingConfig = {}) {
+    this.dimensions = config.dimensions || DEFAULT_DIMENSIONS
+    this.trigramWeight = config.trigramWeight ?? 0.5
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return this.vectorize(text)
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vectorize(text))
+  }
+
+  private vectorize(text: string): number[] {
+    const counts = new Map<string, number>()
+    const count = (feature: string) => counts.set(feature, (counts.get(feature) ?? 0) + 1)
+
+    for (const word of tokenize(text)) {
+      if (STOP_WORDS.has(word)) continue
+      count(`w:${word}`)
+      if (this.trigramWeight > 0 && word.length > 3) {
+        const padded = `^${word}$`
+        for (let i = 0; i + 3 <= padded.length; i++) {
+          count(`t:${padded.slice(i, i + 3)}`)
+        }
+      }
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0)
+    for (const [feature, tf] of Array.from(counts.entries())) {
+      const hash = fnv1a(feature)
+      const bucket = (hash & 0x7fffffff) % this.dimensions
+      const sign = (hash >>> 31) === 0 ? 1 : -1
+      const weight = feature.startsWith('t:') ? this.trigramWeight : 1
+      vector[bucket] += sign * weight * (1 + Math.log(tf))
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+    return norm === 0 ? vector : vector.map(v => v / norm)
+  }
+}
+
+/**
+ * Lower-cased words, plus the parts of camelCase and snake_case identifiers
+ */
+function tokenize(text: string): string[] {
+  const words: string[] = []
+  for (const identifier of text.match(/[A-Za-z_][A-Za-z0-9_]*|\d+/g) ?? []) {
+    const parts = identifier.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|\d+/g) ?? []
+    const whole = identifier.replace(/_/g, '').toLowerCase()
+    if (whole) words.push(whole)
+    if (parts.length > 1) {
+      for (const part of parts) words.push(part.toLowerCase())
+    }
+  }
+  return words
+}
+
+/** 32-bit FNV-1a hash */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+export function createLocalEmbeddingProvider(config?: LocalEmbeddingConfig): LocalEmbeddingProvider {
+  return new LocalEmbeddingProvider(config)
+}
@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  LocalEmbeddingProvider,
+  createLocalEmbeddingProvider,
+} from '../local'
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0)
+}
+
+describe('LocalEmbeddingProvider', () => {
+  test('produces normalized vectors of the configured size', async () => {
+    const provider = createLocalEmbeddingProvider({ dimensions: 64 })
+    const vector = await provider.embed('getUserName returns the name of a user')
+
+    expect(provider.name).toBe('local-embedding')
+    expect(vector).toHaveLength(64)
+    expect(cosine(vector, vector)).toBeCloseTo(1)
+  })
+
+  test('is deterministic', async () => {
+    const provider = new LocalEmbeddingProvider()
+    const [first, second] = await provider.embedBatch(['parse the config file', 'parse the config file'])
+
+    expect(first).toEqual(second)
+    expect(first).toHaveLength(256)
+  })
+
+  test('matches identifiers to the words inside them', async () => {
+    const provider = new LocalEmbeddingProvider()
+    const query = await provider.embed('load user profile')
+    const related = await provider.embed('function loadUserProfile(id) { return db.users.find(id) }')
+    const unrelated = await provider.embed('function renderChart(series) { canvas.draw(series) }')
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated))
+  })
+
+  test('returns a zero vector for text without words', async () => {
+    const vector = await new LocalEmbeddingProvider({ dimensions: 8 }).embed('{ } ( ) ;')
+    expect(vector).toEqual(new Array(8).fill(0))
+  })
+})
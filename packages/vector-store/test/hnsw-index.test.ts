@@ -0,0 +1,129 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { HnswIndex } from '../src/hnsw-index'
+
+function seeded(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function randomVectors(count: number, dimensions: number, random: () => number): number[][] {
+  return Array.from({ length: count }, () => Array.from({ length: dimensions }, () => random() * 2 - 1))
+}
+
+function bruteForce(vectors: number[][], query: number[], k: number): number[] {
+  const cosine = (a: number[], b: number[]) => {
+    let dot = 0, na = 0, nb = 0
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i]
+      na += a[i] * a[i]
+      nb += b[i] * b[i]
+    }
+    return dot / Math.sqrt(na * nb)
+  }
+  return vectors
+    .map((vector, i) => ({ i, score: cosine(vector, query) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(({ i }) => i)
+}
+
+describe('HnswIndex', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hnsw-index-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('finds nearly the same neighbours as a linear scan', () => {
+    const random = seeded(42)
+    const vectors = randomVectors(2000, 32, random)
+    const index = new HnswIndex({ dimensions: 32, random })
+    vectors.forEach((vector, i) => index.add(`v${i}`, vector))
+
+    let hits = 0
+    const queries = randomVectors(50, 32, random)
+    for (const query of queries) {
+      const expected = new Set(bruteForce(vectors, query, 10).map(i => `v${i}`))
+      hits += index.search(query, 10).filter(match => expected.has(match.id)).length
+    }
+
+    expect(index.size).toBe(2000)
+    expect(hits / (queries.length * 10)).toBeGreaterThan(0.9)
+  })
+
+  test('returns results best first with cosine scores', () => {
+    const index = new HnswIndex({ dimensions: 3 })
+    index.add('x', [1, 0, 0])
+    index.add('xy', [1, 1, 0])
+    index.add('y', [0, 1, 0])
+
+    const matches = index.search([2, 0, 0], 3)
+
+    expect(matches.map(m => m.id)).toEqual(['x', 'xy', 'y'])
+    expect(matches[0].score).toBeCloseTo(1)
+    expect(matches[1].score).toBeCloseTo(Math.SQRT1_2)
+  })
+
+  test('replaces and removes vectors', () => {
+    const index = new HnswIndex({ dimensions: 2 })
+    index.add('a', [1, 0])
+    index.add('b', [0, 1])
+    index.add('a', [0, 1])
+
+    expect(index.size).toBe(2)
+    expect(index.search([1, 0], 1)[0].score).toBeCloseTo(0)
+
+    expect(index.remove('b')).toBe(true)
+    expect(index.remove('b')).toBe(false)
+    expect(index.search([0, 1], 5).map(m => m.id)).toEqual(['a'])
+  })
+
+  test('widens the search when the filter rejects the nearest vectors', () => {
+    const random = seeded(7)
+    const index = new HnswIndex({ dimensions: 8, efSearch: 4, random })
+    randomVectors(500, 8, random).forEach((vector, i) => index.add(`v${i}`, vector))
+
+    const matches = index.search(randomVectors(1, 8, random)[0], 5, id => id.endsWith('7'))
+
+    expect(matches).toHaveLength(5)
+    expect(matches.every(m => m.id.endsWith('7'))).toBe(true)
+  })
+
+  test('rejects vectors of the wrong length', () => {
+    const index = new HnswIndex({ dimensions: 2 })
+    expect(() => index.add('a', [1, 2, 3])).toThrow('index expects 2')
+  })
+
+  test('saves and loads the graph', () => {
+    const random = seeded(1)
+    const vectors = randomVectors(300, 16, random)
+    const index = new HnswIndex({ dimensions: 16, random })
+    vectors.forEach((vector, i) => index.add(`v${i}`, vector))
+    index.remove('v0')
+
+    const file = path.join(tempDir, 'index.hnsw')
+    index.save(file)
+    const loaded = HnswIndex.load(file)
+
+    expect(loaded).not.toBeNull()
+    expect(loaded!.size).toBe(299)
+    expect(loaded!.has('v0')).toBe(false)
+    const query = vectors[5]
+    expect(loaded!.search(query, 10)).toEqual(index.search(query, 10))
+  })
+
+  test('load returns null when nothing was saved', () => {
+    expect(HnswIndex.load(path.join(tempDir, 'missing.hnsw'))).toBeNull()
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { HnswVectorStore } from '../src/hnsw-store'
+import { LocalEmbeddingProvider } from '../src/providers/local'
+
+describe('HnswVectorStore', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hnsw-store-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('searches by embedding with limit, threshold and filter', async () => {
+    const store = new HnswVectorStore({ path: dir })
+    await store.add([
+      { id: 'a', content: 'a', embedding: [1, 0, 0], metadata: { kind: 'code' } },
+      { id: 'b', content: 'b', embedding: [0.9, 0.1, 0], metadata: { kind: 'docs' } },
+      { id: 'c', content: 'c', embedding: [0, 0, 1], metadata: { kind: 'code' } },
+    ])
+
+    expect((await store.search([1, 0, 0], { limit: 2 })).map(r => r.document.id)).toEqual(['a', 'b'])
+    expect((await store.search([1, 0, 0], { threshold: 0.5 })).map(r => r.document.id)).toEqual(['a', 'b'])
+    expect((await store.search([1, 0, 0], { filter: { kind: 'code' } })).map(r => r.document.id)).toEqual(['a', 'c'])
+  })
+
+  test('keeps extra document fields and drops embeddings from results', async () => {
+    const store = new HnswVectorStore({ path: dir })
+    await store.add([{ id: 'a', content: 'hello world', embedding: [1, 0], filePath: 'src/a.ts' } as never])
+
+    const [result] = await store.search([1, 0])
+
+    expect(result.document).toEqual({ id: 'a', content: 'hello world', filePath: 'src/a.ts' } as never)
+    expect((await store.search('hello'))[0].document.id).toBe('a')
+  })
+
+  test('persists on flush', async () => {
+    const store = new HnswVectorStore({ path: dir })
+    await store.add([
+      { id: 'a', content: 'a', embedding: [1, 0] },
+      { id: 'b', content: 'b', embedding: [0, 1] },
+    ])
+    await store.delete('b')
+
+    expect(new HnswVectorStore({ path: dir }).size).toBe(0)
+    await store.flush()
+
+    const reopened = new HnswVectorStore({ path: dir })
+    expect(reopened.size).toBe(1)
+    expect((await reopened.search([0, 1])).map(r => r.document.id)).toEqual(['a'])
+  })
+
+  test('starts over when the configured dimensions change', async () => {
+    const store = new HnswVectorStore({ path: dir })
+    await store.add([{ id: 'a', content: 'a', embedding: [1, 0] }])
+    await store.flush()
+
+    const reopened = new HnswVectorStore({ path: dir, dimensions: 3 })
+    expect(reopened.size).toBe(0)
+    await reopened.add([{ id: 'b', content: 'b', embedding: [1, 0, 0] }])
+    expect((await reopened.search([1, 0, 0])).map(r => r.document.id)).toEqual(['b'])
+  })
+
+  test('finds related code offline with local embeddings', async () => {
+    const embeddings = new LocalEmbeddingProvider()
+    const store = new HnswVectorStore({ path: dir })
+    const chunks = {
+      auth: 'export async function validateUserToken(token: string) { return jwt.verify(token, secret) }',
+      retry: 'function retryWithBackoff(fn, attempts) { for (let i = 0; i < attempts; i++) { await sleep(2 ** i) } }',
+      parse: 'export function parseMarkdownTable(markdown: string): string[][] { return rows.map(splitCells) }',
+    }
+    await store.add(await Promise.all(Object.entries(chunks).map(async ([id, content]) => ({
+      id,
+      content,
+      embedding: await embeddings.embed(content),
+    }))))
+
+    const [best] = await store.search(await embeddings.embed('where is the user token validated'), { limit: 1 })
+
+    expect(best.document.id).toBe('auth')
+  })
+})
@@ -0,0 +1,209 @@
+import type { LoopworkPlugin, Task, TaskBackend, TaskStatus } from '@loopwork-ai/loopwork/contracts'
+import { topologicalStages } from './parser'
+import type {
+  AdvanceResult,
+  MaterializeResult,
+  StageDefinition,
+  StageEdge,
+  StageProgress,
+  StageState,
+  WorkflowDefinition,
+  WorkflowTaskRef,
+} from './types'
+
+const SETTLED: TaskStatus[] = ['completed', 'failed', 'quarantined', 'cancelled']
+const NOT_STARTED: TaskStatus[] = ['pending', 'blocked']
+
+function workflowRef(task: Task): WorkflowTaskRef | undefined {
+  const ref = task.metadata?.workflow as WorkflowTaskRef | undefined
+  return ref && typeof ref.stage === 'string' ? ref : undefined
+}
+
+/**
+ * Backend tasks of a workflow, grouped by stage id
+ */
+async function tasksByStage(workflow: WorkflowDefinition, backend: TaskBackend): Promise<Map<string, Task[]>> {
+  const all = await backend.listTasks({ includeBlocked: true })
+  const byStage = new Map<string, Task[]>(workflow.stages.map(s => [s.id, []]))
+  for (const task of all) {
+    const ref = workflowRef(task)
+    if (ref?.name === workflow.name) {
+      byStage.get(ref.stage)?.push(task)
+    }
+  }
+  return byStage
+}
+
+/**
+ * Stages with a conditional edge wait in 'blocked' until the condition resolves;
+ * plain success edges are backend dependencies instead
+ */
+function isConditional(stage: StageDefinition): boolean {
+  return stage.needs.some(edge => edge.on !== 'success')
+}
+
+export function stageState(tasks: Task[]): StageState {
+  if (tasks.length === 0) return 'succeeded'
+  if (tasks.every(t => SETTLED.includes(t.status))) {
+    if (tasks.every(t => t.status === 'completed')) return 'succeeded'
+    if (tasks.every(t => t.status === 'cancelled')) return 'skipped'
+    return 'failed'
+  }
+  if (tasks.every(t => NOT_STARTED.includes(t.status))) return 'waiting'
+  return 'running'
+}
+
+/**
+ * Whether an edge is met, can never be met, or is still open
+ */
+function edgeResolution(edge: StageEdge, upstream: StageState): 'met' | 'unmet' | 'open' {
+  if (upstream === 'waiting' || upstream === 'running') return 'open'
+  if (edge.on === 'always') return 'met'
+  if (edge.on === 'success') return upstream === 'succeeded' ? 'met' : 'unmet'
+  return upstream === 'failed' ? 'met' : 'unmet'
+}
+
+/**
+ * Create backend tasks for every workflow task that does not exist yet
+ *
+ * Idempotent: tasks are matched to existing ones by task.metadata.workflow,
+ * so loading the same workflow again only adds new stages and tasks.
+ */
+export async function materializeWorkflow(workflow: WorkflowDefinition, backend: TaskBackend): Promise<MaterializeResult> {
+  if (!backend.createTask || !backend.addDependency) {
+    throw new Error(`Backend ${backend.name} cannot create tasks or dependencies, which workflows need`)
+  }
+
+  const existing = await tasksByStage(workflow, backend)
+  const ids = new Map<string, string[]>()
+  const created: string[] = []
+  let existingCount = 0
+
+  for (const stage of topologicalStages(workflow)) {
+    const stageTasks = existing.get(stage.id) ?? []
+    const stageIds: string[] = []
+
+    for (const def of stage.tasks) {
+      const found = stageTasks.find(t => workflowRef(t)?.task === def.id)
+      if (found) {
+        existingCount++
+        stageIds.push(found.id)
+        continue
+      }
+
+      const cli = def.cli ?? stage.cli ?? workflow.defaults.cli
+      const model = def.model ?? stage.model ?? workflow.defaults.model
+      const ref: WorkflowTaskRef = { name: workflow.name, stage: stage.id, task: def.id }
+      const task = await backend.createTask({
+        title: def.title,
+        description: def.description ?? '',
+        priority: def.priority ?? stage.priority ?? workflow.defaults.priority ?? 'medium',
+        feature: workflow.feature,
+        metadata: {
+          workflow: ref,
+          ...(cli ? { preferredCli: cli } : {}),
+          ...(model ? { preferredModel: model } : {}),
+          ...(def.successCriteria ? { successCriteria: def.successCriteria } : {}),
+        },
+      })
+
+      for (const edge of stage.needs.filter(e => e.on === 'success')) {
+        for (const upstreamId of ids.get(edge.stage) ?? []) {
+          await backend.addDependency(task.id, upstreamId)
+        }
+      }
+      if (isConditional(stage)) {
+        await backend.updateTask?.(task.id, { status: 'blocked' })
+      }
+
+      created.push(task.id)
+      stageIds.push(task.id)
+    }
+
+    ids.set(stage.id, stageIds)
+  }
+
+  return { created, existing: existingCount }
+}
+
+/**
+ * Resolve edges whose upstream stages have settled
+ *
+ * Releases blocked tasks of stages whose conditions are all met and cancels
+ * not-yet-started tasks of stages that can no longer run (e.g. a success
+ * edge from a failed stage), cascading through the graph in one pass.
+ */
+export async function advanceWorkflow(workflow: WorkflowDefinition, backend: TaskBackend): Promise<AdvanceResult> {
+  const byStage = await tasksByStage(workflow, backend)
+  const states = new Map<string, StageState>()
+  const result: AdvanceResult = { released: [], skipped: [] }
+
+  for (const stage of topologicalStages(workflow)) {
+    const tasks = byStage.get(stage.id) ?? []
+    const resolutions = stage.needs.map(edge => edgeResolution(edge, states.get(edge.stage) ?? 'waiting'))
+    const notStarted = tasks.filter(t => NOT_STARTED.includes(t.status))
+
+    if (resolutions.includes('unmet')) {
+      for (const task of notStarted) {
+        await backend.updateTask?.(task.id, { status: 'cancelled' })
+        task.status = 'cancelled'
+        result.skipped.push(task.id)
+      }
+    } else if (resolutions.every(r => r === 'met')) {
+      for (const task of notStarted.filter(t => t.status === 'blocked')) {
+        await backend.resetToPending(task.id)
+        task.status = 'pending'
+        result.released.push(task.id)
+      }
+    }
+
+    states.set(stage.id, stageState(tasks))
+  }
+
+  return result
+}
+
+export async function getWorkflowProgress(workflow: WorkflowDefinition, backend: TaskBackend): Promise<StageProgress[]> {
+  const byStage = await tasksByStage(workflow, backend)
+  return workflow.stages.map(stage => {
+    const tasks = byStage.get(stage.id) ?? []
+    const count = (...statuses: TaskStatus[]) => tasks.filter(t => statuses.includes(t.status)).length
+    return {
+      stage: stage.id,
+      title: stage.title,
+      state: tasks.length === 0 ? 'waiting' : stageState(tasks),
+      total: tasks.length,
+      completed: count('completed'),
+      failed: count('failed', 'quarantined'),
+      inProgress: count('in-progress'),
+      waiting: count('pending', 'blocked'),
+      cancelled: count('cancelled'),
+    }
+  })
+}
+
+/**
+ * Materializes the workflow once the backend is ready and advances it
+ * after every task outcome
+ */
+export function createWorkflowPlugin(workflow: WorkflowDefinition): LoopworkPlugin {
+  let backend: TaskBackend | null = null
+
+  const advance = async () => {
+    if (backend) await advanceWorkflow(workflow, backend)
+  }
+
+  return {
+    name: 'workflow',
+    classification: 'critical',
+
+    async onBackendReady(ready: TaskBackend) {
+      backend = ready
+      await materializeWorkflow(workflow, ready)
+      await advanceWorkflow(workflow, ready)
+    },
+
+    onTaskComplete: advance,
+    onTaskFailed: advance,
+  }
+}
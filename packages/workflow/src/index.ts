@@ -0,0 +1,6 @@
+// Declarative workflow files for Loopwork
+// Stages of tasks connected by (conditional) edges, materialized into backend tasks
+
+export * from './types'
+export * from './parser'
+export * from './engine'
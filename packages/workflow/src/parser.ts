@@ -0,0 +1,281 @@
+import fs from 'fs'
+import { parse as parseYaml } from 'yaml'
+import { ParseError } from '@loopwork-ai/contracts'
+import type { Priority } from '@loopwork-ai/contracts'
+import type {
+  EdgeCondition,
+  ExecutionOverrides,
+  StageDefinition,
+  StageEdge,
+  WorkflowDefinition,
+  WorkflowTaskDefinition,
+  WorkflowValidation,
+} from './types'
+
+export const DEFAULT_WORKFLOW_FILE = 'loopwork.workflow.yaml'
+
+const EDGE_CONDITIONS: EdgeCondition[] = ['success', 'failure', 'always']
+const PRIORITIES: Priority[] = ['high', 'medium', 'low', 'background']
+
+type RawObject = Record<string, unknown>
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+}
+
+function readOverrides(raw: RawObject, where: string, errors: string[]): ExecutionOverrides {
+  const overrides: ExecutionOverrides = {}
+  for (const key of ['cli', 'model'] as const) {
+    if (raw[key] === undefined) continue
+    if (typeof raw[key] === 'string') {
+      overrides[key] = raw[key] as string
+    } else {
+      errors.push(`${where}: ${key} must be a string`)
+    }
+  }
+  if (raw.priority !== undefined) {
+    if (PRIORITIES.includes(raw.priority as Priority)) {
+      overrides.priority = raw.priority as Priority
+    } else {
+      errors.push(`${where}: priority must be one of ${PRIORITIES.join(', ')}`)
+    }
+  }
+  return overrides
+}
+
+/**
+ * Read `needs` entries, either a stage id or { stage, on }
+ */
+function readEdges(raw: unknown, where: string, errors: string[]): StageEdge[] {
+  if (raw === undefined) return []
+  const entries = Array.isArray(raw) ? raw : [raw]
+  const edges: StageEdge[] = []
+
+  for (const entry of entries) {
+    if (typeof entry === 'string') {
+      edges.push({ stage: entry, on: 'success' })
+    } else if (isObject(entry) && typeof entry.stage === 'string') {
+      const on = (entry.on ?? 'success') as EdgeCondition
+      if (!EDGE_CONDITIONS.includes(on)) {
+        errors.push(`${where}: needs.on must be one of ${EDGE_CONDITIONS.join(', ')}`)
+        continue
+      }
+      edges.push({ stage: entry.stage, on })
+    } else {
+      errors.push(`${where}: needs entries must be a stage id or { stage, on }`)
+    }
+  }
+
+  return edges
+}
+
+function readTask(raw: unknown, where: string, errors: string[]): WorkflowTaskDefinition | null {
+  if (typeof raw === 'string') {
+    raw = { title: raw }
+  }
+  if (!isObject(raw) || typeof raw.title !== 'string' || !raw.title.trim()) {
+    errors.push(`${where}: task needs a title`)
+    return null
+  }
+
+  const id = typeof raw.id === 'string' && raw.id ? raw.id : slugify(raw.title)
+  const task: WorkflowTaskDefinition = {
+    id,
+    title: raw.title.trim(),
+    ...readOverrides(raw, `${where} (${id})`, errors),
+  }
+  if (typeof raw.description === 'string') {
+    task.description = raw.description
+  }
+  if (raw.successCriteria !== undefined) {
+    if (Array.isArray(raw.successCriteria) && raw.successCriteria.every(c => typeof c === 'string')) {
+      task.successCriteria = raw.successCriteria as string[]
+    } else {
+      errors.push(`${where} (${id}): successCriteria must be a list of strings`)
+    }
+  }
+  return task
+}
+
+function readStage(raw: unknown, index: number, errors: string[], warnings: string[]): StageDefinition | null {
+  if (!isObject(raw) || typeof raw.id !== 'string' || !raw.id) {
+    errors.push(`stages[${index}]: stage needs an id`)
+    return null
+  }
+
+  const where = `stage ${raw.id}`
+  const tasks: WorkflowTaskDefinition[] = []
+  if (!Array.isArray(raw.tasks) || raw.tasks.length === 0) {
+    warnings.push(`${where}: has no tasks`)
+  } else {
+    const seen = new Set<string>()
+    raw.tasks.forEach((entry, i) => {
+      const task = readTask(entry, `${where} task ${i + 1}`, errors)
+      if (!task) return
+      if (seen.has(task.id)) {
+        errors.push(`${where}: duplicate task id ${task.id}`)
+        return
+      }
+      seen.add(task.id)
+      tasks.push(task)
+    })
+  }
+
+  return {
+    id: raw.id,
+    title: typeof raw.title === 'string' ? raw.title : undefined,
+    needs: readEdges(raw.needs, where, errors),
+    tasks,
+    ...readOverrides(raw, where, errors),
+  }
+}
+
+/**
+ * Find a dependency cycle between stages
+ *
+ * @returns The stage ids forming the cycle, first id repeated at the end, or null
+ */
+export function findCycle(stages: Pick<StageDefinition, 'id' | 'needs'>[]): string[] | null {
+  const needs = new Map(stages.map(s => [s.id, s.needs.map(e => e.stage)]))
+  const state = new Map<string, 'visiting' | 'done'>()
+  const path: string[] = []
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done') return null
+    if (state.get(id) === 'visiting') {
+      return [...path.slice(path.indexOf(id)), id]
+    }
+    state.set(id, 'visiting')
+    path.push(id)
+    for (const upstream of needs.get(id) ?? []) {
+      const cycle = visit(upstream)
+      if (cycle) return cycle
+    }
+    path.pop()
+    state.set(id, 'done')
+    return null
+  }
+
+  for (const stage of stages) {
+    const cycle = visit(stage.id)
+    if (cycle) return cycle
+  }
+  return null
+}
+
+/**
+ * Order stages so every stage comes after the stages it needs
+ */
+export function topologicalStages(workflow: WorkflowDefinition): StageDefinition[] {
+  const ordered: StageDefinition[] = []
+  const placed = new Set<string>()
+  const byId = new Map(workflow.stages.map(s => [s.id, s]))
+
+  const place = (stage: StageDefinition) => {
+    if (placed.has(stage.id)) return
+    placed.add(stage.id)
+    for (const edge of stage.needs) {
+      const upstream = byId.get(edge.stage)
+      if (upstream) place(upstream)
+    }
+    ordered.push(stage)
+  }
+
+  workflow.stages.forEach(place)
+  return ordered
+}
+
+/**
+ * Validate a parsed workflow document and normalize it
+ */
+export function validateWorkflow(raw: unknown): WorkflowValidation {
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  if (!isObject(raw)) {
+    return { valid: false, errors: ['Workflow must be a mapping with name and stages'], warnings }
+  }
+  if (typeof raw.name !== 'string' || !raw.name) {
+    errors.push('Workflow needs a name')
+  }
+  if (!Array.isArray(raw.stages) || raw.stages.length === 0) {
+    errors.push('Workflow needs at least one stage')
+    return { valid: false, errors, warnings }
+  }
+
+  const stages: StageDefinition[] = []
+  const ids = new Set<string>()
+  raw.stages.forEach((entry, i) => {
+    const stage = readStage(entry, i, errors, warnings)
+    if (!stage) return
+    if (ids.has(stage.id)) {
+      errors.push(`Duplicate stage id ${stage.id}`)
+      return
+    }
+    ids.add(stage.id)
+    stages.push(stage)
+  })
+
+  for (const stage of stages) {
+    for (const edge of stage.needs) {
+      if (edge.stage === stage.id) {
+        errors.push(`stage ${stage.id}: cannot need itself`)
+      } else if (!ids.has(edge.stage)) {
+        errors.push(`stage ${stage.id}: needs unknown stage ${edge.stage}`)
+      }
+    }
+  }
+
+  const cycle = findCycle(stages.map(s => ({ ...s, needs: s.needs.filter(e => e.stage !== s.id) })))
+  if (cycle) {
+    errors.push(`Stages form a cycle: ${cycle.join(' -> ')}`)
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors, warnings }
+  }
+
+  const workflow: WorkflowDefinition = {
+    name: raw.name as string,
+    description: typeof raw.description === 'string' ? raw.description : undefined,
+    feature: typeof raw.feature === 'string' ? raw.feature : undefined,
+    defaults: isObject(raw.defaults) ? readOverrides(raw.defaults, 'defaults', errors) : {},
+    stages,
+  }
+  if (errors.length > 0) {
+    return { valid: false, errors, warnings }
+  }
+  return { valid: true, errors, warnings, workflow }
+}
+
+/**
+ * Parse and validate workflow YAML
+ *
+ * @throws ParseError with code WORKFLOW_INVALID listing every problem found
+ */
+export function parseWorkflow(content: string): WorkflowDefinition {
+  let raw: unknown
+  try {
+    raw = parseYaml(content)
+  } catch (error) {
+    throw new ParseError(
+      `Workflow is not valid YAML: ${error instanceof Error ? error.message : String(error)}`,
+      'PARSE_ERROR',
+      error instanceof Error ? error : undefined
+    )
+  }
+
+  const result = validateWorkflow(raw)
+  if (!result.valid || !result.workflow) {
+    throw new ParseError(`Invalid workflow:\n${result.errors.map(e => `  - ${e}`).join('\n')}`, 'WORKFLOW_INVALID')
+  }
+  return result.workflow
+}
+
+export function loadWorkflowFile(file: string): WorkflowDefinition {
+  return parseWorkflow(fs.readFileSync(file, 'utf-8'))
+}
@@ -0,0 +1,102 @@
+/**
+ * Workflow Types
+ *
+ * A workflow groups tasks into stages connected by edges. Tasks within a
+ * stage run independently (fan-out); a stage that needs several stages
+ * waits for all of them (fan-in).
+ */
+
+import type { Priority } from '@loopwork-ai/contracts'
+
+/**
+ * Upstream outcome an edge fires on
+ *
+ * - success: every task of the upstream stage completed
+ * - failure: the upstream stage settled with at least one task not completed
+ * - always: the upstream stage settled either way
+ */
+export type EdgeCondition = 'success' | 'failure' | 'always'
+
+export interface StageEdge {
+  stage: string
+  on: EdgeCondition
+}
+
+/**
+ * CLI/model overrides, applied task > stage > workflow defaults
+ */
+export interface ExecutionOverrides {
+  cli?: string
+  model?: string
+  priority?: Priority
+}
+
+export interface WorkflowTaskDefinition extends ExecutionOverrides {
+  /** Id unique within the stage; defaults to a slug of the title */
+  id: string
+  title: string
+  description?: string
+  /** Copied to task metadata for the acceptance gate */
+  successCriteria?: string[]
+}
+
+export interface StageDefinition extends ExecutionOverrides {
+  id: string
+  title?: string
+  needs: StageEdge[]
+  tasks: WorkflowTaskDefinition[]
+}
+
+export interface WorkflowDefinition {
+  name: string
+  description?: string
+  /** Feature assigned to every task (also used as task id prefix by some backends) */
+  feature?: string
+  defaults: ExecutionOverrides
+  stages: StageDefinition[]
+}
+
+export interface WorkflowValidation {
+  valid: boolean
+  errors: string[]
+  warnings: string[]
+  workflow?: WorkflowDefinition
+}
+
+/**
+ * Identifies a backend task as part of a workflow, stored in task.metadata.workflow
+ */
+export interface WorkflowTaskRef {
+  name: string
+  stage: string
+  task: string
+}
+
+export type StageState = 'waiting' | 'running' | 'succeeded' | 'failed' | 'skipped'
+
+export interface StageProgress {
+  stage: string
+  title?: string
+  state: StageState
+  total: number
+  completed: number
+  failed: number
+  inProgress: number
+  /** Pending, or blocked waiting on a conditional edge */
+  waiting: number
+  cancelled: number
+}
+
+export interface MaterializeResult {
+  /** Backend ids of tasks created by this call */
+  created: string[]
+  /** Workflow tasks that already existed in the backend */
+  existing: number
+}
+
+export interface AdvanceResult {
+  /** Tasks released because their stage's conditions are now met */
+  released: string[]
+  /** Tasks cancelled because their stage can no longer run */
+  skipped: string[]
+}
@@ -0,0 +1,221 @@
+import { describe, test, expect, beforeEach } from 'bun:test'
+import type { Task, TaskBackend, TaskStatus } from '@loopwork-ai/contracts'
+import {
+  parseWorkflow,
+  validateWorkflow,
+  topologicalStages,
+  materializeWorkflow,
+  advanceWorkflow,
+  getWorkflowProgress,
+} from '../src'
+
+const WORKFLOW = `
+name: checkout
+feature: checkout
+defaults:
+  cli: claude
+  model: sonnet
+stages:
+  - id: design
+    tasks:
+      - id: api
+        title: Design the checkout API
+        successCriteria:
+          - API documented
+  - id: build
+    needs: [design]
+    model: opus
+    tasks:
+      - Build the backend
+      - title: Build the frontend
+        cli: opencode
+  - id: release
+    needs: build
+    tasks:
+      - Ship it
+  - id: rollback
+    needs:
+      - stage: build
+        on: failure
+    tasks:
+      - Revert the release branch
+`
+
+/**
+ * Minimal in-memory backend covering what workflows use
+ */
+function createBackend(): TaskBackend & { tasks: Task[] } {
+  const tasks: Task[] = []
+  const find = (id: string) => tasks.find(t => t.id === id)!
+  return {
+    name: 'memory',
+    tasks,
+    async listTasks(options) {
+      return tasks.filter(t => options?.includeBlocked || (t.dependsOn ?? []).every(d => find(d).status === 'completed'))
+    },
+    async createTask(input) {
+      const task: Task = { ...input, id: `TASK-${tasks.length + 1}`, status: 'pending', dependsOn: [] }
+      tasks.push(task)
+      return task
+    },
+    async addDependency(taskId, dependsOnId) {
+      find(taskId).dependsOn!.push(dependsOnId)
+      return { success: true }
+    },
+    async updateTask(taskId, updates) {
+      Object.assign(find(taskId), updates)
+      return { success: true }
+    },
+    async resetToPending(taskId) {
+      find(taskId).status = 'pending'
+      return { success: true }
+    },
+  } as unknown as TaskBackend & { tasks: Task[] }
+}
+
+function setStatus(backend: { tasks: Task[] }, title: string, status: TaskStatus) {
+  backend.tasks.find(t => t.title === title)!.status = status
+}
+
+function statuses(backend: { tasks: Task[] }): Record<string, TaskStatus> {
+  return Object.fromEntries(backend.tasks.map(t => [t.title, t.status]))
+}
+
+describe('parseWorkflow', () => {
+  test('normalizes stages, edges and tasks', () => {
+    const workflow = parseWorkflow(WORKFLOW)
+
+    expect(workflow.stages.map(s => s.id)).toEqual(['design', 'build', 'release', 'rollback'])
+    expect(workflow.stages[1].needs).toEqual([{ stage: 'design', on: 'success' }])
+    expect(workflow.stages[2].needs).toEqual([{ stage: 'build', on: 'success' }])
+    expect(workflow.stages[3].needs).toEqual([{ stage: 'build', on: 'failure' }])
+    expect(workflow.stages[1].tasks.map(t => t.id)).toEqual(['build-the-backend', 'build-the-frontend'])
+  })
+
+  test('reports unknown stages, duplicates and bad conditions together', () => {
+    const result = validateWorkflow({
+      name: 'broken',
+      stages: [
+        { id: 'a', tasks: ['One'], needs: ['missing'] },
+        { id: 'a', tasks: ['Two'] },
+        { id: 'b', tasks: ['Three', 'Three'], needs: [{ stage: 'a', on: 'sometimes' }] },
+      ],
+    })
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toEqual([
+      'Duplicate stage id a',
+      'stage b: duplicate task id three',
+      'stage b: needs.on must be one of success, failure, always',
+      'stage a: needs unknown stage missing',
+    ])
+  })
+
+  test('rejects cycles', () => {
+    expect(() => parseWorkflow(`
+name: loop
+stages:
+  - { id: a, needs: [c], tasks: [A] }
+  - { id: b, needs: [a], tasks: [B] }
+  - { id: c, needs: [b], tasks: [C] }
+`)).toThrow('Stages form a cycle: a -> c -> b -> a')
+  })
+
+  test('rejects invalid YAML', () => {
+    expect(() => parseWorkflow('name: [unclosed')).toThrow('Workflow is not valid YAML')
+  })
+
+  test('orders stages after the stages they need', () => {
+    const workflow = parseWorkflow(`
+name: order
+stages:
+  - { id: deploy, needs: [build, test], tasks: [Deploy] }
+  - { id: test, needs: [build], tasks: [Test] }
+  - { id: build, tasks: [Build] }
+`)
+    expect(topologicalStages(workflow).map(s => s.id)).toEqual(['build', 'test', 'deploy'])
+  })
+})
+
+describe('workflow engine', () => {
+  let backend: ReturnType<typeof createBackend>
+
+  beforeEach(() => {
+    backend = createBackend()
+  })
+
+  test('materializes tasks with dependencies and overrides', async () => {
+    const workflow = parseWorkflow(WORKFLOW)
+    const result = await materializeWorkflow(workflow, backend)
+
+    expect(result).toEqual({ created: ['TASK-1', 'TASK-2', 'TASK-3', 'TASK-4', 'TASK-5'], existing: 0 })
+    const [api, backendTask, frontend, ship, revert] = backend.tasks
+    expect(api.metadata).toEqual({
+      workflow: { name: 'checkout', stage: 'design', task: 'api' },
+      preferredCli: 'claude',
+      preferredModel: 'sonnet',
+      successCriteria: ['API documented'],
+    })
+    expect(backendTask.metadata).toMatchObject({ preferredCli: 'claude', preferredModel: 'opus' })
+    expect(frontend.metadata).toMatchObject({ preferredCli: 'opencode', preferredModel: 'opus' })
+    expect(backendTask.dependsOn).toEqual(['TASK-1'])
+    expect(ship.dependsOn).toEqual(['TASK-2', 'TASK-3'])
+    expect(revert.dependsOn).toEqual([])
+    expect(revert.status).toBe('blocked')
+  })
+
+  test('does not duplicate tasks when loaded again', async () => {
+    const workflow = parseWorkflow(WORKFLOW)
+    await materializeWorkflow(workflow, backend)
+    const again = await materializeWorkflow(workflow, backend)
+
+    expect(again).toEqual({ created: [], existing: 5 })
+    expect(backend.tasks).toHaveLength(5)
+  })
+
+  test('skips the failure branch when the upstream stage succeeds', async () => {
+    const workflow = parseWorkflow(WORKFLOW)
+    await materializeWorkflow(workflow, backend)
+    setStatus(backend, 'Design the checkout API', 'completed')
+    setStatus(backend, 'Build the backend', 'completed')
+    setStatus(backend, 'Build the frontend', 'completed')
+
+    const result = await advanceWorkflow(workflow, backend)
+
+    expect(result).toEqual({ released: [], skipped: ['TASK-5'] })
+    expect(statuses(backend)['Ship it']).toBe('pending')
+    expect(statuses(backend)['Revert the release branch']).toBe('cancelled')
+  })
+
+  test('runs the failure branch and skips downstream success edges on failure', async () => {
+    const workflow = parseWorkflow(WORKFLOW)
+    await materializeWorkflow(workflow, backend)
+    setStatus(backend, 'Design the checkout API', 'completed')
+    setStatus(backend, 'Build the backend', 'completed')
+    setStatus(backend, 'Build the frontend', 'in-progress')
+
+    expect(await advanceWorkflow(workflow, backend)).toEqual({ released: [], skipped: [] })
+
+    setStatus(backend, 'Build the frontend', 'failed')
+    const result = await advanceWorkflow(workflow, backend)
+
+    expect(result).toEqual({ released: ['TASK-5'], skipped: ['TASK-4'] })
+    expect(statuses(backend)['Revert the release branch']).toBe('pending')
+  })
+
+  test('reports progress per stage', async () => {
+    const workflow = parseWorkflow(WORKFLOW)
+    await materializeWorkflow(workflow, backend)
+    setStatus(backend, 'Design the checkout API', 'completed')
+    setStatus(backend, 'Build the backend', 'in-progress')
+
+    const progress = await getWorkflowProgress(workflow, backend)
+
+    expect(progress.map(p => [p.stage, p.state, p.completed, p.total])).toEqual([
+      ['design', 'succeeded', 1, 1],
+      ['build', 'running', 0, 2],
+      ['release', 'waiting', 0, 1],
+      ['rollback', 'waiting', 0, 1],
+    ])
+  })
+})